@@ -0,0 +1,290 @@
+/**
+ * API authentication and role checks
+ *
+ * When access control is enabled (access-control.json), every /api request is checked
+ * against the role of its caller:
+ *   - The caller sends the Entra ID ID token of the signed-in user as
+ *     "Authorization: Bearer <token>". It is validated against the tenant's signing
+ *     keys, ENTRA_CLIENT_ID (audience) and the allowed tenants: ENTRA_TENANT_ID and
+ *     ENTRA_ALLOWED_TENANT_IDS. Without a tenant ID no token is accepted, so access
+ *     control cannot be enabled.
+ *   - The role is resolved by the bundled access control service
+ *     (bundles/access-control.cjs, built by `npm run build:server`) - the same rules
+ *     as the UI. Requests without a token get 401 on every route except PUBLIC_ROUTES
+ *     and GET /api/access, which tells the app to sign in.
+ *   - ROUTE_PERMISSIONS lists the permission each route needs. Other writes need
+ *     config.edit. Agents only see their own calls and audio.
+ * With access control disabled every caller has full access, as before.
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+
+const ACCESS_CONTROL_PATH = path.join(__dirname, 'bundles', 'access-control.cjs');
+const JWKS_CACHE_MS = 24 * 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 300;
+
+/**
+ * Permission needed per route (path relative to /api). The first match wins; a rule
+ * without a method applies to every method. GET requests without a rule are open to
+ * every signed-in role.
+ */
+const ROUTE_PERMISSIONS = [
+  { method: 'PUT', path: /^\/calls$/, permission: 'calls.delete' },   // Replacing the list can drop calls
+  { method: 'PUT', path: /^\/calls\/[^/]+$/, permission: 'calls.process' },
+  { method: 'POST', path: /^\/calls\/[^/]+\/claim$/, permission: 'calls.process' },
+  { method: 'DELETE', path: /^\/calls\/[^/]+$/, permission: 'calls.delete' },
+  { method: 'PUT', path: /^\/audio\/[^/]+$/, permission: 'calls.process' },
+  { method: 'DELETE', path: /^\/audio(\/[^/]+)?$/, permission: 'calls.delete' },
+  { path: /^\/(openai|speech)\//, permission: 'calls.process' },
+  { method: 'POST', path: /^\/usage\/[^/]+$/, permission: 'calls.process' },   // Recorded by every AI request
+  { path: /^\/schemas\/[^/]+\/(webhooks|webhook-deliveries|ingestion)/, permission: 'config.edit' },
+  { path: /^\/schemas\/[^/]+\/reports\//, permission: 'calls.export' },
+  { path: /^\/reports\//, permission: 'calls.export' },
+  { method: 'PUT', path: /^\/schemas\/[^/]+\/(rules|rule-sets|prompt-versions|golden-calls|prompt-comparisons)$/, permission: 'rules.edit' },
+  { method: 'DELETE', path: /^\/schemas\/[^/]+\/rules$/, permission: 'rules.edit' },
+  { method: 'PUT', path: /^\/schemas\/[^/]+\/coaching-plans$/, permission: 'coaching.edit' },
+  { method: 'PUT', path: /^\/schemas\/[^/]+\/report-templates$/, permission: 'calls.export' },
+  { method: 'PUT', path: /^\/schemas(\/[^/]+)?$/, permission: 'schemas.edit' },
+  { method: 'DELETE', path: /^\/schemas\/[^/]+$/, permission: 'schemas.edit' },
+  { path: /^\/access-control$/, permission: 'config.edit' },   // Lists every user; roles come from /access
+];
+
+/** Routes open to everyone, needed before sign-in */
+const PUBLIC_ROUTES = [/^\/health$/, /^\/config$/];
+
+/** Routes callers without a token may use once access control is enabled */
+const ANONYMOUS_ROUTES = [/^\/access$/];
+
+let accessControl;
+
+/**
+ * Load the access control service once; null when the bundle has not been built
+ */
+function loadAccessControl() {
+  if (accessControl === undefined) {
+    try {
+      accessControl = require(ACCESS_CONTROL_PATH);
+    } catch (error) {
+      console.warn(`⚠️ Access control service not available (${error.message}). Run "npm run build:server".`);
+      accessControl = null;
+    }
+  }
+  return accessControl;
+}
+
+class AuthError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function decodeSegment(segment) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+const TENANT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Tenant IDs whose tokens are accepted: the sign-in tenant when it is a GUID, plus the
+ * comma-separated allowed list (for a multi-tenant sign-in authority such as 'organizations')
+ */
+function parseAllowedTenants(tenantId, allowedTenantIds) {
+  const ids = [tenantId, ...String(allowedTenantIds || '').split(',')]
+    .map(id => String(id || '').trim().toLowerCase())
+    .filter(id => TENANT_ID_PATTERN.test(id));
+  return [...new Set(ids)];
+}
+
+/**
+ * Validates Entra ID tokens with the tenant's published signing keys
+ */
+class EntraTokenValidator {
+  constructor({ clientId, tenantId, allowedTenantIds }) {
+    this.clientId = clientId;
+    this.tenantId = tenantId;
+    this.allowedTenants = parseAllowedTenants(tenantId, allowedTenantIds);
+    this.keys = new Map();
+    this.keysFetchedAt = 0;
+  }
+
+  /** Tokens are only accepted with a client ID and at least one allowed tenant */
+  get configured() {
+    return !!this.clientId && this.allowedTenants.length > 0;
+  }
+
+  async fetchKeys() {
+    const tenant = this.tenantId || 'common';
+    const response = await fetch(`https://login.microsoftonline.com/${encodeURIComponent(tenant)}/discovery/v2.0/keys`);
+    if (!response.ok) {
+      throw new Error(`Failed to load Entra ID signing keys: ${response.status} ${response.statusText}`);
+    }
+    const { keys } = await response.json();
+    this.keys = new Map(keys.map(jwk => [jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' })]));
+    this.keysFetchedAt = Date.now();
+  }
+
+  async getKey(kid) {
+    // Keys roll over: refetch when a token is signed with a key we do not know yet
+    if (!this.keys.has(kid) || Date.now() - this.keysFetchedAt > JWKS_CACHE_MS) {
+      await this.fetchKeys();
+    }
+    return this.keys.get(kid);
+  }
+
+  /**
+   * The claims of a valid token; throws AuthError otherwise
+   */
+  async validate(token) {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new AuthError('Malformed token');
+
+    let header;
+    let claims;
+    try {
+      header = decodeSegment(parts[0]);
+      claims = decodeSegment(parts[1]);
+    } catch {
+      throw new AuthError('Malformed token');
+    }
+    if (header.alg !== 'RS256') throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+
+    const key = await this.getKey(header.kid);
+    if (!key) throw new AuthError('Token signed with an unknown key');
+    const signed = crypto.verify(
+      'RSA-SHA256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      key,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!signed) throw new AuthError('Invalid token signature');
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError('Token expired');
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) throw new AuthError('Token not yet valid');
+    if (claims.aud !== this.clientId) throw new AuthError('Token was issued for another application');
+    if (claims.iss !== `https://login.microsoftonline.com/${claims.tid}/v2.0`) throw new AuthError('Token was not issued by Entra ID');
+    if (!this.allowedTenants.includes(String(claims.tid || '').toLowerCase())) {
+      throw new AuthError('Token was issued by another tenant');
+    }
+    return claims;
+  }
+}
+
+function findRoutePermission(method, routePath) {
+  const rule = ROUTE_PERMISSIONS.find(r => (!r.method || r.method === method) && r.path.test(routePath));
+  if (rule) return rule.permission;
+  return method === 'GET' || method === 'HEAD' || method === 'OPTIONS' ? null : 'config.edit';
+}
+
+/**
+ * Middleware and helpers that attach the caller's access context (req.access) and
+ * enforce ROUTE_PERMISSIONS. Mount with app.use('/api', auth.middleware).
+ */
+function createAuth(store, options = {}) {
+  const validator = new EntraTokenValidator(options);
+
+  const getSettings = () => {
+    const service = loadAccessControl();
+    const defaults = service ? service.DEFAULT_ACCESS_CONTROL_SETTINGS : { enabled: false };
+    return { ...defaults, ...(store.getAccessControl() || {}) };
+  };
+
+  /**
+   * Signed-in user of a request, null without a bearer token; throws AuthError on a bad token
+   */
+  const readUser = async (req) => {
+    const header = req.get('Authorization') || '';
+    if (!header.startsWith('Bearer ')) return null;
+    if (!validator.configured) {
+      throw new AuthError('Set ENTRA_CLIENT_ID and a tenant ID (ENTRA_TENANT_ID or ENTRA_ALLOWED_TENANT_IDS) on the server to accept signed-in users');
+    }
+    const claims = await validator.validate(header.slice('Bearer '.length).trim());
+    const username = claims.preferred_username || claims.upn || claims.email;
+    if (!username) throw new AuthError('Token has no username claim');
+    return loadAccessControl().userFromClaims(username, claims);
+  };
+
+  const middleware = async (req, res, next) => {
+    if (PUBLIC_ROUTES.some(route => route.test(req.path))) return next();
+
+    const settings = getSettings();
+    if (!settings.enabled) {
+      req.access = { enabled: false, user: null, role: 'admin', source: 'disabled' };
+      return next();
+    }
+
+    const service = loadAccessControl();
+    if (!service) {
+      return res.status(503).json({ error: 'Access control service not built. Run "npm run build:server".' });
+    }
+
+    try {
+      req.access = service.resolveAccess(settings, await readUser(req));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(401).json({ error: error.message });
+      }
+      console.error('❌ Token validation failed:', error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    if (!req.access.user && !ANONYMOUS_ROUTES.some(route => route.test(req.path))) {
+      return res.status(401).json({ error: 'Sign in with Entra ID to use this server' });
+    }
+    const permission = findRoutePermission(req.method, req.path);
+    if (permission && !service.hasPermission(req.access, permission)) {
+      return res.status(403).json({ error: `Requires the ${permission} permission` });
+    }
+    next();
+  };
+
+  /**
+   * Calls the caller may see: an agent only gets their own
+   */
+  const filterCalls = (req, calls) => {
+    if (!req.access || req.access.role !== 'agent') return calls;
+    const service = loadAccessControl();
+    return store.list('schemas').flatMap(schema => service.filterCallsForAgent(calls, schema, req.access.agentName));
+  };
+
+  /**
+   * Coaching plans the caller may see: an agent only gets their own
+   */
+  const filterCoachingPlans = (req, plans) => {
+    if (!req.access || req.access.role !== 'agent') return plans;
+    return loadAccessControl().filterCoachingPlansForAgent(plans, req.access.agentName);
+  };
+
+  /**
+   * Check new access control settings before they are saved. Enabling access control
+   * needs an allowed tenant and a validated signed-in user who stays admin, so nobody
+   * locks everyone out.
+   * Returns an error message, or null when the settings may be saved.
+   */
+  const checkAccessControlChange = async (req, next) => {
+    if (!next.enabled) return null;
+    if (!validator.configured) {
+      return 'Set ENTRA_CLIENT_ID and a tenant ID (ENTRA_TENANT_ID or ENTRA_ALLOWED_TENANT_IDS) on the server before enabling access control';
+    }
+    const service = loadAccessControl();
+    if (!service) return 'Access control service not built. Run "npm run build:server".';
+    let user;
+    try {
+      user = req.access && req.access.user ? req.access.user : await readUser(req);
+    } catch (error) {
+      if (error instanceof AuthError) return error.message;
+      throw error;
+    }
+    if (!user) return 'Sign in with Entra ID before enabling access control';
+    if (service.resolveAccess({ ...getSettings(), ...next }, user).role !== 'admin') {
+      return `${user.username} would lose admin access. Assign yourself the Admin role first.`;
+    }
+    return null;
+  };
+
+  return { middleware, filterCalls, filterCoachingPlans, checkAccessControlChange, validator };
+}
+
+module.exports = { createAuth, findRoutePermission };
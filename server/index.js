@@ -9,6 +9,12 @@ const express = require('express');
 const cors = require('cors');
 const { DefaultAzureCredential } = require('@azure/identity');
 const path = require('path');
+const { FileStore } = require('./store');
+const { createAuth } = require('./auth');
+const { createPersistenceRouter } = require('./persistence');
+const { createReportsRouter, startReportScheduler } = require('./reports');
+const { createIngestionRouter, startIngestionWatcher } = require('./ingestion');
+const { createWebhooksRouter, startWebhookDispatcher, handleCallsChanged, checkWebhookUrl } = require('./webhooks');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -20,6 +26,28 @@ const AZURE_SPEECH_REGION = process.env.AZURE_SPEECH_REGION || 'swedencentral';
 const AZURE_SPEECH_RESOURCE_ID = process.env.AZURE_SPEECH_RESOURCE_ID;
 const AZURE_SPEECH_ENDPOINT = process.env.AZURE_SPEECH_ENDPOINT;
 
+// Persistence configuration - 'server' shares data through the local store, 'browser' keeps it per-user
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND === 'server' ? 'server' : 'browser';
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+
+// Scheduled QA reports are written as HTML files to this outbox directory
+const REPORTS_OUTBOX_DIR = process.env.REPORTS_OUTBOX_DIR || path.join(DATA_DIR, 'outbox');
+const REPORTS_CHECK_INTERVAL_MINUTES = Number(process.env.REPORTS_CHECK_INTERVAL_MINUTES) || 15;
+
+// Watch folders for audio + CSV manifests, one per schema with ingestion enabled
+const INGEST_ROOT = process.env.INGEST_ROOT || path.join(DATA_DIR, 'ingest');
+const INGEST_INTERVAL_SECONDS = Number(process.env.INGEST_INTERVAL_SECONDS) || 60;
+const INGEST_SETTLE_SECONDS = Number(process.env.INGEST_SETTLE_SECONDS) || 30;
+
+// How often pending webhook retries are checked
+const WEBHOOK_RETRY_CHECK_SECONDS = Number(process.env.WEBHOOK_RETRY_CHECK_SECONDS) || 15;
+
+// App Registration whose Entra ID tokens identify users when access control is enabled
+const ENTRA_CLIENT_ID = process.env.ENTRA_CLIENT_ID;
+const ENTRA_TENANT_ID = process.env.ENTRA_TENANT_ID;
+// Tenant IDs accepted besides ENTRA_TENANT_ID (comma-separated), e.g. when signing in through 'organizations'
+const ENTRA_ALLOWED_TENANT_IDS = process.env.ENTRA_ALLOWED_TENANT_IDS;
+
 // Azure credential using managed identity
 const credential = new DefaultAzureCredential();
 
@@ -33,6 +61,15 @@ let speechTokenExpiry = 0;
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 
+// Every API route below checks the caller's role once access control is enabled
+const store = new FileStore(DATA_DIR);
+const auth = createAuth(store, {
+  clientId: ENTRA_CLIENT_ID,
+  tenantId: ENTRA_TENANT_ID,
+  allowedTenantIds: ENTRA_ALLOWED_TENANT_IDS,
+});
+app.use('/api', auth.middleware);
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ 
@@ -57,10 +94,44 @@ app.get('/api/config', (req, res) => {
       region: AZURE_SPEECH_REGION,
       endpoint: AZURE_SPEECH_ENDPOINT,
       authType: 'managedIdentity',
+    },
+    storage: {
+      backend: STORAGE_BACKEND,
+    },
+    auth: {
+      clientId: ENTRA_CLIENT_ID,
+      tenantId: ENTRA_TENANT_ID,
     }
   });
 });
 
+// Saved and ingested calls are checked for webhook events
+const onCallsChanged = (previous, next) => handleCallsChanged(store, previous, next);
+
+// Role of the caller as the server resolved it; tells the app to sign in when access
+// control is enabled and no token was sent
+app.get('/api/access', (req, res) => {
+  res.json(req.access);
+});
+
+// Persistence API (calls, schemas, rules, audio) backed by the local file store
+app.use('/api', createPersistenceRouter(store, {
+  onCallsChanged,
+  filterCalls: auth.filterCalls,
+  filterCoachingPlans: auth.filterCoachingPlans,
+  checkAccessControlChange: auth.checkAccessControlChange,
+  checkWebhookUrl,
+}));
+
+// QA report outbox and on-demand runs
+app.use('/api', createReportsRouter(store, REPORTS_OUTBOX_DIR));
+
+// Watch-folder ingestion: log and on-demand scans
+app.use('/api', createIngestionRouter(store, INGEST_ROOT, { onCallsChanged }));
+
+// Webhook delivery log, test events and manual retries
+app.use('/api', createWebhooksRouter(store));
+
 /**
  * Get Azure OpenAI access token using managed identity
  */
@@ -254,11 +325,18 @@ app.post('/api/speech/tts', async (req, res) => {
 
     console.log(`📤 Proxying TTS request to: ${url}`);
 
-    const { text, voice, outputFormat } = req.body;
+    const { text, voice, outputFormat, style, styleDegree, rate, pitch } = req.body;
     
-    // Build SSML
-    const ssml = `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>
-      <voice name='${voice || 'en-US-JennyNeural'}'>${text}</voice>
+    // Build SSML, with the optional speaking style and prosody of synthetic calls
+    let content = text;
+    if (rate || pitch) {
+      content = `<prosody rate='${rate || 'medium'}' pitch='${pitch || 'medium'}'>${content}</prosody>`;
+    }
+    if (style) {
+      content = `<mstts:express-as style='${style}' styledegree='${styleDegree ?? 1}'>${content}</mstts:express-as>`;
+    }
+    const ssml = `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xmlns:mstts='https://www.w3.org/2001/mstts' xml:lang='en-US'>
+      <voice name='${voice || 'en-US-JennyNeural'}'>${content}</voice>
     </speak>`;
 
     const response = await fetch(url, {
@@ -303,4 +381,11 @@ app.listen(PORT, () => {
   console.log(`   - OpenAI Deployment: ${AZURE_OPENAI_DEPLOYMENT}`);
   console.log(`   - Speech Region: ${AZURE_SPEECH_REGION}`);
   console.log(`   - Auth: Managed Identity`);
+  console.log(`   - User sign-in: ${auth.validator.configured ? `App Registration ${ENTRA_CLIENT_ID} (tenants: ${auth.validator.allowedTenants.join(', ')})` : 'NOT SET (set ENTRA_CLIENT_ID and a tenant ID to enable access control)'}`);
+  console.log(`   - Storage: ${STORAGE_BACKEND} (data dir: ${DATA_DIR})`);
+  console.log(`   - Report outbox: ${REPORTS_OUTBOX_DIR} (checked every ${REPORTS_CHECK_INTERVAL_MINUTES} min)`);
+  startReportScheduler(store, REPORTS_OUTBOX_DIR, REPORTS_CHECK_INTERVAL_MINUTES * 60 * 1000);
+  console.log(`   - Ingest root: ${INGEST_ROOT} (scanned every ${INGEST_INTERVAL_SECONDS}s)`);
+  startIngestionWatcher(store, INGEST_ROOT, INGEST_INTERVAL_SECONDS * 1000, INGEST_SETTLE_SECONDS * 1000, { onCallsChanged });
+  startWebhookDispatcher(store, WEBHOOK_RETRY_CHECK_SECONDS * 1000);
 });
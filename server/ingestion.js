@@ -0,0 +1,230 @@
+/**
+ * Watch-folder ingestion
+ *
+ * Scans one folder per schema with ingestion enabled - <INGEST_ROOT>/<schema audio path>,
+ * e.g. ingest/audio/debt-collection - for audio files and CSV manifests. Manifest rows are
+ * matched to audio by the bundled planner (bundles/ingestion.cjs, built by
+ * `npm run build:server`). Audio goes to the audio store and the new calls are added to
+ * the shared calls collection; open apps pick them up with their next calls refresh.
+ * Processed files move to processed/<batchId>/. A manifest with rows whose audio has not
+ * arrived yet stays in the folder and is matched again on later scans.
+ *
+ * Routes:
+ *   GET   /api/schemas/:id/ingestion-log     - ingestion runs, newest first
+ *   POST  /api/schemas/:id/ingestion/run     - scan the schema's folder now
+ */
+
+const fs = require('fs');
+const path = require('path');
+const express = require('express');
+
+const PLANNER_PATH = path.join(__dirname, 'bundles', 'ingestion.cjs');
+const PENDING_COLLECTION = 'ingestion-pending';   // Staged calls of older versions, moved into calls on start
+const PROCESSED_DIR = 'processed';
+
+const AUDIO_CONTENT_TYPES = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm',
+};
+
+let planner;
+
+/**
+ * Load the ingestion planner once; null when the bundle has not been built
+ */
+function loadPlanner() {
+  if (planner === undefined) {
+    try {
+      planner = require(PLANNER_PATH);
+    } catch (error) {
+      console.warn(`⚠️ Ingestion planner not available (${error.message}). Run "npm run build:server".`);
+      planner = null;
+    }
+  }
+  return planner;
+}
+
+function createBatchId() {
+  const stamp = new Date().toISOString().replace(/[-:TZ]/g, '').replace('.', '');
+  return `${stamp}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Audio file names already turned into calls for the schema
+ */
+function getIngestedFiles(store, schemaId) {
+  return store.list('calls')
+    .filter(call => call.schemaId === schemaId && call.ingestion && call.ingestion.audioFileName)
+    .map(call => call.ingestion.audioFileName);
+}
+
+/**
+ * Files in the folder that have not been written to for settleMs (half-copied files wait)
+ */
+function listSettledFiles(folder, settleMs) {
+  if (!fs.existsSync(folder)) return [];
+  const cutoff = Date.now() - settleMs;
+  return fs.readdirSync(folder, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => entry.name)
+    .filter(name => settleMs <= 0 || fs.statSync(path.join(folder, name)).mtimeMs <= cutoff);
+}
+
+function moveToProcessed(folder, batchId, fileNames) {
+  if (fileNames.length === 0) return;
+  const target = path.join(folder, PROCESSED_DIR, batchId);
+  fs.mkdirSync(target, { recursive: true });
+  for (const name of fileNames) {
+    fs.renameSync(path.join(folder, name), path.join(target, name));
+  }
+}
+
+/**
+ * Add ingested calls to the calls collection and report the change to options.onCallsChanged
+ */
+function addCalls(store, calls, options) {
+  if (calls.length === 0) return;
+  const previous = store.list('calls');
+  const existing = new Set(previous.map(call => call.id));
+  const next = [...previous, ...calls.filter(call => !existing.has(call.id))];
+  store.replaceAll('calls', next);
+  if (options.onCallsChanged) {
+    try {
+      options.onCallsChanged(previous, next);
+    } catch (error) {
+      console.error('❌ Calls change hook failed:', error);
+    }
+  }
+}
+
+/**
+ * Manifests to keep in the folder: rows whose audio file is missing may still be matched
+ * when the file arrives
+ */
+function getWaitingManifests(plan) {
+  return new Set(plan.log.unmatchedRows.filter(row => row.reason === 'file-not-found').map(row => row.manifest));
+}
+
+/**
+ * Ingest one schema's folder. Returns the log entry, or null when no manifest is waiting
+ * or a kept manifest still has nothing new to match.
+ * options.onCallsChanged(previousCalls, nextCalls) runs after calls are added.
+ */
+function ingestSchema(store, ingestRoot, schema, settleMs, options = {}) {
+  const ingestion = loadPlanner();
+  if (!ingestion) return null;
+
+  const folder = path.join(ingestRoot, ingestion.getIngestionFolder(schema));
+  const files = listSettledFiles(folder, settleMs);
+  const manifestNames = files.filter(name => name.toLowerCase().endsWith('.csv'));
+  if (manifestNames.length === 0) return null;
+
+  const batchId = createBatchId();
+  const plan = ingestion.planIngestion({
+    schema,
+    manifests: manifestNames.map(name => ({ name, text: fs.readFileSync(path.join(folder, name), 'utf8') })),
+    audioFiles: files.filter(ingestion.isAudioFileName),
+    ingestedFiles: getIngestedFiles(store, schema.id),
+    batchId,
+  });
+
+  const stored = new Set();
+  for (const { callId, fileName } of plan.files) {
+    try {
+      const contentType = AUDIO_CONTENT_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+      store.setAudio(callId, schema.id, fs.readFileSync(path.join(folder, fileName)), contentType);
+      stored.add(callId);
+    } catch (error) {
+      plan.log.errors.push(`${fileName}: ${error.message}`);
+    }
+  }
+
+  const calls = plan.calls.filter(call => stored.has(call.id));
+  plan.log.callIds = calls.map(call => call.id);
+  addCalls(store, calls, options);
+
+  const waiting = getWaitingManifests(plan);
+  const processed = [
+    ...manifestNames.filter(name => !waiting.has(name)),
+    ...plan.files.filter(f => stored.has(f.callId)).map(f => f.fileName),
+    ...plan.skippedFiles,
+  ];
+  // A kept manifest is re-read on every scan; only log scans that changed something
+  const logged = new Set((store.getIngestionLog(schema.id) || []).flatMap(entry => entry.manifests));
+  if (processed.length === 0 && plan.log.errors.length === 0 && manifestNames.every(name => logged.has(name))) {
+    return null;
+  }
+  moveToProcessed(folder, batchId, processed);
+  store.appendIngestionLog(schema.id, plan.log);
+
+  console.log(`📥 Ingestion ${schema.name}: ${calls.length} call(s) from ${manifestNames.length} manifest(s), ` +
+    `${plan.log.unmatchedFiles.length} unmatched file(s), ${plan.log.unmatchedRows.length} unmatched row(s)`);
+  return plan.log;
+}
+
+/**
+ * Move calls staged by older versions (claimed by the app) into the calls collection
+ */
+function migratePendingCalls(store, options) {
+  const pending = store.list(PENDING_COLLECTION);
+  if (pending.length === 0) return;
+  addCalls(store, pending, options);
+  store.replaceAll(PENDING_COLLECTION, []);
+  console.log(`📥 Moved ${pending.length} staged ingested call(s) into the calls collection`);
+}
+
+/**
+ * Scan every schema with ingestion enabled now and then every intervalMs
+ */
+function startIngestionWatcher(store, ingestRoot, intervalMs, settleMs, options = {}) {
+  migratePendingCalls(store, options);
+  const tick = () => {
+    for (const schema of store.list('schemas')) {
+      if (!schema.ingestion || !schema.ingestion.enabled) continue;
+      try {
+        ingestSchema(store, ingestRoot, schema, settleMs, options);
+      } catch (error) {
+        console.error(`❌ Ingestion failed for schema ${schema.id}:`, error);
+      }
+    }
+  };
+  tick();
+  return setInterval(tick, intervalMs);
+}
+
+function createIngestionRouter(store, ingestRoot, options = {}) {
+  const router = express.Router();
+
+  router.get('/schemas/:id/ingestion-log', (req, res) => {
+    const entries = store.getIngestionLog(req.params.id);
+    if (!entries) {
+      return res.status(404).json({ error: `No ingestion log for schema: ${req.params.id}` });
+    }
+    res.json(entries);
+  });
+
+  router.post('/schemas/:id/ingestion/run', (req, res) => {
+    const schema = store.get('schemas', req.params.id);
+    if (!schema) {
+      return res.status(404).json({ error: `schemas item not found: ${req.params.id}` });
+    }
+    if (!loadPlanner()) {
+      return res.status(503).json({ error: 'Ingestion planner not built. Run "npm run build:server".' });
+    }
+    try {
+      // Files dropped a moment ago are taken as complete on a manual run
+      res.json({ success: true, entry: ingestSchema(store, ingestRoot, schema, 0, options) });
+    } catch (error) {
+      console.error('❌ Ingestion run failed:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  return router;
+}
+
+module.exports = { createIngestionRouter, startIngestionWatcher, ingestSchema };
@@ -0,0 +1,411 @@
+/**
+ * Persistence API routes
+ *
+ * REST endpoints over the file-backed store:
+ *   GET/PUT         /api/calls               - list / replace all calls (PUT needs If-Match)
+ *   GET/PUT/DELETE  /api/calls/:id           - single call (PUT rejects an older updatedAt)
+ *   POST            /api/calls/:id/claim     - take a pending ingestion job off a call
+ *   GET/PUT         /api/schemas             - list / replace all schemas
+ *   GET/PUT/DELETE  /api/schemas/:id         - single schema
+ *   GET/PUT/DELETE  /api/schemas/:id/rules   - evaluation rules for a schema
+ *   GET/PUT         /api/schemas/:id/rule-sets - rule set version history for a schema
+ *   GET/PUT         /api/schemas/:id/coaching-plans - agent coaching plans for a schema
+ *   GET/PUT         /api/schemas/:id/prompt-versions - evaluation prompt versions for a schema
+ *   GET/PUT         /api/schemas/:id/golden-calls - human-labeled golden calls for a schema
+ *   GET/PUT         /api/schemas/:id/prompt-comparisons - prompt A/B comparison reports for a schema
+ *   GET/PUT         /api/schemas/:id/report-templates - QA report templates for a schema
+ *   GET/PUT         /api/schemas/:id/webhooks - outbound webhooks for a schema
+ *   GET/PUT         /api/access-control      - roles and user assignments
+ *   GET/POST        /api/usage/:month        - AI usage records of a month (YYYY-MM); POST appends
+ *   GET/PUT         /api/price-table         - prices used to cost AI usage
+ *   GET/PUT/DELETE  /api/audio/:callId       - raw audio (?schemaId= scopes the file)
+ *   DELETE          /api/audio               - clear all audio
+ *
+ * options.onCallsChanged(previousCalls, nextCalls) runs after calls are saved.
+ * options.filterCalls(req, calls) narrows the calls a caller may read (agents see their own).
+ * options.filterCoachingPlans(req, plans) does the same for coaching plans.
+ * options.checkAccessControlChange(req, settings) returns why settings may not be saved, or null.
+ * options.checkWebhookUrl(url) returns why a webhook URL may not be called, or null.
+ *
+ * Usage records are append-only, so every user's AI requests count towards the
+ * schema budgets no matter who saves last.
+ *
+ * Webhook signing secrets are write-only: GET returns them blank and a PUT without a
+ * secret keeps the stored one.
+ *
+ * Several analysts write calls at once, so stale writes are refused with 409:
+ * GET /api/calls returns the collection version in X-Collection-Version, and
+ * replacing all calls requires that version in If-Match; a single call is only
+ * saved when its updatedAt is not older than the stored one.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+
+/**
+ * Version of a collection's content, compared with If-Match before replacing it
+ */
+function collectionVersion(items) {
+  return crypto.createHash('sha1').update(JSON.stringify(items)).digest('hex');
+}
+
+function createPersistenceRouter(store, options = {}) {
+  const router = express.Router();
+
+  const filterCalls = (req, calls) => (options.filterCalls ? options.filterCalls(req, calls) : calls);
+  const filterCoachingPlans = (req, plans) =>
+    (options.filterCoachingPlans ? options.filterCoachingPlans(req, plans) : plans);
+
+  const callsChanged = (previous, next) => {
+    if (!options.onCallsChanged) return;
+    try {
+      options.onCallsChanged(previous, next);
+    } catch (error) {
+      console.error('❌ Calls change handler failed:', error);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Calls and schemas share the same collection semantics
+  // ---------------------------------------------------------------------------
+
+  for (const collection of ['calls', 'schemas']) {
+    router.get(`/${collection}`, (req, res) => {
+      const items = store.list(collection);
+      if (collection !== 'calls') return res.json(items);
+      res.set('X-Collection-Version', collectionVersion(items));
+      res.json(filterCalls(req, items));
+    });
+
+    router.put(`/${collection}`, (req, res) => {
+      if (!Array.isArray(req.body)) {
+        return res.status(400).json({ error: `Expected an array of ${collection}` });
+      }
+      const previous = collection === 'calls' ? store.list('calls') : null;
+      if (previous) {
+        const expected = req.get('If-Match');
+        if (!expected) {
+          return res.status(428).json({ error: 'Replacing all calls requires If-Match with the version from GET /api/calls' });
+        }
+        const version = collectionVersion(previous);
+        if (expected !== version) {
+          return res.status(409).json({ error: 'Calls changed since they were loaded', version });
+        }
+      }
+      store.replaceAll(collection, req.body);
+      if (previous) callsChanged(previous, req.body);
+      res.json({ success: true, count: req.body.length });
+    });
+
+    router.get(`/${collection}/:id`, (req, res) => {
+      const item = store.get(collection, req.params.id);
+      if (!item || (collection === 'calls' && filterCalls(req, [item]).length === 0)) {
+        return res.status(404).json({ error: `${collection} item not found: ${req.params.id}` });
+      }
+      res.json(item);
+    });
+
+    router.put(`/${collection}/:id`, (req, res) => {
+      if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Expected a JSON object' });
+      }
+      const previous = collection === 'calls' ? store.get('calls', req.params.id) : null;
+      if (previous && previous.updatedAt && (!req.body.updatedAt || req.body.updatedAt < previous.updatedAt)) {
+        return res.status(409).json({ error: `Call was updated since it was loaded: ${req.params.id}`, current: previous });
+      }
+      const saved = store.upsert(collection, { ...req.body, id: req.params.id });
+      if (collection === 'calls') callsChanged(previous ? [previous] : [], [saved]);
+      res.json(saved);
+    });
+
+    router.delete(`/${collection}/:id`, (req, res) => {
+      const removed = store.remove(collection, req.params.id);
+      if (collection === 'schemas' && removed) {
+        store.deleteRules(req.params.id);
+      }
+      res.json({ success: removed });
+    });
+  }
+
+  /**
+   * Take a pending ingestion job off a call before running it, so only the client that
+   * claimed it does the work. 409 with the current call once another client has.
+   */
+  router.post('/calls/:id/claim', (req, res) => {
+    const job = req.body && req.body.job;
+    const previous = store.get('calls', req.params.id);
+    if (!previous || filterCalls(req, [previous]).length === 0) {
+      return res.status(404).json({ error: `calls item not found: ${req.params.id}` });
+    }
+    const pendingJobs = (previous.ingestion && previous.ingestion.pendingJobs) || [];
+    if (!pendingJobs.includes(job)) {
+      return res.status(409).json({ error: `No pending ${job} job for call: ${req.params.id}`, current: previous });
+    }
+    const remaining = pendingJobs.filter(j => j !== job);
+    const saved = store.upsert('calls', {
+      ...previous,
+      ingestion: { ...previous.ingestion, pendingJobs: remaining.length > 0 ? remaining : undefined },
+      updatedAt: new Date().toISOString(),
+    });
+    callsChanged([previous], [saved]);
+    res.json(saved);
+  });
+
+  // ---------------------------------------------------------------------------
+  // Evaluation rules
+  // ---------------------------------------------------------------------------
+
+  router.get('/schemas/:id/rules', (req, res) => {
+    const rules = store.getRules(req.params.id);
+    if (!rules) {
+      return res.status(404).json({ error: `No rules for schema: ${req.params.id}` });
+    }
+    res.json(rules);
+  });
+
+  router.put('/schemas/:id/rules', (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected an array of evaluation rules' });
+    }
+    store.setRules(req.params.id, req.body);
+    res.json({ success: true, count: req.body.length });
+  });
+
+  router.delete('/schemas/:id/rules', (req, res) => {
+    store.deleteRules(req.params.id);
+    res.json({ success: true });
+  });
+
+  router.get('/schemas/:id/rule-sets', (req, res) => {
+    const versions = store.getRuleSets(req.params.id);
+    if (!versions) {
+      return res.status(404).json({ error: `No rule sets for schema: ${req.params.id}` });
+    }
+    res.json(versions);
+  });
+
+  router.put('/schemas/:id/rule-sets', (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected an array of rule set versions' });
+    }
+    store.setRuleSets(req.params.id, req.body);
+    res.json({ success: true, count: req.body.length });
+  });
+
+  router.get('/schemas/:id/coaching-plans', (req, res) => {
+    const plans = store.getCoachingPlans(req.params.id);
+    if (!plans) {
+      return res.status(404).json({ error: `No coaching plans for schema: ${req.params.id}` });
+    }
+    res.json(filterCoachingPlans(req, plans));
+  });
+
+  router.put('/schemas/:id/coaching-plans', (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected an array of coaching plans' });
+    }
+    store.setCoachingPlans(req.params.id, req.body);
+    res.json({ success: true, count: req.body.length });
+  });
+
+  router.get('/schemas/:id/report-templates', (req, res) => {
+    const templates = store.getReportTemplates(req.params.id);
+    if (!templates) {
+      return res.status(404).json({ error: `No report templates for schema: ${req.params.id}` });
+    }
+    res.json(templates);
+  });
+
+  router.put('/schemas/:id/report-templates', (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected an array of report templates' });
+    }
+    // The scheduler stamps lastRunAt; keep it when a browser saves a copy it loaded earlier
+    const lastRuns = new Map((store.getReportTemplates(req.params.id) || [])
+      .filter(t => t.schedule && t.schedule.lastRunAt)
+      .map(t => [t.id, t.schedule.lastRunAt]));
+    const templates = req.body.map(t => {
+      const lastRunAt = lastRuns.get(t.id);
+      if (!t.schedule || !lastRunAt || (t.schedule.lastRunAt && t.schedule.lastRunAt >= lastRunAt)) return t;
+      return { ...t, schedule: { ...t.schedule, lastRunAt } };
+    });
+    store.setReportTemplates(req.params.id, templates);
+    res.json({ success: true, count: templates.length });
+  });
+
+  router.get('/schemas/:id/webhooks', (req, res) => {
+    const webhooks = store.getWebhooks(req.params.id);
+    if (!webhooks) {
+      return res.status(404).json({ error: `No webhooks for schema: ${req.params.id}` });
+    }
+    res.json(webhooks.map(webhook => ({ ...webhook, secret: '' })));
+  });
+
+  router.put('/schemas/:id/webhooks', async (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected an array of webhooks' });
+    }
+    const secrets = new Map((store.getWebhooks(req.params.id) || []).map(w => [w.id, w.secret]));
+    const webhooks = req.body.map(w => ({ ...w, secret: w.secret || secrets.get(w.id) || '' }));
+    const missing = webhooks.find(w => !w.secret);
+    if (missing) {
+      return res.status(400).json({ error: `Webhook "${missing.name}" has no signing secret` });
+    }
+    try {
+      for (const webhook of options.checkWebhookUrl ? webhooks : []) {
+        const refused = await options.checkWebhookUrl(webhook.url);
+        if (refused) {
+          return res.status(400).json({ error: `Webhook "${webhook.name}": ${refused}` });
+        }
+      }
+    } catch (error) {
+      return res.status(400).json({ error: `Webhook URL could not be checked: ${error.message}` });
+    }
+    store.setWebhooks(req.params.id, webhooks);
+    res.json({ success: true, count: webhooks.length });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Access control settings
+  // ---------------------------------------------------------------------------
+
+  router.get('/access-control', (req, res) => {
+    const settings = store.getAccessControl();
+    if (!settings) {
+      return res.status(404).json({ error: 'Access control not configured' });
+    }
+    res.json(settings);
+  });
+
+  router.put('/access-control', async (req, res) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected a JSON object' });
+    }
+    try {
+      const refused = options.checkAccessControlChange ? await options.checkAccessControlChange(req, req.body) : null;
+      if (refused) {
+        return res.status(403).json({ error: refused });
+      }
+      store.setAccessControl(req.body);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('❌ Saving access control failed:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // AI usage and price table
+  // ---------------------------------------------------------------------------
+
+  const USAGE_MONTH = /^\d{4}-\d{2}$/;
+
+  router.get('/usage/:month', (req, res) => {
+    if (!USAGE_MONTH.test(req.params.month)) {
+      return res.status(400).json({ error: 'Expected a month as YYYY-MM' });
+    }
+    const records = store.getUsage(req.params.month);
+    if (!records) {
+      return res.status(404).json({ error: `No usage for month: ${req.params.month}` });
+    }
+    res.json(records);
+  });
+
+  router.post('/usage/:month', (req, res) => {
+    if (!USAGE_MONTH.test(req.params.month)) {
+      return res.status(400).json({ error: 'Expected a month as YYYY-MM' });
+    }
+    if (!Array.isArray(req.body) || !req.body.every(r => r && typeof r.id === 'string')) {
+      return res.status(400).json({ error: 'Expected an array of usage records' });
+    }
+    res.json({ success: true, added: store.appendUsage(req.params.month, req.body) });
+  });
+
+  router.get('/price-table', (req, res) => {
+    const table = store.getPriceTable();
+    if (!table) {
+      return res.status(404).json({ error: 'Price table not configured' });
+    }
+    res.json(table);
+  });
+
+  router.put('/price-table', (req, res) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected a JSON object' });
+    }
+    store.setPriceTable(req.body);
+    res.json({ success: true });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Prompt registry (one array per schema and resource)
+  // ---------------------------------------------------------------------------
+
+  for (const [resource, label] of [
+    ['prompt-versions', 'prompt versions'],
+    ['golden-calls', 'golden calls'],
+    ['prompt-comparisons', 'prompt comparisons'],
+  ]) {
+    router.get(`/schemas/:id/${resource}`, (req, res) => {
+      const items = store.getPromptRegistry(resource, req.params.id);
+      if (!items) {
+        return res.status(404).json({ error: `No ${label} for schema: ${req.params.id}` });
+      }
+      res.json(items);
+    });
+
+    router.put(`/schemas/:id/${resource}`, (req, res) => {
+      if (!Array.isArray(req.body)) {
+        return res.status(400).json({ error: `Expected an array of ${label}` });
+      }
+      store.setPromptRegistry(resource, req.params.id, req.body);
+      res.json({ success: true, count: req.body.length });
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Audio
+  // ---------------------------------------------------------------------------
+
+  router.get('/audio/:callId', (req, res) => {
+    // Audio of a call the caller may not read (or of no known call, for agents) is not found
+    const call = store.get('calls', req.params.callId) || { id: req.params.callId, metadata: {} };
+    const audio = filterCalls(req, [call]).length > 0 ? store.getAudio(req.params.callId, req.query.schemaId) : null;
+    if (!audio) {
+      return res.status(404).json({ error: `No audio for call: ${req.params.callId}` });
+    }
+    res.set('Content-Type', audio.contentType);
+    res.send(audio.data);
+  });
+
+  router.put(
+    '/audio/:callId',
+    express.raw({ type: () => true, limit: '200mb' }),
+    (req, res) => {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Expected audio bytes in request body' });
+      }
+      store.setAudio(
+        req.params.callId,
+        req.query.schemaId,
+        req.body,
+        req.headers['content-type'] || 'application/octet-stream'
+      );
+      res.json({ success: true, size: req.body.length });
+    }
+  );
+
+  router.delete('/audio/:callId', (req, res) => {
+    store.deleteAudio(req.params.callId, req.query.schemaId);
+    res.json({ success: true });
+  });
+
+  router.delete('/audio', (req, res) => {
+    store.clearAudio();
+    res.json({ success: true });
+  });
+
+  return router;
+}
+
+module.exports = { createPersistenceRouter };
@@ -0,0 +1,150 @@
+/**
+ * Scheduled QA reports
+ *
+ * Renders report templates headlessly with the bundled report builder
+ * (bundles/report-renderer.cjs, built by `npm run build:server`) and writes the
+ * HTML files to a local outbox directory for delivery:
+ *   <outbox>/<schemaId>/<template>_<from>_<to>[_<agent>].html
+ *
+ * Routes:
+ *   GET   /api/reports/outbox                     - rendered report files, newest first
+ *   GET   /api/reports/outbox/:schemaId/:file     - one rendered report
+ *   POST  /api/schemas/:id/reports/run            - render a template now ({ templateId, range?, perAgent? })
+ */
+
+const fs = require('fs');
+const path = require('path');
+const express = require('express');
+const { safeSegment, resolveInside } = require('./store');
+
+const RENDERER_PATH = path.join(__dirname, 'bundles', 'report-renderer.cjs');
+
+let renderer;
+
+/**
+ * Load the headless renderer once; null when the bundle has not been built
+ */
+function loadRenderer() {
+  if (renderer === undefined) {
+    try {
+      renderer = require(RENDERER_PATH);
+    } catch (error) {
+      console.warn(`⚠️ Report renderer not available (${error.message}). Run "npm run build:server".`);
+      renderer = null;
+    }
+  }
+  return renderer;
+}
+
+/**
+ * Everything the renderer needs, read from the file store
+ */
+function readReportInput(store) {
+  const schemas = store.list('schemas');
+  const rules = {};
+  const templates = {};
+  for (const schema of schemas) {
+    rules[schema.id] = store.getRules(schema.id);
+    templates[schema.id] = store.getReportTemplates(schema.id);
+  }
+  return { schemas, calls: store.list('calls'), rules, templates };
+}
+
+function writeToOutbox(outboxDir, reports) {
+  return reports.map(report => {
+    const filePath = resolveInside(outboxDir, safeSegment(report.schemaId), safeSegment(report.fileName));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, report.html);
+    return {
+      schemaId: report.schemaId,
+      templateId: report.templateId,
+      agentName: report.agentName,
+      range: report.range,
+      file: path.relative(outboxDir, filePath),
+    };
+  });
+}
+
+/**
+ * Render every due scheduled template into the outbox
+ */
+function runScheduledReports(store, outboxDir) {
+  const reports = loadRenderer();
+  if (!reports) return [];
+
+  const result = reports.runScheduledReports(readReportInput(store));
+  const written = writeToOutbox(outboxDir, result.reports);
+  for (const [schemaId, templates] of Object.entries(result.templates)) {
+    store.setReportTemplates(schemaId, templates);
+  }
+  if (written.length > 0) {
+    console.log(`📄 Scheduled reports: wrote ${written.length} file(s) to ${outboxDir}`);
+  }
+  return written;
+}
+
+/**
+ * Check for due reports now and then every intervalMs
+ */
+function startReportScheduler(store, outboxDir, intervalMs) {
+  const tick = () => {
+    try {
+      runScheduledReports(store, outboxDir);
+    } catch (error) {
+      console.error('❌ Scheduled report run failed:', error);
+    }
+  };
+  tick();
+  return setInterval(tick, intervalMs);
+}
+
+function createReportsRouter(store, outboxDir) {
+  const router = express.Router();
+
+  router.get('/reports/outbox', (req, res) => {
+    if (!fs.existsSync(outboxDir)) return res.json([]);
+    const files = fs.readdirSync(outboxDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .flatMap(dir => fs.readdirSync(path.join(outboxDir, dir.name))
+        .filter(name => name.endsWith('.html'))
+        .map(name => {
+          const stat = fs.statSync(path.join(outboxDir, dir.name, name));
+          return { schemaId: dir.name, file: name, size: stat.size, createdAt: stat.mtime.toISOString() };
+        }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    res.json(files);
+  });
+
+  router.get('/reports/outbox/:schemaId/:file', (req, res) => {
+    // Only reports inside the outbox; the outbox usually sits in DATA_DIR next to the data files
+    let filePath;
+    try {
+      filePath = resolveInside(outboxDir, safeSegment(req.params.schemaId), safeSegment(req.params.file));
+    } catch {
+      filePath = null;
+    }
+    if (!filePath || !filePath.endsWith('.html') || !fs.existsSync(filePath)) {
+      return res.status(404).json({ error: `Report not found: ${req.params.file}` });
+    }
+    res.type('html').send(fs.readFileSync(filePath, 'utf8'));
+  });
+
+  router.post('/schemas/:id/reports/run', (req, res) => {
+    const reports = loadRenderer();
+    if (!reports) {
+      return res.status(503).json({ error: 'Report renderer not built. Run "npm run build:server".' });
+    }
+    const { templateId = 'default', range, perAgent } = req.body || {};
+    try {
+      const rendered = reports.renderReport(readReportInput(store), req.params.id, templateId, { range, perAgent });
+      res.json({ success: true, files: writeToOutbox(outboxDir, rendered) });
+    } catch (error) {
+      console.error('❌ Report run failed:', error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  return router;
+}
+
+module.exports = { createReportsRouter, startReportScheduler, runScheduledReports };
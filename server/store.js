@@ -0,0 +1,366 @@
+/**
+ * File-backed persistence store
+ *
+ * Keeps calls, schemas, evaluation rules and audio on local disk so every
+ * analyst shares one dataset instead of a private browser cache.
+ *
+ * Layout under DATA_DIR:
+ *   calls.json                     - array of CallRecord JSON
+ *   schemas.json                   - array of SchemaDefinition JSON
+ *   rules/<schemaId>.json          - SchemaEvaluationRule[] per schema
+ *   rule-sets/<schemaId>.json      - RuleSetVersion[] history per schema
+ *   coaching/<schemaId>.json       - CoachingPlan[] per schema
+ *   prompt-versions/<schemaId>.json    - PromptVersion[] per schema
+ *   golden-calls/<schemaId>.json       - GoldenCall[] per schema
+ *   prompt-comparisons/<schemaId>.json - PromptComparisonReport[] per schema
+ *   report-templates/<schemaId>.json   - ReportTemplate[] per schema
+ *   ingestion-log/<schemaId>.json      - IngestionLogEntry[] per schema, newest first
+ *   ingestion-pending.json         - ingested calls staged by older versions (emptied on start)
+ *   webhooks/<schemaId>.json           - WebhookConfig[] per schema
+ *   webhook-deliveries/<schemaId>.json - WebhookDelivery[] per schema, newest first
+ *   access-control.json            - AccessControlSettings (roles and user assignments)
+ *   usage/<YYYY-MM>.json           - UsageRecord[] of AI requests per month, oldest first
+ *   price-table.json               - PriceTable used to cost AI usage
+ *   audio/<schemaId|_>/<callId>    - raw audio bytes (+ .json sidecar with content type)
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Restrict identifiers used in file paths to a safe character set.
+ * "", "." and ".." would name the directory itself or its parent, so they get a prefix.
+ */
+function safeSegment(value) {
+  const segment = String(value).replace(/[^a-zA-Z0-9._-]/g, '_');
+  return /^\.*$/.test(segment) ? `_${segment}` : segment;
+}
+
+/**
+ * Join segments onto a base directory; throws when the result would leave it
+ */
+function resolveInside(baseDir, ...segments) {
+  const base = path.resolve(baseDir);
+  const target = path.resolve(base, ...segments);
+  if (!target.startsWith(base + path.sep)) {
+    throw new Error(`Path escapes ${base}: ${segments.join('/')}`);
+  }
+  return target;
+}
+
+/** Prompt registry resources, each stored as one array file per schema */
+const PROMPT_REGISTRY_RESOURCES = ['prompt-versions', 'golden-calls', 'prompt-comparisons'];
+
+/** Ingestion runs kept per schema */
+const MAX_INGESTION_LOG_ENTRIES = 200;
+
+/** Webhook deliveries kept per schema */
+const MAX_WEBHOOK_DELIVERIES = 500;
+
+class FileStore {
+  constructor(dataDir) {
+    this.dataDir = dataDir;
+    fs.mkdirSync(path.join(dataDir, 'rules'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'rule-sets'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'coaching'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'report-templates'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'ingestion-log'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'webhooks'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'webhook-deliveries'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'usage'), { recursive: true });
+    for (const resource of PROMPT_REGISTRY_RESOURCES) {
+      fs.mkdirSync(path.join(dataDir, resource), { recursive: true });
+    }
+    fs.mkdirSync(path.join(dataDir, 'audio'), { recursive: true });
+  }
+
+  /**
+   * Write a file atomically (temp file + rename) so readers never see partial JSON
+   */
+  writeFileAtomic(filePath, data) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  }
+
+  readJson(filePath, fallback) {
+    try {
+      if (!fs.existsSync(filePath)) return fallback;
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`❌ Failed to read ${filePath}:`, error.message);
+      return fallback;
+    }
+  }
+
+  writeJson(filePath, value) {
+    this.writeFileAtomic(filePath, JSON.stringify(value, null, 2));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Generic collections (calls, schemas)
+  // ---------------------------------------------------------------------------
+
+  collectionPath(name) {
+    return path.join(this.dataDir, `${safeSegment(name)}.json`);
+  }
+
+  list(name) {
+    return this.readJson(this.collectionPath(name), []);
+  }
+
+  replaceAll(name, items) {
+    this.writeJson(this.collectionPath(name), Array.isArray(items) ? items : []);
+  }
+
+  get(name, id) {
+    return this.list(name).find(item => item.id === id) || null;
+  }
+
+  upsert(name, item) {
+    const items = this.list(name);
+    const index = items.findIndex(existing => existing.id === item.id);
+    if (index === -1) {
+      items.push(item);
+    } else {
+      items[index] = item;
+    }
+    this.replaceAll(name, items);
+    return item;
+  }
+
+  remove(name, id) {
+    const items = this.list(name);
+    const filtered = items.filter(item => item.id !== id);
+    this.replaceAll(name, filtered);
+    return filtered.length !== items.length;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Access control settings (one object for the whole app)
+  // ---------------------------------------------------------------------------
+
+  getAccessControl() {
+    return this.readJson(path.join(this.dataDir, 'access-control.json'), null);
+  }
+
+  setAccessControl(settings) {
+    this.writeJson(path.join(this.dataDir, 'access-control.json'), settings);
+  }
+
+  // ---------------------------------------------------------------------------
+  // AI usage (one file per month) and the price table costing it
+  // ---------------------------------------------------------------------------
+
+  usagePath(month) {
+    return path.join(this.dataDir, 'usage', `${safeSegment(month)}.json`);
+  }
+
+  getUsage(month) {
+    return this.readJson(this.usagePath(month), null);
+  }
+
+  /**
+   * Add records by ID; records already stored are kept as they are
+   */
+  appendUsage(month, records) {
+    const existing = this.getUsage(month) || [];
+    const known = new Set(existing.map(r => r.id));
+    const added = records.filter(r => !known.has(r.id));
+    if (added.length > 0) {
+      this.writeJson(this.usagePath(month), [...existing, ...added]);
+    }
+    return added.length;
+  }
+
+  getPriceTable() {
+    return this.readJson(path.join(this.dataDir, 'price-table.json'), null);
+  }
+
+  setPriceTable(table) {
+    this.writeJson(path.join(this.dataDir, 'price-table.json'), table);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Evaluation rules (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  rulesPath(schemaId) {
+    return path.join(this.dataDir, 'rules', `${safeSegment(schemaId)}.json`);
+  }
+
+  getRules(schemaId) {
+    return this.readJson(this.rulesPath(schemaId), null);
+  }
+
+  setRules(schemaId, rules) {
+    this.writeJson(this.rulesPath(schemaId), rules);
+  }
+
+  deleteRules(schemaId) {
+    const filePath = this.rulesPath(schemaId);
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rule set versions (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  ruleSetsPath(schemaId) {
+    return path.join(this.dataDir, 'rule-sets', `${safeSegment(schemaId)}.json`);
+  }
+
+  getRuleSets(schemaId) {
+    return this.readJson(this.ruleSetsPath(schemaId), null);
+  }
+
+  setRuleSets(schemaId, versions) {
+    this.writeJson(this.ruleSetsPath(schemaId), versions);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Coaching plans (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  coachingPath(schemaId) {
+    return path.join(this.dataDir, 'coaching', `${safeSegment(schemaId)}.json`);
+  }
+
+  getCoachingPlans(schemaId) {
+    return this.readJson(this.coachingPath(schemaId), null);
+  }
+
+  setCoachingPlans(schemaId, plans) {
+    this.writeJson(this.coachingPath(schemaId), plans);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Report templates (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  reportTemplatesPath(schemaId) {
+    return path.join(this.dataDir, 'report-templates', `${safeSegment(schemaId)}.json`);
+  }
+
+  getReportTemplates(schemaId) {
+    return this.readJson(this.reportTemplatesPath(schemaId), null);
+  }
+
+  setReportTemplates(schemaId, templates) {
+    this.writeJson(this.reportTemplatesPath(schemaId), templates);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Watch-folder ingestion log (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  ingestionLogPath(schemaId) {
+    return path.join(this.dataDir, 'ingestion-log', `${safeSegment(schemaId)}.json`);
+  }
+
+  getIngestionLog(schemaId) {
+    return this.readJson(this.ingestionLogPath(schemaId), null);
+  }
+
+  appendIngestionLog(schemaId, entry) {
+    const entries = [entry, ...(this.getIngestionLog(schemaId) || [])].slice(0, MAX_INGESTION_LOG_ENTRIES);
+    this.writeJson(this.ingestionLogPath(schemaId), entries);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Webhooks and their delivery log (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  webhooksPath(schemaId) {
+    return path.join(this.dataDir, 'webhooks', `${safeSegment(schemaId)}.json`);
+  }
+
+  getWebhooks(schemaId) {
+    return this.readJson(this.webhooksPath(schemaId), null);
+  }
+
+  setWebhooks(schemaId, webhooks) {
+    this.writeJson(this.webhooksPath(schemaId), webhooks);
+  }
+
+  webhookDeliveriesPath(schemaId) {
+    return path.join(this.dataDir, 'webhook-deliveries', `${safeSegment(schemaId)}.json`);
+  }
+
+  getWebhookDeliveries(schemaId) {
+    return this.readJson(this.webhookDeliveriesPath(schemaId), null);
+  }
+
+  /**
+   * Insert or update deliveries by ID; new ones go first
+   */
+  saveWebhookDeliveries(schemaId, deliveries) {
+    const updates = new Map(deliveries.map(d => [d.id, d]));
+    const existing = (this.getWebhookDeliveries(schemaId) || []).map(d => {
+      const updated = updates.get(d.id);
+      updates.delete(d.id);
+      return updated || d;
+    });
+    const entries = [...updates.values(), ...existing].slice(0, MAX_WEBHOOK_DELIVERIES);
+    this.writeJson(this.webhookDeliveriesPath(schemaId), entries);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Prompt registry: versions, golden calls, comparisons (one file per schema)
+  // ---------------------------------------------------------------------------
+
+  promptRegistryPath(resource, schemaId) {
+    if (!PROMPT_REGISTRY_RESOURCES.includes(resource)) {
+      throw new Error(`Unknown prompt registry resource: ${resource}`);
+    }
+    return path.join(this.dataDir, resource, `${safeSegment(schemaId)}.json`);
+  }
+
+  getPromptRegistry(resource, schemaId) {
+    return this.readJson(this.promptRegistryPath(resource, schemaId), null);
+  }
+
+  setPromptRegistry(resource, schemaId, items) {
+    this.writeJson(this.promptRegistryPath(resource, schemaId), items);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Audio blobs
+  // ---------------------------------------------------------------------------
+
+  audioPath(callId, schemaId) {
+    return resolveInside(path.join(this.dataDir, 'audio'), safeSegment(schemaId || '_'), safeSegment(callId));
+  }
+
+  getAudio(callId, schemaId) {
+    const filePath = this.audioPath(callId, schemaId);
+    if (!fs.existsSync(filePath)) return null;
+    const meta = this.readJson(`${filePath}.json`, {});
+    return {
+      data: fs.readFileSync(filePath),
+      contentType: meta.contentType || 'application/octet-stream',
+    };
+  }
+
+  setAudio(callId, schemaId, data, contentType) {
+    const filePath = this.audioPath(callId, schemaId);
+    this.writeFileAtomic(filePath, data);
+    this.writeJson(`${filePath}.json`, { contentType, size: data.length, updatedAt: new Date().toISOString() });
+  }
+
+  deleteAudio(callId, schemaId) {
+    const filePath = this.audioPath(callId, schemaId);
+    for (const target of [filePath, `${filePath}.json`]) {
+      if (fs.existsSync(target)) fs.unlinkSync(target);
+    }
+  }
+
+  clearAudio() {
+    const audioDir = path.join(this.dataDir, 'audio');
+    fs.rmSync(audioDir, { recursive: true, force: true });
+    fs.mkdirSync(audioDir, { recursive: true });
+  }
+}
+
+module.exports = { FileStore, safeSegment, resolveInside };
@@ -0,0 +1,262 @@
+/**
+ * Outbound webhooks
+ *
+ * When calls are saved, the bundled planner (bundles/webhooks.cjs, built by
+ * `npm run build:server`) compares them with the stored version and creates a delivery
+ * for every lifecycle event a schema's webhooks subscribe to. Each delivery is POSTed as
+ * JSON with these headers:
+ *   X-Webhook-Event       - event type, e.g. call.evaluated
+ *   X-Webhook-Delivery    - delivery ID (stable across retries)
+ *   X-Webhook-Timestamp   - unix seconds of this attempt
+ *   X-Webhook-Signature   - sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the webhook secret>
+ * Non-2xx responses and network errors are retried with exponential backoff.
+ * Webhook URLs must not resolve to loopback, private, link-local (cloud metadata) or
+ * other reserved addresses: they are checked when webhooks are saved and again before
+ * every attempt, and redirects are not followed.
+ *
+ * Routes:
+ *   GET   /api/schemas/:id/webhook-deliveries                - delivery log, newest first
+ *   POST  /api/schemas/:id/webhooks/:webhookId/test          - send a test event now
+ *   POST  /api/schemas/:id/webhook-deliveries/:deliveryId/retry - attempt a delivery again now
+ */
+
+const crypto = require('crypto');
+const dns = require('dns');
+const path = require('path');
+const express = require('express');
+
+const PLANNER_PATH = path.join(__dirname, 'bundles', 'webhooks.cjs');
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+let planner;
+
+// Deliveries with a request in progress, so a dispatcher tick does not send them twice
+const inFlight = new Set();
+
+/**
+ * Load the webhook planner once; null when the bundle has not been built
+ */
+function loadPlanner() {
+  if (planner === undefined) {
+    try {
+      planner = require(PLANNER_PATH);
+    } catch (error) {
+      console.warn(`⚠️ Webhook planner not available (${error.message}). Run "npm run build:server".`);
+      planner = null;
+    }
+  }
+  return planner;
+}
+
+/**
+ * Why a webhook URL may not be called, or null when it may. Host names are resolved
+ * and every address they resolve to is checked.
+ */
+async function checkWebhookUrl(rawUrl) {
+  if (!loadPlanner()) return 'Webhook planner not built. Run "npm run build:server".';
+  let url;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return `Invalid webhook URL: ${rawUrl}`;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Webhook URL must use http or https';
+  if (planner.isBlockedWebhookHost(url.hostname)) {
+    return 'Webhook URL must not point to this machine or a private network';
+  }
+  const addresses = await dns.promises.lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true, verbatim: true });
+  const blocked = addresses.find(({ address }) => planner.isPrivateNetworkAddress(address));
+  if (blocked) {
+    return `Webhook host ${url.hostname} resolves to a private network address (${blocked.address})`;
+  }
+  return null;
+}
+
+function signBody(secret, timestamp, body) {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Make one attempt at a delivery and store the outcome (delivered, retry scheduled or failed)
+ */
+async function attemptDelivery(store, delivery) {
+  const webhook = (store.getWebhooks(delivery.schemaId) || []).find(w => w.id === delivery.webhookId);
+  const attempts = delivery.attempts + 1;
+  const lastAttemptAt = new Date().toISOString();
+  let outcome;
+
+  if (!webhook) {
+    outcome = { status: 'failed', error: 'Webhook no longer exists' };
+  } else {
+    inFlight.add(delivery.id);
+    try {
+      const refused = await checkWebhookUrl(webhook.url);
+      if (refused) throw Object.assign(new Error(refused), { permanent: true });
+      const body = planner.buildWebhookBody(delivery.event);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'call-center-performance-webhooks',
+          'X-Webhook-Event': delivery.event.type,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signBody(webhook.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',   // A redirect could lead to an address the URL check did not see
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      outcome = response.ok
+        ? { status: 'delivered', responseStatus: response.status }
+        : { responseStatus: response.status, error: `HTTP ${response.status} ${response.statusText}` };
+    } catch (error) {
+      outcome = error.permanent ? { status: 'failed', error: error.message } : { error: error.message };
+    } finally {
+      inFlight.delete(delivery.id);
+    }
+  }
+
+  if (!outcome.status) {
+    const delay = planner.getRetryDelayMs(attempts);
+    outcome.status = delay === null ? 'failed' : 'pending';
+    outcome.nextAttemptAt = delay === null ? undefined : new Date(Date.now() + delay).toISOString();
+  }
+
+  const updated = {
+    ...delivery,
+    attempts,
+    lastAttemptAt,
+    responseStatus: undefined,
+    error: undefined,
+    nextAttemptAt: undefined,
+    ...outcome,
+  };
+  store.saveWebhookDeliveries(delivery.schemaId, [updated]);
+  if (updated.status === 'failed') {
+    console.warn(`⚠️ Webhook delivery ${delivery.id} failed after ${attempts} attempt(s): ${updated.error}`);
+  }
+  return updated;
+}
+
+/**
+ * Send every pending delivery whose next attempt is due
+ */
+function dispatchDueDeliveries(store) {
+  if (!loadPlanner()) return;
+  const now = new Date().toISOString();
+  for (const schema of store.list('schemas')) {
+    const due = (store.getWebhookDeliveries(schema.id) || [])
+      .filter(d => d.status === 'pending' && !inFlight.has(d.id) && (!d.nextAttemptAt || d.nextAttemptAt <= now));
+    for (const delivery of due) {
+      attemptDelivery(store, delivery).catch(error => {
+        console.error(`❌ Webhook delivery ${delivery.id} errored:`, error);
+      });
+    }
+  }
+}
+
+/**
+ * Queue deliveries for the events between two versions of the calls list
+ * (persistence router onCallsChanged hook)
+ */
+function handleCallsChanged(store, previousCalls, nextCalls) {
+  const schemas = store.list('schemas');
+  const webhooks = {};
+  for (const schema of schemas) {
+    webhooks[schema.id] = store.getWebhooks(schema.id);
+  }
+  if (!Object.values(webhooks).some(list => list && list.some(w => w.enabled))) return;
+  if (!loadPlanner()) return;
+
+  const deliveries = planner.planWebhookDeliveries({ previousCalls, nextCalls, schemas, webhooks });
+  const bySchema = new Map();
+  for (const delivery of deliveries) {
+    if (!bySchema.has(delivery.schemaId)) bySchema.set(delivery.schemaId, []);
+    bySchema.get(delivery.schemaId).push(delivery);
+  }
+
+  let queued = 0;
+  for (const [schemaId, schemaDeliveries] of bySchema) {
+    // The same change saved again (e.g. by a second browser) keeps its first delivery
+    const known = new Set((store.getWebhookDeliveries(schemaId) || []).map(d => d.id));
+    const fresh = schemaDeliveries.filter(d => !known.has(d.id));
+    if (fresh.length === 0) continue;
+    store.saveWebhookDeliveries(schemaId, fresh);
+    queued += fresh.length;
+  }
+
+  if (queued > 0) {
+    console.log(`🔔 Queued ${queued} webhook delivery(ies)`);
+    dispatchDueDeliveries(store);
+  }
+}
+
+/**
+ * Retry due deliveries now and then every intervalMs
+ */
+function startWebhookDispatcher(store, intervalMs) {
+  const tick = () => {
+    try {
+      dispatchDueDeliveries(store);
+    } catch (error) {
+      console.error('❌ Webhook dispatch failed:', error);
+    }
+  };
+  tick();
+  return setInterval(tick, intervalMs);
+}
+
+function createWebhooksRouter(store) {
+  const router = express.Router();
+
+  router.get('/schemas/:id/webhook-deliveries', (req, res) => {
+    const deliveries = store.getWebhookDeliveries(req.params.id);
+    if (!deliveries) {
+      return res.status(404).json({ error: `No webhook deliveries for schema: ${req.params.id}` });
+    }
+    res.json(deliveries);
+  });
+
+  router.post('/schemas/:id/webhooks/:webhookId/test', async (req, res) => {
+    if (!loadPlanner()) {
+      return res.status(503).json({ error: 'Webhook planner not built. Run "npm run build:server".' });
+    }
+    const webhook = (store.getWebhooks(req.params.id) || []).find(w => w.id === req.params.webhookId);
+    if (!webhook) {
+      return res.status(404).json({ error: `Webhook not found: ${req.params.webhookId}` });
+    }
+    try {
+      const delivery = planner.createTestDelivery(webhook);
+      store.saveWebhookDeliveries(webhook.schemaId, [delivery]);
+      res.json({ success: true, delivery: await attemptDelivery(store, delivery) });
+    } catch (error) {
+      console.error('❌ Webhook test failed:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  router.post('/schemas/:id/webhook-deliveries/:deliveryId/retry', async (req, res) => {
+    if (!loadPlanner()) {
+      return res.status(503).json({ error: 'Webhook planner not built. Run "npm run build:server".' });
+    }
+    const delivery = (store.getWebhookDeliveries(req.params.id) || []).find(d => d.id === req.params.deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ error: `Webhook delivery not found: ${req.params.deliveryId}` });
+    }
+    if (inFlight.has(delivery.id)) {
+      return res.status(409).json({ error: 'Delivery is being sent right now' });
+    }
+    try {
+      res.json({ success: true, delivery: await attemptDelivery(store, delivery) });
+    } catch (error) {
+      console.error('❌ Webhook retry failed:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  return router;
+}
+
+module.exports = { createWebhooksRouter, startWebhookDispatcher, handleCallsChanged, checkWebhookUrl };
@@ -1,17 +1,30 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Phone, ChartBar, Users, Upload } from '@phosphor-icons/react';
 import { CallsView } from '@/components/views/CallsView';
 import { AnalyticsView } from '@/components/views/AnalyticsView';
 import { AgentsView } from '@/components/views/AgentsView';
+import { AgentSelfServiceView } from '@/components/views/AgentSelfServiceView';
+import { GlobalFilterBar } from '@/components/analytics/GlobalFilterBar';
 import { ConfigDialog } from '@/components/ConfigDialog';
 import { RulesEditorDialog } from '@/components/RulesEditorDialog';
+import { PromptManagerDialog } from '@/components/PromptManagerDialog';
+import { CostDashboardDialog } from '@/components/CostDashboardDialog';
+import { ReportBuilderDialog } from '@/components/ReportBuilderDialog';
+import { WebhooksDialog } from '@/components/WebhooksDialog';
 import { SchemaSelector } from '@/components/SchemaSelector';
 import { EvaluationRulesWizard } from '@/components/EvaluationRulesWizard';
 import { PersonalizationDialog } from '@/components/PersonalizationDialog';
+import { AccessControlDialog } from '@/components/AccessControlDialog';
+import { AccountMenu } from '@/components/AccountMenu';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { setCustomEvaluationCriteria, azureOpenAIService } from '@/services/azure-openai';
-import { EvaluationCriterion, CallRecord } from '@/types/call';
+import { useAccessControl } from '@/hooks/useAccessControl';
+import { useJobHandlers } from '@/hooks/useJobHandlers';
+import { hasPermission } from '@/services/access-control';
+import { Permission } from '@/types/access-control';
+import { setCustomEvaluationCriteria, azureOpenAIService, getEvaluationCriteriaForSchema } from '@/services/azure-openai';
+import { refreshCoachingProgress } from '@/services/coaching';
+import { EvaluationCriterion, CallRecord, CallFilters } from '@/types/call';
 import { SchemaDefinition } from '@/types/schema';
 import { transcriptionService } from '@/services/transcription';
 import { loadAzureConfigFromCookie, saveAzureConfigCookie } from '@/lib/azure-config-storage';
@@ -22,6 +35,7 @@ import { getActiveSchema, setActiveSchema as setActiveSchemaInStorage, getAllSch
 import { loadRulesForSchema } from '@/services/rules-generator';
 import { toast } from 'sonner';
 import { azureTokenService } from '@/services/azure-token';
+import { isLLMConfigured, toLLMConfig } from '@/services/browser-config-manager';
 import { 
   PersonalizationSettings, 
   initializePersonalization, 
@@ -46,10 +60,16 @@ function App() {
   // Schema state
   const [activeSchema, setActiveSchema] = useState<SchemaDefinition | null>(null);
   const [schemaLoading, setSchemaLoading] = useState(true);
+  // Dashboard filters shared by the analytics and agents tabs
+  const [callFilters, setCallFilters] = useState<CallFilters>({});
   // Batch progress state (persists across tab changes)
-  const [batchProgress, setBatchProgress] = useState<{ completed: number; total: number } | null>(null);
   // Personalization state
   const [personalization, setPersonalization] = useState<PersonalizationSettings>(() => initializePersonalization());
+  // Role of the signed-in user (everyone is admin while access control is off)
+  const { access, settings: accessSettings, setSettings: setAccessSettings } = useAccessControl(azureConfig?.entraId);
+  const can = (permission: Permission) => hasPermission(access, permission);
+  // Background jobs keep running and saving results while other tabs are open
+  useJobHandlers(calls, setCalls, activeSchema, access);
 
   // Initialize schema system on mount
   useEffect(() => {
@@ -92,12 +112,16 @@ function App() {
             // Convert to EvaluationCriterion format and set
             const criteriaRules: EvaluationCriterion[] = schemaRules.map(rule => ({
               id: rule.id,
+              key: rule.key,
               type: rule.type,
               name: rule.name,
               definition: rule.definition,
               evaluationCriteria: rule.evaluationCriteria,
               scoringStandard: rule.scoringStandard,
-              examples: rule.examples
+              examples: rule.examples,
+              section: rule.section,
+              critical: rule.critical,
+              allowNotApplicable: rule.allowNotApplicable,
             }));
             setCustomEvaluationCriteria(criteriaRules);
           }
@@ -145,6 +169,9 @@ function App() {
                 deploymentName: backendConfig.openAI?.deploymentName || '',
                 apiVersion: '2024-12-01-preview',
                 authType: 'managedIdentity',
+                provider: azureConfig?.openAI?.provider,
+                baseUrl: azureConfig?.openAI?.baseUrl,
+                recordResponses: azureConfig?.openAI?.recordResponses,
               },
               speech: {
                 endpoint: backendConfig.speech?.endpoint || '',
@@ -156,10 +183,12 @@ function App() {
                 diarizationEnabled: azureConfig?.speech?.diarizationEnabled ?? false,
                 minSpeakers: azureConfig?.speech?.minSpeakers ?? 1,
                 maxSpeakers: azureConfig?.speech?.maxSpeakers ?? 2,
+                channelMode: azureConfig?.speech?.channelMode,
+                agentChannel: azureConfig?.speech?.agentChannel,
               },
               entraId: {
-                clientId: '',
-                tenantId: '',
+                clientId: backendConfig.auth?.clientId || '',
+                tenantId: backendConfig.auth?.tenantId || '',
               },
               tts: {
                 enabled: azureConfig?.tts?.enabled ?? true,
@@ -206,6 +235,22 @@ function App() {
     }
   }, [azureConfig, setAzureConfig]);
 
+  // Filters refer to one schema's fields and values - start fresh on switch
+  useEffect(() => {
+    setCallFilters({});
+  }, [activeSchema?.id]);
+
+  const schemaCalls = useMemo(
+    () => (calls || []).filter(call => !activeSchema || call.schemaId === activeSchema.id),
+    [calls, activeSchema]
+  );
+
+  // Coaching goals track new evaluations as they arrive
+  useEffect(() => {
+    if (!activeSchema) return;
+    refreshCoachingProgress(activeSchema.id, schemaCalls, getEvaluationCriteriaForSchema(activeSchema.id));
+  }, [schemaCalls, activeSchema]);
+
   // Note: Schema-specific rules are loaded in initializeSchemas and applySchemaChange
   // The global customRules from 'evaluation-criteria-custom' is kept for backwards compatibility
   // but schema-specific rules take priority when a schema is active
@@ -256,6 +301,8 @@ function App() {
         diarizationEnabled: azureConfig!.speech.diarizationEnabled ?? false,
         minSpeakers: azureConfig!.speech.minSpeakers ?? 1,
         maxSpeakers: azureConfig!.speech.maxSpeakers ?? 2,
+        channelMode: azureConfig!.speech.channelMode,
+        agentChannel: azureConfig!.speech.agentChannel,
         authType: azureConfig!.speech.authType ?? 'apiKey',
         tenantId: azureConfig!.speech.tenantId,
       });
@@ -267,30 +314,17 @@ function App() {
       });
     }
     
-    // For Entra ID auth, we don't require API key
-    // Check if OpenAI config is valid based on auth type
-    let hasOpenAIConfig = false;
-    if (azureConfig?.openAI?.authType === 'managedIdentity') {
-      // Managed identity - no frontend config needed, backend handles everything
-      hasOpenAIConfig = true;
-    } else if (azureConfig?.openAI?.authType === 'entraId') {
-      hasOpenAIConfig = !!(azureConfig?.openAI?.endpoint && azureConfig?.openAI?.deploymentName);
-    } else {
-      // API key auth
-      hasOpenAIConfig = !!(azureConfig?.openAI?.endpoint && azureConfig?.openAI?.apiKey && azureConfig?.openAI?.deploymentName);
-    }
+    // Check if OpenAI config is valid based on provider and auth type
+    const hasOpenAIConfig = isLLMConfigured(azureConfig?.openAI);
       
     if (hasOpenAIConfig) {
       console.log('🔍 App.tsx: azureConfig.openAI.reasoningEffort from localStorage:', azureConfig!.openAI.reasoningEffort);
       console.log('🔍 App.tsx: Full openAI config from localStorage:', azureConfig!.openAI);
       
       const configToApply = {
-        endpoint: azureConfig!.openAI.endpoint,
-        apiKey: azureConfig!.openAI.apiKey,
-        deploymentName: azureConfig!.openAI.deploymentName,
+        ...toLLMConfig(azureConfig!.openAI),
         apiVersion: azureConfig!.openAI.apiVersion || '2024-12-01-preview',
         reasoningEffort: azureConfig!.openAI.reasoningEffort || 'low',
-        authType: azureConfig!.openAI.authType,
       };
       
       console.log('📤 App.tsx: Calling azureOpenAIService.updateConfig with:', configToApply);
@@ -331,12 +365,16 @@ function App() {
     if (schemaRules && schemaRules.length > 0) {
       const criteriaRules: EvaluationCriterion[] = schemaRules.map(rule => ({
         id: rule.id,
+        key: rule.key,
         type: rule.type,
         name: rule.name,
         definition: rule.definition,
         evaluationCriteria: rule.evaluationCriteria,
         scoringStandard: rule.scoringStandard,
-        examples: rule.examples
+        examples: rule.examples,
+        section: rule.section,
+        critical: rule.critical,
+        allowNotApplicable: rule.allowNotApplicable,
       }));
       setCustomEvaluationCriteria(criteriaRules);
       console.log(`📋 Loaded ${schemaRules.length} rules for ${schema.name}`);
@@ -387,65 +425,101 @@ function App() {
               <SchemaSelector
                 activeSchema={activeSchema}
                 onSchemaChange={handleSchemaChange}
+                canManage={can('schemas.edit')}
               />
               <div className="h-6 w-px bg-border" />
-              <EvaluationRulesWizard
-                activeSchema={activeSchema}
-                onRulesGenerated={handleRulesUpdate}
-              />
-              <RulesEditorDialog onRulesUpdate={handleRulesUpdate} activeSchema={activeSchema} />
-              <PersonalizationDialog 
-                activeSchema={activeSchema}
-                onSettingsChange={handlePersonalizationChange} 
-              />
-              <ConfigDialog />
+              {can('rules.edit') && (
+                <>
+                  <EvaluationRulesWizard
+                    activeSchema={activeSchema}
+                    onRulesGenerated={handleRulesUpdate}
+                  />
+                  <RulesEditorDialog onRulesUpdate={handleRulesUpdate} onSchemaUpdate={setActiveSchema} activeSchema={activeSchema} />
+                  <PromptManagerDialog activeSchema={activeSchema} />
+                </>
+              )}
+              {can('config.edit') && <CostDashboardDialog activeSchema={activeSchema} onSchemaUpdate={setActiveSchema} />}
+              {can('calls.export') && <ReportBuilderDialog schema={activeSchema} />}
+              {can('config.edit') && <WebhooksDialog schema={activeSchema} />}
+              {can('schemas.edit') && (
+                <PersonalizationDialog 
+                  activeSchema={activeSchema}
+                  onSettingsChange={handlePersonalizationChange} 
+                />
+              )}
+              {can('config.edit') && (
+                <>
+                  <AccessControlDialog access={access} settings={accessSettings} onSettingsChange={setAccessSettings} />
+                  <ConfigDialog />
+                </>
+              )}
+              <AccountMenu access={access} entraConfigured={!!azureConfig?.entraId?.clientId} />
             </div>
           </div>
         </div>
       </header>
 
       <main className="container mx-auto px-8 py-8">
-        <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full max-w-md grid-cols-3">
-            <TabsTrigger value="calls" className="flex items-center gap-2">
-              <Phone size={18} />
-              <span>Calls</span>
-            </TabsTrigger>
-            <TabsTrigger value="analytics" className="flex items-center gap-2">
-              <ChartBar size={18} />
-              <span>Analytics</span>
-            </TabsTrigger>
-            <TabsTrigger value="agents" className="flex items-center gap-2">
-              <Users size={18} />
-              <span>Agents</span>
-            </TabsTrigger>
-          </TabsList>
+        {access.role === 'agent' ? (
+          <AgentSelfServiceView activeSchema={activeSchema} schemaLoading={schemaLoading} access={access} />
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="grid w-full max-w-md grid-cols-3">
+              <TabsTrigger value="calls" className="flex items-center gap-2">
+                <Phone size={18} />
+                <span>Calls</span>
+              </TabsTrigger>
+              <TabsTrigger value="analytics" className="flex items-center gap-2">
+                <ChartBar size={18} />
+                <span>Analytics</span>
+              </TabsTrigger>
+              <TabsTrigger value="agents" className="flex items-center gap-2">
+                <Users size={18} />
+                <span>Agents</span>
+              </TabsTrigger>
+            </TabsList>
 
-          <div className="mt-6">
-            <TabsContent value="calls">
-              <CallsView 
-                batchProgress={batchProgress}
-                setBatchProgress={setBatchProgress}
-                activeSchema={activeSchema}
-                schemaLoading={schemaLoading}
-              />
-            </TabsContent>
+            {activeTab !== 'calls' && activeSchema && (
+              <div className="mt-6">
+                <GlobalFilterBar
+                  schema={activeSchema}
+                  calls={schemaCalls}
+                  filters={callFilters}
+                  onFiltersChange={setCallFilters}
+                />
+              </div>
+            )}
 
-            <TabsContent value="analytics">
-              <AnalyticsView 
-                activeSchema={activeSchema}
-                schemaLoading={schemaLoading}
-              />
-            </TabsContent>
+            <div className="mt-6">
+              <TabsContent value="calls">
+                <CallsView 
+                  activeSchema={activeSchema}
+                  schemaLoading={schemaLoading}
+                  onSchemaUpdate={setActiveSchema}
+                  access={access}
+                />
+              </TabsContent>
 
-            <TabsContent value="agents">
-              <AgentsView 
-                activeSchema={activeSchema}
-                schemaLoading={schemaLoading}
-              />
-            </TabsContent>
-          </div>
-        </Tabs>
+              <TabsContent value="analytics">
+                <AnalyticsView 
+                  activeSchema={activeSchema}
+                  schemaLoading={schemaLoading}
+                  filters={callFilters}
+                  onFiltersChange={setCallFilters}
+                />
+              </TabsContent>
+
+              <TabsContent value="agents">
+                <AgentsView 
+                  activeSchema={activeSchema}
+                  schemaLoading={schemaLoading}
+                  filters={callFilters}
+                  access={access}
+                />
+              </TabsContent>
+            </div>
+          </Tabs>
+        )}
       </main>
     </div>
   );
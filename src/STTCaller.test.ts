@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { STTCaller, assignChannelSpeakers } from './STTCaller';
+import { encodeWav, floatToPcm16 } from '@/lib/wav';
+
+function wav(channels: number): Blob {
+  const pcm = floatToPcm16(Array.from({ length: channels }, () => new Float32Array(160)), 16000);
+  return encodeWav(pcm.data, pcm);
+}
+
+function stubFastTranscription(phrases: object[]) {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+    new Response(JSON.stringify({
+      durationMilliseconds: 5000,
+      combinedPhrases: [{ channel: 0, text: 'Hello, how can I help? Anything else?' }, { channel: 1, text: 'My card is blocked.' }],
+      phrases,
+    }), { status: 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const definitionOf = (init?: RequestInit) => JSON.parse((init!.body as FormData).get('definition') as string);
+
+describe('assignChannelSpeakers', () => {
+  it('maps the agent channel to speaker 1 and the other channel to speaker 2', () => {
+    const phrases = assignChannelSpeakers([
+      { text: 'b', channel: 0, offsetMilliseconds: 900, durationMilliseconds: 100 },
+      { text: 'a', channel: 1, offsetMilliseconds: 100, durationMilliseconds: 100 },
+    ], 1);
+
+    expect(phrases.map(p => [p.text, p.speaker])).toEqual([['a', 1], ['b', 2]]);
+  });
+});
+
+describe('STTCaller per-channel recognition', () => {
+  const caller = new STTCaller({ region: 'eastus', subscriptionKey: 'key' });
+  const options = { locale: 'en-US', maxRetries: 1, diarizationEnabled: true };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('recognizes stereo audio per channel and merges the channels in speaking order', async () => {
+    const fetchMock = stubFastTranscription([
+      { channel: 0, text: 'Hello, how can I help?', offsetMilliseconds: 0, durationMilliseconds: 1500 },
+      { channel: 0, text: 'Anything else?', offsetMilliseconds: 4000, durationMilliseconds: 800 },
+      { channel: 1, text: 'My card is blocked.', offsetMilliseconds: 1800, durationMilliseconds: 1200 },
+    ]);
+
+    const result = await caller.transcribeAudioFile(wav(2), options);
+
+    const definition = definitionOf(fetchMock.mock.calls[0][1]);
+    expect(definition.channels).toEqual([0, 1]);
+    expect(definition.diarization).toBeUndefined();
+    expect(result.phrases!.map(p => p.speaker)).toEqual([1, 2, 1]);
+    expect(result.transcript).toBe('Hello, how can I help? My card is blocked. Anything else?');
+    expect(result.speakerCount).toBe(2);
+  });
+
+  it('keeps diarization for mono audio and when the channel mode is mono', async () => {
+    const fetchMock = stubFastTranscription([]);
+
+    await caller.transcribeAudioFile(wav(1), options);
+    await caller.transcribeAudioFile(wav(2), { ...options, channelMode: 'mono' });
+
+    for (const [, init] of fetchMock.mock.calls) {
+      const definition = definitionOf(init);
+      expect(definition.channels).toBeUndefined();
+      expect(definition.diarization).toMatchObject({ enabled: true });
+    }
+  });
+});
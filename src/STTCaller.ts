@@ -1,5 +1,8 @@
-import { AzureSpeechConfig, TranscriptPhrase, TranscriptionResult, WordTiming } from './types/call';
+import { AudioSegment, AzureSpeechConfig, SpeechChannelMode, TranscriptPhrase, TranscriptionResult, WordTiming } from './types/call';
 import { azureTokenService } from './services/azure-token';
+import { assertWithinBudget, recordUsage } from './services/usage-tracker';
+import { readChannelCount } from './lib/audio-pcm';
+import type { UsageContext } from './types/usage';
 
 export interface STTCallOptions {
   /** Locale for speech recognition (e.g., 'en-US', 'ar-SA', etc.). Use 'auto' for automatic language detection. */
@@ -16,6 +19,12 @@ export interface STTCallOptions {
   minSpeakers?: number;
   /** Maximum number of speakers for diarization */
   maxSpeakers?: number;
+  /** Per-channel recognition of stereo audio (defaults to the config, then 'auto') */
+  channelMode?: SpeechChannelMode;
+  /** Channel of the agent in stereo audio; the other channel is the customer (default 0) */
+  agentChannel?: number;
+  /** Channels to recognize separately; resolved from channelMode when not given */
+  channels?: number[];
   /** Maximum number of retry attempts (default: 3) */
   maxRetries?: number;
   /** Delay between retries in milliseconds (default: 1000) */
@@ -26,6 +35,28 @@ export interface STTCallOptions {
   maxWaitTime?: number;
   /** Time to keep the transcription before automatic deletion (hours, default 48) */
   timeToLiveHours?: number;
+  /** Schema and call the audio seconds are attributed to in the usage records */
+  usage?: Omit<UsageContext, 'operation'>;
+}
+
+/**
+ * Speaker of a phrase recognized on its own channel: the agent channel is speaker 1
+ * (participant_1), the other channel speaker 2 (participant_2)
+ */
+export function speakerForChannel(channel: number, agentChannel = 0): number {
+  return channel === agentChannel ? 1 : 2;
+}
+
+/**
+ * Label per-channel phrases with their channel's speaker and put both channels in
+ * one chronological timeline
+ */
+export function assignChannelSpeakers(phrases: TranscriptPhrase[], agentChannel = 0): TranscriptPhrase[] {
+  return phrases
+    .map(phrase => (typeof phrase.channel === 'number'
+      ? { ...phrase, speaker: speakerForChannel(phrase.channel, agentChannel) }
+      : phrase))
+    .sort((a, b) => a.offsetMilliseconds - b.offsetMilliseconds);
 }
 
 interface TranscriptionJob {
@@ -241,8 +272,12 @@ export class STTCaller {
       ...options,
       diarizationEnabled: options.diarizationEnabled ?? false, // DEFAULT: false (testing 429 fix)
       wordLevelTimestampsEnabled: options.wordLevelTimestampsEnabled ?? true,
+      agentChannel: options.agentChannel ?? this.config.agentChannel ?? 0,
+      channels: options.channels ?? await this.resolveChannels(audioSource, options),
     };
 
+    assertWithinBudget(normalizedOptions.usage);
+
     const maxRetries = normalizedOptions.maxRetries ?? this.DEFAULT_MAX_RETRIES;
     const baseRetryDelay = normalizedOptions.retryDelay ?? this.DEFAULT_RETRY_DELAY;
     let lastError: Error | null = null;
@@ -251,7 +286,12 @@ export class STTCaller {
       try {
         console.log(`🎤 STT transcription attempt ${attempt}/${maxRetries}...`);
         // Always use inline (fast) API for File/Blob objects
+        const startedAt = Date.now();
         const result = await this.executeInlineTranscription(audioSource as File | Blob, normalizedOptions);
+        recordUsage({ ...normalizedOptions.usage, operation: 'stt' }, {
+          audioSeconds: (result.durationMilliseconds ?? 0) / 1000,
+          latencyMs: Date.now() - startedAt,
+        });
         
         if (attempt > 1) {
           console.log(`✓ Transcription succeeded on attempt ${attempt}`);
@@ -284,6 +324,51 @@ export class STTCaller {
     throw new Error(`Transcription failed after ${maxRetries} attempts. Last error: ${lastError?.message}`);
   }
 
+  /**
+   * Channels to recognize separately: both channels of stereo audio unless the
+   * channel mode is 'mono'. 'auto' only uses them when the audio has two channels.
+   */
+  private async resolveChannels(audioSource: File | Blob | string, options: STTCallOptions): Promise<number[] | undefined> {
+    const mode = options.channelMode ?? this.config.channelMode ?? 'auto';
+    if (mode === 'mono') return undefined;
+    if (mode === 'stereo') return [0, 1];
+    if (typeof audioSource === 'string') return undefined;
+
+    const channelCount = await readChannelCount(audioSource);
+    if (channelCount === 2) {
+      console.log('🎧 Stereo audio detected - recognizing each channel separately');
+      return [0, 1];
+    }
+    return undefined;
+  }
+
+  /**
+   * Transcribe one segment of a live audio stream.
+   * Phrase and word offsets are shifted by the segment offset so they line up with
+   * the whole call. Speaker numbers come from diarization of this segment alone.
+   */
+  async transcribeSegment(
+    segment: AudioSegment,
+    options: STTCallOptions = {}
+  ): Promise<TranscriptionResult> {
+    const result = await this.transcribeAudioFile(segment.audio, options);
+    const shiftWords = (words?: WordTiming[]) => words?.map(word => ({
+      ...word,
+      offsetMilliseconds: word.offsetMilliseconds + segment.offsetMilliseconds,
+    }));
+
+    return {
+      ...result,
+      words: shiftWords(result.words),
+      phrases: result.phrases?.map(phrase => ({
+        ...phrase,
+        offsetMilliseconds: phrase.offsetMilliseconds + segment.offsetMilliseconds,
+        words: shiftWords(phrase.words),
+      })),
+      durationMilliseconds: result.durationMilliseconds ?? segment.durationMilliseconds,
+    };
+  }
+
   /**
    * Execute a single transcription (internal method)
    */
@@ -379,7 +464,9 @@ export class STTCaller {
       console.log(`🌍 Using specific locale: ${options.locale}`);
     }
 
-    const diarizationEnabled = options.diarizationEnabled ?? false;
+    // Each channel holds one party, so diarization is not needed (nor supported) with channels
+    const perChannel = !!options.channels?.length;
+    const diarizationEnabled = !perChannel && (options.diarizationEnabled ?? false);
     
     console.log(`🎙️ Diarization options received:`, {
       diarizationEnabled: options.diarizationEnabled,
@@ -392,7 +479,10 @@ export class STTCaller {
       definition.wordLevelTimestampsEnabled = true;
     }
 
-    if (diarizationEnabled) {
+    if (perChannel) {
+      definition.channels = options.channels;
+      console.log(`🎧 Per-channel recognition for channels ${options.channels!.join(', ')} (agent on channel ${options.agentChannel ?? 0})`);
+    } else if (diarizationEnabled) {
       const minSpeakers = Math.max(options.minSpeakers ?? 1, 1);
       const maxSpeakers = Math.min(Math.max(options.maxSpeakers ?? 2, 2), 35);
       definition.diarization = {
@@ -451,13 +541,13 @@ export class STTCaller {
       hasLocale: !!result.phrases?.[0]?.locale
     });
 
-    const transcript = (result.combinedPhrases || [])
+    let transcript = (result.combinedPhrases || [])
       .map((phrase: any) => phrase.text)
       .filter(Boolean)
       .join(' ')
       .trim();
 
-    const phrases: TranscriptPhrase[] = [];
+    let phrases: TranscriptPhrase[] = [];
     const aggregatedWords: WordTiming[] = [];
     const speakers = new Set<number>();
     let confidenceTotal = 0;
@@ -485,7 +575,7 @@ export class STTCaller {
       if (speaker !== undefined) {
         speakers.add(speaker);
         console.log(`🎙️ Speaker ${speaker} detected for phrase`);
-      } else {
+      } else if (!perChannel) {
         console.log(`⚠️ No speaker info in phrase (diarization may be disabled or failed)`);
       }
 
@@ -507,6 +597,14 @@ export class STTCaller {
       });
     }
 
+    if (perChannel) {
+      // combinedPhrases has one entry per channel; rebuild the transcript in speaking order
+      phrases = assignChannelSpeakers(phrases, options.agentChannel ?? 0);
+      phrases.forEach(phrase => speakers.add(phrase.speaker!));
+      aggregatedWords.sort((a, b) => a.offsetMilliseconds - b.offsetMilliseconds);
+      transcript = phrases.map(phrase => phrase.text).filter(Boolean).join(' ').trim();
+    }
+
     const averageConfidence = confidenceCount > 0 ? confidenceTotal / confidenceCount : 0;
     const speakerCount = speakers.size > 0 ? speakers.size : undefined;
 
@@ -515,7 +613,7 @@ export class STTCaller {
       confidence: Math.round(averageConfidence * 100) / 100,
       words: aggregatedWords.length > 0 ? aggregatedWords : undefined,
       phrases: phrases.length > 0 ? phrases : undefined,
-      locale: (result.phrases && result.phrases[0]?.locale) || options.locale || this.DEFAULT_LOCALE,
+      locale: phrases[0]?.locale || options.locale || this.DEFAULT_LOCALE,
       durationMilliseconds: result.durationMilliseconds,
       speakerCount,
     };
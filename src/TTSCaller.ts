@@ -4,6 +4,10 @@
  */
 
 import { azureTokenService } from './services/azure-token';
+import { assertWithinBudget, recordUsage } from './services/usage-tracker';
+import type { UsageContext } from './types/usage';
+import { DecodedAudio, PlacedTurn, decodeAudio, downmix, layoutTurns, mixClips, resample } from './lib/audio-pcm';
+import { encodeWav, floatToPcm16, pcmDurationMs } from './lib/wav';
 
 export type AzureAuthType = 'apiKey' | 'entraId' | 'managedIdentity';
 
@@ -49,6 +53,39 @@ export interface SynthesisResult {
   durationMs: number;
 }
 
+/** Speaking style of one phrase; voices without the style ignore it */
+export interface SpeechStyle {
+  style?: string;                  // mstts:express-as style, e.g. 'angry', 'empathetic'
+  styleDegree?: number;            // 0.01-2, default 1
+  rate?: string;                   // Prosody rate, e.g. '+10%'
+  pitch?: string;                  // Prosody pitch, e.g. '-5%'
+}
+
+export interface StereoPhrase {
+  text: string;
+  voice: string;
+  channel: number;                 // 0 = left (agent), 1 = right (customer)
+  pauseAfterMs?: number;
+  overlapMs?: number;              // Start before the previous phrase ends
+  bargeIn?: boolean;               // Interrupt the previous phrase
+  speechStyle?: SpeechStyle;
+  audio?: Float32Array;            // Pre-rendered mono samples at STEREO_SAMPLE_RATE (hold music), not synthesized
+}
+
+export interface StereoMixOptions {
+  /** Applied to the mixed channels before encoding (acoustic augmentation); may change the sample rate */
+  postProcess?: (audio: DecodedAudio) => DecodedAudio;
+}
+
+export interface StereoConversationResult {
+  audioBlob: Blob;                 // 16-bit PCM WAV, two channels
+  durationMs: number;
+  turns: Array<PlacedTurn & { channel: number }>;
+}
+
+/** Sample rate of mixed stereo conversations; what Speech recognition works at */
+export const STEREO_SAMPLE_RATE = 16000;
+
 // Default Azure Neural Voices (high quality English)
 export const DEFAULT_VOICES = {
   male1: 'en-US-GuyNeural',
@@ -194,7 +231,7 @@ export class TTSCaller {
   /**
    * Build SSML (Speech Synthesis Markup Language) for text
    */
-  private buildSSML(text: string, voiceName: string, rate: string = 'medium', pitch: string = 'medium'): string {
+  private buildSSML(text: string, voiceName: string, speechStyle: SpeechStyle = {}): string {
     // Escape XML special characters
     const escapedText = text
       .replace(/&/g, '&amp;')
@@ -203,11 +240,16 @@ export class TTSCaller {
       .replace(/"/g, '&quot;')
       .replace(/'/g, '&apos;');
 
-    return `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>
-      <voice name='${voiceName}'>
-        <prosody rate='${rate}' pitch='${pitch}'>
+    const prosody = `<prosody rate='${speechStyle.rate || 'medium'}' pitch='${speechStyle.pitch || 'medium'}'>
           ${escapedText}
-        </prosody>
+        </prosody>`;
+    const body = speechStyle.style
+      ? `<mstts:express-as style='${speechStyle.style}' styledegree='${speechStyle.styleDegree ?? 1}'>${prosody}</mstts:express-as>`
+      : prosody;
+
+    return `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xmlns:mstts='https://www.w3.org/2001/mstts' xml:lang='en-US'>
+      <voice name='${voiceName}'>
+        ${body}
       </voice>
     </speak>`;
   }
@@ -224,9 +266,30 @@ export class TTSCaller {
   }
 
   /**
-   * Synthesize text to speech
+   * Synthesize text to speech. Characters and estimated audio seconds are recorded
+   * against the given schema and call.
+   */
+  async synthesize(
+    text: string,
+    voiceName?: string,
+    usage?: Omit<UsageContext, 'operation'>,
+    speechStyle?: SpeechStyle
+  ): Promise<SynthesisResult> {
+    assertWithinBudget(usage);
+    const startedAt = Date.now();
+    const result = await this.executeSynthesis(text, voiceName, speechStyle);
+    recordUsage({ ...usage, operation: 'tts' }, {
+      characters: text.length,
+      audioSeconds: result.durationMs / 1000,
+      latencyMs: Date.now() - startedAt,
+    });
+    return result;
+  }
+
+  /**
+   * Single synthesis request (internal method)
    */
-  async synthesize(text: string, voiceName?: string): Promise<SynthesisResult> {
+  private async executeSynthesis(text: string, voiceName?: string, speechStyle?: SpeechStyle): Promise<SynthesisResult> {
     const voice = voiceName || this.config.defaultNeutralVoice || DEFAULT_VOICES.neutral;
     
     // For managed identity, use backend proxy
@@ -240,6 +303,7 @@ export class TTSCaller {
           text,
           voice,
           outputFormat: this.config.outputFormat || 'audio-24khz-160kbitrate-mono-mp3',
+          ...speechStyle,
         }),
       });
 
@@ -259,7 +323,7 @@ export class TTSCaller {
     }
 
     // For API key or Entra ID, use direct endpoint
-    const ssml = this.buildSSML(text, voice);
+    const ssml = this.buildSSML(text, voice, speechStyle);
     const authHeaders = await this.getAuthHeaders();
 
     const response = await fetch(this.getTTSEndpoint(), {
@@ -394,7 +458,8 @@ export class TTSCaller {
    */
   async synthesizeConversation(
     phrases: Array<{ text: string; voice: string; pauseAfterMs?: number }>,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    usage?: Omit<UsageContext, 'operation'>
   ): Promise<Blob> {
     const audioChunks: Blob[] = [];
 
@@ -411,7 +476,7 @@ export class TTSCaller {
       }
 
       try {
-        const result = await this.synthesize(phrase.text, phrase.voice);
+        const result = await this.synthesize(phrase.text, phrase.voice, usage);
         audioChunks.push(result.audioBlob);
 
         // Add pause between phrases
@@ -437,6 +502,76 @@ export class TTSCaller {
     return new Blob(audioChunks, { type: 'audio/mpeg' });
   }
 
+  /**
+   * Synthesize a two-channel conversation. Each phrase is decoded and mixed into its
+   * speaker's channel on a shared timeline, so phrases can overlap or barge in.
+   */
+  async synthesizeStereoConversation(
+    phrases: StereoPhrase[],
+    onProgress?: (current: number, total: number) => void,
+    usage?: Omit<UsageContext, 'operation'>,
+    options: StereoMixOptions = {}
+  ): Promise<StereoConversationResult> {
+    const clips: Array<{ phrase: StereoPhrase; samples: Float32Array }> = [];
+
+    for (let i = 0; i < phrases.length; i++) {
+      const phrase = phrases[i];
+      onProgress?.(i + 1, phrases.length);
+
+      if (phrase.audio) {
+        clips.push({ phrase, samples: phrase.audio });
+        continue;
+      }
+      if (!phrase.text || phrase.text.trim().length === 0) {
+        continue;
+      }
+
+      try {
+        const result = await this.synthesize(phrase.text, phrase.voice, usage, phrase.speechStyle);
+        const decoded = await decodeAudio(result.audioBlob);
+        clips.push({ phrase, samples: resample(downmix(decoded.channels), decoded.sampleRate, STEREO_SAMPLE_RATE) });
+
+        // Small delay to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 100));
+      } catch (error) {
+        console.error(`Failed to synthesize phrase ${i + 1}:`, error);
+        // Continue with remaining phrases
+      }
+    }
+
+    if (clips.length === 0) {
+      throw new Error('None of the phrases could be synthesized');
+    }
+
+    const durations = clips.map(clip => (clip.samples.length / STEREO_SAMPLE_RATE) * 1000);
+    const placed = layoutTurns(clips.map(({ phrase }, i) => ({
+      durationMs: durations[i],
+      pauseAfterMs: phrase.pauseAfterMs,
+      overlapMs: phrase.overlapMs,
+      bargeIn: phrase.bargeIn,
+    })));
+
+    const mixed = mixClips(
+      clips.map(({ phrase, samples }, i) => ({
+        samples,
+        channel: phrase.channel,
+        startMs: placed[i].startMs,
+        // Only cut phrases that were interrupted
+        endMs: placed[i].endMs < placed[i].startMs + durations[i] ? placed[i].endMs : undefined,
+      })),
+      2,
+      STEREO_SAMPLE_RATE
+    );
+    const processed = options.postProcess ? options.postProcess(mixed) : mixed;
+    const pcm = floatToPcm16(processed.channels, processed.sampleRate);
+
+    return {
+      audioBlob: encodeWav(pcm.data, pcm),
+      durationMs: pcmDurationMs(pcm.data.byteLength, pcm),
+      turns: placed.map((turn, i) => ({ ...turn, channel: clips[i].phrase.channel })),
+    };
+  }
+
   /**
    * Test the TTS connection
    */
@@ -30,7 +30,7 @@ import { toast } from 'sonner';
 import { LLMCaller, ChatMessage } from '@/llmCaller';
 import { AzureOpenAIConfig } from '@/configManager';
 import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
-import { BrowserConfigManager } from '@/services/browser-config-manager';
+import { BrowserConfigManager, isLLMConfigured } from '@/services/browser-config-manager';
 
 interface EnhancementSuggestion {
   suggestedFields: Array<FieldDefinition & { reasoning: string }>;
@@ -93,7 +93,7 @@ export function AISchemaEnhancer({
     }
 
     const config = loadAzureConfigFromCookie();
-    if (!config?.openAI?.endpoint || !config?.openAI?.apiKey) {
+    if (!config?.openAI || !isLLMConfigured(config.openAI)) {
       toast.error('Azure OpenAI not configured. Please configure in Settings.');
       return;
     }
@@ -155,6 +155,7 @@ Return ONLY valid JSON, no markdown or explanation.`;
       const response = await llmCaller.callWithJsonValidation<EnhancementSuggestion>(messages, {
         useJsonMode: false,
         maxRetries: 2,
+        usage: { operation: 'schema-discovery', schemaId: schema.id },
       });
 
       setSuggestions(response.parsed);
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, FloppyDisk, Plus, ShieldCheck, Trash } from '@phosphor-icons/react';
+import { AccessContext, AccessControlSettings, Permission, UserAssignment, UserRole } from '@/types/access-control';
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  USER_ROLES,
+  saveAccessControlSettings,
+} from '@/services/access-control';
+import { toast } from 'sonner';
+
+interface AccessControlDialogProps {
+  access: AccessContext;
+  settings: AccessControlSettings;
+  onSettingsChange: (settings: AccessControlSettings) => void;
+}
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  'schemas.edit': 'Edit schemas',
+  'rules.edit': 'Edit rules',
+  'calls.process': 'Process calls',
+  'calls.delete': 'Delete calls',
+  'calls.export': 'Export & reports',
+  'coaching.edit': 'Coaching',
+  'config.edit': 'Configuration',
+};
+
+function RoleSelect({ value, onChange }: { value: UserRole; onChange: (role: UserRole) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)}>
+      <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {USER_ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Admin settings for role-based access: on/off, claim-to-role mappings and the local user store
+ */
+export function AccessControlDialog({ access, settings, onSettingsChange }: AccessControlDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AccessControlSettings>(settings);
+  const [claimRows, setClaimRows] = useState<Array<{ claim: string; role: UserRole }>>([]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(settings);
+      setClaimRows(Object.entries(settings.claimRoles).map(([claim, role]) => ({ claim, role })));
+    }
+    setOpen(next);
+  };
+
+  const updateUser = (index: number, patch: Partial<UserAssignment>) => {
+    setDraft(prev => ({ ...prev, users: prev.users.map((u, i) => (i === index ? { ...u, ...patch } : u)) }));
+  };
+
+  const updateClaim = (index: number, patch: Partial<{ claim: string; role: UserRole }>) => {
+    setClaimRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const addCurrentUser = () => {
+    if (!access.user) return;
+    setDraft(prev => ({ ...prev, users: [...prev.users, { username: access.user!.username, role: 'admin' }] }));
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveAccessControlSettings(
+        { ...draft, claimRoles: Object.fromEntries(claimRows.map(row => [row.claim, row.role])) },
+        access.user
+      );
+      onSettingsChange(saved);
+      toast.success(saved.enabled ? 'Access control saved' : 'Access control disabled');
+      setOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save access control');
+    }
+  };
+
+  const currentUserListed = !!access.user && draft.users.some(
+    u => u.username.trim().toLowerCase() === access.user!.username.toLowerCase()
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldCheck className="mr-2" size={18} />
+          Access
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Access Control</DialogTitle>
+          <DialogDescription>
+            Give Entra ID users a role. Assignments below win over token claims; everyone else gets the default role.
+            Agents only see their own calls, scores and coaching plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between rounded-md border p-3">
+          <div>
+            <Label htmlFor="access-enabled" className="font-medium">Enable role-based access</Label>
+            <p className="text-xs text-muted-foreground">
+              {access.user
+                ? <>Signed in as {access.user.username}</>
+                : 'Sign in with Entra ID before enabling'}
+            </p>
+          </div>
+          <Switch
+            id="access-enabled"
+            checked={draft.enabled}
+            onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+          />
+        </div>
+
+        <Tabs defaultValue="users" className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="grid w-full max-w-md grid-cols-3">
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="claims">Token Claims</TabsTrigger>
+            <TabsTrigger value="roles">Roles</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="users" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[45vh] pr-3">
+              <div className="space-y-3">
+                {draft.users.map((user, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={user.username}
+                      onChange={(e) => updateUser(index, { username: e.target.value })}
+                      placeholder="user@contoso.com"
+                      className="flex-1"
+                    />
+                    <RoleSelect value={user.role} onChange={(role) => updateUser(index, { role })} />
+                    {user.role === 'agent' && (
+                      <Input
+                        value={user.agentName ?? ''}
+                        onChange={(e) => updateUser(index, { agentName: e.target.value })}
+                        placeholder="Agent name in calls"
+                        className="w-48"
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(prev => ({ ...prev, users: prev.users.filter((_, i) => i !== index) }))}
+                    >
+                      <Trash size={16} />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft(prev => ({ ...prev, users: [...prev.users, { username: '', role: 'read-only' }] }))}
+                  >
+                    <Plus className="mr-2" size={16} />
+                    Add User
+                  </Button>
+                  {access.user && !currentUserListed && (
+                    <Button variant="outline" size="sm" onClick={addCurrentUser}>
+                      <Plus className="mr-2" size={16} />
+                      Add Me as Admin
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Agents are matched on the schema's Agent (participant_1) field. Leave the agent name empty to use
+                  the display name from their token.
+                </p>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="claims" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[45vh] pr-3">
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Map App Registration app roles (roles claim) or group object IDs (groups claim) to roles.
+                  A user with several matching claims gets the most privileged role.
+                </p>
+                {claimRows.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={row.claim}
+                      onChange={(e) => updateClaim(index, { claim: e.target.value })}
+                      placeholder="QA.Lead or group object ID"
+                      className="flex-1"
+                    />
+                    <RoleSelect value={row.role} onChange={(role) => updateClaim(index, { role })} />
+                    <Button variant="ghost" size="sm" onClick={() => setClaimRows(prev => prev.filter((_, i) => i !== index))}>
+                      <Trash size={16} />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => setClaimRows(prev => [...prev, { claim: '', role: 'read-only' }])}>
+                  <Plus className="mr-2" size={16} />
+                  Add Mapping
+                </Button>
+                <div className="flex items-center gap-3 border-t pt-3">
+                  <Label className="text-sm">Default role for other signed-in users</Label>
+                  <RoleSelect
+                    value={draft.defaultRole}
+                    onChange={(defaultRole) => setDraft(prev => ({ ...prev, defaultRole }))}
+                  />
+                </div>
+                {access.user && (access.user.roles.length > 0 || access.user.groups.length > 0) && (
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <div>Your token claims:</div>
+                    <div className="flex flex-wrap gap-1">
+                      {[...access.user.roles, ...access.user.groups].map(claim => (
+                        <Badge key={claim} variant="secondary" className="font-mono">{claim}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="roles" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[45vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    {Object.values(PERMISSION_LABELS).map(label => (
+                      <TableHead key={label} className="text-center text-xs">{label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {USER_ROLES.map(role => (
+                    <TableRow key={role}>
+                      <TableCell>
+                        <div className="font-medium">{ROLE_LABELS[role]}</div>
+                        <div className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</div>
+                      </TableCell>
+                      {(Object.keys(PERMISSION_LABELS) as Permission[]).map(permission => (
+                        <TableCell key={permission} className="text-center">
+                          {ROLE_PERMISSIONS[role].includes(permission) && <Check size={16} className="mx-auto text-green-600" />}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        <p className="text-xs text-muted-foreground">
+          Roles are enforced in the app. The REST API does not check them, so keep a shared server behind
+          network restrictions or App Service authentication.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave}>
+            <FloppyDisk className="mr-2" size={16} />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
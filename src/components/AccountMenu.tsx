@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { SignIn, SignOut, UserCircle } from '@phosphor-icons/react';
+import { AccessContext } from '@/types/access-control';
+import { ROLE_LABELS } from '@/services/access-control';
+import { azureTokenService } from '@/services/azure-token';
+import { toast } from 'sonner';
+
+interface AccountMenuProps {
+  access: AccessContext;
+  entraConfigured: boolean;        // App Registration client ID is set
+}
+
+/**
+ * Signed-in user and role in the header, with Entra ID sign in / sign out
+ */
+export function AccountMenu({ access, entraConfigured }: AccountMenuProps) {
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`🔐 ${failure}:`, error);
+      toast.error(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!access.user) {
+    if (!entraConfigured) {
+      return access.enabled ? <Badge variant="outline">Read-only (Entra ID not configured)</Badge> : null;
+    }
+    return (
+      <Button variant="outline" size="sm" disabled={busy} onClick={() => run(() => azureTokenService.signIn(), 'Sign-in failed')}>
+        <SignIn className="mr-2" size={18} />
+        Sign In
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <UserCircle size={22} className="text-muted-foreground" />
+      <div className="text-right leading-tight">
+        <div className="text-sm font-medium">{access.user.name || access.user.username}</div>
+        {access.enabled && <Badge variant="secondary" className="text-xs">{ROLE_LABELS[access.role]}</Badge>}
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        title="Sign out"
+        disabled={busy}
+        onClick={() => run(() => azureTokenService.logout(), 'Sign-out failed')}
+      >
+        <SignOut size={18} />
+      </Button>
+    </div>
+  );
+}
@@ -10,10 +10,15 @@ import { CallRecord } from '@/types/call';
 import { calculateAgentPerformance, getPerformanceTrend, getAgentNameFromCall, formatDuration } from '@/lib/analytics';
 import { getEvaluationCriteriaForSchema } from '@/services/azure-openai';
 import { PerformanceTrendChart } from '@/components/analytics/PerformanceTrendChart';
+import { CoachingPlanPanel } from '@/components/CoachingPlanPanel';
+import { ReportBuilderDialog } from '@/components/ReportBuilderDialog';
+import { getSchemaById } from '@/services/schema-manager';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { hasPermission } from '@/services/access-control';
+import { AccessContext } from '@/types/access-control';
 import { 
   Trophy, TrendUp, TrendDown, Minus, Clock, Phone, Target, 
   CheckCircle, XCircle, Warning, ChartBar, Gauge, SmileySticker,
@@ -26,6 +31,7 @@ interface AgentDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   schemaId?: string;
+  access?: AccessContext;          // Hides reports and coaching actions the user may not use
 }
 
 // Sentiment bar component
@@ -65,6 +71,7 @@ export function AgentDetailDialog({
   open,
   onOpenChange,
   schemaId,
+  access,
 }: AgentDetailDialogProps) {
   const agentCalls = calls.filter((c) => getAgentNameFromCall(c) === agentName);
   
@@ -113,15 +120,21 @@ export function AgentDetailDialog({
                 )}
               </p>
             </div>
+            {schemaId && (!access || hasPermission(access, 'calls.export')) && (
+              <div className="ml-auto mr-6">
+                <ReportBuilderDialog schema={getSchemaById(schemaId)} agentName={agentName} triggerLabel="Report" />
+              </div>
+            )}
           </div>
         </DialogHeader>
 
         <Tabs defaultValue="overview" className="flex-1 flex flex-col min-h-0">
-          <TabsList className="grid w-full grid-cols-4 flex-shrink-0">
+          <TabsList className={cn("grid w-full flex-shrink-0", schemaId ? "grid-cols-5" : "grid-cols-4")}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="criteria">Criteria</TabsTrigger>
             <TabsTrigger value="insights">AI Insights</TabsTrigger>
             <TabsTrigger value="history">Call History</TabsTrigger>
+            {schemaId && <TabsTrigger value="coaching">Coaching</TabsTrigger>}
           </TabsList>
 
           <div className="flex-1 min-h-0 mt-4 overflow-y-auto pr-2">
@@ -469,6 +482,17 @@ export function AgentDetailDialog({
                 </Card>
               )}
             </TabsContent>
+
+            {/* Coaching Tab */}
+            {schemaId && (
+              <TabsContent value="coaching" className="space-y-4">
+                <CoachingPlanPanel
+                  agentName={agentName}
+                  schemaId={schemaId}
+                  readOnly={!!access && !hasPermission(access, 'coaching.edit')}
+                />
+              </TabsContent>
+            )}
           </div>
         </Tabs>
       </DialogContent>
@@ -23,6 +23,7 @@ import {
 import { ChartBar, Plus, Trash, Check, Warning } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { SchemaDefinition, AnalyticsView } from '@/types/schema';
+import { SPEECH_MEASURES } from '@/lib/speech-analytics';
 
 interface AnalyticsConfigWizardProps {
   activeSchema: SchemaDefinition | null;
@@ -179,33 +180,21 @@ export function AnalyticsConfigWizard({
     try {
       const { LLMCaller } = await import('@/llmCaller');
       const { loadAzureConfigFromCookie } = await import('@/lib/azure-config-storage');
-      const { BrowserConfigManager } = await import('@/services/browser-config-manager');
+      const { BrowserConfigManager, isLLMConfigured, toLLMConfig } = await import('@/services/browser-config-manager');
       
       const azureConfig = loadAzureConfigFromCookie();
-      if (!azureConfig?.openAI?.endpoint || !azureConfig?.openAI?.deploymentName) {
+      // Check for valid auth - API key, Entra ID, managed identity, or a local/mock provider
+      if (!azureConfig?.openAI || !isLLMConfigured(azureConfig.openAI)) {
         toast.error('Azure OpenAI not configured. Please configure in Settings.');
         setGenerating(false);
         return;
       }
-      
-      // Check for valid auth - API key, Entra ID, or managed identity
-      const hasValidAuth = azureConfig.openAI.authType === 'entraId' ||
-        azureConfig.openAI.authType === 'managedIdentity' ||
-        azureConfig.openAI.apiKey;
-      if (!hasValidAuth) {
-        toast.error('Azure OpenAI authentication not configured. Please configure API key or enable Entra ID.');
-        setGenerating(false);
-        return;
-      }
 
       // Use shared BrowserConfigManager that supports Entra ID
       const configManager = new BrowserConfigManager({
-        endpoint: azureConfig.openAI.endpoint,
-        apiKey: azureConfig.openAI.apiKey,
-        deploymentName: azureConfig.openAI.deploymentName,
+        ...toLLMConfig(azureConfig.openAI),
         apiVersion: azureConfig.openAI.apiVersion || '2024-12-01-preview',
         authType: azureConfig.openAI.authType || 'apiKey',
-        tenantId: azureConfig.openAI.tenantId,
         reasoningEffort: azureConfig.openAI.reasoningEffort || 'medium'
       });
 
@@ -323,6 +312,9 @@ ${measureFields.map(f => `- ID: "${f.id}" - Display Name: "${f.displayName}"`).j
 ${calculatedFields.length > 0 ? `
 **Available Calculated Fields (computed from formulas - use the ID in parentheses):**
 ${calculatedFields.map(f => `- ID: "${f.id}" - Display Name: "${f.displayName}" - Description: ${f.description} [Type: ${f.outputType}]`).join('\n')}` : ''}
+
+**Available Speech Measures (computed from transcript timings for every call - use the ID in parentheses):**
+${SPEECH_MEASURES.map(m => `- ID: "${m.id}" - Display Name: "${m.displayName}" - Description: ${m.description}`).join('\n')}
 ${topicTaxonomyContext}${insightCategoriesContext}${relationshipsContext}${evaluationRulesContext}
 **Task:**
 Generate 5-8 meaningful, business-relevant analytics views that would provide valuable insights for this use case. 
@@ -333,7 +325,7 @@ For each view, specify:
 2. **description**: Brief explanation of what insights this view provides
 3. **chartType**: One of: "bar", "line", "pie", "area", "scatter"
 4. **dimensionField**: The exact field ID (not display name) from the dimension fields list above - MUST match exactly, or omit if count-only
-5. **measureField**: The exact field ID (not display name) from the measure or calculated fields list above - MUST match exactly, or omit for count
+5. **measureField**: The exact field ID (not display name) from the measure, calculated or speech measure lists above - MUST match exactly, or omit for count
 6. **aggregation**: One of: "count", "sum", "average", "min", "max" (use "count" if no measureField)
 
 **CRITICAL: You MUST use the exact field ID values (the quoted strings after "ID:") for dimensionField and measureField. Do NOT use display names or make up field names.**
@@ -354,7 +346,7 @@ Return ONLY a valid JSON array of analytics views.`;
 
       const response = await llmCaller.callWithJsonValidation<any>(
         [{ role: 'user', content: prompt }],
-        {}
+        { usage: { operation: 'schema-discovery', schemaId: activeSchema.id } }
       );
 
       // Handle both array and object responses
@@ -401,7 +393,7 @@ Return ONLY a valid JSON array of analytics views.`;
         description: v.description || '',
         chartType: v.chartType || 'bar',
         dimensionField: findFieldId(v.dimensionField, dimensionFields, calculatedFields),
-        measureField: findFieldId(v.measureField, measureFields, calculatedFields),
+        measureField: findFieldId(v.measureField, measureFields, [...calculatedFields, ...SPEECH_MEASURES]),
         aggregation: v.aggregation || 'count',
         enabled: true,
       }));
@@ -694,6 +686,17 @@ Return ONLY a valid JSON array of analytics views.`;
                             ))}
                           </>
                         )}
+                        <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground border-t mt-1">
+                          Speech Analytics
+                        </div>
+                        {SPEECH_MEASURES.map((measure) => (
+                          <SelectItem key={measure.id} value={measure.id}>
+                            <div>
+                              <div>{measure.displayName}</div>
+                              <div className="text-xs text-muted-foreground">{measure.description}</div>
+                            </div>
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <p className="text-xs text-muted-foreground">
@@ -8,18 +8,19 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { CallRecord } from '@/types/call';
+import { CallRecord, CallEvaluation } from '@/types/call';
 import { SchemaDefinition } from '@/types/schema';
 import { AzureServicesConfig } from '@/types/config';
 import { azureOpenAIService, getActiveEvaluationCriteria, getEvaluationCriteriaForSchema } from '@/services/azure-openai';
 import { STTCaller } from '../STTCaller';
 import { DynamicDetailView, DynamicDetailSummary } from '@/components/DynamicDetailView';
 import { toast } from 'sonner';
-import { CheckCircle, XCircle, MinusCircle, Sparkle, Microphone, SpeakerHigh } from '@phosphor-icons/react';
+import { CheckCircle, XCircle, MinusCircle, Sparkle, Microphone, SpeakerHigh, WarningOctagon } from '@phosphor-icons/react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import ReactMarkdown from 'react-markdown';
 import { CallSentimentPlayer } from '@/components/call-player/CallSentimentPlayer';
@@ -28,8 +29,15 @@ import { DynamicInsightGrid } from '@/components/DynamicInsightCard';
 import { DEFAULT_CALL_CENTER_LANGUAGES } from '@/lib/speech-languages';
 import { generateSyntheticAudio, SyntheticAudioProgress } from '@/services/synthetic-audio';
 import { LLMCaller } from '@/llmCaller';
-import { BrowserConfigManager } from '@/services/browser-config-manager';
+import { BrowserConfigManager, isLLMConfigured, toLLMConfig } from '@/services/browser-config-manager';
 import { storeAudioFile } from '@/lib/audio-storage';
+import { appendEvaluation, resolveCriterion } from '@/lib/evaluation-history';
+import { getCalculatedValue } from '@/lib/formula-executor';
+import { getRedactionPolicy, getRedactedTranscript } from '@/lib/pii-redaction';
+import { computeSpeechMetrics, getCallSpeechMetrics } from '@/lib/speech-analytics';
+import { EvaluationHistoryPanel } from '@/components/EvaluationHistoryPanel';
+import { CriterionReviewControl } from '@/components/CriterionReviewControl';
+import { reviewCriterion, clearCriterionReview, CriterionReviewInput } from '@/lib/evaluation-overrides';
 
 interface CallDetailDialogProps {
   call: CallRecord;
@@ -37,6 +45,7 @@ interface CallDetailDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onUpdate: (call: CallRecord) => void;
+  readOnly?: boolean;              // Hide transcription, evaluation and review actions
 }
 
 export function CallDetailDialog({
@@ -45,6 +54,7 @@ export function CallDetailDialog({
   open,
   onOpenChange,
   onUpdate,
+  readOnly = false,
 }: CallDetailDialogProps) {
   const [config] = useLocalStorage<AzureServicesConfig>('azure-services-config', {
     openAI: { endpoint: '', apiKey: '', deploymentName: '', apiVersion: '2024-12-01-preview' },
@@ -57,9 +67,18 @@ export function CallDetailDialog({
   const [analyzingSentiment, setAnalyzingSentiment] = useState(false);
   const [audioGenerationProgress, setAudioGenerationProgress] = useState<SyntheticAudioProgress | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | undefined>(undefined);
+  const [showRedacted, setShowRedacted] = useState(false);
 
   const isProcessing = call.status === 'processing' || transcribing;
 
+  // Redacted transcript variant (what evaluation/export see when the schema policy is enabled)
+  const redactedView = getRedactionPolicy(schema).enabled && call.transcript
+    ? getRedactedTranscript(call, schema)
+    : null;
+  const displayedPhrases = showRedacted && redactedView?.phrases ? redactedView.phrases : call.transcriptPhrases;
+  const displayedTranscript = showRedacted && redactedView ? redactedView.transcript : call.transcript;
+  const speechMetrics = getCallSpeechMetrics(call);
+
   // Create blob URL for audio file
   useEffect(() => {
     if (call.audioFile && call.audioFile instanceof Blob) {
@@ -112,6 +131,8 @@ export function CallDetailDialog({
         selectedLanguages: selectedLanguages,
         authType: config.speech?.authType || 'apiKey',  // CRITICAL: Pass auth type for managedIdentity support
         tenantId: config.speech?.tenantId,
+        channelMode: config.speech?.channelMode,
+        agentChannel: config.speech?.agentChannel,
       });
 
       // Convert audio file to File object if needed
@@ -133,6 +154,7 @@ export function CallDetailDialog({
         diarizationEnabled: config.speech.diarizationEnabled ?? false,
         minSpeakers: config.speech.minSpeakers ?? 1,
         maxSpeakers: config.speech.maxSpeakers ?? 2,
+        usage: { schemaId: call.schemaId, callId: call.id },
       });
 
       let sentimentSegments = call.sentimentSegments;
@@ -142,13 +164,8 @@ export function CallDetailDialog({
       // Attempt sentiment analysis if we have phrases and Azure OpenAI is configured
       if (result.phrases && result.phrases.length > 0) {
         // Ensure Azure OpenAI service has the latest config
-        if (config?.openAI.endpoint && config?.openAI.apiKey && config?.openAI.deploymentName) {
-          azureOpenAIService.updateConfig({
-            endpoint: config.openAI.endpoint,
-            apiKey: config.openAI.apiKey,
-            deploymentName: config.openAI.deploymentName,
-            apiVersion: config.openAI.apiVersion,
-          });
+        if (config?.openAI && isLLMConfigured(config.openAI)) {
+          azureOpenAIService.updateConfig(toLLMConfig(config.openAI));
         }
         
         const configValidation = azureOpenAIService.validateConfig();
@@ -161,7 +178,8 @@ export function CallDetailDialog({
               result.phrases,
               result.locale || 'en-US',
               ['positive', 'neutral', 'negative'],
-              businessContext
+              businessContext,
+              schema.redactionPolicy
             );
             sentimentSegments = sentiment.segments;
             sentimentSummary = sentiment.summary;
@@ -196,6 +214,7 @@ export function CallDetailDialog({
         transcriptDuration: result.durationMilliseconds,
         transcriptPhrases: result.phrases,
         transcriptSpeakerCount: result.speakerCount,
+        speechMetrics: computeSpeechMetrics({ transcriptPhrases: result.phrases, transcriptDuration: result.durationMilliseconds }),
         sentimentSegments,
         sentimentSummary,
         overallSentiment,
@@ -229,6 +248,27 @@ export function CallDetailDialog({
     }
   };
 
+  const saveReviewedEvaluation = (evaluation: CallEvaluation) => {
+    onUpdate({
+      ...appendEvaluation(call, evaluation),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const handleReviewCriterion = (criterionId: number, input: CriterionReviewInput) => {
+    if (!call.evaluation) return;
+    saveReviewedEvaluation(
+      reviewCriterion(call.evaluation, criterionId, input, getEvaluationCriteriaForSchema(schema.id))
+    );
+    toast.success('QA review saved');
+  };
+
+  const handleClearReview = (criterionId: number) => {
+    if (!call.evaluation) return;
+    saveReviewedEvaluation(clearCriterionReview(call.evaluation, criterionId));
+    toast.success('AI verdict restored');
+  };
+
   const handleEvaluate = async () => {
     if (!call.transcript) {
       toast.error('No transcript available for evaluation');
@@ -236,9 +276,7 @@ export function CallDetailDialog({
     }
 
     // Check OpenAI config - managedIdentity doesn't need apiKey (backend handles auth)
-    const hasOpenAIConfig = config?.openAI?.authType === 'managedIdentity'
-      ? true
-      : (config?.openAI?.endpoint && config?.openAI?.apiKey);
+    const hasOpenAIConfig = isLLMConfigured(config?.openAI);
     
     if (!hasOpenAIConfig) {
       toast.error('Azure OpenAI not configured. Please configure in Settings.');
@@ -249,12 +287,7 @@ export function CallDetailDialog({
     try {
       // Update service configuration (for non-managedIdentity auth)
       if (config?.openAI?.authType !== 'managedIdentity') {
-        azureOpenAIService.updateConfig({
-          endpoint: config!.openAI.endpoint,
-          apiKey: config!.openAI.apiKey,
-          deploymentName: config!.openAI.deploymentName,
-          apiVersion: config!.openAI.apiVersion,
-        });
+        azureOpenAIService.updateConfig(toLLMConfig(config!.openAI));
       }
 
       const evaluation = await azureOpenAIService.evaluateCall(
@@ -278,7 +311,8 @@ export function CallDetailDialog({
             call.transcriptPhrases,
             call.transcriptLocale || 'en-US',
             ['positive', 'neutral', 'negative'],
-            businessContext
+            businessContext,
+            schema.redactionPolicy
           );
           sentimentSegments = sentiment.segments;
           sentimentSummary = sentiment.summary;
@@ -300,8 +334,7 @@ export function CallDetailDialog({
       }
 
       const updatedCall: CallRecord = {
-        ...call,
-        evaluation,
+        ...appendEvaluation(call, evaluation),
         sentimentSegments,
         sentimentSummary,
         overallSentiment,
@@ -337,9 +370,7 @@ export function CallDetailDialog({
     }
 
     // Check OpenAI config - managedIdentity doesn't need apiKey (backend handles auth)
-    const hasOpenAIConfig = config?.openAI?.authType === 'managedIdentity'
-      ? true
-      : (config?.openAI?.endpoint && config?.openAI?.apiKey);
+    const hasOpenAIConfig = isLLMConfigured(config?.openAI);
     
     if (!hasOpenAIConfig) {
       toast.error('Azure OpenAI not configured. Needed for gender detection from names.');
@@ -357,13 +388,8 @@ export function CallDetailDialog({
     try {
       // Create LLM caller for gender detection using shared BrowserConfigManager
       const llmCaller = new LLMCaller(new BrowserConfigManager({
-        endpoint: config.openAI.endpoint,
-        apiKey: config.openAI.apiKey,
-        deploymentName: config.openAI.deploymentName,
-        apiVersion: config.openAI.apiVersion,
-        reasoningEffort: config.openAI.reasoningEffort,
+        ...toLLMConfig(config.openAI),
         authType: config.openAI.authType || 'apiKey',
-        tenantId: config.openAI.tenantId,
       }));
 
       toast.info('Generating synthetic audio from transcript...');
@@ -382,12 +408,13 @@ export function CallDetailDialog({
       );
 
       // Store the generated audio in IndexedDB
-      await storeAudioFile(call.id, result.audioBlob);
+      const audioHash = await storeAudioFile(call.id, result.audioBlob);
 
       // Update the call with the synthetic audio
       const updatedCall: CallRecord = {
         ...call,
         audioFile: result.audioBlob,
+        audioHash,
         metadata: {
           ...call.metadata,
           syntheticAudioGenerated: true,
@@ -436,6 +463,9 @@ export function CallDetailDialog({
                 <div className="text-sm text-muted-foreground">
                   {call.evaluation.totalScore} / {call.evaluation.maxScore} points
                 </div>
+                {call.evaluation.autoFailed && (
+                  <Badge variant="destructive" className="mt-1">Auto-failed</Badge>
+                )}
               </div>
             )}
           </div>
@@ -461,10 +491,10 @@ export function CallDetailDialog({
             {schema.relationships && schema.relationships.length > 0 && (() => {
               const calculatedMetrics = schema.relationships
                 .filter(rel => rel.type === 'complex' && rel.formula)
-                .map(rel => ({
-                  relationship: rel,
-                  value: call.metadata[`calc_${rel.id}`]
-                }))
+                .map(rel => {
+                  const result = getCalculatedValue(rel, call.metadata);
+                  return { relationship: rel, value: result.success ? result.result : undefined };
+                })
                 .filter(item => item.value !== undefined);
               
               if (calculatedMetrics.length === 0) return null;
@@ -535,7 +565,7 @@ export function CallDetailDialog({
                         : 'Use Azure Speech-to-Text to automatically transcribe this call'}
                     </p>
                   </div>
-                  {call.audioFile && !isProcessing && (
+                  {call.audioFile && !isProcessing && !readOnly && (
                     <Button onClick={handleTranscribe} disabled={isProcessing}>
                       {isProcessing ? 'Processing...' : 'Transcribe Audio'}
                     </Button>
@@ -566,9 +596,22 @@ export function CallDetailDialog({
                   </Card>
                 )}
                 
-                {call.transcriptPhrases && call.transcriptPhrases.length > 0 ? (
+                {redactedView && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      🔒 {redactedView.spans.length} PII item{redactedView.spans.length === 1 ? '' : 's'} masked
+                      (evaluation: {getRedactionPolicy(schema).evaluation}, export: {getRedactionPolicy(schema).export})
+                    </span>
+                    <label className="flex items-center gap-2">
+                      Show redacted
+                      <Switch checked={showRedacted} onCheckedChange={setShowRedacted} />
+                    </label>
+                  </div>
+                )}
+
+                {displayedPhrases && displayedPhrases.length > 0 ? (
                   <TranscriptConversation
-                    phrases={call.transcriptPhrases}
+                    phrases={displayedPhrases}
                     agentName={(() => {
                       const agentField = schema.fields.find(f => f.semanticRole === 'participant_1');
                       return agentField ? String(call.metadata[agentField.id] || agentField.participantLabel || 'Agent') : 'Agent';
@@ -583,11 +626,12 @@ export function CallDetailDialog({
                 ) : (
                   <ScrollArea className="h-[450px] border border-border rounded-lg p-4">
                     <div className="whitespace-pre-wrap text-sm leading-relaxed">
-                      {call.transcript}
+                      {displayedTranscript}
                     </div>
                   </ScrollArea>
                 )}
                 
+                {!readOnly && (
                 <div className="flex justify-end gap-2">
                   <Button
                     onClick={handleGenerateSyntheticAudio}
@@ -612,6 +656,7 @@ export function CallDetailDialog({
                     {isProcessing ? 'Processing...' : 'Re-transcribe'}
                   </Button>
                 </div>
+                )}
               </div>
             )}
           </TabsContent>
@@ -629,13 +674,55 @@ export function CallDetailDialog({
                       Use AI to evaluate this call against {getEvaluationCriteriaForSchema(schema.id).length} quality criteria
                     </p>
                   </div>
-                  <Button onClick={handleEvaluate} disabled={evaluating}>
-                    {evaluating ? 'Evaluating...' : 'Evaluate Call'}
-                  </Button>
+                  {!readOnly && (
+                    <Button onClick={handleEvaluate} disabled={evaluating}>
+                      {evaluating ? 'Evaluating...' : 'Evaluate Call'}
+                    </Button>
+                  )}
                 </div>
               </Card>
             ) : (
               <div className="space-y-6">
+                {call.evaluation.autoFailed && (
+                  <Card className="border-destructive">
+                    <CardContent className="p-4 flex items-start gap-3">
+                      <WarningOctagon size={24} weight="fill" className="text-destructive flex-shrink-0" />
+                      <div className="text-sm">
+                        <p className="font-semibold">Call auto-failed on a critical criterion</p>
+                        <p className="text-muted-foreground">
+                          {call.evaluation.autoFailReasons?.join(', ')} - the call scores 0% regardless of other criteria.
+                        </p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {call.evaluation.sectionScores && call.evaluation.sectionScores.length > 1 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Scorecard Sections</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {call.evaluation.sectionScores.map((section) => (
+                        <div key={section.sectionId} className="space-y-1">
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">
+                              {section.name}
+                              <span className="ml-2 text-xs text-muted-foreground">weight {section.weight}</span>
+                            </span>
+                            <span>
+                              {section.maxScore > 0
+                                ? `${section.percentage}% (${section.score}/${section.maxScore})`
+                                : 'N/A'}
+                            </span>
+                          </div>
+                          <Progress value={section.maxScore > 0 ? section.percentage : 0} className="h-2" />
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-lg">Overall Feedback</CardTitle>
@@ -652,25 +739,26 @@ export function CallDetailDialog({
                     // Get criteria for this call's schema
                     const schemaCriteria = getEvaluationCriteriaForSchema(schema.id);
                     
-                    // The AI returns criterionId as 1-based sequential numbers (1, 2, 3...)
-                    // but the actual IDs in storage are like "rule_1765352460817_0" (0-based suffix)
-                    // So we match by index position: criterionId 1 -> index 0, criterionId 2 -> index 1, etc.
-                    const criterionIndex = typeof result.criterionId === 'number' 
-                      ? result.criterionId - 1 
-                      : parseInt(String(result.criterionId), 10) - 1;
-                    const criterion = schemaCriteria[criterionIndex] || schemaCriteria.find(c => c.id === result.criterionId);
+                    // Match by stable key; results stored before keys existed use their rule id
+                    const criterion = resolveCriterion(schemaCriteria, result.criterionId, result.criterionKey);
                     
-                    // Show fallback if criterion not found
-                    const criterionName = criterion?.name || `Criterion #${result.criterionId}`;
+                    // Show fallback if criterion not found (e.g. retired since this evaluation)
+                    const criterionName = criterion?.name || result.criterionName || `Criterion #${result.criterionId}`;
                     const criterionType = criterion?.type || 'Unknown';
-                    const maxScore = criterion?.scoringStandard?.passed || 10;
+                    const maxScore = result.maxScore || criterion?.scoringStandard?.passed || 10;
 
                     return (
                       <Card key={result.criterionId}>
                         <CardContent className="p-4">
                           <div className="flex items-start gap-4">
                             <div className="flex-shrink-0 mt-1">
-                              {result.passed ? (
+                              {result.notApplicable ? (
+                                <MinusCircle
+                                  size={24}
+                                  weight="fill"
+                                  className="text-muted-foreground"
+                                />
+                              ) : result.passed ? (
                                 <CheckCircle
                                   size={24}
                                   weight="fill"
@@ -696,18 +784,25 @@ export function CallDetailDialog({
                                   <h4 className="font-semibold">{criterionName}</h4>
                                   <p className="text-xs text-muted-foreground mt-0.5">
                                     {criterionType}
+                                    {result.critical && <span className="ml-2 text-destructive font-medium">Critical</span>}
                                   </p>
                                 </div>
-                                <Badge
-                                  variant={result.passed ? 'default' : 'destructive'}
-                                >
-                                  {result.score} pts
-                                </Badge>
+                                {result.notApplicable ? (
+                                  <Badge variant="outline">N/A</Badge>
+                                ) : (
+                                  <Badge
+                                    variant={result.passed ? 'default' : 'destructive'}
+                                  >
+                                    {result.score} pts
+                                  </Badge>
+                                )}
                               </div>
-                              <Progress
-                                value={(result.score / maxScore) * 100}
-                                className="h-2"
-                              />
+                              {!result.notApplicable && (
+                                <Progress
+                                  value={(result.score / maxScore) * 100}
+                                  className="h-2"
+                                />
+                              )}
                               <div className="text-sm">
                                 <p className="font-medium text-muted-foreground">Evidence:</p>
                                 <p className="mt-1 italic">"{result.evidence}"</p>
@@ -716,6 +811,12 @@ export function CallDetailDialog({
                                 <p className="font-medium text-muted-foreground">Reasoning:</p>
                                 <p className="mt-1">{result.reasoning}</p>
                               </div>
+                              <CriterionReviewControl
+                                result={result}
+                                onSave={(input) => handleReviewCriterion(result.criterionId, input)}
+                                onClear={() => handleClearReview(result.criterionId)}
+                                readOnly={readOnly}
+                              />
                             </div>
                           </div>
                         </CardContent>
@@ -724,11 +825,18 @@ export function CallDetailDialog({
                   })}
                 </div>
 
-                <div className="flex justify-end">
-                  <Button onClick={handleEvaluate} variant="outline" disabled={evaluating}>
-                    {evaluating ? 'Re-evaluating...' : 'Re-evaluate'}
-                  </Button>
-                </div>
+                <EvaluationHistoryPanel
+                  call={call}
+                  criteria={getEvaluationCriteriaForSchema(schema.id)}
+                />
+
+                {!readOnly && (
+                  <div className="flex justify-end">
+                    <Button onClick={handleEvaluate} variant="outline" disabled={evaluating}>
+                      {evaluating ? 'Re-evaluating...' : 'Re-evaluate'}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
           </TabsContent>
@@ -994,7 +1102,7 @@ export function CallDetailDialog({
           </TabsContent>
 
           <TabsContent value="sentiment" className="space-y-4">
-            {call.transcript && call.transcriptPhrases && (
+            {call.transcript && call.transcriptPhrases && !readOnly && (
               <div className="flex justify-end">
                 <Button
                   onClick={async () => {
@@ -1012,7 +1120,8 @@ export function CallDetailDialog({
                         call.transcriptPhrases,
                         call.transcriptLocale || 'en-US',
                         ['positive', 'neutral', 'negative'],
-                        businessContext
+                        businessContext,
+                        schema.redactionPolicy
                       );
                       
                       const updatedCall = {
@@ -1041,12 +1150,13 @@ export function CallDetailDialog({
             )}
             
             {/* Single unified player - shows audio and sentiment when available */}
-            {(audioUrl || (call.sentimentSegments && call.sentimentSegments.length > 0)) && (
+            {(audioUrl || speechMetrics || (call.sentimentSegments && call.sentimentSegments.length > 0)) && (
               <CallSentimentPlayer
                 audioUrl={audioUrl}
                 durationMilliseconds={call.transcriptDuration}
                 segments={call.sentimentSegments}
                 sentimentSummary={call.sentimentSummary}
+                speechMetrics={speechMetrics}
               />
             )}
 
@@ -13,6 +13,7 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { PlayCircle, Microphone, CheckCircle } from '@phosphor-icons/react';
 import { useMemo, useState, useEffect } from 'react';
+import { getCalculatedValue } from '@/lib/formula-executor';
 
 interface CallsTableProps {
   calls: CallRecord[];
@@ -58,6 +59,14 @@ export function CallsTable({
     );
   }, [schema]);
 
+  // Calculated value for a call: stored at import, otherwise evaluated with the formula language
+  const getCalculatedFieldValue = (call: CallRecord, relId: string) => {
+    const rel = calculatedFields.find(r => r.id === relId);
+    if (!rel) return undefined;
+    const result = getCalculatedValue(rel, call.metadata);
+    return result.success ? result.result : undefined;
+  };
+
   const getStatusBadge = (status: CallRecord['status']) => {
     const variants: Record<CallRecord['status'], {
       variant: 'default' | 'secondary' | 'destructive' | 'outline';
@@ -148,8 +157,10 @@ export function CallsTable({
       return call.evaluation?.percentage ?? null;
     }
     
-    // Handle metadata fields from schema
-    const value = call.metadata[key];
+    // Handle metadata fields from schema (calc_<id> keys are calculated fields)
+    const value = key.startsWith('calc_') && calculatedFields.some(rel => `calc_${rel.id}` === key)
+      ? getCalculatedFieldValue(call, key.slice('calc_'.length))
+      : call.metadata[key];
     if (value === null || value === undefined) return null;
     
     // Normalize strings for case-insensitive sorting
@@ -184,7 +195,7 @@ export function CallsTable({
       return sortConfig.direction === 'asc' ? numericComparison : -numericComparison;
     });
     return result;
-  }, [calls, sortConfig]);
+  }, [calls, sortConfig, calculatedFields]);
 
   // Paginate the sorted calls
   const paginatedCalls = sortedCalls.slice(startIndex, endIndex);
@@ -325,7 +336,7 @@ export function CallsTable({
               
               {/* Calculated field cells */}
               {calculatedFields.map(rel => {
-                const value = call.metadata[`calc_${rel.id}`];
+                const value = getCalculatedFieldValue(call, rel.id);
                 const formattedValue = value !== undefined && value !== null
                   ? (typeof value === 'number' ? value.toFixed(2) : String(value))
                   : '-';
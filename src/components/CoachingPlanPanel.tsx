@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { CallRecord } from '@/types/call';
+import { CoachingGoal, CoachingPlan } from '@/types/coaching';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Target, Sparkle, CheckCircle, XCircle, ChatCircleText, Archive, CircleNotch } from '@phosphor-icons/react';
+import { getSchemaById } from '@/services/schema-manager';
+import { getEvaluationCriteriaForSchema } from '@/services/azure-openai';
+import {
+  MIN_RESULTS_FOR_GOAL,
+  generateCoachingPlan,
+  getCurrentPlanForAgent,
+  recordCoachingSession,
+  saveCoachingPlan,
+  updatePlanProgress,
+} from '@/services/coaching';
+import { toast } from 'sonner';
+
+interface CoachingPlanPanelProps {
+  agentName: string;
+  schemaId: string;
+  readOnly?: boolean;              // Agent self-service: view the plan without managing it
+}
+
+function GoalStatusBadge({ goal }: { goal: CoachingGoal }) {
+  if (goal.status === 'achieved') {
+    return <Badge className="bg-green-600">Achieved</Badge>;
+  }
+  if (goal.status === 'missed') {
+    return <Badge variant="destructive">Missed</Badge>;
+  }
+  return <Badge variant="outline">Due {goal.dueDate}</Badge>;
+}
+
+/**
+ * Coaching plan of an agent: goals with live progress, example calls and the
+ * supervisor session log
+ */
+export function CoachingPlanPanel({ agentName, schemaId, readOnly = false }: CoachingPlanPanelProps) {
+  const [allCalls] = useLocalStorage<CallRecord[]>('calls', []);
+  const [supervisor, setSupervisor] = useLocalStorage<string>('qa-reviewer-name', '');
+  const [plan, setPlan] = useState<CoachingPlan | undefined>();
+  const [generating, setGenerating] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [discussedGoals, setDiscussedGoals] = useState<string[]>([]);
+
+  // Examples and progress come from every call of the schema, not the dashboard filters
+  const schemaCalls = useMemo(
+    () => (allCalls || []).filter(call => call.schemaId === schemaId),
+    [allCalls, schemaId]
+  );
+
+  useEffect(() => {
+    const current = getCurrentPlanForAgent(schemaId, agentName);
+    if (!current) {
+      setPlan(undefined);
+      return;
+    }
+    const updated = updatePlanProgress(current, schemaCalls, getEvaluationCriteriaForSchema(schemaId));
+    if (updated !== current && !readOnly) saveCoachingPlan(updated);
+    setPlan(updated);
+  }, [agentName, schemaId, schemaCalls, readOnly]);
+
+  const handleGenerate = async () => {
+    const schema = getSchemaById(schemaId);
+    if (!schema) {
+      toast.error('Schema not found');
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const { LLMCaller } = await import('@/llmCaller');
+      const { loadAzureConfigFromCookie } = await import('@/lib/azure-config-storage');
+      const { BrowserConfigManager, isLLMConfigured, toLLMConfig } = await import('@/services/browser-config-manager');
+
+      const azureConfig = loadAzureConfigFromCookie();
+      if (!azureConfig?.openAI || !isLLMConfigured(azureConfig.openAI)) {
+        toast.error('Azure OpenAI not configured. Please configure in Settings.');
+        return;
+      }
+
+      const llmCaller = new LLMCaller(new BrowserConfigManager({
+        ...toLLMConfig(azureConfig.openAI),
+        apiVersion: azureConfig.openAI.apiVersion || '2024-12-01-preview',
+        authType: azureConfig.openAI.authType || 'apiKey',
+        reasoningEffort: azureConfig.openAI.reasoningEffort || 'medium',
+      }));
+
+      const generated = await generateCoachingPlan(
+        llmCaller,
+        schema,
+        agentName,
+        schemaCalls,
+        getEvaluationCriteriaForSchema(schemaId)
+      );
+      if (plan) {
+        saveCoachingPlan({ ...plan, status: 'archived', updatedAt: generated.createdAt });
+      }
+      saveCoachingPlan(generated);
+      setPlan(generated);
+      toast.success(`Coaching plan created with ${generated.goals.length} goals`);
+    } catch (error) {
+      console.error('Coaching plan generation error:', error);
+      toast.error(`Could not create coaching plan: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleArchive = () => {
+    if (!plan) return;
+    saveCoachingPlan({ ...plan, status: 'archived', updatedAt: new Date().toISOString() });
+    setPlan(undefined);
+    toast.success('Coaching plan archived');
+  };
+
+  const handleRecordSession = () => {
+    if (!plan) return;
+    const updated = recordCoachingSession(schemaId, plan.id, {
+      date: new Date().toISOString(),
+      supervisor: supervisor.trim(),
+      notes: notes.trim(),
+      goalIds: discussedGoals,
+    });
+    if (updated) {
+      setPlan(updated);
+      setNotes('');
+      setDiscussedGoals([]);
+      toast.success('Coaching session recorded');
+    }
+  };
+
+  const generateButton = (
+    <Button onClick={handleGenerate} disabled={generating} variant={plan ? 'outline' : 'default'} size="sm">
+      {generating ? <CircleNotch size={16} className="mr-2 animate-spin" /> : <Sparkle size={16} className="mr-2" />}
+      {plan ? 'Regenerate Plan' : 'Generate Coaching Plan'}
+    </Button>
+  );
+
+  if (!plan) {
+    return (
+      <Card className="p-8 text-center">
+        <div className="mx-auto max-w-md space-y-4">
+          <Target className="h-10 w-10 mx-auto text-muted-foreground" />
+          <div>
+            <h3 className="text-lg font-semibold">No coaching plan yet</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              {readOnly
+                ? 'Your supervisor has not created a coaching plan for you yet'
+                : `Generate goals from ${agentName}'s weakest criteria, with example calls and target pass rates`}
+            </p>
+          </div>
+          {!readOnly && generateButton}
+        </div>
+      </Card>
+    );
+  }
+
+  const goalName = (goalId: string) => plan.goals.find(g => g.id === goalId)?.criterionName || 'Removed goal';
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Target size={18} />
+                Coaching Plan
+                {plan.status === 'completed' && <Badge className="bg-green-600">Completed</Badge>}
+              </CardTitle>
+              <CardDescription>Created {new Date(plan.createdAt).toLocaleDateString()}</CardDescription>
+            </div>
+            {!readOnly && (
+            <div className="flex gap-2">
+              {generateButton}
+              <Button onClick={handleArchive} variant="ghost" size="sm">
+                <Archive size={16} className="mr-2" />
+                Archive
+              </Button>
+            </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm">{plan.summary}</p>
+          {plan.goals.map(goal => (
+            <div key={goal.id} className="space-y-2 border-t pt-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">{goal.criterionName}</span>
+                <GoalStatusBadge goal={goal} />
+              </div>
+              <p className="text-sm text-muted-foreground">{goal.description}</p>
+              <div className="flex items-center gap-3">
+                <Progress value={goal.currentPassRate ?? 0} className="h-2 flex-1" />
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {goal.currentPassRate !== undefined ? `${goal.currentPassRate}%` : '—'} / {goal.targetPassRate}% target
+                </span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Baseline {goal.baselinePassRate}% • {goal.evaluatedSince ?? 0} evaluations since plan start
+                {goal.status === 'open' && (goal.evaluatedSince ?? 0) < MIN_RESULTS_FOR_GOAL && (
+                  <> (needs {MIN_RESULTS_FOR_GOAL})</>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {plan.examples.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Example Calls</CardTitle>
+            <CardDescription>Calls to review together - the agent's misses and the best calls that got it right</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {plan.examples.map(example => (
+              <div key={`${example.kind}-${example.callId}-${example.criterionName}`} className="flex gap-3 text-sm">
+                {example.kind === 'good'
+                  ? <CheckCircle size={18} className="text-green-600 flex-shrink-0 mt-0.5" weight="fill" />
+                  : <XCircle size={18} className="text-red-600 flex-shrink-0 mt-0.5" weight="fill" />}
+                <div className="min-w-0">
+                  <div className="font-medium">
+                    {example.criterionName} • {example.agentName} • {example.percentage}%
+                  </div>
+                  {example.evidence && (
+                    <p className="text-xs text-muted-foreground italic truncate">"{example.evidence}"</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ChatCircleText size={18} />
+            Coaching Sessions
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {plan.sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sessions recorded yet</p>
+          ) : (
+            <div className="space-y-3">
+              {[...plan.sessions].reverse().map(session => (
+                <div key={session.id} className="text-sm border-l-2 pl-3">
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(session.date).toLocaleString()} • {session.supervisor}
+                  </div>
+                  <p>{session.notes}</p>
+                  {session.goalIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {session.goalIds.map(id => (
+                        <Badge key={id} variant="secondary" className="text-xs">{goalName(id)}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!readOnly && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="coaching-supervisor">Supervisor</Label>
+              <Input
+                id="coaching-supervisor"
+                value={supervisor}
+                onChange={(e) => setSupervisor(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coaching-notes">Session notes</Label>
+              <Textarea
+                id="coaching-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What was discussed and agreed"
+                rows={3}
+              />
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {plan.goals.map(goal => (
+                <div key={goal.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`coaching-goal-${goal.id}`}
+                    checked={discussedGoals.includes(goal.id)}
+                    onCheckedChange={(checked) =>
+                      setDiscussedGoals(prev => checked ? [...prev, goal.id] : prev.filter(id => id !== goal.id))
+                    }
+                  />
+                  <Label htmlFor={`coaching-goal-${goal.id}`} className="text-sm font-normal">
+                    {goal.criterionName}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <Button
+              size="sm"
+              onClick={handleRecordSession}
+              disabled={!supervisor.trim() || !notes.trim()}
+            >
+              Record Session
+            </Button>
+          </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
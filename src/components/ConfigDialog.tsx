@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import {
   Dialog,
@@ -12,10 +12,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { GearSix, Copy, CheckCircle, Terminal, ArrowSquareOut } from '@phosphor-icons/react';
+import { GearSix, Copy, CheckCircle, Terminal, ArrowSquareOut, DownloadSimple, UploadSimple, Trash } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { transcriptionService } from '@/services/transcription';
-import { AzureServicesConfig } from '@/types/config';
+import { AzureServicesConfig, LLMProviderType } from '@/types/config';
+import { getRecordingCount, exportRecordings, importRecordings, clearRecordings } from '@/services/llm-recordings';
 import {
   loadAzureConfigFromCookie,
   saveAzureConfigCookie,
@@ -109,11 +110,15 @@ export function ConfigDialog() {
     }
   );
   
+  // Computed: which LLM backend? Auth settings below only apply to Azure OpenAI
+  const llmProvider: LLMProviderType = localConfig.openAI.provider || 'azure-openai';
+  const usesAzureOpenAI = llmProvider === 'azure-openai';
+  
   // Computed: is Entra ID enabled for any service? (not managedIdentity - that's handled by backend)
-  const isEntraIdEnabled = localConfig.openAI.authType === 'entraId' || localConfig.speech.authType === 'entraId';
+  const isEntraIdEnabled = (usesAzureOpenAI && localConfig.openAI.authType === 'entraId') || localConfig.speech.authType === 'entraId';
   
   // Computed: is managed identity enabled?
-  const isManagedIdentityEnabled = localConfig.openAI.authType === 'managedIdentity' || localConfig.speech.authType === 'managedIdentity';
+  const isManagedIdentityEnabled = (usesAzureOpenAI && localConfig.openAI.authType === 'managedIdentity') || localConfig.speech.authType === 'managedIdentity';
   
   // State for backend config (fetched from /api/config)
   const [backendConfig, setBackendConfig] = useState<{
@@ -141,6 +146,8 @@ export function ConfigDialog() {
   
   // State for CLI command display
   const [showCliCommand, setShowCliCommand] = useState(false);
+  const [recordingCount, setRecordingCount] = useState(0);
+  const recordingsInputRef = useRef<HTMLInputElement>(null);
   const [copiedCliCommand, setCopiedCliCommand] = useState(false);
   
   // Generate CLI command for creating App Registration
@@ -216,11 +223,47 @@ export function ConfigDialog() {
     }
   }, [config, setConfig]);
 
+  useEffect(() => {
+    if (open) {
+      setRecordingCount(getRecordingCount());
+    }
+  }, [open]);
+
+  const handleExportRecordings = () => {
+    const blob = new Blob([exportRecordings()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'llm-recordings.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportRecordings = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importRecordings(await file.text());
+      setRecordingCount(getRecordingCount());
+      toast.success(`Imported ${imported} recorded response(s)`);
+    } catch (error) {
+      toast.error(`Failed to import recordings: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleClearRecordings = () => {
+    clearRecordings();
+    setRecordingCount(0);
+    toast.success('Recorded responses cleared');
+  };
+
   const handleSave = () => {
     const sanitizedLanguages = normalizeLocaleList(localConfig.speech.selectedLanguages ?? []);
     
     // Validate Entra ID config if enabled (not needed for managedIdentity - backend handles it)
-    const needsEntraId = localConfig.openAI.authType === 'entraId' || localConfig.speech.authType === 'entraId';
+    const needsEntraId = isEntraIdEnabled;
     if (needsEntraId && !localConfig.entraId?.clientId) {
       toast.error('App Registration Client ID is required when using Entra ID authentication');
       return;
@@ -304,6 +347,8 @@ export function ConfigDialog() {
         diarizationEnabled: configToPersist.speech.diarizationEnabled ?? false,
         minSpeakers: configToPersist.speech.minSpeakers ?? 1,
         maxSpeakers: configToPersist.speech.maxSpeakers ?? 2,
+        channelMode: configToPersist.speech.channelMode,
+        agentChannel: configToPersist.speech.agentChannel,
         authType: configToPersist.speech.authType ?? 'apiKey',
         tenantId: configToPersist.speech.tenantId,
       });
@@ -509,76 +554,161 @@ export function ConfigDialog() {
             </>
           )}
           
-          {/* Azure OpenAI Section */}
+          {/* Language Model Section */}
           <div>
-            <h3 className="text-lg font-semibold mb-3">Azure OpenAI</h3>
+            <h3 className="text-lg font-semibold mb-3">Language Model</h3>
             <div className="space-y-3">
-              {/* Authentication Type Selection - show first */}
               <div className="space-y-2">
-                <Label htmlFor="openai-auth-type">Authentication Method</Label>
+                <Label htmlFor="llm-provider">Provider</Label>
                 <select
-                  id="openai-auth-type"
+                  id="llm-provider"
                   className="w-full h-10 px-3 rounded-md border border-input bg-background"
-                  value={localConfig.openAI.authType || 'apiKey'}
+                  value={llmProvider}
                   onChange={(e) =>
                     setLocalConfig((prev) => ({
                       ...prev,
-                      openAI: { ...prev.openAI, authType: e.target.value as 'apiKey' | 'entraId' | 'managedIdentity' },
+                      openAI: { ...prev.openAI, provider: e.target.value as LLMProviderType },
                     }))
                   }
                 >
-                  <option value="managedIdentity">Managed Identity (Azure Container Apps)</option>
-                  <option value="apiKey">API Key</option>
-                  <option value="entraId">Entra ID (Browser Login)</option>
+                  <option value="azure-openai">Azure OpenAI</option>
+                  <option value="openai-compatible">OpenAI-compatible (Ollama, vLLM, LM Studio)</option>
+                  <option value="mock">Offline replay (recorded responses)</option>
                 </select>
               </div>
+
+              {usesAzureOpenAI && (
+                <>
+                {/* Authentication Type Selection - show first */}
+                <div className="space-y-2">
+                  <Label htmlFor="openai-auth-type">Authentication Method</Label>
+                  <select
+                    id="openai-auth-type"
+                    className="w-full h-10 px-3 rounded-md border border-input bg-background"
+                    value={localConfig.openAI.authType || 'apiKey'}
+                    onChange={(e) =>
+                      setLocalConfig((prev) => ({
+                        ...prev,
+                        openAI: { ...prev.openAI, authType: e.target.value as 'apiKey' | 'entraId' | 'managedIdentity' },
+                      }))
+                    }
+                  >
+                    <option value="managedIdentity">Managed Identity (Azure Container Apps)</option>
+                    <option value="apiKey">API Key</option>
+                    <option value="entraId">Entra ID (Browser Login)</option>
+                  </select>
+                </div>
               
-              {localConfig.openAI.authType === 'managedIdentity' && (
-                <div className="bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg p-3 space-y-2">
-                  <p className="text-xs text-green-800 dark:text-green-200 font-medium">
-                    ✅ Using Managed Identity (backend proxy)
-                  </p>
-                  <div className="text-xs text-green-700 dark:text-green-300 font-mono space-y-1 bg-green-100 dark:bg-green-900 p-2 rounded">
-                    <div><span className="opacity-70">Endpoint:</span> {backendConfig?.openAI?.endpoint || '(loading...)'}</div>
-                    <div><span className="opacity-70">Deployment:</span> {backendConfig?.openAI?.deploymentName || '(loading...)'}</div>
+                {localConfig.openAI.authType === 'managedIdentity' && (
+                  <div className="bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg p-3 space-y-2">
+                    <p className="text-xs text-green-800 dark:text-green-200 font-medium">
+                      ✅ Using Managed Identity (backend proxy)
+                    </p>
+                    <div className="text-xs text-green-700 dark:text-green-300 font-mono space-y-1 bg-green-100 dark:bg-green-900 p-2 rounded">
+                      <div><span className="opacity-70">Endpoint:</span> {backendConfig?.openAI?.endpoint || '(loading...)'}</div>
+                      <div><span className="opacity-70">Deployment:</span> {backendConfig?.openAI?.deploymentName || '(loading...)'}</div>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
               
-              {localConfig.openAI.authType === 'entraId' && (
-                <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
-                  <p className="text-xs text-blue-800 dark:text-blue-200">
-                    <strong>🔐 Browser Authentication:</strong> A login popup will appear when you first use the service. 
-                    Requires <strong>Cognitive Services User</strong> role on the Azure OpenAI resource.
-                  </p>
-                </div>
-              )}
+                {localConfig.openAI.authType === 'entraId' && (
+                  <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+                    <p className="text-xs text-blue-800 dark:text-blue-200">
+                      <strong>🔐 Browser Authentication:</strong> A login popup will appear when you first use the service. 
+                      Requires <strong>Cognitive Services User</strong> role on the Azure OpenAI resource.
+                    </p>
+                  </div>
+                )}
               
-              {/* Only show endpoint/key/deployment fields when NOT using managed identity */}
-              {localConfig.openAI.authType !== 'managedIdentity' && (
+                {/* Only show endpoint/key/deployment fields when NOT using managed identity */}
+                {localConfig.openAI.authType !== 'managedIdentity' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="openai-endpoint">Endpoint URL</Label>
+                      <Input
+                        id="openai-endpoint"
+                        placeholder="https://your-resource.openai.azure.com/"
+                        value={localConfig.openAI.endpoint}
+                        onChange={(e) =>
+                          setLocalConfig((prev) => ({
+                            ...prev,
+                            openAI: { ...prev.openAI, endpoint: e.target.value },
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="openai-apiKey">API Key</Label>
+                      <Input
+                        id="openai-apiKey"
+                        type="password"
+                        placeholder="Your Azure OpenAI API key"
+                        value={localConfig.openAI.apiKey}
+                        disabled={localConfig.openAI.authType === 'entraId'}
+                        onChange={(e) =>
+                          setLocalConfig((prev) => ({
+                            ...prev,
+                            openAI: { ...prev.openAI, apiKey: e.target.value },
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="openai-deployment">Deployment Name</Label>
+                      <Input
+                        id="openai-deployment"
+                        placeholder="gpt-4o"
+                        value={localConfig.openAI.deploymentName}
+                        onChange={(e) =>
+                          setLocalConfig((prev) => ({
+                            ...prev,
+                            openAI: { ...prev.openAI, deploymentName: e.target.value },
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="openai-version">API Version</Label>
+                      <Input
+                        id="openai-version"
+                        placeholder="2024-12-01-preview"
+                        value={localConfig.openAI.apiVersion}
+                        onChange={(e) =>
+                          setLocalConfig((prev) => ({
+                            ...prev,
+                            openAI: { ...prev.openAI, apiVersion: e.target.value },
+                          }))
+                        }
+                      />
+                    </div>
+                  </>
+                )}
+                </>
+              )}
+
+              {llmProvider === 'openai-compatible' && (
                 <>
                   <div className="space-y-2">
-                    <Label htmlFor="openai-endpoint">Endpoint URL</Label>
+                    <Label htmlFor="openai-base-url">Base URL</Label>
                     <Input
-                      id="openai-endpoint"
-                      placeholder="https://your-resource.openai.azure.com/"
-                      value={localConfig.openAI.endpoint}
+                      id="openai-base-url"
+                      placeholder="http://localhost:11434/v1"
+                      value={localConfig.openAI.baseUrl || ''}
                       onChange={(e) =>
                         setLocalConfig((prev) => ({
                           ...prev,
-                          openAI: { ...prev.openAI, endpoint: e.target.value },
+                          openAI: { ...prev.openAI, baseUrl: e.target.value },
                         }))
                       }
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="openai-apiKey">API Key</Label>
+                    <Label htmlFor="openai-compatible-key">API Key (optional)</Label>
                     <Input
-                      id="openai-apiKey"
+                      id="openai-compatible-key"
                       type="password"
-                      placeholder="Your Azure OpenAI API key"
+                      placeholder="Leave empty for local servers"
                       value={localConfig.openAI.apiKey}
-                      disabled={localConfig.openAI.authType === 'entraId'}
                       onChange={(e) =>
                         setLocalConfig((prev) => ({
                           ...prev,
@@ -588,10 +718,10 @@ export function ConfigDialog() {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="openai-deployment">Deployment Name</Label>
+                    <Label htmlFor="openai-compatible-model">Model</Label>
                     <Input
-                      id="openai-deployment"
-                      placeholder="gpt-4o"
+                      id="openai-compatible-model"
+                      placeholder="llama3.1"
                       value={localConfig.openAI.deploymentName}
                       onChange={(e) =>
                         setLocalConfig((prev) => ({
@@ -601,22 +731,65 @@ export function ConfigDialog() {
                       }
                     />
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="openai-version">API Version</Label>
-                    <Input
-                      id="openai-version"
-                      placeholder="2024-12-01-preview"
-                      value={localConfig.openAI.apiVersion}
-                      onChange={(e) =>
-                        setLocalConfig((prev) => ({
-                          ...prev,
-                          openAI: { ...prev.openAI, apiVersion: e.target.value },
-                        }))
-                      }
-                    />
-                  </div>
                 </>
               )}
+
+              {llmProvider === 'mock' && (
+                <div className="bg-muted/50 border border-border rounded-lg p-3 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Replays responses recorded from a live provider, matched by prompt hash. Structured-output
+                    steps without a recording return an empty result of the right shape. A bundled
+                    <code className="mx-1">public/llm-recordings.json</code>is used when present.
+                  </p>
+                </div>
+              )}
+
+              {llmProvider !== 'mock' && (
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="record-responses-toggle">Record Responses</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Save responses so the offline replay provider can serve them later
+                    </p>
+                  </div>
+                  <Switch
+                    id="record-responses-toggle"
+                    checked={localConfig.openAI.recordResponses ?? false}
+                    onCheckedChange={(checked) =>
+                      setLocalConfig((prev) => ({
+                        ...prev,
+                        openAI: { ...prev.openAI, recordResponses: checked },
+                      }))
+                    }
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">{recordingCount} recorded response(s)</p>
+                <div className="flex gap-2">
+                  <input
+                    ref={recordingsInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportRecordings}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => recordingsInputRef.current?.click()}>
+                    <UploadSimple className="h-4 w-4 mr-1" />
+                    Import
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleExportRecordings} disabled={recordingCount === 0}>
+                    <DownloadSimple className="h-4 w-4 mr-1" />
+                    Export
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleClearRecordings} disabled={recordingCount === 0}>
+                    <Trash className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="reasoning-effort">Reasoning Effort</Label>
                 <select
@@ -820,6 +993,55 @@ export function ConfigDialog() {
                   </div>
                 )}
               </div>
+
+              {/* Stereo Recordings */}
+              <div className="space-y-3 pt-2 border-t border-border">
+                <div className="space-y-0.5">
+                  <Label>Stereo Recordings</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Recognize each channel of a stereo recording separately and label it as agent or customer,
+                    instead of relying on diarization
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="speech-channel-mode" className="text-xs">Per-channel recognition</Label>
+                    <select
+                      id="speech-channel-mode"
+                      className="w-full h-9 px-2 text-sm rounded-md border border-input bg-background"
+                      value={localConfig.speech.channelMode ?? 'auto'}
+                      onChange={(e) =>
+                        setLocalConfig((prev) => ({
+                          ...prev,
+                          speech: { ...prev.speech, channelMode: e.target.value as 'auto' | 'stereo' | 'mono' },
+                        }))
+                      }
+                    >
+                      <option value="auto">Auto (when the audio has two channels)</option>
+                      <option value="stereo">Always</option>
+                      <option value="mono">Never (mixed audio)</option>
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="speech-agent-channel" className="text-xs">Agent channel</Label>
+                    <select
+                      id="speech-agent-channel"
+                      className="w-full h-9 px-2 text-sm rounded-md border border-input bg-background"
+                      value={localConfig.speech.agentChannel ?? 0}
+                      disabled={localConfig.speech.channelMode === 'mono'}
+                      onChange={(e) =>
+                        setLocalConfig((prev) => ({
+                          ...prev,
+                          speech: { ...prev.speech, agentChannel: parseInt(e.target.value) },
+                        }))
+                      }
+                    >
+                      <option value={0}>Left (channel 0)</option>
+                      <option value={1}>Right (channel 1)</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -983,6 +1205,89 @@ export function ConfigDialog() {
                     </div>
                   </div>
 
+                  {/* Channel Layout */}
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-medium">Channel Layout</h4>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="tts-channel-layout" className="text-xs">Layout</Label>
+                        <select
+                          id="tts-channel-layout"
+                          className="w-full h-9 px-2 text-sm rounded-md border border-input bg-background"
+                          value={localConfig.tts?.channelLayout ?? 'stereo'}
+                          onChange={(e) =>
+                            setLocalConfig((prev) => ({
+                              ...prev,
+                              tts: {
+                                ...prev.tts,
+                                enabled: prev.tts?.enabled ?? true,
+                                defaultMaleVoice1: prev.tts?.defaultMaleVoice1 || DEFAULT_VOICES.male1,
+                                defaultMaleVoice2: prev.tts?.defaultMaleVoice2 || DEFAULT_VOICES.male2,
+                                defaultFemaleVoice1: prev.tts?.defaultFemaleVoice1 || DEFAULT_VOICES.female1,
+                                defaultFemaleVoice2: prev.tts?.defaultFemaleVoice2 || DEFAULT_VOICES.female2,
+                                channelLayout: e.target.value as 'mono' | 'stereo',
+                              },
+                            }))
+                          }
+                        >
+                          <option value="stereo">Stereo (agent left, customer right)</option>
+                          <option value="mono">Mono</option>
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="tts-overlap" className="text-xs">Crosstalk (ms)</Label>
+                        <Input
+                          id="tts-overlap"
+                          type="number"
+                          min={0}
+                          max={2000}
+                          step={100}
+                          disabled={localConfig.tts?.channelLayout === 'mono'}
+                          value={localConfig.tts?.overlapMs ?? 0}
+                          onChange={(e) =>
+                            setLocalConfig((prev) => ({
+                              ...prev,
+                              tts: {
+                                ...prev.tts,
+                                enabled: prev.tts?.enabled ?? true,
+                                defaultMaleVoice1: prev.tts?.defaultMaleVoice1 || DEFAULT_VOICES.male1,
+                                defaultMaleVoice2: prev.tts?.defaultMaleVoice2 || DEFAULT_VOICES.male2,
+                                defaultFemaleVoice1: prev.tts?.defaultFemaleVoice1 || DEFAULT_VOICES.female1,
+                                defaultFemaleVoice2: prev.tts?.defaultFemaleVoice2 || DEFAULT_VOICES.female2,
+                                overlapMs: Math.max(0, parseInt(e.target.value) || 0),
+                              },
+                            }))
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="tts-barge-in" className="text-xs">Barge-ins (% of turns)</Label>
+                        <Input
+                          id="tts-barge-in"
+                          type="number"
+                          min={0}
+                          max={100}
+                          disabled={localConfig.tts?.channelLayout === 'mono'}
+                          value={Math.round((localConfig.tts?.bargeInRate ?? 0) * 100)}
+                          onChange={(e) =>
+                            setLocalConfig((prev) => ({
+                              ...prev,
+                              tts: {
+                                ...prev.tts,
+                                enabled: prev.tts?.enabled ?? true,
+                                defaultMaleVoice1: prev.tts?.defaultMaleVoice1 || DEFAULT_VOICES.male1,
+                                defaultMaleVoice2: prev.tts?.defaultMaleVoice2 || DEFAULT_VOICES.male2,
+                                defaultFemaleVoice1: prev.tts?.defaultFemaleVoice1 || DEFAULT_VOICES.female1,
+                                defaultFemaleVoice2: prev.tts?.defaultFemaleVoice2 || DEFAULT_VOICES.female2,
+                                bargeInRate: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100,
+                              },
+                            }))
+                          }
+                        />
+                      </div>
+                    </div>
+                  </div>
+
                   <div className="bg-muted/50 p-3 rounded-lg">
                     <p className="text-xs text-muted-foreground">
                       <strong>How it works:</strong> The system uses the LLM to detect speaker gender from names
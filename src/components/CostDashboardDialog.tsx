@@ -0,0 +1,467 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CurrencyDollar, FloppyDisk, Plus, Trash, ArrowCounterClockwise } from '@phosphor-icons/react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { PriceTable, SchemaBudget, UsageCostSummary, UsageOperation, UsageRecord } from '@/types/usage';
+import { getAllSchemas, saveSchema } from '@/services/schema-manager';
+import {
+  DEFAULT_BUDGET_WARN_PERCENT,
+  DEFAULT_PRICE_TABLE,
+  USAGE_OPERATION_LABELS,
+  calculateUsageCost,
+  formatCost,
+  getUsageMonth,
+  loadPriceTable,
+  loadUsageRecords,
+  resolveUsageSchemas,
+  savePriceTable,
+  summarizeUsage,
+} from '@/services/usage-tracker';
+import { toast } from 'sonner';
+
+interface CostDashboardDialogProps {
+  activeSchema?: SchemaDefinition | null;
+  onSchemaUpdate?: (schema: SchemaDefinition) => void;
+}
+
+type GroupBy = 'schemaId' | 'operation' | 'model';
+
+/** Months offered in the month picker, newest first */
+const MONTHS_SHOWN = 6;
+
+function recentMonths(): string[] {
+  const now = new Date();
+  return Array.from({ length: MONTHS_SHOWN }, (_, i) =>
+    getUsageMonth(new Date(now.getFullYear(), now.getMonth() - i, 1))
+  );
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+/**
+ * AI usage and cost: month-to-date spend by schema, operation and model, the
+ * editable price table and the active schema's monthly budget
+ */
+export function CostDashboardDialog({ activeSchema, onSchemaUpdate }: CostDashboardDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [allCalls] = useLocalStorage<CallRecord[]>('calls', []);
+  const [month, setMonth] = useState(getUsageMonth());
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [priceTable, setPriceTable] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+  const [priceDraft, setPriceDraft] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+  const [newModel, setNewModel] = useState('');
+  const [budgetDraft, setBudgetDraft] = useState<SchemaBudget>({
+    monthlyLimit: 0,
+    warnAtPercent: DEFAULT_BUDGET_WARN_PERCENT,
+    enforcement: 'warn',
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const table = loadPriceTable();
+    setPriceTable(table);
+    setPriceDraft(table);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    setRecords(resolveUsageSchemas(loadUsageRecords(month), allCalls || []));
+  }, [open, month, allCalls]);
+
+  useEffect(() => {
+    setBudgetDraft(activeSchema?.budget ?? {
+      monthlyLimit: 0,
+      warnAtPercent: DEFAULT_BUDGET_WARN_PERCENT,
+      enforcement: 'warn',
+    });
+  }, [activeSchema, open]);
+
+  const schemaNames = useMemo(
+    () => new Map(getAllSchemas().map(s => [s.id, s.name])),
+    // Re-read when the dialog opens so new schemas show by name
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [open]
+  );
+
+  const totals = useMemo(() => records.reduce((sum, r) => ({
+    cost: sum.cost + calculateUsageCost(r, priceTable),
+    requests: sum.requests + 1,
+    inputTokens: sum.inputTokens + (r.inputTokens ?? 0),
+    outputTokens: sum.outputTokens + (r.outputTokens ?? 0),
+    audioSeconds: sum.audioSeconds + (r.audioSeconds ?? 0),
+  }), { cost: 0, requests: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0 }), [records, priceTable]);
+
+  const schemaSpend = useMemo(() => {
+    if (!activeSchema) return 0;
+    return records
+      .filter(r => r.schemaId === activeSchema.id)
+      .reduce((sum, r) => sum + calculateUsageCost(r, priceTable), 0);
+  }, [records, activeSchema, priceTable]);
+
+  const labelFor = (groupBy: GroupBy, key: string): string => {
+    if (groupBy === 'schemaId') return schemaNames.get(key) ?? (key === 'unknown' ? 'No schema' : key);
+    if (groupBy === 'operation') return USAGE_OPERATION_LABELS[key as UsageOperation] ?? key;
+    return key === 'unknown' ? 'Speech (no model)' : key;
+  };
+
+  const handleSavePrices = () => {
+    savePriceTable(priceDraft);
+    setPriceTable(priceDraft);
+    toast.success('Price table saved');
+  };
+
+  const handleResetPrices = () => {
+    setPriceDraft(DEFAULT_PRICE_TABLE);
+  };
+
+  const handleAddModel = () => {
+    const name = newModel.trim();
+    if (!name) return;
+    setPriceDraft(prev => ({ ...prev, models: { ...prev.models, [name]: { ...prev.defaultModel } } }));
+    setNewModel('');
+  };
+
+  const handleRemoveModel = (name: string) => {
+    setPriceDraft(prev => {
+      const { [name]: _removed, ...models } = prev.models;
+      return { ...prev, models };
+    });
+  };
+
+  const updateModelPrice = (name: string, field: 'inputPerMillion' | 'cachedInputPerMillion' | 'outputPerMillion', value: string) => {
+    const number = Math.max(0, Number(value) || 0);
+    setPriceDraft(prev => name === ''
+      ? { ...prev, defaultModel: { ...prev.defaultModel, [field]: number } }
+      : { ...prev, models: { ...prev.models, [name]: { ...prev.models[name], [field]: number } } });
+  };
+
+  const handleSaveBudget = () => {
+    if (!activeSchema) return;
+    const budget = budgetDraft.monthlyLimit > 0 ? budgetDraft : undefined;
+    const updatedSchema: SchemaDefinition = { ...activeSchema, budget, updatedAt: new Date().toISOString() };
+    const result = saveSchema(updatedSchema);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save budget');
+      return;
+    }
+    onSchemaUpdate?.(updatedSchema);
+    toast.success(budget ? `Monthly budget set for ${activeSchema.name}` : `Budget removed for ${activeSchema.name}`);
+  };
+
+  const renderSummaryTable = (groupBy: GroupBy) => {
+    const rows: UsageCostSummary[] = summarizeUsage(records, groupBy, priceTable);
+    if (rows.length === 0) {
+      return <p className="text-sm text-muted-foreground py-8 text-center">No AI usage recorded for {month}.</p>;
+    }
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{groupBy === 'schemaId' ? 'Schema' : groupBy === 'operation' ? 'Operation' : 'Model'}</TableHead>
+            <TableHead className="text-right">Requests</TableHead>
+            <TableHead className="text-right">Tokens in</TableHead>
+            <TableHead className="text-right">Tokens out</TableHead>
+            <TableHead className="text-right">Reasoning</TableHead>
+            <TableHead className="text-right">Audio (min)</TableHead>
+            <TableHead className="text-right">Avg latency</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium">{labelFor(groupBy, row.key)}</TableCell>
+              <TableCell className="text-right">{formatNumber(row.requests)}</TableCell>
+              <TableCell className="text-right">{formatNumber(row.inputTokens)}</TableCell>
+              <TableCell className="text-right">{formatNumber(row.outputTokens)}</TableCell>
+              <TableCell className="text-right">{formatNumber(row.reasoningTokens)}</TableCell>
+              <TableCell className="text-right">{(row.audioSeconds / 60).toFixed(1)}</TableCell>
+              <TableCell className="text-right">{(row.averageLatencyMs / 1000).toFixed(1)}s</TableCell>
+              <TableCell className="text-right">{formatCost(row.cost, priceTable.currency)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  const renderPriceRow = (name: string, label: string) => {
+    const price = name === '' ? priceDraft.defaultModel : priceDraft.models[name];
+    return (
+      <TableRow key={name || 'default'}>
+        <TableCell className="font-medium">{label}</TableCell>
+        {(['inputPerMillion', 'cachedInputPerMillion', 'outputPerMillion'] as const).map(field => (
+          <TableCell key={field}>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              className="h-8 w-24 ml-auto text-right"
+              value={price[field] ?? ''}
+              onChange={(e) => updateModelPrice(name, field, e.target.value)}
+            />
+          </TableCell>
+        ))}
+        <TableCell className="w-10">
+          {name !== '' && (
+            <Button variant="ghost" size="sm" onClick={() => handleRemoveModel(name)}>
+              <Trash size={16} />
+            </Button>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const budgetUsage = activeSchema?.budget && activeSchema.budget.monthlyLimit > 0
+    ? Math.min(100, (schemaSpend / activeSchema.budget.monthlyLimit) * 100)
+    : null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CurrencyDollar className="mr-2" size={18} />
+          Costs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>AI Usage &amp; Costs</DialogTitle>
+          <DialogDescription>
+            Tokens, audio and latency of every AI request, priced with your price table. Schema budgets are
+            checked before bulk transcription, evaluation and synthetic audio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Label>Month</Label>
+          <Select value={month} onValueChange={setMonth}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {recentMonths().map(m => (
+                <SelectItem key={m} value={m}>{m}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total cost</CardDescription>
+              <CardTitle className="text-2xl">{formatCost(totals.cost, priceTable.currency)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Requests</CardDescription>
+              <CardTitle className="text-2xl">{formatNumber(totals.requests)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Tokens (in / out)</CardDescription>
+              <CardTitle className="text-2xl">
+                {formatNumber(totals.inputTokens)} / {formatNumber(totals.outputTokens)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Audio minutes</CardDescription>
+              <CardTitle className="text-2xl">{(totals.audioSeconds / 60).toFixed(1)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="schemaId" className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="grid w-full max-w-2xl grid-cols-5">
+            <TabsTrigger value="schemaId">By Schema</TabsTrigger>
+            <TabsTrigger value="operation">By Operation</TabsTrigger>
+            <TabsTrigger value="model">By Model</TabsTrigger>
+            <TabsTrigger value="prices">Prices</TabsTrigger>
+            <TabsTrigger value="budget">Budget</TabsTrigger>
+          </TabsList>
+
+          {(['schemaId', 'operation', 'model'] as const).map(groupBy => (
+            <TabsContent key={groupBy} value={groupBy} className="flex-1 overflow-hidden">
+              <ScrollArea className="h-[45vh]">{renderSummaryTable(groupBy)}</ScrollArea>
+            </TabsContent>
+          ))}
+
+          <TabsContent value="prices" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[45vh] pr-2">
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Currency</Label>
+                    <Input
+                      value={priceDraft.currency}
+                      onChange={(e) => setPriceDraft(prev => ({ ...prev, currency: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Speech to text, per audio hour</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={priceDraft.sttPerAudioHour}
+                      onChange={(e) => setPriceDraft(prev => ({ ...prev, sttPerAudioHour: Math.max(0, Number(e.target.value) || 0) }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Text to speech, per 1M characters</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={priceDraft.ttsPerMillionCharacters}
+                      onChange={(e) => setPriceDraft(prev => ({ ...prev, ttsPerMillionCharacters: Math.max(0, Number(e.target.value) || 0) }))}
+                    />
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Deployment / model</TableHead>
+                      <TableHead className="text-right">Input per 1M</TableHead>
+                      <TableHead className="text-right">Cached input per 1M</TableHead>
+                      <TableHead className="text-right">Output per 1M</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.keys(priceDraft.models).sort().map(name => renderPriceRow(name, name))}
+                    {renderPriceRow('', 'Any other deployment')}
+                  </TableBody>
+                </Table>
+
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="Deployment name or prefix, e.g. gpt-4o-mini"
+                    value={newModel}
+                    onChange={(e) => setNewModel(e.target.value)}
+                    className="max-w-sm"
+                  />
+                  <Button variant="outline" size="sm" onClick={handleAddModel} disabled={!newModel.trim()}>
+                    <Plus className="mr-2" size={16} />
+                    Add model
+                  </Button>
+                  <div className="flex-1" />
+                  <Button variant="outline" size="sm" onClick={handleResetPrices}>
+                    <ArrowCounterClockwise className="mr-2" size={16} />
+                    Defaults
+                  </Button>
+                  <Button size="sm" onClick={handleSavePrices}>
+                    <FloppyDisk className="mr-2" size={16} />
+                    Save prices
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Deployments are matched by exact name, then by the longest listed prefix. Reasoning tokens are
+                  billed as output tokens.
+                </p>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="budget" className="flex-1 overflow-hidden">
+            {activeSchema ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">{activeSchema.name} monthly budget</CardTitle>
+                  <CardDescription>
+                    Spent in {month}: {formatCost(schemaSpend, priceTable.currency)}
+                    {activeSchema.budget && activeSchema.budget.monthlyLimit > 0 &&
+                      ` of ${formatCost(activeSchema.budget.monthlyLimit, priceTable.currency)}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {budgetUsage !== null && <Progress value={budgetUsage} />}
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label>Monthly limit ({priceTable.currency})</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="1"
+                        value={budgetDraft.monthlyLimit || ''}
+                        placeholder="No limit"
+                        onChange={(e) => setBudgetDraft(prev => ({ ...prev, monthlyLimit: Math.max(0, Number(e.target.value) || 0) }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Warn at (% of limit)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={budgetDraft.warnAtPercent}
+                        onChange={(e) => setBudgetDraft(prev => ({
+                          ...prev,
+                          warnAtPercent: Math.min(100, Math.max(1, Number(e.target.value) || DEFAULT_BUDGET_WARN_PERCENT)),
+                        }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>When exceeded</Label>
+                      <Select
+                        value={budgetDraft.enforcement}
+                        onValueChange={(value) => setBudgetDraft(prev => ({ ...prev, enforcement: value as SchemaBudget['enforcement'] }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="warn">Warn and continue</SelectItem>
+                          <SelectItem value="block">Block bulk operations</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={handleSaveBudget}>
+                      <FloppyDisk className="mr-2" size={16} />
+                      Save budget
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Bulk operations are estimated from this schema's average cost per call over the last two months.
+                    Leave the limit empty to remove the budget.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-sm text-muted-foreground py-8 text-center">Select a schema to set its budget.</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { EvaluationResult } from '@/types/call';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { UserCheck, ArrowCounterClockwise } from '@phosphor-icons/react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { CriterionReviewInput, isOverridden } from '@/lib/evaluation-overrides';
+
+interface CriterionReviewControlProps {
+  result: EvaluationResult;
+  onSave: (input: CriterionReviewInput) => void;
+  onClear: () => void;
+  readOnly?: boolean;  // Show the review without the edit buttons
+}
+
+/**
+ * Per-criterion human QA review: shows the AI verdict next to the human verdict
+ * and lets a supervisor confirm or override it with a reason
+ */
+export function CriterionReviewControl({ result, onSave, onClear, readOnly = false }: CriterionReviewControlProps) {
+  const [editing, setEditing] = useState(false);
+  const [reviewerName, setReviewerName] = useLocalStorage<string>('qa-reviewer-name', '');
+  const [verdict, setVerdict] = useState<'passed' | 'failed'>(result.passed ? 'passed' : 'failed');
+  const [reason, setReason] = useState(result.humanReview?.reason || '');
+
+  const review = result.humanReview;
+  const overridden = isOverridden(result);
+  const canSave = reviewerName.trim().length > 0 && reason.trim().length > 0;
+
+  const startEditing = () => {
+    setVerdict(result.passed ? 'passed' : 'failed');
+    setReason(review?.reason || '');
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    onSave({ passed: verdict === 'passed', reviewer: reviewerName, reason });
+    setEditing(false);
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-start justify-between gap-2 pt-2 border-t border-border">
+        {review ? (
+          <div className="text-xs space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">AI: {review.aiNotApplicable ? 'N/A' : `${review.aiPassed ? 'Passed' : 'Failed'} (${review.aiScore} pts)`}</Badge>
+              <Badge variant={overridden ? 'destructive' : 'secondary'}>
+                Human: {result.passed ? 'Passed' : 'Failed'} ({result.score} pts)
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              {overridden ? 'Overridden' : 'Confirmed'} by {review.reviewer} on {new Date(review.reviewedAt).toLocaleString()}: {review.reason}
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Not reviewed by QA</p>
+        )}
+        {!readOnly && (
+        <div className="flex gap-1 flex-shrink-0">
+          {review && (
+            <Button size="sm" variant="ghost" onClick={onClear} title="Restore AI verdict">
+              <ArrowCounterClockwise size={14} />
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={startEditing}>
+            <UserCheck size={14} className="mr-1" />
+            {review ? 'Edit review' : 'Review'}
+          </Button>
+        </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pt-2 border-t border-border">
+      <RadioGroup
+        value={verdict}
+        onValueChange={(value) => setVerdict(value as 'passed' | 'failed')}
+        className="flex gap-4"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="passed" id={`verdict-passed-${result.criterionId}`} />
+          <Label htmlFor={`verdict-passed-${result.criterionId}`}>Passed</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="failed" id={`verdict-failed-${result.criterionId}`} />
+          <Label htmlFor={`verdict-failed-${result.criterionId}`}>Failed</Label>
+        </div>
+      </RadioGroup>
+      <Input
+        placeholder="Reviewer name"
+        value={reviewerName}
+        onChange={(e) => setReviewerName(e.target.value)}
+      />
+      <Textarea
+        placeholder="Why is this verdict correct?"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={2}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!canSave}>
+          Save Review
+        </Button>
+      </div>
+    </div>
+  );
+}
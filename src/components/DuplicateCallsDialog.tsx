@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle, Copy, GitMerge } from '@phosphor-icons/react';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { DuplicateGroup, DuplicateMergeResult, DuplicateReason } from '@/types/duplicate';
+import { computeAudioHash } from '@/lib/audio-storage';
+import { getEvaluationHistory } from '@/lib/evaluation-history';
+import { findDuplicateGroups, mergeDuplicateGroups } from '@/services/duplicate-detection';
+
+interface DuplicateCallsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calls: CallRecord[];
+  schema: SchemaDefinition;
+  onAudioHashes: (hashes: Map<string, string>) => void;   // Hashes computed for calls stored before hashing existed
+  onMerge: (result: DuplicateMergeResult) => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  identifier: 'Identifiers',
+  file: 'Audio file name',
+  audio: 'Identical audio',
+  transcript: 'Transcript',
+};
+
+/**
+ * Find calls of the active schema that were imported more than once and merge them,
+ * keeping every evaluation run
+ */
+export function DuplicateCallsDialog({ open, onOpenChange, calls, schema, onAudioHashes, onMerge }: DuplicateCallsDialogProps) {
+  const [hashing, setHashing] = useState(false);
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});  // Group key -> chosen call to keep
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  // Hash audio that was attached before content hashes were stored, so identical recordings match
+  useEffect(() => {
+    if (!open) return;
+    const unhashed = calls.filter(c => c.schemaId === schema.id && c.audioFile && !c.audioHash);
+    if (unhashed.length === 0) return;
+
+    let cancelled = false;
+    setHashing(true);
+    Promise.all(unhashed.map(async c => [c.id, await computeAudioHash(c.audioFile!)] as const))
+      .then(entries => {
+        if (!cancelled) onAudioHashes(new Map(entries));
+      })
+      .catch(error => console.error('Failed to hash audio for duplicate detection:', error))
+      .finally(() => setHashing(false));
+    return () => { cancelled = true; };
+    // Only on open - the hashes come back through `calls`
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const groups = useMemo(() => (open ? findDuplicateGroups(calls, schema) : []), [open, calls, schema]);
+  const callsById = useMemo(() => new Map(calls.map(c => [c.id, c])), [calls]);
+  const labelFields = schema.fields.filter(f => f.showInTable).slice(0, 3);
+
+  useEffect(() => {
+    if (!open) {
+      setKeepIds({});
+      setExcluded(new Set());
+    }
+  }, [open]);
+
+  // Groups are re-found on every change, so choices are keyed by the group's first member
+  const groupKey = (group: DuplicateGroup) => [...group.callIds].sort()[0];
+  const selectedGroups = groups
+    .filter(group => !excluded.has(groupKey(group)))
+    .map(group => {
+      const keepId = keepIds[groupKey(group)];
+      return keepId && group.callIds.includes(keepId) ? { ...group, keepId } : group;
+    });
+  const removedCount = selectedGroups.reduce((sum, g) => sum + g.callIds.length - 1, 0);
+
+  const toggleGroup = (key: string, include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (include) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate Calls</DialogTitle>
+          <DialogDescription>
+            Calls of {schema.name} matched by identifier fields, audio file name, audio content or transcript.
+            Merging keeps one call per group with all evaluation runs and removes the others.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hashing && <p className="text-xs text-muted-foreground">Hashing audio files...</p>}
+
+        {groups.length === 0 ? (
+          <div className="flex items-center gap-2 py-8 justify-center text-sm text-muted-foreground">
+            <CheckCircle size={18} className="text-green-600" />
+            No duplicate calls found
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[420px] pr-3">
+            <div className="space-y-3">
+              {groups.map(group => {
+                const key = groupKey(group);
+                const keepId = keepIds[key] && group.callIds.includes(keepIds[key]) ? keepIds[key] : group.keepId;
+                return (
+                  <div key={key} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          checked={!excluded.has(key)}
+                          onCheckedChange={(checked) => toggleGroup(key, checked as boolean)}
+                        />
+                        <span className="text-sm font-medium">{group.callIds.length} calls</span>
+                      </div>
+                      <div className="flex flex-wrap gap-1 justify-end">
+                        {group.matches.map(match => (
+                          <Badge key={`${match.callId}-${match.duplicateOfId}`} variant="outline" className="text-xs" title={match.detail}>
+                            {REASON_LABELS[match.reason]}: {match.detail}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    {group.callIds.map(id => {
+                      const call = callsById.get(id);
+                      if (!call) return null;
+                      const evaluations = getEvaluationHistory(call).length;
+                      return (
+                        <button
+                          key={id}
+                          type="button"
+                          onClick={() => setKeepIds(prev => ({ ...prev, [key]: id }))}
+                          className={`w-full flex items-center gap-2 rounded-md border px-2 py-1 text-left text-xs ${id === keepId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+                        >
+                          {id === keepId ? <Badge className="text-xs">Keep</Badge> : <Copy size={14} className="text-muted-foreground" />}
+                          <span className="flex-1 truncate">
+                            {labelFields.map(f => call.metadata[f.id]).filter(v => v !== undefined && v !== '').join(' · ') || call.id}
+                          </span>
+                          <span className="text-muted-foreground">{new Date(call.createdAt).toLocaleDateString()}</span>
+                          <Badge variant="secondary" className="text-xs">{call.status}</Badge>
+                          {evaluations > 0 && (
+                            <Badge variant="outline" className="text-xs">{evaluations} evaluation{evaluations === 1 ? '' : 's'}</Badge>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={() => onMerge(mergeDuplicateGroups(calls, selectedGroups))}
+            disabled={selectedGroups.length === 0}
+          >
+            <GitMerge className="mr-2" size={18} />
+            Merge {selectedGroups.length} group{selectedGroups.length === 1 ? '' : 's'} ({removedCount} removed)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useMemo, useEffect } from 'react';
+import { CallRecord, EvaluationCriterion, EvaluationResult } from '@/types/call';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowRight, ClockCounterClockwise } from '@phosphor-icons/react';
+import { getEvaluationHistory, diffEvaluations } from '@/lib/evaluation-history';
+
+interface EvaluationHistoryPanelProps {
+  call: CallRecord;
+  criteria: EvaluationCriterion[];
+}
+
+function formatRunLabel(index: number, evaluatedAt: string, percentage: number): string {
+  return `Run ${index + 1} • ${new Date(evaluatedAt).toLocaleString()} • ${percentage}%`;
+}
+
+function formatDelta(value: number, suffix = ''): string {
+  if (value === 0) return `±0${suffix}`;
+  return `${value > 0 ? '+' : ''}${value}${suffix}`;
+}
+
+function formatVerdict(result: EvaluationResult): string {
+  if (result.notApplicable) return 'N/A';
+  return `${result.passed ? 'Passed' : 'Failed'} (${result.score})`;
+}
+
+/**
+ * Evaluation version history with a side-by-side, criterion-level diff of any two runs
+ */
+export function EvaluationHistoryPanel({ call, criteria }: EvaluationHistoryPanelProps) {
+  const history = getEvaluationHistory(call);
+  const [beforeId, setBeforeId] = useState<string | undefined>(history[history.length - 2]?.id);
+  const [afterId, setAfterId] = useState<string | undefined>(history[history.length - 1]?.id);
+
+  // Default to comparing the two most recent runs whenever a new run is added
+  useEffect(() => {
+    setBeforeId(history[history.length - 2]?.id);
+    setAfterId(history[history.length - 1]?.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history.length]);
+
+  const before = history.find(e => e.id === beforeId);
+  const after = history.find(e => e.id === afterId);
+
+  const diff = useMemo(
+    () => (before && after && before.id !== after.id ? diffEvaluations(before, after, criteria) : null),
+    [before, after, criteria]
+  );
+
+  if (history.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ClockCounterClockwise size={20} />
+          Evaluation History ({history.length} runs)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {[...history].reverse().map((run, reversedIndex) => {
+            const index = history.length - 1 - reversedIndex;
+            return (
+              <div key={run.id} className="flex items-center justify-between text-sm border-b border-border last:border-0 pb-2 last:pb-0">
+                <div>
+                  <span className="font-medium">Run {index + 1}</span>
+                  <span className="text-muted-foreground ml-2">{new Date(run.evaluatedAt).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {run.modelDeployment && <Badge variant="outline">{run.modelDeployment}</Badge>}
+                  {run.schemaVersion && <Badge variant="outline">schema v{run.schemaVersion}</Badge>}
+                  {run.ruleSetId && <Badge variant="outline" className="font-mono text-[10px]">{run.ruleSetId}</Badge>}
+                  <Badge variant="secondary">{run.percentage}%</Badge>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={beforeId} onValueChange={setBeforeId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select earlier run" />
+            </SelectTrigger>
+            <SelectContent>
+              {history.map((run, index) => (
+                <SelectItem key={run.id} value={run.id}>
+                  {formatRunLabel(index, run.evaluatedAt, run.percentage)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight size={18} className="text-muted-foreground flex-shrink-0" />
+          <Select value={afterId} onValueChange={setAfterId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select later run" />
+            </SelectTrigger>
+            <SelectContent>
+              {history.map((run, index) => (
+                <SelectItem key={run.id} value={run.id}>
+                  {formatRunLabel(index, run.evaluatedAt, run.percentage)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!diff ? (
+          <p className="text-sm text-muted-foreground">Select two different runs to compare.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={diff.percentageDelta < 0 ? 'destructive' : 'default'}>
+                Score {formatDelta(diff.percentageDelta, '%')}
+              </Badge>
+              <Badge variant="secondary">{diff.flippedCount} criteria flipped</Badge>
+              {diff.ruleSetChanged && <Badge variant="outline">Rules changed</Badge>}
+              {diff.schemaVersionChanged && <Badge variant="outline">Schema version changed</Badge>}
+              {diff.modelChanged && <Badge variant="outline">Model changed</Badge>}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Criterion</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                  <TableHead className="text-right">Δ Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.criteria.map(row => (
+                  <TableRow key={row.criterionKey ?? row.criterionId} className={row.flipped ? 'bg-amber-50 dark:bg-amber-950/20' : undefined}>
+                    <TableCell className="font-medium">
+                      {row.criterionName}
+                      {row.flipped && <Badge variant="outline" className="ml-2 text-[10px]">flipped</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {row.before ? formatVerdict(row.before) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {row.after ? formatVerdict(row.after) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatDelta(row.scoreDelta)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
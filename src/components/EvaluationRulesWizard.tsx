@@ -21,7 +21,9 @@ import { EvaluationCriterion } from '@/types/call';
 import { LLMCaller } from '@/llmCaller';
 import type { AzureOpenAIConfig } from '@/configManager';
 import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
-import { BrowserConfigManager } from '@/services/browser-config-manager';
+import { BrowserConfigManager, isLLMConfigured } from '@/services/browser-config-manager';
+import { loadRulesForSchema, saveRulesForSchema } from '@/services/rules-generator';
+import { RuleScorecardFields } from '@/components/ScorecardEditor';
 
 interface EvaluationRulesWizardProps {
   activeSchema: SchemaDefinition | null;
@@ -44,6 +46,9 @@ interface GeneratedRule {
   };
   examples: string[];
   reasoning?: string;
+  section?: string;
+  critical?: boolean;
+  allowNotApplicable?: boolean;
 }
 
 export function EvaluationRulesWizard({
@@ -61,6 +66,7 @@ export function EvaluationRulesWizard({
   const [generatedRules, setGeneratedRules] = useState<GeneratedRule[]>([]);
   const [progress, setProgress] = useState(0);
   const [generatingDescriptions, setGeneratingDescriptions] = useState(false);
+  const scorecardSections = activeSchema?.scorecard?.sections ?? [];
 
   const handleOpenChange = (newOpen: boolean) => {
     if (newOpen && activeSchema) {
@@ -103,7 +109,7 @@ export function EvaluationRulesWizard({
     try {
       // Load Azure OpenAI config from cookie
       const azureServicesConfig = loadAzureConfigFromCookie();
-      if (!azureServicesConfig?.openAI?.endpoint || !azureServicesConfig?.openAI?.apiKey || !azureServicesConfig?.openAI?.deploymentName) {
+      if (!azureServicesConfig?.openAI || !isLLMConfigured(azureServicesConfig.openAI)) {
         throw new Error('Azure OpenAI is not configured. Please configure it in settings.');
       }
 
@@ -133,7 +139,7 @@ Provide 2-3 short call descriptions (2-3 sentences each) showing different scena
       const response = await llmCaller.call([
         { role: 'system', content: 'You are a call center operations expert.' },
         { role: 'user', content: prompt }
-      ]);
+      ], { usage: { operation: 'rules-generation', schemaId: activeSchema.id } });
 
       if (response) {
         setSampleCallDescriptions(response.trim());
@@ -218,6 +224,9 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
 - scoringStandard (object): { passed: number, failed: number, partial?: number }
 - examples (array): 2-3 example strings
 - reasoning (string): Why this matters for the business context
+- critical (boolean, optional): true only for compliance items whose failure must fail the whole call
+- allowNotApplicable (boolean, optional): true when the rule only applies to some calls (e.g. "when the customer asks for...")${scorecardSections.length > 0 ? `
+- section (string): one of ${scorecardSections.map(s => `"${s.id}" (${s.name})`).join(', ')}` : ''}
 
 **Scoring Guidelines:**
 - Critical compliance rules: 10-15 points
@@ -230,7 +239,7 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
 
       // Load Azure OpenAI config from cookie
       const azureServicesConfig = loadAzureConfigFromCookie();
-      if (!azureServicesConfig?.openAI?.endpoint || !azureServicesConfig?.openAI?.apiKey || !azureServicesConfig?.openAI?.deploymentName) {
+      if (!azureServicesConfig?.openAI || !isLLMConfigured(azureServicesConfig.openAI)) {
         throw new Error('Azure OpenAI is not configured. Please configure it in settings.');
       }
 
@@ -256,6 +265,7 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
         {
           useJsonMode: false, // Use prompt engineering for better quality
           maxRetries: 2,
+          usage: { operation: 'rules-generation', schemaId: activeSchema.id },
         }
       );
 
@@ -279,6 +289,9 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
         },
         examples: Array.isArray(rule.examples) ? rule.examples : [],
         reasoning: rule.reasoning,
+        section: scorecardSections.some(s => s.id === rule.section) ? rule.section : undefined,
+        critical: rule.critical === true || undefined,
+        allowNotApplicable: rule.allowNotApplicable === true || undefined,
       }));
 
       setGeneratedRules(validatedRules);
@@ -302,11 +315,7 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
     }
 
     // Load existing rules
-    const storageKey = `evaluation-criteria-${activeSchema.id}`;
-    const existingRulesStr = localStorage.getItem(storageKey);
-    const existingRules: EvaluationCriterion[] = existingRulesStr 
-      ? JSON.parse(existingRulesStr) 
-      : [];
+    const existingRules: EvaluationCriterion[] = loadRulesForSchema(activeSchema.id) ?? [];
 
     // Find the highest existing ID
     const maxId = existingRules.length > 0 
@@ -322,13 +331,13 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
       evaluationCriteria: rule.evaluationCriteria,
       scoringStandard: rule.scoringStandard,
       examples: rule.examples,
+      section: rule.section,
+      critical: rule.critical,
+      allowNotApplicable: rule.allowNotApplicable,
     }));
 
-    // Merge existing and new rules
-    const mergedRules = [...existingRules, ...newRules];
-
-    // Save merged rules to schema-specific localStorage
-    localStorage.setItem(storageKey, JSON.stringify(mergedRules));
+    // Merge existing and new rules, then save (assigns stable keys and records a rule set version)
+    const mergedRules = saveRulesForSchema(activeSchema.id, [...existingRules, ...newRules]);
 
     // Also update global custom rules with merged rules
     localStorage.setItem('evaluation-criteria-custom', JSON.stringify(mergedRules));
@@ -564,6 +573,16 @@ Return a valid JSON array of evaluation rule objects. Each object must have:
                             rows={3}
                             className="text-sm"
                           />
+                          <div className="mt-2">
+                            <RuleScorecardFields
+                              idPrefix={`generated-rule-${rule.id}`}
+                              sections={scorecardSections}
+                              section={rule.section}
+                              critical={rule.critical}
+                              allowNotApplicable={rule.allowNotApplicable}
+                              onChange={(updates) => handleUpdateRule(index, updates)}
+                            />
+                          </div>
                           {rule.reasoning && (
                             <p className="text-xs text-muted-foreground mt-2 italic">
                               💡 {rule.reasoning}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -21,28 +21,84 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { FileArrowUp, Warning, CheckCircle, Info } from '@phosphor-icons/react';
+import { FileArrowUp, Warning, CheckCircle, Info, FloppyDisk, Trash } from '@phosphor-icons/react';
 import { CallRecord } from '@/types/call';
 import { SchemaDefinition, getSchemaAudioPath } from '@/types/schema';
-import { parseCSV, readFileAsText, readExcelFile } from '@/lib/csv-parser';
+import { ColumnMapping, CsvDelimiter, CsvEncoding, ImportMappingProfile } from '@/types/import-mapping';
+import { DuplicateMatch, DuplicateReason, DuplicateResolution } from '@/types/duplicate';
+import {
+  CSVRow,
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  getExcelSheetNames,
+  readExcelFile,
+  streamCSVFile,
+  validateRowsForSchema,
+  yieldToBrowser,
+} from '@/lib/csv-parser';
 import { detectSchemaForRows } from '@/lib/csv-parser';
 import { getAllSchemas, saveSchema, generateSchemaId } from '@/services/schema-manager';
 import { SchemaMapper } from '@/services/schema-mapper';
+import {
+  applyMappingProfile,
+  deleteMappingProfile,
+  loadMappingProfiles,
+  saveMappingProfile,
+} from '@/services/import-mappings';
+import { findDuplicates } from '@/services/duplicate-detection';
 import { toast } from 'sonner';
 
+const UNMAPPED = '__unmapped__';
+const AUTO = 'auto';
+const IMPORT_BATCH_SIZE = 2000;
+const MAX_SHOWN_ROW_ERRORS = 50;
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  identifier: 'same identifiers',
+  file: 'same audio file name',
+  audio: 'identical audio',
+  transcript: 'near-identical transcript',
+};
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  merge: 'Merge into existing calls (keeps transcripts and evaluations)',
+  skip: 'Skip duplicate rows',
+  replace: 'Replace existing calls',
+};
+
+function isExcelFile(file: File): boolean {
+  return file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
+}
+
 interface ImportCSVDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onImport: (calls: CallRecord[]) => void;
+  onImport: (calls: CallRecord[], duplicates: DuplicateMatch[], resolution: DuplicateResolution) => void;
   activeSchema: SchemaDefinition | null;
+  existingCalls: CallRecord[];     // Checked for duplicates before importing
 }
 
-export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }: ImportCSVDialogProps) {
+export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema, existingCalls }: ImportCSVDialogProps) {
   const [csvFile, setCsvFile] = useState<File | null>(null);
   const [audioFolderPath, setAudioFolderPath] = useState('/audio');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [sheetName, setSheetName] = useState('audio related info');
+  const [sheetName, setSheetName] = useState('');
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
   const [isAudioPathLocked, setIsAudioPathLocked] = useState(false);
+
+  // Parsing settings (CSV only) and progress
+  const [delimiter, setDelimiter] = useState<CsvDelimiter | typeof AUTO>(AUTO);
+  const [encoding, setEncoding] = useState<CsvEncoding | typeof AUTO>(AUTO);
+  const [detectedFormat, setDetectedFormat] = useState<{ delimiter: CsvDelimiter; encoding: CsvEncoding } | null>(null);
+  const [parseProgress, setParseProgress] = useState<{ percent: number; rows: number } | null>(null);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
   
   // Schema detection state
   const [availableSchemas, setAvailableSchemas] = useState<SchemaDefinition[]>([]);
@@ -50,7 +106,21 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
   const [selectedSchema, setSelectedSchema] = useState<SchemaDefinition | null>(null);
   const [matchScore, setMatchScore] = useState<number | null>(null);
   const [isDetecting, setIsDetecting] = useState(false);
-  const [parsedRows, setParsedRows] = useState<any[] | null>(null);
+  const [parsedRows, setParsedRows] = useState<CSVRow[] | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+
+  // Column mapping, saved profiles and row fixes
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [mappingProfiles, setMappingProfiles] = useState<ImportMappingProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [fixValues, setFixValues] = useState<Record<string, string>>({});
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+  const pendingProfile = useRef<ImportMappingProfile | null>(null); // Applied once a re-parse finishes
+
+  // Converted calls waiting for the user to choose how duplicates are handled
+  const [pendingImport, setPendingImport] = useState<{ calls: CallRecord[]; duplicates: DuplicateMatch[] } | null>(null);
+  const [duplicateResolution, setDuplicateResolution] = useState<DuplicateResolution>('merge');
   
   // Custom schema naming
   const [saveAsNew, setSaveAsNew] = useState(false);
@@ -65,6 +135,33 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
     }
   }, [activeSchema, open]);
 
+  // Pre-fill the mapping by fuzzy column matching whenever the file or schema changes
+  useEffect(() => {
+    if (!selectedSchema || columns.length === 0) return;
+    const profile = pendingProfile.current;
+    pendingProfile.current = null;
+    setColumnMapping(profile ? applyMappingProfile(profile, columns) : SchemaMapper.suggestColumnMapping(columns, selectedSchema));
+    setMappingProfiles(loadMappingProfiles(selectedSchema.id));
+    setSelectedProfileId(profile?.id ?? '');
+  }, [selectedSchema, columns]);
+
+  // Converted calls are stale once the rows, mapping or schema change
+  useEffect(() => {
+    setPendingImport(null);
+  }, [parsedRows, columnMapping, selectedSchema]);
+
+  const duplicateSummary = useMemo(() => {
+    if (!pendingImport) return [];
+    const counts = new Map<DuplicateReason, number>();
+    pendingImport.duplicates.forEach(d => counts.set(d.reason, (counts.get(d.reason) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [pendingImport]);
+
+  const validation = useMemo(() => {
+    if (!parsedRows || parsedRows.length === 0 || !selectedSchema) return null;
+    return validateRowsForSchema(parsedRows, selectedSchema, { columnMapping, maxRowErrors: MAX_SHOWN_ROW_ERRORS });
+  }, [parsedRows, selectedSchema, columnMapping]);
+
   // Update audio path when schema changes
   useEffect(() => {
     if (selectedSchema && !isAudioPathLocked) {
@@ -96,7 +193,7 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
+    const isExcel = isExcelFile(file);
     const isCsv = file.name.endsWith('.csv');
     
     if (!isExcel && !isCsv) {
@@ -105,34 +202,53 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
     }
     
     setCsvFile(file);
-    
-    // Auto-detect schema
-    await detectSchema(file);
+    setFixValues({});
+
+    let sheet = '';
+    if (isExcel) {
+      const names = await getExcelSheetNames(file);
+      setSheetNames(names);
+      sheet = names[0] ?? '';
+      setSheetName(sheet);
+    }
+
+    // Parse and auto-detect schema, detecting the format afresh for each file
+    setDelimiter(AUTO);
+    setEncoding(AUTO);
+    await loadRows(file, { sheet, delimiter: AUTO, encoding: AUTO, detectSchema: true });
   };
 
-  const detectSchema = async (file: File) => {
+  /**
+   * Parse the file with the current settings. CSV files are streamed in chunks with progress.
+   */
+  const loadRows = async (
+    file: File,
+    options: { sheet?: string; delimiter?: CsvDelimiter | typeof AUTO; encoding?: CsvEncoding | typeof AUTO; detectSchema?: boolean } = {}
+  ) => {
     setIsDetecting(true);
     try {
-      let rows: any[];
-      
-      const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
-      
-      if (isExcel) {
-        rows = await readExcelFile(file, sheetName);
+      let rows: CSVRow[];
+      let fileColumns: string[];
+
+      if (isExcelFile(file)) {
+        rows = await readExcelFile(file, options.sheet ?? sheetName);
+        fileColumns = rows[0] ? Object.keys(rows[0]) : [];
+        setDetectedFormat(null);
       } else {
-        const csvText = await readFileAsText(file);
-        rows = parseCSV(csvText);
+        const chosenDelimiter = options.delimiter ?? delimiter;
+        const chosenEncoding = options.encoding ?? encoding;
+        const result = await streamCSVFile(file, {
+          delimiter: chosenDelimiter === AUTO ? undefined : chosenDelimiter,
+          encoding: chosenEncoding === AUTO ? undefined : chosenEncoding,
+          onProgress: ({ bytesRead, totalBytes, rows: rowCount }) =>
+            setParseProgress({ percent: totalBytes > 0 ? (bytesRead / totalBytes) * 100 : 100, rows: rowCount }),
+        });
+        rows = result.rows;
+        fileColumns = result.columns;
+        setDetectedFormat({ delimiter: result.delimiter, encoding: result.encoding });
       }
 
-      console.log('=== SCHEMA DETECTION ===');
-      console.log('File:', file.name);
-      console.log('Rows:', rows.length);
-      console.log('First row columns:', rows[0] ? Object.keys(rows[0]) : 'none');
-      console.log('Available schemas:', availableSchemas.length);
-      console.log('Schemas:', availableSchemas.map(s => ({ 
-        name: s.name, 
-        fields: s.fields.map(f => ({ name: f.name, displayName: f.displayName })) 
-      })));
+      console.log(`📄 Parsed ${rows.length} rows with ${fileColumns.length} columns from ${file.name}`);
 
       if (rows.length === 0) {
         toast.error('No data found in file');
@@ -140,57 +256,122 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
       }
 
       setParsedRows(rows);
+      setColumns(fileColumns);
+      if (options.detectSchema) {
+        detectSchema(rows);
+      }
+    } catch (error) {
+      console.error('File parsing error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setIsDetecting(false);
+      setParseProgress(null);
+    }
+  };
 
-      // Try to detect best matching schema
-      const schema = detectSchemaForRows(rows, availableSchemas, 30); // Very low threshold for detection
+  const detectSchema = (rows: CSVRow[]) => {
+    console.log('=== SCHEMA DETECTION ===');
+    console.log('First row columns:', rows[0] ? Object.keys(rows[0]) : 'none');
+    console.log('Available schemas:', availableSchemas.length);
 
-      console.log('Detected schema:', schema?.name || 'none');
+    // Try to detect best matching schema
+    const schema = detectSchemaForRows(rows, availableSchemas, 30); // Very low threshold for detection
+
+    console.log('Detected schema:', schema?.name || 'none');
+    
+    // Show match scores for all schemas
+    console.log('Match scores for all schemas:');
+    const schemaScores = availableSchemas.map(s => {
+      const score = SchemaMapper.calculateMatchScore(rows[0], s);
+      console.log(`  ${s.name}: ${score}%`);
+      return { schema: s, score };
+    });
+
+    // Find best match even if below threshold
+    const bestMatch = schemaScores.reduce((best, current) => 
+      current.score > best.score ? current : best
+    , { schema: null as SchemaDefinition | null, score: 0 });
+
+    if (bestMatch.schema && bestMatch.score > 30) {
+      const score = bestMatch.score / 100;
       
-      // Show match scores for all schemas
-      console.log('Match scores for all schemas:');
-      const schemaScores = availableSchemas.map(s => {
-        const score = SchemaMapper.calculateMatchScore(rows[0], s);
-        console.log(`  ${s.name}: ${score}%`);
-        return { schema: s, score };
-      });
-
-      // Find best match even if below threshold
-      const bestMatch = schemaScores.reduce((best, current) => 
-        current.score > best.score ? current : best
-      , { schema: null as SchemaDefinition | null, score: 0 });
-
-      if (bestMatch.schema && bestMatch.score > 30) {
-        const score = bestMatch.score / 100;
-        
-        console.log('Using best match:', bestMatch.schema.name, 'with score:', bestMatch.score);
-        
-        setDetectedSchema(bestMatch.schema);
-        setSelectedSchema(bestMatch.schema);
-        setMatchScore(score);
-
-        if (bestMatch.score >= 70) {
-          toast.success(
-            `Schema detected: ${bestMatch.schema.name} (${Math.round(bestMatch.score)}% match)`,
-            { duration: 4000 }
-          );
-        } else {
-          toast.warning(
-            `Schema detected: ${bestMatch.schema.name} (${Math.round(bestMatch.score)}% match - low confidence). Please verify the mapping.`,
-            { duration: 6000 }
-          );
-        }
+      console.log('Using best match:', bestMatch.schema.name, 'with score:', bestMatch.score);
+      
+      setDetectedSchema(bestMatch.schema);
+      setSelectedSchema(bestMatch.schema);
+      setMatchScore(score);
+
+      if (bestMatch.score >= 70) {
+        toast.success(
+          `Schema detected: ${bestMatch.schema.name} (${Math.round(bestMatch.score)}% match)`,
+          { duration: 4000 }
+        );
       } else {
-        console.log('No schema matched');
-        toast.warning('No matching schema found. Please select manually or create a new schema.');
-        setDetectedSchema(null);
-        setMatchScore(null);
+        toast.warning(
+          `Schema detected: ${bestMatch.schema.name} (${Math.round(bestMatch.score)}% match - low confidence). Please verify the mapping.`,
+          { duration: 6000 }
+        );
       }
-    } catch (error) {
-      console.error('Schema detection error:', error);
-      toast.error('Failed to detect schema');
-    } finally {
-      setIsDetecting(false);
+    } else {
+      console.log('No schema matched');
+      toast.warning('No matching schema found. Please select manually or create a new schema.');
+      setDetectedSchema(null);
+      setMatchScore(null);
+    }
+  };
+
+  const handleApplyProfile = (profileId: string) => {
+    const profile = mappingProfiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    // Re-parse when the profile was saved for a different CSV format; the mapping is
+    // applied once the new columns are known
+    const formatChanged = !!csvFile && !isExcelFile(csvFile) && (
+      (profile.delimiter && profile.delimiter !== detectedFormat?.delimiter) ||
+      (profile.encoding && profile.encoding !== detectedFormat?.encoding)
+    );
+    if (formatChanged && csvFile) {
+      pendingProfile.current = profile;
+      setDelimiter(profile.delimiter ?? AUTO);
+      setEncoding(profile.encoding ?? AUTO);
+      loadRows(csvFile, { delimiter: profile.delimiter ?? AUTO, encoding: profile.encoding ?? AUTO });
+      return;
     }
+
+    setSelectedProfileId(profile.id);
+    setColumnMapping(applyMappingProfile(profile, columns));
+  };
+
+  const handleSaveProfile = () => {
+    if (!selectedSchema || !profileName.trim()) return;
+    const profile = saveMappingProfile(selectedSchema.id, profileName.trim(), columnMapping, {
+      delimiter: detectedFormat?.delimiter,
+      encoding: detectedFormat?.encoding,
+    });
+    setMappingProfiles(loadMappingProfiles(selectedSchema.id));
+    setSelectedProfileId(profile.id);
+    setProfileName('');
+    toast.success(`Saved mapping profile "${profile.name}"`);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!selectedSchema || !selectedProfileId) return;
+    deleteMappingProfile(selectedSchema.id, selectedProfileId);
+    setMappingProfiles(loadMappingProfiles(selectedSchema.id));
+    setSelectedProfileId('');
+  };
+
+  const handleApplyFix = (rowIndex: number, column: string) => {
+    const key = `${rowIndex}:${column}`;
+    const value = fixValues[key];
+    if (value === undefined) return;
+    setParsedRows(rows => {
+      if (!rows) return rows;
+      const next = [...rows];
+      next[rowIndex] = { ...next[rowIndex], [column]: value };
+      return next;
+    });
+    setFixValues(({ [key]: _applied, ...rest }) => rest);
   };
 
   const handleImport = async () => {
@@ -250,17 +431,11 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
         toast.success(`Created new schema: "${customSchemaName.trim()}"`, { duration: 3000 });
       }
 
-      // Use parsed rows if available, otherwise re-parse
+      // Rows with validation errors are left out when the user chose to skip them
       let rows = parsedRows;
-      if (!rows) {
-        const isExcel = csvFile.name.endsWith('.xlsx') || csvFile.name.endsWith('.xls');
-        
-        if (isExcel) {
-          rows = await readExcelFile(csvFile, sheetName);
-        } else {
-          const csvText = await readFileAsText(csvFile);
-          rows = parseCSV(csvText);
-        }
+      if (rows && skipInvalidRows && validation) {
+        const invalid = new Set(validation.invalidRows);
+        rows = rows.filter((_, index) => !invalid.has(index));
       }
 
       if (!rows || rows.length === 0) {
@@ -281,30 +456,37 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
         f.name.toLowerCase().includes('file')
       );
 
-      // Convert rows to CallRecords using target schema
-      const callRecords: CallRecord[] = rows.map((row, index) => {
-        const metadata = SchemaMapper.mapRow(row, targetSchema);
-        
-        // Extract audio filename from metadata and construct full URL
-        let audioUrl: string | undefined;
-        if (audioUrlField && metadata[audioUrlField.name]) {
-          const audioFileName = metadata[audioUrlField.name];
-          // Ensure audioFolderPath ends with /
-          const basePath = audioFolderPath.endsWith('/') ? audioFolderPath : `${audioFolderPath}/`;
-          audioUrl = `${basePath}${audioFileName}`;
-        }
-        
-        return {
-          id: `import-${Date.now()}-${index}`,
-          status: 'pending audio' as const, // Status will change to 'uploaded' when audio files are attached
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          schemaId: targetSchema.id,
-          schemaVersion: targetSchema.version,
-          metadata,
-          audioUrl,
-        };
-      });
+      // Convert rows to CallRecords using target schema and the column mapping, in batches
+      // so large files keep the tab responsive
+      const callRecords: CallRecord[] = [];
+      for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        rows.slice(start, start + IMPORT_BATCH_SIZE).forEach((row, offset) => {
+          const index = start + offset;
+          const metadata = SchemaMapper.mapRow(row, targetSchema, columnMapping);
+          
+          // Extract audio filename from metadata and construct full URL
+          let audioUrl: string | undefined;
+          if (audioUrlField && metadata[audioUrlField.name]) {
+            const audioFileName = metadata[audioUrlField.name];
+            // Ensure audioFolderPath ends with /
+            const basePath = audioFolderPath.endsWith('/') ? audioFolderPath : `${audioFolderPath}/`;
+            audioUrl = `${basePath}${audioFileName}`;
+          }
+          
+          callRecords.push({
+            id: `import-${Date.now()}-${index}`,
+            status: 'pending audio' as const, // Status will change to 'uploaded' when audio files are attached
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            schemaId: targetSchema.id,
+            schemaVersion: targetSchema.version,
+            metadata,
+            audioUrl,
+          });
+        });
+        setImportProgress((callRecords.length / rows.length) * 100);
+        await yieldToBrowser();
+      }
 
       console.log('Converted call records:', callRecords.length);
       console.log('First call record:', callRecords[0]);
@@ -312,43 +494,61 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
       console.log('Sample audioUrl:', callRecords[0]?.audioUrl);
 
       // Fetch audio files from URLs if audio field was found
+      let importedCalls = callRecords;
       if (audioUrlField && audioFolderPath.trim()) {
         toast.info('Fetching audio files...');
         const { fetchAudioFilesForCalls } = await import('@/lib/csv-parser');
-        const callsWithAudio = await fetchAudioFilesForCalls(callRecords);
-        const successCount = callsWithAudio.filter(c => c.audioFile).length;
-        
-        onImport(callsWithAudio);
-        toast.success(`Successfully imported ${callRecords.length} call records! (${successCount} with audio files)`);
-      } else {
-        onImport(callRecords);
-        toast.success(`Successfully imported ${callRecords.length} call records!`);
+        importedCalls = await fetchAudioFilesForCalls(callRecords);
       }
-      
-      onOpenChange(false);
-      
-      // Reset state
-      setCsvFile(null);
-      setParsedRows(null);
-      setDetectedSchema(null);
-      setMatchScore(null);
-      setSaveAsNew(false);
-      setCustomSchemaName('');
+
+      // Let the user decide what happens to calls that are already in the table
+      const duplicates = findDuplicates(importedCalls, existingCalls, targetSchema);
+      if (duplicates.length > 0) {
+        console.log(`🔁 ${duplicates.length} imported rows duplicate existing calls`);
+        setPendingImport({ calls: importedCalls, duplicates });
+        return;
+      }
+
+      completeImport(importedCalls, [], duplicateResolution);
     } catch (error) {
       console.error('Import error:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to import file');
     } finally {
       setIsProcessing(false);
+      setImportProgress(null);
     }
   };
 
+  const completeImport = (calls: CallRecord[], duplicates: DuplicateMatch[], resolution: DuplicateResolution) => {
+    onImport(calls, duplicates, resolution);
+    const audioCount = calls.filter(c => c.audioFile).length;
+    toast.success(
+      `Successfully imported ${calls.length} call records!${audioCount > 0 ? ` (${audioCount} with audio files)` : ''}`
+    );
+
+    onOpenChange(false);
+
+    // Reset state
+    setPendingImport(null);
+    setCsvFile(null);
+    setParsedRows(null);
+    setColumns([]);
+    setColumnMapping({});
+    setFixValues({});
+    setSkipInvalidRows(false);
+    setDetectedSchema(null);
+    setMatchScore(null);
+    setSaveAsNew(false);
+    setCustomSchemaName('');
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Import Calls from Excel/CSV</DialogTitle>
           <DialogDescription>
-            Upload an Excel file (.xlsx) or CSV file with call metadata from the "audio related info" sheet.
+            Upload an Excel file (.xlsx) or CSV file with call metadata, then map its columns to the schema fields.
           </DialogDescription>
         </DialogHeader>
 
@@ -372,12 +572,99 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
             </div>
             {isDetecting && (
               <div className="flex items-center gap-2">
-                <Progress value={undefined} className="h-1" />
-                <span className="text-xs text-muted-foreground">Detecting schema...</span>
+                <Progress value={parseProgress?.percent} className="h-1" />
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {parseProgress ? `Parsing... ${parseProgress.rows.toLocaleString()} rows` : 'Detecting schema...'}
+                </span>
               </div>
             )}
+            {parsedRows && !isDetecting && (
+              <p className="text-xs text-muted-foreground">
+                {parsedRows.length.toLocaleString()} rows, {columns.length} columns
+              </p>
+            )}
           </div>
 
+          {/* CSV format: delimiter and encoding are detected, but can be overridden */}
+          {csvFile && !isExcelFile(csvFile) && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="csv-delimiter">Delimiter</Label>
+                <Select
+                  value={delimiter}
+                  onValueChange={(value) => {
+                    const next = value as CsvDelimiter | typeof AUTO;
+                    setDelimiter(next);
+                    loadRows(csvFile, { delimiter: next });
+                  }}
+                  disabled={isDetecting}
+                >
+                  <SelectTrigger id="csv-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO}>
+                      Auto-detect{detectedFormat && delimiter === AUTO ? ` (${DELIMITER_LABELS[detectedFormat.delimiter]})` : ''}
+                    </SelectItem>
+                    {CSV_DELIMITERS.map(d => (
+                      <SelectItem key={d} value={d}>{DELIMITER_LABELS[d]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-encoding">Encoding</Label>
+                <Select
+                  value={encoding}
+                  onValueChange={(value) => {
+                    const next = value as CsvEncoding | typeof AUTO;
+                    setEncoding(next);
+                    loadRows(csvFile, { encoding: next });
+                  }}
+                  disabled={isDetecting}
+                >
+                  <SelectTrigger id="csv-encoding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO}>
+                      Auto-detect{detectedFormat && encoding === AUTO ? ` (${detectedFormat.encoding})` : ''}
+                    </SelectItem>
+                    {CSV_ENCODINGS.map(e => (
+                      <SelectItem key={e} value={e}>{e}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {csvFile && isExcelFile(csvFile) && sheetNames.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="sheet-name">Sheet</Label>
+              <Select
+                value={sheetName}
+                onValueChange={(value) => {
+                  setSheetName(value);
+                  loadRows(csvFile, { sheet: value });
+                }}
+                disabled={isDetecting}
+              >
+                <SelectTrigger id="sheet-name">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheetNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Excel sheet containing the call metadata
+              </p>
+            </div>
+          )}
+
           {/* Schema Detection Results */}
           {detectedSchema && matchScore !== null && (
             <Alert className={matchScore >= 0.8 ? 'border-green-500 bg-green-50 dark:bg-green-950' : 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950'}>
@@ -476,21 +763,153 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
             </div>
           )}
 
-          {csvFile && (csvFile.name.endsWith('.xlsx') || csvFile.name.endsWith('.xls')) && (
-            <div className="space-y-2">
-              <Label htmlFor="sheet-name">Sheet Name</Label>
-              <Input
-                id="sheet-name"
-                value={sheetName}
-                onChange={(e) => setSheetName(e.target.value)}
-                placeholder="audio related info"
-              />
+          {/* Column Mapping */}
+          {selectedSchema && columns.length > 0 && (
+            <div className="space-y-3 border rounded-lg p-4">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Column Mapping</Label>
+                {mappingProfiles.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Select value={selectedProfileId} onValueChange={handleApplyProfile}>
+                      <SelectTrigger className="h-8 w-[200px] text-xs">
+                        <SelectValue placeholder="Apply saved mapping..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {mappingProfiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedProfileId && (
+                      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={handleDeleteProfile} title="Delete saved mapping">
+                        <Trash size={14} />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
               <p className="text-xs text-muted-foreground">
-                Name of the Excel sheet containing the call metadata (default: "audio related info")
+                Pre-filled by matching column names. Adjust any field that picked the wrong column.
               </p>
+              <div className="max-h-[260px] overflow-y-auto space-y-1 pr-1">
+                {selectedSchema.fields.map(field => {
+                  const column = columnMapping[field.id];
+                  const sample = column && parsedRows?.[0] ? String(parsedRows[0][column] ?? '') : '';
+                  return (
+                    <div key={field.id} className="grid grid-cols-[1fr_1fr_1fr] items-center gap-2 text-sm">
+                      <span className="truncate" title={field.name}>
+                        {field.displayName}
+                        {field.required && <span className="text-destructive"> *</span>}
+                      </span>
+                      <Select
+                        value={column ?? UNMAPPED}
+                        onValueChange={(value) => {
+                          setColumnMapping(({ [field.id]: _previous, ...rest }) =>
+                            value === UNMAPPED ? rest : { ...rest, [field.id]: value }
+                          );
+                        }}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                          {columns.map(c => (
+                            <SelectItem key={c} value={c}>{c}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="truncate text-xs text-muted-foreground" title={sample}>
+                        {sample || '—'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Save mapping as..."
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  className="h-8 text-xs"
+                />
+                <Button variant="outline" size="sm" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                  <FloppyDisk className="mr-1" size={14} />
+                  Save
+                </Button>
+              </div>
             </div>
           )}
 
+          {/* Validation against the mapping, with inline fixes */}
+          {validation && (validation.valid ? (
+            <Alert className="border-green-500 bg-green-50 dark:bg-green-950">
+              <CheckCircle size={18} className="text-green-600" />
+              <AlertDescription>All {parsedRows?.length.toLocaleString()} rows are valid for {selectedSchema?.name}.</AlertDescription>
+            </Alert>
+          ) : (
+            <Alert className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950">
+              <Warning size={18} className="text-yellow-600" />
+              <AlertDescription>
+                <div className="space-y-2">
+                  <ul className="text-xs list-disc pl-4">
+                    {validation.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                  {validation.invalidRows.length > 0 && (
+                    <p className="text-xs font-medium">
+                      {validation.invalidRows.length.toLocaleString()} rows have problems
+                      {validation.rowErrors.length < validation.invalidRows.length && ` (showing the first ${validation.rowErrors.length} issues)`}
+                    </p>
+                  )}
+                  <div className="max-h-[200px] overflow-y-auto space-y-1">
+                    {validation.rowErrors.map(error => {
+                      const key = `${error.rowIndex}:${error.column}`;
+                      return (
+                        <div key={`${key}:${error.fieldId}`} className="flex items-center gap-2 text-xs">
+                          <Badge variant="outline" className="shrink-0">Row {error.rowIndex + 2}</Badge>
+                          <span className="flex-1 truncate" title={error.message}>{error.message}</span>
+                          {error.column ? (
+                            <>
+                              <Input
+                                className="h-7 w-[140px] text-xs"
+                                placeholder="New value"
+                                value={fixValues[key] ?? ''}
+                                onChange={(e) => setFixValues(prev => ({ ...prev, [key]: e.target.value }))}
+                              />
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => handleApplyFix(error.rowIndex, error.column!)}
+                                disabled={fixValues[key] === undefined}
+                              >
+                                Apply
+                              </Button>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground shrink-0">Map a column above</span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {validation.invalidRows.length > 0 && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="skip-invalid"
+                        checked={skipInvalidRows}
+                        onCheckedChange={(checked) => setSkipInvalidRows(checked as boolean)}
+                      />
+                      <Label htmlFor="skip-invalid" className="text-xs cursor-pointer">
+                        Skip {validation.invalidRows.length.toLocaleString()} invalid rows on import
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              </AlertDescription>
+            </Alert>
+          ))}
+
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="audio-folder">Audio Folder Path</Label>
@@ -522,14 +941,62 @@ export function ImportCSVDialog({ open, onOpenChange, onImport, activeSchema }:
           </div>
         </div>
 
+        {/* Duplicates of calls already in the table */}
+        {pendingImport && (
+          <Alert className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950">
+            <Warning size={18} className="text-yellow-600" />
+            <AlertDescription>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  {pendingImport.duplicates.length} of {pendingImport.calls.length} rows duplicate calls that are already imported
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {duplicateSummary.map(([reason, count]) => (
+                    <Badge key={reason} variant="outline">{count} × {DUPLICATE_REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+                <ul className="text-xs text-muted-foreground list-disc pl-4 max-h-[100px] overflow-y-auto">
+                  {pendingImport.duplicates.slice(0, 20).map(d => (
+                    <li key={d.callId}>{d.detail}</li>
+                  ))}
+                </ul>
+                <Select value={duplicateResolution} onValueChange={(value) => setDuplicateResolution(value as DuplicateResolution)}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                      <SelectItem key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {importProgress !== null && (
+          <div className="flex items-center gap-2">
+            <Progress value={importProgress} className="h-1" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">Converting rows...</span>
+          </div>
+        )}
+
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isProcessing}>
             Cancel
           </Button>
-          <Button onClick={handleImport} disabled={!csvFile || isProcessing}>
-            <FileArrowUp className="mr-2" size={18} />
-            {isProcessing ? 'Importing...' : 'Import Metadata'}
-          </Button>
+          {pendingImport ? (
+            <Button onClick={() => completeImport(pendingImport.calls, pendingImport.duplicates, duplicateResolution)}>
+              <FileArrowUp className="mr-2" size={18} />
+              Continue Import
+            </Button>
+          ) : (
+            <Button onClick={handleImport} disabled={!csvFile || !parsedRows || isProcessing || isDetecting}>
+              <FileArrowUp className="mr-2" size={18} />
+              {isProcessing ? 'Importing...' : 'Import Metadata'}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FloppyDisk, FolderOpen, Play } from '@phosphor-icons/react';
+import { SchemaDefinition } from '@/types/schema';
+import { IngestionLogEntry, SchemaIngestionSettings, UnmatchedRowReason } from '@/types/ingestion';
+import { getStorageAdapter } from '@/lib/storage-adapter';
+import { getAudioFileField } from '@/lib/csv-parser';
+import { saveSchema } from '@/services/schema-manager';
+import {
+  DEFAULT_INGESTION_SETTINGS,
+  getIngestionFolder,
+  loadIngestionLog,
+  runIngestionNow,
+} from '@/services/ingestion';
+import { toast } from 'sonner';
+
+interface IngestionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schema: SchemaDefinition;
+  onSchemaUpdate?: (schema: SchemaDefinition) => void;
+}
+
+/** Select value for "detect the audio file column" */
+const AUTO_FIELD = '__auto__';
+
+const REASON_LABELS: Record<UnmatchedRowReason, string> = {
+  'no-audio-value': 'No audio file name',
+  'file-not-found': 'Audio file not found yet',
+  'already-ingested': 'Already ingested',
+};
+
+/**
+ * Watch-folder settings for a schema and the log of recent ingestion runs
+ */
+export function IngestionDialog({ open, onOpenChange, schema, onSchemaUpdate }: IngestionDialogProps) {
+  const [draft, setDraft] = useState<SchemaIngestionSettings>(DEFAULT_INGESTION_SETTINGS);
+  const [log, setLog] = useState<IngestionLogEntry[]>([]);
+  const [running, setRunning] = useState(false);
+  const serverBackend = getStorageAdapter().backend === 'server';
+  const detectedField = getAudioFileField(schema);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(schema.ingestion ?? DEFAULT_INGESTION_SETTINGS);
+  }, [open, schema]);
+
+  useEffect(() => {
+    if (!open || !serverBackend) return;
+    loadIngestionLog(schema.id)
+      .then(setLog)
+      .catch((error) => {
+        console.error('Failed to load ingestion log:', error);
+        setLog([]);
+      });
+  }, [open, serverBackend, schema.id]);
+
+  const handleSave = () => {
+    const updatedSchema: SchemaDefinition = { ...schema, ingestion: draft, updatedAt: new Date().toISOString() };
+    const result = saveSchema(updatedSchema);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save ingestion settings');
+      return;
+    }
+    onSchemaUpdate?.(updatedSchema);
+    toast.success(draft.enabled ? `Watching the folder for ${schema.name}` : `Folder watch off for ${schema.name}`);
+  };
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const entry = await runIngestionNow(schema.id);
+      if (!entry) {
+        toast.info('Nothing new to ingest in the folder');
+        return;
+      }
+      setLog(prev => [entry, ...prev]);
+      toast.success(`Ingested ${entry.callIds.length} call(s) from ${entry.manifests.length} manifest(s)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Ingestion run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Watch Folder - {schema.name}</DialogTitle>
+          <DialogDescription>
+            Audio files and CSV manifests dropped in the folder below are matched by file name and
+            imported as calls. Matched files move to processed/&lt;batch&gt;/ once they are in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!serverBackend && (
+          <p className="text-sm text-amber-700 bg-amber-50 dark:bg-amber-950/20 rounded-md p-3">
+            Folder ingestion runs on the backend server. Start the app with server storage to use it.
+          </p>
+        )}
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm">
+            <FolderOpen size={18} className="text-muted-foreground" />
+            <span className="text-muted-foreground">Folder (under the server's ingest root):</span>
+            <code className="bg-muted rounded px-2 py-0.5">{getIngestionFolder(schema) || '.'}</code>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="ingestion-enabled">Watch this folder</Label>
+              <Switch
+                id="ingestion-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Manifest column with the audio file name</Label>
+              <Select
+                value={draft.audioField ?? AUTO_FIELD}
+                onValueChange={(value) => setDraft(prev => ({ ...prev, audioField: value === AUTO_FIELD ? undefined : value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_FIELD}>
+                    Detect{detectedField ? ` (${detectedField.name})` : ''}
+                  </SelectItem>
+                  {schema.fields.map(field => (
+                    <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="ingestion-transcribe">Transcribe automatically</Label>
+              <Switch
+                id="ingestion-transcribe"
+                checked={draft.autoTranscribe}
+                onCheckedChange={(autoTranscribe) => setDraft(prev => ({ ...prev, autoTranscribe }))}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="ingestion-evaluate">Evaluate after transcription</Label>
+              <Switch
+                id="ingestion-evaluate"
+                checked={draft.autoEvaluate}
+                onCheckedChange={(autoEvaluate) => setDraft(prev => ({ ...prev, autoEvaluate }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleRunNow} disabled={!serverBackend || running}>
+              <Play className="mr-2" size={18} />
+              {running ? 'Running...' : 'Run Now'}
+            </Button>
+            <Button onClick={handleSave}>
+              <FloppyDisk className="mr-2" size={18} />
+              Save Settings
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col">
+          <h4 className="text-sm font-medium mb-2">Ingestion log</h4>
+          <ScrollArea className="h-[35vh] pr-2">
+            {log.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No ingestion runs yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {log.map(entry => (
+                  <div key={entry.batchId} className="rounded-md border p-3 space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{new Date(entry.startedAt).toLocaleString()}</span>
+                      <div className="flex gap-2">
+                        <Badge variant="secondary">{entry.callIds.length} call(s)</Badge>
+                        {entry.unmatchedFiles.length > 0 && (
+                          <Badge variant="outline">{entry.unmatchedFiles.length} unmatched file(s)</Badge>
+                        )}
+                        {entry.unmatchedRows.length > 0 && (
+                          <Badge variant="outline">{entry.unmatchedRows.length} unmatched row(s)</Badge>
+                        )}
+                        {entry.errors.length > 0 && (
+                          <Badge variant="destructive">{entry.errors.length} error(s)</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-muted-foreground">Manifests: {entry.manifests.join(', ')}</p>
+                    {entry.unmatchedFiles.length > 0 && (
+                      <p>
+                        <span className="text-muted-foreground">Files without a manifest row: </span>
+                        {entry.unmatchedFiles.join(', ')}
+                      </p>
+                    )}
+                    {entry.unmatchedRows.length > 0 && (
+                      <ul className="list-disc pl-5 space-y-0.5">
+                        {entry.unmatchedRows.map(row => (
+                          <li key={`${row.manifest}:${row.line}`}>
+                            {row.manifest} line {row.line}
+                            {row.audioValue ? ` (${row.audioValue})` : ''}: {REASON_LABELS[row.reason]}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {entry.errors.map(error => (
+                      <p key={error} className="text-destructive">{error}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -241,32 +241,20 @@ export function InsightCategoriesManager({ schema, onSave }: InsightCategoriesMa
     try {
       const { LLMCaller } = await import('@/llmCaller');
       const { loadAzureConfigFromCookie } = await import('@/lib/azure-config-storage');
-      const { BrowserConfigManager } = await import('@/services/browser-config-manager');
+      const { BrowserConfigManager, isLLMConfigured, toLLMConfig } = await import('@/services/browser-config-manager');
 
       const azureConfig = loadAzureConfigFromCookie();
-      if (!azureConfig?.openAI?.endpoint || !azureConfig?.openAI?.deploymentName) {
+      // Check for valid auth - API key, Entra ID, managed identity, or a local/mock provider
+      if (!azureConfig?.openAI || !isLLMConfigured(azureConfig.openAI)) {
         toast.error('Azure OpenAI not configured. Please configure in Settings.');
         setGenerating(false);
         return;
       }
-      
-      // Check for valid auth - API key, Entra ID, or managed identity
-      const hasValidAuth = azureConfig.openAI.authType === 'entraId' ||
-        azureConfig.openAI.authType === 'managedIdentity' ||
-        azureConfig.openAI.apiKey;
-      if (!hasValidAuth) {
-        toast.error('Azure OpenAI authentication not configured.');
-        setGenerating(false);
-        return;
-      }
 
       const configManager = new BrowserConfigManager({
-        endpoint: azureConfig.openAI.endpoint,
-        apiKey: azureConfig.openAI.apiKey,
-        deploymentName: azureConfig.openAI.deploymentName,
+        ...toLLMConfig(azureConfig.openAI),
         apiVersion: azureConfig.openAI.apiVersion || '2024-12-01-preview',
         authType: azureConfig.openAI.authType || 'apiKey',
-        tenantId: azureConfig.openAI.tenantId,
         reasoningEffort: azureConfig.openAI.reasoningEffort || 'medium',
       });
 
@@ -337,7 +325,7 @@ Return ONLY a valid JSON array of InsightCategoryConfig objects.`;
 
       const response = await llmCaller.callWithJsonValidation<InsightCategoryConfig[]>(
         [{ role: 'user', content: prompt }],
-        {}
+        { usage: { operation: 'schema-discovery', schemaId: schema.id } }
       );
 
       const generatedCategories = Array.isArray(response.parsed) ? response.parsed : [];
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Pause, Play, X, ArrowClockwise, Trash, CaretDown, CaretUp, ListChecks } from '@phosphor-icons/react';
+import { useJobQueue } from '@/hooks/useJobQueue';
+import { getJobQueue, isJobActive, Job, JobStatus, JobType } from '@/services/job-queue';
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  transcription: 'Transcription',
+  evaluation: 'Evaluation',
+  sentiment: 'Sentiment',
+  'synthetic-audio': 'Synthetic audio',
+};
+
+const STATUS_VARIANTS: Record<JobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'default',
+  retrying: 'secondary',
+  completed: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+function describeStatus(job: Job): string {
+  if (job.status === 'retrying' && job.nextAttemptAt) {
+    const seconds = Math.max(0, Math.round((Date.parse(job.nextAttemptAt) - Date.now()) / 1000));
+    return `retry ${job.attempts + 1}/${job.maxAttempts} in ${seconds}s`;
+  }
+  return job.status;
+}
+
+/**
+ * Queue panel for background AI jobs - progress, pause/resume, cancel and retry.
+ * State comes from the persistent job queue, so it survives page reloads.
+ */
+export function JobQueuePanel() {
+  const { jobs, paused, concurrency } = useJobQueue();
+  const [expanded, setExpanded] = useState(false);
+  const queue = getJobQueue();
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const count = (status: JobStatus) => jobs.filter(j => j.status === status).length;
+  const finished = count('completed') + count('failed') + count('cancelled');
+  const activeCount = jobs.filter(isJobActive).length;
+  const failedCount = count('failed');
+
+  return (
+    <Card className="p-4">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ListChecks size={18} />
+            <span className="font-semibold">Job Queue</span>
+            {paused && activeCount > 0 && <Badge variant="secondary">Paused</Badge>}
+            <span className="text-sm text-muted-foreground">
+              {finished} / {jobs.length} finished
+              {count('running') > 0 && ` • ${count('running')} running`}
+              {count('retrying') > 0 && ` • ${count('retrying')} waiting to retry`}
+              {failedCount > 0 && ` • ${failedCount} failed`}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(concurrency)} onValueChange={(v) => queue.setConcurrency(Number(v))}>
+              <SelectTrigger className="w-[130px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4, 5, 6, 8, 10].map(n => (
+                  <SelectItem key={n} value={String(n)}>{n} parallel</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activeCount > 0 && (
+              paused ? (
+                <Button size="sm" variant="outline" onClick={() => queue.resume()}>
+                  <Play size={14} className="mr-1" /> Resume
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => queue.pause()}>
+                  <Pause size={14} className="mr-1" /> Pause
+                </Button>
+              )
+            )}
+            {activeCount > 0 && (
+              <Button size="sm" variant="outline" onClick={() => queue.cancelAll()}>
+                <X size={14} className="mr-1" /> Cancel all
+              </Button>
+            )}
+            {failedCount > 0 && (
+              <Button size="sm" variant="outline" onClick={() => queue.retryFailed()}>
+                <ArrowClockwise size={14} className="mr-1" /> Retry failed
+              </Button>
+            )}
+            {finished > 0 && (
+              <Button size="sm" variant="ghost" onClick={() => queue.clearFinished()}>
+                <Trash size={14} className="mr-1" /> Clear finished
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => setExpanded(!expanded)}>
+              {expanded ? <CaretUp size={14} /> : <CaretDown size={14} />}
+            </Button>
+          </div>
+        </div>
+
+        <Progress value={(finished / jobs.length) * 100} className="h-2" />
+
+        {expanded && (
+          <ScrollArea className="h-64">
+            <div className="space-y-1 pr-3">
+              {jobs.map(job => (
+                <div key={job.id} className="flex items-center justify-between gap-2 text-sm py-1 border-b border-border last:border-0">
+                  <div className="min-w-0 flex-1">
+                    <span className="font-medium">{JOB_TYPE_LABELS[job.type]}</span>
+                    <span className="text-muted-foreground ml-2 truncate">{job.label}</span>
+                    {job.error && (job.status === 'failed' || job.status === 'retrying') && (
+                      <p className="text-xs text-destructive truncate" title={job.error}>{job.error}</p>
+                    )}
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[job.status]}>{describeStatus(job)}</Badge>
+                  {isJobActive(job) ? (
+                    <Button size="sm" variant="ghost" onClick={() => queue.cancel(job.id)} title="Cancel">
+                      <X size={14} />
+                    </Button>
+                  ) : (job.status === 'failed' || job.status === 'cancelled') ? (
+                    <Button size="sm" variant="ghost" onClick={() => queue.retry(job.id)} title="Retry">
+                      <ArrowClockwise size={14} />
+                    </Button>
+                  ) : (
+                    <span className="w-9" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </Card>
+  );
+}
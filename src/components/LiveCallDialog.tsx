@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RecordIcon, Stop, CheckCircle, Circle, Warning, FloppyDisk, CircleNotch } from '@phosphor-icons/react';
+import { LLMCaller } from '@/llmCaller';
+import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
+import { BrowserConfigManager, isLLMConfigured, toLLMConfig } from '@/services/browser-config-manager';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { transcriptionService } from '@/services/transcription';
+import { getEvaluationCriteriaForSchema } from '@/services/azure-openai';
+import {
+  FileReplayAudioSource,
+  LiveAudioSource,
+  LiveAudioSourceKind,
+  MicrophoneAudioSource,
+  WebSocketAudioSource,
+} from '@/services/live-audio-sources';
+import { LiveSessionState, LiveTranscriptionSession } from '@/services/live-transcription';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface LiveCallDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schema: SchemaDefinition;
+  onSave: (call: CallRecord) => void;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${String(Math.floor(totalSeconds / 60)).padStart(2, '0')}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Live call: streams audio into the transcript, ticks off "Must Do" rules as they are
+ * met and flags "Must Not Do" rules the moment they are broken
+ */
+export function LiveCallDialog({ open, onOpenChange, schema, onSave }: LiveCallDialogProps) {
+  const [sourceKind, setSourceKind] = useState<LiveAudioSourceKind>('microphone');
+  const [socketUrl, setSocketUrl] = useState('');
+  const [socketEncoding, setSocketEncoding] = useState<'pcm16' | 'container'>('pcm16');
+  const [socketSampleRate, setSocketSampleRate] = useState('16000');
+  const [replayFile, setReplayFile] = useState<File | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState('1');
+  const [metadata, setMetadata] = useState<Record<string, string>>({});
+  const [session, setSession] = useState<LiveTranscriptionSession | null>(null);
+  const [state, setState] = useState<LiveSessionState | null>(null);
+  const [starting, setStarting] = useState(false);
+  const sessionRef = useRef<LiveTranscriptionSession | null>(null);
+
+  // Participants are filled in by hand; everything else can be edited after saving
+  const participantFields = useMemo(
+    () => schema.fields.filter(f => f.semanticRole === 'participant_1' || f.semanticRole === 'participant_2'),
+    [schema]
+  );
+
+  useEffect(() => {
+    if (!session) return;
+    setState(session.getState());
+    return session.subscribe(setState);
+  }, [session]);
+
+  // Never leave the microphone or socket open when the dialog goes away
+  useEffect(() => {
+    return () => {
+      void sessionRef.current?.stop();
+    };
+  }, []);
+
+  const buildSource = (): LiveAudioSource | null => {
+    if (sourceKind === 'microphone') {
+      return new MicrophoneAudioSource();
+    }
+    if (sourceKind === 'websocket') {
+      if (!/^wss?:\/\//.test(socketUrl.trim())) {
+        toast.error('Enter a ws:// or wss:// URL');
+        return null;
+      }
+      return new WebSocketAudioSource({
+        url: socketUrl.trim(),
+        encoding: socketEncoding,
+        sampleRate: Number(socketSampleRate) || 16000,
+      });
+    }
+    if (!replayFile) {
+      toast.error('Choose a recording to replay');
+      return null;
+    }
+    return new FileReplayAudioSource(replayFile, { speed: Number(replaySpeed) });
+  };
+
+  const handleStart = async () => {
+    if (!transcriptionService.isConfigured()) {
+      toast.error('Please configure Azure Speech services first');
+      return;
+    }
+    const source = buildSource();
+    if (!source) return;
+
+    setStarting(true);
+    try {
+      // The model-based rule check is optional - without it only example phrases are matched
+      let llmCaller: LLMCaller | undefined;
+      const azureConfig = loadAzureConfigFromCookie();
+      if (azureConfig?.openAI && isLLMConfigured(azureConfig.openAI)) {
+        llmCaller = new LLMCaller(new BrowserConfigManager({
+          ...toLLMConfig(azureConfig.openAI),
+          apiVersion: azureConfig.openAI.apiVersion || '2024-12-01-preview',
+          authType: azureConfig.openAI.authType || 'apiKey',
+          reasoningEffort: 'low',
+        }));
+      }
+
+      const liveSession = new LiveTranscriptionSession({
+        schema,
+        criteria: getEvaluationCriteriaForSchema(schema.id),
+        source,
+        transcribe: (segment) => transcriptionService.transcribeSegment(segment, { usage: { schemaId: schema.id } }),
+        llmCaller,
+      });
+      sessionRef.current = liveSession;
+      setSession(liveSession);
+      await liveSession.start();
+    } catch (error) {
+      console.error('Live session error:', error);
+      toast.error(`Could not start live session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      handleReset();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleStop = async () => {
+    await session?.stop();
+  };
+
+  const handleSave = () => {
+    if (!session) return;
+    const values: Record<string, any> = { ...metadata };
+    const now = new Date().toISOString();
+    schema.fields
+      .filter(f => f.semanticRole === 'timestamp' && values[f.id] === undefined)
+      .forEach(f => {
+        values[f.id] = f.type === 'date' ? now.split('T')[0] : now;
+      });
+
+    onSave(session.toCallRecord(values));
+    toast.success('Live call saved - evaluate it from the calls table');
+    handleReset();
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    sessionRef.current = null;
+    setSession(null);
+    setState(null);
+    setMetadata({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && state && (state.status === 'live' || state.status === 'stopping')) {
+      toast.error('Stop the live session first');
+      return;
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const isLive = state?.status === 'live';
+  const isStopped = state?.status === 'stopped';
+  const mustDo = state?.checklist.filter(item => item.type === 'Must Do') ?? [];
+  const mustNotDo = state?.checklist.filter(item => item.type === 'Must Not Do') ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            Live Call
+            {isLive && <Badge variant="destructive" className="animate-pulse">LIVE {formatClock(state!.elapsedMilliseconds)}</Badge>}
+            {state?.status === 'stopping' && <Badge variant="secondary">Finishing…</Badge>}
+            {isStopped && <Badge variant="outline">Stopped</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            Transcribes as the call happens and checks it against the {schema.name} rules
+          </DialogDescription>
+        </DialogHeader>
+
+        {!session ? (
+          <div className="space-y-4 overflow-y-auto">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Audio source</Label>
+                <Select value={sourceKind} onValueChange={(v) => setSourceKind(v as LiveAudioSourceKind)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="microphone">Microphone</SelectItem>
+                    <SelectItem value="websocket">WebSocket stream</SelectItem>
+                    <SelectItem value="file-replay">Replay a recording</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {sourceKind === 'websocket' && (
+                <div className="space-y-2">
+                  <Label htmlFor="live-socket-url">Stream URL</Label>
+                  <Input
+                    id="live-socket-url"
+                    value={socketUrl}
+                    onChange={(e) => setSocketUrl(e.target.value)}
+                    placeholder="wss://media-gateway.example.com/calls/123"
+                  />
+                </div>
+              )}
+
+              {sourceKind === 'file-replay' && (
+                <div className="space-y-2">
+                  <Label htmlFor="live-replay-file">Recording</Label>
+                  <Input
+                    id="live-replay-file"
+                    type="file"
+                    accept="audio/*"
+                    onChange={(e) => setReplayFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {sourceKind === 'websocket' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Message format</Label>
+                  <Select value={socketEncoding} onValueChange={(v) => setSocketEncoding(v as 'pcm16' | 'container')}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pcm16">Raw 16-bit PCM frames</SelectItem>
+                      <SelectItem value="container">Complete audio files</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {socketEncoding === 'pcm16' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="live-sample-rate">Sample rate (Hz)</Label>
+                    <Input
+                      id="live-sample-rate"
+                      type="number"
+                      value={socketSampleRate}
+                      onChange={(e) => setSocketSampleRate(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {sourceKind === 'file-replay' && (
+              <div className="space-y-2 w-1/2">
+                <Label>Replay speed</Label>
+                <Select value={replaySpeed} onValueChange={setReplaySpeed}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">Real time</SelectItem>
+                    <SelectItem value="2">2×</SelectItem>
+                    <SelectItem value="4">4×</SelectItem>
+                    <SelectItem value="0">All at once</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {participantFields.length > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                {participantFields.map(field => (
+                  <div key={field.id} className="space-y-2">
+                    <Label htmlFor={`live-${field.id}`}>{field.displayName}</Label>
+                    <Input
+                      id={`live-${field.id}`}
+                      value={metadata[field.id] ?? ''}
+                      onChange={(e) => setMetadata(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button onClick={handleStart} disabled={starting}>
+              {starting ? <CircleNotch className="mr-2 animate-spin" size={18} /> : <RecordIcon className="mr-2" size={18} weight="fill" />}
+              Start Live Session
+            </Button>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-3 gap-4">
+            <Card className="col-span-2 p-4 overflow-y-auto space-y-2">
+              {state?.phrases.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {isLive ? 'Listening… the first lines appear after a few seconds.' : 'No speech was recognised.'}
+                </p>
+              )}
+              {state?.phrases.map((phrase, index) => (
+                <div key={index} className="text-sm">
+                  <span className="text-xs text-muted-foreground mr-2">{formatClock(phrase.offsetMilliseconds)}</span>
+                  {typeof phrase.speaker === 'number' && (
+                    <span className="font-medium mr-1">Speaker {phrase.speaker}:</span>
+                  )}
+                  {phrase.text}
+                </div>
+              ))}
+              {(state?.pendingSegments ?? 0) > 0 && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <CircleNotch size={12} className="animate-spin" /> Transcribing…
+                </p>
+              )}
+              {(state?.segmentErrors ?? 0) > 0 && (
+                <p className="text-xs text-amber-600">
+                  {state!.segmentErrors} segment(s) could not be transcribed: {state!.error}
+                </p>
+              )}
+            </Card>
+
+            <div className="space-y-4 overflow-y-auto">
+              {(state?.alerts.length ?? 0) > 0 && (
+                <Card className="p-3 space-y-2 border-red-500 bg-red-50 dark:bg-red-950/20">
+                  {state!.alerts.map(alert => (
+                    <div key={alert.id} className="text-sm">
+                      <div className="flex items-center gap-1 font-medium text-red-700 dark:text-red-300">
+                        <Warning size={16} weight="fill" />
+                        {alert.criterionName}
+                      </div>
+                      <p className="text-xs italic">"{alert.quote}"</p>
+                    </div>
+                  ))}
+                </Card>
+              )}
+
+              <Card className="p-3 space-y-2">
+                <h4 className="text-sm font-semibold">Must Do</h4>
+                {mustDo.map(item => (
+                  <div key={item.criterionId} className="flex items-start gap-2 text-sm" title={item.evidence}>
+                    {item.status === 'satisfied'
+                      ? <CheckCircle size={18} className="text-green-600 flex-shrink-0" weight="fill" />
+                      : <Circle size={18} className="text-muted-foreground flex-shrink-0" />}
+                    <span className={cn(item.status === 'satisfied' && 'text-muted-foreground')}>{item.name}</span>
+                  </div>
+                ))}
+                {mustNotDo.length > 0 && (
+                  <>
+                    <h4 className="text-sm font-semibold pt-2">Must Not Do</h4>
+                    {mustNotDo.map(item => (
+                      <div key={item.criterionId} className="flex items-start gap-2 text-sm">
+                        {item.status === 'violated'
+                          ? <Warning size={18} className="text-red-600 flex-shrink-0" weight="fill" />
+                          : <CheckCircle size={18} className="text-muted-foreground flex-shrink-0" />}
+                        <span>{item.name}</span>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </Card>
+
+              {isLive && (
+                <Button onClick={handleStop} variant="destructive" className="w-full">
+                  <Stop className="mr-2" size={18} weight="fill" />
+                  Stop
+                </Button>
+              )}
+              {isStopped && (
+                <div className="space-y-2">
+                  <Button onClick={handleSave} className="w-full" disabled={state!.phrases.length === 0}>
+                    <FloppyDisk className="mr-2" size={18} />
+                    Save Call
+                  </Button>
+                  <Button onClick={handleReset} variant="outline" className="w-full">
+                    Discard
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
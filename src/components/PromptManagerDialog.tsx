@@ -0,0 +1,543 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileText, PushPin, FloppyDisk, Play, Trophy, CircleNotch, Star } from '@phosphor-icons/react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { loadPromptTemplate } from '@/lib/prompt-loader';
+import { getAgentNameFromCall } from '@/lib/analytics';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { GoldenCall, PromptComparisonReport, PromptVariant, PromptVersion } from '@/types/prompt-registry';
+import { azureOpenAIService, getEvaluationCriteriaForSchema, AzureOpenAIService } from '@/services/azure-openai';
+import {
+  EVALUATION_PROMPT_VARIABLES,
+  createPromptVersion,
+  getBuiltInPromptName,
+  labelGoldenCall,
+  loadComparisonReports,
+  loadGoldenSet,
+  loadPromptVersions,
+  pinPromptVersion,
+  promoteVariant,
+  removeGoldenCall,
+  runPromptComparison,
+  validatePromptTemplate,
+} from '@/services/prompt-registry';
+import { toast } from 'sonner';
+
+interface PromptManagerDialogProps {
+  activeSchema?: SchemaDefinition | null;
+}
+
+const BUILT_IN = 'built-in';
+
+interface VariantDraft {
+  promptVersionId: string;         // Version ID or BUILT_IN
+  deploymentName: string;          // Empty = configured deployment
+}
+
+function describeVariant(variant: PromptVariant, versions: PromptVersion[]): string {
+  const version = versions.find(v => v.id === variant.promptVersionId);
+  const prompt = version ? `Prompt v${version.version}` : 'Built-in prompt';
+  return variant.deploymentName ? `${prompt} · ${variant.deploymentName}` : prompt;
+}
+
+function formatDelta(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+/**
+ * Evaluation prompt registry: versioned prompts per schema, the golden set of
+ * human-labeled calls and A/B comparisons that decide which version to pin
+ */
+export function PromptManagerDialog({ activeSchema }: PromptManagerDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [allCalls] = useLocalStorage<CallRecord[]>('calls', []);
+  const [labeler, setLabeler] = useLocalStorage<string>('qa-reviewer-name', '');
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [goldenSet, setGoldenSet] = useState<GoldenCall[]>([]);
+  const [reports, setReports] = useState<PromptComparisonReport[]>([]);
+  const [builtInTemplate, setBuiltInTemplate] = useState('');
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN);
+  const [draft, setDraft] = useState('');
+  const [notes, setNotes] = useState('');
+  const [variantA, setVariantA] = useState<VariantDraft>({ promptVersionId: BUILT_IN, deploymentName: '' });
+  const [variantB, setVariantB] = useState<VariantDraft>({ promptVersionId: BUILT_IN, deploymentName: '' });
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [reportId, setReportId] = useState<string | null>(null);
+
+  const schemaId = activeSchema?.id;
+  const criteria = useMemo(() => (schemaId ? getEvaluationCriteriaForSchema(schemaId) : []), [schemaId, open]);
+  const evaluatedCalls = useMemo(
+    () => allCalls.filter(c => c.schemaId === schemaId && c.evaluation && c.transcript),
+    [allCalls, schemaId]
+  );
+  const pinned = versions.find(v => v.pinned);
+  const validation = useMemo(() => validatePromptTemplate(draft), [draft]);
+  const selectedVersion = versions.find(v => v.id === selectedId);
+  const report = reports.find(r => r.id === reportId) ?? reports[0];
+
+  const refresh = () => {
+    if (!schemaId) return;
+    setVersions(loadPromptVersions(schemaId));
+    setGoldenSet(loadGoldenSet(schemaId));
+    setReports(loadComparisonReports(schemaId));
+  };
+
+  useEffect(() => {
+    if (!open || !activeSchema) return;
+    refresh();
+    const current = loadPromptVersions(activeSchema.id).find(v => v.pinned);
+    setSelectedId(current?.id ?? BUILT_IN);
+    setNotes('');
+    loadPromptTemplate(getBuiltInPromptName(activeSchema))
+      .then(template => {
+        setBuiltInTemplate(template);
+        if (!current) setDraft(template);
+      })
+      .catch(() => toast.error('Could not load the built-in evaluation prompt'));
+    if (current) setDraft(current.template);
+  }, [open, activeSchema]);
+
+  const selectVersion = (id: string) => {
+    setSelectedId(id);
+    setDraft(id === BUILT_IN ? builtInTemplate : versions.find(v => v.id === id)?.template ?? '');
+    setNotes('');
+  };
+
+  const handleSaveVersion = () => {
+    if (!schemaId) return;
+    try {
+      const version = createPromptVersion(schemaId, { template: draft, notes, author: labeler });
+      refresh();
+      setSelectedId(version.id);
+      toast.success(`Saved prompt v${version.version}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the prompt');
+    }
+  };
+
+  const handlePin = (versionId: string | null) => {
+    if (!schemaId) return;
+    pinPromptVersion(schemaId, versionId);
+    refresh();
+    toast.success(versionId ? 'New evaluations will use this prompt' : 'New evaluations will use the built-in prompt');
+  };
+
+  const handleLabel = (call: CallRecord) => {
+    if (!schemaId) return;
+    if (!labeler.trim()) {
+      toast.error('Enter your name before labeling calls');
+      return;
+    }
+    labelGoldenCall(schemaId, call, criteria, labeler);
+    refresh();
+  };
+
+  const handleRemoveGolden = (callId: string) => {
+    if (!schemaId) return;
+    removeGoldenCall(schemaId, callId);
+    refresh();
+  };
+
+  const handleRun = async () => {
+    if (!activeSchema) return;
+    const toVariant = (label: string, draft: VariantDraft): PromptVariant => ({
+      label,
+      promptVersionId: draft.promptVersionId === BUILT_IN ? undefined : draft.promptVersionId,
+      deploymentName: draft.deploymentName.trim() || undefined,
+    });
+    const variants: [PromptVariant, PromptVariant] = [toVariant('A', variantA), toVariant('B', variantB)];
+    const services = new Map<string, AzureOpenAIService>(
+      variants.map(v => [v.label, v.deploymentName ? azureOpenAIService.withDeployment(v.deploymentName) : azureOpenAIService])
+    );
+
+    setRunning(true);
+    setProgress(0);
+    try {
+      const result = await runPromptComparison({
+        schemaId: activeSchema.id,
+        criteria,
+        calls: evaluatedCalls,
+        goldenSet,
+        variants,
+        evaluate: (call, variant) =>
+          services.get(variant.label)!.evaluateCall(call.transcript!, call.metadata, activeSchema, call.id, {
+            promptVersion: versions.find(v => v.id === variant.promptVersionId) ?? null,
+          }),
+        onProgress: (done, total) => setProgress((done / total) * 100),
+      });
+      refresh();
+      setReportId(result.id);
+      if (result.failedCount > 0) {
+        toast.warning(`${result.failedCount} golden call(s) failed to evaluate and were left out`);
+      } else {
+        toast.success(`Compared ${result.callCount} golden calls`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Comparison failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handlePromote = (variant: PromptVariant) => {
+    if (!schemaId) return;
+    promoteVariant(schemaId, variant);
+    refresh();
+    toast.success(`${describeVariant({ ...variant, deploymentName: undefined }, versions)} is now pinned`);
+    if (variant.deploymentName) {
+      toast.info(`Switch the model deployment to ${variant.deploymentName} in Azure Services to use it for all evaluations`);
+    }
+  };
+
+  const renderVariantPicker = (label: string, value: VariantDraft, onChange: (value: VariantDraft) => void) => (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Variant {label}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label>Prompt</Label>
+          <Select value={value.promptVersionId} onValueChange={(id) => onChange({ ...value, promptVersionId: id })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BUILT_IN}>Built-in prompt</SelectItem>
+              {versions.map(v => (
+                <SelectItem key={v.id} value={v.id}>
+                  Prompt v{v.version}{v.pinned ? ' (pinned)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`variant-${label}-deployment`}>Model deployment</Label>
+          <Input
+            id={`variant-${label}-deployment`}
+            value={value.deploymentName}
+            onChange={(e) => onChange({ ...value, deploymentName: e.target.value })}
+            placeholder="Configured deployment"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  if (!activeSchema) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileText className="mr-2" size={18} />
+          Prompts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Evaluation Prompts</DialogTitle>
+          <DialogDescription>
+            Version the evaluation prompt for {activeSchema.name}, label a golden set of calls and compare
+            prompts or models against it before pinning a change.
+            <span className="block mt-1 text-xs">
+              In use: {pinned ? `prompt v${pinned.version}` : 'built-in prompt'}
+            </span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="versions" className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="grid w-full max-w-md grid-cols-3">
+            <TabsTrigger value="versions">Versions</TabsTrigger>
+            <TabsTrigger value="golden">Golden Set ({goldenSet.length})</TabsTrigger>
+            <TabsTrigger value="compare">Compare</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="versions" className="flex-1 overflow-hidden">
+            <div className="grid grid-cols-[220px_1fr] gap-4 h-full">
+              <ScrollArea className="h-[60vh] pr-2">
+                <div className="space-y-1">
+                  {[BUILT_IN, ...versions.map(v => v.id).reverse()].map(id => {
+                    const version = versions.find(v => v.id === id);
+                    const isPinned = version ? version.pinned : !pinned;
+                    return (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() => selectVersion(id)}
+                        className={`w-full text-left rounded-md border px-3 py-2 text-sm ${selectedId === id ? 'border-primary bg-primary/5' : 'hover:bg-muted'}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{version ? `v${version.version}` : 'Built-in'}</span>
+                          {isPinned && <Badge className="text-[10px]">In use</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {version ? version.notes || new Date(version.createdAt).toLocaleDateString() : getBuiltInPromptName(activeSchema)}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+
+              <div className="space-y-3 overflow-y-auto pr-1">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="font-mono text-xs min-h-[320px]"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {validation.variables.map(v => (
+                    <Badge key={v} variant={v in EVALUATION_PROMPT_VARIABLES ? 'secondary' : 'destructive'}>{`{{${v}}}`}</Badge>
+                  ))}
+                  {validation.missingVariables.map(v => (
+                    <Badge key={v} variant="outline" className="border-destructive text-destructive">missing {`{{${v}}}`}</Badge>
+                  ))}
+                </div>
+                {validation.unknownVariables.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    The evaluation does not provide: {validation.unknownVariables.join(', ')}. Available:{' '}
+                    {Object.keys(EVALUATION_PROMPT_VARIABLES).join(', ')}
+                  </p>
+                )}
+                <div className="grid grid-cols-[1fr_auto] gap-3 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="prompt-notes">Change notes</Label>
+                    <Input
+                      id="prompt-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="What changed and why"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={handleSaveVersion} disabled={!validation.valid}>
+                      <FloppyDisk className="mr-2" size={16} />
+                      Save as New Version
+                    </Button>
+                    <Button
+                      onClick={() => handlePin(selectedVersion?.id ?? null)}
+                      disabled={(selectedVersion ? selectedVersion.pinned : !pinned) || (!!selectedVersion && draft !== selectedVersion.template)}
+                    >
+                      <PushPin className="mr-2" size={16} />
+                      {selectedVersion ? `Pin v${selectedVersion.version}` : 'Use Built-in'}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="golden" className="flex-1 overflow-hidden flex flex-col gap-3">
+            <div className="flex items-end gap-3">
+              <div className="space-y-2 w-64">
+                <Label htmlFor="golden-labeler">Labeled by</Label>
+                <Input id="golden-labeler" value={labeler} onChange={(e) => setLabeler(e.target.value)} placeholder="Your name" />
+              </div>
+              <p className="text-xs text-muted-foreground flex-1">
+                Review a call's verdicts in its Evaluation tab first. Adding it to the golden set stores its current
+                verdicts, including your overrides, as the expected answer.
+              </p>
+            </div>
+            <ScrollArea className="h-[55vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Call</TableHead>
+                    <TableHead>Agent</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="text-right">Reviewed criteria</TableHead>
+                    <TableHead>Golden label</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {evaluatedCalls.map(call => {
+                    const golden = goldenSet.find(g => g.callId === call.id);
+                    const reviewed = call.evaluation!.results.filter(r => r.humanReview).length;
+                    return (
+                      <TableRow key={call.id}>
+                        <TableCell className="font-mono text-xs">{call.id.slice(0, 8)}</TableCell>
+                        <TableCell>{getAgentNameFromCall(call)}</TableCell>
+                        <TableCell className="text-right">{call.evaluation!.percentage}%</TableCell>
+                        <TableCell className="text-right">{reviewed}</TableCell>
+                        <TableCell className="text-xs">
+                          {golden ? (
+                            <span className="flex items-center gap-1">
+                              <Star size={14} weight="fill" className="text-amber-500" />
+                              {golden.percentage}% · {golden.labeledBy} · {new Date(golden.labeledAt).toLocaleDateString()}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">Not in golden set</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => handleLabel(call)}>
+                            {golden ? 'Relabel' : 'Add'}
+                          </Button>
+                          {golden && (
+                            <Button size="sm" variant="ghost" onClick={() => handleRemoveGolden(call.id)}>
+                              Remove
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              {evaluatedCalls.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No evaluated calls for this schema yet.
+                </p>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="compare" className="flex-1 overflow-y-auto space-y-4 pr-1">
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+              {renderVariantPicker('A', variantA, setVariantA)}
+              {renderVariantPicker('B', variantB, setVariantB)}
+              <div className="space-y-2 pb-6">
+                <Button onClick={handleRun} disabled={running || goldenSet.length === 0}>
+                  {running ? <CircleNotch className="mr-2 animate-spin" size={16} /> : <Play className="mr-2" size={16} />}
+                  Run on {goldenSet.length} golden calls
+                </Button>
+                {running && <Progress value={progress} className="h-2" />}
+              </div>
+            </div>
+
+            {reports.length > 0 && report && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-base">
+                        A: {describeVariant(report.variants[0], versions)} vs B: {describeVariant(report.variants[1], versions)}
+                      </CardTitle>
+                      <CardDescription>
+                        {new Date(report.runAt).toLocaleString()} · {report.callCount} calls
+                        {report.failedCount > 0 && ` · ${report.failedCount} failed`}
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Select value={report.id} onValueChange={setReportId}>
+                        <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {reports.map(r => (
+                            <SelectItem key={r.id} value={r.id}>{new Date(r.runAt).toLocaleString()}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {report.variants.map(variant => (
+                        <Button key={variant.label} size="sm" variant="outline" onClick={() => handlePromote(variant)}>
+                          <Trophy className="mr-2" size={16} />
+                          Promote {variant.label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-4 gap-3 text-sm">
+                    <div className="rounded-md border p-3">
+                      <p className="text-muted-foreground text-xs">Agreement with labels</p>
+                      <p className="font-semibold">A {report.agreementA}% · B {report.agreementB}%</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-muted-foreground text-xs">A ↔ B agreement</p>
+                      <p className="font-semibold">{report.variantAgreement}%</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-muted-foreground text-xs">Mean score delta (B − A)</p>
+                      <p className="font-semibold">
+                        {formatDelta(report.meanScoreDelta)} pts
+                        {report.scoreDeltaInterval && (
+                          <span className="text-xs font-normal text-muted-foreground">
+                            {' '}(95% CI {formatDelta(report.scoreDeltaInterval.lower)} to {formatDelta(report.scoreDeltaInterval.upper)})
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <p className="text-muted-foreground text-xs">Mean score error vs labels</p>
+                      <p className="font-semibold">A {report.meanAbsErrorA} · B {report.meanAbsErrorB} pts</p>
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Criterion</TableHead>
+                        <TableHead className="text-right">Compared</TableHead>
+                        <TableHead className="text-right">Flip rate</TableHead>
+                        <TableHead className="text-right">A agreement</TableHead>
+                        <TableHead className="text-right">B agreement</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...report.criteria].sort((a, b) => b.flipRate - a.flipRate).map(row => (
+                        <TableRow key={row.criterionId}>
+                          <TableCell className="font-medium">{row.criterionName}</TableCell>
+                          <TableCell className="text-right">{row.compared}</TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={row.flipRate >= 20 ? 'destructive' : 'secondary'}>{row.flipRate}%</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{row.agreementA}%</TableCell>
+                          <TableCell className="text-right">{row.agreementB}%</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Call</TableHead>
+                        <TableHead className="text-right">Golden</TableHead>
+                        <TableHead className="text-right">A</TableHead>
+                        <TableHead className="text-right">B</TableHead>
+                        <TableHead className="text-right">Delta</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.calls.map(call => (
+                        <TableRow key={call.callId}>
+                          <TableCell className="font-mono text-xs">{call.callId.slice(0, 8)}</TableCell>
+                          <TableCell className="text-right">{call.goldenPercentage}%</TableCell>
+                          <TableCell className="text-right" title={call.a.error}>{call.a.error ? 'Failed' : `${call.a.percentage}%`}</TableCell>
+                          <TableCell className="text-right" title={call.b.error}>{call.b.error ? 'Failed' : `${call.b.percentage}%`}</TableCell>
+                          <TableCell className="text-right">
+                            {call.a.error || call.b.error ? '—' : formatDelta(call.b.percentage! - call.a.percentage!)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
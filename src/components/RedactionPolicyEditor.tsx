@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FloppyDisk, ShieldCheck } from '@phosphor-icons/react';
+import { SchemaDefinition, RedactionPolicy, RedactionVariant, PiiEntityType } from '@/types/schema';
+import { ALL_PII_ENTITY_TYPES, PII_ENTITY_LABELS, getRedactionPolicy, redactText } from '@/lib/pii-redaction';
+
+interface RedactionPolicyEditorProps {
+  schema: SchemaDefinition;
+  onSave: (policy: RedactionPolicy, sensitiveFieldIds: string[]) => void;
+}
+
+const SAMPLE_TEXT = 'My card is 4111 1111 1111 1111, you can reach me at (555) 123-4567 or jane@example.com. I was born on March 5, 1980.';
+
+/**
+ * Per-schema PII redaction policy: detectors, which variant evaluation and export use,
+ * and which metadata fields are sensitive
+ */
+export function RedactionPolicyEditor({ schema, onSave }: RedactionPolicyEditorProps) {
+  const [policy, setPolicy] = useState<RedactionPolicy>(() => getRedactionPolicy(schema));
+  const [sensitiveFieldIds, setSensitiveFieldIds] = useState<string[]>(
+    () => schema.fields.filter(f => f.sensitive).map(f => f.id)
+  );
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+
+  useEffect(() => {
+    setPolicy(getRedactionPolicy(schema));
+    setSensitiveFieldIds(schema.fields.filter(f => f.sensitive).map(f => f.id));
+  }, [schema]);
+
+  const toggleDetector = (type: PiiEntityType, checked: boolean) => {
+    setPolicy(prev => ({
+      ...prev,
+      detectors: checked ? [...prev.detectors, type] : prev.detectors.filter(d => d !== type),
+    }));
+  };
+
+  const toggleField = (fieldId: string, checked: boolean) => {
+    setSensitiveFieldIds(prev => (checked ? [...prev, fieldId] : prev.filter(id => id !== fieldId)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShieldCheck size={20} />
+            PII Redaction
+          </CardTitle>
+          <CardDescription>
+            Mask card numbers, IBANs, SSNs, phone numbers, emails and dates of birth before transcripts
+            reach the model or leave the app in exports
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="redaction-enabled">Enable redaction for {schema.name}</Label>
+            <Switch
+              id="redaction-enabled"
+              checked={policy.enabled}
+              onCheckedChange={(checked) => setPolicy({ ...policy, enabled: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Detectors</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALL_PII_ENTITY_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={policy.detectors.includes(type)}
+                    onCheckedChange={(checked) => toggleDetector(type, checked === true)}
+                    disabled={!policy.enabled}
+                  />
+                  {PII_ENTITY_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {(['evaluation', 'export'] as const).map(purpose => (
+              <div key={purpose} className="space-y-2">
+                <Label>{purpose === 'evaluation' ? 'AI evaluation uses' : 'Exports use'}</Label>
+                <Select
+                  value={policy[purpose]}
+                  onValueChange={(value: RedactionVariant) => setPolicy({ ...policy, [purpose]: value })}
+                  disabled={!policy.enabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="redacted">Redacted transcript</SelectItem>
+                    <SelectItem value="raw">Raw transcript</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sensitive metadata fields</Label>
+            <p className="text-xs text-muted-foreground">
+              Values of these fields are replaced with [REDACTED] in redacted prompts and exports
+            </p>
+            <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+              {schema.fields.map(field => (
+                <label key={field.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={sensitiveFieldIds.includes(field.id)}
+                    onCheckedChange={(checked) => toggleField(field.id, checked === true)}
+                  />
+                  {field.displayName}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="redaction-sample">Try it</Label>
+            <Textarea
+              id="redaction-sample"
+              value={sampleText}
+              onChange={(e) => setSampleText(e.target.value)}
+              rows={2}
+            />
+            <p className="text-sm bg-muted rounded-md p-2 font-mono">
+              {redactText(sampleText, policy.detectors)}
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => onSave(policy, sensitiveFieldIds)}>
+              <FloppyDisk className="mr-2 h-4 w-4" />
+              Save Policy
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
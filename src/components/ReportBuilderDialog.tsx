@@ -0,0 +1,421 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileHtml, Printer, FloppyDisk, Trash, ArrowUp, ArrowDown } from '@phosphor-icons/react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { ReportFrequency, ReportRange, ReportSectionId, ReportTemplate } from '@/types/report';
+import { applyCallFilters } from '@/lib/call-filters';
+import { getAgentNameFromCall } from '@/lib/analytics';
+import {
+  REPORT_SECTION_LABELS,
+  buildReportData,
+  deleteReportTemplate,
+  getDefaultReportTemplate,
+  getReportFileName,
+  getScheduledRange,
+  loadReportTemplates,
+  renderReportHtml,
+  saveReportTemplate,
+} from '@/services/report-builder';
+import { toast } from 'sonner';
+
+interface ReportBuilderDialogProps {
+  schema: SchemaDefinition | null;
+  agentName?: string;              // Open scoped to one agent (agent detail view)
+  triggerLabel?: string;
+}
+
+const TEAM_SCOPE = '__team__';
+const NO_SCHEDULE = 'none';
+
+/** Calls offered for hand-picked excerpts */
+const MAX_EXCERPT_CANDIDATES = 50;
+
+/**
+ * QA report builder: per-schema templates, team or agent scope, live preview,
+ * HTML download and print-to-PDF. Scheduled templates are rendered by the server.
+ */
+export function ReportBuilderDialog({ schema, agentName, triggerLabel = 'Reports' }: ReportBuilderDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [allCalls] = useLocalStorage<CallRecord[]>('calls', []);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [draft, setDraft] = useState<ReportTemplate | null>(null);
+  const [range, setRange] = useState<ReportRange>(() => getScheduledRange({ rangeDays: 7 }));
+  const [scope, setScope] = useState(agentName ?? TEAM_SCOPE);
+  const [pickedCallIds, setPickedCallIds] = useState<string[]>([]);
+  const previewRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    if (!open || !schema) return;
+    const saved = loadReportTemplates(schema.id);
+    const initial = saved[0] ?? getDefaultReportTemplate(schema.id);
+    setTemplates(saved);
+    setDraft(initial);
+    setRange(getScheduledRange(initial));
+    setScope(agentName ?? TEAM_SCOPE);
+    setPickedCallIds([]);
+    // Keyed on the ID: callers may pass a freshly loaded schema object on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, schema?.id, agentName]);
+
+  const rangeCalls = useMemo(() => {
+    if (!schema) return [];
+    return applyCallFilters(
+      (allCalls || []).filter(c => c.schemaId === schema.id),
+      { dateFrom: range.from, dateTo: range.to }
+    );
+  }, [allCalls, schema, range]);
+
+  const agents = useMemo(
+    () => [...new Set(rangeCalls.filter(c => c.evaluation).map(getAgentNameFromCall))].sort(),
+    [rangeCalls]
+  );
+
+  const scopeAgent = scope === TEAM_SCOPE ? undefined : scope;
+
+  const excerptCandidates = useMemo(() => rangeCalls
+    .filter(c => c.evaluation && (!scopeAgent || getAgentNameFromCall(c) === scopeAgent))
+    .sort((a, b) => a.evaluation!.percentage - b.evaluation!.percentage)
+    .slice(0, MAX_EXCERPT_CANDIDATES), [rangeCalls, scopeAgent]);
+
+  const html = useMemo(() => {
+    if (!open || !schema || !draft || draft.sections.length === 0) return '';
+    const data = buildReportData(allCalls || [], schema, draft, range, {
+      agentName: scopeAgent,
+      excerptCallIds: pickedCallIds.length > 0 ? pickedCallIds : undefined,
+    });
+    return renderReportHtml(data, draft);
+  }, [open, allCalls, schema, draft, range, scopeAgent, pickedCallIds]);
+
+  const updateDraft = (patch: Partial<ReportTemplate>) => {
+    setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const handleSelectTemplate = (id: string) => {
+    if (!schema) return;
+    const template = templates.find(t => t.id === id) ?? getDefaultReportTemplate(schema.id);
+    setDraft(template);
+    setRange(getScheduledRange(template));
+  };
+
+  const toggleSection = (id: ReportSectionId, enabled: boolean) => {
+    if (!draft) return;
+    updateDraft({
+      sections: enabled
+        ? (Object.keys(REPORT_SECTION_LABELS) as ReportSectionId[]).filter(s => s === id || draft.sections.includes(s))
+        : draft.sections.filter(s => s !== id),
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    if (!draft) return;
+    const sections = [...draft.sections];
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    updateDraft({ sections });
+  };
+
+  const handleSaveTemplate = () => {
+    if (!schema || !draft) return;
+    try {
+      const saved = saveReportTemplate(draft);
+      setTemplates(loadReportTemplates(schema.id));
+      setDraft(saved);
+      toast.success(`Report template "${saved.name}" saved`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save report template');
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!schema || !draft) return;
+    deleteReportTemplate(schema.id, draft.id);
+    const remaining = loadReportTemplates(schema.id);
+    setTemplates(remaining);
+    setDraft(remaining[0] ?? getDefaultReportTemplate(schema.id));
+    toast.success(`Report template "${draft.name}" deleted`);
+  };
+
+  const handleDownload = () => {
+    if (!draft || !html) return;
+    const blob = new Blob([html], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getReportFileName(draft, range, scopeAgent);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    // The browser print dialog offers "Save as PDF"
+    previewRef.current?.contentWindow?.print();
+  };
+
+  const togglePickedCall = (callId: string, picked: boolean) => {
+    setPickedCallIds(prev => (picked ? [...prev, callId] : prev.filter(id => id !== callId)));
+  };
+
+  const isSaved = !!draft && templates.some(t => t.id === draft.id);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!schema}>
+          <FileHtml className="mr-2" size={18} />
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-7xl h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>QA Report{agentName ? ` - ${agentName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Self-contained HTML report for a date range. Download it, print it to PDF, or give the template a
+            schedule so the server writes it to the report outbox.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft && (
+          <div className="flex-1 min-h-0 grid grid-cols-[340px_1fr] gap-4">
+            <ScrollArea className="pr-3">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Template</Label>
+                  <Select value={draft.id} onValueChange={handleSelectTemplate}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!templates.some(t => t.id === 'default') && (
+                        <SelectItem value="default">{getDefaultReportTemplate(draft.schemaId).name} (default)</SelectItem>
+                      )}
+                      {templates.map(t => (
+                        <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">From</Label>
+                    <Input type="date" value={range.from} onChange={(e) => setRange(r => ({ ...r, from: e.target.value }))} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">To</Label>
+                    <Input type="date" value={range.to} onChange={(e) => setRange(r => ({ ...r, to: e.target.value }))} />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Scope</Label>
+                  <Select value={scope} onValueChange={setScope}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TEAM_SCOPE}>Team report</SelectItem>
+                      {[...new Set([...(agentName ? [agentName] : []), ...agents])].map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Tabs defaultValue="template">
+                  <TabsList className="grid w-full grid-cols-3">
+                    <TabsTrigger value="template">Template</TabsTrigger>
+                    <TabsTrigger value="excerpts">Excerpts</TabsTrigger>
+                    <TabsTrigger value="schedule">Schedule</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="template" className="space-y-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Name</Label>
+                      <Input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Report title</Label>
+                      <Input value={draft.title} onChange={(e) => updateDraft({ title: e.target.value })} />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Days</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draft.rangeDays}
+                          onChange={(e) => updateDraft({ rangeDays: Math.max(1, Number(e.target.value) || 1) })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Top agents</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draft.leaderboardSize}
+                          onChange={(e) => updateDraft({ leaderboardSize: Math.max(1, Number(e.target.value) || 1) })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Excerpts</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={draft.excerptCount}
+                          onChange={(e) => updateDraft({ excerptCount: Math.max(0, Number(e.target.value) || 0) })}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-xs">Sections</Label>
+                      {draft.sections.map((id, index) => (
+                        <div key={id} className="flex items-center gap-2 text-sm">
+                          <Checkbox checked onCheckedChange={() => toggleSection(id, false)} />
+                          <span className="flex-1">{REPORT_SECTION_LABELS[id]}</span>
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => moveSection(index, -1)}>
+                            <ArrowUp size={14} />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => moveSection(index, 1)}>
+                            <ArrowDown size={14} />
+                          </Button>
+                        </div>
+                      ))}
+                      {(Object.keys(REPORT_SECTION_LABELS) as ReportSectionId[])
+                        .filter(id => !draft.sections.includes(id))
+                        .map(id => (
+                          <div key={id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Checkbox checked={false} onCheckedChange={() => toggleSection(id, true)} />
+                            <span>{REPORT_SECTION_LABELS[id]}</span>
+                          </div>
+                        ))}
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="excerpts" className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Pick calls to quote. With none picked, the {draft.excerptCount} lowest-scoring calls are used.
+                    </p>
+                    {excerptCandidates.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No evaluated calls in this range.</p>
+                    )}
+                    {excerptCandidates.map(call => (
+                      <label key={call.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={pickedCallIds.includes(call.id)}
+                          onCheckedChange={(checked) => togglePickedCall(call.id, checked === true)}
+                        />
+                        <span className="flex-1 truncate">{getAgentNameFromCall(call)} · {call.createdAt.split('T')[0]}</span>
+                        <span className="text-muted-foreground">{call.evaluation!.percentage}%</span>
+                      </label>
+                    ))}
+                  </TabsContent>
+
+                  <TabsContent value="schedule" className="space-y-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Frequency</Label>
+                      <Select
+                        value={draft.schedule?.frequency ?? NO_SCHEDULE}
+                        onValueChange={(value) => updateDraft({
+                          schedule: value === NO_SCHEDULE
+                            ? undefined
+                            : { perAgent: false, ...draft.schedule, frequency: value as ReportFrequency },
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SCHEDULE}>On demand only</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly (Mondays)</SelectItem>
+                          <SelectItem value="monthly">Monthly (1st)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {draft.schedule && (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Also one report per agent</Label>
+                          <Switch
+                            checked={draft.schedule.perAgent}
+                            onCheckedChange={(perAgent) => updateDraft({ schedule: { ...draft.schedule!, perAgent } })}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Each run covers the last {draft.rangeDays} day(s) up to yesterday.
+                          {draft.schedule.lastRunAt
+                            ? ` Last run ${new Date(draft.schedule.lastRunAt).toLocaleString()}.`
+                            : ' Not run yet.'}
+                          {' '}Runs require the server storage backend.
+                        </p>
+                      </>
+                    )}
+                  </TabsContent>
+                </Tabs>
+
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleSaveTemplate}>
+                    <FloppyDisk className="mr-2" size={16} />
+                    Save template
+                  </Button>
+                  {isSaved && (
+                    <Button size="sm" variant="outline" onClick={handleDeleteTemplate}>
+                      <Trash size={16} />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col min-h-0 gap-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Preview · {scopeAgent ? scopeAgent : 'Team'} · {range.from} – {range.to}
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handleDownload} disabled={!html}>
+                    <FileHtml className="mr-2" size={16} />
+                    Download HTML
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handlePrint} disabled={!html}>
+                    <Printer className="mr-2" size={16} />
+                    Print / PDF
+                  </Button>
+                </div>
+              </div>
+              {html ? (
+                <iframe
+                  ref={previewRef}
+                  title="Report preview"
+                  srcDoc={html}
+                  className="flex-1 w-full rounded-md border border-border bg-white"
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground py-8 text-center">Select at least one report section.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,18 +19,23 @@ import { Progress } from '@/components/ui/progress';
 import { Upload, Plus, Trash, PlayCircle, MinusCircle } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 import { EvaluationCriterion } from '@/types/call';
-import { SchemaDefinition } from '@/types/schema';
+import { SchemaDefinition, ScorecardSection } from '@/types/schema';
 import { EVALUATION_CRITERIA } from '@/lib/evaluation-criteria';
-import { loadRulesForSchema, saveRulesForSchema } from '@/services/rules-generator';
+import { loadRulesForSchema, saveRulesForSchema, getLatestRuleSetVersion, getRetiredRules } from '@/services/rules-generator';
+import { saveSchema } from '@/services/schema-manager';
+import { assignCriterionKeys } from '@/lib/criterion-keys';
+import { ScorecardSectionsEditor, RuleScorecardFields } from '@/components/ScorecardEditor';
 
 interface RulesEditorDialogProps {
   onRulesUpdate?: (rules: EvaluationCriterion[]) => void;
+  onSchemaUpdate?: (schema: SchemaDefinition) => void;
   activeSchema?: SchemaDefinition | null;
 }
 
-export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDialogProps) {
+export function RulesEditorDialog({ onRulesUpdate, onSchemaUpdate, activeSchema }: RulesEditorDialogProps) {
   const [open, setOpen] = useState(false);
   const [rules, setRules] = useState<EvaluationCriterion[]>(EVALUATION_CRITERIA);
+  const [sections, setSections] = useState<ScorecardSection[]>([]);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
 
   // Load schema-specific rules when dialog opens or schema changes
@@ -41,12 +46,16 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
         // Convert SchemaEvaluationRule to EvaluationCriterion format
         const criteriaRules: EvaluationCriterion[] = schemaRules.map(rule => ({
           id: typeof rule.id === 'number' ? rule.id : parseInt(rule.id) || 0,
+          key: rule.key,
           type: rule.type,
           name: rule.name,
           definition: rule.definition,
           evaluationCriteria: rule.evaluationCriteria,
           scoringStandard: rule.scoringStandard,
-          examples: rule.examples
+          examples: rule.examples,
+          section: rule.section,
+          critical: rule.critical,
+          allowNotApplicable: rule.allowNotApplicable,
         }));
         setRules(criteriaRules);
       } else {
@@ -56,6 +65,7 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
     } else {
       setRules([...EVALUATION_CRITERIA]);
     }
+    setSections(activeSchema?.scorecard?.sections ?? []);
   }, [activeSchema, open]);
 
   // Calculate scoring totals
@@ -167,15 +177,30 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
       id: index + 1,
     }));
     
-    // Save to schema-specific key if schema is available
-    if (activeSchema) {
-      saveRulesForSchema(activeSchema.id, rulesWithIds);
-    }
+    // Save to schema-specific key if schema is available (assigns stable keys to new rules)
+    const savedRules = activeSchema
+      ? saveRulesForSchema(activeSchema.id, rulesWithIds)
+      : assignCriterionKeys(rulesWithIds);
     
-    onRulesUpdate?.(rulesWithIds);
+    onRulesUpdate?.(savedRules);
+
+    // Scorecard sections live on the schema
+    if (activeSchema && JSON.stringify(sections) !== JSON.stringify(activeSchema.scorecard?.sections ?? [])) {
+      const updatedSchema: SchemaDefinition = {
+        ...activeSchema,
+        scorecard: sections.length > 0 ? { sections } : undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      const result = saveSchema(updatedSchema);
+      if (result.success) {
+        onSchemaUpdate?.(updatedSchema);
+      } else {
+        toast.error(`Failed to save scorecard sections: ${result.error}`);
+      }
+    }
     
     // Warn if scores don't total 100
-    const total = rulesWithIds.reduce((sum, r) => sum + r.scoringStandard.passed, 0);
+    const total = savedRules.reduce((sum, r) => sum + r.scoringStandard.passed, 0);
     if (total !== 100) {
       toast.warning(`Rules saved, but total points is ${total} (not 100). Use "Normalize to 100" to fix.`);
     } else {
@@ -241,7 +266,16 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
     setRules(newRules);
   };
 
+  const handleSectionsChange = (newSections: ScorecardSection[]) => {
+    // Rules in a removed section fall back to General
+    const ids = new Set(newSections.map(s => s.id));
+    setRules(rules.map(rule => (rule.section && !ids.has(rule.section) ? { ...rule, section: undefined } : rule)));
+    setSections(newSections);
+  };
+
   const selectedRule = selectedIndex !== null ? rules[selectedIndex] : null;
+  const ruleSetVersion = open && activeSchema ? getLatestRuleSetVersion(activeSchema.id) : undefined;
+  const retiredRules = open && activeSchema ? getRetiredRules(activeSchema.id) : [];
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -257,6 +291,12 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
           <DialogDescription>
             Customize the quality criteria used to evaluate calls. Changes will apply to
             new evaluations.
+            {ruleSetVersion && (
+              <span className="block mt-1 text-xs">
+                Rule set v{ruleSetVersion.version} saved {new Date(ruleSetVersion.createdAt).toLocaleString()}
+                {retiredRules.length > 0 && ` · ${retiredRules.length} retired criteria kept for history`}
+              </span>
+            )}
           </DialogDescription>
         </DialogHeader>
 
@@ -285,7 +325,13 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
           </Button>
         </div>
 
-        <div className="flex-1 overflow-hidden pt-2" style={{ height: 'calc(90vh - 260px)' }}>
+        {activeSchema && (
+          <div className="p-3 rounded-lg border">
+            <ScorecardSectionsEditor sections={sections} onChange={handleSectionsChange} />
+          </div>
+        )}
+
+        <div className="flex-1 overflow-hidden pt-2" style={{ height: `calc(90vh - ${activeSchema ? 330 : 260}px)` }}>
           <ResizablePanelGroup direction="horizontal" className="h-full gap-4">
             <ResizablePanel defaultSize={40} minSize={30}>
               <div className="h-full flex flex-col gap-3 pr-2 min-w-[360px]">
@@ -295,7 +341,7 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
                     <Plus size={16} />
                   </Button>
                 </div>
-                <div className="flex-1 border border-border rounded-lg overflow-y-scroll" style={{ maxHeight: 'calc(90vh - 340px)' }}>
+                <div className="flex-1 border border-border rounded-lg overflow-y-scroll" style={{ maxHeight: `calc(90vh - ${activeSchema ? 410 : 340}px)` }}>
                   <div className="p-2 space-y-2">
                     {rules.map((rule, index) => (
                       <Card
@@ -320,7 +366,18 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
                                 <span className="text-xs text-muted-foreground">
                                   {rule.scoringStandard.passed} pts
                                 </span>
+                                {rule.critical && (
+                                  <Badge variant="destructive" className="text-xs">Critical</Badge>
+                                )}
+                                {rule.allowNotApplicable && (
+                                  <Badge variant="outline" className="text-xs">N/A</Badge>
+                                )}
                               </div>
+                              {sections.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  {sections.find(s => s.id === rule.section)?.name ?? 'General'}
+                                </p>
+                              )}
                               <p className="text-sm font-medium break-words leading-tight">
                                 {rule.name}
                               </p>
@@ -366,9 +423,14 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
                   <ScrollArea className="h-full border border-border rounded-lg p-4 overflow-auto">
                     <div className="space-y-4">
                       <div className="flex items-start justify-between">
-                        <h3 className="text-lg font-semibold">
-                          Rule #{selectedIndex! + 1} Details
-                        </h3>
+                        <div>
+                          <h3 className="text-lg font-semibold">
+                            Rule #{selectedIndex! + 1} Details
+                          </h3>
+                          <p className="text-xs text-muted-foreground font-mono">
+                            {selectedRule.key ? `key: ${selectedRule.key}` : 'key assigned on save'}
+                          </p>
+                        </div>
                         <Button
                           size="sm"
                           variant="destructive"
@@ -490,6 +552,14 @@ export function RulesEditorDialog({ onRulesUpdate, activeSchema }: RulesEditorDi
                           </div>
                         </div>
 
+                        <RuleScorecardFields
+                          sections={sections}
+                          section={selectedRule.section}
+                          critical={selectedRule.critical}
+                          allowNotApplicable={selectedRule.allowNotApplicable}
+                          onChange={(updates) => handleUpdateRule(selectedIndex!, updates)}
+                        />
+
                         <div className="space-y-2">
                           <Label htmlFor="rule-examples">Examples (one per line)</Label>
                           <Textarea
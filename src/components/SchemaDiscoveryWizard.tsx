@@ -50,7 +50,7 @@ import { toast } from 'sonner';
 import { LLMCaller } from '@/llmCaller';
 import type { AzureOpenAIConfig } from '@/configManager';
 import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
-import { BrowserConfigManager } from '@/services/browser-config-manager';
+import { BrowserConfigManager, isLLMConfigured } from '@/services/browser-config-manager';
 
 interface SchemaDiscoveryWizardProps {
   open: boolean;
@@ -496,7 +496,7 @@ export function SchemaDiscoveryWizard({ open, onOpenChange, onSchemaCreated }: S
                         try {
                           // Load Azure OpenAI config from cookie (same as rest of app)
                           const azureServicesConfig = loadAzureConfigFromCookie();
-                          if (!azureServicesConfig?.openAI?.endpoint || !azureServicesConfig?.openAI?.apiKey || !azureServicesConfig?.openAI?.deploymentName) {
+                          if (!azureServicesConfig?.openAI || !isLLMConfigured(azureServicesConfig.openAI)) {
                             toast.error('Azure OpenAI not configured. Please configure in settings.');
                             setIsProcessing(false);
                             return;
@@ -511,7 +511,7 @@ Column names: ${columns.join(', ')}
 
 Provide only the business context description without any additional explanation or formatting.`;
 
-                          const response = await llmCaller.call([{ role: 'user', content: prompt }]);
+                          const response = await llmCaller.call([{ role: 'user', content: prompt }], { usage: { operation: 'schema-discovery' } });
 
                           if (response) {
                             setBusinessContext(response.trim());
@@ -694,7 +694,7 @@ Provide only the business context description without any additional explanation
                         setIsProcessing(true);
                         try {
                           const azureServicesConfig = loadAzureConfigFromCookie();
-                          if (!azureServicesConfig?.openAI?.endpoint || !azureServicesConfig?.openAI?.apiKey || !azureServicesConfig?.openAI?.deploymentName) {
+                          if (!azureServicesConfig?.openAI || !isLLMConfigured(azureServicesConfig.openAI)) {
                             toast.error('Azure OpenAI not configured');
                             setIsProcessing(false);
                             return;
@@ -769,7 +769,7 @@ Return JSON array:
 
                           const response = await llmCaller.callWithJsonValidation<FieldConfig[]>(
                             [{ role: 'user', content: prompt }],
-                            { useJsonMode: false, maxRetries: 2 }
+                            { useJsonMode: false, maxRetries: 2, usage: { operation: 'schema-discovery' } }
                           );
 
                           if (response.parsed && Array.isArray(response.parsed)) {
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -50,7 +50,7 @@ import {
   Lightbulb,
   ArrowCounterClockwise,
 } from '@phosphor-icons/react';
-import { SchemaDefinition, FieldDefinition, RelationshipDefinition, SemanticRole, FieldType, TopicDefinition, FieldDependency, DependencyOperator, InsightCategoryConfig, InsightOutputField } from '@/types/schema';
+import { SchemaDefinition, FieldDefinition, RelationshipDefinition, SemanticRole, FieldType, TopicDefinition, FieldDependency, DependencyOperator, InsightCategoryConfig, InsightOutputField, RedactionPolicy } from '@/types/schema';
 import {
   getAllSchemas,
   getSchemaById,
@@ -65,14 +65,16 @@ import { inferAllRelationships } from '@/services/relationship-inference';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { CallRecord } from '@/types/call';
 import { toast } from 'sonner';
-import { executeFormula } from '@/lib/formula-executor';
+import { executeFormula, checkFormula, migrateFormula, migrateSchemaFormulas } from '@/lib/formula-executor';
 import { TopicTaxonomyWizard } from '@/components/TopicTaxonomyWizard';
 import { SchemaTemplateSelector } from '@/components/SchemaTemplateSelector';
 import { AISchemaEnhancer } from '@/components/AISchemaEnhancer';
 import { SyntheticMetadataWizard } from '@/components/SyntheticMetadataWizard';
 import { InsightCategoriesManager } from '@/components/InsightCategoriesManager';
+import { RedactionPolicyEditor } from '@/components/RedactionPolicyEditor';
 import { SchemaTemplate, saveCustomTemplate, hasTemplateUpdate, getTemplateById } from '@/lib/schema-templates';
 import { SchemaEvaluationRule } from '@/types/schema';
+import { loadRulesForSchema, saveRulesForSchema } from '@/services/rules-generator';
 
 interface SchemaManagerDialogProps {
   trigger?: React.ReactNode;
@@ -154,6 +156,12 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
     callCount: number;
   } | null>(null);
 
+  // Relationships still written as JavaScript (before the formula language)
+  const legacyFormulaCount = useMemo(
+    () => (selectedSchema?.relationships || []).filter(rel => rel.formula && checkFormula(rel.formula, selectedSchema!).legacy).length,
+    [selectedSchema]
+  );
+
   useEffect(() => {
     if (open !== undefined) {
       setIsOpen(open);
@@ -278,58 +286,25 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
    * Recalculate formulas for all calls matching a schema
    * Used when relationships are added after CSV import
    */
-  // Helper to fix old formulas that use bare field names instead of metadata.fieldName
-  const fixFormulaFieldReferences = (formula: string, metadataKeys: string[]): string => {
-    let fixedFormula = formula;
-    
-    // Sort by length descending to replace longer field names first (avoid partial replacements)
-    const sortedKeys = [...metadataKeys].sort((a, b) => b.length - a.length);
-    
-    for (const key of sortedKeys) {
-      // Match bare field name that isn't already prefixed with "metadata."
-      // Negative lookbehind for "metadata." and word boundaries
-      const regex = new RegExp(`(?<!metadata\\.)\\b${key}\\b(?!\\s*:)`, 'g');
-      fixedFormula = fixedFormula.replace(regex, `metadata.${key}`);
-    }
-    
-    return fixedFormula;
-  };
-
   const recalculateCallMetadata = (schema: SchemaDefinition, callsToUpdate: CallRecord[]) => {
     const complexRelationships = schema.relationships.filter(
       rel => rel.type === 'complex' && rel.formula
     );
 
-    console.log('Recalculate: Found complex relationships:', complexRelationships.length);
-    console.log('Recalculate: Relationships:', complexRelationships.map(r => ({ id: r.id, formula: r.formula })));
-
     if (complexRelationships.length === 0) return callsToUpdate;
 
     const updatedCalls = callsToUpdate.map(call => {
       if (call.schemaId !== schema.id) return call;
 
       const updatedMetadata = { ...call.metadata };
-      const metadataKeys = Object.keys(updatedMetadata);
 
-      // Calculate each formula
+      // Calculate each formula (sandboxed formula language, legacy JavaScript formulas are still accepted)
       for (const rel of complexRelationships) {
-        try {
-          // Auto-fix old formulas that don't use metadata. prefix
-          let formula = rel.formula!;
-          if (!formula.includes('metadata.')) {
-            console.log(`Recalculate: Auto-fixing formula for ${rel.id}`);
-            formula = fixFormulaFieldReferences(formula, metadataKeys);
-            console.log(`Recalculate: Fixed formula:`, formula);
-          }
-          
-          console.log(`Recalculate: Executing formula for ${rel.id} with metadata:`, metadataKeys);
-          const result = executeFormula(formula, updatedMetadata);
-          console.log(`Recalculate: Result for ${rel.id}:`, result);
-          if (result.success) {
-            updatedMetadata[`calc_${rel.id}`] = result.result;
-          }
-        } catch (error) {
-          console.warn(`Failed to calculate formula for ${rel.id}:`, error);
+        const result = executeFormula(rel.formula!, updatedMetadata);
+        if (result.success) {
+          updatedMetadata[`calc_${rel.id}`] = result.result;
+        } else {
+          console.warn(`Failed to calculate formula for ${rel.id}: ${result.error}`);
         }
       }
 
@@ -422,6 +397,28 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
     }
   };
 
+  /**
+   * Rewrite legacy JavaScript formulas in the selected schema into the formula language
+   */
+  const handleMigrateFormulas = () => {
+    if (!selectedSchema) return;
+
+    const { schema: migratedSchema, migrated, failed } = migrateSchemaFormulas(selectedSchema);
+    if (migrated.length > 0) {
+      const updatedSchema = { ...migratedSchema, updatedAt: new Date().toISOString() };
+      saveSchema(updatedSchema);
+      setSelectedSchema(updatedSchema);
+      loadSchemas();
+      toast.success(`Migrated ${migrated.length} formula(s) to the formula language`);
+    }
+    if (failed.length > 0) {
+      toast.error(`${failed.length} formula(s) could not be migrated: ${failed.map(f => `${f.id} (${f.error})`).join('; ')}`);
+    }
+    if (migrated.length === 0 && failed.length === 0) {
+      toast.info('All formulas already use the formula language');
+    }
+  };
+
   const handleImportSchema = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -432,10 +429,14 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
 
       try {
         const text = await file.text();
-        const schema = JSON.parse(text);
+        const { schema, migrated } = migrateSchemaFormulas(JSON.parse(text));
         importSchema(schema);
         loadSchemas();
-        toast.success('Schema imported successfully');
+        toast.success(
+          migrated.length > 0
+            ? `Schema imported successfully (${migrated.length} legacy formula(s) migrated)`
+            : 'Schema imported successfully'
+        );
       } catch (error) {
         toast.error('Failed to import schema');
         console.error(error);
@@ -496,6 +497,26 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
     }
   };
 
+  const handleSaveRedactionPolicy = (policy: RedactionPolicy, sensitiveFieldIds: string[]) => {
+    if (!selectedSchema) return;
+
+    try {
+      const updatedSchema = {
+        ...selectedSchema,
+        redactionPolicy: policy,
+        fields: selectedSchema.fields.map(f => ({ ...f, sensitive: sensitiveFieldIds.includes(f.id) || undefined })),
+        updatedAt: new Date().toISOString(),
+      };
+      saveSchema(updatedSchema);
+      setSelectedSchema(updatedSchema);
+      loadSchemas();
+      toast.success('Redaction policy saved successfully');
+    } catch (error) {
+      toast.error('Failed to save redaction policy');
+      console.error(error);
+    }
+  };
+
   const handleApplyTemplate = (template: SchemaTemplate) => {
     if (!selectedSchema) return;
 
@@ -505,6 +526,8 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
         fields: template.schema.fields,
         relationships: template.schema.relationships || [],
         topicTaxonomy: template.schema.topicTaxonomy || [],
+        redactionPolicy: selectedSchema.redactionPolicy ?? template.schema.redactionPolicy,
+        scorecard: selectedSchema.scorecard ?? template.schema.scorecard,
         templateId: template.id,
         templateVersion: template.version,
         updatedAt: new Date().toISOString(),
@@ -568,12 +591,7 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
       
       // Save evaluation rules
       if (rules.length > 0) {
-        const rulesKey = `evaluation-criteria-${newSchema.id}`;
-        const rulesWithIds = rules.map((r, i) => ({
-          ...r,
-          id: `rule_${Date.now()}_${i}`,
-        }));
-        localStorage.setItem(rulesKey, JSON.stringify(rulesWithIds));
+        saveRulesForSchema(newSchema.id, rules.map((r, i) => ({ ...r, id: i + 1 })));
       }
       
       loadSchemas();
@@ -634,12 +652,7 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
 
     // Save evaluation rules
     if (rules.length > 0) {
-      const rulesKey = `evaluation-criteria-${selectedSchema.id}`;
-      const rulesWithIds = rules.map((r, i) => ({
-        ...r,
-        id: `rule_${Date.now()}_${i}`,
-      }));
-      localStorage.setItem(rulesKey, JSON.stringify(rulesWithIds));
+      saveRulesForSchema(selectedSchema.id, rules.map((r, i) => ({ ...r, id: i + 1 })));
     }
 
     setTemplateUpdate(null);
@@ -701,14 +714,12 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
 
       // Save evaluation rules separately if provided
       if (rules && rules.length > 0) {
-        const rulesKey = `evaluation-criteria-${selectedSchema.id}`;
-        const existingRules = localStorage.getItem(rulesKey);
-        const existingRulesList: SchemaEvaluationRule[] = existingRules ? JSON.parse(existingRules) : [];
+        const existingRulesList: SchemaEvaluationRule[] = loadRulesForSchema(selectedSchema.id) ?? [];
         const newRulesWithIds = rules.map((r, i) => ({
           ...r,
-          id: `rule_${Date.now()}_${i}`,
+          id: existingRulesList.length + i + 1,
         }));
-        localStorage.setItem(rulesKey, JSON.stringify([...existingRulesList, ...newRulesWithIds]));
+        saveRulesForSchema(selectedSchema.id, [...existingRulesList, ...newRulesWithIds]);
       }
 
       const addedCount = 
@@ -860,7 +871,7 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-8">
+            <TabsList className="grid w-full grid-cols-9">
               <TabsTrigger value="library">Library</TabsTrigger>
               <TabsTrigger value="templates">
                 <BookBookmark className="h-4 w-4 mr-1" />
@@ -873,6 +884,7 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
                 <Lightbulb className="h-4 w-4 mr-1" />
                 AI Insights
               </TabsTrigger>
+              <TabsTrigger value="privacy" disabled={!selectedSchema}>Privacy</TabsTrigger>
               <TabsTrigger value="versioning" disabled={!selectedSchema}>Versioning</TabsTrigger>
               <TabsTrigger value="export">Export/Import</TabsTrigger>
             </TabsList>
@@ -1140,6 +1152,7 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
                                   {field.showInTable && <span>✓ Table</span>}
                                   {field.useInPrompt && <span>✓ Prompt</span>}
                                   {field.enableAnalytics && <span>✓ Analytics</span>}
+                                  {field.sensitive && <span>🔒 Sensitive</span>}
                                 </div>
                               </div>
                               <div className="flex gap-1">
@@ -1203,6 +1216,16 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
                       {selectedSchema.relationships.length} relationship(s) in {selectedSchema.name}
                     </p>
                     <div className="flex gap-2">
+                      {legacyFormulaCount > 0 && (
+                        <Button
+                          onClick={handleMigrateFormulas}
+                          size="sm"
+                          variant="outline"
+                          title="Rewrite legacy JavaScript formulas in the formula language"
+                        >
+                          Migrate {legacyFormulaCount} Formula{legacyFormulaCount > 1 ? 's' : ''}
+                        </Button>
+                      )}
                       <Button
                         onClick={() => {
                           // Include calls that either match the schema or have no schemaId (legacy calls)
@@ -1279,11 +1302,22 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
                                   </Badge>
                                 </div>
                                 <p className="text-sm mb-2">{rel.description}</p>
-                                {rel.formula && (
-                                  <code className="text-xs bg-muted px-2 py-1 rounded">
-                                    {rel.formula}
-                                  </code>
-                                )}
+                                {rel.formula && (() => {
+                                  const check = checkFormula(rel.formula, selectedSchema);
+                                  return (
+                                    <div className="flex flex-wrap items-center gap-2">
+                                      <code className="text-xs bg-muted px-2 py-1 rounded">
+                                        {rel.formula}
+                                      </code>
+                                      {check.legacy && <Badge variant="outline">Legacy JS</Badge>}
+                                      {!check.valid && (
+                                        <Badge variant="destructive" title={check.errors.join('\n')}>
+                                          {check.errors.length} error{check.errors.length > 1 ? 's' : ''}
+                                        </Badge>
+                                      )}
+                                    </div>
+                                  );
+                                })()}
                                 <p className="text-xs text-muted-foreground mt-2">
                                   Fields: {rel.involvedFields.join(', ')}
                                 </p>
@@ -1342,6 +1376,16 @@ export function SchemaManagerDialog({ trigger, open, onOpenChange, activeSchemaI
               )}
             </TabsContent>
 
+            {/* Privacy Tab */}
+            <TabsContent value="privacy" className="space-y-4">
+              {selectedSchema && (
+                <RedactionPolicyEditor
+                  schema={selectedSchema}
+                  onSave={handleSaveRedactionPolicy}
+                />
+              )}
+            </TabsContent>
+
             {/* Versioning Tab */}
             <TabsContent value="versioning" className="space-y-4">
               {selectedSchema && (
@@ -1764,6 +1808,14 @@ function FieldEditorDialog({ field, schema, isNew, onSave, onCancel }: FieldEdit
                 onCheckedChange={(checked) => setFormData({ ...formData, enableAnalytics: checked })}
               />
             </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sensitive">Sensitive (PII)</Label>
+              <Switch
+                id="sensitive"
+                checked={formData.sensitive || false}
+                onCheckedChange={(checked) => setFormData({ ...formData, sensitive: checked })}
+              />
+            </div>
           </div>
 
           {/* Field Dependency Section */}
@@ -1947,6 +1999,14 @@ interface RelationshipEditorDialogProps {
 function RelationshipEditorDialog({ relationship, schema, isNew, onSave, onCancel }: RelationshipEditorDialogProps) {
   const [formData, setFormData] = useState(relationship);
 
+  // Static check against schema fields - runs on every keystroke, nothing is executed
+  const formulaCheck = useMemo(
+    () => formData.type === 'complex' && formData.formula?.trim()
+      ? checkFormula(formData.formula, { ...schema, relationships: schema.relationships.filter(r => r.id !== formData.id) })
+      : null,
+    [formData.type, formData.formula, formData.id, schema]
+  );
+
   return (
     <Dialog open onOpenChange={(open) => !open && onCancel()}>
       <DialogContent className="max-w-2xl">
@@ -2004,12 +2064,30 @@ function RelationshipEditorDialog({ relationship, schema, isNew, onSave, onCance
                   id="formula"
                   value={formData.formula || ''}
                   onChange={(e) => setFormData({ ...formData, formula: e.target.value })}
-                  placeholder="e.g., daysPastDue * dueAmount / 1000"
+                  placeholder='e.g., days_past_due * due_amount / 1000 or if(tier == "Gold", 30, 10)'
                   className="font-mono text-sm"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Use field names as variables. Only Math operations are allowed.
+                  Use field IDs as variables (`quoted` for names with spaces). Supports + - * / %, comparisons,
+                  and/or/not, condition ? a : b, and min, max, round, if, coalesce, case, oneof, datediff, today.
                 </p>
+                {formulaCheck?.errors.map(error => (
+                  <p key={error} className="text-xs text-destructive">{error}</p>
+                ))}
+                {formulaCheck?.legacy && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>This formula uses legacy JavaScript syntax.</span>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setFormData({ ...formData, formula: migrateFormula(formData.formula!).formula })}
+                    >
+                      Convert
+                    </Button>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -2133,7 +2211,7 @@ function RelationshipEditorDialog({ relationship, schema, isNew, onSave, onCance
             <Button variant="outline" onClick={onCancel}>
               Cancel
             </Button>
-            <Button onClick={() => onSave(formData)}>
+            <Button onClick={() => onSave(formData)} disabled={formulaCheck !== null && !formulaCheck.valid}>
               <FloppyDisk className="mr-2 h-4 w-4" />
               {isNew ? 'Add Relationship' : 'Save Changes'}
             </Button>
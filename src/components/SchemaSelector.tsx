@@ -19,6 +19,7 @@ interface SchemaSelectorProps {
   onSchemaChange: (schema: SchemaDefinition) => void;
   onManageSchemas?: () => void;
   onCreateSchema?: () => void;
+  canManage?: boolean;             // Show the schema manager and discovery buttons
 }
 
 /**
@@ -32,6 +33,7 @@ export function SchemaSelector({
   onSchemaChange,
   onManageSchemas,
   onCreateSchema,
+  canManage = true,
 }: SchemaSelectorProps) {
   const [schemas, setSchemas] = useState<SchemaDefinition[]>([]);
   const [loading, setLoading] = useState(true);
@@ -121,26 +123,30 @@ export function SchemaSelector({
         </Select>
       )}
 
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={() => {
-          setManagerOpen(true);
-          onManageSchemas?.();
-        }}
-      >
-        Schema Manager
-      </Button>
+      {canManage && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setManagerOpen(true);
+              onManageSchemas?.();
+            }}
+          >
+            Schema Manager
+          </Button>
 
-      <Button
-        variant="default"
-        size="icon"
-        onClick={() => setDiscoveryOpen(true)}
-        title="Discover schema from Excel file"
-        className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
-      >
-        <Sparkle className="h-4 w-4" />
-      </Button>
+          <Button
+            variant="default"
+            size="icon"
+            onClick={() => setDiscoveryOpen(true)}
+            title="Discover schema from Excel file"
+            className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+          >
+            <Sparkle className="h-4 w-4" />
+          </Button>
+        </>
+      )}
 
       <SchemaManagerDialog
         open={managerOpen}
@@ -0,0 +1,134 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, X } from '@phosphor-icons/react';
+import { ScorecardSection } from '@/types/schema';
+import { GENERAL_SECTION } from '@/lib/scorecard';
+
+interface ScorecardSectionsEditorProps {
+  sections: ScorecardSection[];
+  onChange: (sections: ScorecardSection[]) => void;
+}
+
+/**
+ * Edit the weighted sections of a schema's scorecard.
+ * Weights are relative; rules without a section score in General (weight 1).
+ */
+export function ScorecardSectionsEditor({ sections, onChange }: ScorecardSectionsEditorProps) {
+  const totalWeight = sections.reduce((sum, s) => sum + (s.weight || 0), 0);
+
+  const updateSection = (index: number, updates: Partial<ScorecardSection>) => {
+    onChange(sections.map((s, i) => (i === index ? { ...s, ...updates } : s)));
+  };
+
+  const addSection = () => {
+    onChange([...sections, { id: `section-${Date.now()}`, name: `Section ${sections.length + 1}`, weight: 1 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Scorecard Sections</Label>
+        <Button size="sm" variant="ghost" onClick={addSection}>
+          <Plus size={14} className="mr-1" />
+          Add Section
+        </Button>
+      </div>
+      {sections.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No sections - the call score is the plain sum of rule points.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {sections.map((section, index) => (
+            <div key={section.id} className="flex items-center gap-1 border border-border rounded-md px-2 py-1">
+              <Input
+                value={section.name}
+                onChange={(e) => updateSection(index, { name: e.target.value })}
+                className="h-7 w-32 text-xs"
+                aria-label="Section name"
+              />
+              <Input
+                type="number"
+                min="0"
+                value={section.weight}
+                onChange={(e) => updateSection(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="h-7 w-16 text-xs"
+                aria-label="Section weight"
+              />
+              <span className="text-xs text-muted-foreground w-10 text-right">
+                {totalWeight > 0 ? Math.round((section.weight / totalWeight) * 100) : 0}%
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => onChange(sections.filter((_, i) => i !== index))}
+              >
+                <X size={12} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RuleScorecardFieldsProps {
+  idPrefix?: string;               // Keeps input ids unique when several rules are listed
+  sections: ScorecardSection[];
+  section?: string;
+  critical?: boolean;
+  allowNotApplicable?: boolean;
+  onChange: (updates: { section?: string; critical?: boolean; allowNotApplicable?: boolean }) => void;
+}
+
+/**
+ * Section, critical and N/A settings of a single rule
+ */
+export function RuleScorecardFields({ idPrefix = 'rule', sections, section, critical, allowNotApplicable, onChange }: RuleScorecardFieldsProps) {
+  const sectionValue = sections.some(s => s.id === section) ? section : GENERAL_SECTION.id;
+
+  return (
+    <div className="grid grid-cols-3 gap-3 items-end">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-section`}>Section</Label>
+        <select
+          id={`${idPrefix}-section`}
+          className="w-full h-10 px-3 rounded-md border border-input bg-background"
+          value={sectionValue}
+          onChange={(e) =>
+            onChange({ section: e.target.value === GENERAL_SECTION.id ? undefined : e.target.value })
+          }
+        >
+          <option value={GENERAL_SECTION.id}>{GENERAL_SECTION.name}</option>
+          {sections.filter(s => s.id !== GENERAL_SECTION.id).map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2 h-10">
+        <Switch
+          id={`${idPrefix}-critical`}
+          checked={!!critical}
+          onCheckedChange={(checked) => onChange({ critical: checked || undefined })}
+        />
+        <Label htmlFor={`${idPrefix}-critical`} className="text-sm">
+          Critical <span className="text-xs text-muted-foreground">(fail = call scores 0)</span>
+        </Label>
+      </div>
+      <div className="flex items-center gap-2 h-10">
+        <Switch
+          id={`${idPrefix}-allow-na`}
+          checked={!!allowNotApplicable}
+          onCheckedChange={(checked) => onChange({ allowNotApplicable: checked || undefined })}
+        />
+        <Label htmlFor={`${idPrefix}-allow-na`} className="text-sm">
+          Allow N/A
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -28,12 +28,16 @@ import {
   ChatText,
   Spinner,
   Calendar,
+  Waveform,
 } from '@phosphor-icons/react';
 import { SchemaDefinition, FieldDefinition } from '@/types/schema';
 import { CallRecord, TranscriptPhrase, CallSentimentSegment, SentimentLabel } from '@/types/call';
 import { AzureServicesConfig } from '@/types/config';
+import { AcousticPresetId } from '@/types/audio-augmentation';
+import { ACOUSTIC_PRESETS, DEFAULT_ACOUSTIC_PRESET } from '@/services/audio-augmentation';
 import { azureOpenAIService } from '@/services/azure-openai';
 import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
+import { computeSpeechMetrics } from '@/lib/speech-analytics';
 import { toast } from 'sonner';
 
 interface SyntheticMetadataWizardProps {
@@ -86,6 +90,7 @@ export function SyntheticMetadataWizard({
   // Transcription generation options
   const [generateTranscriptions, setGenerateTranscriptions] = useState(false);
   const [transcriptionPrompt, setTranscriptionPrompt] = useState('');
+  const [acousticPreset, setAcousticPreset] = useState<AcousticPresetId>(DEFAULT_ACOUSTIC_PRESET);
   
   // Date range for synthetic records
   const [dateRangeEnabled, setDateRangeEnabled] = useState(true);
@@ -119,6 +124,7 @@ export function SyntheticMetadataWizard({
       setError(null);
       setGenerateTranscriptions(false);
       setTranscriptionPrompt('');
+      setAcousticPreset(DEFAULT_ACOUSTIC_PRESET);
       // Reset date range to last 30 days
       setDateRangeEnabled(true);
       const thirtyDaysAgo = new Date();
@@ -311,7 +317,7 @@ Example structure:
         const batchPromises = batchGroup.map(async ({ batchIndex, recordsInBatch }) => {
           const prompt = buildBatchGenerationPrompt(recordsInBatch, batchIndex, totalBatches);
           try {
-            const response = await azureOpenAIService.generateSyntheticData(prompt, recordsInBatch);
+            const response = await azureOpenAIService.generateSyntheticData(prompt, recordsInBatch, schema.id);
             return response?.records || [];
           } catch (err) {
             console.error(`Batch ${batchIndex + 1} failed:`, err);
@@ -470,9 +476,11 @@ Example structure:
         transcriptDuration: r.transcriptDuration, // Duration in milliseconds
         transcriptSpeakerCount: r.transcriptSpeakerCount || (hasPhrases ? 2 : undefined),
         transcriptLocale: r.transcriptLocale || 'en-US',
+        speechMetrics: computeSpeechMetrics(r),
         // Sentiment data for synthetic calls
         sentimentSegments: r.sentimentSegments,
         overallSentiment: r.overallSentiment,
+        acousticPreset: hasPhrases ? acousticPreset : undefined,
         status: status as CallRecord['status'],
         createdAt: recordDate,
         updatedAt: recordDate,
@@ -854,6 +862,32 @@ Example structure:
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label className="text-base font-medium flex items-center gap-2">
+                      <Waveform className="h-4 w-4" />
+                      Audio Realism
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      Applied when audio is generated for these calls, so they make a realistic test set for
+                      transcription and sentiment.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {ACOUSTIC_PRESETS.map(preset => (
+                        <button
+                          key={preset.id}
+                          type="button"
+                          onClick={() => setAcousticPreset(preset.id)}
+                          className={`text-left rounded-md border p-3 transition-colors ${
+                            acousticPreset === preset.id ? 'border-primary ring-2 ring-primary' : 'hover:bg-muted/50'
+                          }`}
+                        >
+                          <div className="text-sm font-medium">{preset.name}</div>
+                          <div className="text-xs text-muted-foreground">{preset.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   <Card className="bg-amber-50 dark:bg-amber-950/30 border-amber-200">
                     <CardContent className="p-4">
                       <div className="flex items-start gap-3">
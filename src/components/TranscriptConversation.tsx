@@ -150,6 +150,11 @@ export function TranscriptConversation({
                     <Badge variant="outline" className="text-[10px] h-4 px-1">
                       {timestamp}
                     </Badge>
+                    {typeof phrase.channel === 'number' && (
+                      <Badge variant="outline" className="text-[10px] h-4 px-1" title={`Recognized on channel ${phrase.channel}`}>
+                        {phrase.channel === 0 ? 'L' : phrase.channel === 1 ? 'R' : `Ch ${phrase.channel}`}
+                      </Badge>
+                    )}
                     {phrase.confidence !== undefined && phrase.confidence < 0.8 && (
                       <Badge variant="secondary" className="text-[10px] h-4 px-1">
                         {(phrase.confidence * 100).toFixed(0)}%
@@ -173,13 +173,13 @@ export function UploadDialog({ open, onOpenChange, onUpload, activeSchema, exist
 
       // Store audio files in IndexedDB with schema organization
       const { storeAudioFiles } = await import('@/lib/audio-storage');
-      await storeAudioFiles(updatedCalls.map(call => ({
+      const audioHashes = await storeAudioFiles(updatedCalls.map(call => ({
         id: call.id,
         audioFile: call.audioFile!,
         schemaId: activeSchema.id
       })));
 
-      onUpload(updatedCalls);
+      onUpload(updatedCalls.map(call => ({ ...call, audioHash: audioHashes.get(call.id) })));
       
       const strategyMsg = effectiveStrategy === 'order' 
         ? ' (matched by row order - audio_file_name field created)'
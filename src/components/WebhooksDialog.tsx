@@ -0,0 +1,441 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowClockwise, FloppyDisk, PaperPlaneTilt, Plus, Trash, WebhooksLogo } from '@phosphor-icons/react';
+import { SchemaDefinition } from '@/types/schema';
+import { InsightTrigger, WebhookConfig, WebhookDelivery, WebhookDeliveryStatus } from '@/types/webhook';
+import { getStorageAdapter } from '@/lib/storage-adapter';
+import {
+  DEFAULT_WEBHOOK_EVENTS,
+  SUBSCRIBABLE_WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  deleteWebhook,
+  generateWebhookSecret,
+  loadWebhookDeliveries,
+  loadWebhooks,
+  retryWebhookDelivery,
+  saveWebhook,
+  testWebhook,
+} from '@/services/webhooks';
+import { toast } from 'sonner';
+
+interface WebhooksDialogProps {
+  schema: SchemaDefinition | null;
+}
+
+type WebhookDraft = Omit<WebhookConfig, 'id' | 'createdAt'> & Partial<Pick<WebhookConfig, 'id' | 'createdAt'>>;
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  delivered: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+function newDraft(schemaId: string): WebhookDraft {
+  return {
+    schemaId,
+    name: '',
+    url: '',
+    secret: generateWebhookSecret(),
+    enabled: true,
+    events: [...DEFAULT_WEBHOOK_EVENTS],
+    insightTriggers: [],
+  };
+}
+
+/**
+ * Outbound webhooks for a schema: targets, subscribed events, insight triggers,
+ * test-fire and the delivery log. Deliveries are sent by the backend server.
+ */
+export function WebhooksDialog({ schema }: WebhooksDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  const [draft, setDraft] = useState<WebhookDraft | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [testing, setTesting] = useState(false);
+  const serverBackend = getStorageAdapter().backend === 'server';
+  const insightCategories = (schema?.insightCategories ?? []).filter(c => c.enabled);
+
+  const refreshDeliveries = () => {
+    if (!schema || !serverBackend) return;
+    loadWebhookDeliveries(schema.id)
+      .then(setDeliveries)
+      .catch((error) => {
+        console.error('Failed to load webhook deliveries:', error);
+        setDeliveries([]);
+      });
+  };
+
+  useEffect(() => {
+    if (!open || !schema) return;
+    const saved = loadWebhooks(schema.id);
+    setWebhooks(saved);
+    setDraft(saved[0] ?? newDraft(schema.id));
+    refreshDeliveries();
+    // Keyed on the ID: callers may pass a freshly loaded schema object on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, schema?.id]);
+
+  const updateDraft = (patch: Partial<WebhookDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const toggleEvent = (event: WebhookConfig['events'][number], checked: boolean) => {
+    if (!draft) return;
+    updateDraft({ events: checked ? [...draft.events, event] : draft.events.filter(e => e !== event) });
+  };
+
+  const updateTrigger = (index: number, patch: Partial<InsightTrigger>) => {
+    if (!draft) return;
+    updateDraft({ insightTriggers: draft.insightTriggers.map((t, i) => (i === index ? { ...t, ...patch } : t)) });
+  };
+
+  const addTrigger = () => {
+    if (!draft) return;
+    const category = insightCategories[0];
+    const field = category?.outputFields[0];
+    updateDraft({
+      insightTriggers: [
+        ...draft.insightTriggers,
+        { categoryId: category?.id ?? '', fieldId: field?.id ?? '', value: field?.type === 'boolean' ? true : '' },
+      ],
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      const saved = saveWebhook(draft);
+      const updated = loadWebhooks(saved.schemaId);
+      setWebhooks(updated);
+      setDraft(saved);
+      toast.success(`Webhook "${saved.name}" saved`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save webhook');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!schema || !draft?.id) return;
+    deleteWebhook(schema.id, draft.id);
+    const remaining = loadWebhooks(schema.id);
+    setWebhooks(remaining);
+    setDraft(remaining[0] ?? newDraft(schema.id));
+    toast.success('Webhook deleted');
+  };
+
+  const handleTest = async () => {
+    if (!schema || !draft?.id) return;
+    setTesting(true);
+    try {
+      const delivery = await testWebhook(schema.id, draft.id);
+      if (delivery.status === 'delivered') {
+        toast.success(`Test event delivered (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error(`Test event not delivered: ${delivery.error}`);
+      }
+      refreshDeliveries();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Webhook test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleRetry = async (delivery: WebhookDelivery) => {
+    if (!schema) return;
+    try {
+      const updated = await retryWebhookDelivery(schema.id, delivery.id);
+      setDeliveries(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Retry failed');
+    }
+  };
+
+  const webhookNames = new Map(webhooks.map(w => [w.id, w.name]));
+
+  const renderTrigger = (trigger: InsightTrigger, index: number) => {
+    const category = insightCategories.find(c => c.id === trigger.categoryId);
+    const field = category?.outputFields.find(f => f.id === trigger.fieldId);
+    return (
+      <div key={index} className="flex items-center gap-2">
+        <Select
+          value={trigger.categoryId}
+          onValueChange={(categoryId) => {
+            const first = insightCategories.find(c => c.id === categoryId)?.outputFields[0];
+            updateTrigger(index, { categoryId, fieldId: first?.id ?? '', value: first?.type === 'boolean' ? true : '' });
+          }}
+        >
+          <SelectTrigger className="w-48"><SelectValue placeholder="Category" /></SelectTrigger>
+          <SelectContent>
+            {insightCategories.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select
+          value={trigger.fieldId}
+          onValueChange={(fieldId) => {
+            const next = category?.outputFields.find(f => f.id === fieldId);
+            updateTrigger(index, { fieldId, value: next?.type === 'boolean' ? true : '' });
+          }}
+        >
+          <SelectTrigger className="w-48"><SelectValue placeholder="Field" /></SelectTrigger>
+          <SelectContent>
+            {(category?.outputFields ?? []).map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {field?.type === 'boolean' ? (
+          <Select value={String(trigger.value)} onValueChange={(value) => updateTrigger(index, { value: value === 'true' })}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">true</SelectItem>
+              <SelectItem value="false">false</SelectItem>
+            </SelectContent>
+          </Select>
+        ) : field?.type === 'enum' && field.enumValues ? (
+          <Select value={String(trigger.value)} onValueChange={(value) => updateTrigger(index, { value })}>
+            <SelectTrigger className="w-32"><SelectValue placeholder="Value" /></SelectTrigger>
+            <SelectContent>
+              {field.enumValues.map(v => <SelectItem key={v} value={v}>{v}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            className="w-32"
+            placeholder="Value"
+            value={String(trigger.value)}
+            onChange={(e) => updateTrigger(index, {
+              value: field?.type === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value,
+            })}
+          />
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => updateDraft({ insightTriggers: draft!.insightTriggers.filter((_, i) => i !== index) })}
+        >
+          <Trash size={16} />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!schema}>
+          <WebhooksLogo className="mr-2" size={18} />
+          Webhooks
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Webhooks{schema ? ` - ${schema.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            POST signed JSON to your CRM or ticketing tools when calls change status, fail a critical
+            criterion, turn negative or produce a matching insight. Failed deliveries are retried with backoff.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!serverBackend && (
+          <p className="text-sm text-amber-700 bg-amber-50 dark:bg-amber-950/20 rounded-md p-3">
+            Webhooks are sent by the backend server. Start the app with server storage to deliver them.
+          </p>
+        )}
+
+        {schema && draft && (
+          <Tabs defaultValue="webhooks" className="flex-1 overflow-hidden flex flex-col">
+            <TabsList className="grid w-full max-w-sm grid-cols-2">
+              <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+              <TabsTrigger value="deliveries">Deliveries</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="webhooks" className="flex-1 overflow-hidden">
+              <div className="grid grid-cols-[14rem_1fr] gap-4 h-[60vh]">
+                <div className="space-y-2 border-r pr-3">
+                  {webhooks.map(webhook => (
+                    <button
+                      key={webhook.id}
+                      className={`w-full text-left rounded-md px-3 py-2 text-sm hover:bg-muted ${draft.id === webhook.id ? 'bg-muted font-medium' : ''}`}
+                      onClick={() => setDraft(webhook)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate">{webhook.name}</span>
+                        {!webhook.enabled && <Badge variant="outline">Off</Badge>}
+                      </div>
+                    </button>
+                  ))}
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => setDraft(newDraft(schema.id))}>
+                    <Plus className="mr-2" size={16} />
+                    New Webhook
+                  </Button>
+                </div>
+
+                <ScrollArea className="pr-2">
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label>Name</Label>
+                        <Input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="CRM escalations" />
+                      </div>
+                      <div className="flex items-end justify-between rounded-md border p-3">
+                        <Label htmlFor="webhook-enabled">Enabled</Label>
+                        <Switch id="webhook-enabled" checked={draft.enabled} onCheckedChange={(enabled) => updateDraft({ enabled })} />
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Target URL</Label>
+                      <Input value={draft.url} onChange={(e) => updateDraft({ url: e.target.value })} placeholder="https://crm.example.com/hooks/qa" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Signing secret</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          value={draft.secret}
+                          onChange={(e) => updateDraft({ secret: e.target.value })}
+                          placeholder={draft.id ? 'Stored on the server - enter a new secret to replace it' : undefined}
+                          className="font-mono text-xs"
+                        />
+                        <Button variant="outline" onClick={() => updateDraft({ secret: generateWebhookSecret() })}>
+                          Regenerate
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        X-Webhook-Signature is sha256=HMAC-SHA256(secret, "&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;") in hex.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Events</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {SUBSCRIBABLE_WEBHOOK_EVENTS.map(event => (
+                          <label key={event} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={draft.events.includes(event)}
+                              onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                            />
+                            {WEBHOOK_EVENT_LABELS[event]}
+                            <code className="text-xs text-muted-foreground">{event}</code>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    {draft.events.includes('insight.matched') && (
+                      <div className="space-y-2">
+                        <Label>Insight triggers</Label>
+                        {insightCategories.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">This schema has no enabled insight categories.</p>
+                        ) : (
+                          <>
+                            {draft.insightTriggers.map(renderTrigger)}
+                            <Button variant="outline" size="sm" onClick={addTrigger}>
+                              <Plus className="mr-2" size={16} />
+                              Add Trigger
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                      {draft.id && (
+                        <>
+                          <Button variant="outline" onClick={handleDelete}>
+                            <Trash className="mr-2" size={18} />
+                            Delete
+                          </Button>
+                          <Button variant="outline" onClick={handleTest} disabled={!serverBackend || testing}>
+                            <PaperPlaneTilt className="mr-2" size={18} />
+                            {testing ? 'Sending...' : 'Send Test'}
+                          </Button>
+                        </>
+                      )}
+                      <Button onClick={handleSave}>
+                        <FloppyDisk className="mr-2" size={18} />
+                        Save Webhook
+                      </Button>
+                    </div>
+                  </div>
+                </ScrollArea>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="deliveries" className="flex-1 overflow-hidden">
+              <div className="flex justify-end mb-2">
+                <Button variant="outline" size="sm" onClick={refreshDeliveries} disabled={!serverBackend}>
+                  <ArrowClockwise className="mr-2" size={16} />
+                  Refresh
+                </Button>
+              </div>
+              <ScrollArea className="h-[55vh]">
+                {deliveries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-8 text-center">No deliveries yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Created</TableHead>
+                        <TableHead>Webhook</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Call</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Attempts</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {deliveries.map(delivery => (
+                        <TableRow key={delivery.id}>
+                          <TableCell className="whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                          <TableCell>{webhookNames.get(delivery.webhookId) ?? delivery.webhookId}</TableCell>
+                          <TableCell><code className="text-xs">{delivery.event.type}</code></TableCell>
+                          <TableCell className="font-mono text-xs">{delivery.event.callId || '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{delivery.attempts}</TableCell>
+                          <TableCell className="text-xs max-w-xs truncate" title={delivery.error}>
+                            {delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '')}
+                            {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                              <span className="block text-muted-foreground">
+                                Next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {delivery.status !== 'delivered' && (
+                              <Button variant="ghost" size="sm" onClick={() => handleRetry(delivery)}>
+                                Retry
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { CalibrationAnalytics } from '@/types/call';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface CalibrationReportProps {
+  analytics: CalibrationAnalytics[];
+}
+
+/**
+ * AI-vs-human agreement per criterion from QA reviews.
+ * Criteria sorted by lowest agreement first - those are the rules the model misreads.
+ */
+export function CalibrationReport({ analytics }: CalibrationReportProps) {
+  const reviewed = analytics.filter(a => a.reviewedCount > 0);
+  const totalReviews = reviewed.reduce((sum, a) => sum + a.reviewedCount, 0);
+  const totalAgreements = reviewed.reduce((sum, a) => sum + a.agreementCount, 0);
+  const overallAgreement = totalReviews > 0 ? (totalAgreements / totalReviews) * 100 : 0;
+
+  const rows = [...reviewed].sort((a, b) => a.agreementRate - b.agreementRate);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Calibration</CardTitle>
+        <CardDescription>
+          Agreement between AI verdicts and human QA reviews, per criterion
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {totalReviews === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No QA reviews yet. Review criteria in the Evaluation tab of a call to build the calibration report.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 text-sm">
+              <Badge variant="secondary">{totalReviews} reviewed verdicts</Badge>
+              <Badge variant={overallAgreement < 80 ? 'destructive' : 'default'}>
+                {overallAgreement.toFixed(1)}% overall agreement
+              </Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Criterion</TableHead>
+                  <TableHead className="text-right">Reviewed</TableHead>
+                  <TableHead className="w-48">Agreement</TableHead>
+                  <TableHead className="text-right">AI false pass</TableHead>
+                  <TableHead className="text-right">AI false fail</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.criterionId}>
+                    <TableCell className="font-medium">{row.criterionName}</TableCell>
+                    <TableCell className="text-right">{row.reviewedCount}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={row.agreementRate} className="h-2 flex-1" />
+                        <span className="text-xs w-12 text-right">{row.agreementRate.toFixed(0)}%</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.aiFalsePassCount}</TableCell>
+                    <TableCell className="text-right">{row.aiFalseFailCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
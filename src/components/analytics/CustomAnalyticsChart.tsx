@@ -1,17 +1,21 @@
 import { useMemo } from 'react';
 import { CallRecord } from '@/types/call';
 import { SchemaDefinition, AnalyticsView } from '@/types/schema';
+import { getCallFieldValue, getFieldFilterValue } from '@/lib/call-filters';
+import { GenericAnalyticsEngine } from '@/lib/generic-analytics-engine';
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, AreaChart, Area, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell, ZAxis } from 'recharts';
 
 interface CustomAnalyticsChartProps {
   view: AnalyticsView;
   calls: CallRecord[];
   schema: SchemaDefinition;
+  selectedValues?: string[];       // Dimension values selected as cross-filters
+  onSelectValue?: (value: string) => void; // Called when a bar or pie slice is clicked
 }
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D', '#FFC658', '#FF6B9D'];
 
-export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsChartProps) {
+export function CustomAnalyticsChart({ view, calls, schema, selectedValues = [], onSelectValue }: CustomAnalyticsChartProps) {
   const chartData = useMemo(() => {
     console.log('🔍 CustomAnalyticsChart - Processing view:', {
       viewName: view.name,
@@ -21,21 +25,13 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
       callsCount: calls.length
     });
 
-    // Helper to get field value from call (checks metadata first, then direct properties)
-    const getFieldValue = (call: CallRecord, fieldId: string) => {
-      if (call.metadata && call.metadata[fieldId] !== undefined) {
-        return call.metadata[fieldId];
-      }
-      return (call as any)[fieldId];
-    };
-
     if (!view.dimensionField && !view.measureField) {
       // Count only
       return [{ name: 'Total', value: calls.length }];
     }
 
     const dimensionField = schema.fields.find(f => f.id === view.dimensionField);
-    const measureField = schema.fields.find(f => f.id === view.measureField);
+    const measureField = GenericAnalyticsEngine.findMeasure(schema, view.measureField);
 
     console.log('📊 Fields:', {
       dimensionField: dimensionField ? `${dimensionField.displayName} (${dimensionField.id})` : 'none',
@@ -48,7 +44,7 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
       
       const values = calls
         .map(c => {
-          const val = getFieldValue(c, measureField.id);
+          const val = getCallFieldValue(c, measureField.id);
           const num = parseFloat(val);
           return isNaN(num) ? 0 : num;
         })
@@ -76,7 +72,7 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
     const grouped = new Map<string, { count: number; values: number[] }>();
     
     calls.forEach(call => {
-      const dimValue = String(getFieldValue(call, dimensionField.id) || 'Unknown');
+      const dimValue = getFieldFilterValue(call, dimensionField.id);
       
       if (!grouped.has(dimValue)) {
         grouped.set(dimValue, { count: 0, values: [] });
@@ -86,7 +82,7 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
       group.count++;
 
       if (measureField) {
-        const measureValue = getFieldValue(call, measureField.id);
+        const measureValue = getCallFieldValue(call, measureField.id);
         const num = parseFloat(measureValue);
         if (!isNaN(num)) {
           group.values.push(num);
@@ -132,9 +128,17 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
     );
   }
 
-  const measureField = schema.fields.find(f => f.id === view.measureField);
+  const measureField = GenericAnalyticsEngine.findMeasure(schema, view.measureField);
   const yAxisLabel = measureField?.displayName || view.aggregation;
 
+  // Cross-filtering needs a dimension to filter on
+  const canSelect = !!onSelectValue && schema.fields.some(f => f.id === view.dimensionField);
+  const handleSelect = (entry: { name?: string }) => {
+    if (canSelect && entry?.name) onSelectValue!(entry.name);
+  };
+  const cellOpacity = (name: string) =>
+    selectedValues.length === 0 || selectedValues.includes(name) ? 1 : 0.35;
+
   if (view.chartType === 'bar') {
     return (
       <ResponsiveContainer width="100%" height={250}>
@@ -143,7 +147,16 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
           <XAxis dataKey="name" angle={-45} textAnchor="end" height={80} />
           <YAxis label={{ value: yAxisLabel, angle: -90, position: 'insideLeft' }} />
           <Tooltip />
-          <Bar dataKey="value" fill="#0088FE" />
+          <Bar
+            dataKey="value"
+            fill="#0088FE"
+            onClick={handleSelect}
+            cursor={canSelect ? 'pointer' : undefined}
+          >
+            {chartData.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill="#0088FE" fillOpacity={cellOpacity(entry.name)} />
+            ))}
+          </Bar>
         </BarChart>
       </ResponsiveContainer>
     );
@@ -190,9 +203,11 @@ export function CustomAnalyticsChart({ view, calls, schema }: CustomAnalyticsCha
             cy="50%"
             outerRadius={80}
             label
+            onClick={handleSelect}
+            cursor={canSelect ? 'pointer' : undefined}
           >
             {chartData.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} fillOpacity={cellOpacity(entry.name)} />
             ))}
           </Pie>
           <Tooltip />
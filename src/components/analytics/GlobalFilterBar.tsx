@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CallFilters, CallRecord, AnalyticsSegment, SentimentLabel, ScoreBand } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FunnelSimple, BookmarkSimple, Trash, X } from '@phosphor-icons/react';
+import {
+  SCORE_BANDS,
+  countActiveFilters,
+  getFieldFilterValue,
+  toggleFieldFilter,
+} from '@/lib/call-filters';
+import { loadSegmentsForSchema, saveSegmentForSchema, deleteSegmentForSchema } from '@/services/analytics-segments';
+import { toast } from 'sonner';
+
+interface GlobalFilterBarProps {
+  schema: SchemaDefinition;
+  calls: CallRecord[];             // Calls of the schema before filtering (used for filter values)
+  filters: CallFilters;
+  onFiltersChange: (filters: CallFilters) => void;
+}
+
+const SENTIMENTS: SentimentLabel[] = ['positive', 'neutral', 'negative'];
+const MAX_FIELD_VALUES = 100;
+
+/** Add a value to a list filter, leaving it unchanged if already present */
+function addValue<T>(values: T[] | undefined, value: T): T[] {
+  return values?.includes(value) ? values : [...(values ?? []), value];
+}
+
+/** Remove a value from a list filter, dropping the list when it becomes empty */
+function removeValue<T>(values: T[] | undefined, value: T): T[] | undefined {
+  const next = (values ?? []).filter(v => v !== value);
+  return next.length > 0 ? next : undefined;
+}
+
+/**
+ * Filter bar shared by the analytics and agents views.
+ * Filters apply to every chart, KPI card and the leaderboard; combinations can be
+ * saved as named segments for the schema.
+ */
+export function GlobalFilterBar({ schema, calls, filters, onFiltersChange }: GlobalFilterBarProps) {
+  const [segments, setSegments] = useState<AnalyticsSegment[]>([]);
+  const [fieldId, setFieldId] = useState('');
+  const [segmentName, setSegmentName] = useState('');
+  const [saveOpen, setSaveOpen] = useState(false);
+
+  useEffect(() => {
+    setSegments(loadSegmentsForSchema(schema.id));
+    setFieldId('');
+  }, [schema.id]);
+
+  const analyticsFields = useMemo(() => schema.fields.filter(f => f.enableAnalytics), [schema]);
+
+  const fieldValues = useMemo(() => {
+    if (!fieldId) return [];
+    const values = new Set(calls.map(call => getFieldFilterValue(call, fieldId)));
+    return Array.from(values).sort().slice(0, MAX_FIELD_VALUES);
+  }, [calls, fieldId]);
+
+  const topics = useMemo(() => {
+    const names = new Map<string, string>();
+    calls.forEach(call => {
+      call.evaluation?.topicsInsight?.topics?.forEach(t => names.set(t.topicId, t.topicName));
+    });
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [calls]);
+
+  const activeCount = countActiveFilters(filters);
+  const activeSegment = segments.find(s => JSON.stringify(s.filters) === JSON.stringify(filters));
+
+  const update = (changes: Partial<CallFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const fieldName = (id: string) => schema.fields.find(f => f.id === id)?.displayName || id;
+  const topicName = (id: string) => topics.find(([topicId]) => topicId === id)?.[1] || id;
+  const bandLabel = (id: ScoreBand) => SCORE_BANDS.find(b => b.id === id)?.label || id;
+
+  const handleSaveSegment = () => {
+    const name = segmentName.trim();
+    if (!name) return;
+    saveSegmentForSchema(schema.id, name, filters);
+    setSegments(loadSegmentsForSchema(schema.id));
+    setSegmentName('');
+    setSaveOpen(false);
+    toast.success(`Segment "${name}" saved`);
+  };
+
+  const handleDeleteSegment = (segment: AnalyticsSegment) => {
+    deleteSegmentForSchema(schema.id, segment.id);
+    setSegments(loadSegmentsForSchema(schema.id));
+    toast.success(`Segment "${segment.name}" deleted`);
+  };
+
+  const chips: Array<{ key: string; label: string; onRemove: () => void }> = [
+    ...(filters.dateFrom ? [{ key: 'from', label: `From ${filters.dateFrom}`, onRemove: () => update({ dateFrom: undefined }) }] : []),
+    ...(filters.dateTo ? [{ key: 'to', label: `To ${filters.dateTo}`, onRemove: () => update({ dateTo: undefined }) }] : []),
+    ...Object.entries(filters.fields ?? {}).flatMap(([id, values]) =>
+      values.map(value => ({
+        key: `field-${id}-${value}`,
+        label: `${fieldName(id)}: ${value}`,
+        onRemove: () => onFiltersChange(toggleFieldFilter(filters, id, value)),
+      }))
+    ),
+    ...(filters.topics ?? []).map(id => ({
+      key: `topic-${id}`,
+      label: `Topic: ${topicName(id)}`,
+      onRemove: () => update({ topics: removeValue(filters.topics, id) }),
+    })),
+    ...(filters.sentiments ?? []).map(s => ({
+      key: `sentiment-${s}`,
+      label: `Sentiment: ${s}`,
+      onRemove: () => update({ sentiments: removeValue(filters.sentiments, s) }),
+    })),
+    ...(filters.scoreBands ?? []).map(b => ({
+      key: `band-${b}`,
+      label: `Score: ${bandLabel(b)}`,
+      onRemove: () => update({ scoreBands: removeValue(filters.scoreBands, b) }),
+    })),
+    ...(filters.evaluated ? [{
+      key: 'evaluated',
+      label: filters.evaluated === 'evaluated' ? 'Evaluated' : 'Not evaluated',
+      onRemove: () => update({ evaluated: undefined }),
+    }] : []),
+  ];
+
+  return (
+    <Card>
+      <CardContent className="py-4 space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex items-center gap-2 text-sm font-medium self-center">
+            <FunnelSimple size={18} />
+            Filters
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="filter-date-from" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="filter-date-from"
+              type="date"
+              className="h-9 w-36"
+              value={filters.dateFrom ?? ''}
+              onChange={(e) => update({ dateFrom: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-date-to" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="filter-date-to"
+              type="date"
+              className="h-9 w-36"
+              value={filters.dateTo ?? ''}
+              onChange={(e) => update({ dateTo: e.target.value || undefined })}
+            />
+          </div>
+
+          {analyticsFields.length > 0 && (
+            <div className="flex items-end gap-1">
+              <Select value={fieldId} onValueChange={setFieldId}>
+                <SelectTrigger className="h-9 w-40">
+                  <SelectValue placeholder="Field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {analyticsFields.map(f => (
+                    <SelectItem key={f.id} value={f.id}>{f.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value=""
+                onValueChange={(value) => onFiltersChange(toggleFieldFilter(filters, fieldId, value))}
+                disabled={!fieldId}
+              >
+                <SelectTrigger className="h-9 w-40">
+                  <SelectValue placeholder="Value" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldValues.map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {topics.length > 0 && (
+            <Select value="" onValueChange={(id) => update({ topics: addValue(filters.topics, id) })}>
+              <SelectTrigger className="h-9 w-36">
+                <SelectValue placeholder="Topic" />
+              </SelectTrigger>
+              <SelectContent>
+                {topics.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Select
+            value=""
+            onValueChange={(s) => update({ sentiments: addValue(filters.sentiments, s as SentimentLabel) })}
+          >
+            <SelectTrigger className="h-9 w-36">
+              <SelectValue placeholder="Sentiment" />
+            </SelectTrigger>
+            <SelectContent>
+              {SENTIMENTS.map(s => (
+                <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value=""
+            onValueChange={(b) => update({ scoreBands: addValue(filters.scoreBands, b as ScoreBand) })}
+          >
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue placeholder="Score band" />
+            </SelectTrigger>
+            <SelectContent>
+              {SCORE_BANDS.map(b => (
+                <SelectItem key={b.id} value={b.id}>{b.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.evaluated ?? 'all'}
+            onValueChange={(v) => update({ evaluated: v === 'all' ? undefined : (v as CallFilters['evaluated']) })}
+          >
+            <SelectTrigger className="h-9 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All calls</SelectItem>
+              <SelectItem value="evaluated">Evaluated</SelectItem>
+              <SelectItem value="not-evaluated">Not evaluated</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-end gap-1 ml-auto">
+            {segments.length > 0 && (
+              <Select
+                value={activeSegment?.id ?? ''}
+                onValueChange={(id) => {
+                  const segment = segments.find(s => s.id === id);
+                  if (segment) onFiltersChange(segment.filters);
+                }}
+              >
+                <SelectTrigger className="h-9 w-44">
+                  <SelectValue placeholder="Saved segments" />
+                </SelectTrigger>
+                <SelectContent>
+                  {segments.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {activeSegment && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-9"
+                onClick={() => handleDeleteSegment(activeSegment)}
+                title="Delete segment"
+              >
+                <Trash size={16} />
+              </Button>
+            )}
+            <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+              <PopoverTrigger asChild>
+                <Button size="sm" variant="outline" className="h-9" disabled={activeCount === 0}>
+                  <BookmarkSimple size={16} className="mr-1" />
+                  Save Segment
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-2" align="end">
+                <Label htmlFor="segment-name">Segment name</Label>
+                <Input
+                  id="segment-name"
+                  value={segmentName}
+                  placeholder="e.g. Negative calls this month"
+                  onChange={(e) => setSegmentName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveSegment()}
+                />
+                <Button size="sm" className="w-full" onClick={handleSaveSegment} disabled={!segmentName.trim()}>
+                  Save
+                </Button>
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+
+        {chips.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {chips.map(chip => (
+              <Badge key={chip.key} variant="secondary" className="gap-1">
+                {chip.label}
+                <button type="button" onClick={chip.onRemove} aria-label={`Remove ${chip.label}`}>
+                  <X size={12} />
+                </button>
+              </Badge>
+            ))}
+            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => onFiltersChange({})}>
+              Clear all
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,13 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import clsx from 'clsx';
-import { CallSentimentSegment } from '@/types/call';
+import { CallSentimentSegment, SpeechMetrics, SpeechPeriod } from '@/types/call';
 
 interface CallSentimentPlayerProps {
   audioUrl?: string;
   durationMilliseconds?: number;
   segments?: CallSentimentSegment[];
   sentimentSummary?: string;
+  speechMetrics?: SpeechMetrics;
 }
 
 const sentimentColors: Record<string, string> = {
@@ -21,6 +22,17 @@ const sentimentLabels: Record<string, string> = {
   negative: 'Negative',
 };
 
+const speakerLaneColors = {
+  agent: 'bg-sky-500/80',
+  customer: 'bg-violet-500/80',
+};
+
+const eventColors = {
+  deadAir: 'bg-slate-400/80',
+  hold: 'bg-amber-500/80',
+  overtalk: 'bg-red-500/80',
+};
+
 function formatTime(ms: number): string {
   const safe = Math.max(0, Math.round(ms));
   const totalSeconds = Math.floor(safe / 1000);
@@ -36,6 +48,7 @@ export function CallSentimentPlayer({
   durationMilliseconds,
   segments,
   sentimentSummary,
+  speechMetrics,
 }: CallSentimentPlayerProps) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
@@ -46,6 +59,10 @@ export function CallSentimentPlayer({
       return durationMilliseconds;
     }
 
+    if (speechMetrics && speechMetrics.durationMilliseconds > 0) {
+      return speechMetrics.durationMilliseconds;
+    }
+
     if (!segments || segments.length === 0) {
       return 0;
     }
@@ -54,7 +71,7 @@ export function CallSentimentPlayer({
       (max, segment) => Math.max(max, segment.endMilliseconds || 0),
       0
     );
-  }, [durationMilliseconds, segments]);
+  }, [durationMilliseconds, segments, speechMetrics]);
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -86,6 +103,40 @@ export function CallSentimentPlayer({
     ? Math.min(100, (currentTime / effectiveDuration) * 100)
     : 0;
 
+  const renderPeriod = (period: SpeechPeriod, color: string, label: string, key: string) => {
+    const leftPercent = (period.startMilliseconds / effectiveDuration) * 100;
+    const widthPercent = ((period.endMilliseconds - period.startMilliseconds) / effectiveDuration) * 100;
+    return (
+      <div
+        key={key}
+        className={clsx('absolute inset-y-0 rounded-sm', color)}
+        style={{ left: `${leftPercent}%`, width: `${Math.max(widthPercent, 0.3)}%` }}
+        title={`${label} (${formatTime(period.startMilliseconds)} - ${formatTime(period.endMilliseconds)})`}
+      />
+    );
+  };
+
+  const speechStats = speechMetrics
+    ? [
+        { label: 'Agent talk', value: `${Math.round(speechMetrics.agentTalkRatio * 100)}%` },
+        { label: 'Longest monologue', value: `${Math.round(speechMetrics.longestMonologueMilliseconds / 1000)}s` },
+        { label: 'Dead air', value: `${speechMetrics.deadAir.length} (${Math.round(speechMetrics.deadAirMilliseconds / 1000)}s)` },
+        { label: 'Holds', value: `${speechMetrics.holds.length} (${Math.round(speechMetrics.holdMilliseconds / 1000)}s)` },
+        { label: 'Overtalk', value: `${speechMetrics.overtalk.length} (${Math.round(speechMetrics.overtalkMilliseconds / 1000)}s)` },
+        { label: 'Interruptions', value: `${speechMetrics.agentInterruptions} agent / ${speechMetrics.customerInterruptions} customer` },
+        {
+          label: 'Words per minute',
+          value: `${speechMetrics.agentWordsPerMinute ?? '-'} agent / ${speechMetrics.customerWordsPerMinute ?? '-'} customer`,
+        },
+        {
+          label: 'First response',
+          value: speechMetrics.timeToFirstResponseMilliseconds !== undefined
+            ? formatTime(speechMetrics.timeToFirstResponseMilliseconds)
+            : '-',
+        },
+      ]
+    : [];
+
   const legend = (
     <div className="flex items-center gap-4 text-xs text-muted-foreground">
       {Object.entries(sentimentLabels).map(([key, label]) => (
@@ -156,6 +207,73 @@ export function CallSentimentPlayer({
         </div>
       )}
 
+      {/* Speaker timeline - talk turns per party, with dead air, holds and overtalk */}
+      {speechMetrics && effectiveDuration > 0 && (
+        <div className="space-y-3 rounded-lg border bg-card p-3">
+          <p className="text-sm font-medium text-foreground">Speaker Timeline</p>
+          <div className="space-y-1.5">
+            {(['agent', 'customer'] as const).map(party => (
+              <div key={party} className="flex items-center gap-2">
+                <span className="w-16 shrink-0 text-xs capitalize text-muted-foreground">{party}</span>
+                <div
+                  className="relative h-3 w-full cursor-pointer overflow-hidden rounded-full bg-muted"
+                  onClick={handleSeek}
+                >
+                  {speechMetrics.turns
+                    .filter(turn => turn.party === party)
+                    .map((turn, index) =>
+                      renderPeriod(turn, speakerLaneColors[party], party === 'agent' ? 'Agent' : 'Customer', `${party}-${index}`)
+                    )}
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-foreground"
+                    style={{ left: `${progressPercent}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <span className="w-16 shrink-0 text-xs text-muted-foreground">Events</span>
+              <div
+                className="relative h-3 w-full cursor-pointer overflow-hidden rounded-full bg-muted"
+                onClick={handleSeek}
+              >
+                {speechMetrics.deadAir.map((period, index) =>
+                  renderPeriod(period, eventColors.deadAir, 'Dead air', `dead-air-${index}`)
+                )}
+                {speechMetrics.holds.map((period, index) =>
+                  renderPeriod(period, eventColors.hold, 'Hold', `hold-${index}`)
+                )}
+                {speechMetrics.overtalk.map((period, index) =>
+                  renderPeriod(period, eventColors.overtalk, 'Overtalk', `overtalk-${index}`)
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+            {[
+              { color: speakerLaneColors.agent, label: 'Agent' },
+              { color: speakerLaneColors.customer, label: 'Customer' },
+              { color: eventColors.deadAir, label: 'Dead air' },
+              { color: eventColors.hold, label: 'Hold' },
+              { color: eventColors.overtalk, label: 'Overtalk' },
+            ].map(item => (
+              <div key={item.label} className="flex items-center gap-2">
+                <span className={clsx('inline-block h-2 w-6 rounded-sm', item.color)}></span>
+                <span>{item.label}</span>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs sm:grid-cols-4">
+            {speechStats.map(stat => (
+              <div key={stat.label}>
+                <div className="text-muted-foreground">{stat.label}</div>
+                <div className="font-medium text-foreground">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Message when no sentiment but audio exists */}
       {(!segments || segments.length === 0) && audioUrl && (
         <p className="text-sm text-muted-foreground">
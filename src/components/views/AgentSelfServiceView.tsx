@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { AccessContext } from '@/types/access-control';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartBar, CheckCircle, Phone, Target, TrendDown, TrendUp, Minus, XCircle } from '@phosphor-icons/react';
+import { CallDetailDialog } from '@/components/CallDetailDialog';
+import { CoachingPlanPanel } from '@/components/CoachingPlanPanel';
+import { PerformanceTrendChart } from '@/components/analytics/PerformanceTrendChart';
+import { calculateAgentPerformance, getAgentNameFromCall } from '@/lib/analytics';
+import { getEvaluationCriteriaForSchema } from '@/services/azure-openai';
+import { filterCallsForAgent } from '@/services/access-control';
+
+interface AgentSelfServiceViewProps {
+  activeSchema: SchemaDefinition | null;
+  schemaLoading: boolean;
+  access: AccessContext;
+}
+
+function EmptyState({ title, description }: { title: string; description: string }) {
+  return (
+    <Card className="p-12 text-center">
+      <div className="mx-auto max-w-md space-y-2">
+        <h3 className="text-lg font-semibold">{title}</h3>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * Restricted view for the agent role: only the signed-in agent's calls, scores and
+ * coaching plan, matched on the schema's participant_1 field
+ */
+export function AgentSelfServiceView({ activeSchema, schemaLoading, access }: AgentSelfServiceViewProps) {
+  const [allCalls] = useLocalStorage<CallRecord[]>('calls', []);
+  const [selectedCall, setSelectedCall] = useState<CallRecord | null>(null);
+
+  const calls = useMemo(
+    () => (activeSchema ? filterCallsForAgent(allCalls || [], activeSchema, access.agentName) : []),
+    [allCalls, activeSchema, access.agentName]
+  );
+  const sortedCalls = useMemo(
+    () => [...calls].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [calls]
+  );
+
+  // Coaching plans and trends are keyed by the name as written in the calls
+  const agentName = calls.length > 0 ? getAgentNameFromCall(calls[0]) : access.agentName || '';
+  const performance = useMemo(() => calculateAgentPerformance(calls)[0], [calls]);
+  const criteria = activeSchema ? getEvaluationCriteriaForSchema(activeSchema.id) : [];
+  const criterionName = (index: number) => criteria[index]?.name;
+
+  if (schemaLoading) {
+    return <EmptyState title="Loading..." description="Loading your calls" />;
+  }
+  if (!activeSchema) {
+    return <EmptyState title="No schema selected" description="Select a schema to see your calls" />;
+  }
+  if (!activeSchema.fields.some(f => f.semanticRole === 'participant_1')) {
+    return (
+      <EmptyState
+        title="No agent field"
+        description={`The ${activeSchema.name} schema has no Agent (participant_1) field, so calls cannot be matched to you.`}
+      />
+    );
+  }
+  if (!access.agentName) {
+    return (
+      <EmptyState
+        title="Account not linked to an agent"
+        description="Ask an administrator to set your agent name in Access Control."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold">{agentName}</h2>
+        <p className="text-sm text-muted-foreground">Your calls, scores and coaching in {activeSchema.name}</p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-xs text-muted-foreground flex items-center gap-1"><Phone size={14} /> Calls</div>
+            <div className="text-2xl font-bold">{calls.length}</div>
+            <div className="text-xs text-muted-foreground">{performance?.totalCalls ?? 0} evaluated</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-xs text-muted-foreground">Average Score</div>
+            <div className="text-2xl font-bold">{performance ? `${performance.averagePercentage.toFixed(1)}%` : '—'}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-xs text-muted-foreground">Pass Rate</div>
+            <div className="text-2xl font-bold">{performance ? `${performance.passRate?.toFixed(0) || 0}%` : '—'}</div>
+            <div className="text-xs text-muted-foreground">criteria passed</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-4">
+            <div className="text-xs text-muted-foreground">Trend</div>
+            {performance ? (
+              <Badge
+                variant={performance.trend === 'up' ? 'default' : performance.trend === 'down' ? 'destructive' : 'secondary'}
+                className="text-sm px-2 py-0.5 mt-1"
+              >
+                {performance.trend === 'up' && <TrendUp size={14} className="mr-1" />}
+                {performance.trend === 'down' && <TrendDown size={14} className="mr-1" />}
+                {performance.trend === 'stable' && <Minus size={14} className="mr-1" />}
+                {performance.trend}
+              </Badge>
+            ) : (
+              <div className="text-2xl font-bold">—</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="calls">
+        <TabsList>
+          <TabsTrigger value="calls">My Calls</TabsTrigger>
+          <TabsTrigger value="performance">Performance</TabsTrigger>
+          <TabsTrigger value="coaching">Coaching</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="calls" className="mt-4">
+          {sortedCalls.length === 0 ? (
+            <EmptyState title="No calls yet" description={`No calls are assigned to ${access.agentName} in this schema.`} />
+          ) : (
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-center">Score</TableHead>
+                    <TableHead>Failed Criteria</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedCalls.map(call => {
+                    const failed = call.evaluation?.results.filter(r => !r.passed && !r.notApplicable) ?? [];
+                    return (
+                      <TableRow key={call.id} className="cursor-pointer hover:bg-muted/50" onClick={() => setSelectedCall(call)}>
+                        <TableCell className="whitespace-nowrap">{new Date(call.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell><Badge variant="outline">{call.status}</Badge></TableCell>
+                        <TableCell className="text-center font-semibold">
+                          {call.evaluation ? `${call.evaluation.percentage}%` : '-'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {call.evaluation ? (failed.length > 0 ? `${failed.length} failed` : 'All passed') : ''}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="performance" className="mt-4 space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ChartBar size={18} />
+                Score Trend
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PerformanceTrendChart calls={calls} agentName={agentName} />
+            </CardContent>
+          </Card>
+          {performance && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Target size={18} />
+                  Strengths and Focus Areas
+                </CardTitle>
+                <CardDescription>Your best and weakest criteria across evaluated calls</CardDescription>
+              </CardHeader>
+              <CardContent className="grid md:grid-cols-2 gap-4 text-sm">
+                <div className="space-y-2">
+                  {performance.topStrengths.map(criterionName).filter(Boolean).map(name => (
+                    <div key={name} className="flex items-center gap-2">
+                      <CheckCircle size={16} className="text-green-600" weight="fill" />
+                      {name}
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  {performance.topWeaknesses.map(criterionName).filter(Boolean).map(name => (
+                    <div key={name} className="flex items-center gap-2">
+                      <XCircle size={16} className="text-red-600" weight="fill" />
+                      {name}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="coaching" className="mt-4">
+          <CoachingPlanPanel agentName={agentName} schemaId={activeSchema.id} readOnly />
+        </TabsContent>
+      </Tabs>
+
+      {selectedCall && (
+        <CallDetailDialog
+          call={selectedCall}
+          schema={activeSchema}
+          open={!!selectedCall}
+          onOpenChange={(open) => !open && setSelectedCall(null)}
+          onUpdate={() => {}}
+          readOnly
+        />
+      )}
+    </div>
+  );
+}
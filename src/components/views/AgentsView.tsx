@@ -1,9 +1,12 @@
 import { useState, useMemo } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { CallRecord, AgentPerformance } from '@/types/call';
+import { CallRecord, AgentPerformance, CallFilters } from '@/types/call';
 import { SchemaDefinition } from '@/types/schema';
+import { AccessContext } from '@/types/access-control';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { calculateAgentPerformance, formatDuration } from '@/lib/analytics';
+import { applyCallFilters, countActiveFilters } from '@/lib/call-filters';
+import { SIGNIFICANCE_LEVEL } from '@/lib/statistics';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
@@ -17,6 +20,8 @@ import { cn } from '@/lib/utils';
 interface AgentsViewProps {
   activeSchema: SchemaDefinition | null;
   schemaLoading: boolean;
+  filters: CallFilters;            // Global dashboard filters
+  access?: AccessContext;
 }
 
 // Helper to get rank badge
@@ -339,9 +344,23 @@ function LeaderboardView({ agents, onSelectAgent }: { agents: AgentPerformance[]
                 </div>
                 
                 <div className="flex-1 min-w-0">
-                  <div className="font-medium truncate">{agent.agentName}</div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{agent.agentName}</span>
+                    {agent.distinguishableFromNext === false && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs text-muted-foreground"
+                        title={`Not statistically different from #${index + 2} (p ≥ ${SIGNIFICANCE_LEVEL})`}
+                      >
+                        ≈ #{index + 2}
+                      </Badge>
+                    )}
+                  </div>
                   <div className="text-xs text-muted-foreground">
                     {agent.totalCalls} calls • {agent.passRate?.toFixed(0)}% pass rate
+                    {agent.passRateCI && (
+                      <> ({agent.passRateCI.lower.toFixed(0)}–{agent.passRateCI.upper.toFixed(0)}%)</>
+                    )}
                   </div>
                 </div>
                 
@@ -355,14 +374,25 @@ function LeaderboardView({ agents, onSelectAgent }: { agents: AgentPerformance[]
                   <Badge
                     variant={agent.trend === 'up' ? 'default' : agent.trend === 'down' ? 'destructive' : 'secondary'}
                     className="w-16 justify-center"
+                    title={agent.trendPValue !== undefined ? `Last 5 calls vs earlier: p = ${agent.trendPValue.toFixed(3)}` : 'Not enough calls to test a trend'}
                   >
                     {agent.trend === 'up' && <TrendUp size={12} className="mr-1" />}
                     {agent.trend === 'down' && <TrendDown size={12} className="mr-1" />}
                     {agent.trend}
                   </Badge>
                   
-                  <div className="text-right w-20">
-                    <div className="text-xl font-bold">{agent.averagePercentage.toFixed(1)}%</div>
+                  <div className="text-right w-24">
+                    <div
+                      className="text-xl font-bold"
+                      title={agent.adjustedPercentage !== undefined ? `Ranked on ${agent.adjustedPercentage.toFixed(1)}% (adjusted for call count)` : undefined}
+                    >
+                      {agent.averagePercentage.toFixed(1)}%
+                    </div>
+                    {agent.percentageCI && (
+                      <div className="text-xs text-muted-foreground">
+                        95% CI {agent.percentageCI.lower.toFixed(0)}–{agent.percentageCI.upper.toFixed(0)}
+                      </div>
+                    )}
                     <div className={cn(
                       "text-xs",
                       vsTeamAvg > 0 ? "text-green-600" : vsTeamAvg < 0 ? "text-red-600" : "text-muted-foreground"
@@ -380,16 +410,18 @@ function LeaderboardView({ agents, onSelectAgent }: { agents: AgentPerformance[]
   );
 }
 
-export function AgentsView({ activeSchema, schemaLoading }: AgentsViewProps) {
+export function AgentsView({ activeSchema, schemaLoading, filters, access }: AgentsViewProps) {
   const [allCalls] = useLocalStorage<CallRecord[]>('calls', []);
   const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'cards' | 'leaderboard'>('cards');
 
-  // Filter calls by active schema
+  // Filter calls by active schema and the dashboard filters
   const calls = useMemo(() => {
-    if (!activeSchema) return allCalls || [];
-    return (allCalls || []).filter(call => call.schemaId === activeSchema.id);
-  }, [allCalls, activeSchema]);
+    const schemaCalls = !activeSchema
+      ? allCalls || []
+      : (allCalls || []).filter(call => call.schemaId === activeSchema.id);
+    return applyCallFilters(schemaCalls, filters);
+  }, [allCalls, activeSchema, filters]);
 
   const agentPerformances = useMemo(() => calculateAgentPerformance(calls), [calls]);
   
@@ -404,9 +436,13 @@ export function AgentsView({ activeSchema, schemaLoading }: AgentsViewProps) {
         <div className="mx-auto max-w-md space-y-4">
           <Users className="h-12 w-12 mx-auto text-muted-foreground" />
           <div>
-            <h3 className="text-lg font-semibold">No agent data yet</h3>
+            <h3 className="text-lg font-semibold">
+              {countActiveFilters(filters) > 0 ? 'No agents match the current filters' : 'No agent data yet'}
+            </h3>
             <p className="text-sm text-muted-foreground mt-1">
-              Evaluate calls to see comprehensive agent performance metrics, rankings, and insights
+              {countActiveFilters(filters) > 0
+                ? 'Adjust or clear the filters to see agent performance'
+                : 'Evaluate calls to see comprehensive agent performance metrics, rankings, and insights'}
             </p>
           </div>
         </div>
@@ -466,6 +502,7 @@ export function AgentsView({ activeSchema, schemaLoading }: AgentsViewProps) {
           open={!!selectedAgent}
           onOpenChange={(open) => !open && setSelectedAgent(null)}
           schemaId={activeSchema?.id}
+          access={access}
         />
       )}
     </div>
@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import { CallRecord } from '@/types/call';
+import { CallRecord, CallFilters } from '@/types/call';
 import { SchemaDefinition, AnalyticsView as AnalyticsViewType } from '@/types/schema';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -26,15 +26,20 @@ import {
 } from '@/components/ui/select';
 import {
   calculateCriteriaAnalytics,
+  calculateRetiredCriteriaAnalytics,
+  calculateSectionAnalytics,
   calculateAgentPerformance,
   aggregateTopicAnalytics,
   aggregateKeyPhraseAnalytics,
   calculateOverviewKPIs,
+  calculateCalibrationAnalytics,
   formatDuration,
 } from '@/lib/analytics';
 import { CustomAnalyticsChart } from '@/components/analytics/CustomAnalyticsChart';
+import { applyCallFilters, countActiveFilters, toggleFieldFilter, withoutFieldFilter } from '@/lib/call-filters';
 import { KeyPhrasesCloud } from '@/components/analytics/KeyPhrasesCloud';
 import { InsightCategoryAnalytics } from '@/components/analytics/InsightCategoryAnalytics';
+import { CalibrationReport } from '@/components/analytics/CalibrationReport';
 import { AnalyticsConfigWizard } from '@/components/AnalyticsConfigWizard';
 import { getEvaluationCriteriaForSchema } from '@/services/azure-openai';
 import { regenerateInsights } from '@/services/azure-openai';
@@ -57,9 +62,11 @@ import {
 interface AnalyticsViewProps {
   activeSchema: SchemaDefinition | null;
   schemaLoading: boolean;
+  filters: CallFilters;            // Global dashboard filters
+  onFiltersChange: (filters: CallFilters) => void;
 }
 
-export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProps) {
+export function AnalyticsView({ activeSchema, schemaLoading, filters, onFiltersChange }: AnalyticsViewProps) {
   const [allCalls, setAllCalls] = useLocalStorage<CallRecord[]>('calls', []);
   const [regenerationMode, setRegenerationMode] = useState<'missing' | 'all'>('missing');
   const [isRegenerating, setIsRegenerating] = useState(false);
@@ -70,14 +77,21 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
   const [selectedInsightCategory, setSelectedInsightCategory] = useState<string>('');
 
   // Filter calls by active schema
-  const calls = useMemo(() => {
+  const schemaCalls = useMemo(() => {
     if (!activeSchema) return allCalls || [];
     return (allCalls || []).filter(call => call.schemaId === activeSchema.id);
   }, [allCalls, activeSchema]);
 
+  // Calls matching the dashboard filters - every card and chart aggregates these
+  const calls = useMemo(() => applyCallFilters(schemaCalls, filters), [schemaCalls, filters]);
+  const hasFilters = countActiveFilters(filters) > 0;
+
   const evaluatedCalls = calls.filter((c) => c.evaluation);
   const criteriaAnalytics = calculateCriteriaAnalytics(calls);
+  const retiredCriteria = calculateRetiredCriteriaAnalytics(calls);
+  const sectionAnalytics = calculateSectionAnalytics(calls);
   const agentPerformances = calculateAgentPerformance(calls);
+  const calibrationAnalytics = useMemo(() => calculateCalibrationAnalytics(calls), [calls]);
 
   // Get enabled insight categories from schema
   const enabledInsightCategories = useMemo(() => {
@@ -129,7 +143,7 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
 
     try {
       const updatedCalls = await regenerateInsights(
-        calls,
+        schemaCalls,
         activeSchema,
         regenerationMode,
         (current, total, callId) => {
@@ -158,9 +172,13 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
       <Card className="p-12 text-center">
         <div className="mx-auto max-w-md space-y-4">
           <div>
-            <h3 className="text-lg font-semibold">No evaluations yet</h3>
+            <h3 className="text-lg font-semibold">
+              {hasFilters ? 'No evaluations match the current filters' : 'No evaluations yet'}
+            </h3>
             <p className="text-sm text-muted-foreground mt-1">
-              Upload and evaluate calls to see analytics and insights
+              {hasFilters
+                ? 'Adjust or clear the filters to see analytics and insights'
+                : 'Upload and evaluate calls to see analytics and insights'}
             </p>
           </div>
         </div>
@@ -266,10 +284,11 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
       {/* Tabbed Analytics */}
       <Tabs defaultValue="overview" className="space-y-4">
         <div className="flex items-center justify-between">
-          <TabsList className="grid grid-cols-3 w-full max-w-md">
+          <TabsList className="grid grid-cols-4 w-full max-w-lg">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="insights">Insights</TabsTrigger>
             <TabsTrigger value="improvement">Improvement</TabsTrigger>
+            <TabsTrigger value="calibration">Calibration</TabsTrigger>
           </TabsList>
 
         </div>
@@ -338,6 +357,9 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
                 <div className="text-3xl font-bold">{overviewKPIs.avgScore.toFixed(1)}%</div>
                 <p className="text-xs text-muted-foreground mt-1">
                   Quality score
+                  {overviewKPIs.autoFailedCalls > 0 && (
+                    <span className="text-destructive"> · {overviewKPIs.autoFailedCalls} auto-failed</span>
+                  )}
                 </p>
               </CardContent>
             </Card>
@@ -563,6 +585,35 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
 
         {/* Areas for Improvement (existing) */}
         <TabsContent value="improvement">
+          {/* Weighted scorecard sections, weakest first */}
+          {sectionAnalytics.length > 1 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Scorecard Sections</CardTitle>
+                <CardDescription>Average section score across evaluated calls</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {[...sectionAnalytics]
+                  .sort((a, b) => a.averagePercentage - b.averagePercentage)
+                  .map((section) => (
+                    <div key={section.sectionId} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">
+                          {section.name}
+                          <span className="ml-2 text-xs text-muted-foreground">weight {section.weight}</span>
+                        </span>
+                        <span>
+                          {section.averagePercentage.toFixed(0)}%
+                          <span className="ml-1 text-xs text-muted-foreground">({section.evaluatedCalls} calls)</span>
+                        </span>
+                      </div>
+                      <Progress value={section.averagePercentage} className="h-2" />
+                    </div>
+                  ))}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Areas for Improvement</CardTitle>
@@ -571,17 +622,19 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
               <div className="space-y-4">
                 {weakestCriteria.map((analytics) => {
                   const schemaCriteria = activeSchema ? getEvaluationCriteriaForSchema(activeSchema.id) : [];
-                  const criterion = schemaCriteria.find(c => c.id === analytics.criterionId);
+                  const criterion = schemaCriteria.find(c =>
+                    analytics.criterionKey ? c.key === analytics.criterionKey : c.id === analytics.criterionId
+                  );
                   return (
                     <div
-                      key={analytics.criterionId}
+                      key={analytics.criterionKey ?? analytics.criterionId}
                       className="flex items-start justify-between p-4 border border-border rounded-lg"
                     >
                       <div className="space-y-1 flex-1">
                         <h4 className="font-medium">{criterion?.name}</h4>
                         <p className="text-sm text-muted-foreground">
                           Pass rate: {analytics.passRate.toFixed(1)}% ({analytics.totalEvaluations}{' '}
-                          evaluations)
+                          evaluations{analytics.notApplicableCount > 0 && `, ${analytics.notApplicableCount} N/A`})
                         </p>
                         {analytics.commonIssues.length > 0 && (
                           <div className="mt-2">
@@ -605,6 +658,42 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
               </div>
             </CardContent>
           </Card>
+
+          {/* Criteria removed from the rule set - kept so older results stay interpretable */}
+          {retiredCriteria.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Retired Criteria</CardTitle>
+                <CardDescription>
+                  Criteria no longer in the current rules, from calls evaluated before they were removed
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {retiredCriteria.map((analytics) => (
+                    <div
+                      key={analytics.criterionKey}
+                      className="flex items-center justify-between p-3 border border-dashed border-border rounded-lg"
+                    >
+                      <div className="space-y-1">
+                        <h4 className="font-medium text-muted-foreground">{analytics.criterionName}</h4>
+                        <p className="text-xs text-muted-foreground">
+                          {analytics.totalEvaluations} evaluations, last on{' '}
+                          {new Date(analytics.lastEvaluatedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Badge variant="outline">{analytics.passRate.toFixed(0)}% pass</Badge>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        {/* AI-vs-human calibration from QA reviews */}
+        <TabsContent value="calibration">
+          <CalibrationReport analytics={calibrationAnalytics} />
         </TabsContent>
       </Tabs>
 
@@ -613,6 +702,7 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
         <Card className="mt-6">
           <CardHeader>
             <CardTitle>Custom Analytics</CardTitle>
+            <CardDescription>Click a bar or pie slice to filter the whole dashboard</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -625,7 +715,13 @@ export function AnalyticsView({ activeSchema, schemaLoading }: AnalyticsViewProp
                     )}
                   </CardHeader>
                   <CardContent>
-                    <CustomAnalyticsChart view={view} calls={calls} schema={activeSchema!} />
+                    <CustomAnalyticsChart
+                      view={view}
+                      calls={applyCallFilters(schemaCalls, withoutFieldFilter(filters, view.dimensionField))}
+                      schema={activeSchema!}
+                      selectedValues={view.dimensionField ? filters.fields?.[view.dimensionField] : undefined}
+                      onSelectValue={(value) => onFiltersChange(toggleFieldFilter(filters, view.dimensionField, value))}
+                    />
                   </CardContent>
                 </Card>
               ))}
@@ -2,9 +2,10 @@ import { useState, useEffect } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { CallRecord } from '@/types/call';
 import { SchemaDefinition } from '@/types/schema';
+import { AccessContext, Permission } from '@/types/access-control';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Upload, MagnifyingGlass, ArrowCounterClockwise, Microphone, FileCsv, Sparkle, ChartBar, SpeakerHigh, FileArchive } from '@phosphor-icons/react';
+import { Upload, MagnifyingGlass, ArrowCounterClockwise, Microphone, FileCsv, Sparkle, ChartBar, SpeakerHigh, FileArchive, Broadcast, FolderOpen, Copy } from '@phosphor-icons/react';
 import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
@@ -12,26 +13,36 @@ import { CallsTable } from '@/components/CallsTable';
 import { UploadDialog } from '@/components/UploadDialog';
 import { CallDetailDialog } from '@/components/CallDetailDialog';
 import { ImportCSVDialog } from '@/components/ImportCSVDialog';
+import { LiveCallDialog } from '@/components/LiveCallDialog';
+import { IngestionDialog } from '@/components/IngestionDialog';
+import { DuplicateCallsDialog } from '@/components/DuplicateCallsDialog';
 import { SyntheticMetadataWizard } from '@/components/SyntheticMetadataWizard';
 import { transcriptionService } from '@/services/transcription';
 import { azureOpenAIService } from '@/services/azure-openai';
 import { restoreAudioFilesFromStorage } from '@/lib/csv-parser';
 import { toast } from 'sonner';
-import { generateSyntheticAudioBatch } from '@/services/synthetic-audio';
-import { LLMCaller } from '@/llmCaller';
-import { BrowserConfigManager } from '@/services/browser-config-manager';
+import { isLLMConfigured } from '@/services/browser-config-manager';
 import { storeAudioFile } from '@/lib/audio-storage';
 import { exportCalls, ExportProgress } from '@/services/call-export';
+import { appendEvaluation } from '@/lib/evaluation-history';
+import { getJobQueue, JobType, toQueueItem } from '@/services/job-queue';
+import { useJobQueue } from '@/hooks/useJobQueue';
+import { JobQueuePanel } from '@/components/JobQueuePanel';
+import { checkBudget, estimateCallCost } from '@/services/usage-tracker';
+import { UsageOperation } from '@/types/usage';
+import { hasPermission } from '@/services/access-control';
+import { applyImport } from '@/services/duplicate-detection';
 
 interface CallsViewProps {
-  batchProgress: { completed: number; total: number } | null;
-  setBatchProgress: (progress: { completed: number; total: number } | null) => void;
   activeSchema: SchemaDefinition | null;
   schemaLoading: boolean;
+  onSchemaUpdate?: (schema: SchemaDefinition) => void;
+  access?: AccessContext;          // Hides actions the signed-in role may not use
 }
 
-export function CallsView({ batchProgress, setBatchProgress, activeSchema, schemaLoading }: CallsViewProps) {
+export function CallsView({ activeSchema, schemaLoading, onSchemaUpdate, access }: CallsViewProps) {
   const [calls, setCalls] = useLocalStorage<CallRecord[]>('calls', []);
+  const can = (permission: Permission) => !access || hasPermission(access, permission);
   
   // Restore audio files from IndexedDB on mount
   useEffect(() => {
@@ -58,10 +69,12 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
   const [uploadOpen, setUploadOpen] = useState(false);
   const [importCSVOpen, setImportCSVOpen] = useState(false);
   const [syntheticWizardOpen, setSyntheticWizardOpen] = useState(false);
+  const [liveCallOpen, setLiveCallOpen] = useState(false);
+  const [ingestionOpen, setIngestionOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
   const [selectedCall, setSelectedCall] = useState<CallRecord | null>(null);
   const [transcribingIds, setTranscribingIds] = useState<Set<string>>(new Set());
   const [evaluatingIds, setEvaluatingIds] = useState<Set<string>>(new Set());
-  const [generatingAudioIds, setGeneratingAudioIds] = useState<Set<string>>(new Set());
   const [selectedCallIds, setSelectedCallIds] = useState<Set<string>>(new Set());
   const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
   const [isExporting, setIsExporting] = useState(false);
@@ -70,6 +83,20 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
     setCalls(updater);
   };
 
+  // Background jobs run from App (hooks/useJobHandlers.ts); this view queues them and shows progress
+  const { jobs } = useJobQueue();
+
+  // Apply an update to the latest version of a call (jobs for the same call may finish concurrently)
+  const patchCall = (callId: string, patch: (call: CallRecord) => CallRecord) => {
+    onUpdateCalls((prev) => (prev || []).map((c) => (c.id === callId ? patch(c) : c)));
+  };
+
+  // Show per-row spinners for calls with running queue jobs
+  const runningJobCallIds = (type: JobType) =>
+    jobs.filter(j => j.type === type && j.status === 'running').map(j => j.callId);
+  const tableTranscribingIds = new Set([...transcribingIds, ...runningJobCallIds('transcription')]);
+  const tableEvaluatingIds = new Set([...evaluatingIds, ...runningJobCallIds('evaluation')]);
+
   const handleTranscribe = async (call: CallRecord) => {
     if (!transcriptionService.isConfigured()) {
       toast.error('Please configure Azure Speech services first');
@@ -147,8 +174,7 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
       );
 
       const updatedCall: CallRecord = {
-        ...call,
-        evaluation,
+        ...appendEvaluation(call, evaluation),
         status: 'evaluated',
         updatedAt: new Date().toISOString(),
       };
@@ -168,187 +194,51 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
     }
   };
 
-  const handleEvaluateSelected = async () => {
-    try {
-      // Filter for selected calls that have transcripts (allow re-evaluation of already evaluated calls)
-      const callsToEvaluate = (calls || []).filter(
-        (call) => selectedCallIds.has(call.id) && call.transcript
-      );
-
-      if (callsToEvaluate.length === 0) {
-        toast.error('No transcribed calls selected for evaluation. Please select calls that have been transcribed.');
-        return;
-      }
-
-      if (!activeSchema) {
-        toast.error('Please select a schema first');
-        return;
-      }
-
-      // Get batch settings from config
-      const azureConfig = loadAzureConfigFromCookie();
-      const parallelBatches = azureConfig?.syntheticData?.parallelBatches ?? 3;
-      const totalBatchGroups = Math.ceil(callsToEvaluate.length / parallelBatches);
-
-      console.log(`📊 Evaluation batch settings: ${parallelBatches} parallel, ${callsToEvaluate.length} calls, ${totalBatchGroups} batch groups`);
-
-      // Mark all calls as evaluating
-      const callIdsToEvaluate = new Set(callsToEvaluate.map(c => c.id));
-      setEvaluatingIds(callIdsToEvaluate);
-
-      const startTime = Date.now();
-      toast.info(`🚀 Starting evaluation: ${callsToEvaluate.length} calls in ${totalBatchGroups} batch group(s) (${parallelBatches} parallel)`);
-
-      // Set up progress tracking
-      setBatchProgress({ completed: 0, total: callsToEvaluate.length });
-
-    let completedCount = 0;
-    let successCount = 0;
-    let failCount = 0;
-
-    // Collect all updates to apply in a single batch (avoid race conditions)
-    const updatesToApply: CallRecord[] = [];
-
-    // Process in parallel batches - NO STATE UPDATES during loop
-    for (let i = 0; i < callsToEvaluate.length; i += parallelBatches) {
-      const batch = callsToEvaluate.slice(i, i + parallelBatches);
-      const batchGroupNum = Math.floor(i / parallelBatches) + 1;
-      
-      console.log(`🔄 Starting batch group ${batchGroupNum}/${totalBatchGroups} with ${batch.length} parallel calls`);
-      toast.info(`Processing batch ${batchGroupNum}/${totalBatchGroups} (${batch.length} parallel calls)...`);
-      
-      // Process batch in parallel - all calls in this batch start simultaneously
-      const batchPromises = batch.map(async (call) => {
-        console.log(`  ▶️ Starting evaluation for call ${call.id}`);
-        try {
-          const evaluation = await azureOpenAIService.evaluateCall(
-            call.transcript!,
-            call.metadata,
-            activeSchema,
-            call.id,
-          );
-
-          let sentimentSegments = call.sentimentSegments;
-          let sentimentSummary = call.sentimentSummary;
-          let overallSentiment = call.overallSentiment;
-
-          // Always run sentiment analysis if we have transcript phrases
-          if (call.transcriptPhrases && call.transcriptPhrases.length > 0) {
-            try {
-              const businessContext = activeSchema.businessContext || activeSchema.name || 'call center';
-              const sentiment = await azureOpenAIService.analyzeSentimentTimeline(
-                call.id,
-                call.transcriptPhrases,
-                call.transcriptLocale || 'en-US',
-                ['positive', 'neutral', 'negative'],
-                businessContext
-              );
-              sentimentSegments = sentiment.segments;
-              sentimentSummary = sentiment.summary;
-
-              // Also analyze overall sentiment for analytics
-              overallSentiment = await azureOpenAIService.analyzeOverallSentiment(
-                call.id,
-                call.transcript!,
-                call.metadata,
-                activeSchema
-              );
-              
-              console.log(`  ✓ Sentiment analysis completed for call ${call.id}`);
-            } catch (error) {
-              console.warn(`  ⚠️ Sentiment analysis failed for ${call.id}:`, error);
-              // Don't fail the whole evaluation if sentiment fails
-            }
-          }
-
-          const updatedCall: CallRecord = {
-            ...call,
-            evaluation,
-            sentimentSegments,
-            sentimentSummary,
-            overallSentiment,
-            status: 'evaluated',
-            updatedAt: new Date().toISOString(),
-          };
-          
-          console.log(`  ✅ Completed evaluation for call ${call.id}: ${evaluation.percentage}%`);
-          successCount++;
-          return { success: true, call: updatedCall };
-        } catch (error) {
-          console.error(`  ❌ Evaluation error for ${call.id}:`, error);
-          failCount++;
-          return { success: false, callId: call.id, error };
-        }
-      });
-
-      // Wait for this batch to complete before starting the next
-      console.log(`⏳ Waiting for batch group ${batchGroupNum} to complete...`);
-      const results = await Promise.all(batchPromises);
-      console.log(`✅ Batch group ${batchGroupNum} completed - ${results.length} results received`);
-      
-      // Collect successful updates
-      let batchSuccessCount = 0;
-      for (const result of results) {
-        if (result.success && result.call) {
-          updatesToApply.push(result.call);
-          batchSuccessCount++;
-        }
-      }
-      console.log(`📦 Collected ${batchSuccessCount} successful updates from batch ${batchGroupNum}`);
-      
-      // Update completed count for progress
-      completedCount += batch.length;
-      console.log(`📊 Progress: ${completedCount}/${callsToEvaluate.length} calls processed (${updatesToApply.length} total successful so far)`);
+  /**
+   * Check a bulk operation against the active schema's monthly AI budget.
+   * Warns (and continues) or blocks depending on the schema's enforcement setting.
+   */
+  const confirmBudget = (operations: UsageOperation[], callCount: number): boolean => {
+    if (!activeSchema?.budget) return true;
+
+    const estimate = estimateCallCost(activeSchema.id, operations, calls || []) * callCount;
+    const check = checkBudget(activeSchema, estimate, calls || []);
+    if (check.status === 'block') {
+      toast.error(check.message);
+      return false;
     }
+    if (check.status === 'warn') {
+      toast.warning(check.message);
+    }
+    return true;
+  };
 
-    console.log(`🎯 Batch loop completed! Total successful evaluations to apply: ${updatesToApply.length}`);
+  const handleEvaluateSelected = () => {
+    // Filter for selected calls that have transcripts (allow re-evaluation of already evaluated calls)
+    const callsToEvaluate = (calls || []).filter(
+      (call) => selectedCallIds.has(call.id) && call.transcript
+    );
 
-    // Apply all updates in a single batch to avoid race conditions
-    console.log(`📊 Applying ${updatesToApply.length} call updates in single batch`);
-    console.log('📊 Updates to apply:', updatesToApply.map(u => ({ id: u.id, status: u.status, score: u.evaluation?.percentage })));
-    
-    if (updatesToApply.length > 0) {
-      onUpdateCalls((prev) => {
-        console.log('📊 onUpdateCalls callback - prev length:', prev?.length || 0);
-        const updated = (prev || []).map((c) => {
-          const update = updatesToApply.find(u => u.id === c.id);
-          if (update) {
-            console.log(`  📝 Updating call ${c.id} from status "${c.status}" to "${update.status}"`);
-          }
-          return update || c;
-        });
-        console.log('📊 onUpdateCalls callback - returning updated array, length:', updated.length);
-        console.log('📊 Updated statuses:', updated.map(c => ({ id: c.id, status: c.status, score: c.evaluation?.percentage })));
-        return updated;
-      });
+    if (callsToEvaluate.length === 0) {
+      toast.error('No transcribed calls selected for evaluation. Please select calls that have been transcribed.');
+      return;
     }
-    
-      console.log('✅ State update completed, clearing progress indicators');
-      
-      // Clear evaluating state and progress
-      setEvaluatingIds(new Set());
-      setBatchProgress(null);
-      setSelectedCallIds(new Set());
 
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+    if (!activeSchema) {
+      toast.error('Please select a schema first');
+      return;
+    }
 
-      if (failCount === 0) {
-        toast.success(`✅ Evaluated ${successCount} calls in ${duration}s`);
-      } else {
-        toast.warning(`Completed: ${successCount} succeeded, ${failCount} failed in ${duration}s`);
-      }
-    } catch (error) {
-      console.error('❌ FATAL ERROR in handleEvaluateSelected:', error);
-      console.error('❌ Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-      toast.error(`Evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      
-      // Clean up state on error
-      setEvaluatingIds(new Set());
-      setBatchProgress(null);
+    if (!confirmBudget(['evaluation', 'sentiment-timeline', 'overall-sentiment'], callsToEvaluate.length)) {
+      return;
     }
+
+    const queued = getJobQueue().enqueue('evaluation', callsToEvaluate.map(call => toQueueItem(call, activeSchema)));
+    setSelectedCallIds(new Set());
+    toast.info(`📋 Queued ${queued.length} call(s) for evaluation`);
   };
 
-  const handleGenerateAudioSelected = async () => {
+  const handleGenerateAudioSelected = () => {
     // Filter for selected calls that have transcripts
     const callsToGenerate = (calls || []).filter(
       (call) => selectedCallIds.has(call.id) && call.transcriptPhrases && call.transcriptPhrases.length > 0
@@ -378,248 +268,50 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
     }
 
     // Check OpenAI config - managedIdentity doesn't need apiKey (backend handles auth)
-    const hasOpenAIConfig = azureConfig?.openAI?.authType === 'managedIdentity'
-      ? true
-      : (azureConfig?.openAI?.endpoint && azureConfig?.openAI?.apiKey);
+    const hasOpenAIConfig = isLLMConfigured(azureConfig?.openAI);
     
     if (!hasOpenAIConfig) {
       toast.error('Azure OpenAI not configured. Needed for gender detection from names.');
       return;
     }
 
-    if (azureConfig.tts?.enabled === false) {
+    if (azureConfig?.tts?.enabled === false) {
       toast.error('Synthetic audio generation is disabled. Enable it in Configuration.');
       return;
     }
 
-    // Mark all calls as generating
-    const callIdsToGenerate = new Set(callsToGenerate.map(c => c.id));
-    setGeneratingAudioIds(callIdsToGenerate);
-
-    const startTime = Date.now();
-    toast.info(`🔊 Generating synthetic audio for ${callsToGenerate.length} call(s)...`);
-
-    // Set up progress tracking
-    setBatchProgress({ completed: 0, total: callsToGenerate.length });
-
-    try {
-      // Create LLM caller for gender detection using shared BrowserConfigManager
-      const llmCaller = new LLMCaller(new BrowserConfigManager({
-        endpoint: azureConfig.openAI.endpoint,
-        apiKey: azureConfig.openAI.apiKey,
-        deploymentName: azureConfig.openAI.deploymentName,
-        apiVersion: azureConfig.openAI.apiVersion,
-        reasoningEffort: azureConfig.openAI.reasoningEffort,
-        authType: azureConfig.openAI.authType || 'apiKey',
-        tenantId: azureConfig.openAI.tenantId,
-      }));
-
-      let successCount = 0;
-      let failCount = 0;
-      let skippedCount = 0;
-
-      const results = await generateSyntheticAudioBatch(
-        callsToGenerate,
-        activeSchema,
-        llmCaller,
-        azureConfig,
-        async (callIndex, totalCalls, callId, status) => {
-          setBatchProgress({ completed: callIndex, total: totalCalls });
-          
-          if (status === 'completed') {
-            successCount++;
-          } else if (status === 'failed') {
-            failCount++;
-          } else if (status === 'skipped') {
-            skippedCount++;
-          }
-
-          // Remove from generating set when done
-          if (status === 'completed' || status === 'failed' || status === 'skipped') {
-            setGeneratingAudioIds((prev) => {
-              const next = new Set(prev);
-              next.delete(callId);
-              return next;
-            });
-          }
-        }
-      );
-
-      console.log(`🔊 Batch generation complete. Results:`, Array.from(results.entries()).map(([id, r]) => ({ id, hasResult: !!r })));
-
-      // Collect all updates to apply in a single batch
-      const updatesToApply: Array<{ callId: string; audioBlob: Blob; voiceAssignments: string }> = [];
-      
-      for (const [callId, result] of results) {
-        if (result) {
-          console.log(`🔊 Storing audio for call ${callId}, blob size: ${result.audioBlob.size}`);
-          // Store audio in IndexedDB
-          await storeAudioFile(callId, result.audioBlob);
-          
-          updatesToApply.push({
-            callId,
-            audioBlob: result.audioBlob,
-            voiceAssignments: result.voiceAssignments
-              .map(v => `${v.speakerLabel}: ${v.voiceName}`)
-              .join(', '),
-          });
-        }
-      }
-
-      console.log(`🔊 Applying ${updatesToApply.length} call updates in single batch`);
-
-      // Apply all updates in a single state update to avoid race conditions
-      if (updatesToApply.length > 0) {
-        onUpdateCalls((prev) => {
-          const updated = (prev || []).map((c) => {
-            const update = updatesToApply.find(u => u.callId === c.id);
-            if (update) {
-              console.log(`🔊 Updating call ${c.id} with synthetic audio`);
-              return {
-                ...c,
-                audioFile: update.audioBlob,
-                metadata: {
-                  ...c.metadata,
-                  syntheticAudioGenerated: true,
-                  syntheticAudioVoices: update.voiceAssignments,
-                },
-                updatedAt: new Date().toISOString(),
-              };
-            }
-            return c;
-          });
-          return updated;
-        });
-      }
-
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-
-      if (failCount === 0 && skippedCount === 0) {
-        toast.success(`✅ Generated synthetic audio for ${successCount} calls in ${duration}s`);
-      } else if (skippedCount > 0) {
-        toast.warning(`Generated ${successCount} audio files, ${skippedCount} skipped (no transcript), ${failCount} failed in ${duration}s`);
-      } else {
-        toast.warning(`Generated ${successCount} audio files, ${failCount} failed in ${duration}s`);
-      }
-    } catch (error) {
-      console.error('Batch audio generation error:', error);
-      toast.error(error instanceof Error ? error.message : 'Batch audio generation failed');
-    } finally {
-      setGeneratingAudioIds(new Set());
-      setSelectedCallIds(new Set());
-      setBatchProgress(null);
+    if (!confirmBudget(['gender-detection', 'tts'], callsToGenerate.length)) {
+      return;
     }
+
+    const queued = getJobQueue().enqueue('synthetic-audio', callsToGenerate.map(call => toQueueItem(call, activeSchema)));
+    setSelectedCallIds(new Set());
+    toast.info(`🔊 Queued synthetic audio for ${queued.length} call(s)`);
   };
 
-  const handleTranscribeSelected = async () => {
-    console.log('🔍 Selected call IDs:', Array.from(selectedCallIds));
-    console.log('🔍 All calls:', (calls || []).map(c => ({ 
-      id: c.id, 
-      borrower: c.metadata.borrowerName, 
-      hasAudio: !!c.audioFile,
-      audioType: c.audioFile instanceof Blob ? 'Blob' : typeof c.audioFile
-    })));
-    
+  const handleTranscribeSelected = () => {
     const callsToTranscribe = (calls || []).filter(
       (call) => selectedCallIds.has(call.id) && call.audioFile,
     );
 
-    console.log('🔍 Calls to transcribe:', callsToTranscribe.map(c => c.metadata.borrowerName));
-
     if (callsToTranscribe.length === 0) {
       toast.error('Selected calls have no audio files attached. Please check that audio files were properly loaded.');
       return;
     }
 
-    // Mark all calls as processing
-    const callIdsToTranscribe = new Set(callsToTranscribe.map(c => c.id));
-    setTranscribingIds(callIdsToTranscribe);
-    onUpdateCalls((prev) => 
-      (prev || []).map((c) => 
-        callIdsToTranscribe.has(c.id)
-          ? { ...c, status: 'processing' as const, updatedAt: new Date().toISOString() }
-          : c
-      )
-    );
-
-    const startTime = Date.now();
-    toast.info(`🚀 Starting parallel transcription for ${callsToTranscribe.length} call(s)...`);
-
-    try {
-      // Use parallel transcription with concurrency limit of 5
-      const results = await transcriptionService.transcribeCallsParallel(
-        callsToTranscribe,
-        {},
-        (callId, status, completed, total, completedCall) => {
-          console.log(`Progress: ${callId} - ${status} (${completed}/${total})`);
-          
-          // Update progress bar
-          setBatchProgress({ completed, total });
-          
-          // Update the individual call with real-time data
-          onUpdateCalls((prev) => 
-            (prev || []).map((c) => {
-              if (c.id !== callId) return c;
-              
-              // If we have the completed call data, use it immediately
-              if (completedCall && (status === 'completed' || status === 'failed')) {
-                return completedCall;
-              }
-              
-              // Otherwise, just update status based on progress messages
-              if (status === 'Evaluation complete!') {
-                return { ...c, status: 'evaluated' as const, updatedAt: new Date().toISOString() };
-              } else if (status === 'Transcription complete!') {
-                return { ...c, status: 'transcribed' as const, updatedAt: new Date().toISOString() };
-              } else {
-                // Keep as processing but update timestamp to show activity
-                return { ...c, status: 'processing' as const, updatedAt: new Date().toISOString() };
-              }
-            })
-          );
-          
-          // Remove from transcribing set when completed
-          if (status === 'completed' || status === 'failed') {
-            setTranscribingIds((prev) => {
-              const next = new Set(prev);
-              next.delete(callId);
-              return next;
-            });
-          }
-        },
-        5, // Process 5 calls at a time
-        activeSchema // Pass schema for sentiment analysis and evaluation
-      );
-
-      // Update all calls with their results
-      onUpdateCalls((prev) => {
-        const updated = prev || [];
-        return updated.map((c) => {
-          const result = results.find(r => r.id === c.id);
-          return result || c;
-        });
-      });
+    if (!transcriptionService.isConfigured()) {
+      toast.error('Please configure Azure Speech services first');
+      return;
+    }
 
-      const successful = results.filter(r => r.status === 'transcribed' || r.status === 'evaluated').length;
-      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-      toast.success(`✅ Finished: ${successful}/${callsToTranscribe.length} successful in ${duration}s`);
-    } catch (error) {
-      console.error('Batch transcription error:', error);
-      toast.error(error instanceof Error ? error.message : 'Batch transcription failed');
-      
-      // Reset all processing calls on error
-      onUpdateCalls((prev) => 
-        (prev || []).map((c) => 
-          callIdsToTranscribe.has(c.id)
-            ? { ...c, status: 'uploaded' as const, updatedAt: new Date().toISOString() }
-            : c
-        )
-      );
-    } finally {
-      setTranscribingIds(new Set());
-      setSelectedCallIds(new Set());
-      setBatchProgress(null);
+    // Transcription also runs sentiment and evaluation on the result
+    if (!confirmBudget(['stt', 'sentiment-timeline', 'overall-sentiment', 'evaluation'], callsToTranscribe.length)) {
+      return;
     }
+
+    const queued = getJobQueue().enqueue('transcription', callsToTranscribe.map(call => toQueueItem(call, activeSchema)));
+    setSelectedCallIds(new Set());
+    toast.info(`🚀 Queued ${queued.length} call(s) for transcription`);
   };
 
   const handleSelectAll = () => {
@@ -766,6 +458,18 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
     }
   };
 
+  // Merged calls may have taken their audio from a call that was merged away - store it under the kept ID
+  const storeMergedAudio = (mergedCalls: CallRecord[], ids: string[]) => {
+    const idSet = new Set(ids);
+    mergedCalls
+      .filter(c => idSet.has(c.id) && c.audioFile)
+      .forEach(c => {
+        storeAudioFile(c.id, c.audioFile!, c.schemaId).catch((error) => {
+          console.error(`Failed to store merged audio for ${c.id}:`, error);
+        });
+      });
+  };
+
   const handleReset = () => {
     if (window.confirm('Are you sure you want to delete all call records? This action cannot be undone.')) {
       setCalls([]);
@@ -775,25 +479,7 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
 
   return (
     <div className="space-y-6">
-      {batchProgress && (
-        <Card className="p-4">
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <span className="font-medium">Processing calls...</span>
-              <span className="text-muted-foreground">
-                {batchProgress.completed} / {batchProgress.total} completed
-              </span>
-            </div>
-            <Progress 
-              value={(batchProgress.completed / batchProgress.total) * 100} 
-              className="h-2"
-            />
-            <p className="text-xs text-muted-foreground">
-              {Math.round((batchProgress.completed / batchProgress.total) * 100)}% complete
-            </p>
-          </div>
-        </Card>
-      )}
+      <JobQueuePanel />
       {exportProgress && (
         <Card className="p-4">
           <div className="space-y-2">
@@ -835,22 +521,28 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
         <div className="flex items-center gap-2">
           {selectedCallIds.size > 0 && (
             <>
-              <Button onClick={handleTranscribeSelected} variant="default">
-                <Microphone className="mr-2" size={18} />
-                Transcribe Selected ({selectedCallIds.size})
-              </Button>
-              <Button onClick={handleEvaluateSelected} variant="default">
-                <ChartBar className="mr-2" size={18} />
-                Evaluate Selected ({selectedCallIds.size})
-              </Button>
-              <Button onClick={handleGenerateAudioSelected} variant="outline">
-                <SpeakerHigh className="mr-2" size={18} />
-                Generate Audio ({selectedCallIds.size})
-              </Button>
-              <Button onClick={handleExport} variant="outline" disabled={isExporting}>
-                <FileArchive className="mr-2" size={18} />
-                Export ({selectedCallIds.size})
-              </Button>
+              {can('calls.process') && (
+                <>
+                  <Button onClick={handleTranscribeSelected} variant="default">
+                    <Microphone className="mr-2" size={18} />
+                    Transcribe Selected ({selectedCallIds.size})
+                  </Button>
+                  <Button onClick={handleEvaluateSelected} variant="default">
+                    <ChartBar className="mr-2" size={18} />
+                    Evaluate Selected ({selectedCallIds.size})
+                  </Button>
+                  <Button onClick={handleGenerateAudioSelected} variant="outline">
+                    <SpeakerHigh className="mr-2" size={18} />
+                    Generate Audio ({selectedCallIds.size})
+                  </Button>
+                </>
+              )}
+              {can('calls.export') && (
+                <Button onClick={handleExport} variant="outline" disabled={isExporting}>
+                  <FileArchive className="mr-2" size={18} />
+                  Export ({selectedCallIds.size})
+                </Button>
+              )}
               <Button onClick={handleDeselectAll} variant="outline" size="sm">
                 Deselect All
               </Button>
@@ -861,37 +553,71 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
               <Button onClick={handleSelectAll} variant="outline">
                 Select All
               </Button>
-              <Button onClick={handleExport} variant="outline" disabled={isExporting}>
-                <FileArchive className="mr-2" size={18} />
-                Export All
+              {can('calls.export') && (
+                <Button onClick={handleExport} variant="outline" disabled={isExporting}>
+                  <FileArchive className="mr-2" size={18} />
+                  Export All
+                </Button>
+              )}
+            </>
+          )}
+          {can('calls.delete') && activeSchema && (calls || []).length > 0 && (
+            <Button onClick={() => setDuplicatesOpen(true)} variant="outline" title="Find calls that were imported more than once">
+              <Copy className="mr-2" size={18} />
+              Find Duplicates
+            </Button>
+          )}
+          {can('calls.delete') && (
+            <Button onClick={handleReset} variant="outline">
+              <ArrowCounterClockwise className="mr-2" size={18} />
+              Reset Data
+            </Button>
+          )}
+          {can('calls.process') && (
+            <>
+              <Button onClick={() => setImportCSVOpen(true)} variant="outline">
+                <FileCsv className="mr-2" size={18} />
+                Import Metadata
+              </Button>
+              <Button 
+                onClick={() => setSyntheticWizardOpen(true)} 
+                variant="outline"
+                disabled={!activeSchema}
+                title={!activeSchema ? "Please select a schema first" : "Generate synthetic metadata records using AI"}
+              >
+                <Sparkle className="mr-2" size={18} />
+                Synthetic Data
+              </Button>
+              <Button 
+                onClick={() => setLiveCallOpen(true)}
+                variant="outline"
+                disabled={!activeSchema}
+                title={!activeSchema ? "Please select a schema first" : "Transcribe a call live with real-time rule checks"}
+              >
+                <Broadcast className="mr-2" size={18} />
+                Live Call
+              </Button>
+              {can('config.edit') && (
+                <Button 
+                  onClick={() => setIngestionOpen(true)}
+                  variant="outline"
+                  disabled={!activeSchema}
+                  title={!activeSchema ? "Please select a schema first" : "Import nightly audio and CSV manifests from a watched folder"}
+                >
+                  <FolderOpen className="mr-2" size={18} />
+                  Watch Folder
+                </Button>
+              )}
+              <Button 
+                onClick={() => setUploadOpen(true)}
+                disabled={!activeSchema}
+                title={!activeSchema ? "Please select a schema first" : "Upload audio files to attach to existing records"}
+              >
+                <Upload className="mr-2" size={18} />
+                Upload Audio Files
               </Button>
             </>
           )}
-          <Button onClick={handleReset} variant="outline">
-            <ArrowCounterClockwise className="mr-2" size={18} />
-            Reset Data
-          </Button>
-          <Button onClick={() => setImportCSVOpen(true)} variant="outline">
-            <FileCsv className="mr-2" size={18} />
-            Import Metadata
-          </Button>
-          <Button 
-            onClick={() => setSyntheticWizardOpen(true)} 
-            variant="outline"
-            disabled={!activeSchema}
-            title={!activeSchema ? "Please select a schema first" : "Generate synthetic metadata records using AI"}
-          >
-            <Sparkle className="mr-2" size={18} />
-            Synthetic Data
-          </Button>
-          <Button 
-            onClick={() => setUploadOpen(true)}
-            disabled={!activeSchema}
-            title={!activeSchema ? "Please select a schema first" : "Upload audio files to attach to existing records"}
-          >
-            <Upload className="mr-2" size={18} />
-            Upload Audio Files
-          </Button>
         </div>
       </div>
 
@@ -912,9 +638,11 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
                 </p>
               </div>
             </div>
-            <Button onClick={handleMigrateOrphanedCalls} variant="outline" className="border-amber-500 text-amber-700 hover:bg-amber-100">
-              Migrate to {activeSchema.name}
-            </Button>
+            {can('calls.process') && (
+              <Button onClick={handleMigrateOrphanedCalls} variant="outline" className="border-amber-500 text-amber-700 hover:bg-amber-100">
+                Migrate to {activeSchema.name}
+              </Button>
+            )}
           </div>
         </Card>
       )}
@@ -931,10 +659,12 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
                 Upload your first batch of call recordings with metadata to get started
               </p>
             </div>
-            <Button onClick={() => setImportCSVOpen(true)}>
-              <FileCsv className="mr-2" size={18} />
-              Import Metadata
-            </Button>
+            {can('calls.process') && (
+              <Button onClick={() => setImportCSVOpen(true)}>
+                <FileCsv className="mr-2" size={18} />
+                Import Metadata
+              </Button>
+            )}
           </div>
         </Card>
       )}
@@ -945,8 +675,8 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
           schema={activeSchema}
           onSelectCall={setSelectedCall}
           onUpdateCalls={onUpdateCalls}
-          transcribingIds={transcribingIds}
-          evaluatingIds={evaluatingIds}
+          transcribingIds={tableTranscribingIds}
+          evaluatingIds={tableEvaluatingIds}
           selectedCallIds={selectedCallIds}
           onToggleSelect={handleToggleSelect}
           onTranscribe={(call, e) => {
@@ -979,14 +709,20 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
       <ImportCSVDialog
         open={importCSVOpen}
         onOpenChange={setImportCSVOpen}
-        onImport={(importedCalls) => {
+        onImport={(importedCalls, duplicates, resolution) => {
           console.log('=== IMPORT CALLBACK ===');
           console.log('Received imported calls:', importedCalls.length);
           console.log('First imported call:', importedCalls[0]);
-          setCalls(importedCalls);
+          const result = applyImport(calls || [], importedCalls, duplicates, resolution);
+          setCalls(result.calls);
+          storeMergedAudio(result.calls, result.updatedIds);
+          if (duplicates.length > 0) {
+            toast.info(`🔁 ${result.added} new, ${result.merged} merged, ${result.replaced} replaced, ${result.skipped} skipped`);
+          }
           setImportCSVOpen(false);
         }}
         activeSchema={activeSchema}
+        existingCalls={calls || []}
       />
 
       {selectedCall && activeSchema && (
@@ -1001,6 +737,53 @@ export function CallsView({ batchProgress, setBatchProgress, activeSchema, schem
             );
             setSelectedCall(updatedCall);
           }}
+          readOnly={!can('calls.process')}
+        />
+      )}
+
+      {activeSchema && (
+        <LiveCallDialog
+          open={liveCallOpen}
+          onOpenChange={setLiveCallOpen}
+          schema={activeSchema}
+          onSave={(liveCall) => {
+            if (liveCall.audioFile) {
+              storeAudioFile(liveCall.id, liveCall.audioFile, liveCall.schemaId).then((audioHash) => {
+                patchCall(liveCall.id, (c) => ({ ...c, audioHash }));
+              }).catch((error) => {
+                console.error('Failed to store live call audio:', error);
+              });
+            }
+            setCalls((prev) => [...(prev || []), liveCall]);
+          }}
+        />
+      )}
+
+      {activeSchema && (
+        <DuplicateCallsDialog
+          open={duplicatesOpen}
+          onOpenChange={setDuplicatesOpen}
+          calls={calls || []}
+          schema={activeSchema}
+          onAudioHashes={(hashes) => {
+            onUpdateCalls((prev) => (prev || []).map((c) => (hashes.has(c.id) ? { ...c, audioHash: hashes.get(c.id) } : c)));
+          }}
+          onMerge={(result) => {
+            setCalls(result.calls);
+            storeMergedAudio(result.calls, result.mergedIds);
+            setSelectedCallIds((prev) => new Set([...prev].filter(id => !result.removedIds.includes(id))));
+            toast.success(`Merged ${result.removedIds.length} duplicate call(s) into ${result.mergedIds.length}`);
+            setDuplicatesOpen(false);
+          }}
+        />
+      )}
+
+      {activeSchema && (
+        <IngestionDialog
+          open={ingestionOpen}
+          onOpenChange={setIngestionOpen}
+          schema={activeSchema}
+          onSchemaUpdate={onSchemaUpdate}
         />
       )}
 
@@ -1,5 +1,8 @@
 export type AzureAuthType = 'apiKey' | 'entraId' | 'managedIdentity';
 
+/** Backend that serves LLM calls: Azure OpenAI, any OpenAI-compatible server (Ollama, vLLM...), or offline replay */
+export type LLMProviderType = 'azure-openai' | 'openai-compatible' | 'mock';
+
 export interface AzureOpenAIConfig {
   endpoint: string;
   apiKey?: string;
@@ -9,10 +12,28 @@ export interface AzureOpenAIConfig {
   tenantId?: string;
   reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
   embeddingModelName?: string;
+  provider?: LLMProviderType;      // Defaults to 'azure-openai'
+  baseUrl?: string;                // OpenAI-compatible base URL, e.g. http://localhost:11434/v1
+  recordResponses?: boolean;       // Save live responses so the mock provider can replay them
+}
+
+/** A recorded LLM response, keyed by the hash of the prompt that produced it */
+export interface LLMRecording {
+  hash: string;
+  response: string;
+  model?: string;
+  recordedAt: string;
+  promptPreview?: string;          // Start of the last user message, to tell recordings apart
+}
+
+export interface LLMRecordingStore {
+  get(hash: string): Promise<LLMRecording | null>;
+  save(recording: LLMRecording): void;
 }
 
 export interface ConfigManager {
   getConfig(): Promise<AzureOpenAIConfig | null>;
   getEntraIdToken(tenantId?: string): Promise<string | null>;
   getMaxRetries(): number;
+  getRecordingStore?(): LLMRecordingStore | null;
 }
@@ -0,0 +1,46 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { AccountInfo } from '@azure/msal-browser';
+import { azureTokenService } from '@/services/azure-token';
+import { loadAccessControlSettings, loadServerAccess, resolveAccess, userFromClaims } from '@/services/access-control';
+import { AccessContext, AccessControlSettings, SignedInUser } from '@/types/access-control';
+import { EntraIdConfig } from '@/types/config';
+
+function toSignedInUser(account: AccountInfo | null): SignedInUser | null {
+  return account ? userFromClaims(account.username, account.idTokenClaims) : null;
+}
+
+export interface AccessControlState {
+  access: AccessContext;
+  settings: AccessControlSettings;
+  setSettings: (settings: AccessControlSettings) => void;
+}
+
+/**
+ * Track the signed-in Entra ID user and resolve their role from the access control settings
+ */
+export function useAccessControl(entraId?: EntraIdConfig): AccessControlState {
+  const [settings, setSettings] = useState<AccessControlSettings>(() => loadAccessControlSettings());
+  const [user, setUser] = useState<SignedInUser | null>(() => toSignedInUser(azureTokenService.getCurrentAccount()));
+
+  useEffect(() => {
+    return azureTokenService.onAccountChange(account => setUser(toSignedInUser(account)));
+  }, []);
+
+  // Pick up a previous sign-in once the App Registration is known
+  useEffect(() => {
+    if (!entraId?.clientId) return;
+    azureTokenService.configure({ clientId: entraId.clientId, tenantId: entraId.tenantId });
+    azureTokenService.restoreAccount()
+      .then(account => setUser(toSignedInUser(account)))
+      .catch(error => console.warn('🔐 Could not restore sign-in:', error));
+  }, [entraId?.clientId, entraId?.tenantId]);
+
+  // Only admins can read the settings from the server; everyone else goes by the role the
+  // server resolved from their token
+  const access = useMemo(() => {
+    const serverAccess = loadServerAccess();
+    return serverAccess?.enabled && !settings.enabled ? serverAccess : resolveAccess(settings, user);
+  }, [settings, user]);
+
+  return { access, settings, setSettings };
+}
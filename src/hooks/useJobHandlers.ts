@@ -0,0 +1,249 @@
+import { useEffect, useRef } from 'react';
+import { CallRecord } from '@/types/call';
+import { SchemaDefinition } from '@/types/schema';
+import { loadAzureConfigFromCookie } from '@/lib/azure-config-storage';
+import { storeAudioFile, getAudioFile } from '@/lib/audio-storage';
+import { appendEvaluation } from '@/lib/evaluation-history';
+import { transcriptionService } from '@/services/transcription';
+import { azureOpenAIService } from '@/services/azure-openai';
+import { generateSyntheticAudio } from '@/services/synthetic-audio';
+import { LLMCaller } from '@/llmCaller';
+import { BrowserConfigManager, toLLMConfig } from '@/services/browser-config-manager';
+import { getJobQueue, Job, toQueueItem } from '@/services/job-queue';
+import { getSchemaById } from '@/services/schema-manager';
+import { claimPendingJob } from '@/services/ingestion';
+import { hasPermission } from '@/services/access-control';
+import { AccessContext } from '@/types/access-control';
+import { IngestionJobType } from '@/types/ingestion';
+
+/**
+ * Run the background job queue (services/job-queue.ts) for as long as the app is open.
+ * Call with the app-level calls state: results go through its setter, which saves them
+ * through the storage adapter whichever tab is showing. Ingested calls are only picked
+ * up for a caller whose role may process calls.
+ */
+export function useJobHandlers(
+  calls: CallRecord[],
+  setCalls: React.Dispatch<React.SetStateAction<CallRecord[]>>,
+  activeSchema: SchemaDefinition | null,
+  access: AccessContext
+): void {
+  // Queue handlers outlive individual renders, so they read the latest calls/schema from refs
+  const callsRef = useRef<CallRecord[]>(calls || []);
+  callsRef.current = calls || [];
+  const activeSchemaRef = useRef<SchemaDefinition | null>(activeSchema);
+  activeSchemaRef.current = activeSchema;
+
+  // Apply an update to the latest version of a call (jobs for the same call may finish concurrently)
+  const patchCall = (callId: string, patch: (call: CallRecord) => CallRecord) => {
+    setCalls((prev) => (prev || []).map((c) => (c.id === callId ? patch(c) : c)));
+  };
+
+  const getJobContext = (job: Job): { call: CallRecord; schema: SchemaDefinition } => {
+    const call = callsRef.current.find((c) => c.id === job.callId);
+    if (!call) {
+      throw new Error(`Call ${job.callId} no longer exists`);
+    }
+    const schema = (job.schemaId ? getSchemaById(job.schemaId) : null) || activeSchemaRef.current;
+    if (!schema) {
+      throw new Error('No schema available for this call');
+    }
+    return { call, schema };
+  };
+
+  const runTranscriptionJob = async (job: Job, signal: AbortSignal) => {
+    const { call, schema } = getJobContext(job);
+
+    // After a reload the audio may not be restored into state yet - read it from storage
+    const audioFile = call.audioFile
+      ?? (await getAudioFile(call.id, call.schemaId))
+      ?? (await getAudioFile(call.id));
+    if (!audioFile) {
+      throw new Error('No audio file attached');
+    }
+
+    patchCall(call.id, (c) => ({ ...c, status: 'processing' as const, updatedAt: new Date().toISOString() }));
+
+    const result = await transcriptionService.transcribeCall({ ...call, audioFile }, schema);
+    if (signal.aborted) {
+      patchCall(call.id, (c) => ({ ...c, status: call.status, updatedAt: new Date().toISOString() }));
+      return;
+    }
+
+    if (result.status === 'failed') {
+      patchCall(call.id, (c) => ({ ...c, status: 'failed' as const, error: result.error, updatedAt: result.updatedAt }));
+      throw new Error(result.error || 'Transcription failed');
+    }
+
+    // Only what transcription produced: changes saved to the call meanwhile stay
+    patchCall(call.id, (c) => {
+      const transcribed: CallRecord = {
+        ...c,
+        transcript: result.transcript,
+        transcriptConfidence: result.transcriptConfidence,
+        transcriptWords: result.transcriptWords,
+        transcriptLocale: result.transcriptLocale,
+        transcriptDuration: result.transcriptDuration,
+        transcriptPhrases: result.transcriptPhrases,
+        transcriptSpeakerCount: result.transcriptSpeakerCount,
+        redactedTranscript: result.redactedTranscript,
+        speechMetrics: result.speechMetrics,
+        sentimentSegments: result.sentimentSegments,
+        sentimentSummary: result.sentimentSummary,
+        overallSentiment: result.overallSentiment,
+        status: result.status,
+        error: undefined,
+        updatedAt: result.updatedAt,
+      };
+      // Transcription evaluates the call too when OpenAI is configured
+      return result.evaluation && result.evaluation !== call.evaluation
+        ? appendEvaluation(transcribed, result.evaluation)
+        : transcribed;
+    });
+  };
+
+  const runEvaluationJob = async (job: Job, signal: AbortSignal) => {
+    const { call, schema } = getJobContext(job);
+    if (!call.transcript) {
+      throw new Error('Call has not been transcribed');
+    }
+
+    const evaluation = await azureOpenAIService.evaluateCall(call.transcript, call.metadata, schema, call.id);
+    if (signal.aborted) return;
+
+    patchCall(call.id, (c) => ({
+      ...appendEvaluation(c, evaluation),
+      status: 'evaluated' as const,
+      updatedAt: new Date().toISOString(),
+    }));
+    console.log(`  ✅ Completed evaluation for call ${call.id}: ${evaluation.percentage}%`);
+
+    // Sentiment runs as its own job so throttling on one does not fail the other
+    if (call.transcriptPhrases && call.transcriptPhrases.length > 0) {
+      getJobQueue().enqueue('sentiment', [{ callId: call.id, schemaId: job.schemaId, label: job.label }]);
+    }
+  };
+
+  const runSentimentJob = async (job: Job, signal: AbortSignal) => {
+    const { call, schema } = getJobContext(job);
+    if (!call.transcript || !call.transcriptPhrases || call.transcriptPhrases.length === 0) {
+      throw new Error('Call has no transcript phrases');
+    }
+
+    const businessContext = schema.businessContext || schema.name || 'call center';
+    const sentiment = await azureOpenAIService.analyzeSentimentTimeline(
+      call.id,
+      call.transcriptPhrases,
+      call.transcriptLocale || 'en-US',
+      ['positive', 'neutral', 'negative'],
+      businessContext,
+      schema.redactionPolicy
+    );
+    const overallSentiment = await azureOpenAIService.analyzeOverallSentiment(
+      call.id,
+      call.transcript,
+      call.metadata,
+      schema
+    );
+    if (signal.aborted) return;
+
+    patchCall(call.id, (c) => ({
+      ...c,
+      sentimentSegments: sentiment.segments,
+      sentimentSummary: sentiment.summary,
+      overallSentiment,
+      updatedAt: new Date().toISOString(),
+    }));
+  };
+
+  const runSyntheticAudioJob = async (job: Job, signal: AbortSignal) => {
+    const { call, schema } = getJobContext(job);
+    const azureConfig = loadAzureConfigFromCookie();
+    if (!azureConfig) {
+      throw new Error('Azure services not configured');
+    }
+
+    // Create LLM caller for gender detection using shared BrowserConfigManager
+    const llmCaller = new LLMCaller(new BrowserConfigManager({
+      ...toLLMConfig(azureConfig.openAI),
+      authType: azureConfig.openAI.authType || 'apiKey',
+    }));
+
+    const result = await generateSyntheticAudio(call, schema, llmCaller, azureConfig);
+    if (signal.aborted) return;
+
+    const audioHash = await storeAudioFile(call.id, result.audioBlob, call.schemaId);
+    patchCall(call.id, (c) => ({
+      ...c,
+      audioFile: result.audioBlob,
+      audioHash,
+      metadata: {
+        ...c.metadata,
+        syntheticAudioGenerated: true,
+        syntheticAudioVoices: result.voiceAssignments
+          .map(v => `${v.speakerLabel}: ${v.voiceName}`)
+          .join(', '),
+      },
+      updatedAt: new Date().toISOString(),
+    }));
+  };
+
+  useEffect(() => {
+    const queue = getJobQueue();
+    const unregister = [
+      queue.registerHandler('transcription', runTranscriptionJob),
+      queue.registerHandler('evaluation', runEvaluationJob),
+      queue.registerHandler('sentiment', runSentimentJob),
+      queue.registerHandler('synthetic-audio', runSyntheticAudioJob),
+    ];
+    return () => unregister.forEach(fn => fn());
+    // Handlers read state through refs, so registering once is enough
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Queue the jobs ingested calls asked for: transcription first, evaluation once a transcript exists.
+  // Only sessions that may process calls take part, and each job is claimed on the server first
+  // so two open apps never run (and pay for) the same job.
+  const claimingRef = useRef(new Set<string>());
+  const canProcess = hasPermission(access, 'calls.process');
+  useEffect(() => {
+    if (!canProcess) return;
+    const pending = (calls || []).filter(c => c.ingestion?.pendingJobs && !claimingRef.current.has(c.id));
+    const claims = pending.flatMap((c): Array<{ call: CallRecord; job: IngestionJobType }> => {
+      const jobs = c.ingestion!.pendingJobs!;
+      if (jobs.includes('transcription')) return [{ call: c, job: 'transcription' }];
+      return jobs.includes('evaluation') && c.transcript ? [{ call: c, job: 'evaluation' }] : [];
+    });
+    if (claims.length === 0) return;
+
+    claims.forEach(({ call }) => claimingRef.current.add(call.id));
+    Promise.all(claims.map(({ call, job }) =>
+      claimPendingJob(call, job)
+        .then(result => ({ ...result, job }))
+        .catch(error => {
+          console.error(`❌ Failed to claim ${job} for call ${call.id}:`, error);
+          return null;
+        })
+    )).then(results => {
+      const settled = results.filter((r): r is NonNullable<typeof r> => r !== null && !!r.call);
+      const latest = new Map(settled.map(r => [r.call.id, r.call]));
+      // Take the server's pending list and version, keeping anything else changed here meanwhile
+      setCalls((prev) => (prev || []).map((c) => {
+        const server = latest.get(c.id);
+        return server ? { ...c, ingestion: server.ingestion, updatedAt: server.updatedAt } : c;
+      }));
+
+      const claimed = settled.filter(r => r.claimed);
+      const queue = getJobQueue();
+      queue.enqueue('transcription', claimed
+        .filter(r => r.job === 'transcription' && !r.call.transcript)
+        .map(r => toQueueItem(r.call, activeSchemaRef.current)));
+      queue.enqueue('evaluation', claimed
+        .filter(r => r.job === 'evaluation')
+        .map(r => toQueueItem(r.call, activeSchemaRef.current)));
+    }).finally(() => {
+      claims.forEach(({ call }) => claimingRef.current.delete(call.id));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [calls, canProcess]);
+}
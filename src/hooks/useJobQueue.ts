@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { getJobQueue, JobQueueState } from '@/services/job-queue';
+
+/**
+ * Subscribe to the persistent job queue state
+ */
+export function useJobQueue(): JobQueueState {
+  const [state, setState] = useState<JobQueueState>(() => getJobQueue().getState());
+
+  useEffect(() => {
+    const queue = getJobQueue();
+    setState(queue.getState());
+    return queue.subscribe(setState);
+  }, []);
+
+  return state;
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { getStorageAdapter, STORAGE_SYNC_EVENT } from '@/lib/storage-adapter';
 
 /**
  * Custom JSON replacer to handle File objects and other non-serializable types
@@ -11,13 +12,9 @@ function customReplacer(_key: string, value: any): any {
   return value;
 }
 
-/**
- * Custom event for cross-component localStorage sync within same tab
- */
-const STORAGE_SYNC_EVENT = 'localStorage-sync';
-
 /**
  * Custom hook for localStorage persistence (replaces GitHub Spark useKV)
+ * Reads and writes go through the active storage adapter (browser or server)
  * Syncs across components in the same tab using custom events
  */
 export function useLocalStorage<T>(
@@ -27,7 +24,7 @@ export function useLocalStorage<T>(
   // Initialize state with value from localStorage or default
   const [value, setValue] = useState<T>(() => {
     try {
-      const item = window.localStorage.getItem(key);
+      const item = getStorageAdapter().getItem(key);
       if (!item) {
         return defaultValue;
       }
@@ -63,7 +60,7 @@ export function useLocalStorage<T>(
   useEffect(() => {
     try {
       // Use custom replacer to handle File objects
-      window.localStorage.setItem(key, JSON.stringify(value, customReplacer));
+      getStorageAdapter().setItem(key, JSON.stringify(value, customReplacer));
     } catch (error) {
       console.warn(`Error setting localStorage key "${key}":`, error);
     }
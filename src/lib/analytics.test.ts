@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  calculateAgentPerformance,
+  calculateCriteriaAnalytics,
+  calculateRetiredCriteriaAnalytics,
+  findCriterionResult,
+  getAgentNameFromCall,
+  getPerformanceTrend,
+} from './analytics';
+import { EVALUATION_CRITERIA } from './evaluation-criteria';
+import { setCustomEvaluationCriteria, getEvaluationCriteriaForSchema, clearEvaluationCriteriaCache } from '@/services/azure-openai';
+import { saveSchema, setActiveSchema } from '@/services/schema-manager';
+import { saveRulesForSchema } from '@/services/rules-generator';
+import { loadDefaultCalls, getTemplateFixture, buildTemplateCalls, withEvaluation } from '@/test/fixtures';
+
+const ALL_PASS = EVALUATION_CRITERIA.map(() => true);
+const FIRST_THREE_FAIL = EVALUATION_CRITERIA.map((_, index) => index >= 3);
+
+describe('calculateAgentPerformance', () => {
+  beforeEach(() => {
+    setCustomEvaluationCriteria(null);
+    clearEvaluationCriteriaCache();
+  });
+
+  it('groups evaluated sample calls by agent and ranks them', () => {
+    const calls = loadDefaultCalls();
+    const evaluated = [
+      withEvaluation(calls[0], EVALUATION_CRITERIA, ALL_PASS),            // Raj
+      withEvaluation(calls[1], EVALUATION_CRITERIA, FIRST_THREE_FAIL),    // Raj
+      withEvaluation(calls[2], EVALUATION_CRITERIA, FIRST_THREE_FAIL),    // Bev
+      calls[3],                                                            // Bev, not evaluated
+    ];
+
+    const performance = calculateAgentPerformance(evaluated);
+
+    expect(performance.map(p => p.agentName)).toEqual(['Raj', 'Bev']);
+    const raj = performance[0];
+    expect(raj.totalCalls).toBe(2);
+    expect(raj.averagePercentage).toBe((evaluated[0].evaluation!.percentage + evaluated[1].evaluation!.percentage) / 2);
+    expect(raj.rankAmongAgents).toBe(1);
+    expect(raj.aboveAverage).toBe(true);
+    expect(performance[1].totalCalls).toBe(1);
+    expect(performance[1].rankAmongAgents).toBe(2);
+  });
+
+  it('scores criteria by rule id and computes the pass rate', () => {
+    const calls = loadDefaultCalls();
+    const performance = calculateAgentPerformance([
+      withEvaluation(calls[0], EVALUATION_CRITERIA, ALL_PASS),
+      withEvaluation(calls[1], EVALUATION_CRITERIA, FIRST_THREE_FAIL),
+    ]);
+    const raj = performance[0];
+
+    expect(Object.keys(raj.criteriaScores)).toHaveLength(EVALUATION_CRITERIA.length);
+    expect(raj.criteriaScores[0]).toBe(EVALUATION_CRITERIA[0].scoringStandard.passed / 2);
+    expect(raj.criteriaScores[5]).toBe(EVALUATION_CRITERIA[5].scoringStandard.passed);
+    expect(raj.topWeaknesses).toContain(0);
+
+    const total = EVALUATION_CRITERIA.length * 2;
+    expect(raj.passRate).toBeCloseTo(((total - 3) / total) * 100);
+  });
+
+  it('matches results stored with a string criterion id (criterion-index regression)', () => {
+    const call = withEvaluation(loadDefaultCalls()[0], EVALUATION_CRITERIA, ALL_PASS);
+    call.evaluation!.results = call.evaluation!.results
+      .map(r => ({ ...r, criterionId: String(r.criterionId) as unknown as number }))
+      .reverse();
+
+    const [raj] = calculateAgentPerformance([call]);
+
+    EVALUATION_CRITERIA.forEach((criterion, index) => {
+      expect(raj.criteriaScores[index]).toBe(criterion.scoringStandard.passed);
+    });
+    expect(raj.passRate).toBe(100);
+  });
+
+  it('uses the participant_1 field of the active schema for agent names', () => {
+    const { schema, rules } = getTemplateFixture('customer-support');
+    expect(saveSchema(schema).success).toBe(true);
+    setActiveSchema(schema.id);
+    saveRulesForSchema(schema.id, rules);
+    const criteria = getEvaluationCriteriaForSchema(schema.id);
+    setCustomEvaluationCriteria(criteria);
+
+    const calls = buildTemplateCalls(schema, 6).map((call, index) =>
+      withEvaluation(call, criteria, criteria.map((_, i) => i !== index % criteria.length))
+    );
+    const agentField = schema.fields.find(f => f.semanticRole === 'participant_1')!;
+
+    expect(getAgentNameFromCall(calls[0])).toBe(calls[0].metadata[agentField.id]);
+
+    const performance = calculateAgentPerformance(calls);
+    expect(performance.map(p => p.agentName).sort()).toEqual(['Agent 0', 'Agent 1', 'Agent 2']);
+    expect(performance.every(p => p.totalCalls === 2)).toBe(true);
+    expect(Object.keys(performance[0].criteriaScores)).toHaveLength(criteria.length);
+  });
+});
+
+describe('calculateAgentPerformance statistics', () => {
+  beforeEach(() => {
+    setCustomEvaluationCriteria(null);
+    clearEvaluationCriteriaCache();
+  });
+
+  const base = loadDefaultCalls()[0];
+  const scored = (agentName: string, percentages: number[]) =>
+    percentages.map((percentage, index) => {
+      const call = withEvaluation({ ...base, id: `${agentName}-${index}` }, EVALUATION_CRITERIA, ALL_PASS);
+      return { ...call, metadata: { ...call.metadata, agentName }, evaluation: { ...call.evaluation!, percentage } };
+    });
+
+  it('ranks a long strong record above a couple of perfect calls', () => {
+    const performance = calculateAgentPerformance([
+      ...scored('Lucky', [100, 100]),
+      ...scored('Steady', Array.from({ length: 40 }, (_, i) => 90 + (i % 5))),
+      ...scored('Weak', Array.from({ length: 40 }, (_, i) => 50 + (i % 5))),
+    ]);
+
+    expect(performance.map(p => p.agentName)).toEqual(['Steady', 'Lucky', 'Weak']);
+    const lucky = performance[1];
+    expect(lucky.averagePercentage).toBe(100);
+    expect(lucky.adjustedPercentage).toBeLessThan(performance[0].adjustedPercentage!);
+    expect(performance[0].percentageCI!.upper - performance[0].percentageCI!.lower).toBeLessThan(2);
+    expect(performance[0].passRateCI).toMatchObject({ upper: 100 });
+  });
+
+  it('flags rankings that are not statistically distinguishable', () => {
+    const performance = calculateAgentPerformance([
+      ...scored('A', [80, 90, 85, 95]),
+      ...scored('B', [82, 88, 84, 92]),
+      ...scored('C', [40, 45, 42, 41]),
+    ]);
+
+    expect(performance.map(p => p.agentName)).toEqual(['A', 'B', 'C']);
+    expect(performance[0].distinguishableFromNext).toBe(false);
+    expect(performance[1].distinguishableFromNext).toBe(true);
+    expect(performance[2].distinguishableFromNext).toBeUndefined();
+  });
+
+  it('only reports a trend when the change is significant', () => {
+    const [improving] = calculateAgentPerformance(scored('Raj', [60, 62, 61, 63, 60, 90, 91, 89, 92, 90]));
+    expect(improving.trend).toBe('up');
+    expect(improving.trendPValue).toBeLessThan(0.05);
+
+    const [noisy] = calculateAgentPerformance(scored('Raj', [40, 95, 50, 90, 45, 100, 40, 95, 60, 90]));
+    expect(noisy.trend).toBe('stable');
+    expect(noisy.trendPValue).toBeGreaterThan(0.05);
+  });
+});
+
+describe('calculateCriteriaAnalytics', () => {
+  beforeEach(() => {
+    setCustomEvaluationCriteria(null);
+  });
+
+  it('reports pass rate and common issues per criterion', () => {
+    const calls = loadDefaultCalls();
+    const analytics = calculateCriteriaAnalytics([
+      withEvaluation(calls[0], EVALUATION_CRITERIA, ALL_PASS),
+      withEvaluation(calls[2], EVALUATION_CRITERIA, FIRST_THREE_FAIL),
+    ]);
+
+    expect(analytics).toHaveLength(EVALUATION_CRITERIA.length);
+    expect(analytics[0]).toMatchObject({ criterionId: 1, totalEvaluations: 2, passRate: 50 });
+    expect(analytics[0].commonIssues).toEqual([`${EVALUATION_CRITERIA[0].name} not met`]);
+    expect(analytics[4].passRate).toBe(100);
+  });
+
+  it('leaves N/A results out of the pass rate', () => {
+    const calls = loadDefaultCalls();
+    const notApplicable = withEvaluation(calls[2], EVALUATION_CRITERIA, FIRST_THREE_FAIL);
+    notApplicable.evaluation!.results[0] = { ...notApplicable.evaluation!.results[0], notApplicable: true, passed: true, score: 0 };
+
+    const [first] = calculateCriteriaAnalytics([withEvaluation(calls[0], EVALUATION_CRITERIA, ALL_PASS), notApplicable]);
+
+    expect(first).toMatchObject({ totalEvaluations: 1, passRate: 100, notApplicableCount: 1 });
+  });
+});
+
+describe('criterion keys', () => {
+  beforeEach(() => {
+    setCustomEvaluationCriteria(null);
+  });
+
+  it('keeps results attached to their criterion after rules are reordered', () => {
+    const call = withEvaluation(loadDefaultCalls()[0], EVALUATION_CRITERIA, FIRST_THREE_FAIL);
+    setCustomEvaluationCriteria([...EVALUATION_CRITERIA].reverse());
+
+    const analytics = calculateCriteriaAnalytics([call]);
+    const first = analytics.find(a => a.criterionKey === EVALUATION_CRITERIA[0].key)!;
+    const last = analytics.find(a => a.criterionKey === EVALUATION_CRITERIA[EVALUATION_CRITERIA.length - 1].key)!;
+
+    expect(first.passRate).toBe(0);
+    expect(last.passRate).toBe(100);
+  });
+
+  it('reports results of deleted criteria as retired', () => {
+    const calls = loadDefaultCalls();
+    const evaluated = [
+      withEvaluation(calls[0], EVALUATION_CRITERIA, ALL_PASS),
+      withEvaluation({ ...calls[1], createdAt: '2099-01-01T00:00:00Z' }, EVALUATION_CRITERIA, FIRST_THREE_FAIL),
+    ];
+    setCustomEvaluationCriteria(EVALUATION_CRITERIA.slice(1));
+
+    expect(calculateCriteriaAnalytics(evaluated)).toHaveLength(EVALUATION_CRITERIA.length - 1);
+
+    const retired = calculateRetiredCriteriaAnalytics(evaluated);
+    expect(retired).toHaveLength(1);
+    expect(retired[0]).toMatchObject({
+      criterionKey: EVALUATION_CRITERIA[0].key,
+      criterionName: EVALUATION_CRITERIA[0].name,
+      totalEvaluations: 2,
+      passRate: 50,
+      lastEvaluatedAt: '2099-01-01T00:00:00Z',
+    });
+  });
+});
+
+describe('findCriterionResult', () => {
+  const criterion = (id: number, key?: string) => ({ ...EVALUATION_CRITERIA[0], id, key });
+
+  it('resolves numeric and numeric-string rule ids', () => {
+    const results = [
+      { criterionId: 7, score: 5, passed: true, evidence: '', reasoning: '' },
+      { criterionId: '1' as unknown as number, score: 0, passed: false, evidence: '', reasoning: '' },
+    ];
+    expect(findCriterionResult(results, criterion(1))).toBe(results[1]);
+    expect(findCriterionResult(results, criterion(7))).toBe(results[0]);
+    expect(findCriterionResult(results, criterion(2))).toBeUndefined();
+  });
+
+  it('prefers the key and falls back to the rule id only for keyless results', () => {
+    const results = [
+      { criterionId: 1, criterionKey: 'greeting', score: 5, passed: true, evidence: '', reasoning: '' },
+      { criterionId: 2, score: 0, passed: false, evidence: '', reasoning: '' },
+    ];
+    expect(findCriterionResult(results, criterion(2, 'greeting'))).toBe(results[0]);
+    expect(findCriterionResult(results, criterion(2, 'closing'))).toBe(results[1]);
+    expect(findCriterionResult(results, criterion(1, 'closing'))).toBeUndefined();
+  });
+});
+
+describe('getPerformanceTrend', () => {
+  it('averages evaluated calls per day in date order', () => {
+    const calls = loadDefaultCalls();
+    const trend = getPerformanceTrend([
+      withEvaluation(calls[1], EVALUATION_CRITERIA, ALL_PASS),
+      withEvaluation(calls[0], EVALUATION_CRITERIA, FIRST_THREE_FAIL),
+      calls[2],
+    ]);
+
+    expect(trend.map(t => t.date)).toEqual(['2025-09-03', '2025-09-04']);
+    expect(trend[1]).toMatchObject({ score: 100, count: 1 });
+  });
+});
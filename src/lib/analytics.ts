@@ -1,7 +1,15 @@
-import { CallRecord, AgentPerformance, CriteriaAnalytics, SentimentLabel, RiskTier, CategorizedOutcome, TopicInsight } from '@/types/call';
+import { CallRecord, EvaluationCriterion, EvaluationResult, AgentPerformance, CriteriaAnalytics, RetiredCriterionAnalytics, SectionAnalytics, CalibrationAnalytics, SentimentLabel, RiskTier, CategorizedOutcome, TopicInsight } from '@/types/call';
 import { SchemaDefinition } from '@/types/schema';
 import { getActiveEvaluationCriteria } from '@/services/azure-openai';
 import { getActiveSchema } from '@/services/schema-manager';
+import { matchCriterionResult } from '@/lib/criterion-keys';
+import {
+  SIGNIFICANCE_LEVEL,
+  meanConfidenceInterval,
+  shrinkTowardsMean,
+  welchTTest,
+  wilsonInterval,
+} from '@/lib/statistics';
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -35,6 +43,24 @@ export function getAgentNameFromCall(call: CallRecord): string {
   return 'Unknown Agent';
 }
 
+/**
+ * Find the result for a criterion.
+ * Results are matched by the criterion's stable key; results stored before keys existed
+ * fall back to the criterion's rule id (older ones may carry it as a string).
+ */
+export function findCriterionResult(
+  results: EvaluationResult[],
+  criterion: EvaluationCriterion
+): EvaluationResult | undefined {
+  return matchCriterionResult(results, criterion);
+}
+
+/**
+ * Calls the team mean is worth when shrinking an agent's average: an agent with
+ * this many calls is ranked halfway between their own average and the team's
+ */
+export const AGENT_SCORE_PRIOR_CALLS = 5;
+
 export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance[] {
   const agentMap = new Map<string, CallRecord[]>();
 
@@ -49,6 +75,7 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
   });
 
   const performances: AgentPerformance[] = [];
+  const scoresByAgent = new Map<string, number[]>();
   const activeCriteria = getActiveEvaluationCriteria();
   
   // Calculate team average for comparison
@@ -60,6 +87,7 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
   agentMap.forEach((agentCalls, agentName) => {
     const totalCalls = agentCalls.length;
     const scores = agentCalls.map(c => c.evaluation?.percentage || 0);
+    scoresByAgent.set(agentName, scores);
     const totalScore = agentCalls.reduce(
       (sum, call) => sum + (call.evaluation?.totalScore || 0),
       0
@@ -74,12 +102,10 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
     let totalCriteriaEvaluated = 0;
     
     activeCriteria.forEach((criterion, criterionIndex) => {
-      // AI returns 1-based criterionId, so we match by index (criterionId - 1)
-      const expectedCriterionId = criterionIndex + 1;
-      
+      // Match by stable key, falling back to the rule id for results stored before keys existed
       const results = agentCalls
-        .map((call) => call.evaluation?.results.find((r) => r.criterionId === expectedCriterionId))
-        .filter(r => r !== undefined);
+        .map((call) => call.evaluation && findCriterionResult(call.evaluation.results, criterion))
+        .filter(r => r !== undefined && !r.notApplicable);
       
       const avgScore = results.length > 0
         ? results.reduce((sum, r) => sum + (r?.score || 0), 0) / results.length
@@ -136,9 +162,12 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
           olderCalls.length
         : recentAvg;
 
+    // A change needs to be both meaningful (5+ points) and significant
+    const trendTest = welchTTest(scores.slice(-5), scores.slice(0, -5));
+    const trendSignificant = !!trendTest && trendTest.pValue < SIGNIFICANCE_LEVEL;
     let trend: 'up' | 'down' | 'stable' = 'stable';
-    if (recentAvg > olderAvg + 5) trend = 'up';
-    else if (recentAvg < olderAvg - 5) trend = 'down';
+    if (trendSignificant && recentAvg > olderAvg + 5) trend = 'up';
+    else if (trendSignificant && recentAvg < olderAvg - 5) trend = 'down';
 
     // === ENHANCED METRICS ===
     
@@ -170,6 +199,9 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
     
     // Failed calls (< 60%)
     const failedCalls = agentCalls.filter(c => (c.evaluation?.percentage || 0) < 60).length;
+
+    // Calls zeroed by a failed critical criterion
+    const autoFailedCalls = agentCalls.filter(c => c.evaluation?.autoFailed).length;
     
     // Topic performance
     const topicMap = new Map<string, { count: number; totalScore: number }>();
@@ -265,6 +297,10 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
     if (scoreStdDev > 20) consistencyRating = 'inconsistent';
     else if (scoreStdDev > 10) consistencyRating = 'variable';
     
+    // Confidence in the average and pass rate given the number of calls
+    const percentageCI = meanConfidenceInterval(scores);
+    const passRateInterval = wilsonInterval(totalCriteriaPassed, totalCriteriaEvaluated);
+
     // Recent calls summary
     const recentCallsSummary = agentCalls
       .slice(-5)
@@ -292,6 +328,7 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
       passRate,
       perfectScoreCalls,
       failedCalls,
+      autoFailedCalls,
       topTopics,
       insightSummary: Object.keys(insightSummary).length > 0 ? insightSummary : undefined,
       performanceByPeriod,
@@ -299,14 +336,29 @@ export function calculateAgentPerformance(calls: CallRecord[]): AgentPerformance
       consistencyRating,
       recentCalls: recentCallsSummary,
       aboveAverage: averagePercentage > teamAvgPercentage,
+      adjustedPercentage: shrinkTowardsMean(averagePercentage, totalCalls, teamAvgPercentage, AGENT_SCORE_PRIOR_CALLS),
+      percentageCI: percentageCI
+        ? { lower: Math.max(0, percentageCI.lower), upper: Math.min(100, percentageCI.upper) }
+        : undefined,
+      adjustedPassRate: passRateInterval ? passRateInterval.center * 100 : undefined,
+      passRateCI: passRateInterval
+        ? { lower: passRateInterval.lower * 100, upper: passRateInterval.upper * 100 }
+        : undefined,
+      trendPValue: trendTest?.pValue,
     });
   });
 
-  // Sort by performance and add rankings
-  const sorted = performances.sort((a, b) => b.averagePercentage - a.averagePercentage);
+  // Rank by the shrunk average so a couple of lucky calls don't top the board
+  const sorted = performances.sort((a, b) => (b.adjustedPercentage ?? 0) - (a.adjustedPercentage ?? 0));
   sorted.forEach((perf, index) => {
     perf.rankAmongAgents = index + 1;
     perf.percentileRank = Math.round(((sorted.length - index) / sorted.length) * 100);
+
+    const next = sorted[index + 1];
+    if (next) {
+      const test = welchTTest(scoresByAgent.get(perf.agentName)!, scoresByAgent.get(next.agentName)!);
+      perf.distinguishableFromNext = !!test && test.pValue < SIGNIFICANCE_LEVEL;
+    }
   });
   
   return sorted;
@@ -316,42 +368,145 @@ export function calculateCriteriaAnalytics(calls: CallRecord[]): CriteriaAnalyti
   const evaluatedCalls = calls.filter((c) => c.evaluation);
   const activeCriteria = getActiveEvaluationCriteria();
 
-  const analytics: CriteriaAnalytics[] = activeCriteria.map((criterion, criterionIndex) => {
-    // AI returns 1-based criterionId, so we match by index (criterionId - 1)
-    const expectedCriterionId = criterionIndex + 1;
-    
+  const analytics: CriteriaAnalytics[] = activeCriteria.map((criterion) => {
+    // Match by stable key, falling back to the rule id for results stored before keys existed
     const results = evaluatedCalls
-      .map((call) =>
-        call.evaluation?.results.find((r) => r.criterionId === expectedCriterionId)
-      )
-      .filter((r) => r !== undefined);
-
-    const totalEvaluations = results.length;
-    const passedCount = results.filter((r) => r?.passed).length;
-    const passRate = totalEvaluations > 0 ? (passedCount / totalEvaluations) * 100 : 0;
-    const averageScore =
-      totalEvaluations > 0
-        ? results.reduce((sum, r) => sum + (r?.score || 0), 0) / totalEvaluations
-        : 0;
-
-    const failedResults = results.filter((r) => !r?.passed);
-    const commonIssues = failedResults
-      .map((r) => r?.reasoning)
-      .filter((r) => r)
-      .slice(0, 3) as string[];
+      .map((call) => call.evaluation && findCriterionResult(call.evaluation.results, criterion))
+      .filter((r): r is EvaluationResult => r !== undefined);
 
     return {
       criterionId: criterion.id,
-      totalEvaluations,
-      passRate,
-      averageScore,
-      commonIssues,
+      criterionKey: criterion.key,
+      ...summarizeCriterionResults(results),
     };
   });
 
   return analytics;
 }
 
+/**
+ * Analytics for criteria that were evaluated in the past but are no longer in the
+ * active rule set, grouped by stable key so renamed or reordered rules are not mixed up
+ */
+export function calculateRetiredCriteriaAnalytics(calls: CallRecord[]): RetiredCriterionAnalytics[] {
+  const activeKeys = new Set(getActiveEvaluationCriteria().map((c) => c.key).filter(Boolean));
+  const retired = new Map<string, { results: EvaluationResult[]; name: string; criterionId: number; lastEvaluatedAt: string }>();
+
+  calls.forEach((call) => {
+    const evaluation = call.evaluation;
+    evaluation?.results.forEach((result) => {
+      if (!result.criterionKey || activeKeys.has(result.criterionKey)) return;
+
+      const entry = retired.get(result.criterionKey);
+      if (!entry) {
+        retired.set(result.criterionKey, {
+          results: [result],
+          name: result.criterionName || result.criterionKey,
+          criterionId: Number(result.criterionId),
+          lastEvaluatedAt: evaluation.evaluatedAt,
+        });
+        return;
+      }
+      entry.results.push(result);
+      if (evaluation.evaluatedAt > entry.lastEvaluatedAt) {
+        entry.lastEvaluatedAt = evaluation.evaluatedAt;
+        entry.name = result.criterionName || entry.name;
+        entry.criterionId = Number(result.criterionId);
+      }
+    });
+  });
+
+  return Array.from(retired.entries())
+    .map(([criterionKey, entry]) => ({
+      criterionId: entry.criterionId,
+      criterionKey,
+      criterionName: entry.name,
+      lastEvaluatedAt: entry.lastEvaluatedAt,
+      ...summarizeCriterionResults(entry.results),
+    }))
+    .sort((a, b) => b.lastEvaluatedAt.localeCompare(a.lastEvaluatedAt));
+}
+
+/** Pass rate, score and issues over the results where the criterion applied */
+function summarizeCriterionResults(allResults: EvaluationResult[]) {
+  const results = allResults.filter((r) => !r.notApplicable);
+  const notApplicableCount = allResults.length - results.length;
+  const totalEvaluations = results.length;
+  const passedCount = results.filter((r) => r.passed).length;
+  const passRate = totalEvaluations > 0 ? (passedCount / totalEvaluations) * 100 : 0;
+  const averageScore =
+    totalEvaluations > 0
+      ? results.reduce((sum, r) => sum + (r.score || 0), 0) / totalEvaluations
+      : 0;
+
+  const commonIssues = results
+    .filter((r) => !r.passed)
+    .map((r) => r.reasoning)
+    .filter((r) => r)
+    .slice(0, 3);
+
+  return { totalEvaluations, passRate, averageScore, commonIssues, notApplicableCount };
+}
+
+/**
+ * Average percentage of each scorecard section across evaluated calls.
+ * Sections are taken from the evaluations themselves, so weights reflect how each call was scored.
+ */
+export function calculateSectionAnalytics(calls: CallRecord[]): SectionAnalytics[] {
+  const sections = new Map<string, { name: string; weight: number; total: number; count: number }>();
+
+  calls.forEach((call) => {
+    call.evaluation?.sectionScores?.forEach((section) => {
+      const entry = sections.get(section.sectionId) ?? { name: section.name, weight: section.weight, total: 0, count: 0 };
+      entry.name = section.name;
+      entry.weight = section.weight;
+      if (section.maxScore > 0) {
+        entry.total += section.percentage;
+        entry.count += 1;
+      }
+      sections.set(section.sectionId, entry);
+    });
+  });
+
+  return Array.from(sections.entries()).map(([sectionId, entry]) => ({
+    sectionId,
+    name: entry.name,
+    weight: entry.weight,
+    averagePercentage: entry.count > 0 ? entry.total / entry.count : 0,
+    evaluatedCalls: entry.count,
+  }));
+}
+
+/**
+ * AI-vs-human agreement per criterion, based on QA reviews recorded in the Evaluation tab.
+ * Low agreement points at rules the model misreads.
+ */
+export function calculateCalibrationAnalytics(calls: CallRecord[]): CalibrationAnalytics[] {
+  const evaluatedCalls = calls.filter((c) => c.evaluation);
+  const activeCriteria = getActiveEvaluationCriteria();
+
+  return activeCriteria.map((criterion) => {
+    // Match by stable key, falling back to the rule id for results stored before keys existed
+    const reviews = evaluatedCalls
+      .map((call) => call.evaluation && findCriterionResult(call.evaluation.results, criterion))
+      .filter((r) => r?.humanReview)
+      .map((r) => ({ aiPassed: r!.humanReview!.aiPassed, humanPassed: r!.passed }));
+
+    const reviewedCount = reviews.length;
+    const agreementCount = reviews.filter((r) => r.aiPassed === r.humanPassed).length;
+
+    return {
+      criterionId: criterion.id,
+      criterionName: criterion.name,
+      reviewedCount,
+      agreementCount,
+      agreementRate: reviewedCount > 0 ? (agreementCount / reviewedCount) * 100 : 0,
+      aiFalsePassCount: reviews.filter((r) => r.aiPassed && !r.humanPassed).length,
+      aiFalseFailCount: reviews.filter((r) => !r.aiPassed && r.humanPassed).length,
+    };
+  });
+}
+
 export function getPerformanceTrend(calls: CallRecord[], agentName?: string): Array<{
   date: string;
   score: number;
@@ -468,6 +623,7 @@ export interface OverviewKPIs {
   totalCalls: number;
   evaluatedCalls: number;
   avgScore: number;
+  autoFailedCalls: number;     // Calls failed by a critical criterion
   avgHandlingTimeMs: number;
   satisfiedPercentage: number; // Calls with positive sentiment
   topTopics: TopicAnalytics[];
@@ -817,6 +973,7 @@ export function calculateOverviewKPIs(calls: CallRecord[], schema?: SchemaDefini
     totalCalls,
     evaluatedCalls: evaluatedCalls.length,
     avgScore,
+    autoFailedCalls: evaluatedCalls.filter((c) => c.evaluation?.autoFailed).length,
     avgHandlingTimeMs,
     satisfiedPercentage,
     topTopics,
@@ -0,0 +1,39 @@
+/**
+ * API Authorization
+ * Sends the signed-in user's Entra ID token with every request to the backend API
+ * (/api/...), so the server can check their role when access control is enabled.
+ */
+
+type TokenProvider = () => Promise<string | null>;
+
+function getRequestUrl(input: RequestInfo | URL): URL {
+  const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  return new URL(href, window.location.href);
+}
+
+/**
+ * Wrap window.fetch so same-origin /api requests carry "Authorization: Bearer <token>".
+ * Requests that already set Authorization, and requests made while nobody is signed in,
+ * go out unchanged.
+ */
+export function authorizeApiRequests(getToken: TokenProvider): void {
+  const baseFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = getRequestUrl(input);
+    if (url.origin !== window.location.origin || !url.pathname.startsWith('/api/')) {
+      return baseFetch(input, init);
+    }
+
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    if (headers.has('Authorization')) {
+      return baseFetch(input, init);
+    }
+    const token = await getToken();
+    if (!token) {
+      return baseFetch(input, init);
+    }
+    headers.set('Authorization', `Bearer ${token}`);
+    return baseFetch(input, { ...init, headers });
+  };
+}
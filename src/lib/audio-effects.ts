@@ -0,0 +1,96 @@
+/**
+ * Audio effects
+ * Simple DSP on decoded float channels: line noise, telephone band-limiting and
+ * generated hold music. Used to make synthetic calls sound like phone recordings.
+ */
+
+import { DecodedAudio, resample } from '@/lib/audio-pcm';
+
+export const TELEPHONE_SAMPLE_RATE = 8000;
+const TELEPHONE_LOW_HZ = 300;
+const TELEPHONE_HIGH_HZ = 3400;
+const MAINS_HUM_HZ = 50;
+
+interface BiquadCoefficients {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+/** RBJ audio EQ cookbook low- and high-pass filters (Q = 1/sqrt(2)) */
+function biquad(type: 'lowpass' | 'highpass', frequency: number, sampleRate: number): BiquadCoefficients {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b1 = type === 'lowpass' ? 1 - cos : -(1 + cos);
+  const b0 = type === 'lowpass' ? (1 - cos) / 2 : (1 + cos) / 2;
+  return { b0: b0 / a0, b1: b1 / a0, b2: b0 / a0, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0 };
+}
+
+function applyBiquad(samples: Float32Array, c: BiquadCoefficients): Float32Array {
+  const output = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = c.b0 * x + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+}
+
+/**
+ * Convert a level in dBFS to a linear amplitude
+ */
+export function dbToAmplitude(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Add line hiss and mains hum at the given level to every channel
+ */
+export function addLineNoise(audio: DecodedAudio, levelDb: number, random: () => number = Math.random): DecodedAudio {
+  const amplitude = dbToAmplitude(levelDb);
+  return {
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.map(channel => {
+      const output = new Float32Array(channel.length);
+      for (let i = 0; i < channel.length; i++) {
+        const hiss = (random() * 2 - 1) * amplitude;
+        const hum = Math.sin((2 * Math.PI * MAINS_HUM_HZ * i) / audio.sampleRate) * amplitude * 0.5;
+        output[i] = channel[i] + hiss + hum;
+      }
+      return output;
+    }),
+  };
+}
+
+/**
+ * Band-limit to the 300-3400 Hz telephone band and downsample to 8 kHz
+ */
+export function telephoneBandLimit(audio: DecodedAudio): DecodedAudio {
+  const highpass = biquad('highpass', TELEPHONE_LOW_HZ, audio.sampleRate);
+  const lowpass = biquad('lowpass', Math.min(TELEPHONE_HIGH_HZ, audio.sampleRate / 2 - 1), audio.sampleRate);
+  return {
+    sampleRate: TELEPHONE_SAMPLE_RATE,
+    channels: audio.channels.map(channel =>
+      resample(applyBiquad(applyBiquad(channel, highpass), lowpass), audio.sampleRate, TELEPHONE_SAMPLE_RATE)
+    ),
+  };
+}
+
+/**
+ * Generated hold music: a slow arpeggio of soft sine notes
+ */
+export function renderHoldMusic(durationMs: number, sampleRate: number): Float32Array {
+  const notes = [261.63, 329.63, 392.0, 523.25, 392.0, 329.63]; // C major arpeggio
+  const noteFrames = Math.round(sampleRate * 0.4);
+  const output = new Float32Array(Math.round((durationMs * sampleRate) / 1000));
+  for (let i = 0; i < output.length; i++) {
+    const note = notes[Math.floor(i / noteFrames) % notes.length];
+    const position = (i % noteFrames) / noteFrames;
+    const envelope = Math.min(1, position * 20) * (1 - position); // Quick attack, linear decay
+    output[i] = Math.sin((2 * Math.PI * note * i) / sampleRate) * 0.2 * envelope;
+  }
+  return output;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { BARGE_IN_TAIL_MS, decodeAudio, downmix, layoutTurns, mixTimeline, pcmToFloat, readChannelCount, resample } from './audio-pcm';
+import { encodeWav, floatToPcm16 } from './wav';
+
+const RATE = 1000; // One frame per millisecond keeps the timeline arithmetic readable
+
+function constant(value: number, frames: number): Float32Array {
+  return new Float32Array(frames).fill(value);
+}
+
+describe('audio-pcm', () => {
+  it('decodes stereo WAV back to float channels', async () => {
+    const pcm = floatToPcm16([constant(0.5, 10), constant(-0.25, 10)], 8000);
+    const blob = encodeWav(pcm.data, pcm);
+
+    const decoded = await decodeAudio(blob);
+    expect(decoded.sampleRate).toBe(8000);
+    expect(decoded.channels.map(c => Math.round(c[3] * 100) / 100)).toEqual([0.5, -0.25]);
+    expect(await readChannelCount(blob)).toBe(2);
+  });
+
+  it('reads 8-bit unsigned PCM', () => {
+    const decoded = pcmToFloat({ sampleRate: 8000, channels: 1, bitsPerSample: 8, data: new Uint8Array([0, 128, 192]) });
+    expect(Array.from(decoded.channels[0])).toEqual([-1, 0, 0.5]);
+  });
+
+  it('downmixes and resamples', () => {
+    expect(Array.from(downmix([constant(1, 4), constant(0, 4)]))).toEqual([0.5, 0.5, 0.5, 0.5]);
+
+    const resampled = resample(new Float32Array([0, 1, 0, 1]), 8000, 16000);
+    expect(resampled.length).toBe(8);
+    expect(resampled[1]).toBeCloseTo(0.5);
+  });
+
+  it('lays out turns with pauses, crosstalk and barge-ins', () => {
+    expect(layoutTurns([{ durationMs: 1000, pauseAfterMs: 200 }, { durationMs: 500 }])).toEqual([
+      { startMs: 0, endMs: 1000 },
+      { startMs: 1200, endMs: 1700 },
+    ]);
+
+    expect(layoutTurns([{ durationMs: 1000 }, { durationMs: 500, overlapMs: 300 }])[1]).toEqual({ startMs: 700, endMs: 1200 });
+
+    const [interrupted, bargeIn] = layoutTurns([{ durationMs: 3000 }, { durationMs: 1000, bargeIn: true }]);
+    expect(bargeIn.startMs).toBe(1800);
+    expect(interrupted.endMs).toBe(1800 + BARGE_IN_TAIL_MS);
+  });
+
+  it('mixes clips into their channels and fades out cut clips', () => {
+    const pcm = mixTimeline([
+      { samples: constant(0.5, 100), channel: 0, startMs: 0, endMs: 80 },
+      { samples: constant(0.25, 50), channel: 1, startMs: 60 },
+    ], 2, RATE);
+
+    expect(pcm).toMatchObject({ channels: 2, sampleRate: RATE, bitsPerSample: 16 });
+    const [left, right] = pcmToFloat(pcm).channels;
+    expect(left.length).toBe(110);
+    expect(left[10]).toBeCloseTo(0.5, 3);
+    expect(left[79]).toBeLessThan(0.05);
+    expect(left[90]).toBe(0);
+    expect(right[59]).toBe(0);
+    expect(right[70]).toBeCloseTo(0.25, 3);
+  });
+});
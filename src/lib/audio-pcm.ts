@@ -0,0 +1,217 @@
+/**
+ * PCM audio helpers
+ * Decoding to float samples, resampling and mixing mono clips onto a multi-channel
+ * timeline. Used to build stereo synthetic calls and to detect stereo recordings
+ * that can be transcribed one channel per party.
+ */
+
+import { PcmAudio, floatToPcm16, parseWav, readBlobAsArrayBuffer } from '@/lib/wav';
+
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[];        // One array of samples in [-1, 1] per channel
+}
+
+export interface TimelineClip {
+  samples: Float32Array;           // Mono samples at the timeline sample rate
+  channel: number;                 // Output channel (0 = left, 1 = right)
+  startMs: number;
+  endMs?: number;                  // Cut the clip here with a short fade-out (barge-in)
+}
+
+export interface TimelineTurn {
+  durationMs: number;
+  pauseAfterMs?: number;           // Silence before the next turn (default 400)
+  overlapMs?: number;              // Start this long before the previous turn ends (crosstalk)
+  bargeIn?: boolean;               // Interrupt the previous turn, which then trails off
+}
+
+export interface PlacedTurn {
+  startMs: number;
+  endMs: number;
+}
+
+export const DEFAULT_TURN_PAUSE_MS = 400;
+/** How long before the end of the interrupted turn a barge-in starts */
+export const BARGE_IN_LEAD_MS = 1200;
+/** How long the interrupted speaker keeps talking over the barge-in */
+export const BARGE_IN_TAIL_MS = 300;
+const FADE_OUT_MS = 30;
+
+/**
+ * Convert interleaved integer PCM to float channels
+ */
+export function pcmToFloat(audio: PcmAudio): DecodedAudio {
+  const bytesPerSample = audio.bitsPerSample / 8;
+  if (![1, 2, 3, 4].includes(bytesPerSample)) {
+    throw new Error(`Unsupported PCM sample size: ${audio.bitsPerSample} bits`);
+  }
+
+  const view = new DataView(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength);
+  const frames = Math.floor(audio.data.byteLength / (bytesPerSample * audio.channels));
+  const channels = Array.from({ length: audio.channels }, () => new Float32Array(frames));
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < audio.channels; c++) {
+      const offset = (i * audio.channels + c) * bytesPerSample;
+      let sample: number;
+      if (bytesPerSample === 1) {
+        sample = (view.getUint8(offset) - 128) / 128; // 8-bit WAV is unsigned
+      } else if (bytesPerSample === 2) {
+        sample = view.getInt16(offset, true) / 0x8000;
+      } else if (bytesPerSample === 3) {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        sample = value / 0x800000;
+      } else {
+        sample = view.getInt32(offset, true) / 0x80000000;
+      }
+      channels[c][i] = sample;
+    }
+  }
+  return { sampleRate: audio.sampleRate, channels };
+}
+
+/**
+ * Decode compressed audio (MP3, OGG, ...) with the browser's Web Audio API
+ */
+export async function decodeCompressedAudio(buffer: ArrayBuffer): Promise<DecodedAudio> {
+  const AudioContextClass = typeof window !== 'undefined'
+    ? window.AudioContext || (window as any).webkitAudioContext
+    : undefined;
+  if (!AudioContextClass) {
+    throw new Error('Only PCM WAV audio can be decoded in this environment');
+  }
+  const context: AudioContext = new AudioContextClass();
+  try {
+    const decoded = await context.decodeAudioData(buffer);
+    return {
+      sampleRate: decoded.sampleRate,
+      channels: Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c)),
+    };
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * Decode any audio file to float channels; PCM WAV is read directly
+ */
+export async function decodeAudio(blob: Blob): Promise<DecodedAudio> {
+  const buffer = await readBlobAsArrayBuffer(blob);
+  const wav = parseWav(buffer);
+  return wav ? pcmToFloat(wav) : decodeCompressedAudio(buffer);
+}
+
+/**
+ * Number of channels in an audio file, or undefined when it cannot be decoded here
+ */
+export async function readChannelCount(blob: Blob): Promise<number | undefined> {
+  const buffer = await readBlobAsArrayBuffer(blob);
+  const wav = parseWav(buffer);
+  if (wav) return wav.channels;
+  try {
+    return (await decodeCompressedAudio(buffer)).channels.length;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Average all channels into one
+ */
+export function downmix(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const length = Math.min(...channels.map(c => c.length));
+  const mono = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[i];
+    mono[i] = sum / channels.length;
+  }
+  return mono;
+}
+
+/**
+ * Linear-interpolation resampling; good enough for speech
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples;
+  const length = Math.max(1, Math.round((samples.length * toRate) / fromRate));
+  const output = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = samples[Math.min(index, samples.length - 1)] * (1 - fraction) + samples[next] * fraction;
+  }
+  return output;
+}
+
+/**
+ * Place conversation turns on a timeline. Turns follow each other with a pause,
+ * unless they overlap the previous turn or barge in on it.
+ */
+export function layoutTurns(turns: TimelineTurn[]): PlacedTurn[] {
+  const placed: PlacedTurn[] = [];
+  let timelineEnd = 0;
+
+  turns.forEach((turn, index) => {
+    const previous = placed[index - 1];
+    let startMs = 0;
+    if (previous) {
+      const lead = turn.bargeIn ? Math.max(BARGE_IN_LEAD_MS, turn.overlapMs ?? 0) : turn.overlapMs ?? 0;
+      startMs = lead > 0
+        ? Math.max(previous.startMs, previous.endMs - lead)
+        : timelineEnd + (turns[index - 1].pauseAfterMs ?? DEFAULT_TURN_PAUSE_MS);
+      if (turn.bargeIn) {
+        previous.endMs = Math.min(previous.endMs, startMs + BARGE_IN_TAIL_MS);
+        timelineEnd = Math.max(...placed.map(p => p.endMs));
+      }
+    }
+    const endMs = startMs + turn.durationMs;
+    placed.push({ startMs, endMs });
+    timelineEnd = Math.max(timelineEnd, endMs);
+  });
+  return placed;
+}
+
+/**
+ * Mix mono clips into one multi-channel 16-bit PCM recording
+ */
+export function mixTimeline(clips: TimelineClip[], channelCount: number, sampleRate: number): PcmAudio {
+  const mixed = mixClips(clips, channelCount, sampleRate);
+  return floatToPcm16(mixed.channels, mixed.sampleRate);
+}
+
+/**
+ * Mix mono clips into float channels, for further processing before encoding
+ */
+export function mixClips(clips: TimelineClip[], channelCount: number, sampleRate: number): DecodedAudio {
+  const toFrame = (ms: number) => Math.round((ms * sampleRate) / 1000);
+  const clipEnd = (clip: TimelineClip) => Math.min(
+    toFrame(clip.startMs) + clip.samples.length,
+    clip.endMs !== undefined ? toFrame(clip.endMs) : Infinity
+  );
+
+  const frames = clips.reduce((max, clip) => Math.max(max, clipEnd(clip)), 0);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frames));
+  const fadeFrames = toFrame(FADE_OUT_MS);
+
+  for (const clip of clips) {
+    if (clip.channel < 0 || clip.channel >= channelCount) {
+      throw new Error(`Clip channel ${clip.channel} is outside the ${channelCount}-channel mix`);
+    }
+    const start = toFrame(clip.startMs);
+    const end = clipEnd(clip);
+    const truncated = end < start + clip.samples.length;
+    const output = channels[clip.channel];
+    for (let frame = start; frame < end; frame++) {
+      const remaining = end - frame;
+      const gain = truncated && remaining < fadeFrames ? remaining / fadeFrames : 1;
+      output[frame] += clip.samples[frame - start] * gain;
+    }
+  }
+  return { sampleRate, channels };
+}
@@ -1,8 +1,12 @@
 /**
- * IndexedDB wrapper for storing audio files
- * This avoids localStorage quota issues with large audio data URLs
+ * Audio file storage
+ * Audio lives in IndexedDB (browser backend) or on the server (/api/audio) to avoid
+ * localStorage quota issues with large audio data URLs. Storing returns a SHA-256
+ * content hash, kept on the call as `audioHash` for duplicate detection.
  */
 
+import { readBlobAsArrayBuffer } from '@/lib/wav';
+
 const DB_NAME = 'CallCenterAudioDB';
 const STORE_NAME = 'audioFiles';
 const DB_VERSION = 1;
@@ -38,86 +42,183 @@ function openDB(): Promise<IDBDatabase> {
 }
 
 /**
- * Store audio file in IndexedDB
+ * Backend-agnostic audio storage operations
+ */
+export interface AudioStorageAdapter {
+  put(callId: string, file: File | Blob, schemaId?: string): Promise<void>;
+  get(callId: string, schemaId?: string): Promise<Blob | null>;
+  delete(callId: string, schemaId?: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Browser audio storage backed by IndexedDB
+ */
+export class IndexedDBAudioStorageAdapter implements AudioStorageAdapter {
+  async put(callId: string, file: File | Blob, schemaId?: string): Promise<void> {
+    const db = await openDB();
+    const storageKey = getStorageKey(callId, schemaId);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.put(file, storageKey);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(callId: string, schemaId?: string): Promise<Blob | null> {
+    const db = await openDB();
+    const storageKey = getStorageKey(callId, schemaId);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.get(storageKey);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(callId: string, schemaId?: string): Promise<void> {
+    const db = await openDB();
+    const storageKey = getStorageKey(callId, schemaId);
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.delete(storageKey);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Shared audio storage on the backend server (/api/audio/:callId)
+ */
+export class ServerAudioStorageAdapter implements AudioStorageAdapter {
+  constructor(private readonly baseUrl = '') {}
+
+  private url(callId: string, schemaId?: string): string {
+    const query = schemaId ? `?schemaId=${encodeURIComponent(schemaId)}` : '';
+    return `${this.baseUrl}/api/audio/${encodeURIComponent(callId)}${query}`;
+  }
+
+  async put(callId: string, file: File | Blob, schemaId?: string): Promise<void> {
+    const response = await fetch(this.url(callId, schemaId), {
+      method: 'PUT',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to upload audio for ${callId}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async get(callId: string, schemaId?: string): Promise<Blob | null> {
+    const response = await fetch(this.url(callId, schemaId));
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to download audio for ${callId}: ${response.status} ${response.statusText}`);
+    }
+    return response.blob();
+  }
+
+  async delete(callId: string, schemaId?: string): Promise<void> {
+    const response = await fetch(this.url(callId, schemaId), { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Failed to delete audio for ${callId}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/audio`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Failed to clear audio: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+let audioAdapter: AudioStorageAdapter = new IndexedDBAudioStorageAdapter();
+
+/**
+ * Replace the active audio storage adapter (see initializeStorage in storage-adapter.ts)
+ */
+export function setAudioStorageAdapter(adapter: AudioStorageAdapter): void {
+  audioAdapter = adapter;
+}
+
+/**
+ * SHA-256 of the audio bytes as hex - identical recordings hash the same whatever
+ * their file name
+ */
+export async function computeAudioHash(file: File | Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(await readBlobAsArrayBuffer(file)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Store audio file
  * @param callId - Unique call identifier
  * @param file - Audio file blob
  * @param schemaId - Optional schema ID for organization
+ * @returns Content hash of the stored audio
  */
-export async function storeAudioFile(callId: string, file: File | Blob, schemaId?: string): Promise<void> {
-  const db = await openDB();
-  const storageKey = getStorageKey(callId, schemaId);
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(file, storageKey);
-
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+export async function storeAudioFile(callId: string, file: File | Blob, schemaId?: string): Promise<string> {
+  await audioAdapter.put(callId, file, schemaId);
+  return computeAudioHash(file);
 }
 
 /**
- * Retrieve audio file from IndexedDB
+ * Retrieve audio file
  * @param callId - Unique call identifier
  * @param schemaId - Optional schema ID for organization
  */
 export async function getAudioFile(callId: string, schemaId?: string): Promise<Blob | null> {
-  const db = await openDB();
-  const storageKey = getStorageKey(callId, schemaId);
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(storageKey);
-
-    request.onsuccess = () => resolve(request.result || null);
-    request.onerror = () => reject(request.error);
-  });
+  return audioAdapter.get(callId, schemaId);
 }
 
 /**
- * Delete audio file from IndexedDB
+ * Delete audio file
  * @param callId - Unique call identifier
  * @param schemaId - Optional schema ID for organization
  */
 export async function deleteAudioFile(callId: string, schemaId?: string): Promise<void> {
-  const db = await openDB();
-  const storageKey = getStorageKey(callId, schemaId);
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(storageKey);
-
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+  return audioAdapter.delete(callId, schemaId);
 }
 
 /**
- * Clear all audio files from IndexedDB
+ * Clear all audio files
  */
 export async function clearAllAudioFiles(): Promise<void> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
-
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+  return audioAdapter.clear();
 }
 
 /**
  * Store audio files for multiple calls
  * @param calls - Array of calls with audio files
- * @param schemaId - Optional schema ID for organization
+ * @returns Content hash of each stored file by call ID
  */
-export async function storeAudioFiles(calls: Array<{ id: string; audioFile?: File | Blob; schemaId?: string }>): Promise<void> {
+export async function storeAudioFiles(calls: Array<{ id: string; audioFile?: File | Blob; schemaId?: string }>): Promise<Map<string, string>> {
   const promises = calls
     .filter(call => call.audioFile)
-    .map(call => storeAudioFile(call.id, call.audioFile!, call.schemaId));
+    .map(async call => [call.id, await storeAudioFile(call.id, call.audioFile!, call.schemaId)] as const);
   
-  await Promise.all(promises);
+  return new Map(await Promise.all(promises));
 }
 
 /**
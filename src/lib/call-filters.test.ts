@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyCallFilters,
+  countActiveFilters,
+  getScoreBand,
+  toggleFieldFilter,
+  withoutFieldFilter,
+} from './call-filters';
+import { CallRecord } from '@/types/call';
+import { loadDebtCollectionCalls } from '@/test/fixtures';
+
+function scored(call: CallRecord, percentage: number, topicIds: string[] = []): CallRecord {
+  return {
+    ...call,
+    status: 'evaluated',
+    evaluation: {
+      id: `eval_${call.id}`,
+      callId: call.id,
+      evaluatedAt: call.createdAt,
+      totalScore: percentage,
+      maxScore: 100,
+      percentage,
+      results: [],
+      overallFeedback: '',
+      topicsInsight: {
+        topics: topicIds.map(topicId => ({ topicId, topicName: topicId, confidence: 0.9, sentiment: 'neutral' as const })),
+        keyPhrases: [],
+      },
+    },
+  };
+}
+
+describe('applyCallFilters', () => {
+  it('returns every call without filters', () => {
+    const { calls } = loadDebtCollectionCalls();
+    expect(applyCallFilters(calls, {})).toBe(calls);
+  });
+
+  it('ORs values of one field and ANDs different filters', () => {
+    const { calls } = loadDebtCollectionCalls();
+    const byNationality = applyCallFilters(calls, { fields: { nationality: ['Pakistan', 'India'] } });
+    expect(byNationality).toHaveLength(5);
+
+    const recent = applyCallFilters(calls, { fields: { nationality: ['Pakistan', 'India'] }, dateFrom: '2025-09-01' });
+    expect(recent.every(c => c.createdAt >= '2025-09-01')).toBe(true);
+    expect(recent.length).toBeLessThan(byNationality.length);
+  });
+
+  it('includes both ends of the date range', () => {
+    const { calls } = loadDebtCollectionCalls();
+    expect(applyCallFilters(calls, { dateFrom: '2025-09-04', dateTo: '2025-09-04' })).toHaveLength(2);
+  });
+
+  it('filters on topic, sentiment, score band and evaluated status', () => {
+    const [a, b, c] = loadDebtCollectionCalls().calls;
+    const calls = [
+      { ...scored(a, 92, ['billing']), overallSentiment: 'positive' as const },
+      { ...scored(b, 45, ['billing', 'refund']), overallSentiment: 'negative' as const },
+      c,
+    ];
+
+    expect(applyCallFilters(calls, { topics: ['refund'] }).map(x => x.id)).toEqual([b.id]);
+    expect(applyCallFilters(calls, { sentiments: ['positive', 'negative'] })).toHaveLength(2);
+    expect(applyCallFilters(calls, { scoreBands: ['low'] }).map(x => x.id)).toEqual([b.id]);
+    expect(applyCallFilters(calls, { evaluated: 'not-evaluated' }).map(x => x.id)).toEqual([c.id]);
+  });
+});
+
+describe('cross-filter helpers', () => {
+  it('toggles field values and drops empty fields', () => {
+    const once = toggleFieldFilter({}, 'product', 'SNPL');
+    expect(once).toEqual({ fields: { product: ['SNPL'] } });
+    expect(countActiveFilters(toggleFieldFilter(once, 'product', 'Card'))).toBe(2);
+    expect(toggleFieldFilter(once, 'product', 'SNPL')).toEqual({ fields: undefined });
+  });
+
+  it('leaves out the chart\'s own dimension', () => {
+    const filters = { sentiments: ['negative' as const], fields: { product: ['SNPL'], nationality: ['India'] } };
+    expect(withoutFieldFilter(filters, 'product')).toEqual({ sentiments: ['negative'], fields: { nationality: ['India'] } });
+    expect(withoutFieldFilter(filters, undefined)).toBe(filters);
+  });
+
+  it('bands scores', () => {
+    expect([100, 80, 79, 60, 59, 0].map(getScoreBand)).toEqual(['high', 'high', 'medium', 'medium', 'low', 'low']);
+  });
+});
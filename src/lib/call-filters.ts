@@ -0,0 +1,135 @@
+/**
+ * Call Filters
+ * Global dashboard filters shared by the analytics and agents views. Charts
+ * cross-filter by adding field values; every view then aggregates only the
+ * calls that match.
+ */
+
+import { CallFilters, CallRecord, ScoreBand } from '@/types/call';
+import { getSpeechMeasure, getSpeechMeasureValue } from '@/lib/speech-analytics';
+
+/** Score bands used by the score filter, highest first */
+export const SCORE_BANDS: Array<{ id: ScoreBand; label: string; min: number }> = [
+  { id: 'high', label: 'High (80%+)', min: 80 },
+  { id: 'medium', label: 'Medium (60-79%)', min: 60 },
+  { id: 'low', label: 'Low (<60%)', min: 0 },
+];
+
+/**
+ * Band a call percentage falls in
+ */
+export function getScoreBand(percentage: number): ScoreBand {
+  return SCORE_BANDS.find(b => percentage >= b.min)?.id ?? 'low';
+}
+
+/**
+ * Value of a schema field on a call (checks metadata first, then direct properties).
+ * Built-in speech measures are read from the call's speech metrics.
+ */
+export function getCallFieldValue(call: CallRecord, fieldId: string): any {
+  if (getSpeechMeasure(fieldId)) {
+    return getSpeechMeasureValue(call, fieldId);
+  }
+  if (call.metadata && call.metadata[fieldId] !== undefined) {
+    return call.metadata[fieldId];
+  }
+  return (call as any)[fieldId];
+}
+
+/**
+ * Field value as charts group it - missing values are 'Unknown'
+ */
+export function getFieldFilterValue(call: CallRecord, fieldId: string): string {
+  return String(getCallFieldValue(call, fieldId) || 'Unknown');
+}
+
+function getCallDate(call: CallRecord): string | null {
+  const date = new Date(call.createdAt);
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+}
+
+/**
+ * True when the call matches every active filter
+ */
+export function matchesCallFilters(call: CallRecord, filters: CallFilters): boolean {
+  if (filters.dateFrom || filters.dateTo) {
+    const date = getCallDate(call);
+    if (!date) return false;
+    if (filters.dateFrom && date < filters.dateFrom) return false;
+    if (filters.dateTo && date > filters.dateTo) return false;
+  }
+
+  for (const [fieldId, values] of Object.entries(filters.fields ?? {})) {
+    if (values.length > 0 && !values.includes(getFieldFilterValue(call, fieldId))) return false;
+  }
+
+  if (filters.topics?.length) {
+    const topicIds = call.evaluation?.topicsInsight?.topics?.map(t => t.topicId) ?? [];
+    if (!filters.topics.some(id => topicIds.includes(id))) return false;
+  }
+
+  if (filters.sentiments?.length) {
+    if (!call.overallSentiment || !filters.sentiments.includes(call.overallSentiment)) return false;
+  }
+
+  if (filters.scoreBands?.length) {
+    if (!call.evaluation || !filters.scoreBands.includes(getScoreBand(call.evaluation.percentage))) return false;
+  }
+
+  if (filters.evaluated === 'evaluated' && !call.evaluation) return false;
+  if (filters.evaluated === 'not-evaluated' && call.evaluation) return false;
+
+  return true;
+}
+
+/**
+ * Calls matching every active filter
+ */
+export function applyCallFilters(calls: CallRecord[], filters: CallFilters): CallRecord[] {
+  if (countActiveFilters(filters) === 0) return calls;
+  return calls.filter(call => matchesCallFilters(call, filters));
+}
+
+/**
+ * Number of active filters (each field value counts once)
+ */
+export function countActiveFilters(filters: CallFilters): number {
+  const fieldValues = Object.values(filters.fields ?? {}).reduce((sum, values) => sum + values.length, 0);
+  return (
+    (filters.dateFrom ? 1 : 0) +
+    (filters.dateTo ? 1 : 0) +
+    fieldValues +
+    (filters.topics?.length ?? 0) +
+    (filters.sentiments?.length ?? 0) +
+    (filters.scoreBands?.length ?? 0) +
+    (filters.evaluated ? 1 : 0)
+  );
+}
+
+/**
+ * Add the value to the field's filter, or remove it if already selected
+ */
+export function toggleFieldFilter(filters: CallFilters, fieldId: string, value: string): CallFilters {
+  const current = filters.fields?.[fieldId] ?? [];
+  const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+  return withFieldFilter(filters, fieldId, next);
+}
+
+/**
+ * Filters without the given field - lets the chart that drives a cross-filter
+ * keep showing every value of its own dimension
+ */
+export function withoutFieldFilter(filters: CallFilters, fieldId?: string): CallFilters {
+  if (!fieldId || !filters.fields?.[fieldId]) return filters;
+  return withFieldFilter(filters, fieldId, []);
+}
+
+function withFieldFilter(filters: CallFilters, fieldId: string, values: string[]): CallFilters {
+  const fields = { ...filters.fields };
+  if (values.length > 0) {
+    fields[fieldId] = values;
+  } else {
+    delete fields[fieldId];
+  }
+  return { ...filters, fields: Object.keys(fields).length > 0 ? fields : undefined };
+}
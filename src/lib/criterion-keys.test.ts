@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { slugifyCriterionName, assignCriterionKeys } from './criterion-keys';
+
+type Rule = { name: string; key?: string };
+
+describe('slugifyCriterionName', () => {
+  it('builds a lowercase, accent-free slug', () => {
+    expect(slugifyCriterionName('Vérifier l\'identité du client')).toBe('verifier-l-identite-du-client');
+    expect(slugifyCriterionName('  ** ')).toBe('criterion');
+  });
+});
+
+describe('assignCriterionKeys', () => {
+  it('keeps existing keys and makes new ones unique', () => {
+    const keyed = assignCriterionKeys<Rule>([
+      { name: 'Greeting', key: 'greeting' },
+      { name: 'Greeting' },
+      { name: 'Closing' },
+    ]);
+    expect(keyed.map(r => r.key)).toEqual(['greeting', 'greeting-2', 'closing']);
+  });
+
+  it('reuses the key of a re-added rule but never a retired key for a different rule', () => {
+    const history = [{ name: 'Empathy', key: 'empathy' }, { name: 'Closing', key: 'closing' }];
+
+    expect(assignCriterionKeys<Rule>([{ name: 'Empathy' }], history)[0].key).toBe('empathy');
+    expect(assignCriterionKeys<Rule>([{ name: 'closing' }], history)[0].key).toBe('closing-2');
+  });
+});
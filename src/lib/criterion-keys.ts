@@ -0,0 +1,84 @@
+/**
+ * Criterion Keys
+ * Stable identity for evaluation criteria. A key is assigned once, when a rule is
+ * first saved, and never changes - so stored results keep pointing at the right
+ * rule when rules are reordered, renamed or deleted.
+ */
+
+import { EvaluationResult } from '@/types/call';
+
+interface KeyedRule {
+  name: string;
+  key?: string;
+}
+
+interface ResultCriterion {
+  id: number;
+  key?: string;
+}
+
+/**
+ * Turn a criterion name into a key-safe slug
+ */
+export function slugifyCriterionName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 48)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'criterion';
+}
+
+/**
+ * Give every rule without a key a stable one.
+ * Existing keys are never changed. A keyless rule reuses the key of a rule with the
+ * same name from `history` (e.g. a regenerated or re-added rule), otherwise gets a
+ * new slug that no rule in `history` has ever used.
+ *
+ * @param rules Rules being saved
+ * @param history Rules from earlier versions, most recent first
+ */
+export function assignCriterionKeys<T extends KeyedRule>(rules: T[], history: KeyedRule[] = []): T[] {
+  const inUse = new Set(rules.map(r => r.key).filter((k): k is string => !!k));
+  const everUsed = new Set([...inUse, ...history.map(r => r.key).filter((k): k is string => !!k)]);
+
+  return rules.map(rule => {
+    if (rule.key) return rule;
+
+    const previous = history.find(h => h.key && h.name === rule.name && !inUse.has(h.key));
+    let key = previous?.key;
+
+    if (!key) {
+      const base = slugifyCriterionName(rule.name);
+      key = base;
+      for (let n = 2; everUsed.has(key); n++) {
+        key = `${base}-${n}`;
+      }
+    }
+
+    inUse.add(key);
+    everUsed.add(key);
+    return { ...rule, key };
+  });
+}
+
+/**
+ * Find the stored result for a criterion.
+ * Results carrying a criterionKey are matched by key only. Results stored before keys
+ * existed fall back to their criterionId - the rule id the prompt numbered the criterion
+ * with (older results may carry it as a string).
+ */
+export function matchCriterionResult(
+  results: EvaluationResult[],
+  criterion: ResultCriterion
+): EvaluationResult | undefined {
+  if (criterion.key) {
+    const keyed = results.find(r => r.criterionKey === criterion.key);
+    if (keyed) return keyed;
+    return results.find(r => !r.criterionKey && Number(r.criterionId) === criterion.id);
+  }
+
+  return results.find(r => Number(r.criterionId) === criterion.id);
+}
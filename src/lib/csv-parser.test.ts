@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCSV,
+  csvRowsToCallRecords,
+  validateRowsForSchema,
+  CSVStreamParser,
+  detectDelimiter,
+  detectEncoding,
+  streamCSVFile,
+} from './csv-parser';
+import { getTemplateFixture, buildRawRow } from '@/test/fixtures';
+
+describe('parseCSV', () => {
+  it('maps rows to header names', () => {
+    const rows = parseCSV('agentName,product,daysPastDue\nRaj,SNPL,95\nBev,CashNow,26');
+    expect(rows).toEqual([
+      { agentName: 'Raj', product: 'SNPL', daysPastDue: '95' },
+      { agentName: 'Bev', product: 'CashNow', daysPastDue: '26' },
+    ]);
+  });
+
+  it('keeps commas inside quoted values', () => {
+    const [row] = parseCSV('name,followUpStatus\n"ABU, MUHAMMAD","will pay, at 5 PM"');
+    expect(row.name).toBe('ABU, MUHAMMAD');
+    expect(row.followUpStatus).toBe('will pay, at 5 PM');
+  });
+
+  it('unescapes doubled quotes', () => {
+    const [row] = parseCSV('note\n"He said ""call back"" tomorrow"');
+    expect(row.note).toBe('He said "call back" tomorrow');
+  });
+
+  it('parses quoted headers containing commas', () => {
+    const [row] = parseCSV('"Amount, AED",Agent\n1348.34,Raj');
+    expect(row).toEqual({ 'Amount, AED': '1348.34', Agent: 'Raj' });
+  });
+
+  it('handles CRLF line endings and blank lines', () => {
+    const rows = parseCSV('a,b\r\n1,2\r\n\r\n3,4\r\n');
+    expect(rows).toEqual([{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+  });
+
+  it('fills missing trailing values with empty strings', () => {
+    const [row] = parseCSV('a,b,c\n1,"",');
+    expect(row).toEqual({ a: '1', b: '', c: '' });
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCSV('')).toEqual([]);
+    expect(parseCSV('\n\n')).toEqual([]);
+  });
+
+  it('keeps line breaks inside quoted values', () => {
+    const rows = parseCSV('agent,notes\r\nRaj,"Customer asked:\r\n""call me back""\nat 5"\r\nBev,ok');
+    expect(rows).toEqual([
+      { agent: 'Raj', notes: 'Customer asked:\r\n"call me back"\nat 5' },
+      { agent: 'Bev', notes: 'ok' },
+    ]);
+  });
+
+  it('detects semicolon, tab and pipe delimiters and strips a BOM', () => {
+    expect(detectDelimiter('a;b;"c;d"\n1;2;3')).toBe(';');
+    expect(detectDelimiter('"a,b"\tc\td')).toBe('\t');
+    expect(parseCSV('\uFEFFAgent;Amount\nRaj;"1.348,34"')).toEqual([{ Agent: 'Raj', Amount: '1.348,34' }]);
+    expect(parseCSV('a|b\n1|2', { delimiter: '|' })).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('gives the same records however the text is chunked', () => {
+    const text = 'a,b\r\n"x\r\n""y""",2\r\n3,4';
+    const whole = new CSVStreamParser(',');
+    const expected = [...whole.push(text), ...whole.end()];
+
+    const parser = new CSVStreamParser();
+    const records = [...text].flatMap(char => parser.push(char));
+    expect([...records, ...parser.end()]).toEqual(expected);
+    expect(expected).toEqual([['a', 'b'], ['x\r\n"y"', '2'], ['3', '4']]);
+  });
+});
+
+describe('streamCSVFile', () => {
+  it('detects the encoding from the BOM or the bytes', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toEqual({ encoding: 'utf-8', bomLength: 3 });
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toEqual({ encoding: 'utf-16le', bomLength: 2 });
+    expect(detectEncoding(new Uint8Array([0x4a, 0x6f, 0x73, 0xe9, 0x3b]))).toEqual({ encoding: 'windows-1252', bomLength: 0 });
+  });
+
+  it('parses a file in small chunks with progress', async () => {
+    const bytes = new TextEncoder().encode('\uFEFFname,city\n"Zoë, Ann",Zürich\n"Multi\nline",Köln\n');
+    const progress: number[] = [];
+    const result = await streamCSVFile(new Blob([bytes]), {
+      chunkSize: 5,
+      onProgress: p => progress.push(p.bytesRead),
+    });
+
+    expect(result).toMatchObject({ columns: ['name', 'city'], delimiter: ',', encoding: 'utf-8' });
+    expect(result.rows).toEqual([
+      { name: 'Zoë, Ann', city: 'Zürich' },
+      { name: 'Multi\nline', city: 'Köln' },
+    ]);
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  });
+
+  it('decodes Windows-1252 exports', async () => {
+    const encode = (text: string) => [...new TextEncoder().encode(text)];
+    const bytes = new Uint8Array([...encode('agent;city\nJos'), 0xe9, ...encode(';Li'), 0xe8, ...encode('ge')]);
+    const result = await streamCSVFile(new Blob([bytes]));
+
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.rows).toEqual([{ agent: 'José', city: 'Liège' }]);
+  });
+});
+
+describe('csvRowsToCallRecords', () => {
+  it('creates uploaded calls with schema-mapped metadata', () => {
+    const { schema } = getTemplateFixture('debt-collection');
+    const rows = [buildRawRow(schema, 0), buildRawRow(schema, 1)];
+
+    const calls = csvRowsToCallRecords(rows, schema);
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0]).toMatchObject({ schemaId: schema.id, schemaVersion: schema.version, status: 'uploaded' });
+    const numberField = schema.fields.find(f => f.type === 'number')!;
+    expect(typeof calls[1].metadata[numberField.id]).toBe('number');
+    expect(calls[0].id).not.toBe(calls[1].id);
+  });
+});
+
+describe('validateRowsForSchema', () => {
+  it('reports missing participant columns', () => {
+    const { schema } = getTemplateFixture('debt-collection');
+    const agentField = schema.fields.find(f => f.semanticRole === 'participant_1')!;
+    const row = buildRawRow(schema, 0);
+    delete row[agentField.name];
+
+    expect(validateRowsForSchema([buildRawRow(schema, 0)], schema).valid).toBe(true);
+    expect(validateRowsForSchema([row], schema).errors).toEqual([
+      `Missing required field: ${agentField.displayName}`,
+    ]);
+    expect(validateRowsForSchema([], schema).valid).toBe(false);
+  });
+
+  it('reports the row and column of each problem, using the column mapping', () => {
+    const { schema } = getTemplateFixture('debt-collection');
+    const agentField = schema.fields.find(f => f.semanticRole === 'participant_1')!;
+    const numberField = schema.fields.find(f => f.type === 'number')!;
+    const renamed = (index: number) => {
+      const { [agentField.name]: agent, ...rest } = buildRawRow(schema, index);
+      return { ...rest, Rep: agent };
+    };
+    const rows = [renamed(0), { ...renamed(1), [numberField.name]: 'n/a' }, { ...renamed(2), Rep: '' }];
+    const columnMapping = Object.fromEntries(
+      schema.fields.map(f => [f.id, f.id === agentField.id ? 'Rep' : f.name])
+    );
+
+    const result = validateRowsForSchema(rows, schema, { columnMapping });
+
+    expect(result.valid).toBe(false);
+    expect(result.invalidRows).toEqual([1, 2]);
+    expect(result.rowErrors).toEqual([
+      { rowIndex: 1, fieldId: numberField.id, column: numberField.name, value: 'n/a', message: `${numberField.displayName}: "n/a" is not a number` },
+      { rowIndex: 2, fieldId: agentField.id, column: 'Rep', message: `Missing required field: ${agentField.displayName}` },
+    ]);
+    expect(validateRowsForSchema(rows, schema, { columnMapping, maxRowErrors: 1 }).rowErrors).toHaveLength(1);
+  });
+});
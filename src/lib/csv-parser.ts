@@ -1,64 +1,229 @@
 import { CallRecord } from '@/types/call';
-import { SchemaDefinition } from '@/types/schema';
+import { SchemaDefinition, FieldDefinition } from '@/types/schema';
 import { v4 as uuidv4 } from 'uuid';
 import * as XLSX from 'xlsx';
 import { SchemaMapper } from '@/services/schema-mapper';
+import { ColumnMapping, CsvDelimiter, CsvEncoding } from '@/types/import-mapping';
+import { readBlobAsArrayBuffer } from '@/lib/wav';
 
 export interface CSVRow {
   [key: string]: any; // Dynamic structure based on schema
 }
 
+export interface CSVParseOptions {
+  delimiter?: CsvDelimiter;        // Detected from the header line when unset
+}
+
+export interface CSVStreamOptions extends CSVParseOptions {
+  encoding?: CsvEncoding;          // Detected from the byte order mark or content when unset
+  chunkSize?: number;              // Bytes decoded per step (default 1 MB)
+  onProgress?: (progress: { bytesRead: number; totalBytes: number; rows: number }) => void;
+}
+
+export interface CSVStreamResult {
+  rows: CSVRow[];
+  columns: string[];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+}
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+export const CSV_ENCODINGS: CsvEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1'];
+const CSV_CHUNK_BYTES = 1024 * 1024;
+
 /**
- * Parse CSV text into array of objects
+ * Let the browser render and handle input between chunks of a long import
  */
-export function parseCSV(csvText: string): CSVRow[] {
-  const lines = csvText.split('\n').filter(line => line.trim());
-  if (lines.length === 0) return [];
+export function yieldToBrowser(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
 
-  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-  const rows: CSVRow[] = [];
+/**
+ * Guess the delimiter from the first line: the candidate found most often outside quotes
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(CSV_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+  return CSV_DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',');
+}
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length === 0) continue;
+/**
+ * Encoding of a file from its first bytes: a byte order mark wins, then valid UTF-8,
+ * otherwise Windows-1252 (what Excel writes for "CSV" on Western systems)
+ */
+export function detectEncoding(head: Uint8Array): { encoding: CsvEncoding; bomLength: number } {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return { encoding: 'utf-8', bomLength: 3 };
+  if (head[0] === 0xff && head[1] === 0xfe) return { encoding: 'utf-16le', bomLength: 2 };
+  if (head[0] === 0xfe && head[1] === 0xff) return { encoding: 'utf-16be', bomLength: 2 };
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+}
 
-    const row: any = {};
-    headers.forEach((header, index) => {
-      row[header] = values[index] || '';
-    });
-    rows.push(row);
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in chunks of any size; quoted fields
+ * may contain delimiters, doubled quotes and line breaks. Lines end with LF, CRLF or CR.
+ * Unquoted values are trimmed and blank lines are skipped.
+ */
+export class CSVStreamParser {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoted = false;          // Current field started with a quote
+  private quoteSeen = false;       // Quote inside a quoted field - escaped or closing, decided by the next char
+  private skipLineFeed = false;    // Previous char was CR
+  private pending = '';            // Text held back until the delimiter is known
+
+  constructor(public delimiter?: CsvDelimiter) {}
+
+  /**
+   * Parse the next chunk; returns the records completed by it
+   */
+  push(text: string): string[][] {
+    if (!this.delimiter) {
+      this.pending += text;
+      if (!/[\r\n]/.test(this.pending)) return [];
+      this.delimiter = detectDelimiter(this.pending);
+      text = this.pending;
+      this.pending = '';
+    }
+
+    const records: string[][] = [];
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quoteSeen) {
+        this.quoteSeen = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false; // That quote closed the field; handle this char normally
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') this.quoteSeen = true;
+        else this.field += char;
+      } else if (char === '"' && !this.quoted && this.field.trim() === '') {
+        this.inQuotes = true;
+        this.quoted = true;
+        this.field = '';
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r';
+        const record = this.endRecord();
+        if (record) records.push(record);
+      } else if (!(this.quoted && /\s/.test(char))) {
+        this.field += char;
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Finish parsing; returns the last record when the text did not end with a line break
+   */
+  end(): string[][] {
+    const records = this.pending ? this.push('\n') : [];
+    // An unterminated quote runs to the end of the input
+    this.quoteSeen = false;
+    this.inQuotes = false;
+    const record = this.endRecord();
+    return record ? [...records, record] : records;
+  }
+
+  private endField(): void {
+    this.record.push(this.quoted ? this.field : this.field.trim());
+    this.field = '';
+    this.quoted = false;
   }
 
-  return rows;
+  private endRecord(): string[] | null {
+    const blank = this.record.length === 0 && !this.quoted && this.field.trim() === '';
+    this.endField();
+    const record = this.record;
+    this.record = [];
+    return blank ? null : record;
+  }
+}
+
+function toRow(headers: string[], values: string[]): CSVRow {
+  const row: CSVRow = {};
+  headers.forEach((header, index) => {
+    row[header] = values[index] || '';
+  });
+  return row;
 }
 
 /**
- * Parse a single CSV line, handling quoted values with commas
+ * Parse CSV text into array of objects keyed by the header row
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+export function parseCSV(csvText: string, options: CSVParseOptions = {}): CSVRow[] {
+  const parser = new CSVStreamParser(options.delimiter);
+  const [headers, ...records] = [...parser.push(csvText.replace(/^\uFEFF/, '')), ...parser.end()];
+  if (!headers) return [];
+  return records.map(values => toRow(headers, values));
+}
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-
-    if (char === '"' && inQuotes && nextChar === '"') {
-      current += '"';
-      i++; // Skip next quote
-    } else if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+/**
+ * Parse a CSV file chunk by chunk, decoding it with the detected or given encoding.
+ * Yields to the browser between chunks so large files do not freeze the tab.
+ */
+export async function streamCSVFile(file: Blob, options: CSVStreamOptions = {}): Promise<CSVStreamResult> {
+  const chunkSize = options.chunkSize ?? CSV_CHUNK_BYTES;
+  const head = new Uint8Array(await readBlobAsArrayBuffer(file.slice(0, Math.min(file.size, 4096))));
+  const detected = detectEncoding(head);
+  const encoding = options.encoding ?? detected.encoding;
+  const bomLength = detected.encoding === encoding ? detected.bomLength : 0;
+
+  const decoder = new TextDecoder(encoding, { ignoreBOM: true });
+  const parser = new CSVStreamParser(options.delimiter);
+  const rows: CSVRow[] = [];
+  let headers: string[] | null = null;
+  const collect = (records: string[][]) => {
+    for (const record of records) {
+      if (!headers) headers = record;
+      else rows.push(toRow(headers, record));
     }
+  };
+
+  for (let offset = bomLength; offset < file.size; offset += chunkSize) {
+    const bytes = await readBlobAsArrayBuffer(file.slice(offset, offset + chunkSize));
+    collect(parser.push(decoder.decode(bytes, { stream: true })));
+    options.onProgress?.({ bytesRead: Math.min(file.size, offset + chunkSize), totalBytes: file.size, rows: rows.length });
+    await yieldToBrowser();
   }
+  collect(parser.push(decoder.decode()));
+  collect(parser.end());
 
-  result.push(current.trim());
-  return result;
+  return { rows, columns: headers ?? [], delimiter: parser.delimiter ?? ',', encoding };
+}
+
+/**
+ * Field holding the audio file name or URL (fileTag, audioUrl or a "file" column)
+ */
+export function getAudioFileField(schema: SchemaDefinition): FieldDefinition | undefined {
+  return schema.fields.find(f => 
+    f.id === 'audioUrl' || 
+    f.id === 'fileTag' || 
+    f.name?.toString().toLowerCase().includes('file')
+  );
 }
 
 /**
@@ -88,11 +253,7 @@ export function csvRowsToCallRecords(
 
     // Handle audio URL if field exists in schema
     let audioUrl: string | undefined;
-    const audioField = schema.fields.find(f => 
-      f.id === 'audioUrl' || 
-      f.id === 'fileTag' || 
-      f.name?.toString().toLowerCase().includes('file')
-    );
+    const audioField = getAudioFileField(schema);
 
     if (audioField && audioFolderPath) {
       const fileTag = metadata[audioField.id];
@@ -220,11 +381,12 @@ export async function fetchAudioFilesForCalls(calls: CallRecord[]): Promise<Call
         const file = new File([blob], fileName, { type: blob.type || 'audio/mpeg' });
         
         // Store in IndexedDB for persistence
-        await storeAudioFile(call.id, file);
+        const audioHash = await storeAudioFile(call.id, file);
         
         return {
           ...call,
           audioFile: file,
+          audioHash,
         };
       } catch (error) {
         console.warn(`Error fetching audio for ${call.id}:`, error);
@@ -314,9 +476,9 @@ export function getExcelSheetNames(file: File): Promise<string[]> {
 }
 
 /**
- * Read Excel file and extract data from specific sheet
+ * Read Excel file and extract data from a sheet (the first sheet unless one is named)
  */
-export function readExcelFile(file: File, sheetName: string = 'audio related info'): Promise<CSVRow[]> {
+export function readExcelFile(file: File, sheetName?: string): Promise<CSVRow[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
@@ -326,10 +488,10 @@ export function readExcelFile(file: File, sheetName: string = 'audio related inf
         const workbook = XLSX.read(data, { type: 'array' });
         
         // Check if the specified sheet exists
-        if (!workbook.SheetNames.includes(sheetName)) {
+        if (!sheetName || !workbook.SheetNames.includes(sheetName)) {
           // Try to use the first sheet if specified sheet doesn't exist
           const firstSheet = workbook.SheetNames[0];
-          console.warn(`Sheet "${sheetName}" not found, using "${firstSheet}" instead`);
+          if (sheetName) console.warn(`Sheet "${sheetName}" not found, using "${firstSheet}" instead`);
           const worksheet = workbook.Sheets[firstSheet];
           const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
           resolve(normalizeExcelRows(jsonData));
@@ -407,28 +569,91 @@ export function analyzeRowData(rows: CSVRow[]): Record<string, any> {
 }
 
 /**
- * Validate that rows can be mapped to schema
+ * A value in an imported row that will not map cleanly to its schema field
+ */
+export interface RowValidationError {
+  rowIndex: number;                // Index into the validated rows
+  fieldId?: string;
+  column?: string;                 // Source column to fix, when the field is mapped
+  value?: string;
+  message: string;
+}
+
+export interface RowValidationOptions {
+  columnMapping?: ColumnMapping;   // Field id -> column; fields are matched by name when unset
+  maxRowErrors?: number;           // Row errors returned (all rows are still checked, default 200)
+}
+
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no', '1', '0'];
+
+/**
+ * Type problem of a raw value for a field, or null when it coerces cleanly
+ */
+function checkFieldValue(field: FieldDefinition, value: any): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const text = String(value).trim();
+  if (field.type === 'number' && isNaN(parseFloat(text))) return `${field.displayName}: "${text}" is not a number`;
+  if (field.type === 'date' && isNaN(new Date(text).getTime())) return `${field.displayName}: "${text}" is not a date`;
+  if (field.type === 'boolean' && !BOOLEAN_VALUES.includes(text.toLowerCase())) {
+    return `${field.displayName}: "${text}" is not yes/no`;
+  }
+  return null;
+}
+
+/**
+ * Validate that rows can be mapped to schema: required participants, a classification
+ * and values that fit the field types. Every row is checked; errors point at the row
+ * and column to fix.
  */
 export function validateRowsForSchema(
   rows: CSVRow[],
-  schema: SchemaDefinition
-): { valid: boolean; errors: string[] } {
+  schema: SchemaDefinition,
+  options: RowValidationOptions = {}
+): { valid: boolean; errors: string[]; rowErrors: RowValidationError[]; invalidRows: number[] } {
   if (rows.length === 0) {
-    return { valid: false, errors: ['No rows to validate'] };
+    return { valid: false, errors: ['No rows to validate'], rowErrors: [], invalidRows: [] };
   }
 
-  const sampleSize = Math.min(5, rows.length);
+  const { columnMapping, maxRowErrors = 200 } = options;
+  const columnFor = (field: FieldDefinition) => (columnMapping ? columnMapping[field.id] : field.name);
+  const typedFields = schema.fields.filter(f => f.type === 'number' || f.type === 'date' || f.type === 'boolean');
   const errors: Set<string> = new Set();
+  const rowErrors: RowValidationError[] = [];
+  const invalidRows: number[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    const found: RowValidationError[] = [];
+
+    const result = SchemaMapper.validateRowMapping(row, schema, columnMapping);
+    result.missingFields.forEach((name, i) => {
+      const field = schema.fields.find(f => f.id === result.missingFieldIds[i]);
+      found.push({
+        rowIndex,
+        fieldId: field?.id,
+        column: field ? columnFor(field) : undefined,
+        message: `Missing required field: ${name}`,
+      });
+      errors.add(`Missing required field: ${name}`);
+    });
 
-  for (let i = 0; i < sampleSize; i++) {
-    const result = SchemaMapper.validateRowMapping(rows[i], schema);
-    if (!result.valid) {
-      result.missingFields.forEach(field => errors.add(`Missing required field: ${field}`));
+    for (const field of typedFields) {
+      const value = SchemaMapper.getMappedValue(row, field, columnMapping);
+      const problem = checkFieldValue(field, value);
+      if (problem) {
+        found.push({ rowIndex, fieldId: field.id, column: columnFor(field), value: String(value), message: problem });
+        errors.add(`Invalid ${field.type} values in ${field.displayName}`);
+      }
     }
-  }
+
+    if (found.length === 0) return;
+    invalidRows.push(rowIndex);
+    rowErrors.push(...found.slice(0, Math.max(0, maxRowErrors - rowErrors.length)));
+  });
 
   return {
     valid: errors.size === 0,
-    errors: Array.from(errors)
+    errors: Array.from(errors),
+    rowErrors,
+    invalidRows,
   };
 }
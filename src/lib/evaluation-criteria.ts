@@ -3,6 +3,7 @@ import { EvaluationCriterion } from '@/types/call';
 export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   {
     id: 1,
+    key: 'introduce-self-and-company-name',
     type: 'Must Do',
     name: 'Introduce self and company name',
     definition: 'Caller must clearly introduce name and company, product name (CashNow / SNPL / EasyCash) should match record.',
@@ -19,6 +20,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 2,
+    key: 'polite-and-timely-greeting',
     type: 'Must Do',
     name: 'Polite and timely greeting',
     definition: 'Greeting must appear at call start (e.g., "Good morning / afternoon").',
@@ -33,6 +35,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 3,
+    key: 'mention-this-call-is-recorded',
     type: 'Must Do',
     name: 'Mention "This call is recorded"',
     definition: 'Caller must inform the customer before any data-related discussion.',
@@ -48,6 +51,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 4,
+    key: 'verify-borrower-s-name-identity',
     type: 'Must Do',
     name: "Verify borrower's name / identity",
     definition: "Confirm borrower name as per record before discussing details.",
@@ -62,6 +66,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 5,
+    key: 'disclose-correct-lending-details-opd-days-and-or',
     type: 'Must Do',
     name: 'Disclose correct lending details (OPD days and/or amount)',
     definition: 'Verify borrower → release accurate overdue days & amount as per system.',
@@ -77,6 +82,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 6,
+    key: 'mark-correct-collection-status',
     type: 'Must Do',
     name: 'Mark correct collection status',
     definition: 'The conversation outcome should match the follow-up stage (e.g., promise to pay, refuse to pay).',
@@ -91,6 +97,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 7,
+    key: 'script-aligned-with-stage',
     type: 'Must Do',
     name: 'Script aligned with stage',
     definition: "Ensure speech content match borrower's DPD stage (soft / mid / hard).",
@@ -106,6 +113,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 8,
+    key: 'avoid-rude-sarcastic-or-aggressive-tone',
     type: 'Must Not Do',
     name: 'Avoid rude, sarcastic, or aggressive tone',
     definition: 'No sarcasm, slang, or interruptions; remain professional.',
@@ -121,6 +129,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 9,
+    key: 'end-call-with-summary-or-confirmation',
     type: 'Must Do',
     name: 'End call with summary or confirmation',
     definition: 'Caller should summarize agreement or next step before hanging up.',
@@ -135,6 +144,7 @@ export const EVALUATION_CRITERIA: EvaluationCriterion[] = [
   },
   {
     id: 10,
+    key: 'negotiation',
     type: 'Must Do',
     name: 'Negotiation',
     definition: 'If the customer says they will not pay or will pay later without giving a clear payment date, the caller must understand the reason for non-payment and attempt to negotiate and convince the customer to make a payment.',
@@ -0,0 +1,149 @@
+/**
+ * Evaluation History
+ * Keeps every evaluation run on a call and compares runs criterion by criterion
+ */
+
+import { CallRecord, CallEvaluation, EvaluationCriterion, EvaluationResult } from '@/types/call';
+
+/**
+ * Per-criterion difference between two evaluation runs
+ */
+export interface CriterionDiff {
+  criterionId: number;
+  criterionKey?: string;
+  criterionName: string;
+  before?: EvaluationResult;       // Result in the older run (undefined if not evaluated)
+  after?: EvaluationResult;        // Result in the newer run (undefined if not evaluated)
+  flipped: boolean;                // passed/failed verdict changed
+  scoreDelta: number;              // after.score - before.score
+}
+
+/**
+ * Full comparison between two evaluation runs
+ */
+export interface EvaluationDiff {
+  before: CallEvaluation;
+  after: CallEvaluation;
+  percentageDelta: number;
+  totalScoreDelta: number;
+  criteria: CriterionDiff[];
+  flippedCount: number;
+  ruleSetChanged: boolean;
+  schemaVersionChanged: boolean;
+  modelChanged: boolean;
+}
+
+/**
+ * Compute a short, stable fingerprint for a rule set.
+ * Two runs share a ruleSetId only if criteria names, types and scoring are identical.
+ */
+export function computeRuleSetId(criteria: EvaluationCriterion[]): string {
+  const canonical = JSON.stringify(
+    criteria.map(c => [
+      c.id, c.type, c.name, c.scoringStandard.passed, c.scoringStandard.failed, c.scoringStandard.partial ?? null,
+      // Scorecard attributes only when used, so fingerprints of plain rule sets stay unchanged
+      ...(c.section || c.critical || c.allowNotApplicable ? [c.section ?? null, !!c.critical, !!c.allowNotApplicable] : []),
+    ])
+  );
+
+  // djb2 string hash - fast and deterministic, no crypto needed for change detection
+  let hash = 5381;
+  for (let i = 0; i < canonical.length; i++) {
+    hash = ((hash << 5) + hash + canonical.charCodeAt(i)) | 0;
+  }
+  return `rules_${(hash >>> 0).toString(36)}_${criteria.length}`;
+}
+
+/**
+ * Get all evaluation runs for a call, oldest first.
+ * Calls evaluated before history existed only have `evaluation`, so it is treated as a single run.
+ */
+export function getEvaluationHistory(call: CallRecord): CallEvaluation[] {
+  if (call.evaluations && call.evaluations.length > 0) {
+    return call.evaluations;
+  }
+  return call.evaluation ? [call.evaluation] : [];
+}
+
+/**
+ * Return a copy of the call with a new evaluation appended to its history.
+ * The new run becomes the current `evaluation`; previous runs are preserved.
+ */
+export function appendEvaluation(call: CallRecord, evaluation: CallEvaluation): CallRecord {
+  const history = getEvaluationHistory(call).filter(e => e.id !== evaluation.id);
+  return {
+    ...call,
+    evaluation,
+    evaluations: [...history, evaluation],
+  };
+}
+
+/**
+ * Resolve the criterion a stored result refers to.
+ * Keyed results only match the criterion with that key (undefined once it is retired).
+ * Results without a key carry the rule id the prompt numbered the criterion with (possibly as a string).
+ */
+export function resolveCriterion(
+  criteria: EvaluationCriterion[],
+  criterionId: number | string,
+  criterionKey?: string
+): EvaluationCriterion | undefined {
+  if (criterionKey) {
+    return criteria.find(c => c.key === criterionKey);
+  }
+  return criteria.find(c => c.id === Number(criterionId));
+}
+
+/** Identity used to line up results across runs - the stable key when present */
+function resultIdentity(result: EvaluationResult): string {
+  return result.criterionKey ?? `#${Number(result.criterionId)}`;
+}
+
+/**
+ * Compare two evaluation runs criterion by criterion
+ * @param before The older run
+ * @param after The newer run
+ * @param criteria Criteria used to label results
+ */
+export function diffEvaluations(
+  before: CallEvaluation,
+  after: CallEvaluation,
+  criteria: EvaluationCriterion[]
+): EvaluationDiff {
+  const identities = new Set<string>();
+  before.results.forEach(r => identities.add(resultIdentity(r)));
+  after.results.forEach(r => identities.add(resultIdentity(r)));
+
+  const diffs: CriterionDiff[] = Array.from(identities)
+    .map(identity => {
+      const beforeResult = before.results.find(r => resultIdentity(r) === identity);
+      const afterResult = after.results.find(r => resultIdentity(r) === identity);
+      const latest = (afterResult ?? beforeResult)!;
+      const criterionId = Number(latest.criterionId);
+      const criterion = resolveCriterion(criteria, criterionId, latest.criterionKey);
+
+      return {
+        criterionId,
+        criterionKey: latest.criterionKey,
+        criterionName: criterion?.name || latest.criterionName || `Criterion #${criterionId}`,
+        before: beforeResult,
+        after: afterResult,
+        flipped: !!beforeResult && !!afterResult &&
+          (beforeResult.passed !== afterResult.passed || !!beforeResult.notApplicable !== !!afterResult.notApplicable),
+        scoreDelta: (afterResult?.score ?? 0) - (beforeResult?.score ?? 0),
+      };
+    })
+    .sort((a, b) => a.criterionId - b.criterionId);
+
+  return {
+    before,
+    after,
+    percentageDelta: after.percentage - before.percentage,
+    totalScoreDelta: after.totalScore - before.totalScore,
+    criteria: diffs,
+    flippedCount: diffs.filter(d => d.flipped).length,
+    ruleSetChanged: !!before.ruleSetId && !!after.ruleSetId && before.ruleSetId !== after.ruleSetId,
+    schemaVersionChanged: !!before.schemaVersion && !!after.schemaVersion && before.schemaVersion !== after.schemaVersion,
+    modelChanged: !!before.modelDeployment && !!after.modelDeployment && before.modelDeployment !== after.modelDeployment,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Evaluation Overrides
+ * Human QA review of individual criterion verdicts. The AI verdict is preserved
+ * on the result so calibration can compare it with the human decision.
+ */
+
+import { CallEvaluation, EvaluationCriterion, EvaluationResult } from '@/types/call';
+import { resolveCriterion } from '@/lib/evaluation-history';
+import { scoreResults } from '@/lib/scorecard';
+
+export interface CriterionReviewInput {
+  passed: boolean;
+  reviewer: string;
+  reason: string;
+}
+
+/**
+ * Recompute totalScore and percentage from the (possibly overridden) results.
+ * Scorecard evaluations are re-scored with the section weights they were scored with.
+ */
+export function recomputeEvaluationScore(evaluation: CallEvaluation): CallEvaluation {
+  if (evaluation.sectionScores) {
+    const sections = evaluation.sectionScores.map(s => ({ id: s.sectionId, name: s.name, weight: s.weight }));
+    const { autoFailed, autoFailReasons, ...outcome } = scoreResults(evaluation.results, sections);
+    return {
+      ...evaluation,
+      ...outcome,
+      autoFailed: autoFailed || undefined,
+      autoFailReasons: autoFailed ? autoFailReasons : undefined,
+    };
+  }
+
+  const totalScore = evaluation.results.reduce((sum, r) => sum + r.score, 0);
+  const percentage = evaluation.maxScore > 0 ? Math.round((totalScore / evaluation.maxScore) * 100) : 0;
+  return { ...evaluation, totalScore, percentage };
+}
+
+/**
+ * True when a human reviewed the result and changed the AI verdict (including an AI N/A)
+ */
+export function isOverridden(result: EvaluationResult): boolean {
+  return !!result.humanReview && (result.humanReview.aiPassed !== result.passed || !!result.humanReview.aiNotApplicable);
+}
+
+/**
+ * Record a human verdict for one criterion and recompute the evaluation score.
+ * Confirming the AI verdict keeps the AI score (including partial credit);
+ * changing it applies the criterion's passed/failed points. A verdict on a
+ * criterion the AI marked N/A makes it applicable again.
+ */
+export function reviewCriterion(
+  evaluation: CallEvaluation,
+  criterionId: number,
+  input: CriterionReviewInput,
+  criteria: EvaluationCriterion[]
+): CallEvaluation {
+  const results = evaluation.results.map(result => {
+    if (result.criterionId !== criterionId) return result;
+
+    const aiPassed = result.humanReview?.aiPassed ?? result.passed;
+    const aiScore = result.humanReview?.aiScore ?? result.score;
+    const aiNotApplicable = result.humanReview ? result.humanReview.aiNotApplicable : result.notApplicable;
+    const criterion = resolveCriterion(criteria, criterionId, result.criterionKey);
+
+    let score = aiScore;
+    if (input.passed !== aiPassed || aiNotApplicable) {
+      score = input.passed
+        ? criterion?.scoringStandard.passed ?? result.maxScore ?? aiScore
+        : criterion?.scoringStandard.failed ?? 0;
+    }
+
+    return {
+      ...result,
+      passed: input.passed,
+      score,
+      notApplicable: undefined,
+      humanReview: {
+        aiPassed,
+        aiScore,
+        aiNotApplicable,
+        reviewer: input.reviewer.trim(),
+        reason: input.reason.trim(),
+        reviewedAt: new Date().toISOString(),
+      },
+    };
+  });
+
+  return recomputeEvaluationScore({ ...evaluation, results });
+}
+
+/**
+ * Remove a human review, restoring the original AI verdict and score
+ */
+export function clearCriterionReview(evaluation: CallEvaluation, criterionId: number): CallEvaluation {
+  const results = evaluation.results.map(result => {
+    if (result.criterionId !== criterionId || !result.humanReview) return result;
+    const { humanReview, ...rest } = result;
+    return {
+      ...rest,
+      passed: humanReview.aiPassed,
+      score: humanReview.aiScore,
+      notApplicable: humanReview.aiNotApplicable,
+    };
+  });
+
+  return recomputeEvaluationScore({ ...evaluation, results });
+}
@@ -1,13 +1,15 @@
 /**
  * Formula Executor Utility
- * Safely executes JavaScript formulas with Math whitelist only
+ * Executes relationship formulas with the sandboxed formula language (see formula-language.ts).
+ * Formulas are interpreted, never compiled to JavaScript.
  */
 
-import type { FormulaExecutionResult } from '../types/schema';
+import type { FormulaExecutionResult, SchemaDefinition } from '../types/schema';
+import { checkFormula, evaluateFormulaNode, migrateFormula, parseFormula, FormulaError } from './formula-language';
 
 /**
- * Executes a formula safely with metadata context and Math operations
- * @param formula JavaScript expression/function body (e.g., "return daysPastDue * dueAmount / 1000;")
+ * Executes a formula with metadata context
+ * @param formula Formula expression (e.g., "days_past_due * due_amount / 1000"); legacy JavaScript formulas are also accepted
  * @param metadata Call metadata object
  * @returns Execution result with success flag, result value, or error message
  */
@@ -23,53 +25,33 @@ export function executeFormula(
   }
 
   try {
-    // Normalize the formula - if it doesn't have a return statement, wrap it
-    let normalizedFormula = formula.trim();
-    if (!normalizedFormula.includes('return ')) {
-      // It's an expression, wrap it with return
-      normalizedFormula = `return (${normalizedFormula});`;
+    const { ast } = parseFormula(formula);
+    const result = evaluateFormulaNode(ast, metadata);
+
+    if (typeof result === 'number' && !isFinite(result)) {
+      return {
+        success: false,
+        error: 'Formula produced an invalid number'
+      };
     }
-    
-    // Create a safe function with only Math and metadata access
-    // Using Function constructor is safer than eval as it doesn't have access to local scope
-    const func = new Function('metadata', 'Math', normalizedFormula);
-    
-    // Execute with whitelisted Math object
-    const result = func(metadata, Math);
-    
+
     return {
       success: true,
       result
     };
   } catch (error) {
-    // Capture specific error types
-    let errorMessage = 'Unknown error';
-    
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    } else if (typeof error === 'string') {
-      errorMessage = error;
-    }
-
-    // Provide helpful error messages for common issues
-    if (errorMessage.includes('is not defined')) {
-      errorMessage = `${errorMessage}. Check that all field names in the formula exist in the metadata.`;
-    } else if (errorMessage.includes('Division by zero') || errorMessage.includes('Infinity')) {
-      errorMessage = 'Division by zero or infinity result';
-    } else if (errorMessage.includes('Unexpected token')) {
-      errorMessage = `Syntax error in formula: ${errorMessage}`;
-    }
-
     return {
       success: false,
-      error: errorMessage
+      error: error instanceof FormulaError
+        ? error.message
+        : error instanceof Error ? error.message : 'Unknown error'
     };
   }
 }
 
 /**
  * Validates formula syntax without executing
- * @param formula JavaScript expression/function body
+ * @param formula Formula expression
  * @returns true if formula is syntactically valid
  */
 export function validateFormulayntax(formula: string): { valid: boolean; error?: string } {
@@ -78,8 +60,7 @@ export function validateFormulayntax(formula: string): { valid: boolean; error?:
   }
 
   try {
-    // Try to create the function to check syntax
-    new Function('metadata', 'Math', formula);
+    parseFormula(formula);
     return { valid: true };
   } catch (error) {
     return {
@@ -89,6 +70,52 @@ export function validateFormulayntax(formula: string): { valid: boolean; error?:
   }
 }
 
+/**
+ * Gets the value of a complex relationship for a call.
+ * Uses the value stored at import time (metadata.calc_<id>) and falls back to
+ * evaluating the formula, so relationships added after import still display.
+ */
+export function getCalculatedValue(
+  relationship: { id: string; formula?: string },
+  metadata: Record<string, any>
+): FormulaExecutionResult {
+  const stored = metadata[`calc_${relationship.id}`];
+  if (stored !== undefined) {
+    return { success: true, result: stored };
+  }
+  if (!relationship.formula) {
+    return { success: false, error: 'Relationship has no formula' };
+  }
+  return executeFormula(relationship.formula, metadata);
+}
+
+/**
+ * Rewrites legacy JavaScript formulas in a schema's relationships into formula-language syntax
+ * @returns Updated schema plus the relationship IDs that were migrated or could not be parsed
+ */
+export function migrateSchemaFormulas<T extends Pick<SchemaDefinition, 'relationships'>>(
+  schema: T
+): { schema: T; migrated: string[]; failed: Array<{ id: string; error: string }> } {
+  const migrated: string[] = [];
+  const failed: Array<{ id: string; error: string }> = [];
+
+  const relationships = (schema.relationships || []).map(rel => {
+    if (!rel.formula) return rel;
+    const result = migrateFormula(rel.formula);
+    if (result.error) {
+      failed.push({ id: rel.id, error: result.error });
+      return rel;
+    }
+    if (!result.migrated) return rel;
+    migrated.push(rel.id);
+    return { ...rel, formula: result.formula };
+  });
+
+  return { schema: { ...schema, relationships }, migrated, failed };
+}
+
+export { checkFormula, migrateFormula };
+
 /**
  * Executes multiple formulas and returns results
  * @param formulas Array of formula strings
@@ -165,32 +192,32 @@ export function formatCalculatedValue(value: any, type?: 'number' | 'currency' |
 export const EXAMPLE_FORMULAS = {
   riskScore: {
     name: 'Risk Score',
-    formula: 'return (metadata.daysPastDue * metadata.dueAmount) / 1000;',
+    formula: '(daysPastDue * dueAmount) / 1000',
     description: 'Calculates risk based on days overdue and amount',
     requiredFields: ['daysPastDue', 'dueAmount']
   },
   paymentProbability: {
     name: 'Payment Probability',
-    formula: `
-      const dpd = metadata.daysPastDue;
-      if (dpd < 30) return 0.8;
-      if (dpd < 60) return 0.5;
-      if (dpd < 90) return 0.3;
-      return 0.1;
-    `,
+    formula: 'daysPastDue < 30 ? 0.8 : daysPastDue < 60 ? 0.5 : daysPastDue < 90 ? 0.3 : 0.1',
     description: 'Estimates payment probability based on delinquency',
     requiredFields: ['daysPastDue']
   },
   totalDebt: {
     name: 'Total Debt',
-    formula: 'return metadata.dueAmount + (metadata.fees || 0) + (metadata.penalties || 0);',
+    formula: 'dueAmount + coalesce(fees, 0) + coalesce(penalties, 0)',
     description: 'Sums all debt components',
     requiredFields: ['dueAmount']
   },
   daysToEscalation: {
     name: 'Days to Escalation',
-    formula: 'return Math.max(0, 90 - metadata.daysPastDue);',
+    formula: 'max(0, 90 - daysPastDue)',
     description: 'Calculates days remaining before escalation threshold',
     requiredFields: ['daysPastDue']
+  },
+  accountAgeMonths: {
+    name: 'Account Age (months)',
+    formula: 'datediff(openedDate, today(), "months")',
+    description: 'Whole months since the account was opened',
+    requiredFields: ['openedDate']
   }
 };
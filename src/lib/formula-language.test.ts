@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormula, evaluateFormulaNode, checkFormula, migrateFormula, formatFormula } from './formula-language';
+import { executeFormula } from './formula-executor';
+import { generateDebtCollectionSchema } from '@/services/schema-compatibility';
+
+const evaluate = (formula: string, metadata: Record<string, any> = {}) =>
+  evaluateFormulaNode(parseFormula(formula).ast, metadata);
+
+describe('formula evaluation', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 % 4', 2],
+    ['-2 + 5', 3],
+    ['3 > 2 and 1 == 1', true],
+    ['not (1 > 2) || false', true],
+    ['2 >= 3 ? "a" : "b"', 'b'],
+    ['round(2.345, 2)', 2.35],
+    ['clamp(150, 0, 100)', 100],
+    ['coalesce(null, 0, 5)', 0],
+    ['case("Gold", "Gold", 30, "Silver", 20, 10)', 30],
+    ['case("Bronze", "Gold", 30, 10)', 10],
+    ['oneof("b", "a", "b")', true],
+    ['upper("abc") + text(1)', 'ABC1'],
+    ['datediff("2025-01-01", "2025-01-31", "days")', 30],
+  ] as const)('%s = %j', (formula, expected) => {
+    expect(evaluate(formula)).toEqual(expected);
+  });
+
+  it('reads fields, including backtick-quoted ids', () => {
+    expect(evaluate('days_past_due * 2', { days_past_due: 21 })).toBe(42);
+    expect(evaluate('`due amount` + 1', { 'due amount': 9 })).toBe(10);
+  });
+
+  it('evaluates if() lazily', () => {
+    expect(evaluate('if(x > 0, 10 / x, 0)', { x: 0 })).toBe(0);
+  });
+
+  it('refuses anything outside the sandbox', () => {
+    for (const formula of ['window.alert(1)', 'fetch("http://x")', 'constructor.constructor("return 1")()']) {
+      expect(executeFormula(formula, {}).success, formula).toBe(false);
+    }
+    expect(executeFormula('1 / 0', {}).success).toBe(false);
+  });
+});
+
+describe('checkFormula', () => {
+  const schema = generateDebtCollectionSchema();
+
+  it('accepts known field and calculated references', () => {
+    const result = checkFormula('(days_past_due * due_amount) / 1000 + coalesce(calc_risk_calculation, 0)', schema);
+    expect(result.valid).toBe(true);
+    expect(result.fieldRefs).toEqual(expect.arrayContaining(['days_past_due', 'due_amount']));
+  });
+
+  it('reports unknown fields, suggesting the id for a column name', () => {
+    expect(checkFormula('days_past_du > 30', schema).errors).toEqual(['Unknown field "days_past_du"']);
+    expect(checkFormula('daysPastDue > 30', schema).errors).toEqual([
+      'Unknown field "daysPastDue" - did you mean "days_past_due"?',
+    ]);
+  });
+
+  it('reports unknown functions and syntax errors', () => {
+    expect(checkFormula('eval("1")', schema).valid).toBe(false);
+    expect(checkFormula('due_amount *', schema).valid).toBe(false);
+  });
+
+  it('does not take inherited object members for functions, methods or units', () => {
+    for (const formula of ['constructor(1)', 'toString()', 'hasOwnProperty("x")', 'due_amount.constructor()', 'datediff("2025-01-01", "2025-01-31", "constructor")']) {
+      expect(() => evaluate(formula, { due_amount: 1 }), formula).toThrow();
+    }
+    expect(checkFormula('hasOwnProperty(due_amount)', schema).errors[0]).toContain('Unknown function "hasOwnProperty"');
+  });
+});
+
+describe('migrateFormula', () => {
+  it('rewrites legacy JavaScript into the formula language', () => {
+    const legacy = 'const dpd = metadata.days_past_due || 0; if (dpd > 90) return "High"; else return "Low";';
+    const result = migrateFormula(legacy);
+
+    expect(result.migrated).toBe(true);
+    expect(parseFormula(result.formula).legacy).toBe(false);
+    expect(executeFormula(result.formula, { days_past_due: 95 }).result).toBe('High');
+    expect(executeFormula(result.formula, { days_past_due: 10 }).result).toBe('Low');
+  });
+
+  it('leaves canonical formulas unchanged', () => {
+    const formula = '(days_past_due * due_amount) / 1000';
+    expect(migrateFormula(formula)).toMatchObject({ formula, migrated: false });
+    expect(formatFormula(parseFormula(formula).ast)).toBe('days_past_due * due_amount / 1000');
+  });
+});
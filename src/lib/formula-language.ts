@@ -0,0 +1,898 @@
+/**
+ * Formula Language
+ * Small sandboxed expression language for complex relationship formulas.
+ *
+ * Formulas are parsed into an AST and interpreted - nothing is compiled to
+ * JavaScript, so formulas cannot reach window, fetch or localStorage.
+ *
+ * Syntax:
+ *   days_past_due * due_amount / 1000
+ *   if(tenure_months > 24, "loyal", "new")
+ *   tier == "Gold" ? 30 : coalesce(base_score, 10)
+ *   round(datediff(opened_date, today(), "days") / 7, 1)
+ *   `field with spaces` + 1
+ *
+ * Legacy JavaScript formulas (metadata.x, Math.max, return/const/if statements,
+ * {A: 1}[x] lookups, [..].includes(x)) are still accepted and can be rewritten
+ * into canonical syntax with migrateFormula.
+ */
+
+import type { SchemaDefinition } from '@/types/schema';
+
+// ============================================================================
+// AST
+// ============================================================================
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+export type FormulaNode =
+  | { kind: 'literal'; value: number | string | boolean | null }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; op: '-' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+/**
+ * Intermediate nodes that only exist while parsing legacy JavaScript
+ * (object/array literals and the metadata/Math namespaces)
+ */
+type ParseNode =
+  | FormulaNode
+  | { kind: 'object'; entries: Array<[string, FormulaNode]> }
+  | { kind: 'array'; items: FormulaNode[] }
+  | { kind: 'namespace'; name: 'metadata' | 'Math' };
+
+/**
+ * Error raised for invalid syntax or failed evaluation
+ */
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+// ============================================================================
+// FUNCTION LIBRARY
+// ============================================================================
+
+type FormulaValue = number | string | boolean | null;
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  apply: (args: FormulaValue[]) => FormulaValue;
+}
+
+/**
+ * Own entry of a lookup table. Names come from formulas, so inherited members such as
+ * constructor or toString must never count as entries.
+ */
+function ownEntry<T>(table: Record<string, T>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+}
+
+const MS_PER_UNIT: Record<string, number> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+  weeks: 604_800_000,
+};
+
+function toDate(value: FormulaValue): Date {
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  if (value === null || isNaN(date.getTime())) {
+    throw new FormulaError(`"${value}" is not a valid date`);
+  }
+  return date;
+}
+
+function dateDiff(from: FormulaValue, to: FormulaValue, unit: FormulaValue): number {
+  const start = toDate(from);
+  const end = toDate(to);
+  const normalizedUnit = String(unit ?? 'days').toLowerCase();
+
+  if (normalizedUnit === 'months' || normalizedUnit === 'years') {
+    let months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+    if (end.getDate() < start.getDate()) months -= end > start ? 1 : 0;
+    return normalizedUnit === 'years' ? Math.trunc(months / 12) : months;
+  }
+
+  const msPerUnit = ownEntry(MS_PER_UNIT, normalizedUnit);
+  if (!msPerUnit) {
+    throw new FormulaError(`Unknown datediff unit "${unit}". Use minutes, hours, days, weeks, months or years`);
+  }
+  return Math.trunc((end.getTime() - start.getTime()) / msPerUnit);
+}
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  min: { minArgs: 1, maxArgs: Infinity, description: 'Smallest of the values', apply: args => Math.min(...args.map(toNumber)) },
+  max: { minArgs: 1, maxArgs: Infinity, description: 'Largest of the values', apply: args => Math.max(...args.map(toNumber)) },
+  round: {
+    minArgs: 1, maxArgs: 2, description: 'round(value, digits = 0)',
+    apply: ([value, digits]) => {
+      const factor = Math.pow(10, digits === undefined ? 0 : toNumber(digits));
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, description: 'Round down', apply: ([v]) => Math.floor(toNumber(v)) },
+  ceil: { minArgs: 1, maxArgs: 1, description: 'Round up', apply: ([v]) => Math.ceil(toNumber(v)) },
+  abs: { minArgs: 1, maxArgs: 1, description: 'Absolute value', apply: ([v]) => Math.abs(toNumber(v)) },
+  pow: { minArgs: 2, maxArgs: 2, description: 'pow(base, exponent)', apply: ([b, e]) => Math.pow(toNumber(b), toNumber(e)) },
+  sqrt: { minArgs: 1, maxArgs: 1, description: 'Square root', apply: ([v]) => Math.sqrt(toNumber(v)) },
+  clamp: {
+    minArgs: 3, maxArgs: 3, description: 'clamp(value, min, max)',
+    apply: ([v, lo, hi]) => Math.min(toNumber(hi), Math.max(toNumber(lo), toNumber(v))),
+  },
+  // `if` is evaluated lazily by the interpreter; apply is only used for arity metadata
+  if: { minArgs: 3, maxArgs: 3, description: 'if(condition, then, else)', apply: ([c, a, b]) => (isTruthy(c) ? a : b) },
+  coalesce: {
+    minArgs: 1, maxArgs: Infinity, description: 'First value that is not empty',
+    apply: args => args.find(v => v !== null && v !== '') ?? null,
+  },
+  datediff: {
+    minArgs: 2, maxArgs: 3, description: 'datediff(from, to, unit = "days")',
+    apply: ([from, to, unit]) => dateDiff(from, to, unit ?? 'days'),
+  },
+  today: { minArgs: 0, maxArgs: 0, description: "Today's date (YYYY-MM-DD)", apply: () => new Date().toISOString().slice(0, 10) },
+  number: {
+    minArgs: 1, maxArgs: 1, description: 'Convert to number (empty → 0)',
+    apply: ([v]) => {
+      const n = Number(v ?? 0);
+      return isNaN(n) ? 0 : n;
+    },
+  },
+  text: { minArgs: 1, maxArgs: 1, description: 'Convert to text', apply: ([v]) => (v === null ? '' : String(v)) },
+  lower: { minArgs: 1, maxArgs: 1, description: 'Lower-case text', apply: ([v]) => String(v ?? '').toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, description: 'Upper-case text', apply: ([v]) => String(v ?? '').toUpperCase() },
+  len: { minArgs: 1, maxArgs: 1, description: 'Text length', apply: ([v]) => String(v ?? '').length },
+  contains: {
+    minArgs: 2, maxArgs: 2, description: 'contains(text, search)',
+    apply: ([text, search]) => String(text ?? '').includes(String(search ?? '')),
+  },
+  oneof: {
+    minArgs: 2, maxArgs: Infinity, description: 'oneof(value, option1, option2, ...)',
+    apply: ([value, ...options]) => options.some(option => looseEquals(value, option)),
+  },
+  case: {
+    minArgs: 3, maxArgs: Infinity, description: 'case(value, match1, result1, ..., default)',
+    apply: ([value, ...rest]) => {
+      for (let i = 0; i + 1 < rest.length; i += 2) {
+        if (looseEquals(value, rest[i])) return rest[i + 1];
+      }
+      return rest.length % 2 === 1 ? rest[rest.length - 1] : null;
+    },
+  },
+};
+
+/**
+ * Legacy JavaScript function names mapped onto the whitelist
+ */
+const LEGACY_FUNCTION_ALIASES: Record<string, string> = {
+  Number: 'number',
+  parseFloat: 'number',
+  parseInt: 'number',
+  String: 'text',
+};
+
+const LEGACY_METHOD_ALIASES: Record<string, string> = {
+  toLowerCase: 'lower',
+  toUpperCase: 'upper',
+  includes: 'contains',
+};
+
+// ============================================================================
+// VALUE SEMANTICS
+// ============================================================================
+
+function toNumber(value: FormulaValue): number {
+  if (value === null || value === '') return 0;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const n = Number(value);
+  if (isNaN(n)) {
+    throw new FormulaError(`"${value}" is not a number`);
+  }
+  return n;
+}
+
+function isTruthy(value: FormulaValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== '' && !(typeof value === 'number' && isNaN(value));
+}
+
+function isNumeric(value: FormulaValue): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+}
+
+function looseEquals(a: FormulaValue, b: FormulaValue): boolean {
+  if (a === null || b === null) return a === b;
+  if ((typeof a === 'number' || typeof b === 'number') && isNumeric(a) && isNumeric(b)) {
+    return Number(a) === Number(b);
+  }
+  return a === b;
+}
+
+function normalizeValue(value: unknown): FormulaValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenType = 'number' | 'string' | 'ident' | 'quoted' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', '{', '}', ',', '.', ';', '='];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new FormulaError(`Unterminated ${ch === '`' ? 'field name' : 'string'} at position ${i}`);
+      }
+      tokens.push({ type: ch === '`' ? 'quoted' : 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (!op) {
+      throw new FormulaError(`Unexpected character "${ch}" at position ${i}`);
+    }
+    tokens.push({ type: 'op', value: op, position: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const RESERVED_WORDS = new Set(['true', 'false', 'null', 'undefined', 'and', 'or', 'not', 'return', 'const', 'let', 'var', 'if', 'else', 'metadata', 'Math']);
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private bindings = new Map<string, FormulaNode>();
+  legacy = false;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): FormulaNode {
+    const guards: Array<{ test: FormulaNode; value: FormulaNode }> = [];
+    let result: FormulaNode | null = null;
+
+    while (!this.at('eof') && result === null) {
+      if (this.matchWord('const') || this.matchWord('let') || this.matchWord('var')) {
+        this.legacy = true;
+        const name = this.expect('ident').value;
+        this.expectOp('=');
+        this.bindings.set(name, this.parseExpression());
+        this.matchOp(';');
+      } else if (this.isIfStatement()) {
+        this.legacy = true;
+        this.index++;
+        this.expectOp('(');
+        const test = this.parseExpression();
+        this.expectOp(')');
+        guards.push({ test, value: this.parseReturnBlock() });
+        if (this.matchWord('else') && !this.peekWord('if')) {
+          result = this.parseReturnBlock();
+        }
+      } else if (this.matchWord('return')) {
+        this.legacy = true;
+        result = this.parseExpression();
+        this.matchOp(';');
+      } else {
+        result = this.parseExpression();
+        this.matchOp(';');
+      }
+    }
+
+    if (!this.at('eof')) {
+      throw new FormulaError(`Unexpected "${this.peek().value}" after the formula result at position ${this.peek().position}`);
+    }
+    if (result === null && guards.length === 0) {
+      throw new FormulaError('Formula is empty');
+    }
+
+    return guards.reduceRight<FormulaNode>(
+      (alternate, guard) => ({ kind: 'conditional', test: guard.test, consequent: guard.value, alternate }),
+      result ?? { kind: 'literal', value: null }
+    );
+  }
+
+  /**
+   * Distinguish a legacy `if (cond) return x;` statement from the if(cond, a, b)
+   * function by looking past the balanced condition parentheses
+   */
+  private isIfStatement(): boolean {
+    if (!this.peekWord('if') || this.tokens[this.index + 1]?.value !== '(') return false;
+    let depth = 0;
+    for (let i = this.index + 1; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'op') continue;
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth === 0) {
+        const next = this.tokens[i + 1];
+        return next.value === '{' || (next.type === 'ident' && next.value === 'return');
+      }
+    }
+    return false;
+  }
+
+  /** `return expr;` or `{ return expr; }` as the body of a legacy if statement */
+  private parseReturnBlock(): FormulaNode {
+    const braced = this.matchOp('{');
+    if (!this.matchWord('return')) {
+      throw new FormulaError(`Only "return" statements are supported inside if blocks (position ${this.peek().position})`);
+    }
+    const value = this.parseExpression();
+    this.matchOp(';');
+    if (braced) this.expectOp('}');
+    return value;
+  }
+
+  private parseExpression(): FormulaNode {
+    return this.finalize(this.parseConditional());
+  }
+
+  private parseConditional(): ParseNode {
+    const test = this.parseBinary(0);
+    if (this.matchOp('?')) {
+      const consequent = this.parseExpression();
+      this.expectOp(':');
+      const alternate = this.parseExpression();
+      return { kind: 'conditional', test: this.finalize(test), consequent, alternate };
+    }
+    return test;
+  }
+
+  private static readonly BINARY_LEVELS: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): ParseNode {
+    if (level >= Parser.BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const op = this.matchBinaryOperator(Parser.BINARY_LEVELS[level]);
+      if (!op) return left;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', op, left: this.finalize(left), right: this.finalize(right) };
+    }
+  }
+
+  private matchBinaryOperator(ops: string[]): BinaryOperator | null {
+    const token = this.peek();
+    let value = token.type === 'op' ? token.value : token.type === 'ident' ? ownEntry(WORD_OPERATORS, token.value) : undefined;
+    if (!value || !ops.includes(value)) return null;
+    if (value === '===' || value === '!==') this.legacy = true;
+    this.index++;
+    if (value === '===') value = '==';
+    if (value === '!==') value = '!=';
+    return value as BinaryOperator;
+  }
+
+  private parseUnary(): ParseNode {
+    if (this.matchOp('-')) return { kind: 'unary', op: '-', operand: this.finalize(this.parseUnary()) };
+    if (this.matchOp('+')) return { kind: 'call', name: 'number', args: [this.finalize(this.parseUnary())] };
+    if (this.matchOp('!') || this.matchWord('not')) return { kind: 'unary', op: '!', operand: this.finalize(this.parseUnary()) };
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ParseNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchOp('[')) {
+        const key = this.parseExpression();
+        this.expectOp(']');
+        this.legacy = true;
+        if (node.kind === 'object') {
+          // {A: 1, B: 2}[x] lookup → case(x, "A", 1, "B", 2, null)
+          const args: FormulaNode[] = [key];
+          node.entries.forEach(([k, v]) => args.push({ kind: 'literal', value: k }, v));
+          args.push({ kind: 'literal', value: null });
+          node = { kind: 'call', name: 'case', args };
+        } else if (node.kind === 'namespace' && node.name === 'metadata' && key.kind === 'literal' && typeof key.value === 'string') {
+          node = { kind: 'field', name: key.value };
+        } else {
+          throw new FormulaError('Indexing is only supported for lookup tables and metadata["field"]');
+        }
+      } else if (this.matchOp('.')) {
+        const member = this.expect('ident').value;
+        this.legacy = true;
+        if (node.kind === 'namespace' && node.name === 'metadata') {
+          node = { kind: 'field', name: member };
+        } else if (node.kind === 'namespace' && node.name === 'Math') {
+          node = { kind: 'call', name: this.resolveFunction(member), args: this.parseArguments() };
+        } else if (node.kind === 'array' && member === 'includes') {
+          node = { kind: 'call', name: 'oneof', args: [...this.parseArguments(), ...node.items] };
+        } else if (member === 'length') {
+          node = { kind: 'call', name: 'len', args: [this.finalize(node)] };
+        } else if (ownEntry(LEGACY_METHOD_ALIASES, member)) {
+          node = { kind: 'call', name: ownEntry(LEGACY_METHOD_ALIASES, member)!, args: [this.finalize(node), ...this.parseArguments()] };
+        } else {
+          throw new FormulaError(`Property access ".${member}" is not supported`);
+        }
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ParseNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return { kind: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'quoted') {
+      this.index++;
+      return { kind: 'field', name: token.value };
+    }
+    if (this.matchOp('(')) {
+      const inner = this.parseExpression();
+      this.expectOp(')');
+      return inner;
+    }
+    if (this.matchOp('[')) {
+      const items: FormulaNode[] = [];
+      while (!this.matchOp(']')) {
+        items.push(this.parseExpression());
+        if (!this.matchOp(',')) {
+          this.expectOp(']');
+          break;
+        }
+      }
+      return { kind: 'array', items };
+    }
+    if (this.matchOp('{')) {
+      const entries: Array<[string, FormulaNode]> = [];
+      while (!this.matchOp('}')) {
+        const keyToken = this.peek();
+        if (keyToken.type !== 'ident' && keyToken.type !== 'string' && keyToken.type !== 'number') {
+          throw new FormulaError(`Expected a lookup key at position ${keyToken.position}`);
+        }
+        this.index++;
+        this.expectOp(':');
+        entries.push([keyToken.value, this.parseExpression()]);
+        if (!this.matchOp(',')) {
+          this.expectOp('}');
+          break;
+        }
+      }
+      return { kind: 'object', entries };
+    }
+    if (token.type === 'ident') {
+      this.index++;
+      switch (token.value) {
+        case 'true': return { kind: 'literal', value: true };
+        case 'false': return { kind: 'literal', value: false };
+        case 'null':
+        case 'undefined': return { kind: 'literal', value: null };
+        case 'metadata':
+        case 'Math': return { kind: 'namespace', name: token.value };
+      }
+      if (this.at('op', '(')) {
+        return { kind: 'call', name: this.resolveFunction(token.value), args: this.parseArguments() };
+      }
+      const bound = this.bindings.get(token.value);
+      if (bound) return bound;
+      if (RESERVED_WORDS.has(token.value)) {
+        throw new FormulaError(`Unexpected "${token.value}" at position ${token.position}`);
+      }
+      return { kind: 'field', name: token.value };
+    }
+
+    throw new FormulaError(
+      token.type === 'eof' ? 'Unexpected end of formula' : `Unexpected "${token.value}" at position ${token.position}`
+    );
+  }
+
+  private parseArguments(): FormulaNode[] {
+    this.expectOp('(');
+    const args: FormulaNode[] = [];
+    while (!this.matchOp(')')) {
+      args.push(this.parseExpression());
+      if (!this.matchOp(',')) {
+        this.expectOp(')');
+        break;
+      }
+    }
+    return args;
+  }
+
+  private resolveFunction(name: string): string {
+    const alias = ownEntry(LEGACY_FUNCTION_ALIASES, name);
+    if (alias) {
+      this.legacy = true;
+      return alias;
+    }
+    if (!ownEntry(FORMULA_FUNCTIONS, name)) {
+      throw new FormulaError(`Unknown function "${name}". Available: ${Object.keys(FORMULA_FUNCTIONS).join(', ')}`);
+    }
+    return name;
+  }
+
+  /** Reject parser-only nodes that cannot be evaluated on their own */
+  private finalize(node: ParseNode): FormulaNode {
+    switch (node.kind) {
+      case 'object': throw new FormulaError('Lookup tables must be indexed, e.g. {A: 1, B: 2}[field]');
+      case 'array': throw new FormulaError('Lists can only be used with .includes(), use oneof(value, ...) instead');
+      case 'namespace': throw new FormulaError(`"${node.name}" cannot be used on its own`);
+      default: return node;
+    }
+  }
+
+  // Token helpers
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private at(type: TokenType, value?: string): boolean {
+    const token = this.peek();
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private peekWord(word: string): boolean {
+    return this.at('ident', word);
+  }
+
+  private matchWord(word: string): boolean {
+    if (this.peekWord(word)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOp(op: string): boolean {
+    if (this.at('op', op)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.matchOp(op)) {
+      const token = this.peek();
+      throw new FormulaError(`Expected "${op}" but found "${token.value || 'end of formula'}" at position ${token.position}`);
+    }
+  }
+
+  private expect(type: TokenType): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new FormulaError(`Expected ${type} but found "${token.value || 'end of formula'}" at position ${token.position}`);
+    }
+    this.index++;
+    return token;
+  }
+}
+
+export interface ParsedFormula {
+  ast: FormulaNode;
+  legacy: boolean;                 // Uses JavaScript-only syntax that migrateFormula can rewrite
+}
+
+const parseCache = new Map<string, ParsedFormula | FormulaError>();
+const PARSE_CACHE_LIMIT = 500;
+
+/**
+ * Parse a formula into an AST (cached by source text)
+ * @throws FormulaError on invalid syntax
+ */
+export function parseFormula(source: string): ParsedFormula {
+  const cached = parseCache.get(source);
+  if (cached instanceof FormulaError) throw cached;
+  if (cached) return cached;
+
+  let result: ParsedFormula | FormulaError;
+  try {
+    const parser = new Parser(source);
+    const ast = parser.parse();
+    validateArity(ast);
+    result = { ast, legacy: parser.legacy };
+  } catch (error) {
+    result = error instanceof FormulaError ? error : new FormulaError(String(error));
+  }
+
+  if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+  parseCache.set(source, result);
+  if (result instanceof FormulaError) throw result;
+  return result;
+}
+
+function validateArity(node: FormulaNode): void {
+  walk(node, n => {
+    if (n.kind !== 'call') return;
+    const fn = ownEntry(FORMULA_FUNCTIONS, n.name);
+    if (!fn) throw new FormulaError(`Unknown function "${n.name}"`);
+    if (n.args.length < fn.minArgs || n.args.length > fn.maxArgs) {
+      const expected = fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+      throw new FormulaError(`${n.name}() expects ${expected} argument(s), got ${n.args.length}`);
+    }
+  });
+}
+
+function walk(node: FormulaNode, visit: (node: FormulaNode) => void): void {
+  visit(node);
+  switch (node.kind) {
+    case 'unary': walk(node.operand, visit); break;
+    case 'binary': walk(node.left, visit); walk(node.right, visit); break;
+    case 'conditional': walk(node.test, visit); walk(node.consequent, visit); walk(node.alternate, visit); break;
+    case 'call': node.args.forEach(arg => walk(arg, visit)); break;
+  }
+}
+
+// ============================================================================
+// INTERPRETER
+// ============================================================================
+
+/**
+ * Evaluate a parsed formula against call metadata
+ * @throws FormulaError on runtime errors (division by zero, invalid numbers/dates)
+ */
+export function evaluateFormulaNode(node: FormulaNode, metadata: Record<string, any>): FormulaValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return normalizeValue(metadata[node.name]);
+    case 'unary': {
+      const value = evaluateFormulaNode(node.operand, metadata);
+      return node.op === '-' ? -toNumber(value) : !isTruthy(value);
+    }
+    case 'conditional':
+      return isTruthy(evaluateFormulaNode(node.test, metadata))
+        ? evaluateFormulaNode(node.consequent, metadata)
+        : evaluateFormulaNode(node.alternate, metadata);
+    case 'call': {
+      if (node.name === 'if') {
+        const [test, consequent, alternate] = node.args;
+        return isTruthy(evaluateFormulaNode(test, metadata))
+          ? evaluateFormulaNode(consequent, metadata)
+          : evaluateFormulaNode(alternate, metadata);
+      }
+      const fn = ownEntry(FORMULA_FUNCTIONS, node.name);
+      if (!fn) throw new FormulaError(`Unknown function "${node.name}"`);
+      return fn.apply(node.args.map(arg => evaluateFormulaNode(arg, metadata)));
+    }
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, metadata);
+  }
+}
+
+function evaluateBinary(op: BinaryOperator, leftNode: FormulaNode, rightNode: FormulaNode, metadata: Record<string, any>): FormulaValue {
+  const left = evaluateFormulaNode(leftNode, metadata);
+
+  // Short-circuit operators return the deciding operand, like JavaScript (enables `value || 0`)
+  if (op === '&&') return isTruthy(left) ? evaluateFormulaNode(rightNode, metadata) : left;
+  if (op === '||') return isTruthy(left) ? left : evaluateFormulaNode(rightNode, metadata);
+
+  const right = evaluateFormulaNode(rightNode, metadata);
+  switch (op) {
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') {
+        return `${left ?? ''}${right ?? ''}`;
+      }
+      return toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/':
+    case '%': {
+      const divisor = toNumber(right);
+      if (divisor === 0) throw new FormulaError('Division by zero');
+      return op === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+    }
+    case '==': return looseEquals(left, right);
+    case '!=': return !looseEquals(left, right);
+    default: {
+      const numeric = isNumeric(left) && isNumeric(right);
+      const a = numeric ? Number(left) : String(left ?? '');
+      const b = numeric ? Number(right) : String(right ?? '');
+      switch (op) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+      }
+    }
+  }
+  throw new FormulaError(`Unsupported operator "${op}"`);
+}
+
+// ============================================================================
+// STATIC CHECKING
+// ============================================================================
+
+export interface FormulaCheckResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  fieldRefs: string[];             // Distinct field IDs referenced by the formula
+  legacy: boolean;
+}
+
+/**
+ * Get the distinct field IDs a formula references
+ */
+export function getFieldReferences(ast: FormulaNode): string[] {
+  const refs = new Set<string>();
+  walk(ast, node => {
+    if (node.kind === 'field') refs.add(node.name);
+  });
+  return Array.from(refs);
+}
+
+/**
+ * Check a formula against a schema without executing it: syntax, function arity,
+ * and that every referenced field exists in schema.fields (or is another
+ * relationship's calculated value, calc_<relationshipId>).
+ */
+export function checkFormula(formula: string, schema: Pick<SchemaDefinition, 'fields' | 'relationships'>): FormulaCheckResult {
+  if (!formula || formula.trim() === '') {
+    return { valid: false, errors: ['Formula is empty'], warnings: [], fieldRefs: [], legacy: false };
+  }
+
+  let parsed: ParsedFormula;
+  try {
+    parsed = parseFormula(formula);
+  } catch (error) {
+    return { valid: false, errors: [error instanceof Error ? error.message : String(error)], warnings: [], fieldRefs: [], legacy: false };
+  }
+
+  const knownFields = new Set(schema.fields.map(f => f.id));
+  (schema.relationships || []).forEach(rel => knownFields.add(`calc_${rel.id}`));
+
+  const fieldRefs = getFieldReferences(parsed.ast);
+  const errors = fieldRefs
+    .filter(ref => !knownFields.has(ref))
+    .map(ref => {
+      const byName = schema.fields.find(f => f.name.toLowerCase() === ref.toLowerCase());
+      return byName
+        ? `Unknown field "${ref}" - did you mean "${byName.id}"?`
+        : `Unknown field "${ref}"`;
+    });
+
+  const warnings = parsed.legacy ? ['Formula uses legacy JavaScript syntax - migrate it to the formula language'] : [];
+
+  return { valid: errors.length === 0, errors, warnings, fieldRefs, legacy: parsed.legacy };
+}
+
+// ============================================================================
+// PRINTING & MIGRATION
+// ============================================================================
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '||': 2, '&&': 3, '==': 4, '!=': 4, '<': 5, '<=': 5, '>': 5, '>=': 5, '+': 6, '-': 6, '*': 7, '/': 7, '%': 7,
+};
+
+function precedenceOf(node: FormulaNode): number {
+  switch (node.kind) {
+    case 'conditional': return 1;
+    case 'binary': return PRECEDENCE[node.op];
+    case 'unary': return 8;
+    default: return 9;
+  }
+}
+
+function printField(name: string): string {
+  const plainIdentifier = /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name) && !ownEntry(FORMULA_FUNCTIONS, name);
+  return plainIdentifier ? name : `\`${name.replace(/`/g, '\\`')}\``;
+}
+
+/**
+ * Print an AST in canonical formula-language syntax
+ */
+export function formatFormula(node: FormulaNode): string {
+  const wrap = (child: FormulaNode, minPrecedence: number) => {
+    const text = formatFormula(child);
+    return precedenceOf(child) < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (node.kind) {
+    case 'literal':
+      return typeof node.value === 'string' ? JSON.stringify(node.value) : String(node.value);
+    case 'field':
+      return printField(node.name);
+    case 'unary':
+      return `${node.op}${wrap(node.operand, 8)}`;
+    case 'binary': {
+      const precedence = PRECEDENCE[node.op];
+      // Left-associative: the right operand needs parentheses at equal precedence
+      return `${wrap(node.left, precedence)} ${node.op} ${wrap(node.right, precedence + 1)}`;
+    }
+    case 'conditional':
+      return `${wrap(node.test, 2)} ? ${wrap(node.consequent, 1)} : ${wrap(node.alternate, 1)}`;
+    case 'call':
+      return `${node.name}(${node.args.map(arg => formatFormula(arg)).join(', ')})`;
+  }
+}
+
+export interface FormulaMigrationResult {
+  formula: string;
+  migrated: boolean;               // True when the formula was rewritten
+  error?: string;                  // Set when the formula could not be parsed
+}
+
+/**
+ * Rewrite a legacy JavaScript formula into canonical formula-language syntax.
+ * Formulas already in the formula language are returned unchanged.
+ */
+export function migrateFormula(formula: string): FormulaMigrationResult {
+  try {
+    const parsed = parseFormula(formula);
+    if (!parsed.legacy) {
+      return { formula, migrated: false };
+    }
+    return { formula: formatFormula(parsed.ast), migrated: true };
+  } catch (error) {
+    return { formula, migrated: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
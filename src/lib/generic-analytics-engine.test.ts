@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { GenericAnalyticsEngine } from './generic-analytics-engine';
+import { AnalyticsView } from '@/types/schema';
+import { loadDebtCollectionCalls, loadTemplateFixtures, buildTemplateCalls } from '@/test/fixtures';
+
+function view(overrides: Partial<AnalyticsView>): AnalyticsView {
+  return {
+    id: 'view',
+    name: 'View',
+    description: '',
+    chartType: 'bar',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('GenericAnalyticsEngine.aggregateByDimension', () => {
+  it('counts calls per dimension value with percentages', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const results = GenericAnalyticsEngine.aggregateByDimension(
+      calls,
+      schema,
+      view({ dimensionField: 'nationality', aggregation: 'count' })
+    );
+
+    expect(results.map(r => [r.dimension, r.measure, r.percentage])).toEqual([
+      ['Philippines', 5, 50],
+      ['Pakistan', 4, 40],
+      ['India', 1, 10],
+    ]);
+  });
+
+  it('sums and averages the measure field', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const sums = GenericAnalyticsEngine.aggregateByDimension(
+      calls,
+      schema,
+      view({ dimensionField: 'product', measureField: 'due_amount', aggregation: 'sum' })
+    );
+    const snpl = sums.find(r => r.dimension === 'SNPL')!;
+    expect(snpl.measure).toBeCloseTo(2696.68);
+    expect(snpl.count).toBe(2);
+
+    const averages = GenericAnalyticsEngine.aggregateByDimension(
+      calls,
+      schema,
+      view({ dimensionField: 'agent_name', measureField: 'days_past_due', aggregation: 'avg' })
+    );
+    expect(averages[0]).toMatchObject({ dimension: 'Raj', measure: 95.5, count: 2 });
+  });
+
+  it('aggregates built-in speech measures from transcript timings', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const timed = calls.map((call, index) => ({
+      ...call,
+      transcriptPhrases: [
+        { text: 'Hello', speaker: 1, offsetMilliseconds: (index + 1) * 1000, durationMilliseconds: 3000 },
+        { text: 'Hi', speaker: 2, offsetMilliseconds: (index + 4) * 1000 + 500, durationMilliseconds: 1000 },
+      ],
+    }));
+
+    const results = GenericAnalyticsEngine.aggregateByDimension(
+      timed,
+      schema,
+      view({ dimensionField: 'nationality', measureField: 'speech.agent_talk_ratio', aggregation: 'avg' })
+    );
+    expect(results.map(r => r.measure)).toEqual([75, 75, 75]);
+    expect(GenericAnalyticsEngine.calculateStatistics(timed, 'speech.time_to_first_response_seconds'))
+      .toMatchObject({ count: 10, min: 1, max: 10 });
+  });
+
+  it('returns nothing for an unknown dimension field', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    expect(
+      GenericAnalyticsEngine.aggregateByDimension(calls, schema, view({ dimensionField: 'missing' }))
+    ).toEqual([]);
+  });
+
+  it('aggregates every template schema by each analytics-enabled field', () => {
+    for (const { schema } of loadTemplateFixtures()) {
+      const calls = buildTemplateCalls(schema, 6);
+      for (const field of schema.fields.filter(f => f.enableAnalytics)) {
+        const results = GenericAnalyticsEngine.aggregateByDimension(
+          calls,
+          schema,
+          view({ dimensionField: field.id, aggregation: 'count' })
+        );
+        expect(results.reduce((sum, r) => sum + r.count, 0), `${schema.name}.${field.id}`).toBe(6);
+      }
+    }
+  });
+});
+
+describe('GenericAnalyticsEngine.calculateTrends', () => {
+  it('buckets calls by day in date order, falling back to createdAt', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const trend = GenericAnalyticsEngine.calculateTrends(calls, schema, view({ aggregation: 'count' }));
+
+    expect(trend[0]).toEqual({ date: '2025-07-09', value: 1, count: 1 });
+    expect(trend.find(t => t.date === '2025-09-04')).toEqual({ date: '2025-09-04', value: 2, count: 2 });
+    expect(trend.map(t => t.date)).toEqual([...trend.map(t => t.date)].sort());
+  });
+});
+
+describe('GenericAnalyticsEngine.correlate', () => {
+  it('computes a Pearson coefficient between numeric fields', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const perfectlyLinear = calls.map(call => ({
+      ...call,
+      metadata: { ...call.metadata, due_amount: call.metadata.days_past_due * 2 + 1 },
+    }));
+
+    const result = GenericAnalyticsEngine.correlate(perfectlyLinear, schema, 'days_past_due', 'due_amount');
+    expect(result).toMatchObject({ field1: 'Days Past Due', coefficient: 1, strength: 'strong', pValue: 0 });
+  });
+
+  it('reports the significance of the coefficient', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const result = GenericAnalyticsEngine.correlate(calls, schema, 'days_past_due', 'due_amount')!;
+    expect(result.pValue).toBeGreaterThan(0);
+    expect(result.pValue).toBeLessThanOrEqual(1);
+    expect(result.pValue! < 0.05).toBe(Math.abs(result.coefficient) > 0.632); // critical r for n = 10
+  });
+
+  it('needs at least three pairs', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const result = GenericAnalyticsEngine.correlate(calls.slice(0, 2), schema, 'days_past_due', 'due_amount');
+    expect(result).toMatchObject({ coefficient: 0, strength: 'none' });
+    expect(result!.pValue).toBeUndefined();
+    expect(GenericAnalyticsEngine.correlate(calls, schema, 'days_past_due', 'missing')).toBeNull();
+  });
+});
+
+describe('GenericAnalyticsEngine statistics', () => {
+  it('summarises a numeric field', () => {
+    const { calls } = loadDebtCollectionCalls();
+    const stats = GenericAnalyticsEngine.calculateStatistics(calls, 'days_past_due')!;
+
+    expect(stats).toMatchObject({ count: 10, sum: 413, mean: 41.3, median: 29, min: 3, max: 96 });
+    expect(GenericAnalyticsEngine.calculateStatistics(calls, 'missing')).toBeNull();
+  });
+
+  it('interpolates percentiles', () => {
+    const { calls } = loadDebtCollectionCalls();
+    expect(GenericAnalyticsEngine.calculatePercentile(calls, 'days_past_due', 0)).toBe(3);
+    expect(GenericAnalyticsEngine.calculatePercentile(calls, 'days_past_due', 50)).toBe(29);
+    expect(GenericAnalyticsEngine.calculatePercentile(calls, 'days_past_due', 100)).toBe(96);
+  });
+
+  it('puts every value into exactly one histogram bucket', () => {
+    const { calls } = loadDebtCollectionCalls();
+    const histogram = GenericAnalyticsEngine.generateHistogram(calls, 'days_past_due', 4);
+
+    expect(histogram).toHaveLength(4);
+    expect(histogram.reduce((sum, b) => sum + b.count, 0)).toBe(10);
+    expect(histogram[3].count).toBe(2);
+  });
+
+  it('filters calls with combined conditions', () => {
+    const { calls } = loadDebtCollectionCalls();
+    const filtered = GenericAnalyticsEngine.filterCalls(calls, [
+      { fieldId: 'product', operator: 'eq', value: 'CashNow' },
+      { fieldId: 'days_past_due', operator: 'gte', value: 30 },
+      { fieldId: 'nationality', operator: 'contains', value: 'pak' },
+    ]);
+    expect(filtered.map(c => c.metadata.agent_name)).toEqual(['Saif Shaikh', 'UMAD SAYYED']);
+  });
+
+  it('ranks top values', () => {
+    const { calls } = loadDebtCollectionCalls();
+    expect(GenericAnalyticsEngine.getTopValues(calls, 'product', 1)).toEqual([
+      { value: 'CashNow', count: 8, percentage: 80 },
+    ]);
+  });
+});
@@ -1,5 +1,7 @@
 import { CallRecord } from '@/types/call';
 import { SchemaDefinition, AnalyticsView } from '@/types/schema';
+import { correlationPValue } from '@/lib/statistics';
+import { getSpeechMeasure, getSpeechMeasureValue } from '@/lib/speech-analytics';
 
 /**
  * Generic analytics result for any dimension/measure combination
@@ -36,6 +38,24 @@ export interface CorrelationResult {
  * Replaces hardcoded aggregation functions with dynamic, schema-driven analytics
  */
 export class GenericAnalyticsEngine {
+  /**
+   * Measure definition for an id: a schema field or a built-in speech measure
+   */
+  static findMeasure(
+    schema: SchemaDefinition,
+    fieldId: string | undefined
+  ): { id: string; displayName: string } | undefined {
+    return schema.fields.find(f => f.id === fieldId) ?? getSpeechMeasure(fieldId);
+  }
+
+  /**
+   * Value of a measure on a call - speech measures come from the call's speech metrics,
+   * everything else from its metadata
+   */
+  static getMeasureValue(call: CallRecord, fieldId: string): any {
+    return getSpeechMeasure(fieldId) ? getSpeechMeasureValue(call, fieldId) : call.metadata?.[fieldId];
+  }
+
   /**
    * Aggregate calls by a dimension field and calculate measure statistics
    */
@@ -45,7 +65,7 @@ export class GenericAnalyticsEngine {
     view: AnalyticsView
   ): GenericAnalyticResult[] {
     const dimensionField = schema.fields.find(f => f.id === view.dimensionField);
-    const measureField = schema.fields.find(f => f.id === view.measureField);
+    const measureField = GenericAnalyticsEngine.findMeasure(schema, view.measureField);
 
     if (!dimensionField) {
       console.warn(`Dimension field ${view.dimensionField} not found in schema`);
@@ -80,26 +100,26 @@ export class GenericAnalyticsEngine {
         switch (view.aggregation) {
           case 'sum':
             measure = groupCalls.reduce((sum, call) => 
-              sum + (Number(call.metadata[view.measureField!]) || 0), 0
+              sum + (Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || 0), 0
             );
             break;
 
           case 'avg':
             const total = groupCalls.reduce((sum, call) => 
-              sum + (Number(call.metadata[view.measureField!]) || 0), 0
+              sum + (Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || 0), 0
             );
             measure = count > 0 ? total / count : 0;
             break;
 
           case 'min':
             measure = Math.min(...groupCalls.map(call => 
-              Number(call.metadata[view.measureField!]) || Infinity
+              Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || Infinity
             ));
             break;
 
           case 'max':
             measure = Math.max(...groupCalls.map(call => 
-              Number(call.metadata[view.measureField!]) || -Infinity
+              Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || -Infinity
             ));
             break;
 
@@ -142,7 +162,7 @@ export class GenericAnalyticsEngine {
       return [];
     }
 
-    const measureField = schema.fields.find(f => f.id === view.measureField);
+    const measureField = GenericAnalyticsEngine.findMeasure(schema, view.measureField);
 
     // Group calls by date
     const dateGroups = new Map<string, CallRecord[]>();
@@ -170,26 +190,26 @@ export class GenericAnalyticsEngine {
         switch (view.aggregation) {
           case 'sum':
             value = dateCalls.reduce((sum, call) => 
-              sum + (Number(call.metadata[view.measureField!]) || 0), 0
+              sum + (Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || 0), 0
             );
             break;
 
           case 'avg':
             const total = dateCalls.reduce((sum, call) => 
-              sum + (Number(call.metadata[view.measureField!]) || 0), 0
+              sum + (Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || 0), 0
             );
             value = count > 0 ? total / count : 0;
             break;
 
           case 'min':
             value = Math.min(...dateCalls.map(call => 
-              Number(call.metadata[view.measureField!]) || Infinity
+              Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || Infinity
             ));
             break;
 
           case 'max':
             value = Math.max(...dateCalls.map(call => 
-              Number(call.metadata[view.measureField!]) || -Infinity
+              Number(GenericAnalyticsEngine.getMeasureValue(call, view.measureField!)) || -Infinity
             ));
             break;
 
@@ -218,8 +238,8 @@ export class GenericAnalyticsEngine {
     field1Id: string,
     field2Id: string
   ): CorrelationResult | null {
-    const field1 = schema.fields.find(f => f.id === field1Id);
-    const field2 = schema.fields.find(f => f.id === field2Id);
+    const field1 = GenericAnalyticsEngine.findMeasure(schema, field1Id);
+    const field2 = GenericAnalyticsEngine.findMeasure(schema, field2Id);
 
     if (!field1 || !field2) {
       console.warn(`Fields ${field1Id} or ${field2Id} not found in schema`);
@@ -232,8 +252,8 @@ export class GenericAnalyticsEngine {
     calls.forEach(call => {
       if (!call.metadata) return;
 
-      const val1 = Number(call.metadata[field1Id]);
-      const val2 = Number(call.metadata[field2Id]);
+      const val1 = Number(GenericAnalyticsEngine.getMeasureValue(call, field1Id));
+      const val2 = Number(GenericAnalyticsEngine.getMeasureValue(call, field2Id));
 
       if (!isNaN(val1) && !isNaN(val2) && isFinite(val1) && isFinite(val2)) {
         pairs.push([val1, val2]);
@@ -278,6 +298,7 @@ export class GenericAnalyticsEngine {
       field1: field1.displayName,
       field2: field2.displayName,
       coefficient: Math.round(coefficient * 1000) / 1000, // Round to 3 decimals
+      pValue: correlationPValue(coefficient, n),
       strength
     };
   }
@@ -291,8 +312,8 @@ export class GenericAnalyticsEngine {
     xFieldId: string,
     yFieldId: string
   ): Array<{ x: number; y: number; label?: string }> {
-    const xField = schema.fields.find(f => f.id === xFieldId);
-    const yField = schema.fields.find(f => f.id === yFieldId);
+    const xField = GenericAnalyticsEngine.findMeasure(schema, xFieldId);
+    const yField = GenericAnalyticsEngine.findMeasure(schema, yFieldId);
 
     if (!xField || !yField) {
       console.warn(`Fields ${xFieldId} or ${yFieldId} not found in schema`);
@@ -308,8 +329,8 @@ export class GenericAnalyticsEngine {
     calls.forEach(call => {
       if (!call.metadata) return;
 
-      const x = Number(call.metadata[xFieldId]);
-      const y = Number(call.metadata[yFieldId]);
+      const x = Number(GenericAnalyticsEngine.getMeasureValue(call, xFieldId));
+      const y = Number(GenericAnalyticsEngine.getMeasureValue(call, yFieldId));
 
       if (!isNaN(x) && !isNaN(y) && isFinite(x) && isFinite(y)) {
         data.push({
@@ -332,7 +353,7 @@ export class GenericAnalyticsEngine {
     percentile: number // 0-100
   ): number | null {
     const values = calls
-      .map(call => Number(call.metadata[fieldId]))
+      .map(call => Number(GenericAnalyticsEngine.getMeasureValue(call, fieldId)))
       .filter(val => !isNaN(val) && isFinite(val))
       .sort((a, b) => a - b);
 
@@ -358,7 +379,7 @@ export class GenericAnalyticsEngine {
     buckets: number = 10
   ): Array<{ range: string; count: number; percentage: number }> {
     const values = calls
-      .map(call => Number(call.metadata[fieldId]))
+      .map(call => Number(GenericAnalyticsEngine.getMeasureValue(call, fieldId)))
       .filter(val => !isNaN(val) && isFinite(val));
 
     if (values.length === 0) return [];
@@ -465,7 +486,7 @@ export class GenericAnalyticsEngine {
     stdDev: number;
   } | null {
     const values = calls
-      .map(call => Number(call.metadata[fieldId]))
+      .map(call => Number(GenericAnalyticsEngine.getMeasureValue(call, fieldId)))
       .filter(val => !isNaN(val) && isFinite(val));
 
     if (values.length === 0) return null;
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isLuhnValid,
+  isIbanValid,
+  detectPii,
+  redactText,
+  redactTranscript,
+  redactMetadata,
+  selectCallVariant,
+  getRedactionVariant,
+} from './pii-redaction';
+import { getTemplateFixture, buildTemplateCalls } from '@/test/fixtures';
+
+describe('checksums', () => {
+  it('validates card numbers with Luhn', () => {
+    expect(isLuhnValid('4111 1111 1111 1111')).toBe(true);
+    expect(isLuhnValid('4111 1111 1111 1112')).toBe(false);
+  });
+
+  it('validates IBANs with mod 97', () => {
+    expect(isIbanValid('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(isIbanValid('GB82 WEST 1234 5698 7654 33')).toBe(false);
+  });
+});
+
+describe('detectPii / redactText', () => {
+  it('masks each entity type', () => {
+    const text = 'Card 4111 1111 1111 1111, SSN 123-45-6789, call (555) 123-4567 or jane@example.com. I was born on 03/05/1980.';
+    expect(detectPii(text).map(m => m.type).sort()).toEqual(['credit_card', 'date_of_birth', 'email', 'phone', 'ssn']);
+    expect(redactText(text)).toBe('Card [CREDIT_CARD], SSN [SSN], call [PHONE] or [EMAIL]. I was born on [DATE_OF_BIRTH].');
+  });
+
+  it('ignores numbers that fail validation or lack context', () => {
+    expect(redactText('Card 4111 1111 1111 1112')).toBe('Card 4111 1111 1111 1112');
+    expect(redactText('Payment due 01/15/2025')).toBe('Payment due 01/15/2025');
+  });
+
+  it('only runs the requested detectors', () => {
+    expect(redactText('jane@example.com (555) 123-4567', ['email'])).toBe('[EMAIL] (555) 123-4567');
+  });
+});
+
+describe('redactTranscript', () => {
+  it('aligns masks with word timings', () => {
+    const words = ['my', 'email', 'is', 'jane@example.com', 'thanks'].map((word, i) => ({
+      word,
+      offsetMilliseconds: i * 500,
+      durationMilliseconds: 400,
+    }));
+    const result = redactTranscript(
+      {
+        transcript: 'my email is jane@example.com thanks',
+        transcriptPhrases: [{ text: 'my email is jane@example.com thanks', offsetMilliseconds: 0, durationMilliseconds: 2400, words }],
+      },
+      { enabled: true, detectors: ['email'], evaluation: 'redacted', export: 'redacted' }
+    );
+
+    expect(result.transcript).toBe('my email is [EMAIL] thanks');
+    expect(result.spans).toEqual([{ type: 'email', phraseIndex: 0, startMilliseconds: 1500, endMilliseconds: 1900 }]);
+    expect(result.phrases![0].words!.map(w => w.word)).toEqual(['my', 'email', 'is', '[EMAIL]', 'thanks']);
+  });
+});
+
+describe('policy', () => {
+  const { schema } = getTemplateFixture('debt-collection');
+  const [call] = buildTemplateCalls(schema, 1);
+
+  it('comes from the template', () => {
+    expect(getRedactionVariant(schema, 'evaluation')).toBe('redacted');
+    expect(getRedactionVariant({ ...schema, redactionPolicy: undefined }, 'evaluation')).toBe('raw');
+  });
+
+  it('replaces sensitive fields in metadata', () => {
+    const masked = redactMetadata(call.metadata, schema);
+    for (const field of schema.fields.filter(f => f.sensitive)) {
+      expect(masked[field.id], field.id).toBe('[REDACTED]');
+    }
+  });
+
+  it('selects the raw or redacted variant per purpose', () => {
+    const withTranscript = { ...call, transcript: 'reach me at jane@example.com' };
+    expect(selectCallVariant(withTranscript, schema, 'export').transcript).toBe('reach me at [EMAIL]');
+    expect(selectCallVariant(withTranscript, null, 'export').transcript).toBe('reach me at jane@example.com');
+  });
+});
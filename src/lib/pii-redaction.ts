@@ -0,0 +1,406 @@
+/**
+ * PII Redaction Engine
+ * Regex + checksum detectors for card numbers (Luhn), IBANs (mod 97), SSNs,
+ * phone numbers, email addresses and dates of birth. Produces a redacted
+ * transcript variant whose masks are aligned to word timings, and masks
+ * metadata fields marked sensitive in the schema.
+ */
+
+import type { CallRecord, RedactedTranscript, RedactionSpan, TranscriptPhrase, WordTiming } from '@/types/call';
+import type { PiiEntityType, RedactionPolicy, RedactionVariant, SchemaDefinition } from '@/types/schema';
+
+export interface PiiMatch {
+  type: PiiEntityType;
+  start: number;                   // Character offset in the source text
+  end: number;                     // Exclusive end offset
+  value: string;
+}
+
+interface PiiDetector {
+  type: PiiEntityType;
+  pattern: RegExp;
+  validate?: (value: string, text: string, start: number) => boolean;
+}
+
+export const PII_ENTITY_LABELS: Record<PiiEntityType, string> = {
+  credit_card: 'Card numbers',
+  iban: 'IBANs',
+  ssn: 'Social security numbers',
+  phone: 'Phone numbers',
+  email: 'Email addresses',
+  date_of_birth: 'Dates of birth',
+};
+
+export const ALL_PII_ENTITY_TYPES = Object.keys(PII_ENTITY_LABELS) as PiiEntityType[];
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  enabled: false,
+  detectors: ALL_PII_ENTITY_TYPES,
+  evaluation: 'redacted',
+  export: 'redacted',
+};
+
+const SENSITIVE_FIELD_MASK = '[REDACTED]';
+
+// ============================================================================
+// CHECKSUMS
+// ============================================================================
+
+/**
+ * Luhn (mod 10) checksum used by payment card numbers
+ */
+export function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 IBAN check: move the country code and check digits to the end,
+ * convert letters to numbers and verify the remainder mod 97 is 1
+ */
+export function isIbanValid(value: string): boolean {
+  const iban = value.replace(/[\s-]/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const chunk = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of chunk) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Check the words just before a match, within the same sentence
+ */
+function hasContext(text: string, start: number, pattern: RegExp): boolean {
+  const before = text.slice(Math.max(0, start - 40), start);
+  const sentenceStart = Math.max(before.lastIndexOf('. '), before.lastIndexOf('? '), before.lastIndexOf('! '));
+  return pattern.test(sentenceStart === -1 ? before : before.slice(sentenceStart + 2));
+}
+
+// ============================================================================
+// DETECTORS
+// ============================================================================
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const DAY = '\\d{1,2}(?:st|nd|rd|th)?';
+
+// Order matters: earlier detectors win when matches overlap (a card number is not also a phone number)
+const DETECTORS: PiiDetector[] = [
+  {
+    type: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?:[ ]?[A-Z0-9]{4}){2,7}(?:[ ]?[A-Z0-9]{1,3})?\b/gi,
+    validate: value => isIbanValid(value),
+  },
+  {
+    type: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: value => isLuhnValid(value),
+  },
+  {
+    type: 'ssn',
+    pattern: /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b|\b\d{9}\b/g,
+    // Unformatted 9-digit numbers only count when the speaker mentions a social security number
+    validate: (value, text, start) =>
+      /\D/.test(value) || hasContext(text, start, /\b(ssn|social security|social)\b/i),
+  },
+  {
+    type: 'date_of_birth',
+    pattern: new RegExp(
+      `\\b\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})\\b|\\b\\d{4}-\\d{2}-\\d{2}\\b|\\b${MONTH}\\.? ${DAY},? \\d{4}\\b|\\b${DAY} (?:of )?${MONTH},? \\d{4}\\b`,
+      'gi'
+    ),
+    // Only dates introduced as a birth date - other dates (payment due, flight date) are not PII
+    validate: (_value, text, start) => hasContext(text, start, /\b(born|birth|birthday|dob|d\.o\.b)\b/i),
+  },
+  {
+    type: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g,
+    validate: value => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 10 && digits <= 15;
+    },
+  },
+];
+
+/**
+ * Find PII in text. Matches never overlap; results are sorted by position.
+ */
+export function detectPii(text: string, types: PiiEntityType[] = ALL_PII_ENTITY_TYPES): PiiMatch[] {
+  if (!text) return [];
+
+  const matches: PiiMatch[] = [];
+  const overlaps = (start: number, end: number) => matches.some(m => start < m.end && end > m.start);
+
+  for (const detector of DETECTORS) {
+    if (!types.includes(detector.type)) continue;
+    detector.pattern.lastIndex = 0;
+
+    for (const match of text.matchAll(detector.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (overlaps(start, end)) continue;
+      if (detector.validate && !detector.validate(match[0], text, start)) continue;
+      matches.push({ type: detector.type, start, end, value: match[0] });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+export function getMaskLabel(type: PiiEntityType): string {
+  return `[${type.toUpperCase()}]`;
+}
+
+function applyMasks(text: string, matches: PiiMatch[]): string {
+  let result = '';
+  let cursor = 0;
+  for (const match of matches) {
+    result += text.slice(cursor, match.start) + getMaskLabel(match.type);
+    cursor = match.end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Replace detected PII in free text with entity labels (e.g. "[CREDIT_CARD]")
+ */
+export function redactText(text: string, types: PiiEntityType[] = ALL_PII_ENTITY_TYPES): string {
+  const matches = detectPii(text, types);
+  return matches.length > 0 ? applyMasks(text, matches) : text;
+}
+
+// ============================================================================
+// TRANSCRIPT REDACTION
+// ============================================================================
+
+/**
+ * Locate each word of a phrase in its display text so matches can be mapped to word timings
+ * @returns Character range per word, or null when the word cannot be found (e.g. lexical vs display form)
+ */
+function locateWords(text: string, words: WordTiming[]): Array<{ start: number; end: number } | null> {
+  const lowerText = text.toLowerCase();
+  let cursor = 0;
+  return words.map(word => {
+    const token = word.word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    if (!token) return null;
+    const index = lowerText.indexOf(token, cursor);
+    if (index === -1) return null;
+    cursor = index + token.length;
+    return { start: index, end: index + token.length };
+  });
+}
+
+function redactPhrase(
+  phrase: TranscriptPhrase,
+  phraseIndex: number,
+  types: PiiEntityType[]
+): { phrase: TranscriptPhrase; spans: RedactionSpan[] } {
+  const matches = detectPii(phrase.text, types);
+  if (matches.length === 0) {
+    return { phrase, spans: [] };
+  }
+
+  const words = phrase.words || [];
+  const positions = locateWords(phrase.text, words);
+  const maskedWordIndexes = new Map<number, PiiEntityType>();  // first word of each match → label
+  const droppedWordIndexes = new Set<number>();                 // remaining words covered by a match
+  const spans: RedactionSpan[] = [];
+
+  for (const match of matches) {
+    const covered = positions
+      .map((pos, index) => ({ pos, index }))
+      .filter(({ pos }) => pos && pos.start < match.end && pos.end > match.start)
+      .map(({ index }) => index);
+
+    let startMilliseconds: number;
+    let endMilliseconds: number;
+    if (covered.length > 0) {
+      startMilliseconds = Math.min(...covered.map(i => words[i].offsetMilliseconds));
+      endMilliseconds = Math.max(...covered.map(i => words[i].offsetMilliseconds + words[i].durationMilliseconds));
+      maskedWordIndexes.set(covered[0], match.type);
+      covered.slice(1).forEach(i => droppedWordIndexes.add(i));
+    } else {
+      // No word timings for this match - estimate from its position in the phrase
+      const length = Math.max(1, phrase.text.length);
+      startMilliseconds = phrase.offsetMilliseconds + Math.floor((phrase.durationMilliseconds * match.start) / length);
+      endMilliseconds = phrase.offsetMilliseconds + Math.ceil((phrase.durationMilliseconds * match.end) / length);
+    }
+
+    spans.push({ type: match.type, phraseIndex, startMilliseconds, endMilliseconds });
+  }
+
+  const redactedWords = phrase.words
+    ? phrase.words.flatMap((word, index) => {
+        if (droppedWordIndexes.has(index)) return [];
+        const type = maskedWordIndexes.get(index);
+        if (!type) return [word];
+        const span = spans.find(s => s.type === type && s.startMilliseconds === word.offsetMilliseconds);
+        return [{
+          ...word,
+          word: getMaskLabel(type),
+          durationMilliseconds: span?.endMilliseconds !== undefined
+            ? span.endMilliseconds - word.offsetMilliseconds
+            : word.durationMilliseconds,
+        }];
+      })
+    : undefined;
+
+  return {
+    phrase: {
+      ...phrase,
+      text: applyMasks(phrase.text, matches),
+      // Lexical form can spell out the same digits - replace it with the masked display text
+      lexical: phrase.lexical !== undefined ? applyMasks(phrase.text, matches) : undefined,
+      words: redactedWords,
+    },
+    spans,
+  };
+}
+
+export function getPolicyKey(policy: RedactionPolicy): string {
+  return [...policy.detectors].sort().join(',');
+}
+
+/**
+ * Build the redacted transcript variant of a call. Phrase and word timings are kept,
+ * so each span's millisecond range can drive audio beeping.
+ */
+export function redactTranscript(
+  call: Pick<CallRecord, 'transcript' | 'transcriptPhrases' | 'transcriptWords'>,
+  policy: RedactionPolicy
+): RedactedTranscript {
+  const spans: RedactionSpan[] = [];
+
+  const phrases = call.transcriptPhrases?.map((phrase, index) => {
+    const result = redactPhrase(phrase, index, policy.detectors);
+    spans.push(...result.spans);
+    return result.phrase;
+  });
+
+  // Call-level word list: mask words whose timing falls inside a redacted span
+  const timedSpans = spans.filter(s => s.startMilliseconds !== undefined && s.endMilliseconds !== undefined);
+  const words = call.transcriptWords?.map(word => {
+    const span = timedSpans.find(s =>
+      word.offsetMilliseconds < s.endMilliseconds! && word.offsetMilliseconds + word.durationMilliseconds > s.startMilliseconds!
+    );
+    return span ? { ...word, word: getMaskLabel(span.type) } : word;
+  });
+
+  const transcriptMatches = detectPii(call.transcript || '', policy.detectors);
+  if (!phrases) {
+    transcriptMatches.forEach(match => spans.push({ type: match.type }));
+  }
+
+  return {
+    transcript: applyMasks(call.transcript || '', transcriptMatches),
+    phrases,
+    words,
+    spans,
+    policyKey: getPolicyKey(policy),
+    redactedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+/**
+ * Get a schema's redaction policy, or the disabled default
+ */
+export function getRedactionPolicy(schema?: Pick<SchemaDefinition, 'redactionPolicy'> | null): RedactionPolicy {
+  return { ...DEFAULT_REDACTION_POLICY, ...(schema?.redactionPolicy || {}) };
+}
+
+/**
+ * Which variant a consumer receives under the schema's policy
+ */
+export function getRedactionVariant(
+  schema: Pick<SchemaDefinition, 'redactionPolicy'> | null | undefined,
+  purpose: 'evaluation' | 'export'
+): RedactionVariant {
+  const policy = getRedactionPolicy(schema);
+  return policy.enabled ? policy[purpose] : 'raw';
+}
+
+/**
+ * Mask metadata: fields marked sensitive are replaced entirely, other text values
+ * go through the PII detectors
+ */
+export function redactMetadata(
+  metadata: Record<string, any>,
+  schema: Pick<SchemaDefinition, 'fields' | 'redactionPolicy'>
+): Record<string, any> {
+  const policy = getRedactionPolicy(schema);
+  const sensitiveIds = new Set(
+    schema.fields.filter(f => f.sensitive).flatMap(f => [f.id, f.name])
+  );
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (sensitiveIds.has(key) && value !== null && value !== undefined && value !== '') {
+      result[key] = SENSITIVE_FIELD_MASK;
+    } else if (typeof value === 'string') {
+      result[key] = redactText(value, policy.detectors);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the call's redacted transcript, reusing the stored variant when it was
+ * produced with the current detectors
+ */
+export function getRedactedTranscript(
+  call: Pick<CallRecord, 'transcript' | 'transcriptPhrases' | 'transcriptWords' | 'redactedTranscript'>,
+  schema: Pick<SchemaDefinition, 'redactionPolicy'>
+): RedactedTranscript {
+  const policy = getRedactionPolicy(schema);
+  if (call.redactedTranscript && call.redactedTranscript.policyKey === getPolicyKey(policy)) {
+    return call.redactedTranscript;
+  }
+  return redactTranscript(call, policy);
+}
+
+/**
+ * Pick the transcript and metadata a consumer should see under the schema's policy
+ */
+export function selectCallVariant(
+  call: Pick<CallRecord, 'transcript' | 'transcriptPhrases' | 'transcriptWords' | 'redactedTranscript' | 'metadata'>,
+  schema: Pick<SchemaDefinition, 'fields' | 'redactionPolicy'> | null | undefined,
+  purpose: 'evaluation' | 'export'
+): { variant: RedactionVariant; transcript?: string; phrases?: TranscriptPhrase[]; metadata: Record<string, any> } {
+  if (!schema || getRedactionVariant(schema, purpose) === 'raw') {
+    return { variant: 'raw', transcript: call.transcript, phrases: call.transcriptPhrases, metadata: call.metadata };
+  }
+
+  const redacted = call.transcript ? getRedactedTranscript(call, schema) : undefined;
+  return {
+    variant: 'redacted',
+    transcript: redacted?.transcript,
+    phrases: redacted?.phrases,
+    metadata: redactMetadata(call.metadata, schema),
+  };
+}
@@ -32,7 +32,8 @@ export function substitutePromptVariables(
   
   for (const [key, value] of Object.entries(variables)) {
     const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-    result = result.replace(regex, value);
+    // Replacer function so "$" sequences in values (amounts, transcripts) are kept literally
+    result = result.replace(regex, () => value);
   }
   
   return result;
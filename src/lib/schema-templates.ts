@@ -46,12 +46,25 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
   icon: '💰',
   description: 'For debt collection and recovery call centers',
   previewDescription: 'Complete template for debt collection operations including borrower tracking, payment arrangements, compliance requirements, and risk assessment.',
-  version: '1.0.0',
+  version: '1.2.0',
   industry: 'debt-collection',
   schema: {
     name: 'Debt Collection',
     version: '1.0.0',
     businessContext: 'Debt collection call center focused on recovering outstanding balances while maintaining compliance with regulations and treating borrowers fairly.',
+    redactionPolicy: {
+      enabled: true,
+      detectors: ['credit_card', 'iban', 'ssn', 'phone', 'email', 'date_of_birth'],
+      evaluation: 'redacted',
+      export: 'redacted',
+    },
+    scorecard: {
+      sections: [
+        { id: 'opening', name: 'Opening', weight: 20 },
+        { id: 'compliance', name: 'Compliance', weight: 40 },
+        { id: 'resolution', name: 'Resolution', weight: 40 },
+      ],
+    },
     fields: [
       {
         id: 'account_id',
@@ -59,6 +72,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
         displayName: 'Account ID',
         type: 'string',
         semanticRole: 'identifier',
+        sensitive: true,
         required: true,
         showInTable: true,
         useInPrompt: true,
@@ -71,6 +85,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
         displayName: 'Borrower Name',
         type: 'string',
         semanticRole: 'participant_2',
+        sensitive: true,
         participantLabel: 'Borrower',
         required: true,
         showInTable: true,
@@ -203,7 +218,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
         id: 'risk_score',
         type: 'complex',
         description: 'Risk score based on days past due and amount',
-        formula: 'const dpd = Number(metadata.days_past_due || 0); const amount = Number(metadata.due_amount || 0); return Math.min(100, (dpd / 90) * 50 + (amount / 10000) * 50);',
+        formula: 'min(100, number(days_past_due || 0) / 90 * 50 + number(due_amount || 0) / 10000 * 50)',
         involvedFields: ['days_past_due', 'due_amount'],
         displayName: 'Risk Score',
         displayInTable: true,
@@ -347,6 +362,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent states name, company name, and purpose of call clearly',
       scoringStandard: { passed: 10, failed: 0, partial: 5 },
       examples: ['Hi, this is John from ABC Collections calling about your account'],
+      section: 'opening',
     },
     {
       type: 'Must Do',
@@ -355,6 +371,8 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent states this is an attempt to collect a debt and information will be used for that purpose',
       scoringStandard: { passed: 10, failed: 0 },
       examples: ['This is an attempt to collect a debt and any information obtained will be used for that purpose'],
+      section: 'compliance',
+      critical: true,
     },
     {
       type: 'Must Do',
@@ -363,6 +381,8 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent verifies at least 2 pieces of identifying information',
       scoringStandard: { passed: 10, failed: 0, partial: 5 },
       examples: ['Can you please verify your date of birth and last four of your SSN?'],
+      section: 'opening',
+      critical: true,
     },
     {
       type: 'Must Do',
@@ -371,6 +391,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent mentions the current balance and account status',
       scoringStandard: { passed: 10, failed: 0, partial: 5 },
       examples: ['Your current balance is $1,234.56 and the account is 45 days past due'],
+      section: 'resolution',
     },
     {
       type: 'Must Do',
@@ -379,6 +400,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent presents at least one way for the customer to resolve the debt',
       scoringStandard: { passed: 10, failed: 0, partial: 5 },
       examples: ['You can pay in full today, or we can set up a payment arrangement'],
+      section: 'resolution',
     },
     {
       type: 'Must Not Do',
@@ -387,6 +409,8 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'No threats, profanity, or intimidating statements',
       scoringStandard: { passed: 10, failed: 0 },
       examples: ['Avoid: "We will garnish your wages" or using raised voice'],
+      section: 'compliance',
+      critical: true,
     },
     {
       type: 'Must Not Do',
@@ -395,6 +419,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'All statements about account, consequences, and options are accurate',
       scoringStandard: { passed: 10, failed: 0 },
       examples: ['Avoid: "You will go to jail if you do not pay"'],
+      section: 'compliance',
     },
     {
       type: 'Must Do',
@@ -403,6 +428,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent is polite, patient, and does not escalate tension',
       scoringStandard: { passed: 10, failed: 0, partial: 5 },
       examples: ['I understand this is a difficult situation, let me see how I can help'],
+      section: 'compliance',
     },
     {
       type: 'Must Do',
@@ -411,6 +437,7 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent summarizes any agreements and states what will happen next',
       scoringStandard: { passed: 10, failed: 0, partial: 5 },
       examples: ['So we have agreed to a payment of $200 on Friday. I will send you a confirmation'],
+      section: 'resolution',
     },
     {
       type: 'Must Do',
@@ -419,6 +446,8 @@ export const DEBT_COLLECTION_TEMPLATE: SchemaTemplate = {
       evaluationCriteria: 'Agent offers or agrees to send validation letter or payment confirmation',
       scoringStandard: { passed: 5, failed: 0 },
       examples: ['I can send you a letter confirming this arrangement'],
+      section: 'resolution',
+      allowNotApplicable: true,
     },
   ],
 };
@@ -990,7 +1019,7 @@ export const SALES_TEMPLATE: SchemaTemplate = {
         id: 'deal_score',
         type: 'complex',
         description: 'Lead score based on deal value and stage progression',
-        formula: '(deal_value > 10000 ? 50 : deal_value / 200) + (stage === "Negotiation" ? 30 : stage === "Proposal" ? 20 : 10)',
+        formula: '(deal_value > 10000 ? 50 : deal_value / 200) + (stage == "Negotiation" ? 30 : stage == "Proposal" ? 20 : 10)',
         involvedFields: ['deal_value', 'stage'],
         displayName: 'Deal Score',
         displayInTable: true,
@@ -1224,12 +1253,18 @@ export const HEALTHCARE_TEMPLATE: SchemaTemplate = {
   icon: '🏥',
   description: 'For healthcare and medical service call centers',
   previewDescription: 'HIPAA-compliant template for healthcare operations including patient scheduling, insurance verification, medical inquiries, and compliance-focused evaluation rules.',
-  version: '1.0.0',
+  version: '1.1.0',
   industry: 'healthcare',
   schema: {
     name: 'Healthcare',
     version: '1.0.0',
     businessContext: 'Healthcare call center focused on patient services, appointment scheduling, insurance verification, and medical inquiries while maintaining HIPAA compliance.',
+    redactionPolicy: {
+      enabled: true,
+      detectors: ['credit_card', 'iban', 'ssn', 'phone', 'email', 'date_of_birth'],
+      evaluation: 'redacted',
+      export: 'redacted',
+    },
     fields: [
       {
         id: 'patient_id',
@@ -1237,6 +1272,7 @@ export const HEALTHCARE_TEMPLATE: SchemaTemplate = {
         displayName: 'Patient ID',
         type: 'string',
         semanticRole: 'identifier',
+        sensitive: true,
         required: true,
         showInTable: true,
         useInPrompt: true,
@@ -1249,6 +1285,7 @@ export const HEALTHCARE_TEMPLATE: SchemaTemplate = {
         displayName: 'Patient Name',
         type: 'string',
         semanticRole: 'participant_2',
+        sensitive: true,
         participantLabel: 'Patient',
         required: true,
         showInTable: true,
@@ -1821,7 +1858,7 @@ export const AIRLINE_TEMPLATE: SchemaTemplate = {
         id: 'priority_score',
         type: 'complex',
         description: 'Priority score based on loyalty tier and issue severity',
-        formula: 'const tier = metadata.loyalty_tier || "None"; const issue = metadata.issue_type || ""; const tierScore = tier === "Platinum" ? 40 : tier === "Gold" ? 30 : tier === "Silver" ? 20 : tier === "Bronze" ? 10 : 0; const issueScore = issue === "Missed Flight" || issue === "Unaccompanied Minor" ? 30 : issue === "Lost Luggage" || issue === "Flight Delay" ? 20 : 10; return tierScore + issueScore;',
+        formula: 'case(coalesce(loyalty_tier, "None"), "Platinum", 40, "Gold", 30, "Silver", 20, "Bronze", 10, 0) + (oneof(issue_type, "Missed Flight", "Unaccompanied Minor") ? 30 : oneof(issue_type, "Lost Luggage", "Flight Delay") ? 20 : 10)',
         involvedFields: ['loyalty_tier', 'issue_type'],
         displayName: 'Priority Score',
         displayInTable: true,
@@ -2299,7 +2336,7 @@ export const TELECOM_RETENTION_TEMPLATE: SchemaTemplate = {
         id: 'customer_value_score',
         type: 'complex',
         description: 'Customer value score based on tenure and monthly spend',
-        formula: 'const tenure = Number(metadata.tenure_months || 0); const spend = Number(metadata.monthly_spend || 0); return Math.min(100, (tenure / 60) * 50 + (spend / 200) * 50);',
+        formula: 'min(100, number(tenure_months || 0) / 60 * 50 + number(monthly_spend || 0) / 200 * 50)',
         involvedFields: ['tenure_months', 'monthly_spend'],
         displayName: 'Customer Value Score',
         displayInTable: true,
@@ -2700,7 +2737,7 @@ export const INSURANCE_CLAIMS_TEMPLATE: SchemaTemplate = {
         id: 'claim_complexity',
         type: 'complex',
         description: 'Claim complexity based on amount and injury severity',
-        formula: 'const amount = Number(metadata.claim_amount || 0); const severity = metadata.injury_severity || "None"; const severityScore = {None: 0, Minor: 20, Moderate: 40, Severe: 70, Fatal: 100}[severity] || 0; const amountScore = Math.min(50, (amount / 50000) * 50); return Math.min(100, amountScore + severityScore);',
+        formula: 'min(100, min(50, number(claim_amount || 0) / 50000 * 50) + (case(injury_severity || "None", "None", 0, "Minor", 20, "Moderate", 40, "Severe", 70, "Fatal", 100, null) || 0))',
         involvedFields: ['claim_amount', 'injury_severity'],
         displayName: 'Complexity Score',
         displayInTable: true,
@@ -2923,12 +2960,18 @@ export const BANKING_SUPPORT_TEMPLATE: SchemaTemplate = {
   icon: '🏦',
   description: 'For retail banking, fraud alerts, disputes, and account support',
   previewDescription: 'Complete template for banking operations including account inquiries, fraud investigation, dispute resolution, PCI compliance, transaction verification, and regulatory adherence.',
-  version: '1.0.0',
+  version: '1.1.0',
   industry: 'banking',
   schema: {
     name: 'Banking Support',
     version: '1.0.0',
     businessContext: 'Retail banking support center focused on account security, fraud prevention, transaction disputes, compliance with financial regulations, and delivering exceptional customer service.',
+    redactionPolicy: {
+      enabled: true,
+      detectors: ['credit_card', 'iban', 'ssn', 'phone', 'email', 'date_of_birth'],
+      evaluation: 'redacted',
+      export: 'redacted',
+    },
     fields: [
       {
         id: 'account_number',
@@ -2936,6 +2979,7 @@ export const BANKING_SUPPORT_TEMPLATE: SchemaTemplate = {
         displayName: 'Account Number',
         type: 'string',
         semanticRole: 'identifier',
+        sensitive: true,
         required: true,
         showInTable: true,
         useInPrompt: true,
@@ -2948,6 +2992,7 @@ export const BANKING_SUPPORT_TEMPLATE: SchemaTemplate = {
         displayName: 'Customer Name',
         type: 'string',
         semanticRole: 'participant_2',
+        sensitive: true,
         participantLabel: 'Customer',
         required: true,
         showInTable: true,
@@ -3074,7 +3119,7 @@ export const BANKING_SUPPORT_TEMPLATE: SchemaTemplate = {
         id: 'customer_value',
         type: 'complex',
         description: 'Customer value based on tenure and balance',
-        formula: 'const tenure = Number(metadata.customer_tenure_years || 0); const balance = Number(metadata.account_balance || 0); return Math.min(100, (tenure * 10) + (balance / 10000) * 20);',
+        formula: 'min(100, number(customer_tenure_years || 0) * 10 + number(account_balance || 0) / 10000 * 20)',
         involvedFields: ['customer_tenure_years', 'account_balance'],
         displayName: 'Customer Value Score',
         displayInTable: true,
@@ -3446,7 +3491,7 @@ export const ECOMMERCE_SUPPORT_TEMPLATE: SchemaTemplate = {
         id: 'customer_retention_risk',
         type: 'complex',
         description: 'Retention risk based on CLV and issue severity',
-        formula: 'const clv = Number(metadata.customer_lifetime_value || 0); const issueScore = {\"Order Tracking\": 20, \"Product Inquiry\": 10, \"Return Request\": 40, \"Damaged Item\": 60, \"Wrong Item\": 70, \"Shipping Delay\": 50, \"Refund Status\": 45}[metadata.issue_type] || 30; return Math.min(100, (clv > 1000 ? issueScore * 1.5 : issueScore));',
+        formula: 'min(100, number(customer_lifetime_value || 0) > 1000 ? (case(issue_type, "Order Tracking", 20, "Product Inquiry", 10, "Return Request", 40, "Damaged Item", 60, "Wrong Item", 70, "Shipping Delay", 50, "Refund Status", 45, null) || 30) * 1.5 : case(issue_type, "Order Tracking", 20, "Product Inquiry", 10, "Return Request", 40, "Damaged Item", 60, "Wrong Item", 70, "Shipping Delay", 50, "Refund Status", 45, null) || 30)',
         involvedFields: ['customer_lifetime_value', 'issue_type'],
         displayName: 'Retention Risk Score',
         displayInTable: true,
@@ -3821,7 +3866,7 @@ export const IT_HELPDESK_TEMPLATE: SchemaTemplate = {
         id: 'complexity_score',
         type: 'complex',
         description: 'Issue complexity based on severity and resolution time',
-        formula: 'const severityScore = {\"P1 - Critical\": 100, \"P2 - High\": 70, \"P3 - Medium\": 40, \"P4 - Low\": 20}[metadata.severity_level] || 40; const time = Number(metadata.resolution_time_minutes || 30); const timeScore = Math.min(50, (time / 60) * 50); return Math.min(100, (severityScore * 0.6) + (timeScore * 0.4));',
+        formula: 'min(100, (case(severity_level, "P1 - Critical", 100, "P2 - High", 70, "P3 - Medium", 40, "P4 - Low", 20, null) || 40) * 0.6 + min(50, number(resolution_time_minutes || 30) / 60 * 50) * 0.4)',
         involvedFields: ['severity_level', 'resolution_time_minutes'],
         displayName: 'Complexity Score',
         displayInTable: true,
@@ -4206,7 +4251,7 @@ export const UTILITIES_TEMPLATE: SchemaTemplate = {
         id: 'urgency_score',
         type: 'complex',
         description: 'Call urgency based on type and safety flags',
-        formula: 'const isSafety = metadata.safety_flag === true ? 100 : 0; const typeScore = {\"Safety Emergency\": 100, \"Outage Report\": 80, \"Disconnection Notice\": 60, \"High Bill Complaint\": 40, \"Billing Inquiry\": 20}[metadata.call_type] || 30; return Math.max(isSafety, typeScore);',
+        formula: 'max(safety_flag == true ? 100 : 0, case(call_type, "Safety Emergency", 100, "Outage Report", 80, "Disconnection Notice", 60, "High Bill Complaint", 40, "Billing Inquiry", 20, null) || 30)',
         involvedFields: ['call_type', 'safety_flag'],
         displayName: 'Urgency Score',
         displayInTable: true,
@@ -4591,7 +4636,7 @@ export const HOSPITALITY_TEMPLATE: SchemaTemplate = {
         id: 'guest_value',
         type: 'complex',
         description: 'Guest value based on tier status',
-        formula: 'const tierScore = {Diamond: 100, Platinum: 80, Gold: 60, Silver: 40, Standard: 20}[metadata.guest_tier_status] || 20; return tierScore;',
+        formula: 'case(guest_tier_status, "Diamond", 100, "Platinum", 80, "Gold", 60, "Silver", 40, "Standard", 20, null) || 20',
         involvedFields: ['guest_tier_status'],
         displayName: 'Guest Value Score',
         displayInTable: true,
@@ -4964,7 +5009,7 @@ export const REAL_ESTATE_TEMPLATE: SchemaTemplate = {
         id: 'response_priority',
         type: 'complex',
         description: 'Response priority based on urgency and category',
-        formula: 'const urgencyScore = {Emergency: 100, Urgent: 70, Routine: 40, \"Low Priority\": 20}[metadata.urgency_level] || 40; const categoryBoost = [\"Plumbing\", \"HVAC\", \"Electrical\"].includes(metadata.maintenance_category) ? 20 : 0; return Math.min(100, urgencyScore + categoryBoost);',
+        formula: 'min(100, (case(urgency_level, "Emergency", 100, "Urgent", 70, "Routine", 40, "Low Priority", 20, null) || 40) + (oneof(maintenance_category, "Plumbing", "HVAC", "Electrical") ? 20 : 0))',
         involvedFields: ['urgency_level', 'maintenance_category'],
         displayName: 'Response Priority',
         displayInTable: true,
@@ -5336,7 +5381,7 @@ export const AUTOMOTIVE_TEMPLATE: SchemaTemplate = {
         id: 'urgency_level',
         type: 'complex',
         description: 'Service urgency based on type and safety concern',
-        formula: 'const isSafety = metadata.safety_concern === true ? 100 : 0; const typeScore = {\"Roadside Assistance\": 90, \"Recall Service\": 70, \"Warranty Claim\": 50, \"Repair Inquiry\": 30}[metadata.service_type] || 40; return Math.max(isSafety, typeScore);',
+        formula: 'max(safety_concern == true ? 100 : 0, case(service_type, "Roadside Assistance", 90, "Recall Service", 70, "Warranty Claim", 50, "Repair Inquiry", 30, null) || 40)',
         involvedFields: ['service_type', 'safety_concern'],
         displayName: 'Urgency Level',
         displayInTable: true,
@@ -5710,7 +5755,7 @@ export const GOVERNMENT_TEMPLATE: SchemaTemplate = {
         id: 'complexity_score',
         type: 'complex',
         description: 'Case complexity based on benefit type and accommodations',
-        formula: 'const complexityMap = {\"Unemployment Benefits\": 50, \"Healthcare Enrollment\": 70, \"Food Assistance\": 40, \"Social Security\": 80}[metadata.benefit_type] || 50; const accommodationBoost = metadata.accommodation_needed ? 20 : 0; return Math.min(100, complexityMap + accommodationBoost);',
+        formula: 'min(100, (case(benefit_type, "Unemployment Benefits", 50, "Healthcare Enrollment", 70, "Food Assistance", 40, "Social Security", 80, null) || 50) + (accommodation_needed ? 20 : 0))',
         involvedFields: ['benefit_type', 'accommodation_needed'],
         displayName: 'Case Complexity',
         displayInTable: true,
@@ -6104,7 +6149,7 @@ export const VODAFONE_TEMPLATE: SchemaTemplate = {
         id: 'quality_score',
         type: 'complex',
         description: 'Overall quality score based on all evaluation criteria',
-        formula: 'return "Calculated from evaluation rules";',
+        formula: '"Calculated from evaluation rules"',
         involvedFields: ['fcr', 'call_drop', 'tht'],
         displayName: 'Quality Score',
         displayInTable: true,
@@ -6709,6 +6754,7 @@ export function saveCustomTemplate(
       fields: schema.fields,
       relationships: schema.relationships,
       topicTaxonomy: schema.topicTaxonomy,
+      scorecard: schema.scorecard,
     },
     evaluationRules,
   };
@@ -6746,6 +6792,12 @@ export function createSchemaFromTemplate(template: SchemaTemplate): SchemaDefini
     relationships: JSON.parse(JSON.stringify(template.schema.relationships || [])),
     topicTaxonomy: JSON.parse(JSON.stringify(template.schema.topicTaxonomy || [])),
     insightCategories: JSON.parse(JSON.stringify(template.schema.insightCategories || [])),
+    redactionPolicy: template.schema.redactionPolicy
+      ? JSON.parse(JSON.stringify(template.schema.redactionPolicy))
+      : undefined,
+    scorecard: template.schema.scorecard
+      ? JSON.parse(JSON.stringify(template.schema.scorecard))
+      : undefined,
     templateId: template.id,
     templateVersion: template.version,
   };
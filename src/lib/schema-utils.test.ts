@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateFieldDependency,
+  getVisibleFields,
+  isFieldRequired,
+  validateFieldValues,
+  getValidOperatorsForFieldType,
+} from './schema-utils';
+import { FieldDefinition, SchemaDefinition } from '@/types/schema';
+
+function field(overrides: Partial<FieldDefinition>): FieldDefinition {
+  return {
+    id: 'field',
+    name: 'field',
+    displayName: 'Field',
+    type: 'string',
+    semanticRole: 'freeform',
+    required: false,
+    showInTable: true,
+    useInPrompt: true,
+    enableAnalytics: false,
+    ...overrides,
+  };
+}
+
+const outcome = field({ id: 'outcome', name: 'outcome', displayName: 'Outcome', type: 'select', selectOptions: ['Paid', 'Promise', 'Refused'] });
+const promiseDate = field({
+  id: 'promise_date',
+  name: 'promise_date',
+  displayName: 'Promise Date',
+  type: 'date',
+  dependsOn: { fieldId: 'outcome', operator: 'equals', value: 'Promise' },
+  dependsOnBehavior: 'show',
+});
+const refusalReason = field({
+  id: 'refusal_reason',
+  name: 'refusal_reason',
+  displayName: 'Refusal Reason',
+  dependsOn: { fieldId: 'outcome', operator: 'equals', value: 'Refused' },
+  dependsOnBehavior: 'require',
+});
+
+const schema: SchemaDefinition = {
+  id: 'test-schema',
+  name: 'Test',
+  version: '1.0.0',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  businessContext: 'Test',
+  fields: [outcome, promiseDate, refusalReason],
+  relationships: [],
+};
+
+describe('evaluateFieldDependency', () => {
+  it.each([
+    ['equals', 'Promise', 'Promise', true],
+    ['equals', 'promise', 'Promise', false],
+    ['notEquals', 'Paid', 'Promise', true],
+    ['contains', 'Will PAY tomorrow', 'pay', true],
+    ['contains', ['a', 'b'], 'b', true],
+    ['contains', 42, '4', false],
+    ['greaterThan', 95, 90, true],
+    ['greaterThan', '95', 90, false],
+    ['lessThan', 10, 30, true],
+    ['isEmpty', '', undefined, true],
+    ['isEmpty', [], undefined, true],
+    ['isEmpty', 0, undefined, false],
+    ['isNotEmpty', 'x', undefined, true],
+    ['isNotEmpty', null, undefined, false],
+  ] as const)('%s: %j vs %j -> %s', (operator, actual, expected, result) => {
+    expect(
+      evaluateFieldDependency({ fieldId: 'f', operator, value: expected }, { f: actual })
+    ).toBe(result);
+  });
+
+  it('shows the field for unknown operators', () => {
+    expect(
+      evaluateFieldDependency({ fieldId: 'f', operator: 'between' as never, value: 1 }, { f: 2 })
+    ).toBe(true);
+  });
+});
+
+describe('getVisibleFields / isFieldRequired', () => {
+  it('hides "show" dependents until their condition holds', () => {
+    expect(getVisibleFields(schema.fields, { outcome: 'Paid' }).map(f => f.id)).toEqual(['outcome', 'refusal_reason']);
+    expect(getVisibleFields(schema.fields, { outcome: 'Promise' }).map(f => f.id)).toContain('promise_date');
+  });
+
+  it('makes "require" dependents required only when their condition holds', () => {
+    expect(isFieldRequired(refusalReason, { outcome: 'Paid' })).toBe(false);
+    expect(isFieldRequired(refusalReason, { outcome: 'Refused' })).toBe(true);
+    expect(isFieldRequired({ ...outcome, required: true }, {})).toBe(true);
+  });
+});
+
+describe('validateFieldValues', () => {
+  it('requires conditional fields and skips hidden ones', () => {
+    const result = validateFieldValues(schema, { outcome: 'Refused', promise_date: 'not a date' });
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ fieldId: 'refusal_reason', type: 'required' }),
+    ]);
+  });
+
+  it('validates visible values by type', () => {
+    const result = validateFieldValues(schema, { outcome: 'Promise', promise_date: 'not a date' });
+    expect(result.errors.map(e => [e.fieldId, e.type])).toEqual([['promise_date', 'type']]);
+
+    const invalidOption = validateFieldValues(schema, { outcome: 'Maybe' });
+    expect(invalidOption.errors.map(e => [e.fieldId, e.type])).toEqual([['outcome', 'invalid']]);
+  });
+});
+
+describe('getValidOperatorsForFieldType', () => {
+  it('offers numeric comparisons only for numbers', () => {
+    expect(getValidOperatorsForFieldType('number')).toContain('greaterThan');
+    expect(getValidOperatorsForFieldType('boolean')).not.toContain('greaterThan');
+  });
+});
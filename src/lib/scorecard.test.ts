@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { scoreResults, getScorecardSections, annotateResult, resultsForMissingCriteria } from './scorecard';
+import { reviewCriterion, clearCriterionReview } from './evaluation-overrides';
+import { EVALUATION_CRITERIA } from './evaluation-criteria';
+import { CallEvaluation, EvaluationResult } from '@/types/call';
+import { ScorecardConfig } from '@/types/schema';
+
+const SCORECARD: ScorecardConfig = {
+  sections: [
+    { id: 'opening', name: 'Opening', weight: 1 },
+    { id: 'compliance', name: 'Compliance', weight: 3 },
+  ],
+};
+
+function result(criterionId: number, sectionId: string, score: number, maxScore: number, extra: Partial<EvaluationResult> = {}): EvaluationResult {
+  return { criterionId, sectionId, score, maxScore, passed: score === maxScore, evidence: '', reasoning: '', ...extra };
+}
+
+describe('scoreResults', () => {
+  it('is the plain points ratio without sections', () => {
+    const outcome = scoreResults([result(1, 'general', 10, 10), result(2, 'general', 0, 30)], getScorecardSections());
+    expect(outcome).toMatchObject({ totalScore: 10, maxScore: 40, percentage: 25, autoFailed: false });
+  });
+
+  it('weights section percentages', () => {
+    const outcome = scoreResults(
+      [result(1, 'opening', 10, 10), result(2, 'compliance', 5, 10), result(3, 'compliance', 0, 10)],
+      getScorecardSections(SCORECARD)
+    );
+    // (1 * 100% + 3 * 25%) / 4
+    expect(outcome.percentage).toBe(44);
+    expect(outcome.sectionScores.map(s => [s.sectionId, s.percentage])).toEqual([['opening', 100], ['compliance', 25]]);
+  });
+
+  it('removes N/A criteria and all-N/A sections from the denominator', () => {
+    const outcome = scoreResults(
+      [result(1, 'opening', 0, 10, { notApplicable: true, passed: true }), result(2, 'compliance', 10, 10)],
+      getScorecardSections(SCORECARD)
+    );
+    expect(outcome).toMatchObject({ totalScore: 10, maxScore: 10, percentage: 100 });
+    expect(outcome.sectionScores[0]).toMatchObject({ sectionId: 'opening', maxScore: 0 });
+  });
+
+  it('fails the whole call when a critical criterion fails', () => {
+    const outcome = scoreResults(
+      [result(1, 'opening', 10, 10), result(2, 'compliance', 0, 10, { critical: true, criterionName: 'Mini-Miranda' })],
+      getScorecardSections(SCORECARD)
+    );
+    expect(outcome).toMatchObject({ percentage: 0, totalScore: 0, autoFailed: true, autoFailReasons: ['Mini-Miranda'] });
+  });
+});
+
+describe('annotateResult', () => {
+  it('puts criteria of unknown sections in General', () => {
+    const criterion = { ...EVALUATION_CRITERIA[0], section: 'closing', critical: true };
+    expect(annotateResult(result(1, '', 0, 0), criterion, SCORECARD)).toMatchObject({
+      sectionId: 'general',
+      critical: true,
+      maxScore: criterion.scoringStandard.passed,
+    });
+  });
+});
+
+describe('resultsForMissingCriteria', () => {
+  it('fails criteria the response left out, auto-failing the call on a critical one', () => {
+    const criteria = [
+      { ...EVALUATION_CRITERIA[0], section: 'opening' },
+      { ...EVALUATION_CRITERIA[1], section: 'compliance', critical: true },
+    ];
+    const returned = annotateResult({ ...result(1, '', 10, 10), criterionKey: criteria[0].key }, criteria[0], SCORECARD);
+
+    const missing = resultsForMissingCriteria(criteria, new Set([criteria[0]]), SCORECARD);
+    expect(missing).toHaveLength(1);
+    expect(missing[0]).toMatchObject({ criterionId: 2, criterionKey: criteria[1].key, passed: false, critical: true, sectionId: 'compliance' });
+
+    const outcome = scoreResults([returned, ...missing], getScorecardSections(SCORECARD));
+    expect(outcome).toMatchObject({ autoFailed: true, autoFailReasons: [criteria[1].name], percentage: 0 });
+  });
+});
+
+describe('QA overrides on scorecard evaluations', () => {
+  const criteria = [
+    { ...EVALUATION_CRITERIA[0], section: 'opening' },
+    { ...EVALUATION_CRITERIA[1], section: 'compliance', critical: true },
+  ];
+  const results = [
+    annotateResult({ ...result(1, '', 10, 10), criterionKey: criteria[0].key }, criteria[0], SCORECARD),
+    annotateResult({ ...result(2, '', 0, 10), criterionKey: criteria[1].key, criterionName: criteria[1].name }, criteria[1], SCORECARD),
+  ];
+  const { sectionScores, ...outcome } = scoreResults(results, getScorecardSections(SCORECARD));
+  const evaluation: CallEvaluation = {
+    id: 'eval_1', callId: 'call_1', evaluatedAt: '2025-01-01T00:00:00Z', overallFeedback: '',
+    results, sectionScores, ...outcome,
+  };
+
+  it('re-scores with the stored section weights, lifting the auto-fail when overridden', () => {
+    expect(evaluation.autoFailed).toBe(true);
+
+    const reviewed = reviewCriterion(evaluation, 2, { passed: true, reviewer: 'QA', reason: 'Disclosure given' }, criteria);
+    expect(reviewed.autoFailed).toBeUndefined();
+    expect(reviewed.percentage).toBe(100);
+
+    const restored = clearCriterionReview(reviewed, 2);
+    expect(restored).toMatchObject({ autoFailed: true, percentage: 0 });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Scorecard Scoring
+ * Weighted, sectioned scoring for call evaluations. Each section scores points
+ * earned over points available; the call percentage is the weighted average of
+ * section percentages. N/A criteria are left out of both sides, and a failed
+ * critical criterion fails the whole call.
+ */
+
+import { EvaluationCriterion, EvaluationResult, SectionScore } from '@/types/call';
+import { ScorecardConfig, ScorecardSection } from '@/types/schema';
+
+/** Section for criteria not assigned to one of the schema's sections */
+export const GENERAL_SECTION: ScorecardSection = { id: 'general', name: 'General', weight: 1 };
+
+export interface ScorecardOutcome {
+  totalScore: number;
+  maxScore: number;
+  percentage: number;
+  sectionScores: SectionScore[];
+  autoFailed: boolean;
+  autoFailReasons: string[];
+}
+
+/**
+ * Sections results can be scored in: the schema's sections plus General
+ */
+export function getScorecardSections(scorecard?: ScorecardConfig): ScorecardSection[] {
+  const sections = scorecard?.sections ?? [];
+  return sections.some(s => s.id === GENERAL_SECTION.id) ? sections : [...sections, GENERAL_SECTION];
+}
+
+/**
+ * Copy the criterion's scorecard attributes onto its result, so the evaluation
+ * can be re-scored later (e.g. after a QA override) without the rules
+ */
+export function annotateResult<T extends EvaluationResult>(
+  result: T,
+  criterion: EvaluationCriterion,
+  scorecard?: ScorecardConfig
+): T {
+  const inSection = scorecard?.sections.some(s => s.id === criterion.section);
+  return {
+    ...result,
+    maxScore: criterion.scoringStandard.passed,
+    sectionId: inSection ? criterion.section : GENERAL_SECTION.id,
+    critical: criterion.critical || undefined,
+  };
+}
+
+/**
+ * Failed results for the criteria a model response left out. An omitted criterion is
+ * scored as failed rather than dropping out like N/A, so an omitted critical criterion
+ * still fails the call.
+ */
+export function resultsForMissingCriteria(
+  criteria: EvaluationCriterion[],
+  assessed: Set<EvaluationCriterion>,
+  scorecard?: ScorecardConfig
+): EvaluationResult[] {
+  return criteria
+    .filter(criterion => !assessed.has(criterion))
+    .map(criterion => annotateResult({
+      criterionId: criterion.id,
+      criterionKey: criterion.key,
+      criterionName: criterion.name,
+      score: criterion.scoringStandard.failed,
+      passed: false,
+      evidence: '',
+      reasoning: 'Not assessed in the evaluation response - scored as failed',
+    }, criterion, scorecard));
+}
+
+/**
+ * True when the result is a failed critical criterion
+ */
+export function isCriticalFailure(result: EvaluationResult): boolean {
+  return !!result.critical && !result.notApplicable && !result.passed;
+}
+
+/**
+ * Score annotated results. Without sections (only General) this is the plain
+ * points ratio. Sections whose criteria were all N/A, or that have no weight,
+ * do not count towards the percentage.
+ */
+export function scoreResults(results: EvaluationResult[], sections: ScorecardSection[]): ScorecardOutcome {
+  const sectionScores = new Map<string, SectionScore>();
+
+  for (const result of results) {
+    const section = sections.find(s => s.id === result.sectionId) ?? GENERAL_SECTION;
+    let entry = sectionScores.get(section.id);
+    if (!entry) {
+      entry = { sectionId: section.id, name: section.name, weight: section.weight, score: 0, maxScore: 0, percentage: 0 };
+      sectionScores.set(section.id, entry);
+    }
+    if (result.notApplicable) continue;
+    entry.score += result.score;
+    entry.maxScore += result.maxScore ?? 0;
+  }
+
+  const scored = Array.from(sectionScores.values());
+  scored.forEach(s => {
+    s.percentage = s.maxScore > 0 ? Math.round((s.score / s.maxScore) * 100) : 0;
+  });
+
+  const totalScore = scored.reduce((sum, s) => sum + s.score, 0);
+  const maxScore = scored.reduce((sum, s) => sum + s.maxScore, 0);
+
+  const weighted = scored.filter(s => s.maxScore > 0 && s.weight > 0);
+  const totalWeight = weighted.reduce((sum, s) => sum + s.weight, 0);
+  let percentage = totalWeight > 0
+    ? Math.round((weighted.reduce((sum, s) => sum + s.weight * (s.score / s.maxScore), 0) / totalWeight) * 100)
+    : maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0;
+
+  const autoFailReasons = results
+    .filter(isCriticalFailure)
+    .map(r => r.criterionName || `Criterion ${r.criterionId}`);
+  const autoFailed = autoFailReasons.length > 0;
+  if (autoFailed) {
+    percentage = 0;
+  }
+
+  return {
+    totalScore: autoFailed ? 0 : totalScore,
+    maxScore,
+    percentage,
+    sectionScores: scored.sort((a, b) => sectionOrder(sections, a.sectionId) - sectionOrder(sections, b.sectionId)),
+    autoFailed,
+    autoFailReasons,
+  };
+}
+
+function sectionOrder(sections: ScorecardSection[], sectionId: string): number {
+  const index = sections.findIndex(s => s.id === sectionId);
+  return index === -1 ? sections.length : index;
+}
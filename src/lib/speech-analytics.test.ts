@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { CallRecord, TranscriptPhrase } from '@/types/call';
+import {
+  computeSpeechMetrics,
+  getSpeechMeasure,
+  getSpeechMeasureValue,
+  mergePeriods,
+  partyForSpeaker,
+} from './speech-analytics';
+
+function phrase(speaker: number, startSeconds: number, endSeconds: number, text = 'word word word'): TranscriptPhrase {
+  return {
+    text,
+    speaker,
+    offsetMilliseconds: startSeconds * 1000,
+    durationMilliseconds: (endSeconds - startSeconds) * 1000,
+  };
+}
+
+describe('speech-analytics', () => {
+  it('maps diarized speakers to parties and merges overlapping periods', () => {
+    expect([partyForSpeaker(0), partyForSpeaker(1), partyForSpeaker(2), partyForSpeaker(undefined)])
+      .toEqual(['agent', 'agent', 'customer', undefined]);
+    expect(mergePeriods([
+      { startMilliseconds: 500, endMilliseconds: 900 },
+      { startMilliseconds: 0, endMilliseconds: 600 },
+      { startMilliseconds: 1000, endMilliseconds: 1200 },
+    ])).toEqual([
+      { startMilliseconds: 0, endMilliseconds: 900 },
+      { startMilliseconds: 1000, endMilliseconds: 1200 },
+    ]);
+  });
+
+  it('returns nothing without timed phrases', () => {
+    expect(computeSpeechMetrics({ transcriptPhrases: [] })).toBeUndefined();
+    expect(computeSpeechMetrics({})).toBeUndefined();
+  });
+
+  it('computes talk time, monologue, dead air, holds and first response', () => {
+    const metrics = computeSpeechMetrics({
+      transcriptDuration: 120000,
+      transcriptPhrases: [
+        phrase(1, 2, 8, 'Thank you for calling how can I help'),
+        phrase(2, 8.5, 12.5, 'My card was charged twice'),
+        phrase(1, 13, 16, 'Let me check that for you'),
+        phrase(1, 22, 24, 'I can see both charges'),      // 6s dead air before
+        phrase(1, 24, 26, 'Please hold'),
+        phrase(1, 46, 50, 'Thanks for holding'),          // 20s hold after the hold request
+        phrase(2, 50.5, 54.5, 'Great thank you'),
+      ],
+    })!;
+
+    expect(metrics.durationMilliseconds).toBe(120000);
+    expect(metrics.agentTalkMilliseconds).toBe(17000);
+    expect(metrics.customerTalkMilliseconds).toBe(8000);
+    expect(metrics.agentTalkRatio).toBeCloseTo(0.68);
+    expect(metrics.timeToFirstResponseMilliseconds).toBe(2000);
+    expect(metrics.deadAir).toEqual([{ startMilliseconds: 16000, endMilliseconds: 22000 }]);
+    expect(metrics.holds).toEqual([{ startMilliseconds: 26000, endMilliseconds: 46000 }]);
+    expect(metrics.silenceMilliseconds).toBe(27500);
+    // The agent keeps the floor across short pauses, but dead air starts a new turn
+    expect(metrics.longestMonologueMilliseconds).toBe(6000);
+    expect(metrics.longestMonologueParty).toBe('agent');
+    expect(metrics.turns.map(t => t.party)).toEqual(['agent', 'customer', 'agent', 'agent', 'agent', 'customer']);
+    expect(metrics.overtalk).toEqual([]);
+    expect(metrics.agentInterruptions + metrics.customerInterruptions).toBe(0);
+  });
+
+  it('counts overtalk and who interrupted whom', () => {
+    const metrics = computeSpeechMetrics({
+      transcriptPhrases: [
+        phrase(1, 0, 10),
+        phrase(2, 7, 12),       // Customer barges in 3s before the agent finishes
+        phrase(1, 11.9, 15),    // Agent starts 100ms early - jitter, not an interruption
+      ],
+    })!;
+
+    expect(metrics.overtalk).toEqual([{ startMilliseconds: 7000, endMilliseconds: 10000 }]);
+    expect(metrics.overtalkMilliseconds).toBe(3000);
+    expect(metrics.customerInterruptions).toBe(1);
+    expect(metrics.agentInterruptions).toBe(0);
+  });
+
+  it('uses word timings for talk time and speaking rate', () => {
+    const words = ['one', 'two', 'three', 'four', 'five', 'six'].map((word, i) => ({
+      word,
+      offsetMilliseconds: i < 3 ? i * 500 : 8000 + (i - 3) * 500,
+      durationMilliseconds: 400,
+    }));
+    const metrics = computeSpeechMetrics({
+      transcriptPhrases: [{ ...phrase(1, 0, 9.4, words.map(w => w.word).join(' ')), words }],
+    })!;
+
+    // Two bursts of 1.4s with a long pause in between that is not talk time
+    expect(metrics.agentTalkMilliseconds).toBe(2800);
+    expect(metrics.deadAir).toHaveLength(1);
+    expect(metrics.agentWordsPerMinute).toBeCloseTo(128.6);
+    expect(metrics.customerWordsPerMinute).toBeUndefined();
+  });
+
+  it('exposes the metrics as analytics measures', () => {
+    const call = {
+      metadata: {},
+      transcriptPhrases: [phrase(1, 1, 4), phrase(2, 4.5, 5.5)],
+    } as unknown as CallRecord;
+
+    expect(getSpeechMeasure('speech.agent_talk_ratio')?.displayName).toBe('Agent Talk Ratio (%)');
+    expect(getSpeechMeasure('agent_talk_ratio')).toBeUndefined();
+    expect(getSpeechMeasureValue(call, 'speech.agent_talk_ratio')).toBe(75);
+    expect(getSpeechMeasureValue(call, 'speech.time_to_first_response_seconds')).toBe(1);
+    expect(getSpeechMeasureValue({ ...call, transcriptPhrases: undefined }, 'speech.agent_talk_ratio')).toBeUndefined();
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Speech Analytics
+ * Deterministic conversational metrics from transcript phrase and word timings:
+ * talk time and ratio, longest monologue, silence, dead air, holds, overtalk,
+ * interruptions, speaking rate and time to first response. The metrics are also
+ * exposed as built-in analytics measures that work with any schema.
+ */
+
+import type { CallRecord, SpeakerTurn, SpeechMetrics, SpeechParty, SpeechPeriod, TranscriptPhrase } from '@/types/call';
+
+/** Words closer together than this belong to the same stretch of speech */
+export const WORD_GAP_MS = 300;
+/** Silences from this long are dead air */
+export const DEAD_AIR_MS = 5000;
+/** Silences from this long are holds, whatever was said before them */
+export const HOLD_MS = 60000;
+/** Overlaps shorter than this are timing jitter, not overtalk */
+export const MIN_OVERTALK_MS = 250;
+
+const HOLD_REQUEST_PATTERN = /\b(hold|one moment|just a moment|bear with me)\b/i;
+
+/**
+ * Party for a diarized speaker: speakers 0 and 1 are the agent, 2+ the customer
+ */
+export function partyForSpeaker(speaker?: number): SpeechParty | undefined {
+  if (speaker === undefined) return undefined;
+  return speaker <= 1 ? 'agent' : 'customer';
+}
+
+/**
+ * Sort periods and merge the ones that overlap or touch
+ */
+export function mergePeriods(periods: SpeechPeriod[]): SpeechPeriod[] {
+  const sorted = [...periods].sort((a, b) => a.startMilliseconds - b.startMilliseconds);
+  const merged: SpeechPeriod[] = [];
+  for (const period of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && period.startMilliseconds <= last.endMilliseconds) {
+      last.endMilliseconds = Math.max(last.endMilliseconds, period.endMilliseconds);
+    } else {
+      merged.push({ ...period });
+    }
+  }
+  return merged;
+}
+
+function totalMilliseconds(periods: SpeechPeriod[]): number {
+  return periods.reduce((sum, p) => sum + (p.endMilliseconds - p.startMilliseconds), 0);
+}
+
+/** Overlap of two merged period lists */
+function intersectPeriods(a: SpeechPeriod[], b: SpeechPeriod[]): SpeechPeriod[] {
+  const result: SpeechPeriod[] = [];
+  for (const first of a) {
+    for (const second of b) {
+      const startMilliseconds = Math.max(first.startMilliseconds, second.startMilliseconds);
+      const endMilliseconds = Math.min(first.endMilliseconds, second.endMilliseconds);
+      if (endMilliseconds > startMilliseconds) result.push({ startMilliseconds, endMilliseconds });
+    }
+  }
+  return mergePeriods(result);
+}
+
+/**
+ * Stretches of actual speech in a phrase: word timings when available, otherwise the whole phrase
+ */
+function speechPeriods(phrase: TranscriptPhrase): SpeechPeriod[] {
+  const words = (phrase.words ?? []).filter(w => w.durationMilliseconds > 0);
+  if (words.length === 0) {
+    return [{
+      startMilliseconds: phrase.offsetMilliseconds,
+      endMilliseconds: phrase.offsetMilliseconds + phrase.durationMilliseconds,
+    }];
+  }
+  const padded = words.map(w => ({
+    startMilliseconds: w.offsetMilliseconds,
+    endMilliseconds: w.offsetMilliseconds + w.durationMilliseconds + WORD_GAP_MS,
+  }));
+  // Bridge short gaps between words, then remove the padding again
+  return mergePeriods(padded).map(p => ({ ...p, endMilliseconds: p.endMilliseconds - WORD_GAP_MS }));
+}
+
+function countWords(phrase: TranscriptPhrase): number {
+  return phrase.words?.length || phrase.text.split(/\s+/).filter(Boolean).length;
+}
+
+function wordsPerMinute(words: number, talkMilliseconds: number): number | undefined {
+  if (talkMilliseconds <= 0) return undefined;
+  return Math.round((words / (talkMilliseconds / 60000)) * 10) / 10;
+}
+
+/** Consecutive speech by one party, split by the other party or by dead air */
+function buildTurns(periods: Array<SpeechPeriod & { party: SpeechParty }>): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  const sorted = [...periods].sort((a, b) => a.startMilliseconds - b.startMilliseconds);
+  for (const period of sorted) {
+    const last = turns[turns.length - 1];
+    if (last && last.party === period.party && period.startMilliseconds - last.endMilliseconds < DEAD_AIR_MS) {
+      last.endMilliseconds = Math.max(last.endMilliseconds, period.endMilliseconds);
+    } else {
+      turns.push({ ...period });
+    }
+  }
+  return turns;
+}
+
+/** Speech bursts of one party that start while the other party is mid-sentence */
+function countInterruptions(speaker: SpeechPeriod[], other: SpeechPeriod[]): number {
+  return speaker.filter(burst => other.some(o =>
+    o.startMilliseconds < burst.startMilliseconds && burst.startMilliseconds <= o.endMilliseconds - MIN_OVERTALK_MS
+  )).length;
+}
+
+/**
+ * Compute the speech metrics of a call, or undefined when it has no timed phrases
+ */
+export function computeSpeechMetrics(
+  call: Pick<CallRecord, 'transcriptPhrases' | 'transcriptDuration'>
+): SpeechMetrics | undefined {
+  const phrases = (call.transcriptPhrases ?? [])
+    .filter(p => p.durationMilliseconds > 0)
+    .sort((a, b) => a.offsetMilliseconds - b.offsetMilliseconds);
+  if (phrases.length === 0) return undefined;
+
+  const partyPeriods: Array<SpeechPeriod & { party: SpeechParty }> = [];
+  const allPeriods: SpeechPeriod[] = [];
+  const words: Record<SpeechParty, number> = { agent: 0, customer: 0 };
+  for (const phrase of phrases) {
+    const periods = speechPeriods(phrase);
+    allPeriods.push(...periods);
+    const party = partyForSpeaker(phrase.speaker);
+    if (party) {
+      partyPeriods.push(...periods.map(p => ({ ...p, party })));
+      words[party] += countWords(phrase);
+    }
+  }
+
+  const agent = mergePeriods(partyPeriods.filter(p => p.party === 'agent'));
+  const customer = mergePeriods(partyPeriods.filter(p => p.party === 'customer'));
+  const talking = mergePeriods(allPeriods);
+  const agentTalkMilliseconds = totalMilliseconds(agent);
+  const customerTalkMilliseconds = totalMilliseconds(customer);
+
+  // Silences between speech; a long one is a hold when it is very long or the agent asked for it
+  const silences = talking.slice(1).map((period, index) => ({
+    startMilliseconds: talking[index].endMilliseconds,
+    endMilliseconds: period.startMilliseconds,
+  }));
+  const deadAir: SpeechPeriod[] = [];
+  const holds: SpeechPeriod[] = [];
+  for (const silence of silences) {
+    const length = silence.endMilliseconds - silence.startMilliseconds;
+    if (length < DEAD_AIR_MS) continue;
+    const before = phrases.filter(p => p.offsetMilliseconds < silence.startMilliseconds).pop();
+    const holdRequested = !!before && partyForSpeaker(before.speaker) === 'agent' && HOLD_REQUEST_PATTERN.test(before.text);
+    (length >= HOLD_MS || holdRequested ? holds : deadAir).push(silence);
+  }
+
+  const overtalk = intersectPeriods(agent, customer)
+    .filter(p => p.endMilliseconds - p.startMilliseconds >= MIN_OVERTALK_MS);
+  const turns = buildTurns(partyPeriods);
+  const longest = turns.reduce<SpeakerTurn | undefined>((max, turn) =>
+    !max || turn.endMilliseconds - turn.startMilliseconds > max.endMilliseconds - max.startMilliseconds ? turn : max,
+    undefined
+  );
+  const attributed = agentTalkMilliseconds + customerTalkMilliseconds;
+
+  return {
+    durationMilliseconds: Math.max(call.transcriptDuration ?? 0, talking[talking.length - 1].endMilliseconds),
+    agentTalkMilliseconds,
+    customerTalkMilliseconds,
+    silenceMilliseconds: totalMilliseconds(silences),
+    agentTalkRatio: attributed > 0 ? Math.round((agentTalkMilliseconds / attributed) * 1000) / 1000 : 0,
+    longestMonologueMilliseconds: longest ? longest.endMilliseconds - longest.startMilliseconds : 0,
+    longestMonologueParty: longest?.party,
+    deadAir,
+    deadAirMilliseconds: totalMilliseconds(deadAir),
+    holds,
+    holdMilliseconds: totalMilliseconds(holds),
+    overtalk,
+    overtalkMilliseconds: totalMilliseconds(overtalk),
+    agentInterruptions: countInterruptions(agent, customer),
+    customerInterruptions: countInterruptions(customer, agent),
+    agentWordsPerMinute: wordsPerMinute(words.agent, agentTalkMilliseconds),
+    customerWordsPerMinute: wordsPerMinute(words.customer, customerTalkMilliseconds),
+    timeToFirstResponseMilliseconds: agent[0]?.startMilliseconds,
+    turns,
+    computedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stored speech metrics of a call, computed on the fly for calls transcribed before they existed
+ */
+export function getCallSpeechMetrics(call: CallRecord): SpeechMetrics | undefined {
+  return call.speechMetrics ?? computeSpeechMetrics(call);
+}
+
+// ============================================================================
+// ANALYTICS MEASURES
+// ============================================================================
+
+export interface SpeechMeasure {
+  id: string;                      // Measure id used as AnalyticsView.measureField
+  displayName: string;
+  description: string;
+  value: (metrics: SpeechMetrics) => number | undefined;
+}
+
+export const SPEECH_MEASURE_PREFIX = 'speech.';
+
+const seconds = (ms: number | undefined) => (ms === undefined ? undefined : Math.round(ms / 100) / 10);
+
+export const SPEECH_MEASURES: SpeechMeasure[] = [
+  { id: 'speech.agent_talk_ratio', displayName: 'Agent Talk Ratio (%)', description: 'Agent share of talk time', value: m => Math.round(m.agentTalkRatio * 1000) / 10 },
+  { id: 'speech.agent_talk_seconds', displayName: 'Agent Talk Time (s)', description: 'Seconds the agent was talking', value: m => seconds(m.agentTalkMilliseconds) },
+  { id: 'speech.customer_talk_seconds', displayName: 'Customer Talk Time (s)', description: 'Seconds the customer was talking', value: m => seconds(m.customerTalkMilliseconds) },
+  { id: 'speech.silence_percent', displayName: 'Silence (%)', description: 'Share of the call where nobody was talking', value: m => m.durationMilliseconds > 0 ? Math.round((m.silenceMilliseconds / m.durationMilliseconds) * 1000) / 10 : undefined },
+  { id: 'speech.longest_monologue_seconds', displayName: 'Longest Monologue (s)', description: 'Longest stretch one party talked without the other', value: m => seconds(m.longestMonologueMilliseconds) },
+  { id: 'speech.dead_air_count', displayName: 'Dead Air Periods', description: `Silences of ${DEAD_AIR_MS / 1000}s or more, excluding holds`, value: m => m.deadAir.length },
+  { id: 'speech.dead_air_seconds', displayName: 'Dead Air (s)', description: 'Total dead air', value: m => seconds(m.deadAirMilliseconds) },
+  { id: 'speech.hold_count', displayName: 'Holds', description: 'Detected hold periods', value: m => m.holds.length },
+  { id: 'speech.hold_seconds', displayName: 'Hold Time (s)', description: 'Total time on hold', value: m => seconds(m.holdMilliseconds) },
+  { id: 'speech.overtalk_count', displayName: 'Overtalk Periods', description: 'Times both parties talked at once', value: m => m.overtalk.length },
+  { id: 'speech.overtalk_seconds', displayName: 'Overtalk (s)', description: 'Total time both parties talked at once', value: m => seconds(m.overtalkMilliseconds) },
+  { id: 'speech.interruption_count', displayName: 'Interruptions', description: 'Interruptions by either party', value: m => m.agentInterruptions + m.customerInterruptions },
+  { id: 'speech.agent_interruptions', displayName: 'Agent Interruptions', description: 'Times the agent interrupted the customer', value: m => m.agentInterruptions },
+  { id: 'speech.agent_words_per_minute', displayName: 'Agent Words per Minute', description: 'Agent speaking rate', value: m => m.agentWordsPerMinute },
+  { id: 'speech.customer_words_per_minute', displayName: 'Customer Words per Minute', description: 'Customer speaking rate', value: m => m.customerWordsPerMinute },
+  { id: 'speech.time_to_first_response_seconds', displayName: 'Time to First Response (s)', description: 'Seconds until the agent first spoke', value: m => seconds(m.timeToFirstResponseMilliseconds) },
+];
+
+/**
+ * Built-in speech measure by id
+ */
+export function getSpeechMeasure(id: string | undefined): SpeechMeasure | undefined {
+  if (!id?.startsWith(SPEECH_MEASURE_PREFIX)) return undefined;
+  return SPEECH_MEASURES.find(m => m.id === id);
+}
+
+/**
+ * Value of a speech measure on a call, or undefined when the call has no timed transcript
+ */
+export function getSpeechMeasureValue(call: CallRecord, id: string): number | undefined {
+  const measure = getSpeechMeasure(id);
+  const metrics = measure ? getCallSpeechMetrics(call) : undefined;
+  return metrics ? measure!.value(metrics) : undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  correlationPValue,
+  meanConfidenceInterval,
+  shrinkTowardsMean,
+  tCriticalValue,
+  tTestPValue,
+  welchTTest,
+  wilsonInterval,
+} from './statistics';
+
+describe('t distribution', () => {
+  it('matches table values', () => {
+    expect(tTestPValue(2, 10)).toBeCloseTo(0.0734, 4);
+    expect(tTestPValue(0, 5)).toBeCloseTo(1, 10);
+    expect(tCriticalValue(9)).toBeCloseTo(2.262, 3);
+    expect(tCriticalValue(1000)).toBeCloseTo(1.962, 3);
+  });
+});
+
+describe('confidence intervals', () => {
+  it('computes a t interval around the mean', () => {
+    const interval = meanConfidenceInterval([70, 80, 90])!;
+    // mean 80, sd 10, t(2) = 4.303
+    expect(interval.lower).toBeCloseTo(80 - 4.303 * 10 / Math.sqrt(3), 1);
+    expect(interval.upper).toBeCloseTo(80 + 4.303 * 10 / Math.sqrt(3), 1);
+    expect(meanConfidenceInterval([90])).toBeNull();
+  });
+
+  it('computes a Wilson interval that never leaves 0-1', () => {
+    const interval = wilsonInterval(8, 10)!;
+    expect(interval.lower).toBeCloseTo(0.4902, 3);
+    expect(interval.upper).toBeCloseTo(0.9433, 3);
+    expect(interval.center).toBeCloseTo(0.7168, 3);
+
+    const perfect = wilsonInterval(2, 2)!;
+    expect(perfect.upper).toBe(1);
+    expect(perfect.center).toBeLessThan(wilsonInterval(80, 80)!.center);
+    expect(wilsonInterval(0, 0)).toBeNull();
+  });
+});
+
+describe('shrinkTowardsMean', () => {
+  it('pulls small samples further towards the prior', () => {
+    expect(shrinkTowardsMean(100, 2, 70, 5)).toBeCloseTo(78.57, 2);
+    expect(shrinkTowardsMean(90, 80, 70, 5)).toBeCloseTo(88.82, 2);
+    expect(shrinkTowardsMean(90, 5, 70, 5)).toBe(80);
+  });
+});
+
+describe('significance tests', () => {
+  it('runs Welch\'s t-test', () => {
+    const test = welchTTest([90, 92, 94, 96], [60, 62, 64, 66])!;
+    expect(test.t).toBeCloseTo(30 / Math.sqrt(10 / 3), 3);
+    expect(test.pValue).toBeLessThan(0.001);
+
+    expect(welchTTest([80, 90], [85, 85, 86])!.pValue).toBeGreaterThan(0.5);
+    expect(welchTTest([100], [50, 60])).toBeNull();
+    expect(welchTTest([80, 80], [80, 80])!.pValue).toBe(1);
+  });
+
+  it('tests a correlation coefficient', () => {
+    expect(correlationPValue(0.5, 10)).toBeCloseTo(0.141, 3);
+    expect(correlationPValue(1, 10)).toBe(0);
+    expect(correlationPValue(0.9, 2)).toBeUndefined();
+  });
+});
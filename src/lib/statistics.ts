@@ -0,0 +1,178 @@
+/**
+ * Statistics
+ * Small-sample helpers for agent comparisons: confidence intervals, shrinkage of
+ * averages towards the team mean, and two-sided significance tests.
+ */
+
+import { ConfidenceInterval } from '@/types/call';
+
+/** Significance level used for trend and ranking tests */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** z value of a two-sided 95% interval */
+const Z_95 = 1.959964;
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(z: number): number {
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+  const x = z - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (x + i);
+  }
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (Lentz's method)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-300;
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-14) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Two-sided p-value of a Student t statistic
+ */
+export function tTestPValue(t: number, df: number): number {
+  if (!isFinite(t)) return 0;
+  if (df <= 0) return 1;
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Critical t value of a two-sided interval (e.g. 2.262 for df = 9 at 95%)
+ */
+export function tCriticalValue(df: number, confidence = 0.95): number {
+  const alpha = 1 - confidence;
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (tTestPValue(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function sampleVariance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * t interval for the mean of the values; null with fewer than 2 values
+ */
+export function meanConfidenceInterval(values: number[], confidence = 0.95): ConfidenceInterval | null {
+  if (values.length < 2) return null;
+  const margin = tCriticalValue(values.length - 1, confidence) * Math.sqrt(sampleVariance(values) / values.length);
+  const m = mean(values);
+  return { lower: m - margin, upper: m + margin };
+}
+
+/**
+ * Wilson score interval of a proportion (0-1). `center` is the interval midpoint -
+ * the observed rate pulled towards 50% by an amount that shrinks as n grows.
+ */
+export function wilsonInterval(successes: number, n: number, z = Z_95): (ConfidenceInterval & { center: number }) | null {
+  if (n <= 0) return null;
+  const p = successes / n;
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin), center };
+}
+
+/**
+ * Bayesian shrinkage of a sample mean towards a prior mean. `priorStrength` is the
+ * number of pseudo-observations the prior is worth: with n = priorStrength the
+ * result sits halfway between the two.
+ */
+export function shrinkTowardsMean(sampleMean: number, n: number, priorMean: number, priorStrength: number): number {
+  if (n + priorStrength <= 0) return priorMean;
+  return (n * sampleMean + priorStrength * priorMean) / (n + priorStrength);
+}
+
+/**
+ * Welch's two-sample t-test (unequal variances); null unless both samples have 2+ values
+ */
+export function welchTTest(a: number[], b: number[]): { t: number; df: number; pValue: number } | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const va = sampleVariance(a) / a.length;
+  const vb = sampleVariance(b) / b.length;
+  const diff = mean(a) - mean(b);
+  const se2 = va + vb;
+
+  if (se2 === 0) {
+    // No spread in either sample - any difference is certain
+    const df = a.length + b.length - 2;
+    return diff === 0 ? { t: 0, df, pValue: 1 } : { t: Math.sign(diff) * Infinity, df, pValue: 0 };
+  }
+
+  const t = diff / Math.sqrt(se2);
+  const df = (se2 * se2) / ((va * va) / (a.length - 1) + (vb * vb) / (b.length - 1));
+  return { t, df, pValue: tTestPValue(t, df) };
+}
+
+/**
+ * Two-sided p-value of a Pearson correlation coefficient over n pairs
+ */
+export function correlationPValue(coefficient: number, n: number): number | undefined {
+  if (n < 3) return undefined;
+  if (Math.abs(coefficient) >= 1) return 0;
+  const t = coefficient * Math.sqrt((n - 2) / (1 - coefficient * coefficient));
+  return tTestPValue(t, n - 2);
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ServerStorageAdapter, SERVER_ACCESS_KEY, STORAGE_SYNC_EVENT } from './storage-adapter';
+
+interface TestCall {
+  id: string;
+  status: string;
+  updatedAt: string;
+}
+
+function call(id: string, status: string, updatedAt: string): TestCall {
+  return { id, status, updatedAt };
+}
+
+/**
+ * In-memory stand-in for the calls and usage routes of server/persistence.js
+ */
+function fakeServer(initial: TestCall[], usage: Record<string, Array<{ id: string }>> = {}) {
+  const server = { calls: [...initial], usage, requests: [] as string[] };
+  const respond = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers });
+
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    server.requests.push(`${method} ${url}`);
+    const version = JSON.stringify(server.calls);
+    const id = decodeURIComponent(url.replace('/api/calls/', ''));
+
+    if (url === '/api/calls' && method === 'GET') return respond(server.calls, 200, { 'X-Collection-Version': version });
+    if (url === '/api/calls' && method === 'PUT') {
+      if ((init.headers as Record<string, string>)['If-Match'] !== version) return respond({ error: 'stale' }, 409);
+      server.calls = JSON.parse(init.body as string);
+      return respond({ success: true });
+    }
+    if (url.startsWith('/api/calls/') && method === 'PUT') {
+      const body: TestCall = JSON.parse(init.body as string);
+      const current = server.calls.find(c => c.id === id);
+      if (current && body.updatedAt < current.updatedAt) return respond({ error: 'stale', current }, 409);
+      server.calls = current ? server.calls.map(c => (c.id === id ? body : c)) : [...server.calls, body];
+      return respond(body);
+    }
+    if (url.startsWith('/api/usage/')) {
+      const month = url.replace('/api/usage/', '');
+      if (method === 'POST') {
+        const known = new Set((server.usage[month] ?? []).map(r => r.id));
+        server.usage[month] = [...(server.usage[month] ?? []), ...JSON.parse(init.body as string).filter((r: { id: string }) => !known.has(r.id))];
+        return respond({ success: true });
+      }
+      return server.usage[month] ? respond(server.usage[month]) : respond({ error: 'not found' }, 404);
+    }
+    if (url.startsWith('/api/calls/') && method === 'DELETE') {
+      server.calls = server.calls.filter(c => c.id !== id);
+      return respond({ success: true });
+    }
+    return respond({ error: 'not found' }, 404);
+  }));
+  return server;
+}
+
+function cachedCalls(adapter: ServerStorageAdapter): TestCall[] {
+  return JSON.parse(adapter.getItem('calls') || '[]');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ServerStorageAdapter calls', () => {
+  it('saves changed and removed calls one at a time and keeps calls other users added', async () => {
+    const server = fakeServer([call('a', 'uploaded', '2026-01-01'), call('b', 'uploaded', '2026-01-01')]);
+    const adapter = new ServerStorageAdapter();
+    await adapter.hydrate();
+
+    // Another analyst adds a call after this browser loaded the list
+    server.calls.push(call('c', 'uploaded', '2026-01-02'));
+    const synced = vi.fn();
+    window.addEventListener(STORAGE_SYNC_EVENT, synced);
+    adapter.setItem('calls', JSON.stringify([call('a', 'evaluated', '2026-01-03')]));
+
+    await vi.waitFor(() => expect(synced).toHaveBeenCalled());
+    window.removeEventListener(STORAGE_SYNC_EVENT, synced);
+
+    expect(server.requests).toContain('PUT /api/calls/a');
+    expect(server.requests).toContain('DELETE /api/calls/b');
+    expect(server.requests).not.toContain('PUT /api/calls');
+    expect(server.calls).toEqual([call('a', 'evaluated', '2026-01-03'), call('c', 'uploaded', '2026-01-02')]);
+    expect(cachedCalls(adapter).map(c => c.id)).toEqual(['a', 'c']);
+  });
+
+  it('takes the server copy of a call another user saved more recently', async () => {
+    const server = fakeServer([call('a', 'uploaded', '2026-01-01')]);
+    const adapter = new ServerStorageAdapter();
+    await adapter.hydrate();
+
+    server.calls = [call('a', 'evaluated', '2026-01-05')];
+    adapter.setItem('calls', JSON.stringify([call('a', 'transcribed', '2026-01-02')]));
+
+    await vi.waitFor(() => expect(cachedCalls(adapter)[0].status).toBe('evaluated'));
+    expect(server.calls).toEqual([call('a', 'evaluated', '2026-01-05')]);
+  });
+
+  it('refreshes calls the server added without saving anything back', async () => {
+    const server = fakeServer([call('a', 'uploaded', '2026-01-01')]);
+    const adapter = new ServerStorageAdapter();
+    await adapter.hydrate();
+
+    // Folder ingestion writes straight to the server's calls collection
+    server.calls.push(call('ingest_1', 'uploaded', '2026-01-02'));
+    await adapter.refreshCalls();
+
+    expect(cachedCalls(adapter).map(c => c.id)).toEqual(['a', 'ingest_1']);
+    expect(server.requests.filter(r => !r.startsWith('GET'))).toEqual([]);
+  });
+
+  it('seeds an empty server with browser calls in one versioned write', async () => {
+    window.localStorage.setItem('calls', JSON.stringify([call('a', 'uploaded', '2026-01-01')]));
+    const server = fakeServer([]);
+    await new ServerStorageAdapter().hydrate();
+
+    await vi.waitFor(() => expect(server.calls).toHaveLength(1));
+    expect(server.requests.filter(r => r.startsWith('PUT'))).toEqual(['PUT /api/calls']);
+  });
+});
+
+describe('ServerStorageAdapter AI usage', () => {
+  const month = `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
+  const key = `ai-usage-${month}`;
+
+  it('appends new records without dropping usage other users recorded', async () => {
+    const server = fakeServer([], { [month]: [{ id: 'theirs' }] });
+    const adapter = new ServerStorageAdapter();
+    await adapter.hydrate();
+
+    // Another user records usage after this browser loaded the month
+    server.usage[month].push({ id: 'later' });
+    adapter.setItem(key, JSON.stringify([{ id: 'theirs' }, { id: 'mine' }]));
+
+    await vi.waitFor(() => expect(server.requests).toContain(`POST /api/usage/${month}`));
+    expect(server.usage[month].map(r => r.id)).toEqual(['theirs', 'later', 'mine']);
+
+    await adapter.refreshUsage();
+    expect(JSON.parse(adapter.getItem(key)!).map((r: { id: string }) => r.id)).toEqual(['theirs', 'later', 'mine']);
+  });
+});
+
+describe('ServerStorageAdapter sign-in', () => {
+  it('loads nothing but the access answer while access control waits for a sign-in', async () => {
+    const requests: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      requests.push(url);
+      return url === '/api/access'
+        ? new Response(JSON.stringify({ enabled: true, user: null, role: 'read-only', source: 'anonymous' }))
+        : new Response(JSON.stringify({ error: 'Sign in' }), { status: 401 });
+    }));
+    const adapter = new ServerStorageAdapter();
+    await adapter.hydrate();
+    await adapter.refreshCalls();
+
+    expect(requests).toEqual(['/api/access']);
+    expect(JSON.parse(adapter.getItem(SERVER_ACCESS_KEY)!)).toMatchObject({ enabled: true, source: 'anonymous' });
+    expect(adapter.getItem('calls')).toBeNull();
+  });
+});
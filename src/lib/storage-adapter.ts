@@ -0,0 +1,511 @@
+/**
+ * Storage Adapter
+ * Abstracts where app data lives so the same code can persist to the browser
+ * (localStorage) or to the shared server store (/api/calls, /api/schemas, ...).
+ *
+ * Reads stay synchronous: the server adapter hydrates an in-memory cache before
+ * the app renders, then writes through to the REST API in the background.
+ * Calls are shared by every analyst, so they are saved one call at a time and
+ * merged with what other users saved in the meantime.
+ */
+
+import { setAudioStorageAdapter, ServerAudioStorageAdapter } from './audio-storage';
+
+export type StorageBackend = 'browser' | 'server';
+
+/**
+ * Window event announcing a new value for a key ({ key, value }), so components
+ * reading the key (useLocalStorage) pick it up
+ */
+export const STORAGE_SYNC_EVENT = 'localStorage-sync';
+
+/**
+ * Synchronous key/value storage with the same shape as window.localStorage
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Browser storage - the original per-user localStorage behaviour
+ */
+export class BrowserStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'browser';
+
+  getItem(key: string): string | null {
+    return window.localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    window.localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    window.localStorage.removeItem(key);
+  }
+}
+
+const CALLS_KEY = 'calls';
+const SCHEMAS_KEY = 'call-schemas';
+const RULES_KEY_PREFIX = 'evaluation-criteria-';
+const RULE_SETS_KEY_PREFIX = 'evaluation-rule-sets-';
+const COACHING_KEY_PREFIX = 'coaching-plans-';
+const PROMPT_VERSIONS_KEY_PREFIX = 'prompt-versions-';
+const GOLDEN_SET_KEY_PREFIX = 'golden-calls-';
+const COMPARISONS_KEY_PREFIX = 'prompt-comparisons-';
+const REPORT_TEMPLATES_KEY_PREFIX = 'report-templates-';
+const WEBHOOKS_KEY_PREFIX = 'webhooks-';
+const ACCESS_CONTROL_KEY = 'access-control';
+export const SERVER_ACCESS_KEY = 'server-access';   // Caller's role as resolved by the server (read-only)
+const USAGE_KEY_PREFIX = 'ai-usage-';
+const PRICE_TABLE_KEY = 'ai-price-table';
+const USAGE_MONTHS_HYDRATED = 6;   // Months offered by the cost dashboard
+const WRITE_DEBOUNCE_MS = 300;
+const REFRESH_INTERVAL_MS = 60 * 1000;   // Picks up calls and AI usage other users and folder ingestion added
+
+/**
+ * Map a storage key to its REST resource, or null for keys that stay in the browser
+ * (UI preferences such as the active schema, wizard drafts, personalization).
+ */
+function getResourceUrl(key: string): string | null {
+  if (key === CALLS_KEY) return '/api/calls';
+  if (key === SCHEMAS_KEY) return '/api/schemas';
+  if (key === ACCESS_CONTROL_KEY) return '/api/access-control';
+  if (key === PRICE_TABLE_KEY) return '/api/price-table';
+  if (key.startsWith(USAGE_KEY_PREFIX)) {
+    const month = key.slice(USAGE_KEY_PREFIX.length);
+    return `/api/usage/${encodeURIComponent(month)}`;
+  }
+  if (key.startsWith(RULES_KEY_PREFIX)) {
+    const schemaId = key.slice(RULES_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/rules`;
+  }
+  if (key.startsWith(RULE_SETS_KEY_PREFIX)) {
+    const schemaId = key.slice(RULE_SETS_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/rule-sets`;
+  }
+  if (key.startsWith(COACHING_KEY_PREFIX)) {
+    const schemaId = key.slice(COACHING_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/coaching-plans`;
+  }
+  if (key.startsWith(PROMPT_VERSIONS_KEY_PREFIX)) {
+    const schemaId = key.slice(PROMPT_VERSIONS_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/prompt-versions`;
+  }
+  if (key.startsWith(GOLDEN_SET_KEY_PREFIX)) {
+    const schemaId = key.slice(GOLDEN_SET_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/golden-calls`;
+  }
+  if (key.startsWith(COMPARISONS_KEY_PREFIX)) {
+    const schemaId = key.slice(COMPARISONS_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/prompt-comparisons`;
+  }
+  if (key.startsWith(REPORT_TEMPLATES_KEY_PREFIX)) {
+    const schemaId = key.slice(REPORT_TEMPLATES_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/report-templates`;
+  }
+  if (key.startsWith(WEBHOOKS_KEY_PREFIX)) {
+    const schemaId = key.slice(WEBHOOKS_KEY_PREFIX.length);
+    return `/api/schemas/${encodeURIComponent(schemaId)}/webhooks`;
+  }
+  return null;
+}
+
+interface StoredCall {
+  id: string;
+}
+
+type StoredUsageRecord = StoredCall;
+
+/**
+ * Usage storage keys of the current month and the months before it (YYYY-MM, local
+ * time, as in usage-tracker)
+ */
+function getRecentUsageKeys(count: number, now: Date = new Date()): string[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    return `${USAGE_KEY_PREFIX}${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+/**
+ * Server storage - shared calls, schemas and rules persisted by the backend
+ */
+export class ServerStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'server';
+  private cache = new Map<string, string>();
+  private pendingWrites = new Map<string, ReturnType<typeof setTimeout>>();
+  private syncedCalls = new Map<string, string>();   // Call ID -> JSON as last read from or saved to the server
+  private callsSync: Promise<void> = Promise.resolve();
+  private pendingUsage = new Map<string, StoredUsageRecord[]>();   // Usage key -> records not sent yet
+  private signedOut = false;   // Access control is enabled and nobody is signed in: nothing to load
+
+  constructor(private readonly baseUrl = '') {}
+
+  /**
+   * Load shared data from the server into the cache.
+   * If the server store is still empty, existing browser data is uploaded once so
+   * switching backends does not lose previously imported calls or schemas.
+   */
+  async hydrate(): Promise<void> {
+    // With access control enabled the server answers nothing but this until the user signs in
+    const access = await this.fetchJson(`/api/access`) as { enabled?: boolean; user?: unknown } | null | undefined;
+    if (access) {
+      this.cache.set(SERVER_ACCESS_KEY, JSON.stringify(access));
+    }
+    if (access === undefined || (access?.enabled && !access.user)) {
+      this.signedOut = true;
+      console.log('🗄️ Sign in to load shared data from the server');
+      return;
+    }
+
+    const [{ calls }, schemas, accessControl, priceTable] = await Promise.all([
+      this.fetchCalls(),
+      this.fetchJson(`/api/schemas`),
+      this.fetchJson(`/api/access-control`),
+      this.fetchJson(`/api/price-table`),
+    ]);
+
+    this.syncedCalls = new Map(calls.map(call => [call.id, JSON.stringify(call)]));
+    this.hydrateCollection(CALLS_KEY, calls);
+    this.hydrateCollection(SCHEMAS_KEY, schemas);
+    if (accessControl) {
+      this.cache.set(ACCESS_CONTROL_KEY, JSON.stringify(accessControl));
+    }
+    if (priceTable) {
+      this.cache.set(PRICE_TABLE_KEY, JSON.stringify(priceTable));
+    } else if (priceTable === null) {
+      const local = window.localStorage.getItem(PRICE_TABLE_KEY);
+      if (local) this.setItem(PRICE_TABLE_KEY, local);
+    }
+    await Promise.all(getRecentUsageKeys(USAGE_MONTHS_HYDRATED).map(key => this.hydrateUsage(key)));
+
+    const schemaList: Array<{ id: string }> = JSON.parse(this.cache.get(SCHEMAS_KEY) || '[]');
+    await Promise.all(
+      schemaList.flatMap(schema => [
+        RULES_KEY_PREFIX,
+        RULE_SETS_KEY_PREFIX,
+        COACHING_KEY_PREFIX,
+        PROMPT_VERSIONS_KEY_PREFIX,
+        GOLDEN_SET_KEY_PREFIX,
+        COMPARISONS_KEY_PREFIX,
+        REPORT_TEMPLATES_KEY_PREFIX,
+        WEBHOOKS_KEY_PREFIX,
+      ].map(async prefix => {
+        const key = `${prefix}${schema.id}`;
+        const data = await this.fetchJson(getResourceUrl(key)!);
+        if (Array.isArray(data)) {
+          this.cache.set(key, JSON.stringify(data));
+        } else if (data === null) {
+          const local = window.localStorage.getItem(key);
+          if (local) this.setItem(key, local);
+        }
+      }))
+    );
+
+    console.log(`🗄️ Server storage hydrated: ${calls.length} calls, ${schemaList.length} schemas`);
+  }
+
+  getItem(key: string): string | null {
+    if (key === SERVER_ACCESS_KEY) {
+      return this.cache.get(key) ?? null;
+    }
+    if (!getResourceUrl(key)) {
+      return window.localStorage.getItem(key);
+    }
+    return this.cache.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    const url = getResourceUrl(key);
+    if (!url) {
+      window.localStorage.setItem(key, value);
+      return;
+    }
+    if (key === CALLS_KEY) {
+      if (this.cache.get(key) === value) return;
+      this.cache.set(key, value);
+      this.scheduleWrite(key, () => this.queueCallsSync());
+      return;
+    }
+    if (key.startsWith(USAGE_KEY_PREFIX)) {
+      this.appendUsage(key, url, JSON.parse(value));
+      return;
+    }
+    this.cache.set(key, value);
+    this.scheduleWrite(key, () => this.send('PUT', url, value));
+  }
+
+  removeItem(key: string): void {
+    const url = getResourceUrl(key);
+    if (!url) {
+      window.localStorage.removeItem(key);
+      return;
+    }
+    if (key === CALLS_KEY) {
+      this.setItem(key, '[]');
+      return;
+    }
+    if (key.startsWith(USAGE_KEY_PREFIX)) {
+      return;   // Usage is append-only on the server
+    }
+    this.cache.delete(key);
+    // Collections are cleared by writing an empty array; rules have a DELETE endpoint
+    this.scheduleWrite(key, () =>
+      key.startsWith(RULES_KEY_PREFIX) ? this.send('DELETE', url) : this.send('PUT', url, '[]')
+    );
+  }
+
+  private hydrateCollection(key: string, remote: unknown): void {
+    if (Array.isArray(remote) && remote.length > 0) {
+      this.cache.set(key, JSON.stringify(remote));
+      return;
+    }
+    const local = window.localStorage.getItem(key);
+    if (local) {
+      console.log(`🗄️ Seeding server store with browser data for "${key}"`);
+      this.setItem(key, local);
+    }
+  }
+
+  /**
+   * Usage records of a month; browser records seed a month the server has none for
+   */
+  private async hydrateUsage(key: string): Promise<void> {
+    const records = await this.fetchJson(getResourceUrl(key)!);
+    if (Array.isArray(records)) {
+      this.cache.set(key, JSON.stringify(records));
+    } else if (records === null) {
+      const local = window.localStorage.getItem(key);
+      if (local) this.setItem(key, local);
+    }
+  }
+
+  /**
+   * Usage is append-only: records not cached yet are added to the cache and POSTed,
+   * so concurrent users never overwrite each other's usage. Records the caller dropped
+   * (e.g. trimmed to a maximum) stay.
+   */
+  private appendUsage(key: string, url: string, records: StoredUsageRecord[]): void {
+    const cached: StoredUsageRecord[] = JSON.parse(this.cache.get(key) || '[]');
+    const known = new Set(cached.map(record => record.id));
+    const added = records.filter(record => !known.has(record.id));
+    if (added.length === 0) return;
+
+    this.cache.set(key, JSON.stringify([...cached, ...added]));
+    this.pendingUsage.set(key, [...(this.pendingUsage.get(key) ?? []), ...added]);
+    this.scheduleWrite(key, async () => {
+      const pending = this.pendingUsage.get(key) ?? [];
+      this.pendingUsage.delete(key);
+      try {
+        await this.send('POST', url, JSON.stringify(pending));
+      } catch (error) {
+        // Sent again with the next record
+        this.pendingUsage.set(key, [...pending, ...(this.pendingUsage.get(key) ?? [])]);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Merge in the current and last month's usage recorded by other users, so budget
+   * checks see the whole team's spend
+   */
+  async refreshUsage(): Promise<void> {
+    if (this.signedOut) return;
+    await Promise.all(getRecentUsageKeys(2).map(async key => {
+      const remote = await this.fetchJson(getResourceUrl(key)!);
+      if (!Array.isArray(remote)) return;
+      const cached: StoredUsageRecord[] = JSON.parse(this.cache.get(key) || '[]');
+      const remoteIds = new Set(remote.map((record: StoredUsageRecord) => record.id));
+      this.cache.set(key, JSON.stringify([...remote, ...cached.filter(record => !remoteIds.has(record.id))]));
+    }));
+  }
+
+  /**
+   * Merge in calls other users and the server's folder ingestion saved since the last sync
+   */
+  refreshCalls(): Promise<void> {
+    if (this.signedOut) return Promise.resolve();
+    return this.queueCallsSync();
+  }
+
+  /**
+   * Run call syncs one after another, so a slow save never overlaps the next one
+   */
+  private queueCallsSync(): Promise<void> {
+    this.callsSync = this.callsSync.catch(() => undefined).then(() => this.syncCalls());
+    return this.callsSync;
+  }
+
+  /**
+   * Merge the cached calls with the server's and save what changed here.
+   * Calls changed locally since the last sync are PUT one by one and locally removed
+   * calls are DELETEd; calls other users added, changed or deleted are taken from the
+   * server. A call someone saved more recently (409) is replaced by their version.
+   * An empty server store is seeded with one versioned PUT of the whole list.
+   */
+  private async syncCalls(): Promise<void> {
+    const { calls: remote, version } = await this.fetchCalls();
+    const snapshot = this.cache.get(CALLS_KEY) || '[]';
+    const local: StoredCall[] = JSON.parse(snapshot);
+    const remoteById = new Map(remote.map(call => [call.id, call]));
+    const localIds = new Set(local.map(call => call.id));
+
+    if (remote.length === 0 && this.syncedCalls.size === 0) {
+      if (local.length === 0) return;
+      await this.send('PUT', '/api/calls', snapshot, { 'If-Match': version });
+      this.syncedCalls = new Map(local.map(call => [call.id, JSON.stringify(call)]));
+      return;
+    }
+
+    const merged: StoredCall[] = [];
+    const changed: StoredCall[] = [];
+    for (const call of local) {
+      const json = JSON.stringify(call);
+      if (this.syncedCalls.get(call.id) === json) {
+        // Unchanged here: take the server's copy, or drop it when another user deleted it
+        const current = remoteById.get(call.id);
+        if (current) merged.push(current);
+      } else {
+        merged.push(call);
+        changed.push(call);
+      }
+    }
+    merged.push(...remote.filter(call => !localIds.has(call.id) && !this.syncedCalls.has(call.id)));
+
+    for (const call of changed) {
+      const response = await this.request('PUT', `/api/calls/${encodeURIComponent(call.id)}`, JSON.stringify(call));
+      if (response.status === 409) {
+        const { current } = await response.json();
+        merged[merged.indexOf(call)] = current;
+        this.syncedCalls.set(call.id, JSON.stringify(current));
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`PUT /api/calls/${call.id} failed: ${response.status} ${response.statusText}`);
+      }
+      this.syncedCalls.set(call.id, JSON.stringify(call));
+    }
+
+    for (const id of [...this.syncedCalls.keys()].filter(id => !localIds.has(id))) {
+      if (remoteById.has(id)) {
+        await this.send('DELETE', `/api/calls/${encodeURIComponent(id)}`);
+      }
+      this.syncedCalls.delete(id);
+    }
+    for (const call of merged) {
+      this.syncedCalls.set(call.id, JSON.stringify(call));
+    }
+
+    // Newer local edits are merged by the sync they scheduled
+    const next = JSON.stringify(merged);
+    if (this.cache.get(CALLS_KEY) !== snapshot || next === snapshot) return;
+    this.cache.set(CALLS_KEY, next);
+    window.dispatchEvent(new CustomEvent(STORAGE_SYNC_EVENT, { detail: { key: CALLS_KEY, value: merged } }));
+  }
+
+  /**
+   * Coalesce rapid successive writes (e.g. every keystroke-driven state update) into one request
+   */
+  private scheduleWrite(key: string, write: () => Promise<void>): void {
+    const pending = this.pendingWrites.get(key);
+    if (pending) clearTimeout(pending);
+    this.pendingWrites.set(
+      key,
+      setTimeout(() => {
+        this.pendingWrites.delete(key);
+        write().catch(error => console.error(`❌ Failed to persist "${key}" to server:`, error));
+      }, WRITE_DEBOUNCE_MS)
+    );
+  }
+
+  /**
+   * JSON of a resource; null when it does not exist yet, undefined when the caller is
+   * not signed in or their role may not read it
+   */
+  private async fetchJson(path: string): Promise<unknown> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (response.status === 404) return null;
+    if (response.status === 401 || response.status === 403) return undefined;
+    if (!response.ok) {
+      throw new Error(`GET ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * All calls with the collection version that a full replace must send back in If-Match
+   */
+  private async fetchCalls(): Promise<{ calls: StoredCall[]; version: string }> {
+    const response = await fetch(`${this.baseUrl}/api/calls`);
+    if (!response.ok) {
+      throw new Error(`GET /api/calls failed: ${response.status} ${response.statusText}`);
+    }
+    const calls = await response.json();
+    return { calls: Array.isArray(calls) ? calls : [], version: response.headers.get('X-Collection-Version') ?? '' };
+  }
+
+  private request(method: 'PUT' | 'POST' | 'DELETE', path: string, body?: string, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json', ...headers } : headers,
+      body,
+    });
+  }
+
+  private async send(method: 'PUT' | 'POST' | 'DELETE', path: string, body?: string, headers?: Record<string, string>): Promise<void> {
+    const response = await this.request(method, path, body, headers);
+    if (!response.ok) {
+      throw new Error(`${method} ${path} failed: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+let activeAdapter: StorageAdapter = new BrowserStorageAdapter();
+
+/**
+ * Get the active storage adapter
+ */
+export function getStorageAdapter(): StorageAdapter {
+  return activeAdapter;
+}
+
+/**
+ * Replace the active storage adapter
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+}
+
+/**
+ * Select the storage backend advertised by the server (/api/config → storage.backend)
+ * and hydrate it. Falls back to browser storage when no backend server is reachable.
+ * Must complete before the app renders so synchronous reads see shared data.
+ */
+export async function initializeStorage(): Promise<StorageBackend> {
+  try {
+    const response = await fetch('/api/config');
+    if (!response.ok) return 'browser';
+    const config = await response.json();
+    if (config?.storage?.backend !== 'server') return 'browser';
+
+    const adapter = new ServerStorageAdapter();
+    await adapter.hydrate();
+    setStorageAdapter(adapter);
+    setAudioStorageAdapter(new ServerAudioStorageAdapter());
+    setInterval(() => {
+      adapter.refreshCalls().catch(error => console.error('❌ Failed to refresh calls from server:', error));
+      adapter.refreshUsage().catch(error => console.error('❌ Failed to refresh AI usage from server:', error));
+    }, REFRESH_INTERVAL_MS);
+    console.log('🗄️ Using server storage backend');
+    return 'server';
+  } catch (error) {
+    console.warn('Server storage unavailable, using browser storage:', error);
+    setStorageAdapter(new BrowserStorageAdapter());
+    return 'browser';
+  }
+}
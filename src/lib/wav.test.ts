@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWav, floatToPcm16, parseWav, pcmDurationMs, readBlobAsArrayBuffer, splitPcm } from './wav';
+
+const format = { sampleRate: 8000, channels: 1, bitsPerSample: 16 };
+
+function tone(seconds: number): Uint8Array {
+  const data = new Uint8Array(format.sampleRate * seconds * 2);
+  data.forEach((_, i) => (data[i] = i % 251));
+  return data;
+}
+
+describe('wav', () => {
+  it('round-trips PCM through a WAV container', async () => {
+    const data = tone(1);
+    const blob = encodeWav(data, format);
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + data.byteLength);
+
+    const parsed = parseWav(await readBlobAsArrayBuffer(blob))!;
+    expect(parsed).toMatchObject(format);
+    expect(Array.from(parsed.data)).toEqual(Array.from(data));
+  });
+
+  it('rejects files that are not PCM WAV', () => {
+    expect(parseWav(new TextEncoder().encode('ID3 not a wav file').buffer)).toBeNull();
+  });
+
+  it('splits PCM into segments with stream offsets', async () => {
+    const audio = { ...format, data: tone(2.5) };
+    const segments = splitPcm(audio, 1000, 5000);
+
+    expect(segments.map(s => [s.offsetMilliseconds, s.durationMilliseconds])).toEqual([[5000, 1000], [6000, 1000], [7000, 500]]);
+    const last = parseWav(await readBlobAsArrayBuffer(segments[2].audio))!;
+    expect(pcmDurationMs(last.data.byteLength, last)).toBe(500);
+  });
+
+  it('converts float samples to 16-bit PCM', () => {
+    const pcm = floatToPcm16([new Float32Array([0, 1, -1, 2])], 16000);
+    const view = new DataView(pcm.data.buffer);
+    expect([0, 2, 4, 6].map(o => view.getInt16(o, true))).toEqual([0, 32767, -32768, 32767]);
+  });
+});
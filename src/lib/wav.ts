@@ -0,0 +1,144 @@
+/**
+ * WAV helpers
+ * Minimal PCM WAV reading and writing, used to cut audio into segments that the
+ * Speech fast transcription API can accept one at a time.
+ */
+
+import { AudioSegment } from '@/types/call';
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface PcmAudio extends PcmFormat {
+  data: Uint8Array;                // Interleaved PCM samples
+}
+
+const WAV_HEADER_BYTES = 44;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+}
+
+function writeTag(view: DataView, offset: number, tag: string): void {
+  for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+}
+
+/**
+ * Read a file or blob into memory
+ */
+export function readBlobAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+    reader.onerror = (e) => reject(e);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Read an uncompressed PCM WAV file; returns null for anything else
+ */
+export function parseWav(buffer: ArrayBuffer): PcmAudio | null {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    return null;
+  }
+
+  let format: PcmFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const audioFormat = view.getUint16(body, true);
+      if (audioFormat !== 1) return null; // Compressed WAV
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data' && format) {
+      const end = Math.min(body + size, buffer.byteLength);
+      return { ...format, data: new Uint8Array(buffer, body, end - body) };
+    }
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+  return null;
+}
+
+/**
+ * Wrap interleaved PCM samples in a WAV container
+ */
+export function encodeWav(data: Uint8Array, format: PcmFormat): Blob {
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + data.byteLength);
+  const view = new DataView(buffer);
+  const blockAlign = format.channels * (format.bitsPerSample / 8);
+
+  writeTag(view, 0, 'RIFF');
+  view.setUint32(4, 36 + data.byteLength, true);
+  writeTag(view, 8, 'WAVE');
+  writeTag(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, format.channels, true);
+  view.setUint32(24, format.sampleRate, true);
+  view.setUint32(28, format.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, format.bitsPerSample, true);
+  writeTag(view, 36, 'data');
+  view.setUint32(40, data.byteLength, true);
+  new Uint8Array(buffer, WAV_HEADER_BYTES).set(data);
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Convert Web Audio float channels to 16-bit PCM
+ */
+export function floatToPcm16(channels: Float32Array[], sampleRate: number): PcmAudio {
+  const frames = channels[0]?.length ?? 0;
+  const data = new Uint8Array(frames * channels.length * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((channel, c) => {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16((i * channels.length + c) * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    });
+  }
+  return { sampleRate, channels: channels.length, bitsPerSample: 16, data };
+}
+
+/**
+ * Duration of PCM data in milliseconds
+ */
+export function pcmDurationMs(byteLength: number, format: PcmFormat): number {
+  const bytesPerSecond = format.sampleRate * format.channels * (format.bitsPerSample / 8);
+  return bytesPerSecond > 0 ? Math.round((byteLength / bytesPerSecond) * 1000) : 0;
+}
+
+/**
+ * Cut PCM audio into WAV segments of at most `segmentMs`
+ */
+export function splitPcm(audio: PcmAudio, segmentMs: number, startOffsetMs = 0): AudioSegment[] {
+  const blockAlign = audio.channels * (audio.bitsPerSample / 8);
+  const framesPerSegment = Math.max(1, Math.floor((audio.sampleRate * segmentMs) / 1000));
+  const bytesPerSegment = framesPerSegment * blockAlign;
+  const segments: AudioSegment[] = [];
+
+  for (let start = 0; start < audio.data.byteLength; start += bytesPerSegment) {
+    const chunk = audio.data.subarray(start, Math.min(start + bytesPerSegment, audio.data.byteLength));
+    segments.push({
+      audio: encodeWav(chunk, audio),
+      offsetMilliseconds: startOffsetMs + pcmDurationMs(start, audio),
+      durationMilliseconds: pcmDurationMs(chunk.byteLength, audio),
+    });
+  }
+  return segments;
+}
@@ -1,4 +1,7 @@
 import { ConfigManager } from './configManager';
+import { createLLMProvider, hashPrompt, REPLAY_MISS_MARKER } from './llmProviders';
+import type { UsageContext } from './types/usage';
+import { assertWithinBudget, BUDGET_BLOCKED_MARKER, recordUsage } from './services/usage-tracker';
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
@@ -22,6 +25,8 @@ export interface LLMCallOptions {
   maxTokens?: number;
   /** Reasoning effort for reasoning models (o1, o3, gpt-5) - minimal, low, medium, high */
   reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
+  /** What the request is for - attributed in the usage and cost records */
+  usage?: UsageContext;
 }
 
 export interface ParsedResponse<T> {
@@ -32,8 +37,9 @@ export interface ParsedResponse<T> {
 /**
  * Unified LLM caller with retry logic, JSON validation, and error handling.
  * 
- * This class provides a single, reliable interface for calling Azure OpenAI Responses API
- * with automatic retries, JSON extraction, and validation.
+ * This class provides a single, reliable interface for calling the configured LLM provider
+ * (Azure OpenAI, OpenAI-compatible, or offline replay) with automatic retries, JSON extraction,
+ * and validation.
  */
 export class LLMCaller {
   private readonly DEFAULT_MAX_RETRIES = 3;
@@ -41,28 +47,6 @@ export class LLMCaller {
 
   constructor(private configManager: ConfigManager) {}
 
-  /**
-   * Check if a deployment name corresponds to a reasoning model
-   * Reasoning models: o1, o1-mini, o3, o3-mini, o3-pro, o4-mini, gpt-5 series, codex-mini
-   */
-  private isReasoningModel(deploymentName: string): boolean {
-    const lowerName = deploymentName.toLowerCase();
-    return lowerName.startsWith('o1') ||
-           lowerName.startsWith('o3') ||
-           lowerName.startsWith('o4') ||
-           lowerName.startsWith('gpt-5') ||
-           lowerName.startsWith('codex-mini');
-  }
-
-  /**
-   * Check if deployment supports 'minimal' reasoning effort
-   * Only GPT-5 series models support 'minimal', except gpt-5-codex
-   */
-  private supportsMinimalEffort(deploymentName: string): boolean {
-    const lowerName = deploymentName.toLowerCase();
-    return lowerName.startsWith('gpt-5') && !lowerName.includes('codex');
-  }
-
   /**
    * Call Azure OpenAI with automatic retry and JSON validation
    * 
@@ -90,6 +74,11 @@ export class LLMCaller {
         lastError = new Error(error?.message || String(error));
         console.warn(`⚠ LLM call attempt ${attempt}/${maxRetries} failed: ${lastError.message}`);
         
+        // A missing recording will not appear on retry, and a blocked budget stays blocked
+        if (lastError.message.includes(REPLAY_MISS_MARKER) || lastError.message.includes(BUDGET_BLOCKED_MARKER)) {
+          break;
+        }
+        
         if (attempt < maxRetries) {
           console.log(`↻ Retrying in ${retryDelay}ms...`);
           await new Promise(resolve => setTimeout(resolve, retryDelay));
@@ -97,7 +86,7 @@ export class LLMCaller {
       }
     }
 
-    if (lastError?.message?.includes('[RBAC_ERROR]')) {
+    if (lastError?.message?.includes('[RBAC_ERROR]') || lastError?.message?.includes(REPLAY_MISS_MARKER) || lastError?.message?.includes(BUDGET_BLOCKED_MARKER)) {
       throw lastError;
     }
 
@@ -161,6 +150,10 @@ export class LLMCaller {
         console.warn(`⚠ LLM JSON call attempt ${attempt}/${maxRetries} failed: ${errorMsg}`);
         console.warn(`  Response excerpt: ${excerpt}`);
         
+        if (errorMsg.includes(REPLAY_MISS_MARKER) || errorMsg.includes(BUDGET_BLOCKED_MARKER)) {
+          break;
+        }
+        
         if (attempt < maxRetries) {
           console.log(`↻ Retrying in ${retryDelay}ms...`);
           await new Promise(resolve => setTimeout(resolve, retryDelay));
@@ -168,7 +161,7 @@ export class LLMCaller {
       }
     }
 
-    if (lastError?.message?.includes('[RBAC_ERROR]')) {
+    if (lastError?.message?.includes('[RBAC_ERROR]') || lastError?.message?.includes(REPLAY_MISS_MARKER) || lastError?.message?.includes(BUDGET_BLOCKED_MARKER)) {
       throw lastError;
     }
 
@@ -176,7 +169,7 @@ export class LLMCaller {
   }
 
   /**
-   * Execute a single LLM call (internal method)
+   * Execute a single LLM call through the configured provider (internal method)
    */
   private async executeCall(messages: ChatMessage[], options: LLMCallOptions): Promise<string> {
     const config = await this.configManager.getConfig();
@@ -185,200 +178,33 @@ export class LLMCaller {
       throw new Error("Azure OpenAI is not configured. Please run 'AI Citadel Agent Factory: Configure Azure OpenAI' command.");
     }
 
-    const apiVersion = config.apiVersion || "2024-12-01-preview";
-    console.log(`🤖 Using model: ${config.deploymentName} (endpoint: ${config.endpoint}, api-version: ${apiVersion}, auth: ${config.authType || 'apiKey'})`);
-
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-
-    // Determine URL and authentication based on auth type
-    let url: string;
-    
-    if (config.authType === "managedIdentity") {
-      // Use backend proxy which handles managed identity auth
-      url = '/api/openai/responses';
-      console.log(`🔐 Using managed identity via backend proxy`);
-    } else if (config.authType === "apiKey") {
-      if (!config.apiKey) {
-        throw new Error("API key is not configured.");
-      }
-      headers["api-key"] = config.apiKey;
-      url = `${config.endpoint}/openai/v1/responses`;
-    } else {
-      // Entra ID auth (user login)
-      const token = await this.configManager.getEntraIdToken(config.tenantId);
-      if (!token) {
-        throw new Error("Failed to get Entra ID token.");
-      }
-      headers["Authorization"] = `Bearer ${token}`;
-      url = `${config.endpoint}/openai/v1/responses`;
-    }
-
-    console.log(`🌐 Calling URL: ${url}`);
-
-    // Convert messages to Responses API input format
-    const input = messages.map(msg => ({
-      role: msg.role,
-      content: [{ type: "input_text", text: msg.content }]
-    }));
-    
-    // If JSON mode requested, ensure system message requests JSON format
-    if (options.useJsonMode && messages[0]?.role === 'system') {
-      if (!messages[0].content.toLowerCase().includes('json')) {
-        console.log('JSON mode enabled - ensuring system message requests JSON output');
-        input[0].content[0].text += '\n\nIMPORTANT: You must respond with ONLY valid JSON. Do not include any explanatory text, markdown formatting, or code blocks. Output pure JSON only.';
-      }
-    }
-
-    const requestBody: any = {
-      model: config.deploymentName,
-      input: input,
-    };
-    
-    // ✅ Azure OpenAI Structured Outputs (when schema provided)
-    // Uses text.format with json_schema type for guaranteed schema compliance
-    // See: https://platform.openai.com/docs/guides/structured-outputs
-    if (options.structuredOutputSchema) {
-      const schema = options.structuredOutputSchema;
-      requestBody.text = {
-        format: {
-          type: "json_schema",
-          name: schema.name,
-          strict: schema.strict,
-          schema: schema.schema
-        }
-      };
-      console.log(`✅ Structured outputs enabled with schema: ${schema.name}`);
-      console.log(`   Strict mode: ${schema.strict}`);
-    }
-    // ✅ Azure OpenAI Responses API uses text.format parameter with nested structure
-    // Error message says: "this parameter has moved to 'text.format'"
-    // Documentation shows: text: { format: { type: "json_object" } }
-    // See: https://platform.openai.com/docs/api-reference/responses/create
-    else if (options.useJsonMode) {
-      requestBody.text = {
-        format: {
-          type: "json_object"  // Nested structure ensures valid JSON
-        }
-      };
-      console.log('✅ JSON mode enabled with text.format.type: json_object');
-    }
-    
-    // ⚠️ NEVER set max_output_tokens - let model return complete output
-    // Setting this truncates mock data and causes incomplete JSON
-    if (options.maxTokens !== undefined) {
-      console.warn(`⚠️ WARNING: maxTokens parameter ignored - removes output truncation risk`);
+    const provider = createLLMProvider(config, this.configManager);
+    if (provider.type !== 'mock') {
+      assertWithinBudget(options.usage);
     }
-    
-    // ✅ Reasoning effort for reasoning models (o1, o3, gpt-5)
-    // Use config value or caller override, default to 'low'
-    if (this.isReasoningModel(config.deploymentName)) {
-      let effort = options.reasoningEffort || config.reasoningEffort || 'low';
-      
-      // Validate: gpt-5-codex doesn't support 'minimal', gpt-5-pro only supports 'high'
-      if (effort === 'minimal' && !this.supportsMinimalEffort(config.deploymentName)) {
-        console.warn(`⚠️ Model ${config.deploymentName} doesn't support 'minimal' effort, using 'low'`);
-        effort = 'low';
-      }
-      
-      if (config.deploymentName.toLowerCase().includes('gpt-5-pro')) {
-        effort = 'high'; // gpt-5-pro only supports 'high'
-        console.log(`✅ gpt-5-pro detected, forcing reasoning effort to 'high'`);
-      }
-      
-      requestBody.reasoning = {
-        effort: effort
-      };
-      console.log(`✅ Reasoning model detected (${config.deploymentName}), effort: ${effort}`);
-    }
-    
-    console.log(`📤 Request body size: ${JSON.stringify(requestBody).length} bytes`);
-    
-    let response;
-    try {
-      response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(requestBody),
+    const startedAt = Date.now();
+    const content = await provider.complete(messages, options, config);
+
+    // Replayed responses are not billed
+    if (provider.type !== 'mock') {
+      recordUsage(options.usage, {
+        model: config.deploymentName,
+        tokens: provider.lastUsage,
+        latencyMs: Date.now() - startedAt,
       });
-    } catch (fetchError: any) {
-      console.error(`❌ Fetch failed: ${fetchError.message}`);
-      console.error(`   URL: ${url}`);
-      console.error(`   Error type: ${fetchError.constructor.name}`);
-      console.error(`   Stack: ${fetchError.stack}`);
-      throw new Error(`Network error calling Azure OpenAI: ${fetchError.message}. Check your endpoint configuration and network connection.`);
     }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      
-      // Enhanced error handling for 401 Unauthorized with EntraID
-      if (response.status === 401) {
-        const config = await this.configManager.getConfig();
-        
-        // Check if using EntraID authentication
-        if (config?.authType === 'entraId') {
-          // Log the actual error for debugging
-          console.error(`🔍 Azure 401 Error Details: ${errorText}`);
-          
-          const endpoint = config.endpoint || '';
-          const isAIFoundry = endpoint.includes('ai.azure.com') || errorText.includes('ai.azure.com') || errorText.includes('audience is incorrect');
-          
-          // Use special marker so extension.ts can detect and offer help
-          const errorPrefix = '[RBAC_ERROR]';
-          const shortMessage = isAIFoundry
-            ? `${errorPrefix} Current user does not have proper RBAC permissions to use this Azure AI Foundry deployment with EntraID authentication. Azure error: ${errorText}`
-            : `${errorPrefix} Current user does not have proper RBAC permissions to use this Azure OpenAI deployment with EntraID authentication. Azure error: ${errorText}`;
-          
-          throw new Error(shortMessage);
-        }
-      }
-      
-      throw new Error(`Azure OpenAI API error (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
-    
-    // Debug: Log response structure when JSON mode is enabled
-    if (options.useJsonMode) {
-      console.log('[DEBUG] JSON mode response structure:', {
-        hasOutputText: !!data.output_text,
-        hasOutput: !!data.output,
-        outputLength: data.output?.length,
-        firstOutputType: data.output?.[0]?.type
+    // Record live responses so the mock provider can replay them offline
+    if (config.recordResponses && provider.type !== 'mock') {
+      const lastUser = [...messages].reverse().find(m => m.role === 'user');
+      this.configManager.getRecordingStore?.()?.save({
+        hash: hashPrompt(messages, options),
+        response: content,
+        model: config.deploymentName,
+        recordedAt: new Date().toISOString(),
+        promptPreview: lastUser?.content.substring(0, 120),
       });
     }
-    
-    // Parse Responses API output format
-    let content = '';
-    if (data.output_text) {
-      content = data.output_text;
-    } else if (data.output && Array.isArray(data.output)) {
-      const assistantMsg = data.output.find((item: any) => item.role === "assistant");
-      if (assistantMsg && assistantMsg.content && Array.isArray(assistantMsg.content)) {
-        // Check for refusal (safety/policy violations) when using structured outputs
-        if (options.structuredOutputSchema) {
-          const refusalContent = assistantMsg.content.find((c: any) => c.type === "refusal");
-          if (refusalContent) {
-            throw new Error(`Model refused to respond: ${refusalContent.refusal || 'Safety policy violation'}`);
-          }
-        }
-        
-        const textContent = assistantMsg.content.find((c: any) => c.type === "output_text");
-        content = textContent?.text || '';
-      }
-    }
-
-    if (!content) {
-      console.error('[DEBUG] Full API response:', JSON.stringify(data, null, 2).substring(0, 1000));
-      throw new Error('No content in API response');
-    }
-    
-    // Debug: Log first 200 chars of content when JSON mode is enabled
-    if (options.useJsonMode) {
-      console.log('[DEBUG] Response content preview:', content.substring(0, 200));
-    }
 
     return content;
   }
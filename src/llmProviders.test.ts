@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMCaller, ChatMessage } from './llmCaller';
+import { hashPrompt, buildSchemaSkeleton, ReplayProvider, OpenAICompatibleProvider } from './llmProviders';
+import type { AzureOpenAIConfig, ConfigManager } from './configManager';
+import { llmRecordingStore, exportRecordings, importRecordings, getRecordingCount } from '@/services/llm-recordings';
+import { isLLMConfigured } from '@/services/browser-config-manager';
+import { loadUsageRecords } from '@/services/usage-tracker';
+
+const MESSAGES: ChatMessage[] = [
+  { role: 'system', content: 'You are a QA analyst. Respond in JSON.' },
+  { role: 'user', content: 'Evaluate this call.' },
+];
+
+function configManager(config: AzureOpenAIConfig): ConfigManager {
+  return {
+    getConfig: async () => config,
+    getEntraIdToken: async () => null,
+    getMaxRetries: () => 1,
+    getRecordingStore: () => llmRecordingStore,
+  };
+}
+
+function stubFetch(content: string, usage?: Record<string, unknown>) {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+    new Response(JSON.stringify({ choices: [{ message: { content } }], usage }), { status: 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('hashPrompt', () => {
+  it('is stable for the same prompt and output format', () => {
+    expect(hashPrompt(MESSAGES)).toBe(hashPrompt(MESSAGES.map(m => ({ ...m }))));
+    expect(hashPrompt(MESSAGES)).toMatch(/^[0-9a-f]{28}$/);
+  });
+
+  it('changes with the messages or the requested format', () => {
+    const other = [MESSAGES[0], { role: 'user' as const, content: 'Evaluate this call!' }];
+    expect(hashPrompt(other)).not.toBe(hashPrompt(MESSAGES));
+    expect(hashPrompt(MESSAGES, { useJsonMode: true })).not.toBe(hashPrompt(MESSAGES));
+    expect(hashPrompt(MESSAGES, { maxRetries: 5 })).toBe(hashPrompt(MESSAGES));
+  });
+});
+
+describe('buildSchemaSkeleton', () => {
+  it('builds the smallest value matching the schema', () => {
+    expect(buildSchemaSkeleton({
+      type: 'object',
+      properties: {
+        label: { type: 'string', enum: ['positive', 'negative'] },
+        score: { type: 'number', minimum: 1 },
+        tags: { type: 'array', items: { type: 'string' } },
+        note: { type: ['string', 'null'] },
+        flag: { type: 'boolean' },
+      },
+    })).toEqual({ label: 'positive', score: 1, tags: [''], note: '', flag: false });
+  });
+});
+
+describe('ReplayProvider', () => {
+  it('serves recorded responses by prompt hash', async () => {
+    llmRecordingStore.save({ hash: hashPrompt(MESSAGES), response: '{"ok":true}', recordedAt: '2025-01-01T00:00:00Z' });
+    await expect(new ReplayProvider(llmRecordingStore).complete(MESSAGES, {})).resolves.toBe('{"ok":true}');
+  });
+
+  it('returns a schema skeleton for unrecorded structured calls and fails otherwise', async () => {
+    const provider = new ReplayProvider(llmRecordingStore);
+    const structuredOutputSchema = { name: 'r', strict: true, schema: { type: 'object', properties: { n: { type: 'integer' } } } };
+
+    await expect(provider.complete(MESSAGES, { structuredOutputSchema })).resolves.toBe('{"n":0}');
+    await expect(provider.complete(MESSAGES, {})).rejects.toThrow('[REPLAY_MISS]');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  it('posts chat completions to the base URL', async () => {
+    const fetchMock = stubFetch('hello');
+    const config: AzureOpenAIConfig = { endpoint: '', deploymentName: 'llama3.1', baseUrl: 'http://localhost:11434/v1/', apiKey: 'k' };
+
+    await expect(new OpenAICompatibleProvider().complete(MESSAGES, { useJsonMode: true }, config)).resolves.toBe('hello');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init!.body as string);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer k');
+    expect(body).toMatchObject({ model: 'llama3.1', response_format: { type: 'json_object' } });
+    expect(body.messages).toHaveLength(2);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('LLMCaller with providers', () => {
+  it('records live responses and replays them offline', async () => {
+    stubFetch('{"results":[]}');
+    const live = new LLMCaller(configManager({
+      endpoint: '', deploymentName: 'llama3.1', provider: 'openai-compatible', baseUrl: 'http://localhost:8000/v1', recordResponses: true,
+    }));
+    await live.callWithJsonValidation(MESSAGES);
+    vi.unstubAllGlobals();
+    expect(getRecordingCount()).toBe(1);
+
+    const exported = exportRecordings();
+    window.localStorage.clear();
+    expect(importRecordings(exported)).toBe(1);
+
+    const offline = new LLMCaller(configManager({ endpoint: '', deploymentName: '', provider: 'mock' }));
+    await expect(offline.callWithJsonValidation(MESSAGES)).resolves.toMatchObject({ parsed: { results: [] } });
+  });
+
+  it('records token usage with the request context, except for replays', async () => {
+    stubFetch('{"results":[]}', {
+      prompt_tokens: 1200,
+      completion_tokens: 300,
+      prompt_tokens_details: { cached_tokens: 1000 },
+      completion_tokens_details: { reasoning_tokens: 200 },
+    });
+    const live = new LLMCaller(configManager({
+      endpoint: '', deploymentName: 'o4-mini', provider: 'openai-compatible', baseUrl: 'http://localhost:8000/v1',
+    }));
+    await live.callWithJsonValidation(MESSAGES, { usage: { operation: 'evaluation', schemaId: 's1', callId: 'c1' } });
+    vi.unstubAllGlobals();
+
+    expect(loadUsageRecords()).toEqual([expect.objectContaining({
+      operation: 'evaluation',
+      schemaId: 's1',
+      callId: 'c1',
+      model: 'o4-mini',
+      inputTokens: 1200,
+      outputTokens: 300,
+      reasoningTokens: 200,
+      cachedInputTokens: 1000,
+    })]);
+
+    llmRecordingStore.save({ hash: hashPrompt(MESSAGES), response: '{}', recordedAt: '2025-01-01T00:00:00Z' });
+    await new LLMCaller(configManager({ endpoint: '', deploymentName: '', provider: 'mock' })).call(MESSAGES);
+    expect(loadUsageRecords()).toHaveLength(1);
+  });
+
+  it('does not retry replay misses', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const offline = new LLMCaller(configManager({ endpoint: '', deploymentName: '', provider: 'mock' }));
+
+    await expect(offline.call(MESSAGES, { maxRetries: 3, retryDelay: 10_000 })).rejects.toThrow('[REPLAY_MISS]');
+  });
+});
+
+describe('isLLMConfigured', () => {
+  it('checks what each provider needs', () => {
+    expect(isLLMConfigured({ provider: 'mock' })).toBe(true);
+    expect(isLLMConfigured({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' })).toBe(false);
+    expect(isLLMConfigured({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', deploymentName: 'm' })).toBe(true);
+    expect(isLLMConfigured({ endpoint: 'https://x', deploymentName: 'gpt-4o' })).toBe(false);
+    expect(isLLMConfigured({ endpoint: 'https://x', deploymentName: 'gpt-4o', authType: 'entraId' })).toBe(true);
+    expect(isLLMConfigured({ authType: 'managedIdentity' })).toBe(true);
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * LLM Providers
+ *
+ * LLMCaller delegates each request to one of these backends:
+ * - Azure OpenAI (Responses API, API key / Entra ID / managed identity)
+ * - Any OpenAI-compatible Chat Completions server (Ollama, vLLM, LM Studio...)
+ * - An offline replay provider that serves recorded responses keyed by prompt hash,
+ *   so demos and CI can run the full flow without network access
+ */
+
+import type { AzureOpenAIConfig, ConfigManager, LLMProviderType, LLMRecordingStore } from './configManager';
+import type { ChatMessage, LLMCallOptions } from './llmCaller';
+import type { TokenUsage } from './types/usage';
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  /** Token counts of the last completed request, when the server reports them */
+  lastUsage?: TokenUsage;
+  complete(messages: ChatMessage[], options: LLMCallOptions, config: AzureOpenAIConfig): Promise<string>;
+}
+
+/** Marker on replay misses so LLMCaller stops retrying */
+export const REPLAY_MISS_MARKER = '[REPLAY_MISS]';
+
+const JSON_ONLY_INSTRUCTION = '\n\nIMPORTANT: You must respond with ONLY valid JSON. Do not include any explanatory text, markdown formatting, or code blocks. Output pure JSON only.';
+
+/**
+ * Check if a deployment name corresponds to a reasoning model
+ * Reasoning models: o1, o1-mini, o3, o3-mini, o3-pro, o4-mini, gpt-5 series, codex-mini
+ */
+function isReasoningModel(deploymentName: string): boolean {
+  const lowerName = deploymentName.toLowerCase();
+  return lowerName.startsWith('o1') ||
+         lowerName.startsWith('o3') ||
+         lowerName.startsWith('o4') ||
+         lowerName.startsWith('gpt-5') ||
+         lowerName.startsWith('codex-mini');
+}
+
+/**
+ * Check if deployment supports 'minimal' reasoning effort
+ * Only GPT-5 series models support 'minimal', except gpt-5-codex
+ */
+function supportsMinimalEffort(deploymentName: string): boolean {
+  const lowerName = deploymentName.toLowerCase();
+  return lowerName.startsWith('gpt-5') && !lowerName.includes('codex');
+}
+
+/**
+ * Deterministic 53-bit string hash (cyrb53), returned as hex
+ */
+function hashString(text: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Hash a prompt for recording/replay. Covers the messages and the requested
+ * output format, but not the model, so recordings replay across deployments.
+ */
+export function hashPrompt(messages: ChatMessage[], options: LLMCallOptions = {}): string {
+  const key = JSON.stringify({
+    messages: messages.map(m => [m.role, m.content]),
+    format: options.structuredOutputSchema
+      ? { name: options.structuredOutputSchema.name, schema: options.structuredOutputSchema.schema }
+      : options.useJsonMode ? 'json' : 'text',
+  });
+  return hashString(key) + hashString(key, 1);
+}
+
+/**
+ * Build the smallest value that satisfies a JSON schema (first enum value,
+ * empty strings, zero numbers, one array item). Used by the mock provider
+ * when a structured-output call has no recording.
+ */
+export function buildSchemaSkeleton(schema: any): unknown {
+  if (!schema || typeof schema !== 'object') return null;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return buildSchemaSkeleton(variants.find((v: any) => v?.type !== 'null') ?? variants[0]);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t: string) => t !== 'null') ?? schema.type[0]
+    : schema.type;
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, propSchema] of Object.entries<any>(schema.properties || {})) {
+        result[key] = buildSchemaSkeleton(propSchema);
+      }
+      return result;
+    }
+    case 'array':
+      return schema.items ? [buildSchemaSkeleton(schema.items)] : [];
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/** Messages with a JSON-only instruction appended to the system prompt when JSON mode is on */
+function withJsonInstruction(messages: ChatMessage[], options: LLMCallOptions): ChatMessage[] {
+  if (!options.useJsonMode || messages[0]?.role !== 'system') return messages;
+  if (messages[0].content.toLowerCase().includes('json')) return messages;
+
+  console.log('JSON mode enabled - ensuring system message requests JSON output');
+  return [{ ...messages[0], content: messages[0].content + JSON_ONLY_INSTRUCTION }, ...messages.slice(1)];
+}
+
+/**
+ * Azure OpenAI Responses API
+ */
+export class AzureOpenAIProvider implements LLMProvider {
+  readonly type = 'azure-openai' as const;
+  lastUsage?: TokenUsage;
+
+  constructor(private configManager: ConfigManager) {}
+
+  async complete(messages: ChatMessage[], options: LLMCallOptions, config: AzureOpenAIConfig): Promise<string> {
+    const apiVersion = config.apiVersion || "2024-12-01-preview";
+    console.log(`🤖 Using model: ${config.deploymentName} (endpoint: ${config.endpoint}, api-version: ${apiVersion}, auth: ${config.authType || 'apiKey'})`);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    // Determine URL and authentication based on auth type
+    let url: string;
+    
+    if (config.authType === "managedIdentity") {
+      // Use backend proxy which handles managed identity auth
+      url = '/api/openai/responses';
+      console.log(`🔐 Using managed identity via backend proxy`);
+    } else if (config.authType === "apiKey") {
+      if (!config.apiKey) {
+        throw new Error("API key is not configured.");
+      }
+      headers["api-key"] = config.apiKey;
+      url = `${config.endpoint}/openai/v1/responses`;
+    } else {
+      // Entra ID auth (user login)
+      const token = await this.configManager.getEntraIdToken(config.tenantId);
+      if (!token) {
+        throw new Error("Failed to get Entra ID token.");
+      }
+      headers["Authorization"] = `Bearer ${token}`;
+      url = `${config.endpoint}/openai/v1/responses`;
+    }
+
+    console.log(`🌐 Calling URL: ${url}`);
+
+    // Convert messages to Responses API input format
+    // If JSON mode requested, ensure system message requests JSON format
+    const input = withJsonInstruction(messages, options).map(msg => ({
+      role: msg.role,
+      content: [{ type: "input_text", text: msg.content }]
+    }));
+
+    const requestBody: any = {
+      model: config.deploymentName,
+      input: input,
+    };
+    
+    // ✅ Azure OpenAI Structured Outputs (when schema provided)
+    // Uses text.format with json_schema type for guaranteed schema compliance
+    // See: https://platform.openai.com/docs/guides/structured-outputs
+    if (options.structuredOutputSchema) {
+      const schema = options.structuredOutputSchema;
+      requestBody.text = {
+        format: {
+          type: "json_schema",
+          name: schema.name,
+          strict: schema.strict,
+          schema: schema.schema
+        }
+      };
+      console.log(`✅ Structured outputs enabled with schema: ${schema.name}`);
+      console.log(`   Strict mode: ${schema.strict}`);
+    }
+    // ✅ Azure OpenAI Responses API uses text.format parameter with nested structure
+    // Error message says: "this parameter has moved to 'text.format'"
+    // Documentation shows: text: { format: { type: "json_object" } }
+    // See: https://platform.openai.com/docs/api-reference/responses/create
+    else if (options.useJsonMode) {
+      requestBody.text = {
+        format: {
+          type: "json_object"  // Nested structure ensures valid JSON
+        }
+      };
+      console.log('✅ JSON mode enabled with text.format.type: json_object');
+    }
+    
+    // ⚠️ NEVER set max_output_tokens - let model return complete output
+    // Setting this truncates mock data and causes incomplete JSON
+    if (options.maxTokens !== undefined) {
+      console.warn(`⚠️ WARNING: maxTokens parameter ignored - removes output truncation risk`);
+    }
+    
+    // ✅ Reasoning effort for reasoning models (o1, o3, gpt-5)
+    // Use config value or caller override, default to 'low'
+    if (isReasoningModel(config.deploymentName)) {
+      let effort = options.reasoningEffort || config.reasoningEffort || 'low';
+      
+      // Validate: gpt-5-codex doesn't support 'minimal', gpt-5-pro only supports 'high'
+      if (effort === 'minimal' && !supportsMinimalEffort(config.deploymentName)) {
+        console.warn(`⚠️ Model ${config.deploymentName} doesn't support 'minimal' effort, using 'low'`);
+        effort = 'low';
+      }
+      
+      if (config.deploymentName.toLowerCase().includes('gpt-5-pro')) {
+        effort = 'high'; // gpt-5-pro only supports 'high'
+        console.log(`✅ gpt-5-pro detected, forcing reasoning effort to 'high'`);
+      }
+      
+      requestBody.reasoning = {
+        effort: effort
+      };
+      console.log(`✅ Reasoning model detected (${config.deploymentName}), effort: ${effort}`);
+    }
+    
+    console.log(`📤 Request body size: ${JSON.stringify(requestBody).length} bytes`);
+    
+    let response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(requestBody),
+      });
+    } catch (fetchError: any) {
+      console.error(`❌ Fetch failed: ${fetchError.message}`);
+      console.error(`   URL: ${url}`);
+      console.error(`   Error type: ${fetchError.constructor.name}`);
+      console.error(`   Stack: ${fetchError.stack}`);
+      throw new Error(`Network error calling Azure OpenAI: ${fetchError.message}. Check your endpoint configuration and network connection.`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      
+      // Enhanced error handling for 401 Unauthorized with EntraID
+      if (response.status === 401) {
+        // Check if using EntraID authentication
+        if (config?.authType === 'entraId') {
+          // Log the actual error for debugging
+          console.error(`🔍 Azure 401 Error Details: ${errorText}`);
+          
+          const endpoint = config.endpoint || '';
+          const isAIFoundry = endpoint.includes('ai.azure.com') || errorText.includes('ai.azure.com') || errorText.includes('audience is incorrect');
+          
+          // Use special marker so extension.ts can detect and offer help
+          const errorPrefix = '[RBAC_ERROR]';
+          const shortMessage = isAIFoundry
+            ? `${errorPrefix} Current user does not have proper RBAC permissions to use this Azure AI Foundry deployment with EntraID authentication. Azure error: ${errorText}`
+            : `${errorPrefix} Current user does not have proper RBAC permissions to use this Azure OpenAI deployment with EntraID authentication. Azure error: ${errorText}`;
+          
+          throw new Error(shortMessage);
+        }
+      }
+      
+      throw new Error(`Azure OpenAI API error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    
+    // Debug: Log response structure when JSON mode is enabled
+    if (options.useJsonMode) {
+      console.log('[DEBUG] JSON mode response structure:', {
+        hasOutputText: !!data.output_text,
+        hasOutput: !!data.output,
+        outputLength: data.output?.length,
+        firstOutputType: data.output?.[0]?.type
+      });
+    }
+    
+    // Parse Responses API output format
+    let content = '';
+    if (data.output_text) {
+      content = data.output_text;
+    } else if (data.output && Array.isArray(data.output)) {
+      const assistantMsg = data.output.find((item: any) => item.role === "assistant");
+      if (assistantMsg && assistantMsg.content && Array.isArray(assistantMsg.content)) {
+        // Check for refusal (safety/policy violations) when using structured outputs
+        if (options.structuredOutputSchema) {
+          const refusalContent = assistantMsg.content.find((c: any) => c.type === "refusal");
+          if (refusalContent) {
+            throw new Error(`Model refused to respond: ${refusalContent.refusal || 'Safety policy violation'}`);
+          }
+        }
+        
+        const textContent = assistantMsg.content.find((c: any) => c.type === "output_text");
+        content = textContent?.text || '';
+      }
+    }
+
+    if (!content) {
+      console.error('[DEBUG] Full API response:', JSON.stringify(data, null, 2).substring(0, 1000));
+      throw new Error('No content in API response');
+    }
+    
+    // Debug: Log first 200 chars of content when JSON mode is enabled
+    if (options.useJsonMode) {
+      console.log('[DEBUG] Response content preview:', content.substring(0, 200));
+    }
+
+    if (data.usage) {
+      this.lastUsage = {
+        inputTokens: data.usage.input_tokens ?? 0,
+        outputTokens: data.usage.output_tokens ?? 0,
+        reasoningTokens: data.usage.output_tokens_details?.reasoning_tokens,
+        cachedInputTokens: data.usage.input_tokens_details?.cached_tokens,
+      };
+    }
+
+    return content;
+  }
+}
+
+/**
+ * OpenAI-compatible Chat Completions API (Ollama, vLLM, LM Studio, OpenAI itself)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'openai-compatible' as const;
+  lastUsage?: TokenUsage;
+
+  async complete(messages: ChatMessage[], options: LLMCallOptions, config: AzureOpenAIConfig): Promise<string> {
+    const baseUrl = (config.baseUrl || config.endpoint || '').replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error("OpenAI-compatible base URL is not configured.");
+    }
+
+    const url = `${baseUrl}/chat/completions`;
+    console.log(`🤖 Using model: ${config.deploymentName} (OpenAI-compatible: ${url})`);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // Local servers usually need no key; hosted ones take a bearer token
+    if (config.apiKey) {
+      headers["Authorization"] = `Bearer ${config.apiKey}`;
+    }
+
+    const requestBody: any = {
+      model: config.deploymentName,
+      messages: withJsonInstruction(messages, options),
+    };
+
+    if (options.structuredOutputSchema) {
+      const schema = options.structuredOutputSchema;
+      requestBody.response_format = {
+        type: "json_schema",
+        json_schema: { name: schema.name, strict: schema.strict, schema: schema.schema },
+      };
+    } else if (options.useJsonMode) {
+      requestBody.response_format = { type: "json_object" };
+    }
+
+    if (isReasoningModel(config.deploymentName)) {
+      requestBody.reasoning_effort = options.reasoningEffort || config.reasoningEffort || 'low';
+    }
+
+    let response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(requestBody),
+      });
+    } catch (fetchError: any) {
+      console.error(`❌ Fetch failed: ${fetchError.message}`);
+      throw new Error(`Network error calling OpenAI-compatible endpoint: ${fetchError.message}. Check the base URL and that the server is running.`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+
+    if (message?.refusal) {
+      throw new Error(`Model refused to respond: ${message.refusal}`);
+    }
+
+    const content = typeof message?.content === 'string' ? message.content : '';
+    if (!content) {
+      console.error('[DEBUG] Full API response:', JSON.stringify(data, null, 2).substring(0, 1000));
+      throw new Error('No content in API response');
+    }
+
+    if (data.usage) {
+      this.lastUsage = {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+        reasoningTokens: data.usage.completion_tokens_details?.reasoning_tokens,
+        cachedInputTokens: data.usage.prompt_tokens_details?.cached_tokens,
+      };
+    }
+
+    return content;
+  }
+}
+
+/**
+ * Offline provider that replays recorded responses by prompt hash.
+ * Structured-output calls without a recording get a schema skeleton instead,
+ * so flows that only need well-formed JSON keep working.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly type = 'mock' as const;
+
+  constructor(private store: LLMRecordingStore | null) {}
+
+  async complete(messages: ChatMessage[], options: LLMCallOptions): Promise<string> {
+    const hash = hashPrompt(messages, options);
+    const recording = this.store ? await this.store.get(hash) : null;
+
+    if (recording) {
+      console.log(`📼 Replaying recorded response for prompt ${hash}`);
+      return recording.response;
+    }
+
+    if (options.structuredOutputSchema) {
+      console.log(`📼 No recording for prompt ${hash} - returning ${options.structuredOutputSchema.name} skeleton`);
+      return JSON.stringify(buildSchemaSkeleton(options.structuredOutputSchema.schema));
+    }
+
+    throw new Error(
+      `${REPLAY_MISS_MARKER} No recorded response for prompt ${hash}. ` +
+      `Run this step once with a live provider and "Record responses" enabled, or import a recordings file.`
+    );
+  }
+}
+
+/**
+ * Pick the provider for a config (Azure OpenAI unless told otherwise)
+ */
+export function createLLMProvider(config: AzureOpenAIConfig, configManager: ConfigManager): LLMProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider();
+    case 'mock':
+      return new ReplayProvider(configManager.getRecordingStore?.() ?? null);
+    default:
+      return new AzureOpenAIProvider(configManager);
+  }
+}
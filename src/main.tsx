@@ -4,14 +4,52 @@ import { Toaster } from 'sonner'
 
 import App from './App.tsx'
 import { ErrorFallback } from './ErrorFallback.tsx'
+import { initializeStorage } from './lib/storage-adapter'
+import { authorizeApiRequests } from './lib/api-auth'
+import { loadAzureConfigFromCookie } from './lib/azure-config-storage'
+import { azureTokenService } from './services/azure-token'
+import { loadAccessControlSettings, loadServerAccess } from './services/access-control'
+import type { AzureServicesConfig } from './types/config'
 
 import "./main.css"
 import "./styles/theme.css"
 import "./index.css"
 
-createRoot(document.getElementById('root')!).render(
-  <ErrorBoundary FallbackComponent={ErrorFallback}>
-    <App />
-    <Toaster position="top-right" />
-   </ErrorBoundary>
-)
+/**
+ * Pick up a previous Entra ID sign-in before loading shared data: with access control
+ * enabled, the server only returns what the signed-in user's role may see
+ */
+async function restoreSignIn(): Promise<void> {
+  try {
+    const saved: AzureServicesConfig | null =
+      JSON.parse(window.localStorage.getItem('azure-services-config') || 'null') ?? loadAzureConfigFromCookie();
+    if (!saved?.entraId?.clientId) return;
+    azureTokenService.configure({ clientId: saved.entraId.clientId, tenantId: saved.entraId.tenantId });
+    await azureTokenService.restoreAccount();
+  } catch (error) {
+    console.warn('🔐 Could not restore sign-in:', error);
+  }
+}
+
+async function startup(): Promise<void> {
+  authorizeApiRequests(() => azureTokenService.getIdToken());
+  await restoreSignIn();
+  const backend = await initializeStorage();
+
+  // Shared data was loaded for the previous user's role - load it again for the new one
+  if (backend === 'server') {
+    azureTokenService.onAccountChange(() => {
+      if ((loadServerAccess() ?? loadAccessControlSettings()).enabled) window.location.reload();
+    });
+  }
+}
+
+// Hydrate the storage backend before rendering so synchronous reads see shared data
+startup().finally(() => {
+  createRoot(document.getElementById('root')!).render(
+    <ErrorBoundary FallbackComponent={ErrorFallback}>
+      <App />
+      <Toaster position="top-right" />
+     </ErrorBoundary>
+  )
+})
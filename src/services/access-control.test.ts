@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccessControlSettings } from '@/types/access-control';
+import { CoachingPlan } from '@/types/coaching';
+import { loadDebtCollectionCalls } from '@/test/fixtures';
+import {
+  DEFAULT_ACCESS_CONTROL_SETTINGS,
+  filterCallsForAgent,
+  filterCoachingPlansForAgent,
+  hasPermission,
+  loadAccessControlSettings,
+  resolveAccess,
+  saveAccessControlSettings,
+  userFromClaims,
+} from './access-control';
+
+const settings: AccessControlSettings = {
+  enabled: true,
+  claimRoles: { 'QA.Lead': 'qa-lead', 'group-supervisors': 'supervisor' },
+  users: [
+    { username: 'Admin@Contoso.com', role: 'admin' },
+    { username: 'sara@contoso.com', role: 'agent', agentName: 'Sara Ali' },
+  ],
+  defaultRole: 'read-only',
+};
+
+describe('resolveAccess', () => {
+  it('gives everyone admin while access control is disabled', () => {
+    const access = resolveAccess(DEFAULT_ACCESS_CONTROL_SETTINGS, null);
+    expect(access).toMatchObject({ role: 'admin', source: 'disabled' });
+    expect(hasPermission(access, 'config.edit')).toBe(true);
+  });
+
+  it('treats visitors who are not signed in as read-only', () => {
+    const access = resolveAccess(settings, null);
+    expect(access).toMatchObject({ role: 'read-only', source: 'anonymous' });
+    expect(hasPermission(access, 'calls.export')).toBe(false);
+  });
+
+  it('prefers the local user store over token claims', () => {
+    const user = userFromClaims('admin@contoso.com', { roles: ['group-supervisors'] });
+    expect(resolveAccess(settings, user)).toMatchObject({ role: 'admin', source: 'local' });
+  });
+
+  it('picks the most privileged role among matching claims', () => {
+    const user = userFromClaims('lee@contoso.com', { roles: ['QA.Lead'], groups: ['group-supervisors'] });
+    const access = resolveAccess(settings, user);
+
+    expect(access).toMatchObject({ role: 'qa-lead', source: 'claims' });
+    expect(hasPermission(access, 'rules.edit')).toBe(true);
+    expect(hasPermission(access, 'config.edit')).toBe(false);
+  });
+
+  it('links agents to their agent name, falling back to the display name', () => {
+    expect(resolveAccess(settings, userFromClaims('sara@contoso.com')).agentName).toBe('Sara Ali');
+
+    const fallback = resolveAccess({ ...settings, defaultRole: 'agent' }, userFromClaims('omar@contoso.com', { name: 'Omar Khan' }));
+    expect(fallback).toMatchObject({ role: 'agent', source: 'default', agentName: 'Omar Khan' });
+  });
+});
+
+describe('filterCallsForAgent', () => {
+  it('matches the participant_1 field case-insensitively', () => {
+    const { schema, calls } = loadDebtCollectionCalls();
+    const agentField = schema.fields.find(f => f.semanticRole === 'participant_1')!;
+    const schemaCalls = calls.map(c => ({ ...c, schemaId: schema.id }));
+    const agentName = String(schemaCalls[0].metadata[agentField.id]);
+
+    const own = filterCallsForAgent(schemaCalls, schema, `  ${agentName.toUpperCase()} `);
+
+    expect(own.length).toBeGreaterThan(0);
+    expect(own.every(c => String(c.metadata[agentField.id]).toLowerCase() === agentName.toLowerCase())).toBe(true);
+    expect(filterCallsForAgent(schemaCalls, schema, undefined)).toEqual([]);
+  });
+});
+
+describe('filterCoachingPlansForAgent', () => {
+  it('keeps only the plans of the given agent', () => {
+    const plans = ['Sara Ali', 'Omar Haddad'].map(agentName => ({ id: agentName, agentName }) as CoachingPlan);
+
+    expect(filterCoachingPlansForAgent(plans, ' sara ali ').map(p => p.id)).toEqual(['Sara Ali']);
+    expect(filterCoachingPlansForAgent(plans, undefined)).toEqual([]);
+  });
+});
+
+describe('saveAccessControlSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('refuses changes that would lock the current user out', () => {
+    expect(() => saveAccessControlSettings(settings, null)).toThrow('Sign in');
+    expect(() => saveAccessControlSettings(settings, userFromClaims('lee@contoso.com', { roles: ['QA.Lead'] })))
+      .toThrow('would lose admin access');
+  });
+
+  it('stores trimmed settings and rejects duplicate users', () => {
+    const admin = userFromClaims('admin@contoso.com');
+    expect(() => saveAccessControlSettings(
+      { ...settings, users: [...settings.users, { username: 'ADMIN@contoso.com ', role: 'read-only' }] },
+      admin
+    )).toThrow('more than once');
+
+    saveAccessControlSettings({ ...settings, claimRoles: { ' QA.Lead ': 'qa-lead', '': 'admin' } }, admin);
+    expect(loadAccessControlSettings()).toMatchObject({ enabled: true, claimRoles: { 'QA.Lead': 'qa-lead' } });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Access Control Service
+ * Maps the signed-in Entra ID user to a role and the role to permissions. Settings are
+ * shared through the storage adapter (/api/access-control in server mode).
+ *
+ * The UI hides what a role may not do. The server (server/auth.js) runs the same role
+ * resolution headlessly on the validated token of every API request and enforces it;
+ * there, callers who are not signed in get nothing but a request to sign in.
+ */
+
+import type { CallRecord } from '../types/call';
+import type { CoachingPlan } from '../types/coaching';
+import type { SchemaDefinition } from '../types/schema';
+import type {
+  AccessContext,
+  AccessControlSettings,
+  Permission,
+  SignedInUser,
+  UserRole,
+} from '../types/access-control';
+import { getStorageAdapter, SERVER_ACCESS_KEY } from '../lib/storage-adapter';
+
+const ACCESS_CONTROL_KEY = 'access-control';
+
+/** Roles from most to least privileged */
+export const USER_ROLES: UserRole[] = ['admin', 'qa-lead', 'supervisor', 'agent', 'read-only'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  'qa-lead': 'QA Lead',
+  supervisor: 'Supervisor',
+  agent: 'Agent',
+  'read-only': 'Read-only',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Everything, including Azure configuration and access control',
+  'qa-lead': 'Schemas, rules, call processing, deletion, exports and coaching',
+  supervisor: 'Call processing, exports and coaching',
+  agent: 'Own calls, scores and coaching plan only',
+  'read-only': 'View calls, analytics and agents',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['schemas.edit', 'rules.edit', 'calls.process', 'calls.delete', 'calls.export', 'coaching.edit', 'config.edit'],
+  'qa-lead': ['schemas.edit', 'rules.edit', 'calls.process', 'calls.delete', 'calls.export', 'coaching.edit'],
+  supervisor: ['calls.process', 'calls.export', 'coaching.edit'],
+  agent: [],
+  'read-only': [],
+};
+
+export const DEFAULT_ACCESS_CONTROL_SETTINGS: AccessControlSettings = {
+  enabled: false,
+  claimRoles: {},
+  users: [],
+  defaultRole: 'read-only',
+};
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * The caller's access as the server resolved it from their token (server storage only).
+ * Roles other than admin cannot read the settings, so this is what their UI goes by.
+ */
+export function loadServerAccess(): AccessContext | null {
+  try {
+    const json = getStorageAdapter().getItem(SERVER_ACCESS_KEY);
+    return json ? JSON.parse(json) : null;
+  } catch (error) {
+    console.error('Error loading server access:', error);
+    return null;
+  }
+}
+
+export function loadAccessControlSettings(): AccessControlSettings {
+  try {
+    const json = getStorageAdapter().getItem(ACCESS_CONTROL_KEY);
+    return json ? { ...DEFAULT_ACCESS_CONTROL_SETTINGS, ...JSON.parse(json) } : DEFAULT_ACCESS_CONTROL_SETTINGS;
+  } catch (error) {
+    console.error('Error loading access control settings:', error);
+    return DEFAULT_ACCESS_CONTROL_SETTINGS;
+  }
+}
+
+/**
+ * Validate and store the settings. Enabling access control (or editing it while enabled)
+ * must leave the user making the change with admin rights, so nobody locks themselves out.
+ */
+export function saveAccessControlSettings(
+  settings: AccessControlSettings,
+  currentUser: SignedInUser | null
+): AccessControlSettings {
+  const users = settings.users
+    .map(user => ({
+      ...user,
+      username: user.username.trim(),
+      agentName: user.agentName?.trim() || undefined,
+    }))
+    .filter(user => user.username);
+
+  const seen = new Set<string>();
+  for (const user of users) {
+    const key = user.username.toLowerCase();
+    if (seen.has(key)) {
+      throw new Error(`User ${user.username} is listed more than once`);
+    }
+    seen.add(key);
+  }
+
+  const claimRoles: Record<string, UserRole> = {};
+  for (const [claim, role] of Object.entries(settings.claimRoles)) {
+    if (claim.trim()) claimRoles[claim.trim()] = role;
+  }
+
+  const saved: AccessControlSettings = {
+    ...settings,
+    users,
+    claimRoles,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (saved.enabled) {
+    if (!currentUser) {
+      throw new Error('Sign in with Entra ID before enabling access control');
+    }
+    if (resolveAccess(saved, currentUser).role !== 'admin') {
+      throw new Error(`${currentUser.username} would lose admin access. Assign yourself the Admin role first.`);
+    }
+  }
+
+  getStorageAdapter().setItem(ACCESS_CONTROL_KEY, JSON.stringify(saved));
+  return saved;
+}
+
+// ============================================================================
+// ROLE RESOLUTION
+// ============================================================================
+
+/**
+ * Read the identity from ID token claims (roles = app roles, groups = group object IDs)
+ */
+export function userFromClaims(username: string, claims: Record<string, unknown> = {}): SignedInUser {
+  const toList = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+  return {
+    username,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    roles: toList(claims.roles),
+    groups: toList(claims.groups),
+  };
+}
+
+/**
+ * Work out the role of a user. Disabled access control grants everyone admin, which keeps
+ * single-user setups working as before; anonymous visitors are read-only (and the server
+ * returns no data to them).
+ */
+export function resolveAccess(settings: AccessControlSettings, user: SignedInUser | null): AccessContext {
+  if (!settings.enabled) {
+    return { enabled: false, user, role: 'admin', source: 'disabled' };
+  }
+  if (!user) {
+    return { enabled: true, user, role: 'read-only', source: 'anonymous' };
+  }
+
+  const assignment = settings.users.find(u => u.username.toLowerCase() === user.username.toLowerCase());
+  if (assignment) {
+    return {
+      enabled: true,
+      user,
+      role: assignment.role,
+      source: 'local',
+      agentName: assignment.role === 'agent' ? assignment.agentName || user.name : undefined,
+    };
+  }
+
+  // The most privileged role of all matching claims
+  const claimed = [...user.roles, ...user.groups]
+    .map(claim => settings.claimRoles[claim])
+    .filter((role): role is UserRole => !!role)
+    .sort((a, b) => USER_ROLES.indexOf(a) - USER_ROLES.indexOf(b))[0];
+
+  const role = claimed ?? settings.defaultRole;
+  return {
+    enabled: true,
+    user,
+    role,
+    source: claimed ? 'claims' : 'default',
+    agentName: role === 'agent' ? user.name : undefined,
+  };
+}
+
+export function hasPermission(access: AccessContext, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[access.role].includes(permission);
+}
+
+// ============================================================================
+// AGENT SELF-SERVICE
+// ============================================================================
+
+/**
+ * Calls of one agent, matched case-insensitively on the schema's participant_1 field
+ */
+export function filterCallsForAgent(
+  calls: CallRecord[],
+  schema: SchemaDefinition,
+  agentName: string | undefined
+): CallRecord[] {
+  const agentField = schema.fields.find(f => f.semanticRole === 'participant_1');
+  const wanted = agentName?.trim().toLowerCase();
+  if (!agentField || !wanted) return [];
+
+  return calls.filter(call =>
+    call.schemaId === schema.id &&
+    String(call.metadata[agentField.id] ?? '').trim().toLowerCase() === wanted
+  );
+}
+
+/**
+ * Coaching plans of one agent, matched case-insensitively on the plan's agent name
+ */
+export function filterCoachingPlansForAgent(
+  plans: CoachingPlan[],
+  agentName: string | undefined
+): CoachingPlan[] {
+  const wanted = agentName?.trim().toLowerCase();
+  if (!wanted) return [];
+  return plans.filter(plan => String(plan.agentName ?? '').trim().toLowerCase() === wanted);
+}
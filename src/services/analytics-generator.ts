@@ -4,6 +4,7 @@
  */
 
 import type { SchemaDefinition, AnalyticsView } from '../types/schema';
+import { getSpeechMeasure } from '../lib/speech-analytics';
 // These imports are for deprecated functions - use AnalyticsConfigWizard component instead
 // import { preparePrompt, extractJsonFromResponse } from '../lib/prompt-loader';
 // import { callAzureOpenAI } from '../lib/llmCaller';
@@ -151,10 +152,10 @@ export function migrateAnalyticsViews(
         migrationSuccessful = false;
       }
 
-      // Map measure field if it exists in mapping
+      // Map measure field if it exists in mapping; speech measures work with every schema
       if (measureField && fieldMapping[measureField]) {
         measureField = fieldMapping[measureField];
-      } else if (measureField && !fieldMapping[measureField]) {
+      } else if (measureField && !fieldMapping[measureField] && !getSpeechMeasure(measureField)) {
         errors.push(`View "${view.name}": measure field "${measureField}" has no mapping`);
         migrationSuccessful = false;
       }
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { loadSegmentsForSchema, saveSegmentForSchema, deleteSegmentForSchema } from './analytics-segments';
+
+describe('analytics segments', () => {
+  it('saves segments per schema, replacing by name', () => {
+    const first = saveSegmentForSchema('schema-a', 'Negative', { sentiments: ['negative'] });
+    saveSegmentForSchema('schema-a', 'Negative', { sentiments: ['negative'], scoreBands: ['low'] });
+    saveSegmentForSchema('schema-b', 'Recent', { dateFrom: '2025-09-01' });
+
+    const segments = loadSegmentsForSchema('schema-a');
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ id: first.id, filters: { scoreBands: ['low'] } });
+
+    deleteSegmentForSchema('schema-a', first.id);
+    expect(loadSegmentsForSchema('schema-a')).toEqual([]);
+    expect(loadSegmentsForSchema('schema-b')).toHaveLength(1);
+  });
+});
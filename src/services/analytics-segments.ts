@@ -0,0 +1,51 @@
+/**
+ * Analytics Segments
+ * Named filter combinations saved per schema. Segments are a browser preference,
+ * so they stay in local storage even when calls are stored on the server.
+ */
+
+import { AnalyticsSegment, CallFilters } from '../types/call';
+import { getStorageAdapter } from '../lib/storage-adapter';
+
+const SEGMENTS_KEY_PREFIX = 'analytics-segments-';
+
+/**
+ * Loads saved segments for a schema
+ */
+export function loadSegmentsForSchema(schemaId: string): AnalyticsSegment[] {
+  try {
+    const json = getStorageAdapter().getItem(`${SEGMENTS_KEY_PREFIX}${schemaId}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error loading analytics segments:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the filters as a named segment. A segment with the same name is replaced.
+ */
+export function saveSegmentForSchema(schemaId: string, name: string, filters: CallFilters): AnalyticsSegment {
+  const segments = loadSegmentsForSchema(schemaId);
+  const existing = segments.find(s => s.name === name);
+  const segment: AnalyticsSegment = {
+    id: existing?.id ?? `segment_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    schemaId,
+    name,
+    filters,
+    createdAt: new Date().toISOString(),
+  };
+
+  const next = existing ? segments.map(s => (s.id === existing.id ? segment : s)) : [...segments, segment];
+  getStorageAdapter().setItem(`${SEGMENTS_KEY_PREFIX}${schemaId}`, JSON.stringify(next));
+  console.log(`🔖 Saved segment "${name}" for schema ${schemaId}`);
+  return segment;
+}
+
+/**
+ * Deletes a saved segment
+ */
+export function deleteSegmentForSchema(schemaId: string, segmentId: string): void {
+  const segments = loadSegmentsForSchema(schemaId).filter(s => s.id !== segmentId);
+  getStorageAdapter().setItem(`${SEGMENTS_KEY_PREFIX}${schemaId}`, JSON.stringify(segments));
+}
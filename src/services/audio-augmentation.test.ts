@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { StereoPhrase } from '@/TTSCaller';
+import {
+  applyAcousticTimeline,
+  createAcousticPostProcessor,
+  findSentimentSegment,
+  getAcousticPreset,
+  speechStyleForSentiment,
+} from './audio-augmentation';
+import { TELEPHONE_SAMPLE_RATE } from '@/lib/audio-effects';
+
+const RATE = 16000;
+
+function turns(...channels: number[]): StereoPhrase[] {
+  return channels.map((channel, i) => ({ text: `phrase ${i}`, voice: 'v', channel, pauseAfterMs: 400, overlapMs: 200 }));
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+}
+
+describe('audio-augmentation', () => {
+  it('falls back to the clean studio preset', () => {
+    expect(getAcousticPreset(undefined).id).toBe('studio');
+    expect(getAcousticPreset('unknown').profile).toEqual({});
+    expect(getAcousticPreset('hold-and-transfer').profile.holdMusic?.count).toBe(2);
+  });
+
+  it('derives speaking styles from the sentiment segment of the speaker', () => {
+    const segments = [
+      { startMilliseconds: 0, endMilliseconds: 5000, speaker: 1, sentiment: 'neutral' as const },
+      { startMilliseconds: 0, endMilliseconds: 5000, speaker: 2, sentiment: 'negative' as const, intensity: 8 },
+    ];
+    const phrase = { text: 'This is the third time!', speaker: 2, offsetMilliseconds: 1000, durationMilliseconds: 2000 };
+
+    const segment = findSentimentSegment(phrase, segments);
+    expect(segment?.speaker).toBe(2);
+    expect(speechStyleForSentiment(segment, false)).toMatchObject({ style: 'angry', rate: '+15%' });
+    expect(speechStyleForSentiment(segment, true)).toMatchObject({ style: 'empathetic' });
+    expect(speechStyleForSentiment(undefined, false)).toBeUndefined();
+  });
+
+  it('adds dead air at speaker changes and nobody talks over it', () => {
+    const phrases = applyAcousticTimeline(
+      turns(0, 1, 0),
+      { deadAir: { rate: 0.5, durationMs: 4000 } },
+      { agentChannel: 0, sampleRate: RATE },
+      () => 0.1
+    );
+
+    expect(phrases.map(p => p.pauseAfterMs)).toEqual([4000, 4000, 400]);
+    expect(phrases[1].overlapMs).toBeUndefined();
+  });
+
+  it('places hold music on the agent channel after agent turns', () => {
+    const phrases = applyAcousticTimeline(
+      turns(0, 1, 0, 1, 0, 1),
+      { holdMusic: { count: 2, durationMs: 1000 } },
+      { agentChannel: 0, sampleRate: RATE }
+    );
+
+    const holds = phrases.map((p, i) => (p.audio ? i : -1)).filter(i => i >= 0);
+    expect(holds).toHaveLength(2);
+    for (const index of holds) {
+      expect(phrases[index]).toMatchObject({ channel: 0 });
+      expect(phrases[index].audio!.length).toBe(RATE);
+      expect(phrases[index - 1].channel).toBe(0);
+      expect(phrases[index + 1].overlapMs).toBeUndefined();
+    }
+  });
+
+  it('adds line noise and band-limits the mix to 8 kHz', () => {
+    expect(createAcousticPostProcessor({})).toBeUndefined();
+
+    const silence = { sampleRate: RATE, channels: [new Float32Array(RATE), new Float32Array(RATE)] };
+    const processed = createAcousticPostProcessor({ lineNoiseDb: -40, telephoneBand: true })!(silence);
+
+    expect(processed.sampleRate).toBe(TELEPHONE_SAMPLE_RATE);
+    expect(processed.channels).toHaveLength(2);
+    expect(processed.channels[0].length).toBe(TELEPHONE_SAMPLE_RATE);
+    const level = rms(processed.channels[0]);
+    expect(level).toBeGreaterThan(0.001);
+    expect(level).toBeLessThan(0.01);
+
+    const mono = createAcousticPostProcessor({}, { downmix: true })!(silence);
+    expect(mono.channels).toHaveLength(1);
+  });
+
+  it('removes low hum and high frequencies in the telephone band', () => {
+    const tone = (hz: number) => {
+      const samples = new Float32Array(RATE);
+      samples.forEach((_, i) => (samples[i] = Math.sin((2 * Math.PI * hz * i) / RATE) * 0.5));
+      return { sampleRate: RATE, channels: [samples] };
+    };
+    const band = createAcousticPostProcessor({ telephoneBand: true })!;
+    const tail = (audio: { channels: Float32Array[] }) => rms(audio.channels[0].subarray(1000));
+
+    expect(tail(band(tone(1000)))).toBeGreaterThan(0.3);
+    expect(tail(band(tone(50)))).toBeLessThan(0.05);
+    expect(tail(band(tone(7000)))).toBeLessThan(0.1);
+  });
+});
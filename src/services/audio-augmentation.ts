@@ -0,0 +1,151 @@
+/**
+ * Audio augmentation for synthetic calls
+ * Acoustic presets, sentiment-driven speaking styles, and the timeline and DSP steps
+ * that turn clean TTS into phone-like recordings. Everything runs locally on decoded PCM.
+ */
+
+import { CallSentimentSegment, TranscriptPhrase } from '@/types/call';
+import { AcousticPreset, AcousticPresetId, AcousticProfile } from '@/types/audio-augmentation';
+import type { SpeechStyle, StereoPhrase } from '@/TTSCaller';
+import { DecodedAudio, downmix } from '@/lib/audio-pcm';
+import { addLineNoise, renderHoldMusic, telephoneBandLimit } from '@/lib/audio-effects';
+
+export const DEFAULT_ACOUSTIC_PRESET: AcousticPresetId = 'studio';
+
+export const ACOUSTIC_PRESETS: AcousticPreset[] = [
+  {
+    id: 'studio',
+    name: 'Studio clean',
+    description: 'Clean TTS with natural pauses, as before',
+    profile: {},
+  },
+  {
+    id: 'call-center',
+    name: 'Call center line',
+    description: 'Telephone band, faint line noise, speaking styles from sentiment and a little crosstalk',
+    profile: { telephoneBand: true, lineNoiseDb: -50, crosstalkMs: 200, emotionStyles: true, deadAir: { rate: 0.05, durationMs: 3000 } },
+  },
+  {
+    id: 'mobile',
+    name: 'Mobile caller',
+    description: 'Noisy mobile line with occasional dead air and interruptions',
+    profile: { telephoneBand: true, lineNoiseDb: -36, bargeInRate: 0.1, emotionStyles: true, deadAir: { rate: 0.1, durationMs: 2500 } },
+  },
+  {
+    id: 'hold-and-transfer',
+    name: 'Hold and transfer',
+    description: 'Two hold music segments and long silences while the agent looks things up',
+    profile: { telephoneBand: true, lineNoiseDb: -48, emotionStyles: true, holdMusic: { count: 2, durationMs: 15000 }, deadAir: { rate: 0.15, durationMs: 4000 } },
+  },
+  {
+    id: 'heated',
+    name: 'Heated call',
+    description: 'Strong emotion styles, frequent crosstalk and barge-ins',
+    profile: { telephoneBand: true, lineNoiseDb: -44, crosstalkMs: 400, bargeInRate: 0.3, emotionStyles: true },
+  },
+];
+
+/**
+ * Preset by id; unknown or missing ids fall back to the clean studio preset
+ */
+export function getAcousticPreset(id?: string): AcousticPreset {
+  return ACOUSTIC_PRESETS.find(preset => preset.id === id)
+    ?? ACOUSTIC_PRESETS.find(preset => preset.id === DEFAULT_ACOUSTIC_PRESET)!;
+}
+
+/**
+ * Sentiment segment covering the middle of a phrase, preferring one of the same speaker
+ */
+export function findSentimentSegment(
+  phrase: TranscriptPhrase,
+  segments: CallSentimentSegment[] = []
+): CallSentimentSegment | undefined {
+  const middle = phrase.offsetMilliseconds + phrase.durationMilliseconds / 2;
+  const covering = segments.filter(s => s.startMilliseconds <= middle && middle <= s.endMilliseconds);
+  return covering.find(s => s.speaker !== undefined && s.speaker === phrase.speaker) ?? covering[0];
+}
+
+/**
+ * SSML speaking style for a sentiment: agents stay professional and soften when the
+ * call turns negative, customers get louder and faster as intensity rises
+ */
+export function speechStyleForSentiment(segment: CallSentimentSegment | undefined, isAgent: boolean): SpeechStyle | undefined {
+  if (!segment) return undefined;
+  const styleDegree = Math.min(2, Math.max(0.5, (segment.intensity ?? 5) / 5));
+
+  if (isAgent) {
+    if (segment.sentiment === 'negative') return { style: 'empathetic', styleDegree, rate: '-5%' };
+    if (segment.sentiment === 'positive') return { style: 'cheerful', styleDegree };
+    return { style: 'customerservice' };
+  }
+  if (segment.sentiment === 'negative') {
+    const heated = (segment.intensity ?? 5) >= 7;
+    return { style: heated ? 'angry' : 'unfriendly', styleDegree, rate: heated ? '+15%' : '+5%', pitch: heated ? '+5%' : undefined };
+  }
+  if (segment.sentiment === 'positive') return { style: 'friendly', styleDegree };
+  return undefined;
+}
+
+/**
+ * Add the profile's dead air and hold music to the phrase timeline. Hold music plays on
+ * the agent channel after agent turns; the phrase after a hold never overlaps it.
+ */
+export function applyAcousticTimeline(
+  phrases: StereoPhrase[],
+  profile: AcousticProfile,
+  options: { agentChannel: number; sampleRate: number },
+  random: () => number = Math.random
+): StereoPhrase[] {
+  const deadAirAfter = phrases.map((phrase, index) => {
+    const next = phrases[index + 1];
+    return !!profile.deadAir && !!next && next.channel !== phrase.channel && random() < profile.deadAir.rate;
+  });
+  const result = phrases.map((phrase, index): StereoPhrase => {
+    const waited = index > 0 && deadAirAfter[index - 1]; // Nobody talks over dead air
+    return {
+      ...phrase,
+      pauseAfterMs: deadAirAfter[index] ? profile.deadAir!.durationMs : phrase.pauseAfterMs,
+      overlapMs: waited ? undefined : phrase.overlapMs,
+      bargeIn: waited ? false : phrase.bargeIn,
+    };
+  });
+
+  if (!profile.holdMusic || profile.holdMusic.count <= 0) return result;
+
+  // Spread the holds over agent turns that are followed by more conversation
+  const candidates = result
+    .map((phrase, index) => index)
+    .filter(index => result[index].channel === options.agentChannel && index < result.length - 1);
+  const count = Math.min(profile.holdMusic.count, candidates.length);
+  const holdAfter = new Set(
+    Array.from({ length: count }, (_, i) => candidates[Math.floor(((i + 0.5) * candidates.length) / count)])
+  );
+
+  const music = renderHoldMusic(profile.holdMusic.durationMs, options.sampleRate);
+  return result.flatMap((phrase, index) => {
+    if (!holdAfter.has(index)) return [phrase];
+    const hold: StereoPhrase = { text: '', voice: '', channel: options.agentChannel, audio: music, pauseAfterMs: 600 };
+    return [{ ...phrase, pauseAfterMs: 600 }, hold];
+  }).map((phrase, index, all) => (
+    index > 0 && all[index - 1].audio ? { ...phrase, overlapMs: undefined, bargeIn: false } : phrase
+  ));
+}
+
+/**
+ * DSP applied to the mixed call: line noise, then the telephone band. Returns undefined
+ * when the profile has nothing to apply and no downmix is needed.
+ */
+export function createAcousticPostProcessor(
+  profile: AcousticProfile,
+  options: { downmix?: boolean } = {},
+  random: () => number = Math.random
+): ((audio: DecodedAudio) => DecodedAudio) | undefined {
+  if (profile.lineNoiseDb === undefined && !profile.telephoneBand && !options.downmix) return undefined;
+
+  return (audio) => {
+    let processed = options.downmix ? { ...audio, channels: [downmix(audio.channels)] } : audio;
+    if (profile.lineNoiseDb !== undefined) processed = addLineNoise(processed, profile.lineNoiseDb, random);
+    if (profile.telephoneBand) processed = telephoneBandLimit(processed);
+    return processed;
+  };
+}
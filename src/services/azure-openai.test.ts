@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { callWithJsonValidation } = vi.hoisted(() => ({ callWithJsonValidation: vi.fn() }));
+
+vi.mock('@/llmCaller', () => ({
+  LLMCaller: class {
+    callWithJsonValidation = callWithJsonValidation;
+  },
+}));
+
+vi.mock('@/lib/prompt-loader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/prompt-loader')>()),
+  preparePrompt: vi.fn(async (name: string, variables: Record<string, string>) => `${name}\n${variables.transcript}`),
+}));
+
+import { AzureOpenAIService, clearEvaluationCriteriaCache, getEvaluationCriteriaForSchema } from './azure-openai';
+import { saveRulesForSchema } from './rules-generator';
+import { createPromptVersion, pinPromptVersion } from './prompt-registry';
+import { generateDebtCollectionSchema } from './schema-compatibility';
+import { SchemaEvaluationRule } from '@/types/schema';
+import { getTemplateFixture, buildTemplateCalls } from '@/test/fixtures';
+
+const TRANSCRIPT = 'Agent: Good morning, this call is recorded. Customer: My card is 4111 1111 1111 1111.';
+
+function llmResults(results: Array<Record<string, unknown>>) {
+  callWithJsonValidation.mockResolvedValueOnce({
+    parsed: { results, overallFeedback: 'ok' },
+    rawContent: '',
+  });
+}
+
+describe('AzureOpenAIService.evaluateCall', () => {
+  const { schema, rules } = getTemplateFixture('banking-support');
+  const [call] = buildTemplateCalls(schema, 1);
+  let service: AzureOpenAIService;
+
+  beforeEach(() => {
+    callWithJsonValidation.mockReset();
+    clearEvaluationCriteriaCache();
+    saveRulesForSchema(schema.id, rules);
+    service = new AzureOpenAIService();
+  });
+
+  it('enforces scores from the rules instead of trusting the model', async () => {
+    llmResults(rules.map((rule, index) => ({
+      criterionId: index + 1,
+      score: 999,
+      passed: index % 2 === 0,
+      evidence: '',
+      reasoning: '',
+    })));
+
+    const evaluation = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+
+    const expectedScores = rules.map((rule, index) =>
+      index % 2 === 0 ? rule.scoringStandard.passed : rule.scoringStandard.failed
+    );
+    const totalScore = expectedScores.reduce((a, b) => a + b, 0);
+    const maxScore = rules.reduce((sum, r) => sum + r.scoringStandard.passed, 0);
+
+    expect(evaluation.results.map(r => r.score)).toEqual(expectedScores);
+    expect(evaluation.totalScore).toBe(totalScore);
+    expect(evaluation.maxScore).toBe(maxScore);
+    expect(evaluation.percentage).toBe(Math.round((totalScore / maxScore) * 100));
+    expect(evaluation.schemaVersion).toBe(schema.version);
+    expect(evaluation.ruleSetId).toBeTruthy();
+  });
+
+  it('awards partial credit only when the rule defines it', async () => {
+    const partialRules: SchemaEvaluationRule[] = [
+      { ...rules[0], id: 1, scoringStandard: { passed: 10, failed: 0, partial: 4 } },
+      { ...rules[1], id: 2, scoringStandard: { passed: 6, failed: 1 } },
+    ];
+    saveRulesForSchema(schema.id, partialRules);
+    clearEvaluationCriteriaCache();
+    llmResults([
+      { criterionId: 1, score: 10, passed: 'partial', evidence: '', reasoning: '' },
+      { criterionId: 2, score: 6, passed: 'partial', evidence: '', reasoning: '' },
+    ]);
+
+    const evaluation = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+
+    expect(evaluation.results.map(r => r.score)).toEqual([4, 1]);
+    expect(evaluation.totalScore).toBe(5);
+    expect(evaluation.maxScore).toBe(16);
+    expect(evaluation.percentage).toBe(31);
+  });
+
+  it('resolves criteria by name or numeric string and stores their rule id', async () => {
+    llmResults([
+      { criterionId: 'x', criterionName: rules[2].name, passed: true, evidence: '', reasoning: '' },
+      { criterionId: '1', passed: true, evidence: '', reasoning: '' },
+    ]);
+
+    const evaluation = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+
+    // Criteria left out of the response follow as failed results
+    const omitted = rules.filter((_, index) => index !== 0 && index !== 2).map(rule => rule.id);
+    expect(evaluation.results.map(r => r.criterionId)).toEqual([rules[2].id, rules[0].id, ...omitted]);
+    expect(evaluation.results.slice(0, 2).map(r => r.score)).toEqual([
+      rules[2].scoringStandard.passed,
+      rules[0].scoringStandard.passed,
+    ]);
+    expect(evaluation.results.slice(2).every(r => r.passed === false)).toBe(true);
+  });
+
+  it('sends the redacted transcript when the schema policy asks for it', async () => {
+    llmResults([{ criterionId: 1, passed: true, evidence: '', reasoning: '' }]);
+
+    await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+
+    const prompt = JSON.stringify(callWithJsonValidation.mock.calls[0][0]);
+    expect(prompt).not.toContain('4111 1111 1111 1111');
+    expect(prompt).toContain('[CREDIT_CARD]');
+  });
+
+  it('uses the pinned prompt version unless the caller picks another', async () => {
+    const version = createPromptVersion(schema.id, {
+      template: 'Pinned prompt for {{schemaName}} costing $$5\n{{criteriaText}}\n{{transcript}}',
+      notes: '',
+    });
+    pinPromptVersion(schema.id, version.id);
+    llmResults([{ criterionId: 1, passed: true, evidence: '', reasoning: '' }]);
+    llmResults([{ criterionId: 1, passed: true, evidence: '', reasoning: '' }]);
+
+    const pinned = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+    const builtIn = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id, { promptVersion: null });
+
+    const [pinnedPrompt, builtInPrompt] = callWithJsonValidation.mock.calls.map(([messages]) => messages[1].content);
+    expect(pinnedPrompt).toContain(`Pinned prompt for ${schema.name} costing $$5`);
+    expect(pinnedPrompt).toContain('[CREDIT_CARD]');
+    expect(pinned).toMatchObject({ promptVersion: 1, promptVersionId: version.id });
+    expect(builtInPrompt.startsWith('schema-call-evaluation\n')).toBe(true);
+    expect(builtIn.promptVersion).toBeUndefined();
+  });
+
+  it('falls back to the default criteria for schemas without rules', async () => {
+    const legacySchema = generateDebtCollectionSchema();
+    const criteria = getEvaluationCriteriaForSchema(legacySchema.id);
+    llmResults(criteria.map((_, index) => ({ criterionId: index + 1, passed: true, evidence: '', reasoning: '' })));
+
+    const evaluation = await service.evaluateCall(TRANSCRIPT, { agentName: 'Raj' }, legacySchema, 'call-1');
+
+    expect(evaluation.percentage).toBe(100);
+    expect(evaluation.results).toHaveLength(criteria.length);
+  });
+
+  it('rejects empty transcripts and malformed responses', async () => {
+    await expect(service.evaluateCall('  ', call.metadata, schema, call.id)).rejects.toThrow('Transcript is empty');
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    callWithJsonValidation.mockResolvedValueOnce({ parsed: { overallFeedback: 'no results' }, rawContent: '' });
+    await expect(service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id))
+      .rejects.toThrow('Invalid response format from AI - missing results array');
+
+    llmResults([{ score: 5 }]);
+    await expect(service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id))
+      .rejects.toThrow('Invalid result structure');
+  });
+});
+
+describe('AzureOpenAIService.evaluateCall with a sectioned scorecard', () => {
+  const { schema, rules } = getTemplateFixture('debt-collection');
+  const [call] = buildTemplateCalls(schema, 1);
+  const miranda = rules.findIndex(r => r.name === 'Mini-Miranda Disclosure');
+  const documentation = rules.findIndex(r => r.name === 'Documentation Offer');
+  let service: AzureOpenAIService;
+
+  beforeEach(() => {
+    callWithJsonValidation.mockReset();
+    clearEvaluationCriteriaCache();
+    saveRulesForSchema(schema.id, rules);
+    service = new AzureOpenAIService();
+  });
+
+  it('auto-fails the call when a critical criterion fails', async () => {
+    llmResults(rules.map((_, index) => ({ criterionId: index + 1, passed: index !== miranda, evidence: '', reasoning: '' })));
+
+    const evaluation = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+
+    expect(evaluation).toMatchObject({ autoFailed: true, percentage: 0, autoFailReasons: ['Mini-Miranda Disclosure'] });
+    expect(evaluation.sectionScores?.map(s => s.sectionId)).toEqual(['opening', 'compliance', 'resolution']);
+  });
+
+  it('drops N/A criteria from the denominator only when the rule allows it', async () => {
+    llmResults(rules.map((_, index) => ({
+      criterionId: index + 1,
+      passed: index !== documentation && index !== 0,
+      notApplicable: index === documentation || index === 0,
+      evidence: '',
+      reasoning: '',
+    })));
+
+    const evaluation = await service.evaluateCall(TRANSCRIPT, call.metadata, schema, call.id);
+    const fullMax = rules.reduce((sum, r) => sum + r.scoringStandard.passed, 0);
+
+    expect(evaluation.results[documentation]).toMatchObject({ notApplicable: true, score: 0 });
+    expect(evaluation.results[0].notApplicable).toBeUndefined();
+    expect(evaluation.maxScore).toBe(fullMax - rules[documentation].scoringStandard.passed);
+    expect(evaluation.percentage).toBeLessThan(100);
+    expect(evaluation.autoFailed).toBeUndefined();
+  });
+});
@@ -1,11 +1,18 @@
 import { CallMetadata, CallEvaluation, EvaluationResult, EvaluationCriterion, TranscriptPhrase, CallSentimentSegment, SentimentLabel, ProductInsight, RiskInsight, NationalityInsight, OutcomeInsight, BorrowerInsight, RiskTier, CategorizedOutcome, CallRecord, TopicInsight, TopicsAndPhrasesInsight } from '@/types/call';
-import { SchemaDefinition, TopicDefinition, SchemaEvaluationRule } from '@/types/schema';
+import { SchemaDefinition, TopicDefinition, SchemaEvaluationRule, RedactionPolicy } from '@/types/schema';
 import { EVALUATION_CRITERIA, getMaxScore } from '@/lib/evaluation-criteria';
-import { loadRulesForSchema } from '@/services/rules-generator';
+import { loadRulesForSchema, getLatestRuleSetVersion } from '@/services/rules-generator';
 import type { AzureOpenAIConfig } from '@/configManager';
 import { LLMCaller, ChatMessage, LLMCallOptions } from '../llmCaller';
-import { preparePrompt } from '@/lib/prompt-loader';
-import { BrowserConfigManager } from './browser-config-manager';
+import { preparePrompt, substitutePromptVariables } from '@/lib/prompt-loader';
+import { computeRuleSetId, appendEvaluation } from '@/lib/evaluation-history';
+import { BrowserConfigManager, isLLMConfigured } from './browser-config-manager';
+import { isRateLimitError, getBackoffDelay } from './job-queue';
+import { selectCallVariant, getRedactionVariant, redactText } from '@/lib/pii-redaction';
+import { annotateResult, resultsForMissingCriteria, scoreResults, getScorecardSections } from '@/lib/scorecard';
+import { getBuiltInPromptName, getPinnedPromptVersion, EvaluationPromptVariable } from './prompt-registry';
+import type { PromptVersion } from '@/types/prompt-registry';
+import type { UsageOperation } from '@/types/usage';
 
 // Global rules cache - can be updated by UI
 let CUSTOM_EVALUATION_CRITERIA: EvaluationCriterion[] | null = null;
@@ -41,12 +48,16 @@ export function getEvaluationCriteriaForSchema(schemaId: string): EvaluationCrit
   if (schemaRules && schemaRules.length > 0) {
     criteria = schemaRules.map(rule => ({
       id: rule.id,
+      key: rule.key,
       type: rule.type,
       name: rule.name,
       definition: rule.definition,
       evaluationCriteria: rule.evaluationCriteria,
       scoringStandard: rule.scoringStandard,
-      examples: rule.examples
+      examples: rule.examples,
+      section: rule.section,
+      critical: rule.critical,
+      allowNotApplicable: rule.allowNotApplicable,
     }));
   } else {
     // Fall back to global custom criteria or defaults
@@ -70,6 +81,23 @@ export function clearEvaluationCriteriaCache(schemaId?: string): void {
   }
 }
 
+/**
+ * Outcome of one call in batchEvaluate - either an evaluation or the error that stopped it
+ */
+export interface BatchEvaluationResult {
+  callId: string;
+  evaluation?: CallEvaluation;
+  error?: string;
+}
+
+/**
+ * Per-call overrides for evaluateCall
+ */
+export interface EvaluateCallOptions {
+  promptVersion?: PromptVersion | null;  // Undefined = the schema's pinned version, null = built-in template
+  usageOperation?: UsageOperation;       // Operation the tokens are attributed to (default "evaluation")
+}
+
 export class AzureOpenAIService {
   private config: AzureOpenAIConfig;
   private llmCaller: LLMCaller | null = null;
@@ -90,20 +118,12 @@ export class AzureOpenAIService {
   }
 
   private isConfigValid(): boolean {
-    // For managed identity, we don't need any frontend config - backend handles everything
-    if (this.config.authType === 'managedIdentity') {
-      return true;
-    }
-    // For Entra ID auth, we don't need an API key
-    if (this.config.authType === 'entraId') {
-      return !!(this.config.endpoint && this.config.deploymentName);
-    }
-    // For API key auth, we need all three
-    return !!(this.config.endpoint && this.config.apiKey && this.config.deploymentName);
+    return isLLMConfigured(this.config);
   }
 
   private initializeLLMCaller(): void {
     console.log('🔧 Initializing LLMCaller with config:', {
+      provider: this.config.provider || 'azure-openai',
       endpoint: this.config.endpoint,
       deploymentName: this.config.deploymentName,
       apiVersion: this.config.apiVersion,
@@ -130,13 +150,21 @@ export class AzureOpenAIService {
     }
   }
 
+  /**
+   * A separate service using another model deployment with the same connection settings
+   */
+  withDeployment(deploymentName: string): AzureOpenAIService {
+    return new AzureOpenAIService({ ...this.config, deploymentName });
+  }
+
   /**
    * Build evaluation prompt with criteria and insights generation (schema-aware)
    */
   private async buildEvaluationPrompt(
     transcript: string, 
     metadata: Record<string, any>,
-    schema: SchemaDefinition
+    schema: SchemaDefinition,
+    promptVersion?: PromptVersion
   ): Promise<string> {
     console.log(`📝 buildEvaluationPrompt for schema: "${schema.name}" (id: ${schema.id})`);
     
@@ -150,7 +178,9 @@ export class AzureOpenAIService {
    Definition: ${criterion.definition}
    Evaluation: ${criterion.evaluationCriteria}
    Scoring: ${criterion.scoringStandard.passed} points if passed, ${criterion.scoringStandard.failed} if failed${criterion.scoringStandard.partial ? `, ${criterion.scoringStandard.partial} if partially met` : ''}
-   Examples: ${criterion.examples.join(' | ')}`;
+   Examples: ${criterion.examples.join(' | ')}${criterion.critical ? `
+   CRITICAL: failing this criterion fails the whole call` : ''}${criterion.allowNotApplicable ? `
+   If this criterion does not apply to this call, set "notApplicable": true` : ''}`;
     }).join('\n\n');
 
     // Build dynamic metadata section from schema fields marked for prompt inclusion
@@ -173,26 +203,11 @@ export class AzureOpenAIService {
 
     // Check if schema has custom insight categories - if so, use schema-driven prompt
     const hasCustomInsights = schema.insightCategories && schema.insightCategories.length > 0;
-    
-    if (hasCustomInsights) {
-      const enabledCategories = schema.insightCategories!.filter(c => c.enabled);
-      console.log(`📝 Using schema-driven insights (${enabledCategories.length} enabled categories out of ${schema.insightCategories!.length} total)`);
-      console.log(`📝 Enabled category names: ${enabledCategories.map(c => c.name).join(', ')}`);
-      return this.buildSchemaBasedEvaluationPrompt(
-        transcript,
-        metadata,
-        schema,
-        activeCriteria,
-        criteriaText,
-        metadataFields,
-        businessContextSection,
-        topicTaxonomySection
-      );
-    }
+    const { insightInstructions, insightJsonExample } = hasCustomInsights
+      ? this.buildInsightPromptSections(schema)
+      : { insightInstructions: '', insightJsonExample: '{}' };
 
-    // Fall back to legacy prompt for backward compatibility
-    console.log(`📝 Using legacy debt-collection insights (no custom categories)`);
-    return await preparePrompt('call-evaluation', {
+    const variables: Record<EvaluationPromptVariable, string> = {
       schemaName: schema.name,
       criteriaCount: activeCriteria.length.toString(),
       businessContext: businessContextSection,
@@ -200,27 +215,36 @@ export class AzureOpenAIService {
       transcript,
       criteriaText,
       topicTaxonomySection,
+      insightInstructions,
+      insightJsonExample,
       productType: metadata.product || 'N/A',
       daysPastDue: metadata.daysPastDue || 'N/A',
       dueAmount: metadata.dueAmount || 'N/A',
       nationality: metadata.nationality || 'N/A',
       followUpStatus: metadata.followUpStatus || 'N/A'
-    });
+    };
+
+    // A prompt version from the registry replaces the built-in template
+    if (promptVersion) {
+      console.log(`📝 Using evaluation prompt v${promptVersion.version} from the prompt registry`);
+      return substitutePromptVariables(promptVersion.template, variables);
+    }
+
+    if (hasCustomInsights) {
+      const enabledCategories = schema.insightCategories!.filter(c => c.enabled);
+      console.log(`📝 Using schema-driven insights (${enabledCategories.length} enabled categories out of ${schema.insightCategories!.length} total)`);
+      console.log(`📝 Enabled category names: ${enabledCategories.map(c => c.name).join(', ')}`);
+    } else {
+      // Fall back to legacy prompt for backward compatibility
+      console.log(`📝 Using legacy debt-collection insights (no custom categories)`);
+    }
+    return await preparePrompt(getBuiltInPromptName(schema), variables);
   }
 
   /**
-   * Build a schema-driven evaluation prompt with custom insight categories
+   * Build the insight category instructions and JSON output example for schemas with custom insight categories
    */
-  private buildSchemaBasedEvaluationPrompt(
-    transcript: string,
-    metadata: Record<string, any>,
-    schema: SchemaDefinition,
-    activeCriteria: EvaluationCriterion[],
-    criteriaText: string,
-    metadataFields: string,
-    businessContextSection: string,
-    topicTaxonomySection: string
-  ): string {
+  private buildInsightPromptSections(schema: SchemaDefinition): { insightInstructions: string; insightJsonExample: string } {
     // Build insight categories section
     const insightInstructions = schema.insightCategories!.filter(c => c.enabled).map((category, idx) => {
       const outputFieldsDescription = category.outputFields.map(field => {
@@ -264,69 +288,7 @@ ${outputFieldsDescription}`;
       .replace(/"true \| false"/g, 'true')
       .replace(/"\[.*?\]"/g, '["item1", "item2"]');
 
-    return `You are an expert call center quality assurance evaluator for: ${schema.name}.
-
-Analyze the following call transcript and evaluate it against the ${activeCriteria.length} quality criteria below. Additionally, generate detailed analytical insights for business intelligence.${businessContextSection}
-
-**IMPORTANT: You MUST provide ALL responses, insights, analysis, reasoning, feedback, and recommendations in ENGLISH language only, regardless of the language used in the transcript.**
-
-CALL METADATA:
-${metadataFields}
-
-TRANSCRIPT:
-${transcript}
-
-EVALUATION CRITERIA:
-${criteriaText}
-${topicTaxonomySection}
-For each criterion, provide:
-1. criterionId (number 1-${activeCriteria.length})
-2. score (exactly 0, 5, or 10 based on the scoring standard)
-3. passed (true if score >= 10, false otherwise)
-4. evidence (exact quote from transcript if found, or "Not found" if missing)
-5. reasoning (brief explanation IN ENGLISH of why this score was given)
-
-Also provide an overallFeedback string (2-3 sentences IN ENGLISH) highlighting key strengths and areas for improvement.
-
-IMPORTANT: Additionally, generate detailed analytical insights IN ENGLISH based on the call metadata and transcript.
-
-CUSTOM INSIGHT CATEGORIES FOR THIS SCHEMA:
-${insightInstructions}
-
-6. TOPICS AND KEY PHRASES INSIGHT:
-   - Classify the call into the most relevant topic(s) from the Topic Taxonomy provided (if available)
-   - For each matched topic, provide a confidence score (0-1) and assess the sentiment within that topic context
-   - Extract 5-10 significant key phrases from the transcript that capture the main discussion points
-
-Return your evaluation and insights as a valid JSON object with this exact structure:
-{
-  "results": [
-    {
-      "criterionId": 1,
-      "score": 10,
-      "passed": true,
-      "evidence": "exact quote from transcript or description",
-      "reasoning": "brief explanation"
-    }
-  ],
-  "overallFeedback": "2-3 sentence summary",
-  "insights": {
-    "schemaInsights": ${insightJsonExample},
-    "topicsAndPhrases": {
-      "topics": [
-        {
-          "topicId": "topic-id-from-taxonomy",
-          "topicName": "Topic Display Name",
-          "confidence": 0.85,
-          "sentiment": "positive" | "negative" | "neutral"
-        }
-      ],
-      "keyPhrases": ["key phrase 1", "key phrase 2", "important term"]
-    }
-  }
-}
-
-Be thorough, fair, and specific in your evaluation. Quote exact phrases when possible. Provide detailed, actionable insights IN ENGLISH LANGUAGE ONLY for all insight categories.`;
+    return { insightInstructions, insightJsonExample };
   }
 
   /**
@@ -370,13 +332,15 @@ ${topicsText}
    * @param metadata - Call metadata (dynamic schema-based fields)
    * @param schema - Schema definition for this call
    * @param callId - Unique identifier for this call
+   * @param options - Prompt version override (defaults to the schema's pinned version)
    * @returns CallEvaluation with validated structure
    */
   async evaluateCall(
     transcript: string,
     metadata: Record<string, any>,
     schema: SchemaDefinition,
-    callId: string
+    callId: string,
+    options: EvaluateCallOptions = {}
   ): Promise<CallEvaluation> {
     if (!transcript || transcript.trim().length === 0) {
       throw new Error('Transcript is empty or invalid');
@@ -387,6 +351,15 @@ ${topicsText}
     }
 
     console.log('🔍 Starting call evaluation with LLMCaller...');
+    const promptVersion = options.promptVersion === undefined
+      ? getPinnedPromptVersion(schema.id)
+      : options.promptVersion ?? undefined;
+
+    // Apply the schema's PII redaction policy before anything reaches the model
+    const promptInput = selectCallVariant({ transcript, metadata }, schema, 'evaluation');
+    if (promptInput.variant === 'redacted') {
+      console.log('🔒 Evaluating redacted transcript and metadata');
+    }
     
     const messages: ChatMessage[] = [
       {
@@ -395,7 +368,7 @@ ${topicsText}
       },
       {
         role: 'user',
-        content: await this.buildEvaluationPrompt(transcript, metadata, schema),
+        content: await this.buildEvaluationPrompt(promptInput.transcript || transcript, promptInput.metadata, schema, promptVersion),
       },
     ];
 
@@ -454,6 +427,7 @@ ${topicsText}
         useJsonMode: false, // Rely on prompt engineering, not JSON mode
         maxRetries: 3,
         retryDelay: 1000,
+        usage: { operation: options.usageOperation ?? 'evaluation', schemaId: schema.id, callId },
       });
 
       const { parsed } = response;
@@ -472,7 +446,8 @@ ${topicsText}
       }
 
       // Validate each result and ENFORCE scores from our rules (don't trust LLM scores)
-      const correctedResults = parsed.results.map((result: any) => {
+      const assessedCriteria = new Set<EvaluationCriterion>();
+      const returnedResults: EvaluationResult[] = parsed.results.map((result: any) => {
         if (!result.criterionId || result.passed === undefined) {
           throw new Error(`Invalid result structure: ${JSON.stringify(result)}`);
         }
@@ -488,10 +463,19 @@ ${topicsText}
           console.warn(`⚠ No criterion found for ID: ${result.criterionId}, skipping enforcement`);
           return result;
         }
+        assessedCriteria.add(criterion);
         
+        // N/A only counts for criteria that allow it; otherwise the verdict stands
+        const notApplicable = result.notApplicable === true && !!criterion.allowNotApplicable;
+        if (result.notApplicable === true && !notApplicable) {
+          console.warn(`⚠ ${criterion.name} does not allow N/A, using the pass/fail verdict`);
+        }
+
         // ENFORCE the score from our rules based on pass/fail/partial status
         let enforcedScore: number;
-        if (result.passed === true) {
+        if (notApplicable) {
+          enforcedScore = 0;
+        } else if (result.passed === true) {
           enforcedScore = criterion.scoringStandard.passed;
         } else if (result.passed === 'partial' && criterion.scoringStandard.partial) {
           enforcedScore = criterion.scoringStandard.partial;
@@ -501,16 +485,31 @@ ${topicsText}
         
         console.log(`   ${criterion.name}: LLM said ${result.score}pts, enforcing ${enforcedScore}pts (${result.passed ? 'passed' : 'failed'})`);
         
-        return {
+        return annotateResult({
           ...result,
+          criterionId: criterion.id, // Rule id the prompt numbered the criterion with
+          criterionKey: criterion.key,
+          criterionName: criterion.name,
+          passed: notApplicable ? true : result.passed,
+          notApplicable: notApplicable || undefined,
           score: enforcedScore, // Override LLM score with our rule's score
-        };
+        }, criterion, schema.scorecard);
       });
 
-      const totalScore = correctedResults.reduce((sum: number, r: any) => sum + r.score, 0);
-      const maxScore = activeCriteria.reduce((sum, c) => sum + c.scoringStandard.passed, 0);
-      const percentage = Math.round((totalScore / maxScore) * 100);
+      // Criteria missing from the response count as failed, not N/A
+      const missingResults = resultsForMissingCriteria(activeCriteria, assessedCriteria, schema.scorecard);
+      if (missingResults.length > 0) {
+        console.warn(`⚠ Not assessed, scored as failed: ${missingResults.map(r => r.criterionName).join(', ')}`);
+      }
+      const correctedResults = [...returnedResults, ...missingResults];
+
+      // Weighted section scoring; N/A criteria drop out and a failed critical criterion fails the call
+      const { totalScore, maxScore, percentage, sectionScores, autoFailed, autoFailReasons } =
+        scoreResults(correctedResults, getScorecardSections(schema.scorecard));
       console.log(`📊 Final score: ${totalScore}/${maxScore} = ${percentage}%`);
+      if (autoFailed) {
+        console.log(`⛔ Auto-failed on critical criteria: ${autoFailReasons.join(', ')}`);
+      }
 
       // Parse and validate insights if present
       let productInsight: ProductInsight | undefined;
@@ -635,6 +634,9 @@ ${topicsText}
         maxScore,
         percentage,
         results: correctedResults, // Use corrected results with enforced scores
+        sectionScores,
+        autoFailed: autoFailed || undefined,
+        autoFailReasons: autoFailed ? autoFailReasons : undefined,
         overallFeedback: parsed.overallFeedback || 'Evaluation completed.',
         productInsight,
         riskInsight,
@@ -643,6 +645,12 @@ ${topicsText}
         borrowerInsight,
         topicsInsight,
         schemaInsights,  // Add schema-driven insights
+        ruleSetId: computeRuleSetId(activeCriteria),
+        ruleSetVersion: getLatestRuleSetVersion(schema.id)?.version,
+        schemaVersion: schema.version,
+        modelDeployment: this.config.deploymentName || undefined,
+        promptVersion: promptVersion?.version,
+        promptVersionId: promptVersion?.id,
       };
 
       console.log(`✓ Evaluation complete: ${percentage}% (${totalScore}/${maxScore} points)`);
@@ -658,25 +666,44 @@ ${topicsText}
     }
   }
 
+  /**
+   * Evaluate multiple calls with limited concurrency.
+   * Throttled (429) calls are retried with exponential backoff; failures are returned instead of dropped.
+   */
   async batchEvaluate(
-    calls: Array<{ transcript: string; metadata: Record<string, any>; schema: SchemaDefinition; callId: string }>
-  ): Promise<CallEvaluation[]> {
-    const results: CallEvaluation[] = [];
-
-    for (const call of calls) {
-      try {
-        const evaluation = await this.evaluateCall(
-          call.transcript,
-          call.metadata,
-          call.schema,
-          call.callId
-        );
-        results.push(evaluation);
-      } catch (error) {
-        console.error(`Failed to evaluate call ${call.callId}:`, error);
+    calls: Array<{ transcript: string; metadata: Record<string, any>; schema: SchemaDefinition; callId: string }>,
+    concurrency: number = 3,
+    maxAttempts: number = 5
+  ): Promise<BatchEvaluationResult[]> {
+    const results: BatchEvaluationResult[] = new Array(calls.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < calls.length) {
+        const index = nextIndex++;
+        const call = calls[index];
+
+        for (let attempt = 1; ; attempt++) {
+          try {
+            const evaluation = await this.evaluateCall(call.transcript, call.metadata, call.schema, call.callId);
+            results[index] = { callId: call.callId, evaluation };
+            break;
+          } catch (error) {
+            if (isRateLimitError(error) && attempt < maxAttempts) {
+              const delay = getBackoffDelay(attempt);
+              console.warn(`⏳ Evaluation of ${call.callId} throttled, retrying in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+              await new Promise(resolve => setTimeout(resolve, delay));
+              continue;
+            }
+            console.error(`Failed to evaluate call ${call.callId}:`, error);
+            results[index] = { callId: call.callId, error: error instanceof Error ? error.message : 'Unknown error' };
+            break;
+          }
+        }
       }
-    }
+    };
 
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), calls.length) }, worker));
     return results;
   }
 
@@ -736,7 +763,8 @@ ${topicsText}
     phrases: TranscriptPhrase[],
     locale = 'en-US',
     allowedSentiments: SentimentLabel[] = ['positive', 'neutral', 'negative'],
-    businessContext: string = 'call center'
+    businessContext: string = 'call center',
+    redactionPolicy?: RedactionPolicy
   ): Promise<{ segments: CallSentimentSegment[]; summary: string; customerEmotionalArc?: string; agentPerformance?: string; criticalMoments?: string[] }> {
     if (phrases.length === 0) {
       return {
@@ -751,7 +779,12 @@ ${topicsText}
 
     console.log(`🔍 Starting sentiment analysis for call ${callId}...`);
 
-    const userPrompt = await this.buildSentimentPrompt(phrases, locale, allowedSentiments, businessContext);
+    // Redacted phrases keep their timings, so returned segments still line up with the audio
+    const promptPhrases = getRedactionVariant({ redactionPolicy }, 'evaluation') === 'redacted'
+      ? phrases.map(phrase => ({ ...phrase, text: redactText(phrase.text, redactionPolicy!.detectors), lexical: undefined, words: undefined }))
+      : phrases;
+
+    const userPrompt = await this.buildSentimentPrompt(promptPhrases, locale, allowedSentiments, businessContext);
     
     // Debug: Log the prompt being sent
     console.log('🔍 Sentiment analysis prompt length:', userPrompt.length);
@@ -811,6 +844,7 @@ ${topicsText}
         useJsonMode: false,
         maxRetries: 3,
         retryDelay: 1000,
+        usage: { operation: 'sentiment-timeline', callId },
       });
 
       const { parsed } = response;
@@ -932,16 +966,18 @@ ${topicsText}
 
     console.log(`🔍 Analyzing overall sentiment for call ${callId}...`);
 
+    const promptInput = selectCallVariant({ transcript, metadata }, schema, 'evaluation');
+
     // Build dynamic metadata section
     const metadataText = schema.fields
       .filter(f => f.useInPrompt !== false)
-      .map(field => `- ${field.displayName}: ${metadata[field.id] ?? 'N/A'}`)
+      .map(field => `- ${field.displayName}: ${promptInput.metadata[field.id] ?? 'N/A'}`)
       .join('\n');
 
     const prompt = await preparePrompt('overall-sentiment-analysis', {
       schemaName: schema.name,
       metadataText,
-      transcript
+      transcript: promptInput.transcript || transcript
     });
 
     try {
@@ -960,6 +996,7 @@ ${topicsText}
         useJsonMode: false,
         maxRetries: 2,
         retryDelay: 1000,
+        usage: { operation: 'overall-sentiment', schemaId: schema.id, callId },
       });
 
       const sentiment = response.trim().toLowerCase();
@@ -1034,7 +1071,8 @@ ${topicsText}
           call.transcript!,
           call.metadata,
           call.schema,
-          call.id
+          call.id,
+          { usageOperation: 'insight-regeneration' }
         );
 
         results.push({
@@ -1059,11 +1097,13 @@ ${topicsText}
    * Generate synthetic metadata records using LLM
    * @param prompt - The generation prompt with schema and instructions
    * @param recordCount - Number of records to generate
+   * @param schemaId - Schema the generation cost is attributed to
    * @returns Object with records array containing generated metadata
    */
   async generateSyntheticData(
     prompt: string,
-    recordCount: number
+    recordCount: number,
+    schemaId?: string
   ): Promise<{ records: Record<string, any>[] }> {
     if (!this.llmCaller) {
       throw new Error('Azure OpenAI is not configured. Please configure the service in Settings.');
@@ -1089,6 +1129,7 @@ ${topicsText}
           useJsonMode: true,
           maxRetries: 3,
           retryDelay: 2000,
+          usage: { operation: 'synthetic-metadata', schemaId },
         }
       );
 
@@ -1215,6 +1256,7 @@ Return ONLY the JSON object, no other text.`;
         {
           useJsonMode: true,
           maxTokens: 2000,
+          usage: { operation: 'synthetic-transcript', schemaId: schema.id },
         }
       );
 
@@ -1354,12 +1396,22 @@ Return ONLY the JSON object, no other text.`;
   validateConfig(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    if (!this.config.endpoint) {
-      errors.push('Azure OpenAI endpoint is required');
+    if (this.config.provider === 'mock') {
+      return { valid: true, errors };
     }
 
-    if (!this.config.apiKey) {
-      errors.push('Azure OpenAI API key is required');
+    if (this.config.provider === 'openai-compatible') {
+      if (!this.config.baseUrl && !this.config.endpoint) {
+        errors.push('OpenAI-compatible base URL is required');
+      }
+    } else {
+      if (!this.config.endpoint) {
+        errors.push('Azure OpenAI endpoint is required');
+      }
+
+      if (!this.config.apiKey) {
+        errors.push('Azure OpenAI API key is required');
+      }
     }
 
     if (!this.config.deploymentName) {
@@ -1397,7 +1449,7 @@ export async function regenerateInsights(
   const updatedCalls = calls.map((call) => {
     const result = results.find((r) => r.id === call.id);
     if (result) {
-      return { ...call, evaluation: result.evaluation };
+      return appendEvaluation(call, result.evaluation);
     }
     return call;
   });
@@ -33,6 +33,7 @@ class AzureTokenService {
   private pendingLoginPromise: Promise<string> | null = null;
   private loginInProgress: boolean = false;
   private currentConfig: EntraIdConfiguration | null = null;
+  private accountListeners = new Set<(account: AccountInfo | null) => void>();
 
   /**
    * Configure the token service with App Registration details
@@ -45,7 +46,7 @@ class AzureTokenService {
       console.log('🔐 Entra ID configuration changed, reinitializing...');
       this.msalInstance = null;
       this.initPromise = null;
-      this.currentAccount = null;
+      this.setAccount(null);
       this.tokenCache.clear();
     }
     this.currentConfig = config;
@@ -98,8 +99,8 @@ class AzureTokenService {
     // Check for existing accounts
     const accounts = this.msalInstance.getAllAccounts();
     if (accounts.length > 0) {
-      this.currentAccount = accounts[0];
-      console.log('🔐 Found existing MSAL account:', this.currentAccount.username);
+      this.setAccount(accounts[0]);
+      console.log('🔐 Found existing MSAL account:', accounts[0].username);
     }
   }
 
@@ -173,7 +174,7 @@ class AzureTokenService {
       }
 
       // Update current account
-      this.currentAccount = response.account;
+      this.setAccount(response.account);
 
       // Cache the token
       const expiresAt = response.expiresOn?.getTime() || (Date.now() + 3600000);
@@ -243,6 +244,68 @@ class AzureTokenService {
     return this.currentAccount !== null;
   }
 
+  /**
+   * Sign in to identify the user (access control) without requesting a service token
+   */
+  async signIn(): Promise<AccountInfo> {
+    await this.ensureInitialized();
+    const response = await this.msalInstance!.loginPopup({ scopes: ['openid', 'profile'] });
+    this.setAccount(response.account);
+    console.log('🔐 Signed in as', response.account.username);
+    return response.account;
+  }
+
+  /**
+   * ID token of the signed-in user, renewed silently, for calls to the backend API.
+   * Null when nobody is signed in or the sign-in cannot be renewed without a popup.
+   */
+  async getIdToken(): Promise<string | null> {
+    if (!this.isConfigured()) return null;
+    await this.ensureInitialized();
+    if (!this.currentAccount) return null;
+    try {
+      const response = await this.msalInstance!.acquireTokenSilent({ scopes: ['openid', 'profile'], account: this.currentAccount });
+      return response.idToken || null;
+    } catch (error) {
+      console.warn('🔐 Could not renew the sign-in token:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Load a previous sign-in from the MSAL cache without opening a popup
+   */
+  async restoreAccount(): Promise<AccountInfo | null> {
+    if (!this.isConfigured()) return null;
+    await this.ensureInitialized();
+    return this.currentAccount;
+  }
+
+  /**
+   * Get the current account, including its ID token claims
+   */
+  getCurrentAccount(): AccountInfo | null {
+    return this.currentAccount;
+  }
+
+  /**
+   * Be notified when the user signs in or out; returns an unsubscribe function
+   */
+  onAccountChange(listener: (account: AccountInfo | null) => void): () => void {
+    this.accountListeners.add(listener);
+    return () => {
+      this.accountListeners.delete(listener);
+    };
+  }
+
+  private setAccount(account: AccountInfo | null): void {
+    const changed = this.currentAccount?.homeAccountId !== account?.homeAccountId;
+    this.currentAccount = account;
+    if (changed) {
+      this.accountListeners.forEach(listener => listener(account));
+    }
+  }
+
   /**
    * Get the current logged-in user's email/username
    */
@@ -258,7 +321,7 @@ class AzureTokenService {
       await this.msalInstance.logoutPopup({
         account: this.currentAccount,
       });
-      this.currentAccount = null;
+      this.setAccount(null);
       this.tokenCache.clear();
       console.log('🔐 Logged out');
     }
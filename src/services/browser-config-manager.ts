@@ -3,11 +3,14 @@
  * 
  * Shared ConfigManager implementation for browser environment.
  * Bridges AzureOpenAIConfig with ConfigManager interface expected by LLMCaller.
- * Supports both API Key and Entra ID authentication.
+ * Supports both API Key and Entra ID authentication, and exposes the recording
+ * store used by the offline mock provider.
  */
 
-import type { AzureOpenAIConfig, ConfigManager } from '@/configManager';
+import type { AzureOpenAIConfig, ConfigManager, LLMRecordingStore } from '@/configManager';
+import type { AzureServicesConfig } from '@/types/config';
 import { azureTokenService } from './azure-token';
+import { llmRecordingStore } from './llm-recordings';
 
 /**
  * ConfigManager implementation for browser that supports Entra ID auth
@@ -15,6 +18,7 @@ import { azureTokenService } from './azure-token';
 export class BrowserConfigManager implements ConfigManager {
   constructor(private config: AzureOpenAIConfig) {
     console.log('📦 BrowserConfigManager created with:', {
+      provider: config.provider || 'azure-openai',
       authType: config.authType || 'apiKey',
       reasoningEffort: config.reasoningEffort,
       hasApiKey: !!config.apiKey,
@@ -44,6 +48,10 @@ export class BrowserConfigManager implements ConfigManager {
   getMaxRetries(): number {
     return 3; // Default retry count
   }
+
+  getRecordingStore(): LLMRecordingStore {
+    return llmRecordingStore;
+  }
 }
 
 /**
@@ -52,3 +60,45 @@ export class BrowserConfigManager implements ConfigManager {
 export function createBrowserConfigManager(config: AzureOpenAIConfig): ConfigManager {
   return new BrowserConfigManager(config);
 }
+
+/**
+ * Check whether an LLM config has what its provider needs to make calls
+ */
+export function isLLMConfigured(config?: Partial<AzureOpenAIConfig> | null): boolean {
+  if (!config) return false;
+
+  switch (config.provider) {
+    case 'mock':
+      return true;
+    case 'openai-compatible':
+      return !!((config.baseUrl || config.endpoint) && config.deploymentName);
+  }
+
+  // Managed identity - backend handles everything
+  if (config.authType === 'managedIdentity') {
+    return true;
+  }
+  // Entra ID auth doesn't need an API key
+  if (config.authType === 'entraId') {
+    return !!(config.endpoint && config.deploymentName);
+  }
+  return !!(config.endpoint && config.apiKey && config.deploymentName);
+}
+
+/**
+ * Build the LLMCaller config from the stored Azure services OpenAI settings
+ */
+export function toLLMConfig(openAI: AzureServicesConfig['openAI']): AzureOpenAIConfig {
+  return {
+    endpoint: openAI.endpoint,
+    apiKey: openAI.apiKey,
+    deploymentName: openAI.deploymentName,
+    apiVersion: openAI.apiVersion,
+    reasoningEffort: openAI.reasoningEffort,
+    authType: openAI.authType,
+    tenantId: openAI.tenantId,
+    provider: openAI.provider,
+    baseUrl: openAI.baseUrl,
+    recordResponses: openAI.recordResponses,
+  };
+}
@@ -5,6 +5,8 @@ import * as XLSX from 'xlsx';
 import JSZip from 'jszip';
 import { CallRecord } from '@/types/call';
 import { getAudioFile } from '@/lib/audio-storage';
+import { getSchemaById } from '@/services/schema-manager';
+import { getRedactionPolicy, redactText, selectCallVariant } from '@/lib/pii-redaction';
 
 export interface ExportProgress {
   current: number;
@@ -12,10 +14,25 @@ export interface ExportProgress {
   status: string;
 }
 
+/**
+ * Transcript, metadata and free text for one call under its schema's export redaction policy
+ */
+function getExportView(call: CallRecord) {
+  const schema = getSchemaById(call.schemaId);
+  const view = selectCallVariant(call, schema, 'export');
+  const detectors = getRedactionPolicy(schema).detectors;
+  return {
+    ...view,
+    // Model output (evidence, summaries) can quote the transcript verbatim
+    text: (value: string | undefined) => (view.variant === 'redacted' && value ? redactText(value, detectors) : value),
+  };
+}
+
 /**
  * Export calls with audio files to a ZIP containing:
  * - Audio files in an 'audio' folder
  * - Excel file with metadata and audio file references
+ * Transcripts and metadata are redacted when the call's schema policy says so.
  */
 export async function exportCallsWithAudio(
   calls: CallRecord[],
@@ -41,12 +58,13 @@ export async function exportCallsWithAudio(
 
   for (const call of callsWithAudio) {
     processedCount++;
+    const view = getExportView(call);
     
     if (onProgress) {
       onProgress({
         current: processedCount,
         total,
-        status: `Processing call ${processedCount}/${total}: ${call.metadata?.borrowerName || call.id}`
+        status: `Processing call ${processedCount}/${total}: ${view.metadata?.borrowerName || call.id}`
       });
     }
 
@@ -83,19 +101,20 @@ export async function exportCallsWithAudio(
       'Updated At': call.updatedAt,
       'Schema ID': call.schemaId,
       'Schema Version': call.schemaVersion,
+      'PII Redaction': view.variant,
     };
 
     // Add metadata fields
-    if (call.metadata) {
-      for (const [key, value] of Object.entries(call.metadata)) {
+    if (view.metadata) {
+      for (const [key, value] of Object.entries(view.metadata)) {
         // Convert complex objects to JSON strings
         row[`Metadata: ${key}`] = typeof value === 'object' ? JSON.stringify(value) : value;
       }
     }
 
     // Add transcript data
-    if (call.transcript) {
-      row['Transcript'] = call.transcript;
+    if (view.transcript) {
+      row['Transcript'] = view.transcript;
       row['Transcript Confidence'] = call.transcriptConfidence;
       row['Transcript Locale'] = call.transcriptLocale;
       row['Transcript Duration (ms)'] = call.transcriptDuration;
@@ -107,14 +126,18 @@ export async function exportCallsWithAudio(
       row['Total Score'] = call.evaluation.totalScore;
       row['Max Score'] = call.evaluation.maxScore;
       row['Score Percentage'] = call.evaluation.percentage;
-      row['Overall Feedback'] = call.evaluation.overallFeedback;
+      row['Auto-Failed'] = call.evaluation.autoFailed ? `Yes (${call.evaluation.autoFailReasons?.join(', ')})` : 'No';
+      call.evaluation.sectionScores?.forEach(section => {
+        row[`Section: ${section.name}`] = section.maxScore > 0 ? section.percentage : 'N/A';
+      });
+      row['Overall Feedback'] = view.text(call.evaluation.overallFeedback);
       
       // Add evaluation results summary
       if (call.evaluation.results && call.evaluation.results.length > 0) {
-        const passed = call.evaluation.results.filter(r => r.passed).length;
-        const failed = call.evaluation.results.filter(r => !r.passed).length;
-        row['Criteria Passed'] = passed;
-        row['Criteria Failed'] = failed;
+        const applicable = call.evaluation.results.filter(r => !r.notApplicable);
+        row['Criteria Passed'] = applicable.filter(r => r.passed).length;
+        row['Criteria Failed'] = applicable.filter(r => !r.passed).length;
+        row['Criteria N/A'] = call.evaluation.results.length - applicable.length;
       }
     }
 
@@ -124,7 +147,7 @@ export async function exportCallsWithAudio(
     }
     
     if (call.sentimentSummary) {
-      row['Sentiment Summary'] = call.sentimentSummary;
+      row['Sentiment Summary'] = view.text(call.sentimentSummary);
     }
 
     if (call.sentimentSegments && call.sentimentSegments.length > 0) {
@@ -155,15 +178,19 @@ export async function exportCallsWithAudio(
     
     for (const call of callsWithEvaluation) {
       if (call.evaluation && call.evaluation.results) {
+        const view = getExportView(call);
         for (const result of call.evaluation.results) {
           evaluationData.push({
             'Call ID': call.id,
-            'Borrower Name': call.metadata?.borrowerName || 'N/A',
+            'Borrower Name': view.metadata?.borrowerName || 'N/A',
             'Criterion ID': result.criterionId,
+            'Criterion Key': result.criterionKey || '',
+            'Criterion': result.criterionName || '',
             'Score': result.score,
-            'Passed': result.passed ? 'Yes' : 'No',
-            'Evidence': result.evidence,
-            'Reasoning': result.reasoning
+            'Passed': result.notApplicable ? 'N/A' : result.passed ? 'Yes' : 'No',
+            'Critical': result.critical ? 'Yes' : '',
+            'Evidence': view.text(result.evidence),
+            'Reasoning': view.text(result.reasoning)
           });
         }
       }
@@ -175,8 +202,11 @@ export async function exportCallsWithAudio(
         { wch: 25 }, // Call ID
         { wch: 20 }, // Borrower Name
         { wch: 15 }, // Criterion ID
+        { wch: 30 }, // Criterion Key
+        { wch: 35 }, // Criterion
         { wch: 10 }, // Score
         { wch: 10 }, // Passed
+        { wch: 10 }, // Critical
         { wch: 50 }, // Evidence
         { wch: 50 }  // Reasoning
       ];
@@ -191,10 +221,11 @@ export async function exportCallsWithAudio(
     
     for (const call of callsWithSentiment) {
       if (call.sentimentSegments) {
+        const view = getExportView(call);
         for (const segment of call.sentimentSegments) {
           sentimentData.push({
             'Call ID': call.id,
-            'Borrower Name': call.metadata?.borrowerName || 'N/A',
+            'Borrower Name': view.metadata?.borrowerName || 'N/A',
             'Start Time (ms)': segment.startMilliseconds,
             'End Time (ms)': segment.endMilliseconds,
             'Duration (s)': ((segment.endMilliseconds - segment.startMilliseconds) / 1000).toFixed(2),
@@ -202,9 +233,9 @@ export async function exportCallsWithAudio(
             'Sentiment': segment.sentiment,
             'Intensity': segment.intensity !== undefined ? `${segment.intensity}/10` : 'N/A',
             'Confidence': segment.confidence !== undefined ? segment.confidence.toFixed(3) : 'N/A',
-            'Summary': segment.summary || '',
-            'Rationale': segment.rationale || '',
-            'Emotional Triggers': segment.emotionalTriggers ? segment.emotionalTriggers.join(', ') : ''
+            'Summary': view.text(segment.summary) || '',
+            'Rationale': view.text(segment.rationale) || '',
+            'Emotional Triggers': segment.emotionalTriggers ? view.text(segment.emotionalTriggers.join(', ')) : ''
           });
         }
       }
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prompt-loader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/prompt-loader')>()),
+  preparePrompt: vi.fn(async (name: string, variables: Record<string, string>) => `${name}\n${variables.weakCriteria}`),
+}));
+
+import { preparePrompt } from '@/lib/prompt-loader';
+import { EVALUATION_CRITERIA } from '@/lib/evaluation-criteria';
+import { CallRecord } from '@/types/call';
+import { CoachingPlan } from '@/types/coaching';
+import { loadDebtCollectionCalls, withEvaluation } from '@/test/fixtures';
+import {
+  findWeakCriteria,
+  generateCoachingPlan,
+  getCurrentPlanForAgent,
+  loadCoachingPlans,
+  recordCoachingSession,
+  refreshCoachingProgress,
+  saveCoachingPlan,
+  updatePlanProgress,
+} from './coaching';
+
+const criteria = EVALUATION_CRITERIA.slice(0, 3);
+
+function agentCalls(agentName: string): CallRecord[] {
+  return loadDebtCollectionCalls().calls.filter(c => c.metadata.agent_name === agentName);
+}
+
+function setup() {
+  const { schema } = loadDebtCollectionCalls();
+  const [raj1, raj2] = agentCalls('Raj');
+  const [bev1, bev2] = agentCalls('Bev');
+  const calls = [
+    withEvaluation(raj1, criteria, [true, false, false]),
+    withEvaluation(raj2, criteria, [true, false, true]),
+    withEvaluation(bev1, criteria, [true, true, true]),
+    withEvaluation(bev2, criteria, [true, true, false]),
+  ];
+  return { schema, calls };
+}
+
+function fakeLLM(parsed: unknown) {
+  return { callWithJsonValidation: vi.fn().mockResolvedValue({ parsed, rawContent: JSON.stringify(parsed) }) };
+}
+
+function laterEvaluations(agentName: string, verdicts: boolean[][], evaluatedAt: string): CallRecord[] {
+  const template = agentCalls(agentName)[0];
+  return verdicts.map((v, i) => {
+    const call = withEvaluation({ ...template, id: `${template.id}_later_${i}` }, criteria, v);
+    return { ...call, evaluation: { ...call.evaluation!, evaluatedAt } };
+  });
+}
+
+describe('findWeakCriteria', () => {
+  it('returns failed criteria from the lowest pass rate with failing evidence', () => {
+    const { calls } = setup();
+    const weak = findWeakCriteria(calls, 'Raj', criteria);
+
+    expect(weak.map(w => w.criterion.key)).toEqual([criteria[1].key, criteria[2].key]);
+    expect(weak[0].passRate).toBe(0);
+    expect(weak[0].evaluated).toBe(2);
+    expect(weak[0].failingEvidence).toEqual([`${criteria[1].name} not met`, `${criteria[1].name} not met`]);
+    expect(weak[1].passRate).toBe(50);
+    expect(findWeakCriteria(calls, 'Nobody', criteria)).toEqual([]);
+  });
+});
+
+describe('generateCoachingPlan', () => {
+  beforeEach(() => {
+    vi.mocked(preparePrompt).mockClear();
+  });
+
+  it('ties goals to weak criteria and clamps targets above the baseline', async () => {
+    const { schema, calls } = setup();
+    const llm = fakeLLM({
+      summary: 'Work on call openings',
+      goals: [
+        { criterionName: criteria[2].name, description: 'Say the recording line', targetPassRate: 40, dueInDays: 14 },
+        { criterionName: criteria[1].name.toUpperCase(), description: 'Greet politely', targetPassRate: 150 },
+      ],
+    });
+
+    const plan = await generateCoachingPlan(llm, schema, 'Raj', calls, criteria);
+
+    expect(preparePrompt).toHaveBeenCalledWith('coaching-plan', expect.objectContaining({ agentName: 'Raj' }));
+    expect(vi.mocked(preparePrompt).mock.calls[0][1].weakCriteria).toContain(`Failing evidence: "${criteria[1].name} not met"`);
+
+    expect(plan.summary).toBe('Work on call openings');
+    expect(plan.status).toBe('active');
+    expect(plan.goals).toHaveLength(2);
+
+    const [first, second] = plan.goals;
+    expect(first).toMatchObject({ criterionKey: criteria[1].key, description: 'Greet politely', baselinePassRate: 0, targetPassRate: 100, status: 'open' });
+    expect(second).toMatchObject({ criterionKey: criteria[2].key, description: 'Say the recording line', baselinePassRate: 50, targetPassRate: 55 });
+
+    const days = (iso: string) => Math.round((new Date(iso).getTime() - new Date(plan.createdAt.split('T')[0]).getTime()) / 86400000);
+    expect(days(first.dueDate)).toBe(30);
+    expect(days(second.dueDate)).toBe(14);
+  });
+
+  it('attaches the agent\'s failures and the best passing calls as examples', async () => {
+    const { schema, calls } = setup();
+    const plan = await generateCoachingPlan(fakeLLM({}), schema, 'Raj', calls, criteria);
+
+    const greeting = plan.examples.filter(e => e.criterionKey === criteria[1].key);
+    expect(greeting.filter(e => e.kind === 'bad').map(e => e.agentName)).toEqual(['Raj', 'Raj']);
+    expect(greeting.filter(e => e.kind === 'good').map(e => e.agentName)).toEqual(['Bev', 'Bev']);
+    expect(plan.examples.every(e => calls.some(c => c.id === e.callId))).toBe(true);
+  });
+
+  it('refuses agents with nothing to coach on', async () => {
+    const { schema, calls } = setup();
+    const llm = fakeLLM({});
+    await expect(generateCoachingPlan(llm, schema, 'Nobody', calls, criteria)).rejects.toThrow('nothing to coach on');
+    expect(llm.callWithJsonValidation).not.toHaveBeenCalled();
+  });
+});
+
+describe('coaching progress', () => {
+  async function createPlan(): Promise<{ plan: CoachingPlan; calls: CallRecord[] }> {
+    const { schema, calls } = setup();
+    const plan = await generateCoachingPlan(fakeLLM({}), schema, 'Raj', calls, criteria);
+    // Pretend the plan was created before the sample calls were evaluated
+    return { plan: { ...plan, createdAt: '2025-01-01T00:00:00.000Z', goals: plan.goals.map(g => ({ ...g, dueDate: '2025-12-31' })) }, calls };
+  }
+
+  it('achieves goals once enough later evaluations reach the target', async () => {
+    const { plan, calls } = await createPlan();
+    const later = laterEvaluations('Raj', [[true, true, true], [true, true, true], [true, true, true]], '2025-10-01T00:00:00.000Z');
+
+    // Sample calls alone: 0% on greeting, below target
+    const before = updatePlanProgress(plan, calls, criteria, new Date('2025-10-02'));
+    expect(before.goals[0]).toMatchObject({ status: 'open', currentPassRate: 0, evaluatedSince: 2 });
+
+    const after = updatePlanProgress(before, [...calls.slice(2), ...later], criteria, new Date('2025-10-02'));
+    expect(after.goals.every(g => g.status === 'achieved')).toBe(true);
+    expect(after.goals[0].achievedAt).toBe(new Date('2025-10-02').toISOString());
+    expect(after.status).toBe('completed');
+
+    // Achieved goals stay achieved when later calls slip
+    const slipped = updatePlanProgress(after, calls, criteria, new Date('2026-02-01'));
+    expect(slipped.goals.every(g => g.status === 'achieved')).toBe(true);
+  });
+
+  it('needs a minimum number of results and misses goals past their due date', async () => {
+    const { plan } = await createPlan();
+    const later = laterEvaluations('Raj', [[true, true, true], [true, true, true]], '2025-10-01T00:00:00.000Z');
+
+    const open = updatePlanProgress(plan, later, criteria, new Date('2025-10-02'));
+    expect(open.goals[0]).toMatchObject({ status: 'open', currentPassRate: 100, evaluatedSince: 2 });
+
+    const missed = updatePlanProgress(open, later, criteria, new Date('2026-01-01'));
+    expect(missed.goals.map(g => g.status)).toEqual(['missed', 'missed']);
+    expect(missed.status).toBe('active');
+
+    expect(updatePlanProgress(missed, later, criteria, new Date('2026-01-01'))).toBe(missed);
+  });
+
+  it('refreshes stored plans and leaves archived plans alone', async () => {
+    const { plan, calls } = await createPlan();
+    const archived = { ...plan, id: 'plan_archived', status: 'archived' as const };
+    saveCoachingPlan(plan);
+    saveCoachingPlan(archived);
+
+    expect(refreshCoachingProgress(plan.schemaId, calls, criteria)).toBe(1);
+    expect(refreshCoachingProgress(plan.schemaId, calls, criteria)).toBe(0);
+
+    const stored = loadCoachingPlans(plan.schemaId);
+    expect(stored.find(p => p.id === plan.id)!.goals[0].evaluatedSince).toBe(2);
+    expect(stored.find(p => p.id === archived.id)).toEqual(archived);
+    expect(getCurrentPlanForAgent(plan.schemaId, 'Raj')!.id).toBe(plan.id);
+  });
+});
+
+describe('recordCoachingSession', () => {
+  it('appends sessions to the stored plan', async () => {
+    const { schema, calls } = setup();
+    const plan = await generateCoachingPlan(fakeLLM({}), schema, 'Raj', calls, criteria);
+    saveCoachingPlan(plan);
+
+    const updated = recordCoachingSession(schema.id, plan.id, {
+      date: '2025-10-03T10:00:00.000Z',
+      supervisor: 'Sam',
+      notes: 'Listened to two calls together',
+      goalIds: [plan.goals[0].id],
+    });
+
+    expect(updated!.sessions).toHaveLength(1);
+    expect(updated!.sessions[0].id).toBeTruthy();
+    expect(loadCoachingPlans(schema.id)[0].sessions[0]).toMatchObject({ supervisor: 'Sam', goalIds: [plan.goals[0].id] });
+    expect(recordCoachingSession(schema.id, 'missing', updated!.sessions[0])).toBeUndefined();
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Coaching Plans Service
+ * Turns an agent's weakest criteria into a coaching plan with measurable goals,
+ * example calls and a log of supervisor sessions. Goal progress is recomputed
+ * from evaluations that arrive after the plan was created.
+ */
+
+import type { LLMCaller, ChatMessage } from '../llmCaller';
+import type { CallRecord, EvaluationCriterion, EvaluationResult } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import type { CoachingExampleCall, CoachingGoal, CoachingPlan, CoachingSession } from '../types/coaching';
+import { preparePrompt } from '../lib/prompt-loader';
+import { getStorageAdapter } from '../lib/storage-adapter';
+import { findCriterionResult, getAgentNameFromCall } from '../lib/analytics';
+import { getRedactionVariant, redactText } from '../lib/pii-redaction';
+
+const COACHING_KEY_PREFIX = 'coaching-plans-';
+
+/** Days until a goal is due when the model does not suggest a date */
+export const DEFAULT_GOAL_DAYS = 30;
+
+/** Evaluations a goal needs since the plan started before it can be achieved */
+export const MIN_RESULTS_FOR_GOAL = 3;
+
+const MAX_WEAK_CRITERIA = 3;
+const MAX_EVIDENCE_QUOTES = 3;
+const MAX_EXAMPLES_PER_KIND = 2;
+
+export interface WeakCriterion {
+  criterion: EvaluationCriterion;
+  criterionIndex: number;
+  passRate: number;                // 0-100
+  evaluated: number;               // Applicable results for the agent
+  failingEvidence: string[];       // Evidence quotes from failed results, most recent first
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Loads the coaching plans of a schema
+ */
+export function loadCoachingPlans(schemaId: string): CoachingPlan[] {
+  try {
+    const json = getStorageAdapter().getItem(`${COACHING_KEY_PREFIX}${schemaId}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error loading coaching plans:', error);
+    return [];
+  }
+}
+
+/**
+ * Replaces the coaching plans of a schema
+ */
+export function saveCoachingPlans(schemaId: string, plans: CoachingPlan[]): void {
+  getStorageAdapter().setItem(`${COACHING_KEY_PREFIX}${schemaId}`, JSON.stringify(plans));
+}
+
+/**
+ * Adds or updates a single plan
+ */
+export function saveCoachingPlan(plan: CoachingPlan): void {
+  const plans = loadCoachingPlans(plan.schemaId);
+  const exists = plans.some(p => p.id === plan.id);
+  saveCoachingPlans(plan.schemaId, exists ? plans.map(p => (p.id === plan.id ? plan : p)) : [...plans, plan]);
+}
+
+/**
+ * Deletes a plan
+ */
+export function deleteCoachingPlan(schemaId: string, planId: string): void {
+  saveCoachingPlans(schemaId, loadCoachingPlans(schemaId).filter(p => p.id !== planId));
+}
+
+/**
+ * The agent's most recent plan that is not archived
+ */
+export function getCurrentPlanForAgent(schemaId: string, agentName: string): CoachingPlan | undefined {
+  return loadCoachingPlans(schemaId)
+    .filter(p => p.agentName === agentName && p.status !== 'archived')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+}
+
+// ============================================================================
+// PLAN INPUTS
+// ============================================================================
+
+function evaluatedAgentCalls(calls: CallRecord[], agentName: string): CallRecord[] {
+  return calls
+    .filter(c => c.evaluation && getAgentNameFromCall(c) === agentName)
+    .sort((a, b) => b.evaluation!.evaluatedAt.localeCompare(a.evaluation!.evaluatedAt));
+}
+
+function applicableResult(call: CallRecord, criterion: EvaluationCriterion): EvaluationResult | undefined {
+  const result = call.evaluation && findCriterionResult(call.evaluation.results, criterion);
+  return result && !result.notApplicable ? result : undefined;
+}
+
+function resultEvidence(result: EvaluationResult): string {
+  return (result.evidence || result.reasoning || '').trim();
+}
+
+/**
+ * The agent's criteria with the lowest pass rates (only criteria they have failed)
+ */
+export function findWeakCriteria(
+  calls: CallRecord[],
+  agentName: string,
+  criteria: EvaluationCriterion[],
+  limit = MAX_WEAK_CRITERIA
+): WeakCriterion[] {
+  const agentCalls = evaluatedAgentCalls(calls, agentName);
+
+  return criteria
+    .map((criterion, criterionIndex) => {
+      const results = agentCalls
+        .map(call => applicableResult(call, criterion))
+        .filter((r): r is EvaluationResult => r !== undefined);
+      const failed = results.filter(r => !r.passed);
+      return {
+        criterion,
+        criterionIndex,
+        passRate: results.length > 0 ? ((results.length - failed.length) / results.length) * 100 : 100,
+        evaluated: results.length,
+        failingEvidence: failed.map(resultEvidence).filter(Boolean).slice(0, MAX_EVIDENCE_QUOTES),
+      };
+    })
+    .filter(w => w.passRate < 100)
+    .sort((a, b) => a.passRate - b.passRate || b.evaluated - a.evaluated)
+    .slice(0, limit);
+}
+
+/**
+ * Example calls for each weak criterion: the agent's own failures, and the
+ * best-scoring calls in the schema where the criterion was passed
+ */
+export function selectExampleCalls(
+  calls: CallRecord[],
+  agentName: string,
+  weakCriteria: WeakCriterion[]
+): CoachingExampleCall[] {
+  const evaluated = calls.filter(c => c.evaluation);
+  const byScore = [...evaluated].sort((a, b) => b.evaluation!.percentage - a.evaluation!.percentage);
+
+  return weakCriteria.flatMap(({ criterion, criterionIndex }) => {
+    const example = (call: CallRecord, result: EvaluationResult, kind: 'good' | 'bad'): CoachingExampleCall => ({
+      callId: call.id,
+      kind,
+      criterionKey: criterion.key,
+      criterionName: criterion.name,
+      agentName: getAgentNameFromCall(call),
+      percentage: call.evaluation!.percentage,
+      evidence: resultEvidence(result),
+    });
+
+    const bad = evaluatedAgentCalls(calls, agentName)
+      .map(call => ({ call, result: applicableResult(call, criterion) }))
+      .filter(({ result }) => result && !result.passed)
+      .slice(0, MAX_EXAMPLES_PER_KIND)
+      .map(({ call, result }) => example(call, result!, 'bad'));
+
+    const good = byScore
+      .map(call => ({ call, result: applicableResult(call, criterion) }))
+      .filter(({ result }) => result?.passed)
+      .slice(0, MAX_EXAMPLES_PER_KIND)
+      .map(({ call, result }) => example(call, result!, 'good'));
+
+    return [...bad, ...good];
+  });
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+function addDays(date: Date, days: number): string {
+  const due = new Date(date);
+  due.setDate(due.getDate() + days);
+  return due.toISOString().split('T')[0];
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Generate a coaching plan for an agent from their weakest criteria.
+ * The model writes the goal descriptions and suggests targets and due dates;
+ * goals are always tied to the weak criteria found in the evaluations.
+ */
+export async function generateCoachingPlan(
+  llmCaller: Pick<LLMCaller, 'callWithJsonValidation'>,
+  schema: SchemaDefinition,
+  agentName: string,
+  calls: CallRecord[],
+  criteria: EvaluationCriterion[]
+): Promise<CoachingPlan> {
+  const weakCriteria = findWeakCriteria(calls, agentName, criteria);
+  if (weakCriteria.length === 0) {
+    throw new Error(`${agentName} has not failed any criteria - nothing to coach on`);
+  }
+
+  // Evidence quotes come from transcripts, so they follow the schema's redaction policy
+  const redact = getRedactionVariant(schema, 'evaluation') === 'redacted'
+    ? (text: string) => redactText(text, schema.redactionPolicy?.detectors)
+    : (text: string) => text;
+
+  const weakCriteriaText = weakCriteria
+    .map(({ criterion, passRate, evaluated, failingEvidence }) => [
+      `### ${criterion.name}`,
+      `- Definition: ${criterion.definition}`,
+      `- Pass rate: ${passRate.toFixed(0)}% over ${evaluated} evaluated calls`,
+      ...failingEvidence.map(quote => `- Failing evidence: "${redact(quote)}"`),
+    ].join('\n'))
+    .join('\n\n');
+
+  const prompt = await preparePrompt('coaching-plan', {
+    businessContext: schema.businessContext || schema.name,
+    agentName,
+    weakCriteria: weakCriteriaText,
+    defaultDueDays: String(DEFAULT_GOAL_DAYS),
+  });
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are an experienced call center coach. Return valid JSON only.' },
+    { role: 'user', content: prompt },
+  ];
+
+  console.log(`🎯 Generating coaching plan for ${agentName} (${weakCriteria.length} weak criteria)...`);
+
+  const { parsed } = await llmCaller.callWithJsonValidation<{
+    summary?: string;
+    goals?: Array<{ criterionName?: string; description?: string; targetPassRate?: number; dueInDays?: number }>;
+  }>(messages, {
+    useJsonMode: true,
+    maxRetries: 3,
+    retryDelay: 1000,
+    usage: { operation: 'coaching', schemaId: schema.id },
+  });
+
+  const now = new Date();
+  const goals: CoachingGoal[] = weakCriteria.map(({ criterion, passRate }, index) => {
+    const suggestion = parsed.goals?.find(
+      g => g.criterionName?.trim().toLowerCase() === criterion.name.toLowerCase()
+    ) ?? parsed.goals?.[index];
+    const baseline = Math.round(passRate);
+    const suggestedTarget = Number(suggestion?.targetPassRate);
+    const dueInDays = Number(suggestion?.dueInDays);
+
+    return {
+      id: newId('goal'),
+      criterionKey: criterion.key,
+      criterionName: criterion.name,
+      description: suggestion?.description?.trim() || `Improve on "${criterion.name}": ${criterion.definition}`,
+      baselinePassRate: baseline,
+      // Targets must be above the baseline and reachable
+      targetPassRate: Math.min(100, Math.max(baseline + 5, isFinite(suggestedTarget) ? Math.round(suggestedTarget) : baseline + 20)),
+      dueDate: addDays(now, dueInDays > 0 ? Math.round(dueInDays) : DEFAULT_GOAL_DAYS),
+      status: 'open',
+    };
+  });
+
+  return {
+    id: newId('plan'),
+    schemaId: schema.id,
+    agentName,
+    summary: parsed.summary?.trim() || `Focus areas: ${weakCriteria.map(w => w.criterion.name).join(', ')}`,
+    goals,
+    examples: selectExampleCalls(calls, agentName, weakCriteria),
+    sessions: [],
+    status: 'active',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Recompute goal progress from evaluations made after the plan was created.
+ * A goal is achieved once it has MIN_RESULTS_FOR_GOAL results at or above its
+ * target, and missed when its due date passes first. Both outcomes are final.
+ */
+export function updatePlanProgress(
+  plan: CoachingPlan,
+  calls: CallRecord[],
+  criteria: EvaluationCriterion[],
+  now = new Date()
+): CoachingPlan {
+  if (plan.status === 'archived') return plan;
+
+  const sinceStart = evaluatedAgentCalls(calls, plan.agentName)
+    .filter(c => c.evaluation!.evaluatedAt > plan.createdAt);
+  const today = now.toISOString().split('T')[0];
+
+  const goals = plan.goals.map(goal => {
+    const criterionIndex = goal.criterionKey
+      ? criteria.findIndex(c => c.key === goal.criterionKey)
+      : criteria.findIndex(c => c.name === goal.criterionName);
+    if (criterionIndex === -1) return goal; // Criterion retired - keep the last known progress
+
+    const results = sinceStart
+      .map(call => applicableResult(call, criteria[criterionIndex]))
+      .filter((r): r is EvaluationResult => r !== undefined);
+    const currentPassRate = results.length > 0
+      ? Math.round((results.filter(r => r.passed).length / results.length) * 100)
+      : undefined;
+
+    let { status, achievedAt } = goal;
+    if (status === 'open') {
+      if (results.length >= MIN_RESULTS_FOR_GOAL && currentPassRate! >= goal.targetPassRate) {
+        status = 'achieved';
+        achievedAt = now.toISOString();
+      } else {
+        status = today > goal.dueDate ? 'missed' : 'open';
+      }
+    }
+
+    return { ...goal, currentPassRate, evaluatedSince: results.length, status, achievedAt };
+  });
+
+  const status = goals.every(g => g.status === 'achieved') ? 'completed' : 'active';
+  if (JSON.stringify(goals) === JSON.stringify(plan.goals) && status === plan.status) {
+    return plan;
+  }
+  return { ...plan, goals, status, updatedAt: now.toISOString() };
+}
+
+/**
+ * Update every plan of the schema from the current calls; saves only when progress changed
+ * @returns Number of plans updated
+ */
+export function refreshCoachingProgress(
+  schemaId: string,
+  calls: CallRecord[],
+  criteria: EvaluationCriterion[]
+): number {
+  const plans = loadCoachingPlans(schemaId);
+  const updated = plans.map(plan => updatePlanProgress(plan, calls, criteria));
+  const changed = updated.filter((plan, index) => plan !== plans[index]).length;
+
+  if (changed > 0) {
+    saveCoachingPlans(schemaId, updated);
+    console.log(`🎯 Updated progress of ${changed} coaching plan(s) for schema ${schemaId}`);
+  }
+  return changed;
+}
+
+/**
+ * Record a supervisor coaching session on a plan
+ */
+export function recordCoachingSession(
+  schemaId: string,
+  planId: string,
+  session: Omit<CoachingSession, 'id'>
+): CoachingPlan | undefined {
+  const plan = loadCoachingPlans(schemaId).find(p => p.id === planId);
+  if (!plan) return undefined;
+
+  const updated: CoachingPlan = {
+    ...plan,
+    sessions: [...plan.sessions, { ...session, id: newId('session') }],
+    updatedAt: new Date().toISOString(),
+  };
+  saveCoachingPlan(updated);
+  return updated;
+}
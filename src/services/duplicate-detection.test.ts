@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyImport,
+  findDuplicateGroups,
+  findDuplicates,
+  mergeDuplicateGroups,
+  transcriptSimilarity,
+} from './duplicate-detection';
+import { computeAudioHash } from '@/lib/audio-storage';
+import { loadDebtCollectionCalls } from '@/test/fixtures';
+import { CallEvaluation, CallRecord } from '@/types/call';
+
+const TRANSCRIPT = 'Hello this is Raj calling from the bank about your overdue credit card payment of one thousand dirhams, can you confirm when you will be able to pay the outstanding amount this week';
+
+/** Debt collection calls with identifiers and audio file names filled in */
+function loadCalls() {
+  const { schema, calls } = loadDebtCollectionCalls();
+  return {
+    schema,
+    calls: calls.map((call, i) => ({
+      ...call,
+      audioUrl: undefined,
+      metadata: { ...call.metadata, bill_id: `B${i}`, order_id: `O${i}`, user_id: `U${i}`, file_tag: `call-${i}.mp3` },
+    })),
+  };
+}
+
+function reimport(call: CallRecord, index: number): CallRecord {
+  return { ...call, id: `import-${index}`, status: 'pending audio', evaluation: undefined, transcript: undefined };
+}
+
+function evaluation(call: CallRecord, id: string, evaluatedAt: string): CallEvaluation {
+  return { id, callId: call.id, evaluatedAt, totalScore: 8, maxScore: 10, percentage: 80, results: [], overallFeedback: '' };
+}
+
+describe('findDuplicates', () => {
+  it('matches re-imported rows by identifier fields, then audio file name and content', () => {
+    const { schema, calls } = loadCalls();
+    const [first, second, third] = calls;
+    const incoming = [
+      reimport(first, 0),
+      { ...reimport(second, 1), metadata: { ...second.metadata, bill_id: 'NEW', order_id: 'NEW', user_id: 'NEW' } },
+      { ...reimport(third, 2), metadata: { ...third.metadata, bill_id: 'X', file_tag: 'other.wav' }, audioHash: 'abc' },
+      { ...reimport(third, 3), metadata: { ...third.metadata, bill_id: 'Y', file_tag: 'another.wav' } },
+    ];
+
+    const matches = findDuplicates(incoming, [first, second, { ...third, audioHash: 'abc' }], schema);
+
+    expect(matches.map(m => [m.callId, m.duplicateOfId, m.reason])).toEqual([
+      ['import-0', first.id, 'identifier'],
+      ['import-1', second.id, 'file'],
+      ['import-2', third.id, 'audio'],
+    ]);
+    expect(matches[0].detail).toContain(String(first.metadata.order_id));
+  });
+
+  it('matches rows repeated within the same import', () => {
+    const { schema, calls } = loadCalls();
+    const matches = findDuplicates([reimport(calls[0], 0), reimport(calls[0], 1)], [], schema);
+    expect(matches).toEqual([expect.objectContaining({ callId: 'import-1', duplicateOfId: 'import-0' })]);
+  });
+
+  it('hashes identical audio the same', async () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    const hash = await computeAudioHash(new Blob([bytes]));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeAudioHash(new File([bytes], 'renamed.wav'))).toBe(hash);
+    expect(await computeAudioHash(new Blob([new Uint8Array([4, 3, 2, 1])]))).not.toBe(hash);
+  });
+});
+
+describe('transcriptSimilarity', () => {
+  it('scores near-identical transcripts close to 1 and different ones low', () => {
+    expect(transcriptSimilarity(TRANSCRIPT, `${TRANSCRIPT}.`)).toBe(1);
+    expect(transcriptSimilarity(TRANSCRIPT, TRANSCRIPT.replace('this week', 'this weekend'))).toBeGreaterThan(0.9);
+    expect(transcriptSimilarity(TRANSCRIPT, 'Good morning, I would like to close my account please')).toBe(0);
+  });
+});
+
+describe('applyImport', () => {
+  it('merges, skips or replaces duplicates while adding new calls', () => {
+    const { schema, calls } = loadCalls();
+    const existing = { ...calls[0], transcript: TRANSCRIPT, evaluation: evaluation(calls[0], 'e1', '2025-01-01T00:00:00Z') };
+    const incoming = [
+      { ...reimport(calls[0], 0), metadata: { ...calls[0].metadata, follow_up_status: 'Paid' } },
+      reimport(calls[1], 1),
+    ];
+    const matches = findDuplicates(incoming, [existing], schema);
+
+    const merged = applyImport([existing], incoming, matches, 'merge');
+    expect(merged).toMatchObject({ added: 1, merged: 1, updatedIds: [existing.id] });
+    expect(merged.calls[0]).toMatchObject({
+      id: existing.id,
+      transcript: TRANSCRIPT,
+      evaluation: { id: 'e1' },
+      status: existing.status,
+      metadata: { follow_up_status: 'Paid' },
+    });
+
+    expect(applyImport([existing], incoming, matches, 'skip')).toMatchObject({ added: 1, skipped: 1 });
+    expect(applyImport([existing], incoming, matches, 'skip').calls[0]).toBe(existing);
+
+    const replaced = applyImport([existing], incoming, matches, 'replace');
+    expect(replaced.calls).toHaveLength(2);
+    expect(replaced.calls[0]).toMatchObject({ id: existing.id, status: 'pending audio', metadata: { follow_up_status: 'Paid' } });
+    expect(replaced.calls[0].evaluation).toBeUndefined();
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups existing duplicates and merges them into the evaluated call, joining evaluation histories', () => {
+    const { schema, calls } = loadCalls();
+    const original = { ...calls[0], createdAt: '2025-01-01T00:00:00Z', evaluation: evaluation(calls[0], 'e1', '2025-01-02T00:00:00Z') };
+    const copy = { ...calls[0], id: 'copy', createdAt: '2025-01-05T00:00:00Z', evaluation: evaluation(calls[0], 'e2', '2025-01-06T00:00:00Z') };
+    const sameCall = { ...calls[1], id: 'retranscribed', transcript: TRANSCRIPT, metadata: { ...calls[1].metadata, bill_id: '', order_id: '', user_id: '', file_tag: '' } };
+    const other = { ...calls[2], transcript: TRANSCRIPT.replace('this week', 'this weekend') };
+
+    const groups = findDuplicateGroups([original, copy, sameCall, other, calls[3]], schema);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ keepId: original.id, callIds: [original.id, 'copy'] });
+    expect(groups[1].matches[0]).toMatchObject({ reason: 'transcript' });
+
+    const result = mergeDuplicateGroups([original, copy, calls[3]], [groups[0]]);
+    expect(result.removedIds).toEqual(['copy']);
+    expect(result.calls.map(c => c.id)).toEqual([original.id, calls[3].id]);
+    expect(result.calls[0].evaluations?.map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(result.calls[0].evaluation?.id).toBe('e2');
+  });
+});
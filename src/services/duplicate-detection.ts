@@ -0,0 +1,365 @@
+/**
+ * Duplicate Detection
+ * Finds calls imported twice - by identifier fields, audio file name, audio content hash
+ * or near-identical transcripts - and merges them without losing evaluations.
+ */
+
+import { CallRecord } from '../types/call';
+import { SchemaDefinition } from '../types/schema';
+import {
+  DuplicateGroup,
+  DuplicateMatch,
+  DuplicateMergeResult,
+  DuplicateReason,
+  DuplicateResolution,
+  ImportMergeResult,
+} from '../types/duplicate';
+import { getAudioFileField } from '../lib/csv-parser';
+import { getEvaluationHistory } from '../lib/evaluation-history';
+
+/** Word-shingle Jaccard similarity above which two transcripts are the same call */
+export const TRANSCRIPT_SIMILARITY_THRESHOLD = 0.9;
+const SHINGLE_SIZE = 3;
+
+const STATUS_RANK: Record<CallRecord['status'], number> = {
+  'failed': 0,
+  'pending audio': 1,
+  'uploaded': 2,
+  'processing': 3,
+  'transcribed': 4,
+  'evaluated': 5,
+};
+
+interface DuplicateKey {
+  key: string;
+  reason: DuplicateReason;
+  detail: string;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+function normalizeFileName(value: string): string {
+  const fileName = value.trim().split(/[\\/]/).pop()!.toLowerCase();
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+/**
+ * Exact-match keys of a call, strongest first. Identifier fields form one composite key,
+ * since a single identifier such as a customer ID is shared by different calls.
+ */
+function getDuplicateKeys(call: CallRecord, schema: SchemaDefinition): DuplicateKey[] {
+  const keys: DuplicateKey[] = [];
+  const audioField = getAudioFileField(schema);
+
+  const identifierFields = schema.fields.filter(f => f.semanticRole === 'identifier' && f.id !== audioField?.id);
+  const identifiers = identifierFields.map(f => ({ field: f, value: call.metadata[f.id] }));
+  if (identifiers.some(({ value }) => !isBlank(value))) {
+    keys.push({
+      key: `id:${identifiers.map(({ value }) => (isBlank(value) ? '' : String(value).trim().toLowerCase())).join('|')}`,
+      reason: 'identifier',
+      detail: identifiers
+        .filter(({ value }) => !isBlank(value))
+        .map(({ field, value }) => `${field.displayName} ${value}`)
+        .join(', '),
+    });
+  }
+
+  // Object URLs of uploaded files are random, so only real paths and URLs identify the file
+  const audioUrl = call.audioUrl?.startsWith('blob:') ? undefined : call.audioUrl;
+  const fileValue = (audioField && call.metadata[audioField.id]) || call.metadata.fileTag || audioUrl;
+  if (!isBlank(fileValue)) {
+    const fileName = normalizeFileName(String(fileValue));
+    keys.push({ key: `file:${fileName}`, reason: 'file', detail: `Audio file ${fileName}` });
+  }
+
+  if (call.audioHash) {
+    keys.push({ key: `audio:${call.audioHash}`, reason: 'audio', detail: 'Identical audio' });
+  }
+
+  return keys.map(k => ({ ...k, key: `${call.schemaId}/${k.key}` }));
+}
+
+function getShingles(transcript: string): Set<string> {
+  const words = transcript.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  smaller.forEach(s => { if (larger.has(s)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two transcripts from 0 to 1 (Jaccard index of three-word shingles)
+ */
+export function transcriptSimilarity(a: string, b: string): number {
+  return jaccard(getShingles(a), getShingles(b));
+}
+
+/**
+ * Pairs of calls with near-identical transcripts. Jaccard is at most the ratio of the
+ * shingle counts, so only transcripts of similar length are compared.
+ */
+function findTranscriptPairs(calls: CallRecord[]): Array<{ a: CallRecord; b: CallRecord; similarity: number }> {
+  const entries = calls
+    .filter(c => c.transcript)
+    .map(call => ({ call, shingles: getShingles(call.transcript!) }))
+    .filter(e => e.shingles.size > 0)
+    .sort((x, y) => x.shingles.size - y.shingles.size);
+
+  const pairs: Array<{ a: CallRecord; b: CallRecord; similarity: number }> = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      if (entries[i].shingles.size < entries[j].shingles.size * TRANSCRIPT_SIMILARITY_THRESHOLD) break;
+      if (entries[i].call.schemaId !== entries[j].call.schemaId) continue;
+      const similarity = jaccard(entries[i].shingles, entries[j].shingles);
+      if (similarity >= TRANSCRIPT_SIMILARITY_THRESHOLD) {
+        pairs.push({ a: entries[i].call, b: entries[j].call, similarity });
+      }
+    }
+  }
+  return pairs;
+}
+
+function transcriptDetail(similarity: number): string {
+  return `${Math.round(similarity * 100)}% similar transcript`;
+}
+
+/**
+ * Match incoming calls against existing calls and earlier incoming calls of the same schema.
+ * Each duplicate is reported once, against the first call it matches.
+ */
+export function findDuplicates(
+  incoming: CallRecord[],
+  existing: CallRecord[],
+  schema: SchemaDefinition
+): DuplicateMatch[] {
+  const index = new Map<string, string>();
+  existing.forEach(call => getDuplicateKeys(call, schema).forEach(k => {
+    if (!index.has(k.key)) index.set(k.key, call.id);
+  }));
+
+  const matches: DuplicateMatch[] = [];
+  const unmatched: CallRecord[] = [];
+  for (const call of incoming) {
+    const keys = getDuplicateKeys(call, schema);
+    const hit = keys.find(k => index.has(k.key));
+    if (hit) {
+      matches.push({ callId: call.id, duplicateOfId: index.get(hit.key)!, reason: hit.reason, detail: hit.detail });
+      continue;
+    }
+    keys.forEach(k => index.set(k.key, call.id));
+    unmatched.push(call);
+  }
+
+  // Transcripts only exist on incoming calls that were already processed elsewhere
+  if (unmatched.some(c => c.transcript)) {
+    const incomingIds = new Set(unmatched.map(c => c.id));
+    const matched = new Set<string>();
+    for (const { a, b, similarity } of findTranscriptPairs([...existing, ...unmatched])) {
+      const [candidate, original] = incomingIds.has(b.id) ? [b, a] : [a, b];
+      if (!incomingIds.has(candidate.id) || matched.has(candidate.id)) continue;
+      matched.add(candidate.id);
+      matches.push({
+        callId: candidate.id,
+        duplicateOfId: original.id,
+        reason: 'transcript',
+        detail: transcriptDetail(similarity),
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * How much would be lost by dropping a call: evaluations, then transcript, then audio
+ */
+function workScore(call: CallRecord): number {
+  return getEvaluationHistory(call).length * 100
+    + (call.transcript ? 10 : 0)
+    + (call.audioFile || call.audioHash ? 1 : 0);
+}
+
+/**
+ * Group existing calls of a schema that duplicate each other. The call with the most
+ * work done on it (oldest on a tie) is kept when a group is merged.
+ */
+export function findDuplicateGroups(calls: CallRecord[], schema: SchemaDefinition): DuplicateGroup[] {
+  const schemaCalls = calls.filter(c => c.schemaId === schema.id);
+  const parent = new Map<string, string>(schemaCalls.map(c => [c.id, c.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+
+  const matches: DuplicateMatch[] = [];
+  const link = (match: DuplicateMatch) => {
+    const [a, b] = [find(match.callId), find(match.duplicateOfId)];
+    if (a === b) return;
+    parent.set(a, b);
+    matches.push(match);
+  };
+
+  const firstByKey = new Map<string, string>();
+  for (const call of schemaCalls) {
+    for (const k of getDuplicateKeys(call, schema)) {
+      const first = firstByKey.get(k.key);
+      if (first) {
+        link({ callId: call.id, duplicateOfId: first, reason: k.reason, detail: k.detail });
+      } else {
+        firstByKey.set(k.key, call.id);
+      }
+    }
+  }
+  for (const { a, b, similarity } of findTranscriptPairs(schemaCalls)) {
+    link({ callId: b.id, duplicateOfId: a.id, reason: 'transcript', detail: transcriptDetail(similarity) });
+  }
+
+  const groups = new Map<string, CallRecord[]>();
+  schemaCalls.forEach(call => {
+    const root = find(call.id);
+    groups.set(root, [...(groups.get(root) || []), call]);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const ordered = [...members].sort((a, b) =>
+        workScore(b) - workScore(a) || a.createdAt.localeCompare(b.createdAt)
+      );
+      const ids = new Set(ordered.map(c => c.id));
+      return {
+        keepId: ordered[0].id,
+        callIds: ordered.map(c => c.id),
+        matches: matches.filter(m => ids.has(m.callId)),
+      };
+    });
+}
+
+/**
+ * Combine two records of the same call under the kept call's ID. Evaluation histories are
+ * joined; transcript and audio come from whichever record has them, preferring the kept one.
+ * @param overwriteMetadata Non-empty metadata of the other record wins (a re-imported row);
+ *                          otherwise it only fills blanks
+ */
+export function mergeCalls(kept: CallRecord, other: CallRecord, overwriteMetadata = false): CallRecord {
+  const metadata = { ...kept.metadata };
+  Object.entries(other.metadata).forEach(([key, value]) => {
+    if (!isBlank(value) && (overwriteMetadata || isBlank(metadata[key]))) {
+      metadata[key] = value;
+    }
+  });
+
+  const evaluations = [...getEvaluationHistory(kept), ...getEvaluationHistory(other)]
+    .filter((evaluation, i, all) => all.findIndex(e => e.id === evaluation.id) === i)
+    .sort((a, b) => a.evaluatedAt.localeCompare(b.evaluatedAt));
+
+  const transcriptSource = kept.transcript || !other.transcript ? kept : other;
+  const audioSource = kept.audioFile || kept.audioHash || !(other.audioFile || other.audioHash) ? kept : other;
+
+  return {
+    ...kept,
+    metadata,
+    audioFile: audioSource.audioFile,
+    audioUrl: audioSource.audioUrl ?? kept.audioUrl ?? other.audioUrl,
+    audioHash: audioSource.audioHash,
+    transcript: transcriptSource.transcript,
+    transcriptConfidence: transcriptSource.transcriptConfidence,
+    transcriptWords: transcriptSource.transcriptWords,
+    transcriptLocale: transcriptSource.transcriptLocale,
+    transcriptDuration: transcriptSource.transcriptDuration,
+    transcriptPhrases: transcriptSource.transcriptPhrases,
+    transcriptSpeakerCount: transcriptSource.transcriptSpeakerCount,
+    transcriptionId: transcriptSource.transcriptionId,
+    redactedTranscript: transcriptSource.redactedTranscript,
+    speechMetrics: transcriptSource.speechMetrics,
+    sentimentSegments: transcriptSource.sentimentSegments,
+    sentimentSummary: transcriptSource.sentimentSummary,
+    overallSentiment: transcriptSource.overallSentiment,
+    evaluation: evaluations[evaluations.length - 1],
+    evaluations: evaluations.length > 0 ? evaluations : undefined,
+    status: STATUS_RANK[other.status] > STATUS_RANK[kept.status] ? other.status : kept.status,
+    createdAt: kept.createdAt < other.createdAt ? kept.createdAt : other.createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Merge every group into its kept call and drop the other calls
+ */
+export function mergeDuplicateGroups(calls: CallRecord[], groups: DuplicateGroup[]): DuplicateMergeResult {
+  const byId = new Map(calls.map(c => [c.id, c]));
+  const replacements = new Map<string, CallRecord>();
+  const removed = new Set<string>();
+
+  for (const group of groups) {
+    const kept = byId.get(group.keepId);
+    if (!kept) continue;
+    const others = group.callIds.filter(id => id !== group.keepId && byId.has(id));
+    replacements.set(kept.id, others.reduce((merged, id) => mergeCalls(merged, byId.get(id)!), kept));
+    others.forEach(id => removed.add(id));
+  }
+
+  return {
+    calls: calls.filter(c => !removed.has(c.id)).map(c => replacements.get(c.id) ?? c),
+    mergedIds: Array.from(replacements.keys()),
+    removedIds: Array.from(removed),
+  };
+}
+
+/**
+ * Add imported calls to the existing ones, resolving duplicates found by findDuplicates:
+ * merge into the existing call, skip the imported one, or replace the existing one
+ * (keeping its ID and creation time).
+ */
+export function applyImport(
+  existing: CallRecord[],
+  incoming: CallRecord[],
+  matches: DuplicateMatch[],
+  resolution: DuplicateResolution
+): ImportMergeResult {
+  const matchById = new Map(matches.map(m => [m.callId, m]));
+  const calls = [...existing];
+  const position = new Map(calls.map((c, i) => [c.id, i]));
+  const counts = { added: 0, merged: 0, replaced: 0, skipped: 0 };
+  const updatedIds = new Set<string>();
+
+  for (const call of incoming) {
+    const match = matchById.get(call.id);
+    const target = match ? position.get(match.duplicateOfId) : undefined;
+    if (target === undefined) {
+      position.set(call.id, calls.length);
+      calls.push(call);
+      counts.added++;
+      continue;
+    }
+
+    const current = calls[target];
+    if (resolution === 'skip') {
+      counts.skipped++;
+    } else if (resolution === 'merge') {
+      calls[target] = mergeCalls(current, call, true);
+      counts.merged++;
+      updatedIds.add(current.id);
+    } else {
+      calls[target] = { ...call, id: current.id, createdAt: current.createdAt, updatedAt: new Date().toISOString() };
+      counts.replaced++;
+      updatedIds.add(current.id);
+    }
+    // Later rows matching this imported call resolve against the call it became
+    position.set(call.id, target);
+  }
+
+  return { calls, ...counts, updatedIds: Array.from(updatedIds) };
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { applyMappingProfile, deleteMappingProfile, loadMappingProfiles, saveMappingProfile } from './import-mappings';
+
+describe('import mapping profiles', () => {
+  it('saves profiles per schema, replacing by name', () => {
+    const first = saveMappingProfile('schema-a', 'CRM export', { agent_name: 'Agent' });
+    saveMappingProfile('schema-a', 'CRM export', { agent_name: 'Rep' }, { delimiter: ';', encoding: 'windows-1252' });
+    saveMappingProfile('schema-b', 'Dialer', { product: 'Campaign' });
+
+    const profiles = loadMappingProfiles('schema-a');
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({ id: first.id, mapping: { agent_name: 'Rep' }, delimiter: ';', encoding: 'windows-1252' });
+
+    deleteMappingProfile('schema-a', first.id);
+    expect(loadMappingProfiles('schema-a')).toEqual([]);
+    expect(loadMappingProfiles('schema-b')).toHaveLength(1);
+  });
+
+  it('drops mapped columns the file does not have', () => {
+    const profile = saveMappingProfile('schema-c', 'Old export', { agent_name: 'Agent', product: 'Product Line' });
+    expect(applyMappingProfile(profile, ['Agent', 'Product'])).toEqual({ agent_name: 'Agent' });
+  });
+});
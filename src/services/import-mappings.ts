@@ -0,0 +1,68 @@
+/**
+ * Import Mapping Profiles
+ * Named column mappings saved per schema, so exports from the same source system
+ * import without remapping. Like segments, profiles are a browser preference.
+ */
+
+import { ColumnMapping, ImportMappingProfile } from '../types/import-mapping';
+import { getStorageAdapter } from '../lib/storage-adapter';
+
+const PROFILES_KEY_PREFIX = 'import-mappings-';
+
+/**
+ * Loads saved mapping profiles for a schema
+ */
+export function loadMappingProfiles(schemaId: string): ImportMappingProfile[] {
+  try {
+    const json = getStorageAdapter().getItem(`${PROFILES_KEY_PREFIX}${schemaId}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error loading import mapping profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves a mapping under a name. A profile with the same name is replaced.
+ */
+export function saveMappingProfile(
+  schemaId: string,
+  name: string,
+  mapping: ColumnMapping,
+  options: Pick<ImportMappingProfile, 'delimiter' | 'encoding'> = {}
+): ImportMappingProfile {
+  const profiles = loadMappingProfiles(schemaId);
+  const existing = profiles.find(p => p.name === name);
+  const profile: ImportMappingProfile = {
+    id: existing?.id ?? `mapping_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    schemaId,
+    name,
+    mapping,
+    delimiter: options.delimiter,
+    encoding: options.encoding,
+    createdAt: new Date().toISOString(),
+  };
+
+  const next = existing ? profiles.map(p => (p.id === existing.id ? profile : p)) : [...profiles, profile];
+  getStorageAdapter().setItem(`${PROFILES_KEY_PREFIX}${schemaId}`, JSON.stringify(next));
+  console.log(`🗂️ Saved import mapping "${name}" for schema ${schemaId}`);
+  return profile;
+}
+
+/**
+ * Deletes a saved mapping profile
+ */
+export function deleteMappingProfile(schemaId: string, profileId: string): void {
+  const profiles = loadMappingProfiles(schemaId).filter(p => p.id !== profileId);
+  getStorageAdapter().setItem(`${PROFILES_KEY_PREFIX}${schemaId}`, JSON.stringify(profiles));
+}
+
+/**
+ * Keep only the profile's columns that exist in the file, so a profile from an older
+ * export never points at a missing column
+ */
+export function applyMappingProfile(profile: ImportMappingProfile, columns: string[]): ColumnMapping {
+  return Object.fromEntries(
+    Object.entries(profile.mapping).filter(([, column]) => columns.includes(column))
+  );
+}
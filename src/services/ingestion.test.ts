@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FieldDefinition, SchemaDefinition } from '@/types/schema';
+import { CallRecord } from '@/types/call';
+import { BrowserStorageAdapter, ServerStorageAdapter, setStorageAdapter } from '@/lib/storage-adapter';
+import { claimPendingJob, getIngestionFolder, planIngestion, withoutPendingJob } from './ingestion';
+
+function field(id: string, name: string, semanticRole: FieldDefinition['semanticRole'] = 'identifier'): FieldDefinition {
+  return {
+    id,
+    name,
+    displayName: name,
+    type: 'string',
+    semanticRole,
+    required: false,
+    showInTable: true,
+    useInPrompt: false,
+    enableAnalytics: false,
+  };
+}
+
+function makeSchema(overrides: Partial<SchemaDefinition> = {}): SchemaDefinition {
+  return {
+    id: 'collections-v1',
+    name: 'Collections',
+    version: '1.0.0',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    businessContext: 'Debt collection calls',
+    fields: [field('fileTag', 'fileTag'), field('agent', 'agent', 'participant_1')],
+    relationships: [],
+    ingestion: { enabled: true, autoTranscribe: true, autoEvaluate: true },
+    ...overrides,
+  };
+}
+
+function plan(manifest: string, audioFiles: string[], options: { schema?: SchemaDefinition; ingestedFiles?: string[] } = {}) {
+  return planIngestion({
+    schema: options.schema ?? makeSchema(),
+    manifests: [{ name: 'nightly.csv', text: manifest }],
+    audioFiles,
+    ingestedFiles: options.ingestedFiles ?? [],
+    batchId: 'b1',
+    now: new Date('2026-03-02T01:00:00.000Z'),
+  });
+}
+
+describe('planIngestion', () => {
+  it('matches rows to audio by file name, with or without extension and path', () => {
+    const result = plan('fileTag,agent\ncalls/A.WAV,Ann\nb,Bob\n', ['a.wav', 'b.mp3']);
+
+    expect(result.files).toEqual([
+      { callId: 'ingest_b1_1', fileName: 'a.wav' },
+      { callId: 'ingest_b1_2', fileName: 'b.mp3' },
+    ]);
+    expect(result.calls.map(c => c.metadata.agent)).toEqual(['Ann', 'Bob']);
+    expect(result.calls[0].schemaId).toBe('collections-v1');
+    expect(result.calls[0].ingestion).toEqual({
+      batchId: 'b1',
+      manifest: 'nightly.csv',
+      audioFileName: 'a.wav',
+      ingestedAt: '2026-03-02T01:00:00.000Z',
+      pendingJobs: ['transcription', 'evaluation'],
+    });
+    expect(result.log.matchedFiles).toEqual(['a.wav', 'b.mp3']);
+    expect(result.log.callIds).toEqual(['ingest_b1_1', 'ingest_b1_2']);
+  });
+
+  it('logs rows without a file and files without a row', () => {
+    const result = plan('fileTag,agent\nmissing.wav,Ann\n,Bob\na.wav,Cy\n', ['a.wav', 'stray.wav']);
+
+    expect(result.calls).toHaveLength(1);
+    expect(result.log.unmatchedFiles).toEqual(['stray.wav']);
+    expect(result.log.unmatchedRows).toEqual([
+      { manifest: 'nightly.csv', line: 2, audioValue: 'missing.wav', reason: 'file-not-found' },
+      { manifest: 'nightly.csv', line: 3, audioValue: '', reason: 'no-audio-value' },
+    ]);
+  });
+
+  it('does not ingest the same file twice', () => {
+    const duplicateRow = plan('fileTag,agent\na.wav,Ann\na.wav,Ann again\n', ['a.wav']);
+    expect(duplicateRow.calls).toHaveLength(1);
+    expect(duplicateRow.log.unmatchedRows[0]).toMatchObject({ line: 3, reason: 'already-ingested' });
+
+    const reDropped = plan('fileTag,agent\na.wav,Ann\n', ['a.wav'], { ingestedFiles: ['A.wav'] });
+    expect(reDropped.calls).toHaveLength(0);
+    expect(reDropped.skippedFiles).toEqual(['a.wav']);
+    expect(reDropped.log.unmatchedFiles).toEqual([]);
+
+    const alreadyMoved = plan('fileTag,agent\na.wav,Ann\n', [], { ingestedFiles: ['a.wav'] });
+    expect(alreadyMoved.log.unmatchedRows[0].reason).toBe('already-ingested');
+  });
+
+  it('uses the configured audio field and queues only the enabled jobs', () => {
+    const schema = makeSchema({
+      fields: [field('recording', 'recording'), field('agent', 'agent', 'participant_1')],
+      ingestion: { enabled: true, audioField: 'recording', autoTranscribe: true, autoEvaluate: false },
+    });
+    const result = plan('recording,agent\nx1,Ann\n', ['x1.wav'], { schema });
+
+    expect(result.calls[0].ingestion?.pendingJobs).toEqual(['transcription']);
+  });
+
+  it('reports an error when the schema has no audio file field', () => {
+    const schema = makeSchema({ fields: [field('agent', 'agent', 'participant_1')], ingestion: undefined });
+    const result = plan('agent\nAnn\n', ['a.wav'], { schema });
+
+    expect(result.calls).toHaveLength(0);
+    expect(result.log.errors[0]).toContain('no audio file field');
+  });
+});
+
+describe('getIngestionFolder', () => {
+  it('derives a relative folder from the schema audio path', () => {
+    expect(getIngestionFolder(makeSchema({ audioFolderPath: '/audio/../debt-collection/' }))).toBe('audio/debt-collection');
+    expect(getIngestionFolder(makeSchema())).toBe('audio/collections-v1');
+  });
+});
+
+describe('withoutPendingJob', () => {
+  it('drops the job and clears the list once empty', () => {
+    const call = { id: 'c1', ingestion: { pendingJobs: ['transcription', 'evaluation'] } } as unknown as CallRecord;
+    const afterTranscription = withoutPendingJob(call, 'transcription');
+
+    expect(afterTranscription.ingestion?.pendingJobs).toEqual(['evaluation']);
+    expect(withoutPendingJob(afterTranscription, 'evaluation').ingestion?.pendingJobs).toBeUndefined();
+  });
+});
+
+describe('claimPendingJob', () => {
+  const call = { id: 'c1', updatedAt: '2026-01-01T00:00:00Z', ingestion: { pendingJobs: ['transcription'] } } as unknown as CallRecord;
+
+  afterEach(() => {
+    setStorageAdapter(new BrowserStorageAdapter());
+    vi.unstubAllGlobals();
+  });
+
+  it('takes the job off locally with browser storage', async () => {
+    const result = await claimPendingJob(call, 'transcription');
+    expect(result).toMatchObject({ claimed: true, call: { id: 'c1' } });
+    expect(result.call.ingestion?.pendingJobs).toBeUndefined();
+  });
+
+  it('reports a job another client claimed first on the server', async () => {
+    setStorageAdapter(new ServerStorageAdapter());
+    const current = { ...call, ingestion: {}, updatedAt: '2026-01-02T00:00:00Z' };
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ error: 'No pending job', current }), { status: 409 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(claimPendingJob(call, 'transcription')).resolves.toEqual({ claimed: false, call: current });
+    expect(fetchMock).toHaveBeenCalledWith('/api/calls/c1/claim', expect.objectContaining({ method: 'POST', body: '{"job":"transcription"}' }));
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Watch-Folder Ingestion Service
+ * Matches audio files dropped in a schema's watch folder to the rows of CSV manifests
+ * and builds CallRecords from them. The server (server/ingestion.js) does the file IO
+ * and runs this planning step headlessly, adding the calls to the shared calls list; the
+ * app queues transcription/evaluation for them when the schema asks for it.
+ */
+
+import type { CallRecord } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import { getSchemaAudioPath } from '../types/schema';
+import type {
+  IngestionJobType,
+  IngestionLogEntry,
+  SchemaIngestionSettings,
+} from '../types/ingestion';
+import { csvRowsToCallRecords, getAudioFileField, parseCSV } from '../lib/csv-parser';
+import { getStorageAdapter } from '../lib/storage-adapter';
+
+export const DEFAULT_INGESTION_SETTINGS: SchemaIngestionSettings = {
+  enabled: false,
+  autoTranscribe: true,
+  autoEvaluate: true,
+};
+
+export const AUDIO_FILE_EXTENSIONS = ['.wav', '.mp3', '.m4a', '.ogg', '.flac', '.webm'];
+
+export interface IngestionManifest {
+  name: string;
+  text: string;
+}
+
+export interface IngestionPlanInput {
+  schema: SchemaDefinition;
+  manifests: IngestionManifest[];
+  audioFiles: string[];            // Audio file names waiting in the folder
+  ingestedFiles: string[];         // Audio file names already ingested for the schema
+  batchId: string;
+  now?: Date;
+}
+
+export interface IngestionPlan {
+  calls: CallRecord[];
+  files: Array<{ callId: string; fileName: string }>;  // Audio to store with each call
+  skippedFiles: string[];          // Already ingested - moved out of the folder without a new call
+  log: IngestionLogEntry;
+}
+
+/**
+ * Folder watched for a schema, relative to the server's ingest root.
+ * Derived from the schema audio path ("/audio/debt-collection" → "audio/debt-collection").
+ */
+export function getIngestionFolder(schema: SchemaDefinition): string {
+  return getSchemaAudioPath(schema)
+    .split(/[\\/]+/)
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+export function isAudioFileName(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return AUDIO_FILE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Comparable audio file name: last path segment, lower case
+ */
+function normalizeFileName(value: string): string {
+  return value.trim().split(/[\\/]/).pop()!.toLowerCase();
+}
+
+function stripExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+/**
+ * Jobs an ingested call should get, in order
+ */
+function getPendingJobs(settings: SchemaIngestionSettings): IngestionJobType[] {
+  const jobs: IngestionJobType[] = [];
+  if (settings.autoTranscribe) jobs.push('transcription');
+  if (settings.autoEvaluate) jobs.push('evaluation');
+  return jobs;
+}
+
+/**
+ * Match manifest rows to audio files and build the calls for one ingestion run.
+ * Rows are mapped through SchemaMapper like a CSV import; the audio file is found by
+ * the configured audio field (fileTag / audio file name column by default), with or
+ * without the extension. Nothing is written - the caller stores audio and calls.
+ */
+export function planIngestion(input: IngestionPlanInput): IngestionPlan {
+  const { schema, batchId } = input;
+  const now = (input.now ?? new Date()).toISOString();
+  const settings = schema.ingestion ?? DEFAULT_INGESTION_SETTINGS;
+  const audioField = settings.audioField
+    ? schema.fields.find(f => f.id === settings.audioField)
+    : getAudioFileField(schema);
+
+  const log: IngestionLogEntry = {
+    batchId,
+    schemaId: schema.id,
+    startedAt: now,
+    manifests: input.manifests.map(m => m.name),
+    callIds: [],
+    matchedFiles: [],
+    unmatchedFiles: [],
+    unmatchedRows: [],
+    errors: [],
+  };
+  const calls: CallRecord[] = [];
+  const files: IngestionPlan['files'] = [];
+  const skippedFiles: string[] = [];
+
+  if (!audioField) {
+    log.errors.push(`Schema "${schema.name}" has no audio file field to match manifest rows with`);
+    return { calls, files, skippedFiles, log };
+  }
+
+  // Index waiting audio by full name and by name without extension
+  const waiting = new Map<string, string>();
+  for (const fileName of input.audioFiles) {
+    const normalized = normalizeFileName(fileName);
+    waiting.set(normalized, fileName);
+    if (!waiting.has(stripExtension(normalized))) waiting.set(stripExtension(normalized), fileName);
+  }
+  const ingested = new Set(input.ingestedFiles.flatMap(f => [normalizeFileName(f), stripExtension(normalizeFileName(f))]));
+  const claimed = new Set<string>();
+  const pendingJobs = getPendingJobs(settings);
+
+  for (const manifest of input.manifests) {
+    const rows = parseCSV(manifest.text);
+    if (rows.length === 0) {
+      log.errors.push(`${manifest.name}: no data rows`);
+      continue;
+    }
+
+    const records = csvRowsToCallRecords(rows, schema);
+    records.forEach((record, index) => {
+      const line = index + 2;
+      const audioValue = String(record.metadata[audioField.id] ?? '').trim();
+      if (!audioValue) {
+        log.unmatchedRows.push({ manifest: manifest.name, line, audioValue, reason: 'no-audio-value' });
+        return;
+      }
+
+      const key = normalizeFileName(audioValue);
+      const fileName = waiting.get(key) ?? waiting.get(stripExtension(key));
+      if (!fileName) {
+        const reason = ingested.has(key) || ingested.has(stripExtension(key)) ? 'already-ingested' : 'file-not-found';
+        log.unmatchedRows.push({ manifest: manifest.name, line, audioValue, reason });
+        return;
+      }
+      // A file seen in an earlier run, or a second row pointing at the same file
+      if (claimed.has(fileName) || ingested.has(normalizeFileName(fileName))) {
+        log.unmatchedRows.push({ manifest: manifest.name, line, audioValue, reason: 'already-ingested' });
+        if (!claimed.has(fileName)) {
+          claimed.add(fileName);
+          skippedFiles.push(fileName);
+        }
+        return;
+      }
+
+      claimed.add(fileName);
+      const call: CallRecord = {
+        ...record,
+        id: `ingest_${batchId}_${calls.length + 1}`,
+        ingestion: {
+          batchId,
+          manifest: manifest.name,
+          audioFileName: fileName,
+          ingestedAt: now,
+          pendingJobs: pendingJobs.length > 0 ? pendingJobs : undefined,
+        },
+      };
+      calls.push(call);
+      files.push({ callId: call.id, fileName });
+      log.callIds.push(call.id);
+      log.matchedFiles.push(fileName);
+    });
+  }
+
+  log.unmatchedFiles = input.audioFiles.filter(f => !claimed.has(f));
+  return { calls, files, skippedFiles, log };
+}
+
+// ============================================================================
+// APP SIDE (server API)
+// ============================================================================
+
+export async function loadIngestionLog(schemaId: string): Promise<IngestionLogEntry[]> {
+  const response = await fetch(`/api/schemas/${encodeURIComponent(schemaId)}/ingestion-log`);
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to load ingestion log: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Scan the schema's watch folder now instead of waiting for the next interval
+ */
+export async function runIngestionNow(schemaId: string): Promise<IngestionLogEntry | null> {
+  const response = await fetch(`/api/schemas/${encodeURIComponent(schemaId)}/ingestion/run`, { method: 'POST' });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Ingestion run failed: ${response.status} ${response.statusText}`);
+  }
+  return body.entry ?? null;
+}
+
+/**
+ * Claim a pending job of an ingested call before queueing it. The server takes the job
+ * off the call, so when several people have the app open only one of them runs it.
+ * Returns the server's copy of the call; claimed is false when someone else was first.
+ * With browser storage nobody else can see the call, so the job is simply taken off it.
+ */
+export async function claimPendingJob(
+  call: CallRecord,
+  job: IngestionJobType
+): Promise<{ claimed: boolean; call: CallRecord }> {
+  if (getStorageAdapter().backend !== 'server') {
+    return { claimed: true, call: withoutPendingJob(call, job) };
+  }
+  const response = await fetch(`/api/calls/${encodeURIComponent(call.id)}/claim`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ job }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 409) {
+    return { claimed: false, call: body.current };
+  }
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to claim ${job} for call ${call.id}: ${response.status} ${response.statusText}`);
+  }
+  return { claimed: true, call: body };
+}
+
+/**
+ * Remove a job from an ingested call's pending list once it has been queued
+ */
+export function withoutPendingJob(call: CallRecord, job: IngestionJobType): CallRecord {
+  if (!call.ingestion?.pendingJobs) return call;
+  const pendingJobs = call.ingestion.pendingJobs.filter(j => j !== job);
+  return { ...call, ingestion: { ...call.ingestion, pendingJobs: pendingJobs.length > 0 ? pendingJobs : undefined } };
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Job, JobQueue, getBackoffDelay, isRateLimitError } from './job-queue';
+
+const item = { callId: 'c1', schemaId: 's1', label: 'Call 1' };
+
+function jobOf(queue: JobQueue): Job {
+  return queue.getState().jobs[0];
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('throttling', () => {
+  it('recognises 429 errors and backs off exponentially up to a minute', () => {
+    expect(isRateLimitError(new Error('Request failed: 429 Too Many Requests'))).toBe(true);
+    expect(isRateLimitError(new Error('Resource Exhausted'))).toBe(true);
+    expect(isRateLimitError(new Error('500 Internal Server Error'))).toBe(false);
+
+    expect(getBackoffDelay(1)).toBeGreaterThanOrEqual(2000);
+    expect(getBackoffDelay(1)).toBeLessThanOrEqual(2400);
+    expect(getBackoffDelay(3)).toBeGreaterThanOrEqual(8000);
+    expect(getBackoffDelay(20)).toBeLessThanOrEqual(72000);
+  });
+
+  it('retries a throttled job after the backoff and fails other errors at once', async () => {
+    const queue = new JobQueue();
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockResolvedValueOnce(undefined);
+    queue.registerHandler('transcription', handler);
+
+    queue.enqueue('transcription', [item]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(jobOf(queue)).toMatchObject({ status: 'retrying', attempts: 1, error: '429 Too Many Requests' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(jobOf(queue)).toMatchObject({ status: 'completed', attempts: 2, error: undefined });
+
+    queue.registerHandler('evaluation', vi.fn().mockRejectedValue(new Error('Call has not been transcribed')));
+    queue.enqueue('evaluation', [item]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getState().jobs[1]).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+});
+
+describe('cancel', () => {
+  it('aborts a running job and discards its result', async () => {
+    const queue = new JobQueue();
+    let finish: () => void = () => {};
+    let signal: AbortSignal | undefined;
+    queue.registerHandler('evaluation', (_job, jobSignal) => {
+      signal = jobSignal;
+      return new Promise<void>(resolve => { finish = resolve; });
+    });
+
+    queue.enqueue('evaluation', [item]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(jobOf(queue).status).toBe('running');
+
+    queue.cancel(jobOf(queue).id);
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(signal?.aborted).toBe(true);
+    expect(jobOf(queue).status).toBe('cancelled');
+  });
+});
+
+describe('persistence', () => {
+  it('resumes jobs after a reload, running interrupted ones again', async () => {
+    const before = new JobQueue();
+    before.enqueue('transcription', [item, { callId: 'c2' }]);
+    before.registerHandler('transcription', () => new Promise<void>(() => {}));   // Page closes mid-request
+    await vi.advanceTimersByTimeAsync(0);
+    expect(before.getState().jobs.map(j => j.status)).toEqual(['running', 'running']);
+
+    const after = new JobQueue();
+    expect(after.getState().jobs.map(j => j.status)).toEqual(['queued', 'queued']);
+
+    const handler = vi.fn().mockResolvedValue(undefined);
+    after.registerHandler('transcription', handler);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(handler.mock.calls.map(([job]) => job.callId)).toEqual(['c1', 'c2']);
+    expect(after.getState().jobs.map(j => j.status)).toEqual(['completed', 'completed']);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Job Queue Service
+ * Persistent, concurrency-limited queue for long-running AI work (transcription,
+ * evaluation, sentiment, synthetic audio). Job state is saved through the storage
+ * adapter so the queue survives page reloads; work resumes once handlers register.
+ */
+
+import { getStorageAdapter } from '@/lib/storage-adapter';
+import type { CallRecord } from '@/types/call';
+import type { SchemaDefinition } from '@/types/schema';
+
+export type JobType = 'transcription' | 'evaluation' | 'sentiment' | 'synthetic-audio';
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  callId: string;
+  schemaId?: string;
+  label: string;                   // Human-readable call name for the queue panel
+  status: JobStatus;
+  attempts: number;                // Attempts started so far
+  maxAttempts: number;
+  nextAttemptAt?: string;          // When a 'retrying' job becomes eligible again
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobQueueState {
+  jobs: Job[];
+  paused: boolean;
+  concurrency: number;
+}
+
+/**
+ * Performs the work for one job. Handlers should check `signal.aborted` before
+ * writing results so cancelled jobs do not overwrite call data.
+ */
+export type JobHandler = (job: Job, signal: AbortSignal) => Promise<void>;
+
+export interface EnqueueItem {
+  callId: string;
+  schemaId?: string;
+  label?: string;
+}
+
+/**
+ * Build a job queue entry for a call
+ */
+export function toQueueItem(call: CallRecord, schema: SchemaDefinition | null): EnqueueItem {
+  return {
+    callId: call.id,
+    schemaId: call.schemaId || schema?.id,
+    label: String(call.metadata.borrowerName || call.id),
+  };
+}
+
+const STORAGE_KEY = 'job-queue';
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running', 'retrying'];
+
+/**
+ * Detect throttling errors (HTTP 429 / "Resource Exhausted") from Azure OpenAI and Speech.
+ * Services surface the status code inside the error message, see 429-ERROR-DIAGNOSIS.md.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|too many requests|rate limit|resource exhausted/i.test(message);
+}
+
+/**
+ * Exponential backoff with jitter: 2s, 4s, 8s, 16s... capped at 60s
+ * @param attempt 1-based attempt number that just failed
+ */
+export function getBackoffDelay(attempt: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt - 1));
+  const jitter = Math.random() * exponential * 0.2;
+  return Math.round(exponential + jitter);
+}
+
+export function isJobActive(job: Job): boolean {
+  return ACTIVE_STATUSES.includes(job.status);
+}
+
+/**
+ * The app uses the getJobQueue() singleton; a new instance loads the saved state like a page reload
+ */
+export class JobQueue {
+  private state: JobQueueState;
+  private handlers = new Map<JobType, JobHandler>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<(state: JobQueueState) => void>();
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.state = this.load();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public API
+  // ---------------------------------------------------------------------------
+
+  getState(): JobQueueState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: JobQueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register the worker for a job type. Returns an unregister function.
+   * Jobs of a type without a handler stay queued until one registers.
+   */
+  registerHandler(type: JobType, handler: JobHandler): () => void {
+    this.handlers.set(type, handler);
+    this.pump();
+    return () => {
+      if (this.handlers.get(type) === handler) {
+        this.handlers.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Add jobs for the given calls. Calls that already have an active job of the same type are skipped.
+   * @returns The jobs that were added
+   */
+  enqueue(type: JobType, items: EnqueueItem[], maxAttempts: number = DEFAULT_MAX_ATTEMPTS): Job[] {
+    const now = new Date().toISOString();
+    const added: Job[] = items
+      .filter(item => !this.state.jobs.some(j => j.type === type && j.callId === item.callId && isJobActive(j)))
+      .map(item => ({
+        id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+        type,
+        callId: item.callId,
+        schemaId: item.schemaId,
+        label: item.label || item.callId,
+        status: 'queued' as const,
+        attempts: 0,
+        maxAttempts,
+        createdAt: now,
+      }));
+
+    if (added.length > 0) {
+      this.update({ jobs: [...this.state.jobs, ...added] });
+      console.log(`📋 Queued ${added.length} ${type} job(s)`);
+      this.pump();
+    }
+    return added;
+  }
+
+  pause(): void {
+    this.update({ paused: true });
+  }
+
+  resume(): void {
+    this.update({ paused: false });
+    this.pump();
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.update({ concurrency: Math.max(1, Math.min(10, Math.round(concurrency))) });
+    this.pump();
+  }
+
+  /**
+   * Cancel a queued, retrying or running job. Running work cannot be interrupted
+   * mid-request, but its result is discarded.
+   */
+  cancel(jobId: string): void {
+    this.controllers.get(jobId)?.abort();
+    this.controllers.delete(jobId);
+    this.updateJob(jobId, job =>
+      isJobActive(job) ? { ...job, status: 'cancelled', finishedAt: new Date().toISOString() } : job
+    );
+    this.pump();
+  }
+
+  cancelAll(): void {
+    this.state.jobs.filter(isJobActive).forEach(job => this.cancel(job.id));
+  }
+
+  /**
+   * Re-queue a failed or cancelled job with a fresh attempt budget
+   */
+  retry(jobId: string): void {
+    this.updateJob(jobId, job =>
+      job.status === 'failed' || job.status === 'cancelled'
+        ? { ...job, status: 'queued', attempts: 0, error: undefined, nextAttemptAt: undefined, finishedAt: undefined }
+        : job
+    );
+    this.pump();
+  }
+
+  retryFailed(): void {
+    this.state.jobs.filter(j => j.status === 'failed').forEach(job => this.retry(job.id));
+  }
+
+  /**
+   * Remove completed, failed and cancelled jobs from the list
+   */
+  clearFinished(): void {
+    this.update({ jobs: this.state.jobs.filter(isJobActive) });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Scheduling
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Start as many eligible jobs as concurrency allows and schedule a wake-up for the next retry
+   */
+  private pump(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    if (this.state.paused) return;
+
+    const now = Date.now();
+    let running = this.state.jobs.filter(j => j.status === 'running').length;
+
+    for (const job of this.state.jobs) {
+      if (running >= this.state.concurrency) break;
+      if (!this.handlers.has(job.type)) continue;
+      const eligible =
+        job.status === 'queued' ||
+        (job.status === 'retrying' && (!job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= now));
+      if (!eligible) continue;
+
+      running++;
+      void this.run(job);
+    }
+
+    const nextRetry = this.state.jobs
+      .filter(j => j.status === 'retrying' && j.nextAttemptAt && this.handlers.has(j.type))
+      .map(j => Date.parse(j.nextAttemptAt!))
+      .sort((a, b) => a - b)[0];
+    if (nextRetry !== undefined) {
+      this.wakeTimer = setTimeout(() => this.pump(), Math.max(0, nextRetry - now));
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    const attempt = job.attempts + 1;
+    this.updateJob(job.id, j => ({
+      ...j,
+      status: 'running',
+      attempts: attempt,
+      startedAt: new Date().toISOString(),
+      nextAttemptAt: undefined,
+    }));
+
+    try {
+      await handler({ ...job, attempts: attempt }, controller.signal);
+      if (!controller.signal.aborted) {
+        this.updateJob(job.id, j => ({ ...j, status: 'completed', error: undefined, finishedAt: new Date().toISOString() }));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (isRateLimitError(error) && attempt < job.maxAttempts) {
+        const delay = getBackoffDelay(attempt);
+        console.warn(`⏳ ${job.type} job for ${job.callId} throttled (attempt ${attempt}/${job.maxAttempts}), retrying in ${delay}ms`);
+        this.updateJob(job.id, j => ({
+          ...j,
+          status: 'retrying',
+          error: message,
+          nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        }));
+      } else {
+        console.error(`❌ ${job.type} job for ${job.callId} failed:`, error);
+        this.updateJob(job.id, j => ({ ...j, status: 'failed', error: message, finishedAt: new Date().toISOString() }));
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // State & persistence
+  // ---------------------------------------------------------------------------
+
+  private updateJob(jobId: string, updater: (job: Job) => Job): void {
+    this.update({ jobs: this.state.jobs.map(j => (j.id === jobId ? updater(j) : j)) });
+  }
+
+  private update(partial: Partial<JobQueueState>): void {
+    this.state = { ...this.state, ...partial };
+    this.save();
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private load(): JobQueueState {
+    const fallback: JobQueueState = { jobs: [], paused: false, concurrency: DEFAULT_CONCURRENCY };
+    try {
+      const json = getStorageAdapter().getItem(STORAGE_KEY);
+      if (!json) return fallback;
+      const stored = JSON.parse(json) as JobQueueState;
+      return {
+        paused: !!stored.paused,
+        concurrency: stored.concurrency || DEFAULT_CONCURRENCY,
+        // Jobs that were running when the page closed were interrupted - run them again
+        jobs: (stored.jobs || []).map(job => (job.status === 'running' ? { ...job, status: 'queued' as const } : job)),
+      };
+    } catch (error) {
+      console.warn('Failed to load job queue:', error);
+      return fallback;
+    }
+  }
+
+  private save(): void {
+    try {
+      getStorageAdapter().setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      console.warn('Failed to save job queue:', error);
+    }
+  }
+}
+
+let instance: JobQueue | null = null;
+
+/**
+ * Get the job queue singleton. Created lazily so it loads after the storage backend is initialized.
+ */
+export function getJobQueue(): JobQueue {
+  if (!instance) {
+    instance = new JobQueue();
+  }
+  return instance;
+}
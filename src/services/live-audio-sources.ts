@@ -0,0 +1,347 @@
+/**
+ * Live Audio Sources
+ * Audio inputs for live transcription. Each source delivers self-contained audio
+ * segments (a few seconds each) that can be transcribed independently:
+ * - microphone: browser capture, one MediaRecorder file per segment
+ * - websocket: telephony / media gateway streams (raw PCM16 frames or complete audio files)
+ * - file-replay: a local recording played back at real-time pace, for testing
+ */
+
+import { AudioSegment } from '@/types/call';
+import { PcmFormat, encodeWav, floatToPcm16, parseWav, pcmDurationMs, readBlobAsArrayBuffer, splitPcm } from '@/lib/wav';
+import { decodeCompressedAudio } from '@/lib/audio-pcm';
+
+export type LiveAudioSourceKind = 'microphone' | 'websocket' | 'file-replay';
+
+export interface LiveAudioHandlers {
+  onSegment: (segment: AudioSegment) => void;
+  onEnd: () => void;               // The stream finished (stopped, socket closed or file played out)
+  onError: (error: Error) => void;
+}
+
+export interface LiveAudioSource {
+  readonly kind: LiveAudioSourceKind;
+  readonly label: string;
+  start(handlers: LiveAudioHandlers): Promise<void>;
+  stop(): Promise<void>;
+  /** Full recording of the session, when the source can provide one */
+  getRecording(): Blob | undefined;
+}
+
+/** Length of each transcribed segment - longer segments diarize better, shorter ones feel more live */
+export const DEFAULT_SEGMENT_MS = 10000;
+
+// ============================================================================
+// MICROPHONE
+// ============================================================================
+
+/**
+ * Captures the microphone. A fresh MediaRecorder per segment keeps every segment a
+ * complete WebM file; a second recorder keeps the whole call for the final record.
+ */
+export class MicrophoneAudioSource implements LiveAudioSource {
+  readonly kind = 'microphone';
+  readonly label = 'Microphone';
+  private stream: MediaStream | null = null;
+  private segmentRecorder: MediaRecorder | null = null;
+  private fullRecorder: MediaRecorder | null = null;
+  private fullChunks: Blob[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private startedAt = 0;
+  private handlers: LiveAudioHandlers | null = null;
+
+  constructor(private options: { segmentMs?: number; deviceId?: string } = {}) {}
+
+  async start(handlers: LiveAudioHandlers): Promise<void> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error('Microphone capture is not supported in this browser');
+    }
+    this.handlers = handlers;
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: this.options.deviceId ? { deviceId: this.options.deviceId } : true,
+    });
+    this.startedAt = Date.now();
+
+    this.fullChunks = [];
+    this.fullRecorder = new MediaRecorder(this.stream);
+    this.fullRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.fullChunks.push(e.data);
+    };
+    this.fullRecorder.start(1000);
+
+    this.recordSegment();
+    console.log('🎙️ Microphone capture started');
+  }
+
+  private recordSegment(): void {
+    if (!this.stream) return;
+    const recorder = new MediaRecorder(this.stream);
+    const chunks: Blob[] = [];
+    const offsetMilliseconds = Date.now() - this.startedAt;
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      if (chunks.length === 0) return;
+      this.handlers?.onSegment({
+        audio: new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }),
+        offsetMilliseconds,
+        durationMilliseconds: Date.now() - this.startedAt - offsetMilliseconds,
+      });
+    };
+    recorder.start();
+    this.segmentRecorder = recorder;
+
+    this.timer = setTimeout(() => {
+      // Start the next segment before closing this one so no audio is dropped
+      this.recordSegment();
+      recorder.stop();
+    }, this.options.segmentMs ?? DEFAULT_SEGMENT_MS);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.stream) return;
+    if (this.timer) clearTimeout(this.timer);
+
+    const stopRecorder = (recorder: MediaRecorder | null) => new Promise<void>(resolve => {
+      if (!recorder || recorder.state === 'inactive') return resolve();
+      recorder.addEventListener('stop', () => resolve(), { once: true });
+      recorder.stop();
+    });
+    await Promise.all([stopRecorder(this.segmentRecorder), stopRecorder(this.fullRecorder)]);
+
+    this.stream.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    console.log('🎙️ Microphone capture stopped');
+    this.handlers?.onEnd();
+  }
+
+  getRecording(): Blob | undefined {
+    return this.fullChunks.length > 0
+      ? new Blob(this.fullChunks, { type: this.fullRecorder?.mimeType || 'audio/webm' })
+      : undefined;
+  }
+}
+
+// ============================================================================
+// WEBSOCKET
+// ============================================================================
+
+export interface WebSocketAudioOptions {
+  url: string;
+  /**
+   * pcm16: binary messages are raw little-endian 16-bit PCM frames, cut into segments here.
+   * container: each binary message is a complete audio file (WAV, WebM, MP3...). A JSON text
+   * message `{ "offsetMilliseconds": n, "durationMilliseconds": n }` may precede it.
+   */
+  encoding?: 'pcm16' | 'container';
+  sampleRate?: number;             // pcm16 only (default 16000)
+  channels?: number;               // pcm16 only (default 1)
+  segmentMs?: number;              // pcm16 only
+  createSocket?: (url: string) => WebSocket;
+}
+
+/**
+ * Receives audio pushed over a WebSocket by a telephony platform or media gateway
+ */
+export class WebSocketAudioSource implements LiveAudioSource {
+  readonly kind = 'websocket';
+  readonly label: string;
+  private socket: WebSocket | null = null;
+  private format: PcmFormat;
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private recorded: Uint8Array[] = [];
+  private emittedMs = 0;
+  private nextTiming: { offsetMilliseconds?: number; durationMilliseconds?: number } | null = null;
+  private lastMessageAt = 0;
+  private handlers: LiveAudioHandlers | null = null;
+  private ended = false;
+
+  constructor(private options: WebSocketAudioOptions) {
+    this.label = `WebSocket ${options.url}`;
+    this.format = { sampleRate: options.sampleRate ?? 16000, channels: options.channels ?? 1, bitsPerSample: 16 };
+  }
+
+  async start(handlers: LiveAudioHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.ended = false;
+    const socket = this.options.createSocket ? this.options.createSocket(this.options.url) : new WebSocket(this.options.url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.lastMessageAt = Date.now();
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === 'string') {
+        try {
+          this.nextTiming = JSON.parse(event.data);
+        } catch {
+          console.warn('⚠️ Ignoring non-JSON text message on audio socket');
+        }
+        return;
+      }
+      const bytes = new Uint8Array(event.data as ArrayBuffer);
+      if ((this.options.encoding ?? 'pcm16') === 'pcm16') {
+        this.receivePcm(bytes);
+      } else {
+        this.receiveFile(event.data as ArrayBuffer);
+      }
+    };
+    socket.onerror = () => handlers.onError(new Error(`Audio socket error (${this.options.url})`));
+    socket.onclose = () => this.finish();
+
+    await new Promise<void>((resolve, reject) => {
+      if (socket.readyState === WebSocket.OPEN) return resolve();
+      socket.addEventListener('open', () => resolve(), { once: true });
+      socket.addEventListener('error', () => reject(new Error(`Could not connect to ${this.options.url}`)), { once: true });
+    });
+    console.log(`🔌 Audio socket connected: ${this.options.url}`);
+  }
+
+  private receivePcm(bytes: Uint8Array): void {
+    this.pending.push(bytes);
+    this.pendingBytes += bytes.byteLength;
+    this.recorded.push(bytes);
+
+    const segmentMs = this.options.segmentMs ?? DEFAULT_SEGMENT_MS;
+    if (pcmDurationMs(this.pendingBytes, this.format) >= segmentMs) {
+      this.flushPcm();
+    }
+  }
+
+  private flushPcm(): void {
+    if (this.pendingBytes === 0) return;
+    const data = new Uint8Array(this.pendingBytes);
+    let position = 0;
+    for (const chunk of this.pending) {
+      data.set(chunk, position);
+      position += chunk.byteLength;
+    }
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    const durationMilliseconds = pcmDurationMs(data.byteLength, this.format);
+    this.handlers?.onSegment({
+      audio: encodeWav(data, this.format),
+      offsetMilliseconds: this.emittedMs,
+      durationMilliseconds,
+    });
+    this.emittedMs += durationMilliseconds;
+  }
+
+  private receiveFile(buffer: ArrayBuffer): void {
+    const now = Date.now();
+    const wav = parseWav(buffer);
+    const durationMilliseconds = this.nextTiming?.durationMilliseconds
+      ?? (wav ? pcmDurationMs(wav.data.byteLength, wav) : now - this.lastMessageAt);
+    const offsetMilliseconds = this.nextTiming?.offsetMilliseconds ?? this.emittedMs;
+    this.nextTiming = null;
+    this.lastMessageAt = now;
+
+    this.handlers?.onSegment({
+      audio: new Blob([buffer], { type: wav ? 'audio/wav' : 'application/octet-stream' }),
+      offsetMilliseconds,
+      durationMilliseconds,
+    });
+    this.emittedMs = offsetMilliseconds + durationMilliseconds;
+  }
+
+  private finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.flushPcm();
+    this.socket = null;
+    console.log('🔌 Audio socket closed');
+    this.handlers?.onEnd();
+  }
+
+  async stop(): Promise<void> {
+    if (this.socket && this.socket.readyState !== WebSocket.CLOSED) {
+      this.socket.close();
+    }
+    this.finish();
+  }
+
+  getRecording(): Blob | undefined {
+    if ((this.options.encoding ?? 'pcm16') !== 'pcm16' || this.recorded.length === 0) return undefined;
+    const total = this.recorded.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    const data = new Uint8Array(total);
+    let position = 0;
+    for (const chunk of this.recorded) {
+      data.set(chunk, position);
+      position += chunk.byteLength;
+    }
+    return encodeWav(data, this.format);
+  }
+}
+
+// ============================================================================
+// FILE REPLAY
+// ============================================================================
+
+/**
+ * Plays a local recording back as if it were live. PCM WAV files are cut directly;
+ * other formats are decoded with Web Audio first.
+ * `speed` 1 is real time, 4 is four times faster, 0 delivers all segments at once.
+ */
+export class FileReplayAudioSource implements LiveAudioSource {
+  readonly kind = 'file-replay';
+  readonly label: string;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private handlers: LiveAudioHandlers | null = null;
+  private ended = false;
+
+  constructor(private file: File | Blob, private options: { segmentMs?: number; speed?: number } = {}) {
+    this.label = file instanceof File ? `Replay ${file.name}` : 'Replay';
+  }
+
+  async start(handlers: LiveAudioHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.ended = false;
+    const segments = splitPcm(await this.decode(), this.options.segmentMs ?? DEFAULT_SEGMENT_MS);
+    const speed = this.options.speed ?? 1;
+    console.log(`▶️ Replaying ${this.label} as ${segments.length} segments (speed ${speed || 'instant'})`);
+
+    if (speed <= 0) {
+      segments.forEach(segment => handlers.onSegment(segment));
+      this.finish();
+      return;
+    }
+
+    // Each segment is delivered when its audio would have finished playing
+    segments.forEach((segment, index) => {
+      const delay = (segment.offsetMilliseconds + segment.durationMilliseconds) / speed;
+      this.timers.push(setTimeout(() => {
+        handlers.onSegment(segment);
+        if (index === segments.length - 1) this.finish();
+      }, delay));
+    });
+    if (segments.length === 0) this.finish();
+  }
+
+  private async decode() {
+    const buffer = await readBlobAsArrayBuffer(this.file);
+    const wav = parseWav(buffer);
+    if (wav) return wav;
+
+    const decoded = await decodeCompressedAudio(buffer);
+    return floatToPcm16(decoded.channels, decoded.sampleRate);
+  }
+
+  private finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.handlers?.onEnd();
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+    this.finish();
+  }
+
+  getRecording(): Blob | undefined {
+    return this.file;
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prompt-loader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/prompt-loader')>()),
+  preparePrompt: vi.fn(async (name: string, variables: Record<string, string>) =>
+    `${name}\n${variables.mustNotDoRules}\n${variables.transcript}`),
+}));
+
+import { preparePrompt } from '@/lib/prompt-loader';
+import { EVALUATION_CRITERIA } from '@/lib/evaluation-criteria';
+import { encodeWav } from '@/lib/wav';
+import { AudioSegment, TranscriptPhrase, TranscriptionResult } from '@/types/call';
+import { loadDebtCollectionCalls } from '@/test/fixtures';
+import { FileReplayAudioSource, WebSocketAudioSource } from './live-audio-sources';
+import { LiveTranscriptionSession, createLiveChecklist, matchMustDoExamples } from './live-transcription';
+
+const criteria = EVALUATION_CRITERIA;
+const RUDE_RULE_ID = criteria.findIndex(c => c.type === 'Must Not Do') + 1;
+const format = { sampleRate: 8000, channels: 1, bitsPerSample: 16 };
+
+function silence(ms: number): Uint8Array {
+  return new Uint8Array((format.sampleRate * ms / 1000) * 2);
+}
+
+function phrase(text: string, speaker: number, offsetMilliseconds: number): TranscriptPhrase {
+  return { text, speaker, offsetMilliseconds, durationMilliseconds: 800, confidence: 0.9 };
+}
+
+// What the speech service "hears" in each 1 second segment, offsets relative to the segment
+const script: Record<number, TranscriptPhrase[]> = {
+  0: [phrase('Good afternoon, this is Sara from CashNow.', 1, 100)],
+  1000: [phrase('This call is recorded for quality purposes.', 1, 0), phrase('Why didn\'t you pay yet?', 1, 500)],
+  2000: [phrase('I will pay on Friday.', 2, 200)],
+};
+
+function fakeTranscribe(segment: AudioSegment): Promise<TranscriptionResult> {
+  const phrases = (script[segment.offsetMilliseconds] || []).map(p => ({
+    ...p,
+    offsetMilliseconds: p.offsetMilliseconds + segment.offsetMilliseconds,
+  }));
+  return Promise.resolve({ transcript: phrases.map(p => p.text).join(' '), confidence: 0.9, locale: 'en-US', phrases });
+}
+
+function replaySession(options: { llm?: boolean; transcribe?: (segment: AudioSegment) => Promise<TranscriptionResult> } = {}) {
+  const { schema } = loadDebtCollectionCalls();
+  const file = new File([encodeWav(silence(3000), format)], 'call.wav', { type: 'audio/wav' });
+  const llmCaller = {
+    callWithJsonValidation: vi.fn().mockResolvedValue({
+      parsed: { violations: [{ ruleId: RUDE_RULE_ID, quote: 'Why didn\'t you pay yet?' }] },
+      rawContent: '',
+    }),
+  };
+  const session = new LiveTranscriptionSession({
+    schema,
+    criteria,
+    source: new FileReplayAudioSource(file, { segmentMs: 1000, speed: 0 }),
+    transcribe: options.transcribe ?? fakeTranscribe,
+    llmCaller: options.llm === false ? undefined : llmCaller,
+  });
+  return { schema, file, session, llmCaller };
+}
+
+describe('matchMustDoExamples', () => {
+  it('ticks off "Must Do" rules when a phrase closely matches an example', () => {
+    const checklist = createLiveChecklist(criteria);
+    const updated = matchMustDoExamples(checklist, criteria, phrase('Good afternoon, this is Sara from CashNow.', 1, 4000));
+
+    expect(updated[0]).toMatchObject({ status: 'satisfied', detectedBy: 'phrase-match', offsetMilliseconds: 4000 });
+    expect(updated[1].status).toBe('satisfied');
+    expect(updated.filter(item => item.status === 'satisfied')).toHaveLength(2);
+
+    // "Must Not Do" examples are never matched locally
+    expect(matchMustDoExamples(checklist, criteria, phrase('Why didn\'t you pay yet?', 1, 0))).toBe(checklist);
+  });
+});
+
+describe('LiveTranscriptionSession', () => {
+  beforeEach(() => {
+    vi.mocked(preparePrompt).mockClear();
+  });
+
+  it('replays a file into a checklist, alerts and a call record', async () => {
+    const { schema, file, session, llmCaller } = replaySession();
+    const statuses: string[] = [];
+    session.subscribe(state => statuses.push(state.status));
+
+    await session.start();
+    await session.stop();
+    const state = session.getState();
+
+    expect(state.status).toBe('stopped');
+    expect(statuses).toContain('live');
+    expect(state.phrases.map(p => p.offsetMilliseconds)).toEqual([100, 1000, 1500, 2200]);
+    expect(state.elapsedMilliseconds).toBe(3000);
+
+    const byId = (id: number) => state.checklist[id - 1];
+    expect(byId(1).status).toBe('satisfied');
+    expect(byId(3)).toMatchObject({ status: 'satisfied', offsetMilliseconds: 1000 });
+    expect(byId(RUDE_RULE_ID)).toMatchObject({ status: 'violated', detectedBy: 'llm', offsetMilliseconds: 1500 });
+    expect(state.alerts).toHaveLength(1);
+    expect(state.alerts[0]).toMatchObject({ criterionId: RUDE_RULE_ID, quote: 'Why didn\'t you pay yet?' });
+
+    expect(llmCaller.callWithJsonValidation).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(preparePrompt).mock.calls[0][1].transcript).toContain('[00:01] Speaker 1: Why didn\'t you pay yet?');
+
+    const call = session.toCallRecord({ agent_name: 'Sara' });
+    expect(call).toMatchObject({
+      schemaId: schema.id,
+      status: 'transcribed',
+      metadata: { agent_name: 'Sara' },
+      transcriptLocale: 'en-US',
+      transcriptSpeakerCount: 2,
+      transcriptDuration: 3000,
+      audioFile: file,
+    });
+    expect(call.transcript).toBe('Good afternoon, this is Sara from CashNow. This call is recorded for quality purposes. Why didn\'t you pay yet? I will pay on Friday.');
+  });
+
+  it('keeps going when a segment fails and works without a model', async () => {
+    const transcribe = vi.fn((segment: AudioSegment) =>
+      segment.offsetMilliseconds === 1000 ? Promise.reject(new Error('429 Too Many Requests')) : fakeTranscribe(segment)
+    );
+    const { session } = replaySession({ llm: false, transcribe });
+
+    await session.start();
+    await session.stop();
+    const state = session.getState();
+
+    expect(transcribe).toHaveBeenCalledTimes(3);
+    expect(state.segmentErrors).toBe(1);
+    expect(state.error).toContain('429');
+    expect(state.phrases).toHaveLength(2);
+    expect(state.checklist[RUDE_RULE_ID - 1].status).toBe('pending');
+    expect(state.alerts).toEqual([]);
+  });
+
+  it('only saves stopped sessions', async () => {
+    const { session } = replaySession();
+    expect(() => session.toCallRecord()).toThrow('Stop the live session');
+    await session.start();
+    await expect(session.start()).rejects.toThrow('only be started once');
+  });
+});
+
+describe('WebSocketAudioSource', () => {
+  it('cuts streamed PCM frames into WAV segments', async () => {
+    const socket = {
+      readyState: WebSocket.OPEN,
+      binaryType: 'blob',
+      onmessage: null as ((event: { data: unknown }) => void) | null,
+      onerror: null,
+      onclose: null as (() => void) | null,
+      addEventListener: vi.fn(),
+      close() {
+        this.onclose?.();
+      },
+    };
+    const source = new WebSocketAudioSource({
+      url: 'wss://media.example/stream',
+      sampleRate: format.sampleRate,
+      segmentMs: 1000,
+      createSocket: () => socket as unknown as WebSocket,
+    });
+    const segments: AudioSegment[] = [];
+    const onEnd = vi.fn();
+
+    await source.start({ onSegment: s => segments.push(s), onEnd, onError: vi.fn() });
+    [600, 600, 300].forEach(ms => socket.onmessage!({ data: silence(ms).buffer }));
+    await source.stop();
+
+    expect(segments.map(s => [s.offsetMilliseconds, s.durationMilliseconds])).toEqual([[0, 1200], [1200, 300]]);
+    expect(segments[0].audio.type).toBe('audio/wav');
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(source.getRecording()!.size).toBe(44 + silence(1500).byteLength);
+  });
+});
@@ -0,0 +1,425 @@
+/**
+ * Live Transcription Service
+ * Transcribes a live audio source segment by segment and assists the agent while the
+ * call is running: a checklist of the schema's "Must Do" rules that have been met, and
+ * alerts when a "Must Not Do" rule is broken. A finished session becomes a normal
+ * CallRecord that can be evaluated like any uploaded call.
+ */
+
+import type { LLMCaller, ChatMessage } from '../llmCaller';
+import type { AudioSegment, CallRecord, EvaluationCriterion, TranscriptPhrase, TranscriptionResult } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import type { LiveAudioSource } from './live-audio-sources';
+import { preparePrompt } from '../lib/prompt-loader';
+import { getRedactionPolicy, getRedactionVariant, redactText, redactTranscript } from '../lib/pii-redaction';
+import { computeSpeechMetrics } from '../lib/speech-analytics';
+
+export type LiveSessionStatus = 'idle' | 'live' | 'stopping' | 'stopped' | 'failed';
+
+export interface LiveChecklistItem {
+  criterionId: number;             // 1-based, as in evaluation results
+  criterionKey?: string;
+  name: string;
+  type: 'Must Do' | 'Must Not Do';
+  status: 'pending' | 'satisfied' | 'violated';
+  evidence?: string;               // Quote that met or broke the rule
+  offsetMilliseconds?: number;     // Position of the quote in the call
+  detectedBy?: 'phrase-match' | 'llm';
+}
+
+export interface LiveAlert {
+  id: string;
+  criterionId: number;
+  criterionKey?: string;
+  criterionName: string;
+  quote: string;
+  offsetMilliseconds?: number;
+  raisedAt: string;
+}
+
+export interface LiveSessionState {
+  status: LiveSessionStatus;
+  phrases: TranscriptPhrase[];
+  checklist: LiveChecklistItem[];
+  alerts: LiveAlert[];
+  pendingSegments: number;         // Segments received but not transcribed yet
+  elapsedMilliseconds: number;     // Audio covered by received segments
+  locale?: string;
+  segmentErrors: number;
+  error?: string;
+  startedAt?: string;
+}
+
+export interface LiveSessionOptions {
+  schema: SchemaDefinition;
+  criteria: EvaluationCriterion[];
+  source: LiveAudioSource;
+  transcribe: (segment: AudioSegment) => Promise<TranscriptionResult>;
+  /** Optional - without it only "Must Do" example phrases are matched locally */
+  llmCaller?: Pick<LLMCaller, 'callWithJsonValidation'>;
+}
+
+/** Share of an example's words a phrase must contain to count as saying it */
+const LOCAL_MATCH_THRESHOLD = 0.75;
+const MIN_EXAMPLE_WORDS = 3;
+/** Already-checked phrases sent along with new ones so the model sees the lead-up */
+const CONTEXT_PHRASES = 4;
+
+// ============================================================================
+// CHECKLIST
+// ============================================================================
+
+/**
+ * Empty checklist for the schema's rules
+ */
+export function createLiveChecklist(criteria: EvaluationCriterion[]): LiveChecklistItem[] {
+  return criteria.map((criterion, index) => ({
+    criterionId: index + 1,
+    criterionKey: criterion.key,
+    name: criterion.name,
+    type: criterion.type,
+    status: 'pending',
+  }));
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter(Boolean));
+}
+
+/**
+ * Tick off "Must Do" rules whose examples the phrase closely matches. Only "Must Do"
+ * examples are used - "Must Not Do" examples often mix good and bad wording.
+ */
+export function matchMustDoExamples(
+  checklist: LiveChecklistItem[],
+  criteria: EvaluationCriterion[],
+  phrase: TranscriptPhrase
+): LiveChecklistItem[] {
+  const phraseWords = words(phrase.text);
+  let changed = false;
+
+  const updated = checklist.map((item, index) => {
+    const criterion = criteria[index];
+    if (item.status !== 'pending' || item.type !== 'Must Do' || !criterion) return item;
+
+    const matched = criterion.examples.some(example => {
+      const exampleWords = [...words(example)];
+      if (exampleWords.length < MIN_EXAMPLE_WORDS) return false;
+      const found = exampleWords.filter(word => phraseWords.has(word)).length;
+      return found / exampleWords.length >= LOCAL_MATCH_THRESHOLD;
+    });
+    if (!matched) return item;
+
+    changed = true;
+    return {
+      ...item,
+      status: 'satisfied' as const,
+      evidence: phrase.text,
+      offsetMilliseconds: phrase.offsetMilliseconds,
+      detectedBy: 'phrase-match' as const,
+    };
+  });
+
+  return changed ? updated : checklist;
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  return `${String(Math.floor(totalSeconds / 60)).padStart(2, '0')}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+function formatPhrases(phrases: TranscriptPhrase[], redact: (text: string) => string): string {
+  return phrases
+    .map(p => `[${formatOffset(p.offsetMilliseconds)}] ${typeof p.speaker === 'number' ? `Speaker ${p.speaker}` : 'Unknown speaker'}: ${redact(p.text)}`)
+    .join('\n');
+}
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+/**
+ * One live call. Segments are transcribed in arrival order; the rule check runs after
+ * each transcribed segment (at most one model call at a time) and once more at the end.
+ */
+export class LiveTranscriptionSession {
+  private state: LiveSessionState;
+  private listeners = new Set<(state: LiveSessionState) => void>();
+  private processing: Promise<void> = Promise.resolve();
+  private assist: Promise<void> = Promise.resolve();
+  private assistRunning = false;
+  private assistQueued = false;
+  private checkedPhrases = 0;
+  private finishing: Promise<void> | null = null;
+  private readonly redact: (text: string) => string;
+
+  constructor(private options: LiveSessionOptions) {
+    this.state = {
+      status: 'idle',
+      phrases: [],
+      checklist: createLiveChecklist(options.criteria),
+      alerts: [],
+      pendingSegments: 0,
+      elapsedMilliseconds: 0,
+      segmentErrors: 0,
+    };
+
+    // Transcript text sent to the model follows the schema's redaction policy
+    const { schema } = options;
+    this.redact = getRedactionVariant(schema, 'evaluation') === 'redacted'
+      ? (text: string) => redactText(text, schema.redactionPolicy?.detectors)
+      : (text: string) => text;
+  }
+
+  getState(): LiveSessionState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: LiveSessionState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(patch: Partial<LiveSessionState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  /**
+   * Start capturing from the source
+   */
+  async start(): Promise<void> {
+    if (this.state.status !== 'idle') {
+      throw new Error('A live session can only be started once');
+    }
+    this.setState({ status: 'live', startedAt: new Date().toISOString() });
+    console.log(`🔴 Live session started (${this.options.source.label})`);
+
+    try {
+      await this.options.source.start({
+        onSegment: (segment) => this.enqueueSegment(segment),
+        onEnd: () => {
+          void this.finish();
+        },
+        onError: (error) => {
+          console.error('❌ Live audio source error:', error);
+          this.setState({ error: error.message });
+          void this.stop();
+        },
+      });
+    } catch (error) {
+      this.setState({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop capturing; resolves once every received segment is transcribed and checked
+   */
+  async stop(): Promise<void> {
+    if (this.state.status === 'idle') {
+      this.setState({ status: 'stopped' });
+      return;
+    }
+    if (this.state.status === 'live') {
+      await this.options.source.stop();
+    }
+    await this.finish();
+  }
+
+  private finish(): Promise<void> {
+    if (!this.finishing) {
+      this.setState({ status: 'stopping' });
+      this.finishing = (async () => {
+        await this.processing;
+        // Final check of the last phrases; loop while checks queued during the wait still run
+        do {
+          this.runAssist();
+          await this.assist;
+        } while (this.assistRunning);
+        this.setState({ status: 'stopped' });
+        console.log(`⏹️ Live session stopped: ${this.state.phrases.length} phrases, ${this.state.alerts.length} alerts`);
+      })();
+    }
+    return this.finishing;
+  }
+
+  private enqueueSegment(segment: AudioSegment): void {
+    this.setState({
+      pendingSegments: this.state.pendingSegments + 1,
+      elapsedMilliseconds: Math.max(this.state.elapsedMilliseconds, segment.offsetMilliseconds + segment.durationMilliseconds),
+    });
+    this.processing = this.processing.then(() => this.processSegment(segment));
+  }
+
+  private async processSegment(segment: AudioSegment): Promise<void> {
+    try {
+      const result = await this.options.transcribe(segment);
+      const newPhrases = (result.phrases || []).filter(p => p.text.trim());
+
+      let checklist = this.state.checklist;
+      for (const phrase of newPhrases) {
+        checklist = matchMustDoExamples(checklist, this.options.criteria, phrase);
+      }
+
+      this.setState({
+        phrases: [...this.state.phrases, ...newPhrases].sort((a, b) => a.offsetMilliseconds - b.offsetMilliseconds),
+        checklist,
+        locale: this.state.locale || result.locale,
+        pendingSegments: this.state.pendingSegments - 1,
+      });
+      if (newPhrases.length > 0 && this.state.status === 'live') this.runAssist();
+    } catch (error) {
+      console.warn('⚠️ Live segment transcription failed:', error);
+      this.setState({
+        pendingSegments: this.state.pendingSegments - 1,
+        segmentErrors: this.state.segmentErrors + 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private runAssist(): void {
+    if (!this.options.llmCaller) return;
+    if (this.assistRunning) {
+      this.assistQueued = true;
+      return;
+    }
+    if (this.checkedPhrases >= this.state.phrases.length) return;
+
+    this.assistRunning = true;
+    this.assist = this.checkRules()
+      .catch(error => console.warn('⚠️ Live rule check failed:', error))
+      .finally(() => {
+        this.assistRunning = false;
+        if (this.assistQueued) {
+          this.assistQueued = false;
+          this.runAssist();
+        }
+      });
+  }
+
+  private async checkRules(): Promise<void> {
+    const { phrases, checklist } = this.state;
+    const newPhrases = phrases.slice(this.checkedPhrases);
+    const context = phrases.slice(Math.max(0, this.checkedPhrases - CONTEXT_PHRASES), this.checkedPhrases);
+    this.checkedPhrases = phrases.length;
+
+    const pendingMustDo = checklist.filter(item => item.type === 'Must Do' && item.status === 'pending');
+    const mustNotDo = checklist.filter(item => item.type === 'Must Not Do');
+    if (pendingMustDo.length === 0 && mustNotDo.length === 0) return;
+
+    const describe = (items: LiveChecklistItem[]) => items.length > 0
+      ? items.map(item => `${item.criterionId}. ${item.name}: ${this.options.criteria[item.criterionId - 1]?.definition || ''}`).join('\n')
+      : 'None';
+
+    const prompt = await preparePrompt('live-assist', {
+      businessContext: this.options.schema.businessContext || this.options.schema.name,
+      mustDoRules: describe(pendingMustDo),
+      mustNotDoRules: describe(mustNotDo),
+      context: context.length > 0 ? formatPhrases(context, this.redact) : 'Call just started.',
+      transcript: formatPhrases(newPhrases, this.redact),
+    });
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'You are a real-time call center quality assistant. Return valid JSON only.' },
+      { role: 'user', content: prompt },
+    ];
+
+    const { parsed } = await this.options.llmCaller!.callWithJsonValidation<{
+      satisfied?: Array<{ ruleId?: number; quote?: string }>;
+      violations?: Array<{ ruleId?: number; quote?: string }>;
+    }>(messages, {
+      useJsonMode: true,
+      maxRetries: 1,
+      retryDelay: 500,
+      usage: { operation: 'live-assist', schemaId: this.options.schema.id },
+    });
+
+    // Place quotes on the timeline by the phrase that contains them
+    const locate = (quote: string) => newPhrases.find(p =>
+      p.text.toLowerCase().includes(quote.toLowerCase()) || quote.toLowerCase().includes(p.text.toLowerCase())
+    )?.offsetMilliseconds;
+
+    const now = new Date().toISOString();
+    const alerts = [...this.state.alerts];
+    const updated = this.state.checklist.map(item => {
+      const satisfied = item.type === 'Must Do' && item.status === 'pending'
+        ? parsed.satisfied?.find(s => Number(s.ruleId) === item.criterionId)
+        : undefined;
+      if (satisfied) {
+        const quote = satisfied.quote?.trim() || '';
+        return { ...item, status: 'satisfied' as const, evidence: quote, offsetMilliseconds: locate(quote), detectedBy: 'llm' as const };
+      }
+
+      const violations = item.type === 'Must Not Do'
+        ? (parsed.violations || []).filter(v => Number(v.ruleId) === item.criterionId)
+        : [];
+      if (violations.length === 0) return item;
+
+      for (const violation of violations) {
+        const quote = violation.quote?.trim() || '';
+        if (alerts.some(a => a.criterionId === item.criterionId && a.quote === quote)) continue;
+        alerts.push({
+          id: `alert_${Date.now()}_${alerts.length}`,
+          criterionId: item.criterionId,
+          criterionKey: item.criterionKey,
+          criterionName: item.name,
+          quote,
+          offsetMilliseconds: locate(quote),
+          raisedAt: now,
+        });
+        console.log(`🚨 Live alert: ${item.name} - "${quote}"`);
+      }
+      const first = violations[0].quote?.trim() || '';
+      return item.status === 'violated'
+        ? item
+        : { ...item, status: 'violated' as const, evidence: first, offsetMilliseconds: locate(first), detectedBy: 'llm' as const };
+    });
+
+    this.setState({ checklist: updated, alerts });
+  }
+
+  /**
+   * The finished session as a transcribed call of the schema
+   */
+  toCallRecord(metadata: Record<string, any> = {}): CallRecord {
+    if (this.state.status !== 'stopped') {
+      throw new Error('Stop the live session before saving it as a call');
+    }
+
+    const { schema, source } = this.options;
+    const { phrases } = this.state;
+    const confidences = phrases.map(p => p.confidence).filter((c): c is number => typeof c === 'number');
+    const speakers = new Set(phrases.map(p => p.speaker).filter(s => s !== undefined));
+    const transcriptWords = phrases.flatMap(p => p.words || []);
+    const now = new Date().toISOString();
+
+    const call: CallRecord = {
+      id: `live-${Date.now()}`,
+      schemaId: schema.id,
+      schemaVersion: schema.version,
+      metadata,
+      audioFile: source.getRecording(),
+      transcript: phrases.map(p => p.text).join(' ').trim(),
+      transcriptConfidence: confidences.length > 0
+        ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 100) / 100
+        : undefined,
+      transcriptWords: transcriptWords.length > 0 ? transcriptWords : undefined,
+      transcriptLocale: this.state.locale,
+      transcriptDuration: this.state.elapsedMilliseconds,
+      transcriptPhrases: phrases,
+      transcriptSpeakerCount: speakers.size > 0 ? speakers.size : undefined,
+      status: 'transcribed',
+      createdAt: this.state.startedAt || now,
+      updatedAt: now,
+    };
+
+    call.speechMetrics = computeSpeechMetrics(call);
+    const redactionPolicy = getRedactionPolicy(schema);
+    call.redactedTranscript = redactionPolicy.enabled ? redactTranscript(call, redactionPolicy) : undefined;
+    return call;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * LLM Recordings Service
+ * Stores LLM responses keyed by prompt hash for the offline mock provider.
+ * Recordings live in the storage adapter; a bundled /llm-recordings.json (if
+ * present) is used as a read-only fallback so demos and CI can ship fixtures.
+ */
+
+import type { LLMRecording, LLMRecordingStore } from '@/configManager';
+import { getStorageAdapter } from '@/lib/storage-adapter';
+
+const STORAGE_KEY = 'llm-recordings';
+const BUNDLED_RECORDINGS_URL = '/llm-recordings.json';
+
+let bundledRecordings: Promise<Record<string, LLMRecording>> | null = null;
+
+function loadStoredRecordings(): Record<string, LLMRecording> {
+  try {
+    const json = getStorageAdapter().getItem(STORAGE_KEY);
+    return json ? JSON.parse(json) : {};
+  } catch (error) {
+    console.error('Error loading LLM recordings:', error);
+    return {};
+  }
+}
+
+function saveStoredRecordings(recordings: Record<string, LLMRecording>): void {
+  getStorageAdapter().setItem(STORAGE_KEY, JSON.stringify(recordings));
+}
+
+function loadBundledRecordings(): Promise<Record<string, LLMRecording>> {
+  if (!bundledRecordings) {
+    bundledRecordings = fetch(BUNDLED_RECORDINGS_URL)
+      .then(response => (response.ok ? response.json() : {}))
+      .then(data => toRecordingMap(data))
+      .catch(() => ({}));
+  }
+  return bundledRecordings;
+}
+
+/** Accept either a hash-keyed map or an array of recordings */
+function toRecordingMap(data: unknown): Record<string, LLMRecording> {
+  const list: unknown[] = Array.isArray(data) ? data : data && typeof data === 'object' ? Object.values(data) : [];
+  const map: Record<string, LLMRecording> = {};
+  for (const item of list) {
+    const recording = item as LLMRecording;
+    if (recording && typeof recording.hash === 'string' && typeof recording.response === 'string') {
+      map[recording.hash] = recording;
+    }
+  }
+  return map;
+}
+
+export const llmRecordingStore: LLMRecordingStore = {
+  async get(hash) {
+    return loadStoredRecordings()[hash] ?? (await loadBundledRecordings())[hash] ?? null;
+  },
+  save(recording) {
+    const recordings = loadStoredRecordings();
+    recordings[recording.hash] = recording;
+    saveStoredRecordings(recordings);
+    console.log(`📼 Recorded LLM response for prompt ${recording.hash}`);
+  },
+};
+
+/**
+ * Number of recordings saved in storage (bundled ones excluded)
+ */
+export function getRecordingCount(): number {
+  return Object.keys(loadStoredRecordings()).length;
+}
+
+/**
+ * Export stored recordings as a JSON document (suitable for public/llm-recordings.json)
+ */
+export function exportRecordings(): string {
+  return JSON.stringify(loadStoredRecordings(), null, 2);
+}
+
+/**
+ * Merge recordings from an exported JSON document
+ * @returns Number of recordings imported
+ */
+export function importRecordings(json: string): number {
+  const imported = toRecordingMap(JSON.parse(json));
+  saveStoredRecordings({ ...loadStoredRecordings(), ...imported });
+  return Object.keys(imported).length;
+}
+
+export function clearRecordings(): void {
+  getStorageAdapter().removeItem(STORAGE_KEY);
+}
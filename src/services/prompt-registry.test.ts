@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EVALUATION_CRITERIA } from '@/lib/evaluation-criteria';
+import { CallRecord } from '@/types/call';
+import { PromptVariant } from '@/types/prompt-registry';
+import { loadDebtCollectionCalls, withEvaluation } from '@/test/fixtures';
+import {
+  createPromptVersion,
+  getPinnedPromptVersion,
+  labelGoldenCall,
+  loadComparisonReports,
+  loadGoldenSet,
+  loadPromptVersions,
+  pinPromptVersion,
+  promoteVariant,
+  runPromptComparison,
+  validatePromptTemplate,
+} from './prompt-registry';
+
+const criteria = EVALUATION_CRITERIA.slice(0, 3);
+const TEMPLATE = 'Rules:\n{{criteriaText}}\n\nCall:\n{{transcript}}';
+const variants: [PromptVariant, PromptVariant] = [
+  { label: 'A' },
+  { label: 'B', promptVersionId: 'prompt_b', deploymentName: 'gpt-4.1-mini' },
+];
+
+function goldenSetup() {
+  const { schema, calls } = loadDebtCollectionCalls();
+  const labeled = [[true, true, false], [true, false, true], [false, true, true]].map((verdicts, i) =>
+    withEvaluation({ ...calls[i], transcript: `Agent: call ${i}` }, criteria, verdicts)
+  );
+  labeled.forEach(call => labelGoldenCall(schema.id, call, criteria, 'Dana'));
+  return { schema, calls: labeled };
+}
+
+describe('validatePromptTemplate', () => {
+  it('reports unknown and missing variables', () => {
+    expect(validatePromptTemplate(TEMPLATE)).toMatchObject({ valid: true, variables: ['criteriaText', 'transcript'] });
+
+    const result = validatePromptTemplate('{{transcript}} for {{agentMood}}');
+    expect(result.valid).toBe(false);
+    expect(result.unknownVariables).toEqual(['agentMood']);
+    expect(result.missingVariables).toEqual(['criteriaText']);
+  });
+});
+
+describe('prompt versions', () => {
+  it('numbers versions per schema, reuses identical templates and pins one at a time', () => {
+    const v1 = createPromptVersion('schema-1', { template: TEMPLATE, notes: ' First cut ', author: 'Dana' });
+    const v2 = createPromptVersion('schema-1', { template: `${TEMPLATE}\nBe strict.`, notes: 'Stricter' });
+
+    expect([v1.version, v2.version]).toEqual([1, 2]);
+    expect(v1.notes).toBe('First cut');
+    expect(createPromptVersion('schema-1', { template: TEMPLATE, notes: 'again' }).id).toBe(v1.id);
+    expect(createPromptVersion('schema-2', { template: TEMPLATE, notes: '' }).version).toBe(1);
+    expect(getPinnedPromptVersion('schema-1')).toBeUndefined();
+
+    pinPromptVersion('schema-1', v1.id);
+    pinPromptVersion('schema-1', v2.id);
+    expect(loadPromptVersions('schema-1').filter(v => v.pinned).map(v => v.id)).toEqual([v2.id]);
+
+    promoteVariant('schema-1', { label: 'A' });
+    expect(getPinnedPromptVersion('schema-1')).toBeUndefined();
+  });
+
+  it('rejects templates the evaluation cannot fill', () => {
+    expect(() => createPromptVersion('schema-1', { template: '{{transcript}} {{criteriaText}} {{tone}}', notes: '' }))
+      .toThrow('Unknown prompt variables: {{tone}}');
+    expect(() => createPromptVersion('schema-1', { template: 'Evaluate {{transcript}}', notes: '' }))
+      .toThrow('Prompt must include {{criteriaText}}');
+    expect(() => pinPromptVersion('schema-1', 'missing')).toThrow('not found');
+    expect(loadPromptVersions('schema-1')).toEqual([]);
+  });
+});
+
+describe('golden set', () => {
+  it('labels calls with their current verdicts, keyed by criterion', () => {
+    const { schema, calls } = goldenSetup();
+    const reviewed: CallRecord = {
+      ...calls[0],
+      evaluation: {
+        ...calls[0].evaluation!,
+        results: calls[0].evaluation!.results.map((r, i) => (i === 2 ? { ...r, notApplicable: true } : r)),
+      },
+    };
+    labelGoldenCall(schema.id, reviewed, criteria, 'Sam');
+
+    const goldenSet = loadGoldenSet(schema.id);
+    expect(goldenSet).toHaveLength(3);
+    expect(goldenSet.find(g => g.callId === calls[0].id)).toMatchObject({
+      labeledBy: 'Sam',
+      verdicts: { [criteria[0].key!]: 'passed', [criteria[1].key!]: 'passed', [criteria[2].key!]: 'na' },
+    });
+    expect(() => labelGoldenCall(schema.id, loadDebtCollectionCalls().calls[3], criteria, 'Sam')).toThrow('Only evaluated calls');
+  });
+});
+
+describe('runPromptComparison', () => {
+  it('reports agreement, score deltas and per-criterion flip rates', async () => {
+    const { schema, calls } = goldenSetup();
+    // A reproduces the labels; B flips the last criterion on every call
+    const evaluate = vi.fn(async (call: CallRecord, variant: PromptVariant) => {
+      const labeled = call.evaluation!.results.map(r => r.passed);
+      const verdicts = variant.label === 'A' ? labeled : labeled.map((v, i) => (i === 2 ? !v : v));
+      return withEvaluation(call, criteria, verdicts).evaluation!;
+    });
+    const progress: number[] = [];
+
+    const report = await runPromptComparison({
+      schemaId: schema.id,
+      criteria,
+      calls,
+      goldenSet: loadGoldenSet(schema.id),
+      variants,
+      evaluate,
+      onProgress: done => progress.push(done),
+    });
+
+    expect(evaluate).toHaveBeenCalledTimes(6);
+    expect(evaluate.mock.calls[1][1]).toBe(variants[1]);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(report).toMatchObject({ callCount: 3, failedCount: 0, agreementA: 100, meanAbsErrorA: 0 });
+    expect(report.agreementB).toBeCloseTo(66.7, 1);
+    expect(report.variantAgreement).toBeCloseTo(66.7, 1);
+    expect(report.criteria.map(c => c.flipRate)).toEqual([0, 0, 100]);
+    expect(report.criteria[2]).toMatchObject({ compared: 3, flips: 3, agreementA: 100, agreementB: 0 });
+
+    const deltas = report.calls.map(c => c.b.percentage! - c.a.percentage!);
+    expect(report.meanScoreDelta).toBeCloseTo(deltas.reduce((a, b) => a + b, 0) / 3, 1);
+    expect(report.scoreDeltaInterval).toBeDefined();
+    expect(loadComparisonReports(schema.id)[0].id).toBe(report.id);
+  });
+
+  it('records failed evaluations without counting them', async () => {
+    const { schema, calls } = goldenSetup();
+    const evaluate = vi.fn(async (call: CallRecord, variant: PromptVariant) => {
+      if (variant.label === 'B' && call.id === calls[1].id) throw new Error('429 Too Many Requests');
+      return call.evaluation!;
+    });
+
+    const report = await runPromptComparison({
+      schemaId: schema.id, criteria, calls, goldenSet: loadGoldenSet(schema.id), variants, evaluate,
+    });
+
+    expect(report).toMatchObject({ callCount: 2, failedCount: 1, agreementA: 100, agreementB: 100, meanScoreDelta: 0 });
+    expect(report.calls[1].b.error).toContain('429');
+    await expect(runPromptComparison({
+      schemaId: schema.id, criteria, calls: [], goldenSet: loadGoldenSet(schema.id), variants, evaluate,
+    })).rejects.toThrow('no transcribed calls');
+  });
+});
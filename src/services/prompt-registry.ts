@@ -0,0 +1,388 @@
+/**
+ * Prompt Registry Service
+ * In-app versions of the evaluation prompt per schema. A pinned version replaces the
+ * built-in template for that schema's evaluations. Candidate prompts (or models) are
+ * compared on a golden set of human-labeled calls before they are promoted.
+ */
+
+import type { CallEvaluation, CallRecord, EvaluationCriterion, EvaluationResult } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import type {
+  ComparisonCallResult,
+  CriterionComparison,
+  CriterionVerdict,
+  GoldenCall,
+  PromptComparisonReport,
+  PromptVariant,
+  PromptVersion,
+  VariantCallResult,
+} from '../types/prompt-registry';
+import { getStorageAdapter } from '../lib/storage-adapter';
+import { matchCriterionResult } from '../lib/criterion-keys';
+import { meanConfidenceInterval } from '../lib/statistics';
+
+const PROMPT_VERSIONS_KEY_PREFIX = 'prompt-versions-';
+const GOLDEN_SET_KEY_PREFIX = 'golden-calls-';
+const COMPARISONS_KEY_PREFIX = 'prompt-comparisons-';
+
+/** Comparison reports kept per schema, newest first */
+export const MAX_COMPARISON_REPORTS = 20;
+
+/**
+ * Variables buildEvaluationPrompt provides to every evaluation prompt template
+ */
+export const EVALUATION_PROMPT_VARIABLES = {
+  schemaName: 'Schema name',
+  criteriaCount: 'Number of evaluation criteria',
+  criteriaText: 'Numbered criteria with definitions, scoring and examples',
+  transcript: 'Call transcript (redacted when the schema policy asks for it)',
+  metadataFields: 'Metadata fields marked for prompt inclusion',
+  businessContext: 'Business context section (empty when the schema has none)',
+  topicTaxonomySection: 'Topic taxonomy section',
+  insightInstructions: 'Instructions for the schema\'s enabled insight categories',
+  insightJsonExample: 'JSON shape of the schema insight output',
+  productType: 'Legacy debt collection field: product',
+  daysPastDue: 'Legacy debt collection field: days past due',
+  dueAmount: 'Legacy debt collection field: due amount',
+  nationality: 'Legacy debt collection field: nationality',
+  followUpStatus: 'Legacy debt collection field: follow-up status',
+} as const;
+
+export type EvaluationPromptVariable = keyof typeof EVALUATION_PROMPT_VARIABLES;
+
+/** Variables a template cannot do without - the model must see the call and the rules */
+export const REQUIRED_PROMPT_VARIABLES: EvaluationPromptVariable[] = ['transcript', 'criteriaText'];
+
+export interface PromptValidation {
+  variables: string[];             // Placeholders used by the template
+  unknownVariables: string[];      // Placeholders buildEvaluationPrompt does not provide
+  missingVariables: EvaluationPromptVariable[];  // Required placeholders the template lacks
+  valid: boolean;
+}
+
+/**
+ * Name of the static template used when no version is pinned.
+ * Schemas with custom insight categories use the schema-driven prompt.
+ */
+export function getBuiltInPromptName(schema: SchemaDefinition): string {
+  return schema.insightCategories && schema.insightCategories.length > 0
+    ? 'schema-call-evaluation'
+    : 'call-evaluation';
+}
+
+/**
+ * Check a template's {{variable}} placeholders against what buildEvaluationPrompt provides
+ */
+export function validatePromptTemplate(template: string): PromptValidation {
+  const variables = Array.from(new Set(Array.from(template.matchAll(/\{\{(\w+)\}\}/g), m => m[1])));
+  const unknownVariables = variables.filter(v => !(v in EVALUATION_PROMPT_VARIABLES));
+  const missingVariables = REQUIRED_PROMPT_VARIABLES.filter(v => !variables.includes(v));
+
+  return {
+    variables,
+    unknownVariables,
+    missingVariables,
+    valid: template.trim().length > 0 && unknownVariables.length === 0 && missingVariables.length === 0,
+  };
+}
+
+// ============================================================================
+// PROMPT VERSIONS
+// ============================================================================
+
+function readList<T>(key: string): T[] {
+  try {
+    const json = getStorageAdapter().getItem(key);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Prompt versions of a schema, oldest first
+ */
+export function loadPromptVersions(schemaId: string): PromptVersion[] {
+  return readList<PromptVersion>(`${PROMPT_VERSIONS_KEY_PREFIX}${schemaId}`);
+}
+
+function savePromptVersions(schemaId: string, versions: PromptVersion[]): void {
+  getStorageAdapter().setItem(`${PROMPT_VERSIONS_KEY_PREFIX}${schemaId}`, JSON.stringify(versions));
+}
+
+/**
+ * The version evaluations of the schema use, or undefined for the built-in template
+ */
+export function getPinnedPromptVersion(schemaId: string): PromptVersion | undefined {
+  return loadPromptVersions(schemaId).find(v => v.pinned);
+}
+
+/**
+ * Record a new prompt version. Saving a template identical to an existing version
+ * returns that version instead of adding a duplicate.
+ * @throws When the template uses unknown variables or lacks required ones
+ */
+export function createPromptVersion(
+  schemaId: string,
+  input: { template: string; notes: string; author?: string }
+): PromptVersion {
+  const validation = validatePromptTemplate(input.template);
+  if (validation.unknownVariables.length > 0) {
+    throw new Error(`Unknown prompt variables: ${validation.unknownVariables.map(v => `{{${v}}}`).join(', ')}`);
+  }
+  if (!validation.valid) {
+    throw new Error(`Prompt must include ${validation.missingVariables.map(v => `{{${v}}}`).join(' and ') || 'a template'}`);
+  }
+
+  const versions = loadPromptVersions(schemaId);
+  const existing = versions.find(v => v.template === input.template);
+  if (existing) return existing;
+
+  const version: PromptVersion = {
+    id: `prompt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    schemaId,
+    version: (versions[versions.length - 1]?.version ?? 0) + 1,
+    template: input.template,
+    notes: input.notes.trim(),
+    author: input.author?.trim() || undefined,
+    pinned: false,
+    createdAt: new Date().toISOString(),
+  };
+  savePromptVersions(schemaId, [...versions, version]);
+  console.log(`📝 Recorded evaluation prompt v${version.version} for schema ${schemaId}`);
+  return version;
+}
+
+/**
+ * Pin a version for the schema's evaluations; null returns to the built-in template
+ */
+export function pinPromptVersion(schemaId: string, versionId: string | null): void {
+  const versions = loadPromptVersions(schemaId);
+  if (versionId && !versions.some(v => v.id === versionId)) {
+    throw new Error(`Prompt version not found: ${versionId}`);
+  }
+  savePromptVersions(schemaId, versions.map(v => ({ ...v, pinned: v.id === versionId })));
+  console.log(versionId ? `📌 Pinned prompt ${versionId} for schema ${schemaId}` : `📌 Schema ${schemaId} uses the built-in prompt`);
+}
+
+/**
+ * Pin the prompt of a compared variant
+ */
+export function promoteVariant(schemaId: string, variant: PromptVariant): void {
+  pinPromptVersion(schemaId, variant.promptVersionId ?? null);
+}
+
+// ============================================================================
+// GOLDEN SET
+// ============================================================================
+
+/** Identity used to line up verdicts across runs - the stable key when present */
+export function criterionIdentity(criterion: EvaluationCriterion, index: number): string {
+  return criterion.key ?? `#${index + 1}`;
+}
+
+/**
+ * Verdict of a stored result. The model may return "partial" as the passed value.
+ */
+export function getResultVerdict(result: EvaluationResult): CriterionVerdict {
+  if (result.notApplicable) return 'na';
+  if (result.passed === true) return 'passed';
+  return (result.passed as unknown) === 'partial' ? 'partial' : 'failed';
+}
+
+/**
+ * Verdict per criterion of the active rule set; criteria without a result are left out
+ */
+export function getEvaluationVerdicts(
+  evaluation: CallEvaluation,
+  criteria: EvaluationCriterion[]
+): Record<string, CriterionVerdict> {
+  const verdicts: Record<string, CriterionVerdict> = {};
+  criteria.forEach((criterion, index) => {
+    const result = matchCriterionResult(evaluation.results, criterion);
+    if (result) verdicts[criterionIdentity(criterion, index)] = getResultVerdict(result);
+  });
+  return verdicts;
+}
+
+/**
+ * Golden calls of a schema
+ */
+export function loadGoldenSet(schemaId: string): GoldenCall[] {
+  return readList<GoldenCall>(`${GOLDEN_SET_KEY_PREFIX}${schemaId}`);
+}
+
+function saveGoldenSet(schemaId: string, goldenSet: GoldenCall[]): void {
+  getStorageAdapter().setItem(`${GOLDEN_SET_KEY_PREFIX}${schemaId}`, JSON.stringify(goldenSet));
+}
+
+/**
+ * Add a call to the golden set, labeled with its current verdicts (including any
+ * human overrides) as confirmed by the labeler. Re-labeling replaces the entry.
+ * @throws When the call has not been evaluated
+ */
+export function labelGoldenCall(
+  schemaId: string,
+  call: CallRecord,
+  criteria: EvaluationCriterion[],
+  labeledBy: string
+): GoldenCall {
+  if (!call.evaluation) {
+    throw new Error('Only evaluated calls can be added to the golden set');
+  }
+
+  const golden: GoldenCall = {
+    callId: call.id,
+    verdicts: getEvaluationVerdicts(call.evaluation, criteria),
+    percentage: call.evaluation.percentage,
+    labeledBy: labeledBy.trim(),
+    labeledAt: new Date().toISOString(),
+    ruleSetId: call.evaluation.ruleSetId,
+  };
+  saveGoldenSet(schemaId, [...loadGoldenSet(schemaId).filter(g => g.callId !== call.id), golden]);
+  return golden;
+}
+
+/**
+ * Remove a call from the golden set
+ */
+export function removeGoldenCall(schemaId: string, callId: string): void {
+  saveGoldenSet(schemaId, loadGoldenSet(schemaId).filter(g => g.callId !== callId));
+}
+
+// ============================================================================
+// A/B COMPARISON
+// ============================================================================
+
+export interface PromptComparisonOptions {
+  schemaId: string;
+  criteria: EvaluationCriterion[];
+  calls: CallRecord[];
+  goldenSet: GoldenCall[];
+  variants: [PromptVariant, PromptVariant];
+  evaluate: (call: CallRecord, variant: PromptVariant) => Promise<CallEvaluation>;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Comparison reports of a schema, newest first
+ */
+export function loadComparisonReports(schemaId: string): PromptComparisonReport[] {
+  return readList<PromptComparisonReport>(`${COMPARISONS_KEY_PREFIX}${schemaId}`);
+}
+
+function saveComparisonReport(report: PromptComparisonReport): void {
+  const reports = [report, ...loadComparisonReports(report.schemaId)].slice(0, MAX_COMPARISON_REPORTS);
+  getStorageAdapter().setItem(`${COMPARISONS_KEY_PREFIX}${report.schemaId}`, JSON.stringify(reports));
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const percent = (part: number, total: number) => (total > 0 ? round1((part / total) * 100) : 0);
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+/**
+ * Agreement with the labels, score deltas and per-criterion flip rates of two runs
+ * over the golden set. Calls either variant failed on are excluded from the metrics.
+ */
+export function summarizeComparison(
+  schemaId: string,
+  criteria: EvaluationCriterion[],
+  variants: [PromptVariant, PromptVariant],
+  goldenSet: GoldenCall[],
+  calls: ComparisonCallResult[]
+): PromptComparisonReport {
+  const labels = new Map(goldenSet.map(g => [g.callId, g.verdicts]));
+  const completed = calls.filter(c => !c.a.error && !c.b.error);
+
+  const counts = criteria.map((criterion, index) => {
+    const id = criterionIdentity(criterion, index);
+    const count = { id, name: criterion.name, compared: 0, flips: 0, matchesA: 0, matchesB: 0 };
+
+    for (const call of completed) {
+      const label = labels.get(call.callId)?.[id];
+      const a = call.a.verdicts[id];
+      const b = call.b.verdicts[id];
+      if (!label || !a || !b) continue;
+      count.compared++;
+      if (a !== b) count.flips++;
+      if (a === label) count.matchesA++;
+      if (b === label) count.matchesB++;
+    }
+    return count;
+  });
+
+  const criteriaComparison: CriterionComparison[] = counts.map(c => ({
+    criterionId: c.id,
+    criterionName: c.name,
+    compared: c.compared,
+    flips: c.flips,
+    flipRate: percent(c.flips, c.compared),
+    agreementA: percent(c.matchesA, c.compared),
+    agreementB: percent(c.matchesB, c.compared),
+  }));
+
+  const sum = (field: 'compared' | 'flips' | 'matchesA' | 'matchesB') => counts.reduce((total, c) => total + c[field], 0);
+  const compared = sum('compared');
+
+  const deltas = completed.map(c => (c.b.percentage ?? 0) - (c.a.percentage ?? 0));
+  const interval = meanConfidenceInterval(deltas);
+
+  return {
+    id: `comparison_${Date.now()}`,
+    schemaId,
+    runAt: new Date().toISOString(),
+    variants,
+    callCount: completed.length,
+    failedCount: calls.length - completed.length,
+    agreementA: percent(sum('matchesA'), compared),
+    agreementB: percent(sum('matchesB'), compared),
+    variantAgreement: percent(compared - sum('flips'), compared),
+    meanScoreDelta: round1(mean(deltas)),
+    scoreDeltaInterval: interval ? { lower: round1(interval.lower), upper: round1(interval.upper) } : undefined,
+    meanAbsErrorA: round1(mean(completed.map(c => Math.abs((c.a.percentage ?? 0) - c.goldenPercentage)))),
+    meanAbsErrorB: round1(mean(completed.map(c => Math.abs((c.b.percentage ?? 0) - c.goldenPercentage)))),
+    criteria: criteriaComparison,
+    calls,
+  };
+}
+
+/**
+ * Evaluate every golden call with both variants (one evaluation at a time) and
+ * save the resulting report. A failed evaluation is recorded on the call and the
+ * run continues.
+ */
+export async function runPromptComparison(options: PromptComparisonOptions): Promise<PromptComparisonReport> {
+  const { schemaId, criteria, goldenSet, variants, evaluate, onProgress } = options;
+  const callsById = new Map(options.calls.map(c => [c.id, c]));
+  const runnable = goldenSet.filter(g => callsById.get(g.callId)?.transcript);
+  if (runnable.length === 0) {
+    throw new Error('The golden set has no transcribed calls to evaluate');
+  }
+
+  const runVariant = async (call: CallRecord, variant: PromptVariant): Promise<VariantCallResult> => {
+    try {
+      const evaluation = await evaluate(call, variant);
+      return { percentage: evaluation.percentage, verdicts: getEvaluationVerdicts(evaluation, criteria) };
+    } catch (error) {
+      console.warn(`⚠ Variant ${variant.label} failed on call ${call.id}:`, error);
+      return { verdicts: {}, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  const results: ComparisonCallResult[] = [];
+  const total = runnable.length * 2;
+  for (const golden of runnable) {
+    const call = callsById.get(golden.callId)!;
+    const a = await runVariant(call, variants[0]);
+    onProgress?.(results.length * 2 + 1, total);
+    const b = await runVariant(call, variants[1]);
+    results.push({ callId: call.id, goldenPercentage: golden.percentage, a, b });
+    onProgress?.(results.length * 2, total);
+  }
+
+  const report = summarizeComparison(schemaId, criteria, variants, goldenSet, results);
+  saveComparisonReport(report);
+  console.log(`⚖️ Prompt comparison: A ${report.agreementA}% vs B ${report.agreementB}% agreement over ${report.callCount} golden calls`);
+  return report;
+}
@@ -1,13 +1,14 @@
 /**
  * Relationship Inference Service
- * Uses Azure OpenAI to discover relationships between schema fields
+ * Uses the configured LLM provider to discover relationships between schema fields
  */
 
 import type { SchemaDefinition, RelationshipDefinition } from '../types/schema';
 import { preparePrompt } from '../lib/prompt-loader';
+import { checkFormula, migrateFormula } from '../lib/formula-executor';
 import { LLMCaller } from '../llmCaller';
 import { loadAzureConfigFromCookie } from '../lib/azure-config-storage';
-import { BrowserConfigManager } from './browser-config-manager';
+import { BrowserConfigManager, isLLMConfigured, toLLMConfig } from './browser-config-manager';
 
 /**
  * Infers simple correlative relationships from field names and types
@@ -17,26 +18,18 @@ export async function inferSimpleRelationships(
 ): Promise<RelationshipDefinition[]> {
   try {
     const config = loadAzureConfigFromCookie();
-    if (!config || !config.openAI?.endpoint) {
+    if (!config?.openAI) {
       throw new Error('Azure OpenAI configuration not found');
     }
     
-    // Check for valid auth - API key, Entra ID, or managed identity
-    const hasValidAuth = config.openAI.authType === 'entraId' ||
-      config.openAI.authType === 'managedIdentity' ||
-      config.openAI.apiKey;
-    if (!hasValidAuth) {
+    // Check for valid auth - API key, Entra ID, managed identity, or a local/mock provider
+    if (!isLLMConfigured(config.openAI)) {
       throw new Error('Azure OpenAI authentication not configured');
     }
 
     const configManager = new BrowserConfigManager({
-      endpoint: config.openAI.endpoint,
-      apiKey: config.openAI.apiKey,
-      deploymentName: config.openAI.deploymentName,
-      apiVersion: config.openAI.apiVersion,
+      ...toLLMConfig(config.openAI),
       authType: config.openAI.authType || 'apiKey',
-      tenantId: config.openAI.tenantId,
-      reasoningEffort: config.openAI.reasoningEffort
     });
 
     const llmCaller = new LLMCaller(configManager);
@@ -78,7 +71,7 @@ export async function inferSimpleRelationships(
 
     const response = await llmCaller.callWithJsonValidation<{ relationships: RelationshipDefinition[] }>(
       [{ role: 'user', content: prompt }],
-      { structuredOutputSchema: schema_def }
+      { structuredOutputSchema: schema_def, usage: { operation: 'schema-discovery' } }
     );
 
     const result = response.parsed.relationships;
@@ -140,26 +133,18 @@ export async function inferComplexRelationships(
 ): Promise<RelationshipDefinition[]> {
   try {
     const config = loadAzureConfigFromCookie();
-    if (!config || !config.openAI?.endpoint) {
+    if (!config?.openAI) {
       throw new Error('Azure OpenAI configuration not found');
     }
     
-    // Check for valid auth - API key, Entra ID, or managed identity
-    const hasValidAuth = config.openAI.authType === 'entraId' ||
-      config.openAI.authType === 'managedIdentity' ||
-      config.openAI.apiKey;
-    if (!hasValidAuth) {
+    // Check for valid auth - API key, Entra ID, managed identity, or a local/mock provider
+    if (!isLLMConfigured(config.openAI)) {
       throw new Error('Azure OpenAI authentication not configured');
     }
 
     const configManager = new BrowserConfigManager({
-      endpoint: config.openAI.endpoint,
-      apiKey: config.openAI.apiKey,
-      deploymentName: config.openAI.deploymentName,
-      apiVersion: config.openAI.apiVersion,
+      ...toLLMConfig(config.openAI),
       authType: config.openAI.authType || 'apiKey',
-      tenantId: config.openAI.tenantId,
-      reasoningEffort: config.openAI.reasoningEffort
     });
 
     const llmCaller = new LLMCaller(configManager);
@@ -206,20 +191,28 @@ export async function inferComplexRelationships(
 
     const response = await llmCaller.callWithJsonValidation<{ relationships: RelationshipDefinition[] }>(
       [{ role: 'user', content: prompt }],
-      { structuredOutputSchema: schema_def }
+      { structuredOutputSchema: schema_def, usage: { operation: 'schema-discovery' } }
     );
 
     const result = response.parsed.relationships;
     
-    // Validate and return relationships
+    // Validate and return relationships - formulas that do not parse or reference unknown fields are dropped
     if (Array.isArray(result)) {
-      return result.map((rel: any) => ({
-        id: rel.id || `complex_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        type: 'complex' as const,
-        description: rel.description || '',
-        formula: rel.formula || '',
-        involvedFields: rel.involvedFields || []
-      }));
+      return result
+        .map((rel: any) => ({
+          id: rel.id || `complex_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          type: 'complex' as const,
+          description: rel.description || '',
+          formula: migrateFormula(rel.formula || '').formula,
+          involvedFields: rel.involvedFields || []
+        }))
+        .filter(rel => {
+          const check = checkFormula(rel.formula, schema);
+          if (!check.valid) {
+            console.warn(`Skipping inferred relationship ${rel.id}: ${check.errors.join('; ')}`);
+          }
+          return check.valid;
+        });
     }
     
     return [];
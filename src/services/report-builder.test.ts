@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { EVALUATION_CRITERIA } from '@/lib/evaluation-criteria';
+import { CallRecord } from '@/types/call';
+import { ReportTemplate } from '@/types/report';
+import { loadDebtCollectionCalls, withEvaluation } from '@/test/fixtures';
+import {
+  buildReportData,
+  deleteReportTemplate,
+  getDefaultReportTemplate,
+  getReportFileName,
+  getScheduledRange,
+  isReportDue,
+  loadReportTemplates,
+  renderReportHtml,
+  saveReportTemplate,
+} from './report-builder';
+
+const criteria = EVALUATION_CRITERIA.slice(0, 3);
+const allDays = { from: '2000-01-01', to: '2100-12-31' };
+
+function withEvidence(call: CallRecord, quotes: string[]): CallRecord {
+  return {
+    ...call,
+    evaluation: {
+      ...call.evaluation!,
+      results: call.evaluation!.results.map((r, i) => ({ ...r, evidence: quotes[i] ?? '' })),
+    },
+  };
+}
+
+function setup() {
+  const { schema, calls } = loadDebtCollectionCalls();
+  const byAgent = (name: string) => calls.filter(c => c.metadata.agent_name === name);
+  const [raj1, raj2] = byAgent('Raj');
+  const [bev1] = byAgent('Bev');
+  const evaluated = [
+    withEvidence(withEvaluation(raj1, criteria, [true, false, false]), ['Hello, Raj speaking', 'No <verification> done', '']),
+    withEvaluation(raj2, criteria, [true, true, false]),
+    withEvaluation(bev1, criteria, [true, true, true]),
+  ];
+  const template: ReportTemplate = { ...getDefaultReportTemplate(schema.id), excerptCount: 1 };
+  return { schema, calls: evaluated, template };
+}
+
+describe('buildReportData', () => {
+  it('builds a team report with the lowest-scoring call quoted, failed evidence first', () => {
+    const { schema, calls, template } = setup();
+    const data = buildReportData(calls, schema, template, allDays);
+
+    expect(data.callCount).toBe(3);
+    expect(data.kpis.evaluatedCalls).toBe(3);
+    expect(data.leaderboard.map(a => a.agentName)).toEqual(['Bev', 'Raj']);
+    expect(data.criteria[1]).toMatchObject({ name: criteria[1].name, analytics: { passRate: expect.closeTo(66.7, 1) } });
+    expect(data.excerpts).toHaveLength(1);
+    expect(data.excerpts[0].callId).toBe(calls[0].id);
+    expect(data.excerpts[0].evidence.map(e => e.passed)).toEqual([false, true]);
+    expect(data.agent).toBeUndefined();
+  });
+
+  it('limits calls to the range and uses picked excerpts', () => {
+    const { schema, calls, template } = setup();
+    const day = calls[2].createdAt.split('T')[0];
+    const data = buildReportData(calls, schema, template, { from: day, to: day }, { excerptCallIds: [calls[2].id] });
+
+    expect(data.callCount).toBe(calls.filter(c => c.createdAt.startsWith(day)).length);
+    expect(data.excerpts.map(e => e.callId)).toEqual([calls[2].id]);
+  });
+
+  it('scopes an agent report to the agent and ranks them against the team', () => {
+    const { schema, calls, template } = setup();
+    const data = buildReportData(calls, schema, template, allDays, { agentName: 'Raj' });
+
+    expect(data.callCount).toBe(2);
+    expect(data.agent).toMatchObject({ rank: 2, agentCount: 2 });
+    expect(data.agent!.teamAverage).toBeGreaterThan(data.agent!.performance.averagePercentage);
+    expect(data.agent!.criteria[0].name).toBe(criteria[0].name);
+  });
+
+  it('redacts evidence and feedback when the schema redacts exports', () => {
+    const { schema, calls, template } = setup();
+    const redacting = {
+      ...schema,
+      redactionPolicy: { enabled: true, evaluation: 'raw' as const, export: 'redacted' as const, detectors: ['email' as const] },
+    };
+    const quoted = withEvidence(calls[0], ['', 'Send it to jane.doe@example.com']);
+    quoted.evaluation!.overallFeedback = 'Agent read out jane.doe@example.com';
+    const data = buildReportData([quoted, ...calls.slice(1)], redacting, template, allDays);
+
+    expect(data.excerpts[0].evidence[0].quote).toBe('Send it to [EMAIL]');
+    expect(data.excerpts[0].feedback).toBe('Agent read out [EMAIL]');
+  });
+});
+
+describe('renderReportHtml', () => {
+  it('renders the template sections in order and escapes call content', () => {
+    const { schema, calls, template } = setup();
+    const data = buildReportData(calls, schema, template, allDays);
+    const html = renderReportHtml(data, { sections: ['excerpts', 'kpis'] });
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html.indexOf('Call excerpts')).toBeLessThan(html.indexOf('Key metrics'));
+    expect(html).not.toContain('Agent leaderboard');
+    expect(html).toContain('No &lt;verification&gt; done');
+    expect(html).not.toMatch(/<script|<link/);
+  });
+});
+
+describe('scheduling', () => {
+  it('covers the template days up to yesterday', () => {
+    expect(getScheduledRange({ rangeDays: 7 }, new Date('2026-03-09T06:00:00Z'))).toEqual({ from: '2026-03-02', to: '2026-03-08' });
+    expect(getScheduledRange({ rangeDays: 1 }, new Date('2026-03-01T06:00:00Z'))).toEqual({ from: '2026-02-28', to: '2026-02-28' });
+  });
+
+  it('is due once per day, week or month', () => {
+    const template = (frequency: 'daily' | 'weekly' | 'monthly', lastRunAt?: string): ReportTemplate => ({
+      ...getDefaultReportTemplate('s1'),
+      schedule: { frequency, perAgent: false, lastRunAt },
+    });
+    const wednesday = new Date('2026-03-11T10:00:00Z');
+
+    expect(isReportDue(getDefaultReportTemplate('s1'), wednesday)).toBe(false);
+    expect(isReportDue(template('daily'), wednesday)).toBe(true);
+    expect(isReportDue(template('daily', '2026-03-11T01:00:00Z'), wednesday)).toBe(false);
+    // Monday of the same week
+    expect(isReportDue(template('weekly', '2026-03-09T01:00:00Z'), wednesday)).toBe(false);
+    expect(isReportDue(template('weekly', '2026-03-08T23:00:00Z'), wednesday)).toBe(true);
+    expect(isReportDue(template('monthly', '2026-03-01T01:00:00Z'), wednesday)).toBe(false);
+    expect(isReportDue(template('monthly', '2026-02-28T01:00:00Z'), wednesday)).toBe(true);
+  });
+
+  it('names files after the template, range and agent', () => {
+    expect(getReportFileName({ name: 'Weekly QA!' }, { from: '2026-03-02', to: '2026-03-08' }, 'Jane Doe'))
+      .toBe('weekly-qa_2026-03-02_2026-03-08_jane-doe.html');
+  });
+});
+
+describe('report templates', () => {
+  it('saves the default as a new template, updates and deletes it', () => {
+    const saved = saveReportTemplate({ ...getDefaultReportTemplate('s1'), name: '  Weekly  ' });
+    expect(saved.id).not.toBe('default');
+    expect(saved.name).toBe('Weekly');
+
+    const updated = saveReportTemplate({ ...saved, excerptCount: 5 });
+    expect(loadReportTemplates('s1')).toEqual([updated]);
+    expect(updated.updatedAt).toBeDefined();
+
+    deleteReportTemplate('s1', saved.id);
+    expect(loadReportTemplates('s1')).toEqual([]);
+  });
+
+  it('rejects templates without a name or sections', () => {
+    expect(() => saveReportTemplate({ ...getDefaultReportTemplate('s1'), name: ' ' })).toThrow('name is required');
+    expect(() => saveReportTemplate({ ...getDefaultReportTemplate('s1'), sections: [] })).toThrow('at least one');
+  });
+});
@@ -0,0 +1,501 @@
+/**
+ * Report Builder Service
+ * Builds QA reports for a date range - KPIs, criteria pass rates, agent leaderboard,
+ * topics, key phrases and call excerpts with evidence quotes - and renders them as
+ * a self-contained, print-ready HTML document (print to PDF from the browser).
+ *
+ * Everything here is DOM-free so the server can run it headlessly for scheduled
+ * delivery (see report-headless.ts).
+ */
+
+import type { CallRecord, EvaluationResult } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import type {
+  AgentReportData,
+  ReportData,
+  ReportExcerpt,
+  ReportFrequency,
+  ReportRange,
+  ReportSectionId,
+  ReportTemplate,
+} from '../types/report';
+import { getStorageAdapter } from '../lib/storage-adapter';
+import { getRedactionPolicy, redactText, selectCallVariant } from '../lib/pii-redaction';
+import { applyCallFilters } from '../lib/call-filters';
+import { resolveCriterion } from '../lib/evaluation-history';
+import {
+  aggregateKeyPhraseAnalytics,
+  aggregateTopicAnalytics,
+  calculateAgentPerformance,
+  calculateCriteriaAnalytics,
+  calculateOverviewKPIs,
+  formatDuration,
+  getAgentNameFromCall,
+  getPerformanceTrend,
+} from '../lib/analytics';
+import { getEvaluationCriteriaForSchema } from './azure-openai';
+
+const REPORT_TEMPLATES_KEY_PREFIX = 'report-templates-';
+
+/** Evidence quotes shown per excerpted call */
+const MAX_QUOTES_PER_EXCERPT = 3;
+
+export const REPORT_SECTION_LABELS: Record<ReportSectionId, string> = {
+  kpis: 'Key metrics',
+  criteria: 'Criteria pass rates',
+  leaderboard: 'Agent leaderboard',
+  topics: 'Topics',
+  keyPhrases: 'Key phrases',
+  excerpts: 'Call excerpts',
+};
+
+export const DEFAULT_REPORT_SECTIONS: ReportSectionId[] = ['kpis', 'criteria', 'leaderboard', 'topics', 'keyPhrases', 'excerpts'];
+
+export interface BuildReportOptions {
+  agentName?: string;              // Agent report instead of a team report
+  excerptCallIds?: string[];       // Calls to quote; lowest scoring when not given
+  now?: Date;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Template used when a schema has none saved
+ */
+export function getDefaultReportTemplate(schemaId: string): ReportTemplate {
+  return {
+    id: 'default',
+    schemaId,
+    name: 'QA summary',
+    title: 'Quality Assurance Report',
+    sections: [...DEFAULT_REPORT_SECTIONS],
+    rangeDays: 7,
+    leaderboardSize: 10,
+    excerptCount: 3,
+    createdAt: new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Saved report templates of a schema
+ */
+export function loadReportTemplates(schemaId: string): ReportTemplate[] {
+  try {
+    const json = getStorageAdapter().getItem(`${REPORT_TEMPLATES_KEY_PREFIX}${schemaId}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error(`Error loading report templates for ${schemaId}:`, error);
+    return [];
+  }
+}
+
+function saveReportTemplates(schemaId: string, templates: ReportTemplate[]): void {
+  getStorageAdapter().setItem(`${REPORT_TEMPLATES_KEY_PREFIX}${schemaId}`, JSON.stringify(templates));
+}
+
+/**
+ * Create or update a template. The built-in default gets an ID of its own when first saved.
+ */
+export function saveReportTemplate(template: ReportTemplate): ReportTemplate {
+  if (!template.name.trim()) {
+    throw new Error('Report template name is required');
+  }
+  if (template.sections.length === 0) {
+    throw new Error('Select at least one report section');
+  }
+
+  const templates = loadReportTemplates(template.schemaId);
+  const now = new Date().toISOString();
+  const existing = templates.find(t => t.id === template.id);
+  const saved: ReportTemplate = existing
+    ? { ...template, name: template.name.trim(), updatedAt: now }
+    : {
+        ...template,
+        id: `report_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        name: template.name.trim(),
+        createdAt: now,
+      };
+
+  saveReportTemplates(
+    template.schemaId,
+    existing ? templates.map(t => (t.id === saved.id ? saved : t)) : [...templates, saved]
+  );
+  return saved;
+}
+
+export function deleteReportTemplate(schemaId: string, templateId: string): void {
+  saveReportTemplates(schemaId, loadReportTemplates(schemaId).filter(t => t.id !== templateId));
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Period a moment falls in for a frequency: the day, the week (starting Monday) or the month
+ */
+function getPeriodKey(frequency: ReportFrequency, date: Date): string {
+  if (frequency === 'daily') return toDateString(date);
+  if (frequency === 'monthly') return toDateString(date).slice(0, 7);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return toDateString(addDays(date, -daysSinceMonday));
+}
+
+/**
+ * Range a scheduled run covers: the template's number of days, ending yesterday
+ */
+export function getScheduledRange(template: Pick<ReportTemplate, 'rangeDays'>, now: Date = new Date()): ReportRange {
+  const to = addDays(now, -1);
+  return {
+    from: toDateString(addDays(to, -(Math.max(1, template.rangeDays) - 1))),
+    to: toDateString(to),
+  };
+}
+
+/**
+ * A scheduled template is due once per day, week or month
+ */
+export function isReportDue(template: ReportTemplate, now: Date = new Date()): boolean {
+  const schedule = template.schedule;
+  if (!schedule) return false;
+  if (!schedule.lastRunAt) return true;
+  return getPeriodKey(schedule.frequency, new Date(schedule.lastRunAt)) !== getPeriodKey(schedule.frequency, now);
+}
+
+/**
+ * File name for a rendered report, e.g. "qa-summary_2025-03-01_2025-03-07_jane-doe.html"
+ */
+export function getReportFileName(template: Pick<ReportTemplate, 'name'>, range: ReportRange, agentName?: string): string {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  const parts = [slug(template.name), range.from, range.to];
+  if (agentName) parts.push(slug(agentName));
+  return `${parts.join('_')}.html`;
+}
+
+// ============================================================================
+// REPORT DATA
+// ============================================================================
+
+function getCriterionName(result: EvaluationResult, criteria: ReturnType<typeof getEvaluationCriteriaForSchema>): string {
+  return result.criterionName
+    || resolveCriterion(criteria, result.criterionId, result.criterionKey)?.name
+    || `Criterion ${result.criterionId}`;
+}
+
+/**
+ * Evidence and feedback quote the transcript, so they follow the schema's export
+ * redaction policy like the call export does
+ */
+function buildExcerpts(
+  calls: CallRecord[],
+  schema: SchemaDefinition,
+  count: number,
+  criteria: ReturnType<typeof getEvaluationCriteriaForSchema>,
+  callIds?: string[]
+): ReportExcerpt[] {
+  const detectors = getRedactionPolicy(schema).detectors;
+  const evaluated = calls.filter(c => c.evaluation);
+  const selected = callIds
+    ? callIds.map(id => evaluated.find(c => c.id === id)).filter((c): c is CallRecord => c !== undefined)
+    : [...evaluated].sort((a, b) => a.evaluation!.percentage - b.evaluation!.percentage).slice(0, count);
+
+  return selected.map(call => {
+    const evaluation = call.evaluation!;
+    const redacted = selectCallVariant(call, schema, 'export').variant === 'redacted';
+    const text = (value: string) => (redacted && value ? redactText(value, detectors) : value);
+    // Failed criteria first - they are what the excerpt is usually about
+    const quotes = evaluation.results
+      .filter(r => !r.notApplicable && r.evidence && r.evidence.trim().length > 0)
+      .sort((a, b) => Number(a.passed) - Number(b.passed))
+      .slice(0, MAX_QUOTES_PER_EXCERPT)
+      .map(r => ({ criterionName: getCriterionName(r, criteria), passed: r.passed, quote: text(r.evidence.trim()) }));
+
+    return {
+      callId: call.id,
+      agentName: getAgentNameFromCall(call),
+      date: call.createdAt,
+      percentage: evaluation.percentage,
+      autoFailed: !!evaluation.autoFailed,
+      feedback: text(evaluation.overallFeedback),
+      evidence: quotes,
+    };
+  });
+}
+
+function buildAgentData(
+  agentName: string,
+  agentCalls: CallRecord[],
+  teamCalls: CallRecord[],
+  criteria: ReturnType<typeof getEvaluationCriteriaForSchema>
+): AgentReportData | undefined {
+  const performance = calculateAgentPerformance(agentCalls)[0];
+  if (!performance) return undefined;
+
+  // Same figures as the agent detail view: rank and average against the whole team
+  const team = calculateAgentPerformance(teamCalls);
+  const teamAverage = team.length > 0 ? team.reduce((sum, a) => sum + a.averagePercentage, 0) / team.length : 0;
+
+  return {
+    performance,
+    rank: team.find(a => a.agentName === agentName)?.rankAmongAgents,
+    agentCount: team.length,
+    teamAverage,
+    criteria: Object.entries(performance.criteriaScores)
+      .map(([index, score]) => ({ name: criteria[Number(index)]?.name, score }))
+      .filter((c): c is { name: string; score: number } => !!c.name)
+      .sort((a, b) => b.score - a.score),
+    trend: getPerformanceTrend(agentCalls, agentName),
+  };
+}
+
+/**
+ * Collect everything a report shows for the schema's calls in the range.
+ * Criteria names come from the schema's evaluation rules, as in the agent detail view.
+ */
+export function buildReportData(
+  calls: CallRecord[],
+  schema: SchemaDefinition,
+  template: ReportTemplate,
+  range: ReportRange,
+  options: BuildReportOptions = {}
+): ReportData {
+  const criteria = getEvaluationCriteriaForSchema(schema.id);
+  const teamCalls = applyCallFilters(
+    calls.filter(c => c.schemaId === schema.id),
+    { dateFrom: range.from, dateTo: range.to }
+  );
+  const { agentName } = options;
+  const scopeCalls = agentName ? teamCalls.filter(c => getAgentNameFromCall(c) === agentName) : teamCalls;
+  const criteriaAnalytics = calculateCriteriaAnalytics(scopeCalls);
+
+  return {
+    schemaId: schema.id,
+    schemaName: schema.name,
+    title: template.title || template.name,
+    range,
+    generatedAt: (options.now ?? new Date()).toISOString(),
+    agentName,
+    callCount: scopeCalls.length,
+    kpis: calculateOverviewKPIs(scopeCalls, schema),
+    criteria: criteriaAnalytics.map((analytics, index) => ({
+      name: criteria[index]?.name ?? `Criterion ${index + 1}`,
+      analytics,
+    })),
+    leaderboard: calculateAgentPerformance(teamCalls).slice(0, template.leaderboardSize),
+    topics: aggregateTopicAnalytics(scopeCalls).slice(0, 10),
+    keyPhrases: aggregateKeyPhraseAnalytics(scopeCalls, schema).slice(0, 20),
+    excerpts: buildExcerpts(scopeCalls, schema, template.excerptCount, criteria, options.excerptCallIds),
+    agent: agentName ? buildAgentData(agentName, scopeCalls, teamCalls, criteria) : undefined,
+  };
+}
+
+// ============================================================================
+// HTML RENDERING
+// ============================================================================
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function percent(value: number): string {
+  return `${Math.round(value)}%`;
+}
+
+function bar(value: number): string {
+  const width = Math.max(0, Math.min(100, value));
+  const tone = width >= 80 ? 'good' : width >= 60 ? 'fair' : 'poor';
+  return `<div class="bar"><div class="bar-fill ${tone}" style="width:${width.toFixed(1)}%"></div></div>`;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  if (rows.length === 0) return '<p class="muted">No data for this period.</p>';
+  return `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+    `<tbody>${rows.map(r => `<tr>${r.map(c => `<td>${c}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+function renderKpis(data: ReportData): string {
+  const { kpis } = data;
+  const cards: Array<[string, string]> = [
+    ['Calls', String(kpis.totalCalls)],
+    ['Evaluated', String(kpis.evaluatedCalls)],
+    ['Average score', percent(kpis.avgScore)],
+    ['Auto-failed', String(kpis.autoFailedCalls)],
+    ['Avg handling time', formatDuration(kpis.avgHandlingTimeMs)],
+    ['Positive sentiment', percent(kpis.satisfiedPercentage)],
+  ];
+  return `<div class="kpis">${cards.map(([label, value]) =>
+    `<div class="kpi"><div class="kpi-value">${escapeHtml(value)}</div><div class="kpi-label">${escapeHtml(label)}</div></div>`
+  ).join('')}</div>`;
+}
+
+function renderCriteria(data: ReportData): string {
+  return table(
+    ['Criterion', 'Pass rate', '', 'Evaluations', 'N/A'],
+    data.criteria.map(({ name, analytics }) => [
+      escapeHtml(name),
+      percent(analytics.passRate),
+      bar(analytics.passRate),
+      String(analytics.totalEvaluations),
+      String(analytics.notApplicableCount),
+    ])
+  );
+}
+
+function renderLeaderboard(data: ReportData): string {
+  if (data.agent) {
+    const { agent } = data;
+    const delta = agent.performance.averagePercentage - agent.teamAverage;
+    return `<p>${agent.rank ? `Rank <strong>#${agent.rank}</strong> of ${agent.agentCount} agents. ` : ''}` +
+      `Average ${percent(agent.performance.averagePercentage)} vs team ${percent(agent.teamAverage)} ` +
+      `(<span class="${delta >= 0 ? 'pass' : 'fail'}">${delta >= 0 ? '+' : ''}${delta.toFixed(1)} pts</span>).</p>` +
+      table(
+        ['Criterion', 'Average points'],
+        agent.criteria.map(c => [escapeHtml(c.name), c.score.toFixed(1)])
+      ) +
+      (agent.trend.length > 1
+        ? `<h3>Daily scores</h3>${table(['Date', 'Score', 'Calls'], agent.trend.map(t => [t.date, percent(t.score), String(t.count)]))}`
+        : '');
+  }
+  return table(
+    ['#', 'Agent', 'Calls', 'Average', 'Pass rate', 'Trend'],
+    data.leaderboard.map((a, i) => [
+      String(a.rankAmongAgents ?? i + 1),
+      escapeHtml(a.agentName),
+      String(a.totalCalls),
+      percent(a.averagePercentage),
+      a.passRate !== undefined ? percent(a.passRate) : '-',
+      a.trend === 'up' ? '▲' : a.trend === 'down' ? '▼' : '–',
+    ])
+  );
+}
+
+function renderTopics(data: ReportData): string {
+  return table(
+    ['Topic', 'Calls', 'Average score', 'Sentiment', 'Avg handling time'],
+    data.topics.map(t => [
+      escapeHtml(t.topicName),
+      String(t.callCount),
+      percent(t.avgScore),
+      escapeHtml(t.dominantSentiment),
+      formatDuration(t.avgHandlingTimeMs),
+    ])
+  );
+}
+
+function renderKeyPhrases(data: ReportData): string {
+  if (data.keyPhrases.length === 0) return '<p class="muted">No data for this period.</p>';
+  return `<div class="phrases">${data.keyPhrases.map(p =>
+    `<span class="phrase ${escapeHtml(p.avgSentiment)}">${escapeHtml(p.phrase)} <small>${p.count}</small></span>`
+  ).join('')}</div>`;
+}
+
+function renderExcerpts(data: ReportData): string {
+  if (data.excerpts.length === 0) return '<p class="muted">No evaluated calls in this period.</p>';
+  return data.excerpts.map(e => `
+    <div class="excerpt">
+      <div class="excerpt-head">
+        <strong>${escapeHtml(e.agentName)}</strong>
+        <span class="muted">${escapeHtml(e.date.split('T')[0])} · ${escapeHtml(e.callId)}</span>
+        <span class="score ${e.autoFailed ? 'fail' : ''}">${percent(e.percentage)}${e.autoFailed ? ' · auto-failed' : ''}</span>
+      </div>
+      ${e.feedback ? `<p>${escapeHtml(e.feedback)}</p>` : ''}
+      ${e.evidence.map(q => `
+        <blockquote class="${q.passed ? 'pass' : 'fail'}">
+          <div class="quote-label">${q.passed ? '✓' : '✗'} ${escapeHtml(q.criterionName)}</div>
+          “${escapeHtml(q.quote)}”
+        </blockquote>`).join('')}
+    </div>`).join('');
+}
+
+const SECTION_RENDERERS: Record<ReportSectionId, (data: ReportData) => string> = {
+  kpis: renderKpis,
+  criteria: renderCriteria,
+  leaderboard: renderLeaderboard,
+  topics: renderTopics,
+  keyPhrases: renderKeyPhrases,
+  excerpts: renderExcerpts,
+};
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2937; margin: 0; padding: 32px; font-size: 13px; line-height: 1.45; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 10px; padding-bottom: 4px; border-bottom: 2px solid #e5e7eb; }
+  h3 { font-size: 13px; margin: 16px 0 6px; }
+  .muted { color: #6b7280; }
+  .kpis { display: grid; grid-template-columns: repeat(3, 1fr); gap: 10px; }
+  .kpi { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px 12px; }
+  .kpi-value { font-size: 20px; font-weight: 600; }
+  .kpi-label { color: #6b7280; font-size: 11px; text-transform: uppercase; letter-spacing: .03em; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  th { font-size: 11px; text-transform: uppercase; color: #6b7280; letter-spacing: .03em; }
+  .bar { width: 140px; height: 8px; background: #f3f4f6; border-radius: 4px; overflow: hidden; margin-top: 5px; }
+  .bar-fill { height: 100%; }
+  .bar-fill.good { background: #16a34a; } .bar-fill.fair { background: #f59e0b; } .bar-fill.poor { background: #dc2626; }
+  .pass { color: #15803d; } .fail { color: #b91c1c; }
+  .phrases { display: flex; flex-wrap: wrap; gap: 6px; }
+  .phrase { border-radius: 999px; padding: 2px 10px; background: #f3f4f6; }
+  .phrase.positive { background: #dcfce7; } .phrase.negative { background: #fee2e2; }
+  .excerpt { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px 12px; margin-bottom: 10px; page-break-inside: avoid; }
+  .excerpt-head { display: flex; gap: 10px; align-items: baseline; }
+  .excerpt-head .score { margin-left: auto; font-weight: 600; }
+  blockquote { margin: 6px 0; padding: 4px 10px; border-left: 3px solid #d1d5db; color: #374151; }
+  blockquote.fail { border-left-color: #dc2626; } blockquote.pass { border-left-color: #16a34a; }
+  .quote-label { font-size: 11px; font-weight: 600; }
+  section { page-break-inside: avoid; }
+  footer { margin-top: 32px; font-size: 11px; color: #9ca3af; }
+  @page { size: A4; margin: 14mm; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * Render report data as a standalone HTML document (inline styles, no scripts or external assets)
+ */
+export function renderReportHtml(data: ReportData, template: Pick<ReportTemplate, 'sections'>): string {
+  const subtitle = [
+    data.schemaName,
+    data.agentName ? `Agent: ${data.agentName}` : 'Team report',
+    `${data.range.from} – ${data.range.to}`,
+    `${data.callCount} calls`,
+  ].map(escapeHtml).join(' · ');
+
+  const sections = template.sections.map(id => {
+    const heading = id === 'leaderboard' && data.agent ? 'Agent performance' : REPORT_SECTION_LABELS[id];
+    return `<section><h2>${escapeHtml(heading)}</h2>${SECTION_RENDERERS[id](data)}</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(data.title)} - ${escapeHtml(data.agentName || data.schemaName)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(data.title)}</h1>
+<div class="muted">${subtitle}</div>
+</header>
+${sections}
+<footer>Generated ${escapeHtml(new Date(data.generatedAt).toUTCString())}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Headless Report Runner
+ * Entry point bundled for the Express server (vite.server.config.ts → server/bundles/).
+ * Runs the browser report builder in Node against data read from the file store:
+ * an in-memory storage adapter stands in for localStorage so the analytics helpers
+ * see the same schemas, rules and calls as the app.
+ */
+
+import type { CallRecord } from '../types/call';
+import type { SchemaDefinition, SchemaEvaluationRule } from '../types/schema';
+import type { ReportRange, ReportTemplate } from '../types/report';
+import { setStorageAdapter, type StorageAdapter, type StorageBackend } from '../lib/storage-adapter';
+import { applyCallFilters } from '../lib/call-filters';
+import { getAgentNameFromCall } from '../lib/analytics';
+import { getEvaluationCriteriaForSchema, setCustomEvaluationCriteria } from './azure-openai';
+import {
+  buildReportData,
+  getDefaultReportTemplate,
+  getReportFileName,
+  getScheduledRange,
+  isReportDue,
+  renderReportHtml,
+} from './report-builder';
+
+export interface HeadlessReportInput {
+  schemas: SchemaDefinition[];
+  calls: CallRecord[];
+  rules: Record<string, SchemaEvaluationRule[] | null>;   // By schema ID
+  templates: Record<string, ReportTemplate[] | null>;     // By schema ID
+  now?: string;
+}
+
+export interface RenderedReport {
+  schemaId: string;
+  templateId: string;
+  agentName?: string;
+  range: ReportRange;
+  fileName: string;
+  html: string;
+}
+
+export interface ScheduledRunResult {
+  reports: RenderedReport[];
+  templates: Record<string, ReportTemplate[]>;   // Schemas whose templates got a new lastRunAt
+}
+
+/**
+ * Plain in-memory key/value storage
+ */
+class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'server';
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Load the input into a fresh in-memory store, with the schema active
+ */
+function activateSchema(input: HeadlessReportInput, schemaId: string): void {
+  const storage = new MemoryStorageAdapter();
+  storage.setItem('call-schemas', JSON.stringify(input.schemas));
+  storage.setItem('calls', JSON.stringify(input.calls));
+  storage.setItem('active-schema-id', schemaId);
+  const rules = input.rules[schemaId];
+  if (rules) storage.setItem(`evaluation-criteria-${schemaId}`, JSON.stringify(rules));
+  setStorageAdapter(storage);
+  setCustomEvaluationCriteria(getEvaluationCriteriaForSchema(schemaId));
+}
+
+function renderForTemplate(
+  input: HeadlessReportInput,
+  schema: SchemaDefinition,
+  template: ReportTemplate,
+  range: ReportRange,
+  perAgent: boolean,
+  now: Date
+): RenderedReport[] {
+  activateSchema(input, schema.id);
+
+  const render = (agentName?: string): RenderedReport => ({
+    schemaId: schema.id,
+    templateId: template.id,
+    agentName,
+    range,
+    fileName: getReportFileName(template, range, agentName),
+    html: renderReportHtml(buildReportData(input.calls, schema, template, range, { agentName, now }), template),
+  });
+
+  const reports = [render()];
+  if (perAgent) {
+    const rangeCalls = applyCallFilters(
+      input.calls.filter(c => c.schemaId === schema.id),
+      { dateFrom: range.from, dateTo: range.to }
+    );
+    const agents = [...new Set(rangeCalls.filter(c => c.evaluation).map(getAgentNameFromCall))].sort();
+    reports.push(...agents.map(render));
+  }
+  return reports;
+}
+
+/**
+ * Render every scheduled template that is due and stamp its lastRunAt
+ */
+export function runScheduledReports(input: HeadlessReportInput): ScheduledRunResult {
+  const now = input.now ? new Date(input.now) : new Date();
+  const reports: RenderedReport[] = [];
+  const templates: Record<string, ReportTemplate[]> = {};
+
+  for (const schema of input.schemas) {
+    const schemaTemplates = input.templates[schema.id] ?? [];
+    const due = schemaTemplates.filter(t => isReportDue(t, now));
+    if (due.length === 0) continue;
+
+    for (const template of due) {
+      const range = getScheduledRange(template, now);
+      reports.push(...renderForTemplate(input, schema, template, range, !!template.schedule?.perAgent, now));
+    }
+
+    const dueIds = new Set(due.map(t => t.id));
+    templates[schema.id] = schemaTemplates.map(t =>
+      dueIds.has(t.id) && t.schedule ? { ...t, schedule: { ...t.schedule, lastRunAt: now.toISOString() } } : t
+    );
+  }
+
+  return { reports, templates };
+}
+
+/**
+ * Render one template on demand (the default template when templateId is "default")
+ */
+export function renderReport(
+  input: HeadlessReportInput,
+  schemaId: string,
+  templateId: string,
+  options: { range?: ReportRange; perAgent?: boolean } = {}
+): RenderedReport[] {
+  const schema = input.schemas.find(s => s.id === schemaId);
+  if (!schema) {
+    throw new Error(`Schema not found: ${schemaId}`);
+  }
+  const template = (input.templates[schemaId] ?? []).find(t => t.id === templateId)
+    ?? (templateId === 'default' ? getDefaultReportTemplate(schemaId) : undefined);
+  if (!template) {
+    throw new Error(`Report template not found: ${templateId}`);
+  }
+
+  const now = input.now ? new Date(input.now) : new Date();
+  const range = options.range ?? getScheduledRange(template, now);
+  return renderForTemplate(input, schema, template, range, options.perAgent ?? !!template.schedule?.perAgent, now);
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  saveRulesForSchema,
+  loadRulesForSchema,
+  getRuleSetVersions,
+  getLatestRuleSetVersion,
+  getRetiredRules,
+} from './rules-generator';
+import { getTemplateFixture } from '@/test/fixtures';
+
+const { schema, rules } = getTemplateFixture('customer-support');
+
+describe('saveRulesForSchema', () => {
+  it('assigns keys and records a version only when the rules change', () => {
+    const saved = saveRulesForSchema(schema.id, rules);
+    expect(saved.every(r => r.key)).toBe(true);
+    expect(new Set(saved.map(r => r.key)).size).toBe(saved.length);
+
+    saveRulesForSchema(schema.id, saved);
+    expect(getRuleSetVersions(schema.id)).toHaveLength(1);
+
+    const reordered = saveRulesForSchema(schema.id, [...saved].reverse().map((r, i) => ({ ...r, id: i + 1 })));
+    expect(reordered.map(r => r.key)).toEqual(saved.map(r => r.key).reverse());
+    expect(getLatestRuleSetVersion(schema.id)?.version).toBe(2);
+  });
+
+  it('reports deleted rules as retired and reuses their key when re-added', () => {
+    const saved = saveRulesForSchema(schema.id, rules);
+    saveRulesForSchema(schema.id, saved.slice(1));
+
+    expect(getRetiredRules(schema.id).map(r => r.key)).toEqual([saved[0].key]);
+
+    const [readded] = saveRulesForSchema(schema.id, [{ ...rules[0], key: undefined }, ...saved.slice(1)]);
+    expect(readded.key).toBe(saved[0].key);
+    expect(getRetiredRules(schema.id)).toEqual([]);
+  });
+});
+
+describe('loadRulesForSchema', () => {
+  it('keys rules saved before criterion keys existed without writing on read', () => {
+    const stored = JSON.stringify(rules.map(r => ({ ...r, key: undefined })));
+    window.localStorage.setItem(`evaluation-criteria-${schema.id}`, stored);
+
+    const loaded = loadRulesForSchema(schema.id)!;
+    expect(loaded.every(r => r.key)).toBe(true);
+    expect(loadRulesForSchema(schema.id)).toEqual(loaded);
+    expect(window.localStorage.getItem(`evaluation-criteria-${schema.id}`)).toBe(stored);
+    expect(getLatestRuleSetVersion(schema.id)).toBeUndefined();
+
+    expect(saveRulesForSchema(schema.id, loaded)).toEqual(loaded);
+    expect(getLatestRuleSetVersion(schema.id)?.rules).toEqual(loaded);
+  });
+});
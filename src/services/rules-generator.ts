@@ -3,11 +3,16 @@
  * Generates schema-specific evaluation rules using Azure OpenAI
  */
 
-import type { SchemaDefinition, SchemaEvaluationRule } from '../types/schema';
+import type { SchemaDefinition, SchemaEvaluationRule, RuleSetVersion } from '../types/schema';
 import { clearEvaluationCriteriaCache } from './azure-openai';
+import { getStorageAdapter } from '../lib/storage-adapter';
+import { assignCriterionKeys } from '../lib/criterion-keys';
+import { computeRuleSetId } from '../lib/evaluation-history';
 // import { preparePrompt, extractJsonFromResponse } from '../lib/prompt-loader';
 // import { callAzureOpenAI } from '../lib/llmCaller';
 
+const RULE_SETS_KEY_PREFIX = 'evaluation-rule-sets-';
+
 /**
  * Generates evaluation rules tailored to schema
  */
@@ -66,15 +71,16 @@ export async function generateEvaluationRules(
 }
 
 /**
- * Saves evaluation rules for a schema to localStorage
+ * Saves evaluation rules for a schema to storage.
+ * Rules without a stable key get one, and a new rule set version is recorded when the rules changed.
+ * @returns The rules as saved (with keys)
  */
-export function saveRulesForSchema(schemaId: string, rules: SchemaEvaluationRule[]): void {
+export function saveRulesForSchema(schemaId: string, rules: SchemaEvaluationRule[]): SchemaEvaluationRule[] {
   try {
-    const key = `evaluation-criteria-${schemaId}`;
-    localStorage.setItem(key, JSON.stringify(rules));
-    
-    // Clear the criteria cache so next fetch gets fresh data
-    clearEvaluationCriteriaCache(schemaId);
+    const keyedRules = assignCriterionKeys(rules, getHistoricalRules(schemaId));
+    writeRules(schemaId, keyedRules);
+    recordRuleSetVersion(schemaId, keyedRules);
+    return keyedRules;
   } catch (error) {
     console.error('Error saving evaluation rules:', error);
     throw error;
@@ -82,23 +88,98 @@ export function saveRulesForSchema(schemaId: string, rules: SchemaEvaluationRule
 }
 
 /**
- * Loads evaluation rules for a schema from localStorage
+ * Loads evaluation rules for a schema from storage.
+ * Rules saved before stable keys existed get their keys in memory only. Keys follow
+ * from the names and the version history, so every read (and every user) gets the same
+ * ones until the next save stores them. Reading never writes: the reader may not be
+ * allowed to edit rules.
  */
 export function loadRulesForSchema(schemaId: string): SchemaEvaluationRule[] | null {
   try {
     const key = `evaluation-criteria-${schemaId}`;
-    const json = localStorage.getItem(key);
+    const json = getStorageAdapter().getItem(key);
     if (!json) {
       return null;
     }
-    const rules = JSON.parse(json);
-    return rules;
+    const rules: SchemaEvaluationRule[] = JSON.parse(json);
+    return rules.some(rule => !rule.key) ? assignCriterionKeys(rules, getHistoricalRules(schemaId)) : rules;
   } catch (error) {
     console.error('Error loading evaluation rules:', error);
     return null;
   }
 }
 
+function writeRules(schemaId: string, rules: SchemaEvaluationRule[]): void {
+  getStorageAdapter().setItem(`evaluation-criteria-${schemaId}`, JSON.stringify(rules));
+
+  // Clear the criteria cache so next fetch gets fresh data
+  clearEvaluationCriteriaCache(schemaId);
+}
+
+/**
+ * Get every recorded version of a schema's rule set, oldest first
+ */
+export function getRuleSetVersions(schemaId: string): RuleSetVersion[] {
+  try {
+    const json = getStorageAdapter().getItem(`${RULE_SETS_KEY_PREFIX}${schemaId}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error loading rule set versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the current rule set version for a schema, if any rules were saved
+ */
+export function getLatestRuleSetVersion(schemaId: string): RuleSetVersion | undefined {
+  const versions = getRuleSetVersions(schemaId);
+  return versions[versions.length - 1];
+}
+
+/**
+ * Rules that appeared in an earlier version but are no longer in the current rule set,
+ * each in its last known form
+ */
+export function getRetiredRules(schemaId: string): SchemaEvaluationRule[] {
+  const versions = getRuleSetVersions(schemaId);
+  const current = versions[versions.length - 1];
+  if (!current) return [];
+
+  const currentKeys = new Set(current.rules.map(r => r.key));
+  const retired = new Map<string, SchemaEvaluationRule>();
+  for (const version of versions.slice(0, -1)) {
+    for (const rule of version.rules) {
+      if (rule.key && !currentKeys.has(rule.key)) {
+        retired.set(rule.key, rule);
+      }
+    }
+  }
+  return Array.from(retired.values());
+}
+
+/** Rules from all versions, most recent first - used to reuse keys for re-added rules */
+function getHistoricalRules(schemaId: string): SchemaEvaluationRule[] {
+  return getRuleSetVersions(schemaId).reverse().flatMap(v => v.rules);
+}
+
+function recordRuleSetVersion(schemaId: string, rules: SchemaEvaluationRule[]): void {
+  const versions = getRuleSetVersions(schemaId);
+  const latest = versions[versions.length - 1];
+  if (latest && JSON.stringify(latest.rules) === JSON.stringify(rules)) {
+    return;
+  }
+
+  const version: RuleSetVersion = {
+    version: (latest?.version ?? 0) + 1,
+    ruleSetId: computeRuleSetId(rules),
+    rules,
+    createdAt: new Date().toISOString(),
+  };
+  getStorageAdapter().setItem(`${RULE_SETS_KEY_PREFIX}${schemaId}`, JSON.stringify([...versions, version]));
+  console.log(`📚 Recorded rule set v${version.version} for schema ${schemaId}`);
+}
+
 /**
  * Checks if evaluation rules exist for a schema
  */
@@ -112,7 +193,7 @@ export function hasRulesForSchema(schemaId: string): boolean {
 export function deleteRulesForSchema(schemaId: string): void {
   try {
     const key = `evaluation-criteria-${schemaId}`;
-    localStorage.removeItem(key);
+    getStorageAdapter().removeItem(key);
     
     // Clear the criteria cache
     clearEvaluationCriteriaCache(schemaId);
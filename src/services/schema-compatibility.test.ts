@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateDebtCollectionSchema,
+  needsMigration,
+  migrateCall,
+  migrateAllCalls,
+  runMigration,
+  hasDebtCollectionSchema,
+} from './schema-compatibility';
+import { getActiveSchemaId } from './schema-manager';
+import { CallRecord } from '@/types/call';
+import { loadDefaultCalls } from '@/test/fixtures';
+
+/** Sample calls as they were stored before the schema system existed */
+function legacyCalls(): CallRecord[] {
+  return loadDefaultCalls().map(({ schemaId: _schemaId, schemaVersion: _schemaVersion, ...call }) => call as CallRecord);
+}
+
+describe('needsMigration', () => {
+  it('detects calls without schema tags', () => {
+    expect(needsMigration([])).toBe(false);
+    expect(needsMigration(loadDefaultCalls())).toBe(false);
+    expect(needsMigration(legacyCalls())).toBe(true);
+    expect(needsMigration([...loadDefaultCalls(), legacyCalls()[0]])).toBe(true);
+  });
+});
+
+describe('migrateCall / migrateAllCalls', () => {
+  it('tags legacy calls with the Debt Collection schema and keeps their metadata', () => {
+    const [legacy] = legacyCalls();
+    const migrated = migrateCall(legacy);
+
+    expect(migrated.schemaId).toBe('debt-collection-v1');
+    expect(migrated.schemaVersion).toBe('1.0.0');
+    expect(migrated.metadata).toEqual(legacy.metadata);
+  });
+
+  it('leaves calls that already have a schema untouched', () => {
+    const call = { ...loadDefaultCalls()[0], schemaId: 'other', schemaVersion: '2.0.0' };
+    expect(migrateCall(call)).toBe(call);
+  });
+
+  it('summarises the migration', () => {
+    const result = migrateAllCalls(legacyCalls());
+    expect(result.count).toBe(10);
+    expect(result.migratedCalls.every(c => c.schemaId === result.schemaId)).toBe(true);
+  });
+});
+
+describe('runMigration', () => {
+  it('creates and activates the Debt Collection schema once', () => {
+    const result = runMigration(legacyCalls());
+
+    expect(result.success).toBe(true);
+    expect(result.count).toBe(10);
+    expect(hasDebtCollectionSchema()).toBe(true);
+    expect(getActiveSchemaId()).toBe('debt-collection-v1');
+
+    const schemas = JSON.parse(window.localStorage.getItem('call-schemas')!);
+    runMigration(legacyCalls());
+    expect(JSON.parse(window.localStorage.getItem('call-schemas')!)).toHaveLength(schemas.length);
+  });
+
+  it('is a no-op when every call is already tagged', () => {
+    const result = runMigration(loadDefaultCalls());
+    expect(result).toEqual({ success: true, message: 'No migration needed - all calls already use schema system' });
+    expect(hasDebtCollectionSchema()).toBe(false);
+  });
+
+  it('maps legacy metadata names to the generated field ids', () => {
+    const schema = generateDebtCollectionSchema();
+    const byName = new Map(schema.fields.map(f => [f.name, f.id]));
+    const [legacy] = legacyCalls();
+
+    ['agentName', 'borrowerName', 'daysPastDue', 'dueAmount'].forEach(name => {
+      expect(byName.has(name), name).toBe(true);
+      expect(legacy.metadata[name]).toBeDefined();
+    });
+  });
+});
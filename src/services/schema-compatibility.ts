@@ -203,7 +203,7 @@ export function generateDebtCollectionSchema(): SchemaDefinition {
         id: 'risk_calculation',
         type: 'complex',
         description: 'Risk score calculated from days past due and amount owed',
-        formula: 'return (metadata.daysPastDue * metadata.dueAmount) / 1000;',
+        formula: '(days_past_due * due_amount) / 1000',
         involvedFields: ['days_past_due', 'due_amount']
       },
       {
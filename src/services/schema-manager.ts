@@ -1,20 +1,21 @@
 /**
  * Schema Manager Service
- * CRUD operations for schema definitions with localStorage persistence
+ * CRUD operations for schema definitions, persisted via the active storage adapter
  */
 
 import type { SchemaDefinition } from '../types/schema';
 import { validateSchemaDefinition, canDeleteSchema } from './schema-validation';
+import { getStorageAdapter } from '../lib/storage-adapter';
 
 const SCHEMAS_KEY = 'call-schemas';
 const ACTIVE_SCHEMA_KEY = 'active-schema-id';
 
 /**
- * Gets all schemas from localStorage
+ * Gets all schemas from storage
  */
 export function getAllSchemas(): SchemaDefinition[] {
   try {
-    const schemasJson = localStorage.getItem(SCHEMAS_KEY);
+    const schemasJson = getStorageAdapter().getItem(SCHEMAS_KEY);
     if (!schemasJson) return [];
     return JSON.parse(schemasJson);
   } catch (error) {
@@ -35,7 +36,7 @@ export function getSchemaById(id: string): SchemaDefinition | null {
  * Gets the active schema ID
  */
 export function getActiveSchemaId(): string | null {
-  return localStorage.getItem(ACTIVE_SCHEMA_KEY);
+  return getStorageAdapter().getItem(ACTIVE_SCHEMA_KEY);
 }
 
 /**
@@ -57,7 +58,7 @@ export function setActiveSchema(schemaId: string): { success: boolean; error?: s
   }
   
   try {
-    localStorage.setItem(ACTIVE_SCHEMA_KEY, schemaId);
+    getStorageAdapter().setItem(ACTIVE_SCHEMA_KEY, schemaId);
     return { success: true };
   } catch (error) {
     return { 
@@ -89,7 +90,7 @@ export function createSchema(schema: SchemaDefinition): { success: boolean; erro
   try {
     const schemas = getAllSchemas();
     schemas.push(schema);
-    localStorage.setItem(SCHEMAS_KEY, JSON.stringify(schemas));
+    getStorageAdapter().setItem(SCHEMAS_KEY, JSON.stringify(schemas));
     
     // If this is the first schema, set it as active
     if (schemas.length === 1) {
@@ -130,7 +131,7 @@ export function updateSchema(schema: SchemaDefinition): { success: boolean; erro
     schema.updatedAt = new Date().toISOString();
     
     schemas[index] = schema;
-    localStorage.setItem(SCHEMAS_KEY, JSON.stringify(schemas));
+    getStorageAdapter().setItem(SCHEMAS_KEY, JSON.stringify(schemas));
     
     return { success: true };
   } catch (error) {
@@ -159,7 +160,7 @@ export function deleteSchema(schemaId: string, callCount: number): { success: bo
       return { success: false, error: `Schema with ID "${schemaId}" not found` };
     }
 
-    localStorage.setItem(SCHEMAS_KEY, JSON.stringify(filtered));
+    getStorageAdapter().setItem(SCHEMAS_KEY, JSON.stringify(filtered));
     
     // If deleted schema was active, clear active schema or set first available
     const activeId = getActiveSchemaId();
@@ -167,7 +168,7 @@ export function deleteSchema(schemaId: string, callCount: number): { success: bo
       if (filtered.length > 0) {
         setActiveSchema(filtered[0].id);
       } else {
-        localStorage.removeItem(ACTIVE_SCHEMA_KEY);
+        getStorageAdapter().removeItem(ACTIVE_SCHEMA_KEY);
       }
     }
     
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SchemaMapper } from './schema-mapper';
+import { generateDebtCollectionSchema } from './schema-compatibility';
+import { SchemaDefinition } from '@/types/schema';
+import { loadDefaultCalls, loadTemplateFixtures, buildRawRow } from '@/test/fixtures';
+
+describe('SchemaMapper.mapRow', () => {
+  it('maps column names to field ids and evaluates formulas', () => {
+    const schema = generateDebtCollectionSchema();
+    const [call] = loadDefaultCalls();
+
+    const metadata = SchemaMapper.mapRow(call.metadata, schema);
+
+    expect(metadata.agent_name).toBe('Raj');
+    expect(metadata.days_past_due).toBe(95);
+    expect(metadata.due_amount).toBe(1348.34);
+    expect(metadata.calc_risk_calculation).toBeCloseTo((95 * 1348.34) / 1000);
+  });
+
+  it('matches columns case-insensitively and coerces types', () => {
+    const schema = generateDebtCollectionSchema();
+    const metadata = SchemaMapper.mapRow(
+      { AGENTNAME: ' Bev ', DaysPastDue: '26', dueAmount: 'n/a' },
+      schema
+    );
+
+    expect(metadata.agent_name).toBe('Bev');
+    expect(metadata.days_past_due).toBe(26);
+    expect(metadata.due_amount).toBe(0);
+    expect(metadata.borrower_name).toBe('');
+  });
+
+  it('coerces booleans and applies field defaults', () => {
+    const schema: SchemaDefinition = {
+      ...generateDebtCollectionSchema(),
+      fields: [
+        { id: 'vip', name: 'VIP', displayName: 'VIP', type: 'boolean', semanticRole: 'dimension', required: false, showInTable: true, useInPrompt: true, enableAnalytics: true },
+        { id: 'tier', name: 'Tier', displayName: 'Tier', type: 'string', semanticRole: 'classification', required: false, showInTable: true, useInPrompt: true, enableAnalytics: true, defaultValue: 'Standard' },
+      ],
+      relationships: [],
+    };
+
+    expect(SchemaMapper.mapRow({ VIP: 'yes' }, schema)).toEqual({ vip: true, tier: 'Standard' });
+    expect(SchemaMapper.mapRow({ VIP: '0', Tier: 'Gold' }, schema)).toEqual({ vip: false, tier: 'Gold' });
+  });
+
+  it('lets later formulas read earlier calculated values', () => {
+    const schema: SchemaDefinition = {
+      ...generateDebtCollectionSchema(),
+      relationships: [
+        { id: 'risk', type: 'complex', description: 'Risk', formula: 'days_past_due * due_amount', involvedFields: ['days_past_due', 'due_amount'] },
+        { id: 'band', type: 'complex', description: 'Band', formula: 'calc_risk > 1000 ? "high" : "low"', involvedFields: [] },
+      ],
+    };
+
+    const metadata = SchemaMapper.mapRow({ daysPastDue: '30', dueAmount: '50' }, schema);
+    expect(metadata.calc_risk).toBe(1500);
+    expect(metadata.calc_band).toBe('high');
+  });
+
+  it('skips failing formulas with a warning instead of throwing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const schema: SchemaDefinition = {
+      ...generateDebtCollectionSchema(),
+      relationships: [
+        { id: 'ratio', type: 'complex', description: 'Ratio', formula: 'due_amount / days_past_due', involvedFields: [] },
+      ],
+    };
+
+    const metadata = SchemaMapper.mapRow({ dueAmount: '10', daysPastDue: '0' }, schema);
+    expect(metadata).not.toHaveProperty('calc_ratio');
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('evaluates every template formula on generated rows', () => {
+    for (const { schema } of loadTemplateFixtures()) {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const metadata = SchemaMapper.mapRow(buildRawRow(schema, 1), schema);
+
+      for (const rel of schema.relationships.filter(r => r.type === 'complex' && r.formula)) {
+        expect(metadata, `${schema.name}: ${rel.id}`).toHaveProperty(`calc_${rel.id}`);
+      }
+      expect(warn, schema.name).not.toHaveBeenCalled();
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('SchemaMapper.detectSchema', () => {
+  it('picks the template whose columns match the row', () => {
+    const fixtures = loadTemplateFixtures();
+    const schemas = fixtures.map(f => f.schema);
+
+    for (const { schema } of fixtures) {
+      const detected = SchemaMapper.detectSchema(buildRawRow(schema, 0), schemas);
+      expect(SchemaMapper.calculateMatchScore(buildRawRow(schema, 0), detected!), schema.name).toBe(100);
+    }
+    expect(SchemaMapper.detectSchema({ unrelated: 'x' }, schemas)).toBeNull();
+  });
+});
+
+describe('SchemaMapper.suggestColumnMapping', () => {
+  it('matches headers by name, display name and near spellings, one column per field', () => {
+    const schema = generateDebtCollectionSchema();
+
+    const mapping = SchemaMapper.suggestColumnMapping(
+      ['AGENT NAME', 'Due amount (AED)', 'Follow up status', 'Nationalty', 'Notes'],
+      schema
+    );
+
+    expect(mapping).toMatchObject({
+      agent_name: 'AGENT NAME',
+      due_amount: 'Due amount (AED)',
+      follow_up_status: 'Follow up status',
+      nationality: 'Nationalty',
+    });
+    expect(Object.values(mapping)).not.toContain('Notes');
+    expect(new Set(Object.values(mapping)).size).toBe(Object.values(mapping).length);
+  });
+
+  it('reads only mapped columns when a mapping is given', () => {
+    const schema = generateDebtCollectionSchema();
+    const row = { agentName: 'Raj', Rep: 'Bev' };
+
+    expect(SchemaMapper.mapRow(row, schema, { agent_name: 'Rep' }).agent_name).toBe('Bev');
+    expect(SchemaMapper.mapRow(row, schema, {}).agent_name).toBe('');
+  });
+});
+
+describe('SchemaMapper.analyzeRowData', () => {
+  it('infers column types and cardinality', () => {
+    const stats = SchemaMapper.analyzeRowData(loadDefaultCalls().map(c => c.metadata));
+
+    expect(stats.daysPastDue.inferredType).toBe('number');
+    expect(stats.agentName.inferredType).toBe('string');
+    expect(stats.product.uniqueCount).toBe(2);
+    expect(stats.product.nonEmptyRows).toBe(10);
+  });
+});
@@ -1,36 +1,41 @@
 import { SchemaDefinition, FieldDefinition, FieldType } from '@/types/schema';
+import { ColumnMapping } from '@/types/import-mapping';
 import { executeFormula } from '@/lib/formula-executor';
 
+/** Minimum similarity for a column to be suggested for a field */
+const MIN_COLUMN_SIMILARITY = 0.6;
+
 /**
  * Maps raw CSV/Excel rows to schema-compliant metadata objects
  */
 export class SchemaMapper {
   /**
-   * Map a single row to metadata using schema field definitions
+   * Map a single row to metadata using schema field definitions.
+   * With a column mapping, each field reads only its mapped column.
    */
   static mapRow(
     row: Record<string, any>,
-    schema: SchemaDefinition
+    schema: SchemaDefinition,
+    columnMapping?: ColumnMapping
   ): Record<string, any> {
     const metadata: Record<string, any> = {};
 
     // Map each field according to schema definition
     for (const field of schema.fields) {
-      const value = this.getFieldValue(row, field);
+      const value = this.getFieldValue(row, field, columnMapping);
       metadata[field.id] = value;
     }
 
     // Calculate derived fields from complex relationships (formulas)
     for (const relationship of schema.relationships || []) {
       if (relationship.type === 'complex' && relationship.formula) {
-        try {
-          const result = executeFormula(relationship.formula, metadata);
-          if (result.success) {
-            // Store the calculated result using relationship ID as the key
-            metadata[`calc_${relationship.id}`] = result.result;
-          }
-        } catch (error) {
-          console.warn(`Failed to execute formula for relationship ${relationship.id}:`, error);
+        // Formulas run in the sandboxed formula language; earlier results are visible as calc_<id>
+        const result = executeFormula(relationship.formula, metadata);
+        if (result.success) {
+          // Store the calculated result using relationship ID as the key
+          metadata[`calc_${relationship.id}`] = result.result;
+        } else {
+          console.warn(`Failed to execute formula for relationship ${relationship.id}: ${result.error}`);
         }
       }
     }
@@ -43,10 +48,11 @@ export class SchemaMapper {
    */
   private static getFieldValue(
     row: Record<string, any>,
-    field: FieldDefinition
+    field: FieldDefinition,
+    columnMapping?: ColumnMapping
   ): any {
     // Get raw value from row using field name (which maps to column)
-    const rawValue = this.getRawValue(row, field.name);
+    const rawValue = this.getMappedValue(row, field, columnMapping);
 
     if (rawValue === undefined || rawValue === null || rawValue === '') {
       return field.defaultValue ?? this.getDefaultForType(field.type);
@@ -56,6 +62,20 @@ export class SchemaMapper {
     return this.coerceValue(rawValue, field.type);
   }
 
+  /**
+   * Raw value of a field: its mapped column when a mapping is given, otherwise the column named like the field
+   */
+  static getMappedValue(
+    row: Record<string, any>,
+    field: FieldDefinition,
+    columnMapping?: ColumnMapping
+  ): any {
+    if (!columnMapping) return this.getRawValue(row, field.name);
+    const column = columnMapping[field.id];
+    const value = column !== undefined ? row[column] : undefined;
+    return value === null || value === '' ? undefined : value;
+  }
+
   /**
    * Get raw value from row using flexible column name matching
    */
@@ -176,6 +196,79 @@ export class SchemaMapper {
     return bestMatch;
   }
 
+  /**
+   * Suggest a column for each schema field by fuzzy name matching (field name, id and
+   * display name against the column headers). Each column is used at most once.
+   */
+  static suggestColumnMapping(
+    columns: string[],
+    schema: SchemaDefinition
+  ): ColumnMapping {
+    const candidates: Array<{ fieldId: string; column: string; score: number }> = [];
+    for (const field of schema.fields) {
+      for (const column of columns) {
+        const score = Math.max(
+          ...[field.name, field.id, field.displayName].filter(Boolean).map(name => this.columnSimilarity(column, name))
+        );
+        if (score >= MIN_COLUMN_SIMILARITY) candidates.push({ fieldId: field.id, column, score });
+      }
+    }
+
+    // Best pairs first, so a column goes to the field it matches most closely
+    const mapping: ColumnMapping = {};
+    const usedColumns = new Set<string>();
+    for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+      if (mapping[candidate.fieldId] !== undefined || usedColumns.has(candidate.column)) continue;
+      mapping[candidate.fieldId] = candidate.column;
+      usedColumns.add(candidate.column);
+    }
+    return mapping;
+  }
+
+  /**
+   * Similarity of a column header and a field name (0-1): exact after normalization,
+   * word overlap, containment, or edit distance, whichever is highest
+   */
+  private static columnSimilarity(column: string, name: string): number {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const words = (value: string) => new Set(
+      value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+    );
+
+    const a = normalize(column);
+    const b = normalize(name);
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    const wordsA = words(column);
+    const wordsB = words(name);
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    const wordScore = (2 * shared) / (wordsA.size + wordsB.size);
+    const containment = Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a)) ? 0.8 : 0;
+    const editScore = 1 - this.editDistance(a, b) / Math.max(a.length, b.length);
+
+    return Math.max(wordScore, containment, editScore);
+  }
+
+  /**
+   * Levenshtein distance
+   */
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
   /**
    * Extract column names from row data
    */
@@ -188,42 +281,48 @@ export class SchemaMapper {
    */
   static validateRowMapping(
     row: Record<string, any>,
-    schema: SchemaDefinition
-  ): { valid: boolean; missingFields: string[] } {
+    schema: SchemaDefinition,
+    columnMapping?: ColumnMapping
+  ): { valid: boolean; missingFields: string[]; missingFieldIds: string[] } {
     const missingFields: string[] = [];
+    const missingFieldIds: string[] = []; // For the classification check, the first classification field
 
     // Check required participant fields
     const participant1Field = schema.fields.find(f => f.semanticRole === 'participant_1');
     const participant2Field = schema.fields.find(f => f.semanticRole === 'participant_2');
 
     if (participant1Field) {
-      const value = this.getRawValue(row, participant1Field.name);
+      const value = this.getMappedValue(row, participant1Field, columnMapping);
       if (!value) {
         missingFields.push(participant1Field.displayName);
+        missingFieldIds.push(participant1Field.id);
       }
     }
 
     if (participant2Field) {
-      const value = this.getRawValue(row, participant2Field.name);
+      const value = this.getMappedValue(row, participant2Field, columnMapping);
       if (!value) {
         missingFields.push(participant2Field.displayName);
+        missingFieldIds.push(participant2Field.id);
       }
     }
 
     // Check at least one classification field
     const classificationFields = schema.fields.filter(f => f.semanticRole === 'classification');
     const hasClassification = classificationFields.some(field => {
-      const value = this.getRawValue(row, field.name);
+      const value = this.getMappedValue(row, field, columnMapping);
       return value !== undefined && value !== null && value !== '';
     });
 
     if (!hasClassification) {
       missingFields.push('At least one classification field');
+      if (classificationFields[0]) missingFieldIds.push(classificationFields[0].id);
     }
 
     return {
       valid: missingFields.length === 0,
-      missingFields
+      missingFields,
+      missingFieldIds
     };
   }
 
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchemaDefinition, validateMetadata, validateSemanticRoles, canDeleteSchema } from './schema-validation';
+import { loadTemplateFixtures, getTemplateFixture, buildRawRow } from '@/test/fixtures';
+import { generateDebtCollectionSchema } from './schema-compatibility';
+
+describe('validateSchemaDefinition', () => {
+  it.each(loadTemplateFixtures().map(f => [f.template.id, f.schema] as const))(
+    'accepts the %s template',
+    (_id, schema) => {
+      const result = validateSchemaDefinition(schema);
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    }
+  );
+
+  it('accepts the legacy Debt Collection schema', () => {
+    expect(validateSchemaDefinition(generateDebtCollectionSchema()).valid).toBe(true);
+  });
+
+  it('requires exactly one participant of each kind and a classification', () => {
+    const { schema } = getTemplateFixture('sales');
+    const agent = schema.fields.find(f => f.semanticRole === 'participant_1')!;
+    const result = validateSchemaDefinition({
+      ...schema,
+      fields: [
+        ...schema.fields.filter(f => f.semanticRole !== 'participant_2' && f.semanticRole !== 'classification'),
+        { ...agent, id: `${agent.id}_2`, name: `${agent.name}2` },
+      ],
+      relationships: [],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Schema has 2 participant_1 fields, but only one is allowed',
+      'Schema must have exactly one participant_2 field (second conversation participant)',
+      'Schema must have at least one classification field for categorization',
+    ]));
+  });
+
+  it('rejects duplicate field ids and relationships to unknown fields', () => {
+    const { schema } = getTemplateFixture('debt-collection');
+    const result = validateSchemaDefinition({
+      ...schema,
+      fields: [...schema.fields, { ...schema.fields[0], name: 'other' }],
+      relationships: [{ id: 'r1', type: 'simple', description: 'x', involvedFields: ['nope'] }],
+    });
+
+    expect(result.errors).toContain(`Duplicate field ID: "${schema.fields[0].id}"`);
+    expect(result.errors).toContain('Relationship "r1" references non-existent field: "nope"');
+  });
+
+  it('checks relationship formulas statically', () => {
+    const schema = generateDebtCollectionSchema();
+    const result = validateSchemaDefinition({
+      ...schema,
+      relationships: [
+        { id: 'bad_ref', type: 'complex', description: 'x', formula: 'days_past_du * 2', involvedFields: ['days_past_due'] },
+        { id: 'bad_syntax', type: 'complex', description: 'x', formula: 'due_amount * (', involvedFields: ['due_amount'] },
+        { id: 'legacy', type: 'complex', description: 'x', formula: 'return metadata.due_amount * 2', involvedFields: ['due_amount'] },
+      ],
+    });
+
+    expect(result.errors.some(e => e.startsWith('Relationship "bad_ref" formula:'))).toBe(true);
+    expect(result.errors.some(e => e.startsWith('Relationship "bad_syntax" formula:'))).toBe(true);
+    expect(result.errors.some(e => e.startsWith('Relationship "legacy"'))).toBe(false);
+    expect(result.warnings.some(w => w.startsWith('Relationship "legacy" formula:'))).toBe(true);
+  });
+});
+
+describe('validateMetadata', () => {
+  it('accepts a generated row for every template', () => {
+    for (const { schema } of loadTemplateFixtures()) {
+      const row = buildRawRow(schema, 0);
+      const result = validateMetadata(row, schema);
+      expect(result.errors, schema.name).toEqual([]);
+    }
+  });
+
+  it('reports missing required fields and bad numbers', () => {
+    const schema = generateDebtCollectionSchema();
+    const required = { ...schema, fields: schema.fields.map(f => f.id === 'agent_name' ? { ...f, required: true } : f) };
+    const result = validateMetadata({ daysPastDue: 'many' }, required);
+
+    expect(result.errors).toContain('Required field "Agent Name" (agentName) is missing');
+    expect(result.errors).toContain('Field "Days Past Due" must be a number, got: string');
+  });
+});
+
+describe('validateSemanticRoles / canDeleteSchema', () => {
+  it('flags missing participants', () => {
+    const schema = generateDebtCollectionSchema();
+    const result = validateSemanticRoles(schema.fields.filter(f => f.semanticRole !== 'participant_1'));
+    expect(result.valid).toBe(false);
+  });
+
+  it('blocks deleting schemas that still have calls', () => {
+    expect(canDeleteSchema('s', 0).allowed).toBe(true);
+    expect(canDeleteSchema('s', 3).allowed).toBe(false);
+  });
+});
@@ -9,6 +9,7 @@ import type {
   SchemaValidationResult,
   SemanticRole
 } from '../types/schema';
+import { checkFormula } from '../lib/formula-language';
 
 /**
  * Validates metadata against a schema definition
@@ -191,6 +192,13 @@ export function validateSchemaDefinition(schema: SchemaDefinition): SchemaValida
       if (rel.type === 'complex' && (!rel.formula || rel.formula.trim() === '')) {
         warnings.push(`Complex relationship "${rel.id}" should have a formula defined`);
       }
+
+      // Formulas must parse and only reference schema fields (checked statically, never executed)
+      if (rel.formula && rel.formula.trim() !== '') {
+        const check = checkFormula(rel.formula, schema);
+        check.errors.forEach(error => errors.push(`Relationship "${rel.id}" formula: ${error}`));
+        check.warnings.forEach(warning => warnings.push(`Relationship "${rel.id}" formula: ${warning}`));
+      }
     }
   }
 
@@ -6,8 +6,16 @@
 import { CallRecord, TranscriptPhrase } from '@/types/call';
 import { SchemaDefinition } from '@/types/schema';
 import { AzureServicesConfig } from '@/types/config';
-import { TTSCaller, getTTSCaller, initializeTTSCaller, AzureTTSConfig, DEFAULT_VOICES } from '@/TTSCaller';
+import { UsageContext } from '@/types/usage';
+import { TTSCaller, getTTSCaller, initializeTTSCaller, AzureTTSConfig, DEFAULT_VOICES, STEREO_SAMPLE_RATE, SpeechStyle, StereoPhrase } from '@/TTSCaller';
 import { LLMCaller } from '@/llmCaller';
+import {
+  applyAcousticTimeline,
+  createAcousticPostProcessor,
+  findSentimentSegment,
+  getAcousticPreset,
+  speechStyleForSentiment,
+} from './audio-augmentation';
 
 export type Gender = 'male' | 'female' | 'neutral';
 
@@ -22,6 +30,8 @@ export interface SyntheticAudioResult {
   audioUrl: string;
   durationEstimateMs: number;
   voiceAssignments: VoiceAssignment[];
+  channelLayout: 'mono' | 'stereo';
+  acousticPreset: string;
 }
 
 export interface SyntheticAudioProgress {
@@ -39,7 +49,8 @@ const genderCache = new Map<string, Gender>();
  */
 export async function detectGenderFromName(
   name: string,
-  llmCaller: LLMCaller
+  llmCaller: LLMCaller,
+  usage?: Omit<UsageContext, 'operation'>
 ): Promise<Gender> {
   // Check cache first
   const normalizedName = name.trim().toLowerCase();
@@ -75,6 +86,7 @@ Do not include any other text.`,
     const result = await llmCaller.callWithJsonValidation<{ gender: Gender }>(messages, {
       maxRetries: 1,
       maxTokens: 20,
+      usage: { ...usage, operation: 'gender-detection' },
     });
 
     console.log(`🎭 LLM response for "${name}":`, result);
@@ -199,6 +211,7 @@ export async function generateSyntheticAudio(
 
   // Extract participant names
   const { agentName, customerName } = extractParticipantNames(call, schema);
+  const usage = { schemaId: schema.id, callId: call.id };
 
   // Phase 1: Detect genders
   onProgress?.({
@@ -208,7 +221,7 @@ export async function generateSyntheticAudio(
     message: 'Detecting speaker genders...',
   });
 
-  const agentGender = await detectGenderFromName(agentName, llmCaller);
+  const agentGender = await detectGenderFromName(agentName, llmCaller, usage);
   onProgress?.({
     phase: 'detecting-gender',
     current: 1,
@@ -216,7 +229,7 @@ export async function generateSyntheticAudio(
     message: `Agent "${agentName}" detected as ${agentGender}`,
   });
 
-  const customerGender = await detectGenderFromName(customerName, llmCaller);
+  const customerGender = await detectGenderFromName(customerName, llmCaller, usage);
   onProgress?.({
     phase: 'detecting-gender',
     current: 2,
@@ -247,6 +260,10 @@ export async function generateSyntheticAudio(
     { speakerLabel: customerName, gender: customerGender, voiceName: customerVoice },
   ];
 
+  // Acoustic realism chosen when the synthetic call was generated
+  const preset = getAcousticPreset(call.acousticPreset);
+  const profile = preset.profile;
+
   // Phase 2: Synthesize each phrase
   const phrases = call.transcriptPhrases.map((phrase) => {
     const speakerInfo = getSpeakerInfo(phrase.speaker, agentName, customerName);
@@ -255,7 +272,11 @@ export async function generateSyntheticAudio(
     return {
       text: phrase.text,
       voice: voice,
+      isAgent: speakerInfo.isAgent,
       pauseAfterMs: 400, // Natural pause between speakers
+      speechStyle: profile.emotionStyles
+        ? speechStyleForSentiment(findSentimentSegment(phrase, call.sentimentSegments), speakerInfo.isAgent)
+        : undefined,
     };
   });
 
@@ -266,17 +287,45 @@ export async function generateSyntheticAudio(
     message: 'Synthesizing audio...',
   });
 
-  const audioBlob = await ttsCaller.synthesizeConversation(
-    phrases,
-    (current, total) => {
-      onProgress?.({
-        phase: 'synthesizing',
-        current,
-        total,
-        message: `Synthesizing phrase ${current} of ${total}...`,
-      });
-    }
-  );
+  const onPhraseProgress = (current: number, total: number) => {
+    onProgress?.({
+      phase: 'synthesizing',
+      current,
+      total,
+      message: `Synthesizing phrase ${current} of ${total}...`,
+    });
+  };
+
+  // Augmented mono calls are mixed like stereo calls and downmixed at the end
+  const channelLayout = azureConfig.tts?.channelLayout ?? 'stereo';
+  if (channelLayout === 'stereo' || preset.id !== 'studio') {
+    const agentChannel = azureConfig.speech?.agentChannel ?? 0;
+    const stereoPhrases = applyAcousticTimeline(
+      planStereoPhrases(phrases, {
+        agentChannel,
+        overlapMs: profile.crosstalkMs ?? azureConfig.tts?.overlapMs ?? 0,
+        bargeInRate: profile.bargeInRate ?? azureConfig.tts?.bargeInRate ?? 0,
+      }),
+      profile,
+      { agentChannel, sampleRate: STEREO_SAMPLE_RATE }
+    );
+    const result = await ttsCaller.synthesizeStereoConversation(stereoPhrases, onPhraseProgress, usage, {
+      postProcess: createAcousticPostProcessor(profile, { downmix: channelLayout === 'mono' }),
+    });
+    const bargeIns = stereoPhrases.filter(p => p.bargeIn).length;
+    console.log(`🎧 Mixed ${channelLayout} call (${preset.name}): ${result.turns.length} turns, ${bargeIns} barge-ins, ${Math.round(result.durationMs / 1000)}s`);
+
+    return {
+      audioBlob: result.audioBlob,
+      audioUrl: URL.createObjectURL(result.audioBlob),
+      durationEstimateMs: result.durationMs,
+      voiceAssignments,
+      channelLayout,
+      acousticPreset: preset.id,
+    };
+  }
+
+  const audioBlob = await ttsCaller.synthesizeConversation(phrases, onPhraseProgress, usage);
 
   // Create object URL for playback
   const audioUrl = URL.createObjectURL(audioBlob);
@@ -290,9 +339,34 @@ export async function generateSyntheticAudio(
     audioUrl,
     durationEstimateMs,
     voiceAssignments,
+    channelLayout,
+    acousticPreset: preset.id,
   };
 }
 
+/**
+ * Put each phrase on its speaker's channel (agent on agentChannel, customer on the other)
+ * and add crosstalk and random barge-ins where the speaker changes
+ */
+export function planStereoPhrases(
+  phrases: Array<{ text: string; voice: string; isAgent: boolean; pauseAfterMs?: number; speechStyle?: SpeechStyle }>,
+  options: { agentChannel: number; overlapMs: number; bargeInRate: number },
+  random: () => number = Math.random
+): StereoPhrase[] {
+  return phrases.map((phrase, index) => {
+    const speakerChanged = index > 0 && phrase.isAgent !== phrases[index - 1].isAgent;
+    return {
+      text: phrase.text,
+      voice: phrase.voice,
+      channel: phrase.isAgent ? options.agentChannel : 1 - options.agentChannel,
+      pauseAfterMs: phrase.pauseAfterMs,
+      speechStyle: phrase.speechStyle,
+      overlapMs: speakerChanged && options.overlapMs > 0 ? options.overlapMs : undefined,
+      bargeIn: speakerChanged && options.bargeInRate > 0 && random() < options.bargeInRate,
+    };
+  });
+}
+
 /**
  * Generate synthetic audio for multiple calls (batch processing)
  */
@@ -1,8 +1,11 @@
 import { STTCaller, STTCallOptions } from '../STTCaller';
-import { CallRecord, AzureSpeechConfig, CallSentimentSegment } from '../types/call';
+import { CallRecord, AzureSpeechConfig, CallSentimentSegment, AudioSegment, TranscriptionResult } from '../types/call';
 import { SchemaDefinition } from '../types/schema';
 import { azureOpenAIService } from './azure-openai';
 import { DEFAULT_CALL_CENTER_LANGUAGES } from '@/lib/speech-languages';
+import { appendEvaluation } from '@/lib/evaluation-history';
+import { getRedactionPolicy, redactTranscript } from '@/lib/pii-redaction';
+import { computeSpeechMetrics } from '@/lib/speech-analytics';
 
 /**
  * Service for managing call transcription using Azure Speech-to-Text
@@ -38,6 +41,44 @@ class TranscriptionService {
     return this.sttCaller !== null && this.config !== null;
   }
 
+  /**
+   * Speech options from the configured languages and diarization settings (options can override)
+   */
+  private getSpeechOptions(options: STTCallOptions): STTCallOptions {
+    // Get selected languages from config
+    // IMPORTANT: Only fall back to defaults if selectedLanguages is undefined/null, NOT if it's an empty array
+    const selectedLanguages = this.config?.selectedLanguages !== undefined
+      ? this.config.selectedLanguages
+      : DEFAULT_CALL_CENTER_LANGUAGES;
+
+    console.log(`🌍 Config languages:`, this.config?.selectedLanguages);
+    console.log(`🌍 Using languages:`, selectedLanguages);
+    console.log(`🎙️ Diarization config:`, {
+      enabled: this.config?.diarizationEnabled,
+      minSpeakers: this.config?.minSpeakers,
+      maxSpeakers: this.config?.maxSpeakers
+    });
+
+    return {
+      ...options,
+      candidateLocales: options.candidateLocales || selectedLanguages,
+      wordLevelTimestampsEnabled: true,
+      diarizationEnabled: this.config?.diarizationEnabled ?? false,
+      minSpeakers: options.minSpeakers ?? this.config?.minSpeakers ?? 1,
+      maxSpeakers: options.maxSpeakers ?? this.config?.maxSpeakers ?? 2,
+    };
+  }
+
+  /**
+   * Transcribe one segment of a live audio stream (no sentiment or evaluation)
+   */
+  async transcribeSegment(segment: AudioSegment, options: STTCallOptions = {}): Promise<TranscriptionResult> {
+    if (!this.sttCaller) {
+      throw new Error('Transcription service not initialized. Please configure Azure Speech settings first.');
+    }
+    return this.sttCaller.transcribeSegment(segment, this.getSpeechOptions({ maxRetries: 2, ...options }));
+  }
+
   /**
    * Transcribe a single call from its audio URL
    */
@@ -71,29 +112,10 @@ class TranscriptionService {
       const size = audioSource.size ?? 0;
       console.log(`📥 Using audio file: ${size} bytes`);
 
-      // Get selected languages from config
-      // IMPORTANT: Only fall back to defaults if selectedLanguages is undefined/null, NOT if it's an empty array
-      const selectedLanguages = this.config?.selectedLanguages !== undefined
-        ? this.config.selectedLanguages
-        : DEFAULT_CALL_CENTER_LANGUAGES;
-
-      console.log(`🌍 Config languages:`, this.config?.selectedLanguages);
-      console.log(`🌍 Using languages:`, selectedLanguages);
-      console.log(`🎙️ Diarization config:`, {
-        enabled: this.config?.diarizationEnabled,
-        minSpeakers: this.config?.minSpeakers,
-        maxSpeakers: this.config?.maxSpeakers
-      });
-
-      const speechOptions: STTCallOptions = {
+      const speechOptions = this.getSpeechOptions({
+        usage: { schemaId: schema?.id ?? call.schemaId, callId: call.id },
         ...options,
-        // Use selected languages from configuration (options can override)
-        candidateLocales: options.candidateLocales || selectedLanguages,
-        wordLevelTimestampsEnabled: true,
-        diarizationEnabled: this.config?.diarizationEnabled ?? false,
-        minSpeakers: options.minSpeakers ?? this.config?.minSpeakers ?? 1,
-        maxSpeakers: options.maxSpeakers ?? this.config?.maxSpeakers ?? 2,
-      };
+      });
       
       console.log(`📋 Final speech options:`, {
         diarizationEnabled: speechOptions.diarizationEnabled,
@@ -118,7 +140,8 @@ class TranscriptionService {
             result.phrases,
             result.locale || 'en-US',
             ['positive', 'neutral', 'negative'],
-            businessContext
+            businessContext,
+            schema?.redactionPolicy
           );
           sentimentSegments = sentiment.segments;
           sentimentSummary = sentiment.summary;
@@ -151,6 +174,7 @@ class TranscriptionService {
         transcriptDuration: result.durationMilliseconds,
         transcriptPhrases: result.phrases,
         transcriptSpeakerCount: result.speakerCount,
+        speechMetrics: computeSpeechMetrics({ transcriptPhrases: result.phrases, transcriptDuration: result.durationMilliseconds }),
         sentimentSegments,
         sentimentSummary,
         overallSentiment,
@@ -158,6 +182,12 @@ class TranscriptionService {
         updatedAt: new Date().toISOString(),
       };
 
+      // Keep a PII-masked variant alongside the raw transcript when the schema asks for redaction
+      const redactionPolicy = getRedactionPolicy(schema);
+      transcribedCall.redactedTranscript = redactionPolicy.enabled
+        ? redactTranscript(transcribedCall, redactionPolicy)
+        : undefined;
+
       // Automatically evaluate the call after transcription
       if (azureOpenAIService.validateConfig().valid && result.transcript && result.transcript.trim().length > 0) {
         try {
@@ -179,8 +209,7 @@ class TranscriptionService {
           console.log(`✅ Auto-evaluation completed for call ${call.id}: ${evaluation.percentage}%`);
 
           return {
-            ...transcribedCall,
-            evaluation,
+            ...appendEvaluation(transcribedCall, evaluation),
             status: 'evaluated',
             updatedAt: new Date().toISOString(),
           };
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { PriceTable, UsageRecord } from '@/types/usage';
+import {
+  BUDGET_BLOCKED_MARKER,
+  DEFAULT_PRICE_TABLE,
+  assertWithinBudget,
+  calculateUsageCost,
+  checkBudget,
+  estimateCallCost,
+  getModelPrice,
+  getMonthlySpend,
+  getUsageMonth,
+  loadPriceTable,
+  loadUsageRecords,
+  recordUsage,
+  resolveUsageSchemas,
+  savePriceTable,
+  summarizeUsage,
+} from './usage-tracker';
+
+const table: PriceTable = {
+  currency: 'USD',
+  models: {
+    'gpt-4o': { inputPerMillion: 2, cachedInputPerMillion: 1, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.2, outputPerMillion: 1 },
+  },
+  defaultModel: { inputPerMillion: 5, outputPerMillion: 20 },
+  sttPerAudioHour: 1.2,
+  ttsPerMillionCharacters: 16,
+};
+
+function record(patch: Partial<UsageRecord>): UsageRecord {
+  return { id: 'u', timestamp: '2026-03-01T10:00:00Z', operation: 'evaluation', latencyMs: 1000, ...patch };
+}
+
+describe('pricing', () => {
+  it('matches deployments by exact name, then the longest prefix', () => {
+    expect(getModelPrice(table, 'GPT-4o')).toBe(table.models['gpt-4o']);
+    expect(getModelPrice(table, 'gpt-4o-mini-2024-07-18')).toBe(table.models['gpt-4o-mini']);
+    expect(getModelPrice(table, 'llama3.1')).toBe(table.defaultModel);
+    expect(getModelPrice(table)).toBe(table.defaultModel);
+  });
+
+  it('prices tokens, cached input, audio hours and characters', () => {
+    // 1M uncached at 2 + 1M cached at 1 + 0.5M output at 10
+    expect(calculateUsageCost(record({
+      model: 'gpt-4o', inputTokens: 2_000_000, cachedInputTokens: 1_000_000, outputTokens: 500_000, reasoningTokens: 400_000,
+    }), table)).toBeCloseTo(8);
+    // No cached price - cached tokens billed as input
+    expect(calculateUsageCost(record({ model: 'gpt-4o-mini', inputTokens: 1_000_000, cachedInputTokens: 1_000_000 }), table)).toBeCloseTo(0.2);
+    expect(calculateUsageCost(record({ operation: 'stt', audioSeconds: 1800 }), table)).toBeCloseTo(0.6);
+    expect(calculateUsageCost(record({ operation: 'tts', characters: 250_000, audioSeconds: 900 }), table)).toBeCloseTo(4);
+  });
+
+  it('keeps an edited price table and falls back to defaults', () => {
+    expect(loadPriceTable()).toEqual(DEFAULT_PRICE_TABLE);
+    savePriceTable(table);
+    expect(loadPriceTable()).toEqual(table);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('groups by schema after resolving schemas from calls', () => {
+    const records = resolveUsageSchemas([
+      record({ schemaId: 's1', model: 'gpt-4o', inputTokens: 1_000_000, latencyMs: 2000 }),
+      record({ operation: 'sentiment-timeline', callId: 'c1', model: 'gpt-4o', outputTokens: 100_000, latencyMs: 4000 }),
+      record({ operation: 'stt', callId: 'c2', audioSeconds: 3600 }),
+      record({ operation: 'schema-discovery', model: 'gpt-4o', inputTokens: 500_000 }),
+    ], [{ id: 'c1', schemaId: 's1' }, { id: 'c2', schemaId: 's2' }]);
+
+    const bySchema = summarizeUsage(records, 'schemaId', table);
+    expect(bySchema.map(s => s.key)).toEqual(['s1', 's2', 'unknown']);
+    expect(bySchema[0]).toMatchObject({ requests: 2, inputTokens: 1_000_000, outputTokens: 100_000, averageLatencyMs: 3000 });
+    expect(bySchema[0].cost).toBeCloseTo(3);
+    expect(bySchema[1]).toMatchObject({ audioSeconds: 3600 });
+
+    expect(summarizeUsage(records, 'operation', table).map(s => s.key))
+      .toEqual(['evaluation', 'stt', 'sentiment-timeline', 'schema-discovery']);
+  });
+});
+
+describe('budgets', () => {
+  const schema = { id: 's1', name: 'Collections' };
+
+  function seedUsage() {
+    // Two evaluated calls at 2 USD each and a transcription that only knows its call
+    recordUsage({ operation: 'evaluation', schemaId: 's1', callId: 'c1' }, { model: 'gpt-4o', tokens: { inputTokens: 1_000_000, outputTokens: 0 }, latencyMs: 900 });
+    recordUsage({ operation: 'evaluation', schemaId: 's1', callId: 'c2' }, { model: 'gpt-4o', tokens: { inputTokens: 1_000_000, outputTokens: 0 }, latencyMs: 1100 });
+    recordUsage({ operation: 'stt', callId: 'c3' }, { audioSeconds: 3600, latencyMs: 5000 });
+  }
+
+  it('records usage per month and attributes spend to the schema', () => {
+    seedUsage();
+    const calls = [{ id: 'c3', schemaId: 's1' }];
+
+    expect(loadUsageRecords()).toHaveLength(3);
+    expect(getMonthlySpend('s1', [], table)).toBeCloseTo(4);
+    expect(getMonthlySpend('s1', calls, table)).toBeCloseTo(5.2);
+    expect(estimateCallCost('s1', ['evaluation', 'tts'], [], table)).toBeCloseTo(2);
+  });
+
+  it('warns near the limit and warns or blocks past it', () => {
+    seedUsage();
+
+    expect(checkBudget(schema, 10, [], table)).toMatchObject({ status: 'ok', spent: expect.closeTo(4) });
+    expect(checkBudget({ ...schema, budget: { monthlyLimit: 20, warnAtPercent: 80, enforcement: 'block' } }, 10, [], table))
+      .toMatchObject({ status: 'ok', limit: 20 });
+    expect(checkBudget({ ...schema, budget: { monthlyLimit: 20, warnAtPercent: 50, enforcement: 'block' } }, 10, [], table).status)
+      .toBe('warn');
+
+    const over = { ...schema, budget: { monthlyLimit: 10, warnAtPercent: 80, enforcement: 'warn' as const } };
+    expect(checkBudget(over, 7, [], table)).toMatchObject({ status: 'warn', estimate: 7 });
+
+    const blocked = checkBudget({ ...over, budget: { ...over.budget, enforcement: 'block' } }, 7, [], table);
+    expect(blocked.status).toBe('block');
+    expect(blocked.message).toContain('Raise the budget');
+  });
+
+  it('keeps every record of the month so spend never drops', () => {
+    const month = Array.from({ length: 5000 }, (_, i) => record({ id: `u${i}`, schemaId: 's1', model: 'gpt-4o', inputTokens: 1000 }));
+    localStorage.setItem(`ai-usage-${getUsageMonth()}`, JSON.stringify(month));
+    const before = getMonthlySpend('s1', [], table);
+
+    recordUsage({ operation: 'evaluation', schemaId: 's1' }, { model: 'gpt-4o', tokens: { inputTokens: 1000, outputTokens: 0 }, latencyMs: 1 });
+
+    expect(loadUsageRecords()).toHaveLength(5001);
+    expect(getMonthlySpend('s1', [], table)).toBeGreaterThan(before);
+  });
+
+  it('refuses requests of a schema past a blocking budget, resolving the schema from the call', () => {
+    seedUsage();
+    savePriceTable(table);
+    localStorage.setItem('calls', JSON.stringify([{ id: 'c3', schemaId: 's1' }]));
+    const saveSchema = (enforcement: 'warn' | 'block') => localStorage.setItem('call-schemas', JSON.stringify([
+      { ...schema, budget: { monthlyLimit: 5, warnAtPercent: 80, enforcement } },
+    ]));
+
+    saveSchema('warn');
+    expect(() => assertWithinBudget({ schemaId: 's1' })).not.toThrow();
+
+    saveSchema('block');
+    expect(() => assertWithinBudget({ callId: 'c3' })).toThrow(BUDGET_BLOCKED_MARKER);
+    expect(() => assertWithinBudget({ schemaId: 'other' })).not.toThrow();
+    expect(() => assertWithinBudget({})).not.toThrow();
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * Usage Tracker Service
+ * Records token counts, audio seconds and latency for every AI request and prices
+ * them with a configurable price table. Records are stored per calendar month so
+ * per-schema monthly budgets can be checked before bulk operations.
+ */
+
+import type { CallRecord } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import type {
+  BudgetCheck,
+  ModelPrice,
+  PriceTable,
+  TokenUsage,
+  UsageContext,
+  UsageCostSummary,
+  UsageOperation,
+  UsageRecord,
+} from '../types/usage';
+import { getStorageAdapter } from '../lib/storage-adapter';
+import { getSchemaById } from './schema-manager';
+
+const USAGE_KEY_PREFIX = 'ai-usage-';
+const PRICE_TABLE_KEY = 'ai-price-table';
+const CALLS_KEY = 'calls';
+
+/** Marks errors of requests a blocking budget refused - retrying does not help */
+export const BUDGET_BLOCKED_MARKER = '[BUDGET_BLOCKED]';
+
+/** Share of the limit at which budgets warn by default */
+export const DEFAULT_BUDGET_WARN_PERCENT = 80;
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+  'evaluation': 'Evaluation',
+  'sentiment-timeline': 'Sentiment timeline',
+  'overall-sentiment': 'Overall sentiment',
+  'insight-regeneration': 'Insight regeneration',
+  'schema-discovery': 'Schema discovery',
+  'synthetic-metadata': 'Synthetic metadata',
+  'synthetic-transcript': 'Synthetic transcript',
+  'gender-detection': 'Gender detection',
+  'rules-generation': 'Rules generation',
+  'coaching': 'Coaching',
+  'live-assist': 'Live assist',
+  'tts': 'Text to speech',
+  'stt': 'Speech to text',
+  'other': 'Other',
+};
+
+/**
+ * List prices (USD) at the time of writing - edit them in the cost dashboard
+ * to match your agreement and region
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'USD',
+  models: {
+    'gpt-4o': { inputPerMillion: 2.5, cachedInputPerMillion: 1.25, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, cachedInputPerMillion: 0.075, outputPerMillion: 0.6 },
+    'gpt-4.1': { inputPerMillion: 2, cachedInputPerMillion: 0.5, outputPerMillion: 8 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, cachedInputPerMillion: 0.1, outputPerMillion: 1.6 },
+    'gpt-4.1-nano': { inputPerMillion: 0.1, cachedInputPerMillion: 0.025, outputPerMillion: 0.4 },
+    'gpt-5': { inputPerMillion: 1.25, cachedInputPerMillion: 0.125, outputPerMillion: 10 },
+    'gpt-5-mini': { inputPerMillion: 0.25, cachedInputPerMillion: 0.025, outputPerMillion: 2 },
+    'o4-mini': { inputPerMillion: 1.1, cachedInputPerMillion: 0.275, outputPerMillion: 4.4 },
+  },
+  defaultModel: { inputPerMillion: 2, cachedInputPerMillion: 0.5, outputPerMillion: 8 },
+  sttPerAudioHour: 1,
+  ttsPerMillionCharacters: 15,
+};
+
+/** Measurements of one request, next to its context */
+export interface UsageMeasurement {
+  model?: string;
+  tokens?: TokenUsage;
+  audioSeconds?: number;
+  characters?: number;
+  latencyMs: number;
+}
+
+type CallRef = Pick<CallRecord, 'id' | 'schemaId'>;
+
+/**
+ * Calendar month key (YYYY-MM, local time) a usage record belongs to
+ */
+export function getUsageMonth(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Usage records of a month, oldest first
+ */
+export function loadUsageRecords(month: string = getUsageMonth()): UsageRecord[] {
+  try {
+    const json = getStorageAdapter().getItem(`${USAGE_KEY_PREFIX}${month}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error(`Error loading usage for ${month}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Record one AI request. Accounting must never break the feature that made the
+ * request, so storage failures are logged and swallowed.
+ */
+export function recordUsage(context: UsageContext | undefined, measurement: UsageMeasurement): UsageRecord | null {
+  const now = new Date();
+  const record: UsageRecord = {
+    id: `usage_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now.toISOString(),
+    operation: context?.operation ?? 'other',
+    schemaId: context?.schemaId,
+    callId: context?.callId,
+    model: measurement.model,
+    inputTokens: measurement.tokens?.inputTokens,
+    outputTokens: measurement.tokens?.outputTokens,
+    reasoningTokens: measurement.tokens?.reasoningTokens,
+    cachedInputTokens: measurement.tokens?.cachedInputTokens,
+    audioSeconds: measurement.audioSeconds,
+    characters: measurement.characters,
+    latencyMs: Math.round(measurement.latencyMs),
+  };
+
+  try {
+    const month = getUsageMonth(now);
+    // The whole month is kept: budgets add it up, so dropping records would hide spend
+    const records = [...loadUsageRecords(month), record];
+    getStorageAdapter().setItem(`${USAGE_KEY_PREFIX}${month}`, JSON.stringify(records));
+  } catch (error) {
+    console.error('Failed to record AI usage:', error);
+    return null;
+  }
+
+  return record;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+export function loadPriceTable(): PriceTable {
+  try {
+    const json = getStorageAdapter().getItem(PRICE_TABLE_KEY);
+    return json ? { ...DEFAULT_PRICE_TABLE, ...JSON.parse(json) } : DEFAULT_PRICE_TABLE;
+  } catch (error) {
+    console.error('Error loading price table:', error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+export function savePriceTable(table: PriceTable): void {
+  getStorageAdapter().setItem(PRICE_TABLE_KEY, JSON.stringify(table));
+}
+
+/**
+ * Price of a deployment: exact name first, then the longest listed prefix
+ * (so "gpt-4o-mini-2024-07-18" is priced as gpt-4o-mini, not gpt-4o)
+ */
+export function getModelPrice(table: PriceTable, model?: string): ModelPrice {
+  if (!model) return table.defaultModel;
+  const name = model.toLowerCase();
+  const entries = Object.entries(table.models).map(([key, price]) => [key.toLowerCase(), price] as const);
+
+  const exact = entries.find(([key]) => key === name);
+  if (exact) return exact[1];
+
+  const prefixed = entries
+    .filter(([key]) => name.startsWith(key))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  return prefixed ? prefixed[1] : table.defaultModel;
+}
+
+/**
+ * Cost of one record. Cached input tokens are part of the input count and billed
+ * at the cached rate; reasoning tokens are part of the output count.
+ */
+export function calculateUsageCost(record: UsageRecord, table: PriceTable): number {
+  if (record.operation === 'stt') {
+    return ((record.audioSeconds ?? 0) / 3600) * table.sttPerAudioHour;
+  }
+  if (record.operation === 'tts') {
+    return ((record.characters ?? 0) / 1_000_000) * table.ttsPerMillionCharacters;
+  }
+
+  const price = getModelPrice(table, record.model);
+  const cached = Math.min(record.cachedInputTokens ?? 0, record.inputTokens ?? 0);
+  const uncached = (record.inputTokens ?? 0) - cached;
+  return (
+    uncached * price.inputPerMillion +
+    cached * (price.cachedInputPerMillion ?? price.inputPerMillion) +
+    (record.outputTokens ?? 0) * price.outputPerMillion
+  ) / 1_000_000;
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Fill in the schema of records that only know their call (e.g. sentiment timeline)
+ */
+export function resolveUsageSchemas(records: UsageRecord[], calls: CallRef[] = []): UsageRecord[] {
+  const schemaByCall = new Map(calls.filter(c => c.schemaId).map(c => [c.id, c.schemaId!]));
+  return records.map(record =>
+    record.schemaId || !record.callId || !schemaByCall.has(record.callId)
+      ? record
+      : { ...record, schemaId: schemaByCall.get(record.callId) }
+  );
+}
+
+/**
+ * Totals per schema, operation or model, most expensive first.
+ * Records without the grouping field are grouped under "unknown".
+ */
+export function summarizeUsage(
+  records: UsageRecord[],
+  groupBy: 'schemaId' | 'operation' | 'model',
+  table: PriceTable
+): UsageCostSummary[] {
+  const groups = new Map<string, UsageCostSummary & { latencyTotal: number }>();
+
+  for (const record of records) {
+    const key = record[groupBy] || 'unknown';
+    const group = groups.get(key) ?? {
+      key,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      audioSeconds: 0,
+      characters: 0,
+      cost: 0,
+      averageLatencyMs: 0,
+      latencyTotal: 0,
+    };
+    group.requests++;
+    group.inputTokens += record.inputTokens ?? 0;
+    group.outputTokens += record.outputTokens ?? 0;
+    group.reasoningTokens += record.reasoningTokens ?? 0;
+    group.audioSeconds += record.audioSeconds ?? 0;
+    group.characters += record.characters ?? 0;
+    group.cost += calculateUsageCost(record, table);
+    group.latencyTotal += record.latencyMs;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map(({ latencyTotal, ...group }) => ({ ...group, averageLatencyMs: Math.round(latencyTotal / group.requests) }))
+    .sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Month-to-date spend attributed to a schema
+ */
+export function getMonthlySpend(
+  schemaId: string,
+  calls: CallRef[] = [],
+  table: PriceTable = loadPriceTable(),
+  month: string = getUsageMonth()
+): number {
+  return resolveUsageSchemas(loadUsageRecords(month), calls)
+    .filter(r => r.schemaId === schemaId)
+    .reduce((sum, r) => sum + calculateUsageCost(r, table), 0);
+}
+
+/**
+ * Expected cost of running the given operations on one call of a schema, from the
+ * average per-call cost of each operation this month and last month. Operations
+ * with no history add nothing.
+ */
+export function estimateCallCost(
+  schemaId: string,
+  operations: UsageOperation[],
+  calls: CallRef[] = [],
+  table: PriceTable = loadPriceTable()
+): number {
+  const now = new Date();
+  const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const records = resolveUsageSchemas(
+    [...loadUsageRecords(getUsageMonth(lastMonth)), ...loadUsageRecords(getUsageMonth(now))],
+    calls
+  ).filter(r => r.schemaId === schemaId && r.callId);
+
+  return operations.reduce((total, operation) => {
+    const matching = records.filter(r => r.operation === operation);
+    const callCount = new Set(matching.map(r => r.callId)).size;
+    if (callCount === 0) return total;
+    return total + matching.reduce((sum, r) => sum + calculateUsageCost(r, table), 0) / callCount;
+  }, 0);
+}
+
+/**
+ * Check a pending bulk operation against the schema's monthly budget
+ */
+export function checkBudget(
+  schema: Pick<SchemaDefinition, 'id' | 'name' | 'budget'>,
+  estimate: number,
+  calls: CallRef[] = [],
+  table: PriceTable = loadPriceTable()
+): BudgetCheck {
+  const spent = getMonthlySpend(schema.id, calls, table);
+  const budget = schema.budget;
+  if (!budget || budget.monthlyLimit <= 0) {
+    return { status: 'ok', spent, estimate };
+  }
+
+  const limit = budget.monthlyLimit;
+  const projected = spent + estimate;
+  const format = (value: number) => formatCost(value, table.currency);
+
+  if (projected > limit) {
+    const status = budget.enforcement === 'block' ? 'block' : 'warn';
+    return {
+      status,
+      spent,
+      estimate,
+      limit,
+      message: `${schema.name} has spent ${format(spent)} of its ${format(limit)} monthly AI budget` +
+        (estimate > 0 ? `; this operation is estimated at ${format(estimate)}` : '') +
+        (status === 'block' ? '. Raise the budget to continue.' : '.'),
+    };
+  }
+
+  const warnAt = (budget.warnAtPercent ?? DEFAULT_BUDGET_WARN_PERCENT) / 100;
+  if (projected >= limit * warnAt) {
+    return {
+      status: 'warn',
+      spent,
+      estimate,
+      limit,
+      message: `${schema.name} will be at ${Math.round((projected / limit) * 100)}% of its ${format(limit)} monthly AI budget.`,
+    };
+  }
+
+  return { status: 'ok', spent, estimate, limit };
+}
+
+/**
+ * Refuse an AI request when the schema it is attributed to has exhausted a blocking
+ * monthly budget. Every AI caller checks this before sending, so background work
+ * (ingestion, re-evaluation, rules generation) stops at the limit like bulk actions do.
+ * Throws an error carrying BUDGET_BLOCKED_MARKER.
+ */
+export function assertWithinBudget(context: Pick<UsageContext, 'schemaId' | 'callId'> | undefined): void {
+  if (!context?.schemaId && !context?.callId) return;
+
+  const calls = loadCallRefs();
+  const schemaId = context.schemaId ?? calls.find(c => c.id === context.callId)?.schemaId;
+  const schema = schemaId ? getSchemaById(schemaId) : null;
+  if (!schema?.budget || schema.budget.enforcement !== 'block') return;
+
+  const check = checkBudget(schema, 0, calls);
+  if (check.status === 'block') {
+    throw new Error(`${BUDGET_BLOCKED_MARKER} ${check.message}`);
+  }
+}
+
+/**
+ * Call ids and schemas, to attribute records that only know their call
+ */
+function loadCallRefs(): CallRef[] {
+  try {
+    const json = getStorageAdapter().getItem(CALLS_KEY);
+    return json ? (JSON.parse(json) as CallRef[]).map(({ id, schemaId }) => ({ id, schemaId })) : [];
+  } catch (error) {
+    console.error('Error loading calls for the budget check:', error);
+    return [];
+  }
+}
+
+export function formatCost(value: number, currency = 'USD'): string {
+  const digits = value > 0 && value < 1 ? 4 : 2;
+  return `${value.toFixed(digits)} ${currency}`;
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EVALUATION_CRITERIA } from '@/lib/evaluation-criteria';
+import { CallRecord } from '@/types/call';
+import { WebhookConfig } from '@/types/webhook';
+import { loadDebtCollectionCalls, withEvaluation } from '@/test/fixtures';
+import {
+  buildWebhookBody,
+  createTestDelivery,
+  detectCallEvents,
+  getRetryDelayMs,
+  isPrivateNetworkAddress,
+  loadWebhooks,
+  planWebhookDeliveries,
+  saveWebhook,
+  webhookWantsEvent,
+} from './webhooks';
+
+const criteria = EVALUATION_CRITERIA.slice(0, 2);
+const now = new Date('2026-05-04T10:00:00.000Z');
+
+function setup() {
+  const { schema, calls } = loadDebtCollectionCalls();
+  const call: CallRecord = { ...calls[0], schemaId: schema.id, status: 'transcribed', updatedAt: 't1' };
+  return { schema, call };
+}
+
+function evaluated(call: CallRecord, verdicts: boolean[], critical = false): CallRecord {
+  const next = withEvaluation(call, criteria, verdicts);
+  return {
+    ...next,
+    status: 'evaluated',
+    updatedAt: 't2',
+    evaluation: {
+      ...next.evaluation!,
+      results: next.evaluation!.results.map((r, i) => ({ ...r, critical: critical && i === 0 })),
+    },
+  };
+}
+
+function webhook(overrides: Partial<WebhookConfig> = {}): WebhookConfig {
+  return {
+    id: 'w1',
+    schemaId: 'debt-collection',
+    name: 'CRM',
+    url: 'https://crm.example.com/hook',
+    secret: 'secret',
+    enabled: true,
+    events: ['call.evaluated', 'criterion.critical_failed', 'sentiment.negative', 'insight.matched'],
+    insightTriggers: [],
+    createdAt: now.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('detectCallEvents', () => {
+  it('reports status transitions with a stable event ID', () => {
+    const { call } = setup();
+    const events = detectCallEvents(call, evaluated(call, [true, true]), { now });
+
+    expect(events.map(e => e.type)).toEqual(['call.evaluated']);
+    expect(events[0].id).toBe(`call.evaluated:${call.id}:t2`);
+    expect(events[0].data).toMatchObject({ previousStatus: 'transcribed', call: { id: call.id, status: 'evaluated' } });
+    expect(detectCallEvents(call, { ...call }, { now })).toEqual([]);
+  });
+
+  it('only reports uploads for calls it has not seen before', () => {
+    const { call } = setup();
+    expect(detectCallEvents(undefined, { ...call, status: 'uploaded' }, { now }).map(e => e.type)).toEqual(['call.uploaded']);
+    expect(detectCallEvents(undefined, evaluated(call, [false, false], true), { now })).toEqual([]);
+  });
+
+  it('reports failed critical criteria once per evaluation', () => {
+    const { call } = setup();
+    const next = evaluated(call, [false, true], true);
+    const events = detectCallEvents(call, next, { now });
+
+    expect(events.map(e => e.type)).toEqual(['call.evaluated', 'criterion.critical_failed']);
+    expect(events[1].data.criteria).toEqual([{ key: criteria[0].key, name: criteria[0].name, evidence: '' }]);
+    expect(detectCallEvents(next, { ...next, updatedAt: 't3' }, { now })).toEqual([]);
+  });
+
+  it('reports a re-evaluation of an evaluated call once per evaluation', () => {
+    const { call } = setup();
+    const first = evaluated(call, [true, true]);
+    const second = { ...first, updatedAt: 't3', evaluation: { ...first.evaluation!, id: 'eval_2' } };
+    const events = detectCallEvents(first, second, { now });
+
+    expect(events.map(e => e.type)).toEqual(['call.evaluated']);
+    expect(events[0].id).toBe(`call.evaluated:${call.id}:eval_2`);
+  });
+
+  it('masks critical evidence when the schema redacts exports', () => {
+    const { schema, call } = setup();
+    const redacting = {
+      ...schema,
+      redactionPolicy: { enabled: true, evaluation: 'raw' as const, export: 'redacted' as const, detectors: ['email' as const] },
+    };
+    const next = evaluated(call, [false, true], true);
+    next.evaluation!.results[0].evidence = 'Mail me at jane.doe@example.com';
+    const [, critical] = detectCallEvents(call, next, { schema: redacting, now });
+
+    expect(critical.data.criteria).toEqual([{ key: criteria[0].key, name: criteria[0].name, evidence: 'Mail me at [EMAIL]' }]);
+  });
+
+  it('reports negative sentiment and matching insight values', () => {
+    const { call } = setup();
+    const next = evaluated({ ...call, overallSentiment: 'neutral' }, [true, true]);
+    next.overallSentiment = 'negative';
+    next.evaluation!.schemaInsights = { 'risk-assessment': { escalationRecommended: true, riskTier: 'High' } };
+
+    const events = detectCallEvents({ ...call, overallSentiment: 'neutral' }, next, {
+      now,
+      insightTriggers: [
+        { categoryId: 'risk-assessment', fieldId: 'escalationRecommended', value: true },
+        { categoryId: 'risk-assessment', fieldId: 'riskTier', value: 'critical' },
+      ],
+    });
+
+    expect(events.map(e => e.type)).toEqual(['call.evaluated', 'insight.matched', 'sentiment.negative']);
+    expect(events[1].data).toMatchObject({ fieldId: 'escalationRecommended', value: true });
+  });
+
+  it('masks metadata when the schema redacts exports', () => {
+    const { schema, call } = setup();
+    const sensitiveId = schema.fields[0].id;
+    const redacting = {
+      ...schema,
+      fields: schema.fields.map((f, i) => (i === 0 ? { ...f, sensitive: true } : f)),
+      redactionPolicy: { enabled: true, evaluation: 'raw' as const, export: 'redacted' as const, detectors: [] },
+    };
+    const next = { ...call, metadata: { ...call.metadata, [sensitiveId]: 'secret value' }, status: 'failed' as const };
+    const [event] = detectCallEvents(call, next, { schema: redacting, now });
+
+    expect((event.data.call as { metadata: Record<string, unknown> }).metadata[sensitiveId]).toBe('[REDACTED]');
+  });
+});
+
+describe('planWebhookDeliveries', () => {
+  it('creates one delivery per subscribed webhook and event', () => {
+    const { schema, call } = setup();
+    const next = evaluated(call, [false, true], true);
+    const deliveries = planWebhookDeliveries({
+      previousCalls: [call],
+      nextCalls: [next],
+      schemas: [schema],
+      webhooks: {
+        [schema.id]: [
+          webhook({ schemaId: schema.id }),
+          webhook({ id: 'w2', schemaId: schema.id, events: ['call.failed'] }),
+          webhook({ id: 'w3', schemaId: schema.id, enabled: false }),
+        ],
+      },
+      now,
+    });
+
+    expect(deliveries.map(d => d.id)).toEqual([
+      `w1:call.evaluated:${call.id}:t2`,
+      `w1:criterion.critical_failed:${call.id}:${next.evaluation!.id}`,
+    ]);
+    expect(deliveries[0]).toMatchObject({ status: 'pending', attempts: 0, nextAttemptAt: now.toISOString() });
+  });
+
+  it('sends insight events only to webhooks with a matching trigger', () => {
+    const hook = webhook({ insightTriggers: [{ categoryId: 'risk-assessment', fieldId: 'escalationRecommended', value: true }] });
+    const event = {
+      id: 'e', type: 'insight.matched' as const, schemaId: 's', callId: 'c', occurredAt: '',
+      data: { categoryId: 'risk-assessment', fieldId: 'riskTier', value: 'High' },
+    };
+
+    expect(webhookWantsEvent(hook, event)).toBe(false);
+    expect(webhookWantsEvent(hook, { ...event, data: { categoryId: 'risk-assessment', fieldId: 'escalationRecommended', value: true } })).toBe(true);
+  });
+});
+
+describe('delivery helpers', () => {
+  it('backs off exponentially and gives up after the last attempt', () => {
+    expect([1, 2, 3, 4, 5].map(getRetryDelayMs)).toEqual([30000, 60000, 120000, 240000, null]);
+  });
+
+  it('builds the test event body', () => {
+    const delivery = createTestDelivery(webhook(), now);
+    expect(delivery.event.type).toBe('webhook.test');
+    expect(JSON.parse(buildWebhookBody(delivery.event))).toMatchObject({ type: 'webhook.test', schemaId: 'debt-collection' });
+  });
+});
+
+describe('webhook configuration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('validates and stores webhooks per schema', () => {
+    const { id: _id, createdAt: _createdAt, ...draft } = webhook();
+    expect(() => saveWebhook({ ...draft, url: 'ftp://example.com' })).toThrow('http or https');
+    expect(() => saveWebhook({ ...draft, events: [] })).toThrow('at least one event');
+    expect(() => saveWebhook({ ...draft, url: 'http://169.254.169.254/latest' })).toThrow('private network');
+    expect(() => saveWebhook({ ...draft, url: 'http://localhost:8080/hook' })).toThrow('private network');
+
+    const saved = saveWebhook(draft);
+    expect(saved.id).toMatch(/^webhook_/);
+    saveWebhook({ ...saved, name: 'Renamed' });
+    expect(loadWebhooks('debt-collection').map(w => w.name)).toEqual(['Renamed']);
+  });
+
+  it('requires a secret for new webhooks and keeps the stored one when left blank', () => {
+    const { id: _id, createdAt: _createdAt, ...draft } = webhook();
+    expect(() => saveWebhook({ ...draft, secret: ' ' })).toThrow('secret is required');
+
+    const saved = saveWebhook(draft);
+    expect(saveWebhook({ ...saved, secret: '' }).secret).toBe('secret');
+  });
+});
+
+describe('isPrivateNetworkAddress', () => {
+  it('blocks loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.100.100.200', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd00:ec2::254', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::a9fe:a9fe']) {
+      expect(isPrivateNetworkAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses and host names', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8', 'crm.example.com']) {
+      expect(isPrivateNetworkAddress(address), address).toBe(false);
+    }
+  });
+});
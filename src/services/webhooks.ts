@@ -0,0 +1,475 @@
+/**
+ * Outbound Webhooks Service
+ * Per-schema webhook configuration, detection of call lifecycle events between two
+ * versions of the calls list, and the delivery plan. The server (server/webhooks.js)
+ * runs the detection headlessly whenever calls are saved, then signs, sends and
+ * retries the deliveries. Webhook URLs may not point into private networks.
+ */
+
+import type { CallRecord } from '../types/call';
+import type { SchemaDefinition } from '../types/schema';
+import type {
+  InsightTrigger,
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+} from '../types/webhook';
+import { getStorageAdapter } from '../lib/storage-adapter';
+import { getRedactionPolicy, getRedactionVariant, redactMetadata, redactText } from '../lib/pii-redaction';
+
+const WEBHOOKS_KEY_PREFIX = 'webhooks-';
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'call.uploaded': 'Call uploaded',
+  'call.transcribed': 'Call transcribed',
+  'call.evaluated': 'Call evaluated',
+  'call.failed': 'Call failed',
+  'criterion.critical_failed': 'Critical criterion failed',
+  'sentiment.negative': 'Negative overall sentiment',
+  'insight.matched': 'Insight value matched',
+  'webhook.test': 'Test event',
+};
+
+/** Events a webhook can subscribe to (the test event is always sent on request) */
+export const SUBSCRIBABLE_WEBHOOK_EVENTS: WebhookEventType[] = [
+  'call.uploaded',
+  'call.transcribed',
+  'call.evaluated',
+  'call.failed',
+  'criterion.critical_failed',
+  'sentiment.negative',
+  'insight.matched',
+];
+
+export const DEFAULT_WEBHOOK_EVENTS: WebhookEventType[] = ['call.evaluated', 'call.failed', 'criterion.critical_failed'];
+
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+const WEBHOOK_RETRY_BASE_MS = 30 * 1000;
+
+const STATUS_EVENTS: Partial<Record<CallRecord['status'], WebhookEventType>> = {
+  uploaded: 'call.uploaded',
+  transcribed: 'call.transcribed',
+  evaluated: 'call.evaluated',
+  failed: 'call.failed',
+};
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(p => /^\d{1,3}$/.test(p))) return null;
+  const octets = parts.map(Number);
+  return octets.every(o => o <= 255) ? octets : null;
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null when it is not one
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');   // Zone index
+  if (!text.includes(':')) return null;
+
+  // Trailing dotted IPv4 (e.g. ::ffff:127.0.0.1) becomes two groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (!v4) return null;
+    text = `${dotted[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map(g => parseInt(g, 16));
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0                              // "This" network
+    || a === 10                               // Private
+    || a === 127                              // Loopback
+    || (a === 100 && b >= 64 && b <= 127)     // Carrier-grade NAT (incl. 100.100.100.200 metadata)
+    || (a === 169 && b === 254)               // Link-local (incl. 169.254.169.254 metadata)
+    || (a === 172 && b >= 16 && b <= 31)      // Private
+    || (a === 192 && b === 168)               // Private
+    || (a === 192 && b === 0)                 // IETF protocol assignments
+    || (a === 198 && (b === 18 || b === 19))  // Benchmarking
+    || a >= 224;                              // Multicast and reserved
+}
+
+/**
+ * True for IP addresses a webhook may not be sent to: loopback, private, link-local
+ * (cloud metadata services), carrier-grade NAT, multicast and reserved ranges,
+ * including IPv4 addresses embedded in IPv6
+ */
+export function isPrivateNetworkAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+
+  const groups = parseIPv6(address);
+  if (!groups) return false;
+  const embedded = [groups[6] >> 8, groups[6] & 0xff];
+  const prefix = groups.slice(0, 6);
+  if (prefix.every(g => g === 0) && groups[6] === 0) return true;                        // :: and ::1
+  if (prefix.slice(0, 5).every(g => g === 0) && groups[5] === 0xffff) return isPrivateIPv4(embedded);  // IPv4-mapped
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(g => g === 0)) {
+    return isPrivateIPv4(embedded);                                                      // NAT64
+  }
+  return (groups[0] & 0xfe00) === 0xfc00   // Unique local (incl. fd00:ec2::254 metadata)
+    || (groups[0] & 0xffc0) === 0xfe80     // Link-local
+    || (groups[0] & 0xffc0) === 0xfec0     // Site-local
+    || (groups[0] & 0xff00) === 0xff00;    // Multicast
+}
+
+/**
+ * True when a URL host names this machine or a private network address.
+ * Host names are resolved and checked again by the server before each delivery.
+ */
+export function isBlockedWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateNetworkAddress(host);
+}
+
+export function loadWebhooks(schemaId: string): WebhookConfig[] {
+  try {
+    const json = getStorageAdapter().getItem(`${WEBHOOKS_KEY_PREFIX}${schemaId}`);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error(`Error loading webhooks for ${schemaId}:`, error);
+    return [];
+  }
+}
+
+function saveWebhooks(schemaId: string, webhooks: WebhookConfig[]): void {
+  getStorageAdapter().setItem(`${WEBHOOKS_KEY_PREFIX}${schemaId}`, JSON.stringify(webhooks));
+}
+
+/**
+ * Random signing secret (hex)
+ */
+export function generateWebhookSecret(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create or update a webhook. New webhooks (no ID yet) get one.
+ */
+export function saveWebhook(webhook: Omit<WebhookConfig, 'id' | 'createdAt'> & Partial<Pick<WebhookConfig, 'id' | 'createdAt'>>): WebhookConfig {
+  if (!webhook.name.trim()) {
+    throw new Error('Webhook name is required');
+  }
+  let url: URL;
+  try {
+    url = new URL(webhook.url.trim());
+  } catch {
+    throw new Error(`Invalid webhook URL: ${webhook.url}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+  if (isBlockedWebhookHost(url.hostname)) {
+    throw new Error('Webhook URL must not point to this machine or a private network');
+  }
+  if (webhook.events.length === 0) {
+    throw new Error('Select at least one event');
+  }
+
+  const webhooks = loadWebhooks(webhook.schemaId);
+  const now = new Date().toISOString();
+  const existing = webhook.id ? webhooks.find(w => w.id === webhook.id) : undefined;
+  // The server never returns secrets: a blank secret on an existing webhook keeps the stored one
+  if (!webhook.secret.trim() && !existing) {
+    throw new Error('Webhook signing secret is required');
+  }
+  const saved: WebhookConfig = {
+    ...webhook,
+    id: existing?.id ?? `webhook_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: webhook.name.trim(),
+    url: url.toString(),
+    secret: webhook.secret.trim() || existing?.secret || '',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: existing ? now : undefined,
+  };
+
+  saveWebhooks(
+    webhook.schemaId,
+    existing ? webhooks.map(w => (w.id === saved.id ? saved : w)) : [...webhooks, saved]
+  );
+  return saved;
+}
+
+export function deleteWebhook(schemaId: string, webhookId: string): void {
+  saveWebhooks(schemaId, loadWebhooks(schemaId).filter(w => w.id !== webhookId));
+}
+
+// ============================================================================
+// EVENT DETECTION
+// ============================================================================
+
+/**
+ * Call fields sent with every event. Metadata is masked when the schema's
+ * redaction policy masks exports.
+ */
+function summarizeCall(call: CallRecord, schema?: SchemaDefinition): Record<string, unknown> {
+  const redact = schema && getRedactionVariant(schema, 'export') !== 'raw';
+  return {
+    id: call.id,
+    schemaId: call.schemaId,
+    status: call.status,
+    metadata: redact ? redactMetadata(call.metadata, schema) : call.metadata,
+    score: call.evaluation?.percentage,
+    autoFailed: call.evaluation?.autoFailed,
+    overallSentiment: call.overallSentiment,
+    updatedAt: call.updatedAt,
+  };
+}
+
+/**
+ * Value of an insight field in an evaluation: schema insights first, then the
+ * built-in risk insight (risk-assessment) of older evaluations
+ */
+function getInsightValue(call: CallRecord, categoryId: string, fieldId: string): unknown {
+  const evaluation = call.evaluation;
+  if (!evaluation) return undefined;
+  const value = evaluation.schemaInsights?.[categoryId]?.[fieldId];
+  if (value !== undefined) return value;
+  if (categoryId === 'risk-assessment' && evaluation.riskInsight) {
+    return (evaluation.riskInsight as unknown as Record<string, unknown>)[fieldId];
+  }
+  return undefined;
+}
+
+function insightValueMatches(actual: unknown, expected: InsightTrigger['value']): boolean {
+  if (actual === undefined || actual === null) return false;
+  if (typeof expected === 'string') return String(actual).toLowerCase() === expected.toLowerCase();
+  return actual === expected;
+}
+
+/**
+ * Events caused by the change from previous to next (previous is undefined for a new call).
+ * A new call only fires call.uploaded - calls first seen in a later state (a bulk import
+ * or the first upload of browser data) have no transition to report.
+ */
+export function detectCallEvents(
+  previous: CallRecord | undefined,
+  next: CallRecord,
+  options: { schema?: SchemaDefinition; insightTriggers?: InsightTrigger[]; now?: Date } = {}
+): WebhookEvent[] {
+  const occurredAt = (options.now ?? new Date()).toISOString();
+  const call = summarizeCall(next, options.schema);
+  // Evidence quotes the transcript, so it is masked like the metadata
+  const redactEvidence = options.schema && getRedactionVariant(options.schema, 'export') !== 'raw';
+  const detectors = getRedactionPolicy(options.schema).detectors;
+  const events: WebhookEvent[] = [];
+  const add = (type: WebhookEventType, marker: string, data: Record<string, unknown> = {}) => {
+    events.push({
+      id: `${type}:${next.id}:${marker}`,
+      type,
+      schemaId: next.schemaId,
+      callId: next.id,
+      occurredAt,
+      data: { ...data, call },
+    });
+  };
+
+  const evaluation = next.evaluation;
+  const newEvaluation = !!previous && !!evaluation && evaluation.id !== previous.evaluation?.id;
+  // A re-evaluation keeps the evaluated status, so it is told apart by the evaluation ID
+  const reevaluated = newEvaluation && previous!.status === 'evaluated' && next.status === 'evaluated';
+
+  const statusEvent = STATUS_EVENTS[next.status];
+  if (reevaluated) {
+    add('call.evaluated', evaluation!.id, { previousStatus: previous!.status });
+  } else if (statusEvent && (previous ? previous.status !== next.status : next.status === 'uploaded')) {
+    add(statusEvent, next.updatedAt, {
+      previousStatus: previous?.status,
+      ...(next.status === 'failed' ? { error: next.error } : {}),
+    });
+  }
+  if (!previous) return events;
+
+  if (evaluation && newEvaluation) {
+    const failedCritical = evaluation.results.filter(r => r.critical && !r.passed && !r.notApplicable);
+    if (failedCritical.length > 0) {
+      add('criterion.critical_failed', evaluation.id, {
+        criteria: failedCritical.map(r => ({
+          key: r.criterionKey,
+          name: r.criterionName,
+          evidence: redactEvidence && r.evidence ? redactText(r.evidence, detectors) : r.evidence,
+        })),
+      });
+    }
+
+    for (const trigger of options.insightTriggers ?? []) {
+      const value = getInsightValue(next, trigger.categoryId, trigger.fieldId);
+      if (!insightValueMatches(value, trigger.value)) continue;
+      add('insight.matched', `${evaluation.id}:${trigger.categoryId}.${trigger.fieldId}`, {
+        categoryId: trigger.categoryId,
+        fieldId: trigger.fieldId,
+        value,
+      });
+    }
+  }
+
+  if (next.overallSentiment === 'negative' && previous.overallSentiment !== 'negative') {
+    add('sentiment.negative', next.updatedAt, { previousSentiment: previous.overallSentiment });
+  }
+
+  return events;
+}
+
+/**
+ * Whether a webhook should receive an event
+ */
+export function webhookWantsEvent(webhook: WebhookConfig, event: WebhookEvent): boolean {
+  if (!webhook.enabled || !webhook.events.includes(event.type)) return false;
+  if (event.type !== 'insight.matched') return true;
+  return webhook.insightTriggers.some(t =>
+    t.categoryId === event.data.categoryId &&
+    t.fieldId === event.data.fieldId &&
+    insightValueMatches(event.data.value, t.value)
+  );
+}
+
+function createDelivery(webhook: WebhookConfig, event: WebhookEvent, now: string): WebhookDelivery {
+  return {
+    id: `${webhook.id}:${event.id}`,
+    webhookId: webhook.id,
+    schemaId: webhook.schemaId,
+    event,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  };
+}
+
+export interface WebhookPlanInput {
+  previousCalls: CallRecord[];
+  nextCalls: CallRecord[];
+  schemas: SchemaDefinition[];
+  webhooks: Record<string, WebhookConfig[] | null>;   // By schema ID
+  now?: Date;
+}
+
+/**
+ * Deliveries for every event between two versions of the calls list.
+ * Delivery IDs combine webhook and event ID, so the caller can skip ones it already has.
+ */
+export function planWebhookDeliveries(input: WebhookPlanInput): WebhookDelivery[] {
+  const now = input.now ?? new Date();
+  const previousById = new Map(input.previousCalls.map(c => [c.id, c]));
+  const deliveries: WebhookDelivery[] = [];
+
+  for (const call of input.nextCalls) {
+    const webhooks = (input.webhooks[call.schemaId] ?? []).filter(w => w.enabled);
+    if (webhooks.length === 0) continue;
+
+    const events = detectCallEvents(previousById.get(call.id), call, {
+      schema: input.schemas.find(s => s.id === call.schemaId),
+      insightTriggers: webhooks.flatMap(w => (w.events.includes('insight.matched') ? w.insightTriggers : [])),
+      now,
+    });
+    for (const event of events) {
+      for (const webhook of webhooks) {
+        if (webhookWantsEvent(webhook, event)) {
+          deliveries.push(createDelivery(webhook, event, now.toISOString()));
+        }
+      }
+    }
+  }
+
+  return deliveries;
+}
+
+/**
+ * Test event for the test-fire button
+ */
+export function createTestDelivery(webhook: WebhookConfig, now: Date = new Date()): WebhookDelivery {
+  const occurredAt = now.toISOString();
+  return createDelivery(webhook, {
+    id: `webhook.test:${webhook.id}:${occurredAt}`,
+    type: 'webhook.test',
+    schemaId: webhook.schemaId,
+    callId: '',
+    occurredAt,
+    data: { message: `Test event from webhook "${webhook.name}"` },
+  }, occurredAt);
+}
+
+/**
+ * Request body sent for an event
+ */
+export function buildWebhookBody(event: WebhookEvent): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.type,
+    schemaId: event.schemaId,
+    callId: event.callId,
+    occurredAt: event.occurredAt,
+    data: event.data,
+  });
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones (30s, 1m, 2m, 4m),
+ * or null once the attempts are used up
+ */
+export function getRetryDelayMs(attempts: number): number | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) return null;
+  return WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+// ============================================================================
+// APP SIDE (server API)
+// ============================================================================
+
+export async function loadWebhookDeliveries(schemaId: string): Promise<WebhookDelivery[]> {
+  const response = await fetch(`/api/schemas/${encodeURIComponent(schemaId)}/webhook-deliveries`);
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to load webhook deliveries: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Send a test event to a saved webhook and wait for the first attempt
+ */
+export async function testWebhook(schemaId: string, webhookId: string): Promise<WebhookDelivery> {
+  const response = await fetch(
+    `/api/schemas/${encodeURIComponent(schemaId)}/webhooks/${encodeURIComponent(webhookId)}/test`,
+    { method: 'POST' }
+  );
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Webhook test failed: ${response.status} ${response.statusText}`);
+  }
+  return body.delivery;
+}
+
+/**
+ * Schedule a failed delivery for another attempt now
+ */
+export async function retryWebhookDelivery(schemaId: string, deliveryId: string): Promise<WebhookDelivery> {
+  const response = await fetch(
+    `/api/schemas/${encodeURIComponent(schemaId)}/webhook-deliveries/${encodeURIComponent(deliveryId)}/retry`,
+    { method: 'POST' }
+  );
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Retry failed: ${response.status} ${response.statusText}`);
+  }
+  return body.delivery;
+}
@@ -0,0 +1,140 @@
+/**
+ * Test fixtures built from the shipped sample calls and schema templates
+ */
+
+import { CallRecord, CallEvaluation, EvaluationCriterion } from '@/types/call';
+import { SchemaDefinition, SchemaEvaluationRule, FieldDefinition } from '@/types/schema';
+import { defaultCalls } from '@/lib/default-calls';
+import { SCHEMA_TEMPLATES, SchemaTemplate, createSchemaFromTemplate } from '@/lib/schema-templates';
+import { SchemaMapper } from '@/services/schema-mapper';
+import { generateDebtCollectionSchema } from '@/services/schema-compatibility';
+
+export interface TemplateFixture {
+  template: SchemaTemplate;
+  schema: SchemaDefinition;
+  rules: SchemaEvaluationRule[];
+}
+
+/**
+ * Fresh copy of the sample debt collection calls (tests may mutate them)
+ */
+export function loadDefaultCalls(): CallRecord[] {
+  return JSON.parse(JSON.stringify(defaultCalls));
+}
+
+/**
+ * Sample calls re-mapped onto the legacy Debt Collection schema (snake_case field ids)
+ */
+export function loadDebtCollectionCalls(): { schema: SchemaDefinition; calls: CallRecord[] } {
+  const schema = generateDebtCollectionSchema();
+  const calls = loadDefaultCalls().map(call => ({
+    ...call,
+    metadata: SchemaMapper.mapRow(call.metadata, schema),
+  }));
+  return { schema, calls };
+}
+
+/**
+ * One schema per built-in template, with rules numbered the way the rules editor saves them
+ */
+export function loadTemplateFixtures(): TemplateFixture[] {
+  return Object.values(SCHEMA_TEMPLATES).map(template => ({
+    template,
+    schema: { ...createSchemaFromTemplate(template), id: `schema-${template.id}` },
+    rules: template.evaluationRules.map((rule, index) => ({ ...rule, id: index + 1 })),
+  }));
+}
+
+export function getTemplateFixture(templateId: string): TemplateFixture {
+  const fixture = loadTemplateFixtures().find(f => f.template.id === templateId);
+  if (!fixture) {
+    throw new Error(`Unknown template: ${templateId}`);
+  }
+  return fixture;
+}
+
+/**
+ * Deterministic raw (CSV-style) value for a field - varies with the row index
+ */
+export function sampleRawValue(field: FieldDefinition, index: number): string {
+  switch (field.type) {
+    case 'number':
+      return String((index + 1) * 10 + (field.id.length % 7));
+    case 'boolean':
+      return index % 2 === 0 ? 'true' : 'false';
+    case 'date':
+      return new Date(Date.UTC(2025, 0, 1 + index)).toISOString();
+    case 'select':
+      return field.selectOptions && field.selectOptions.length > 0
+        ? field.selectOptions[index % field.selectOptions.length]
+        : `${field.displayName} ${index}`;
+    case 'string':
+    default:
+      return field.semanticRole === 'participant_1'
+        ? `Agent ${index % 3}`
+        : `${field.displayName} ${index}`;
+  }
+}
+
+/**
+ * Raw row keyed by column name, as parseCSV/readExcelFile would return it
+ */
+export function buildRawRow(schema: SchemaDefinition, index: number): Record<string, string> {
+  const row: Record<string, string> = {};
+  schema.fields.forEach(field => {
+    row[field.name] = sampleRawValue(field, index);
+  });
+  return row;
+}
+
+/**
+ * Uploaded calls for a schema, mapped through SchemaMapper like an import would
+ */
+export function buildTemplateCalls(schema: SchemaDefinition, count: number): CallRecord[] {
+  return Array.from({ length: count }, (_, index) => {
+    const createdAt = new Date(Date.UTC(2025, 0, 1 + index, 9)).toISOString();
+    return {
+      id: `${schema.id}-call-${index}`,
+      schemaId: schema.id,
+      schemaVersion: schema.version,
+      metadata: SchemaMapper.mapRow(buildRawRow(schema, index), schema),
+      status: 'uploaded',
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+}
+
+/**
+ * Attach an evaluation with one verdict per criterion, results numbered by rule id like the model returns them
+ */
+export function withEvaluation(
+  call: CallRecord,
+  criteria: EvaluationCriterion[],
+  verdicts: boolean[]
+): CallRecord {
+  const results = criteria.map((criterion, index) => ({
+    criterionId: criterion.id,
+    criterionKey: criterion.key,
+    criterionName: criterion.name,
+    score: verdicts[index] ? criterion.scoringStandard.passed : criterion.scoringStandard.failed,
+    passed: verdicts[index],
+    evidence: '',
+    reasoning: verdicts[index] ? '' : `${criterion.name} not met`,
+  }));
+  const totalScore = results.reduce((sum, r) => sum + r.score, 0);
+  const maxScore = criteria.reduce((sum, c) => sum + c.scoringStandard.passed, 0);
+
+  const evaluation: CallEvaluation = {
+    id: `eval_${call.id}`,
+    callId: call.id,
+    evaluatedAt: call.createdAt,
+    totalScore,
+    maxScore,
+    percentage: Math.round((totalScore / maxScore) * 100),
+    results,
+    overallFeedback: '',
+  };
+
+  return { ...call, status: 'evaluated', evaluation };
+}
@@ -0,0 +1,16 @@
+/**
+ * Test setup - every test starts from an empty browser store
+ */
+
+import { afterEach, beforeEach, vi } from 'vitest';
+
+beforeEach(() => {
+  window.localStorage.clear();
+
+  // The services log every step with console.log - keep test output readable
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
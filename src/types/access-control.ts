@@ -0,0 +1,51 @@
+/**
+ * Role-based access control definitions
+ * Roles come from the signed-in Entra ID user: an explicit assignment in the local
+ * user store wins, then the token's app role / group claims, then the default role.
+ */
+
+export type UserRole = 'admin' | 'qa-lead' | 'supervisor' | 'agent' | 'read-only';
+
+export type Permission =
+  | 'schemas.edit'                 // Schema manager, discovery and personalization
+  | 'rules.edit'                   // Evaluation rules, wizard and prompt registry
+  | 'calls.process'                // Import, upload, transcribe, evaluate and review calls
+  | 'calls.delete'                 // Reset call data and merge duplicate calls
+  | 'calls.export'                 // Call exports and QA reports
+  | 'coaching.edit'                // Generate plans and record coaching sessions
+  | 'config.edit';                 // Azure configuration, webhooks, watch folder, budgets, access control
+
+/**
+ * Local user store entry
+ */
+export interface UserAssignment {
+  username: string;                // Entra ID username (UPN / email), matched case-insensitively
+  role: UserRole;
+  agentName?: string;              // Agent role: value of the participant_1 field (defaults to the token's display name)
+}
+
+export interface AccessControlSettings {
+  enabled: boolean;                // Off: everyone has full access (single-user setups)
+  claimRoles: Record<string, UserRole>;  // App role or group ID claim value -> role
+  users: UserAssignment[];
+  defaultRole: UserRole;           // Signed-in users without an assignment or mapped claim
+  updatedAt?: string;
+}
+
+/**
+ * Identity of the signed-in user, read from the Entra ID token claims
+ */
+export interface SignedInUser {
+  username: string;
+  name?: string;                   // Display name (name claim)
+  roles: string[];                 // App role claims
+  groups: string[];                // Group ID claims
+}
+
+export interface AccessContext {
+  enabled: boolean;
+  user: SignedInUser | null;
+  role: UserRole;
+  source: 'disabled' | 'anonymous' | 'local' | 'claims' | 'default';
+  agentName?: string;              // Agent role: whose calls are visible
+}
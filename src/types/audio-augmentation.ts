@@ -0,0 +1,30 @@
+/**
+ * Acoustic realism for synthetic calls
+ * Presets describe how clean TTS audio is degraded into something that sounds like a
+ * recorded phone call, so synthetic calls make a useful STT and sentiment test set.
+ */
+
+export type AcousticPresetId = 'studio' | 'call-center' | 'mobile' | 'hold-and-transfer' | 'heated';
+
+export interface AcousticProfile {
+  lineNoiseDb?: number;            // Line hiss and mains hum level in dBFS (e.g. -45); off when unset
+  telephoneBand?: boolean;         // 300-3400 Hz band-pass and 8 kHz output
+  holdMusic?: {
+    count: number;                 // Hold segments placed after agent turns
+    durationMs: number;
+  };
+  deadAir?: {
+    rate: number;                  // Share of speaker changes followed by a long silence (0-1)
+    durationMs: number;
+  };
+  crosstalkMs?: number;            // Overlap at speaker changes; defaults to the TTS settings
+  bargeInRate?: number;            // Share of speaker changes that interrupt; defaults to the TTS settings
+  emotionStyles?: boolean;         // SSML speaking styles and prosody from the sentiment segments
+}
+
+export interface AcousticPreset {
+  id: AcousticPresetId;
+  name: string;
+  description: string;
+  profile: AcousticProfile;
+}
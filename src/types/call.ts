@@ -1,5 +1,15 @@
+import type { PiiEntityType } from './schema';
+import type { CallIngestionInfo } from './ingestion';
+import type { AcousticPresetId } from './audio-augmentation';
+
 export type AzureAuthType = 'apiKey' | 'entraId' | 'managedIdentity';
 
+/**
+ * How stereo recordings are transcribed: 'auto' recognizes each channel separately when
+ * the audio has two channels, 'stereo' always does, 'mono' never does (diarization only)
+ */
+export type SpeechChannelMode = 'auto' | 'stereo' | 'mono';
+
 export interface AzureSpeechConfig {
   /** Custom subdomain endpoint for token auth (e.g., https://<name>.cognitiveservices.azure.com) */
   endpoint?: string;
@@ -10,6 +20,8 @@ export interface AzureSpeechConfig {
   diarizationEnabled?: boolean;
   minSpeakers?: number;
   maxSpeakers?: number;
+  channelMode?: SpeechChannelMode;
+  agentChannel?: number; // Channel of the agent (participant_1) in stereo recordings, default 0
   /** Authentication method: 'apiKey' (default), 'entraId' for Azure AD, 'managedIdentity' for Container App */
   authType?: AzureAuthType;
   /** Azure AD tenant ID (required when authType is 'entraId') */
@@ -37,6 +49,29 @@ export interface TranscriptPhrase {
   locale?: string;
 }
 
+/**
+ * A PII match masked in a redacted transcript
+ */
+export interface RedactionSpan {
+  type: PiiEntityType;
+  phraseIndex?: number;            // Index into transcriptPhrases (absent for plain-text transcripts)
+  startMilliseconds?: number;      // Audio range covered by the masked words, for beeping
+  endMilliseconds?: number;
+}
+
+/**
+ * Redacted variant of a call transcript. Phrases and words keep their timings;
+ * masked words are replaced by the entity label.
+ */
+export interface RedactedTranscript {
+  transcript: string;
+  phrases?: TranscriptPhrase[];
+  words?: WordTiming[];
+  spans: RedactionSpan[];
+  policyKey: string;               // Detectors used - a changed policy invalidates the variant
+  redactedAt: string;
+}
+
 export type SentimentLabel = 'positive' | 'neutral' | 'negative';
 
 export interface CallSentimentSegment {
@@ -51,6 +86,47 @@ export interface CallSentimentSegment {
   emotionalTriggers?: string[]; // Key phrases/words that drove this sentiment
 }
 
+export type SpeechParty = 'agent' | 'customer';
+
+/**
+ * A stretch of the call timeline, in milliseconds from the start of the recording
+ */
+export interface SpeechPeriod {
+  startMilliseconds: number;
+  endMilliseconds: number;
+}
+
+export interface SpeakerTurn extends SpeechPeriod {
+  party: SpeechParty;
+}
+
+/**
+ * Conversational metrics computed from phrase and word timings. Deterministic:
+ * the same transcript always gives the same metrics.
+ */
+export interface SpeechMetrics {
+  durationMilliseconds: number;
+  agentTalkMilliseconds: number;
+  customerTalkMilliseconds: number;
+  silenceMilliseconds: number;     // Nobody talking, between the first and last word
+  agentTalkRatio: number;          // Agent share of attributed talk time (0-1)
+  longestMonologueMilliseconds: number;
+  longestMonologueParty?: SpeechParty;
+  deadAir: SpeechPeriod[];         // Silences long enough to be noticed, excluding holds
+  deadAirMilliseconds: number;
+  holds: SpeechPeriod[];           // Very long silences, or silences after the agent asks the customer to hold
+  holdMilliseconds: number;
+  overtalk: SpeechPeriod[];        // Both parties talking at once
+  overtalkMilliseconds: number;
+  agentInterruptions: number;      // Agent started talking while the customer was mid-sentence
+  customerInterruptions: number;
+  agentWordsPerMinute?: number;
+  customerWordsPerMinute?: number;
+  timeToFirstResponseMilliseconds?: number; // Start of the recording until the agent first speaks
+  turns: SpeakerTurn[];            // Speaker timeline, for display
+  computedAt: string;
+}
+
 export interface TranscriptionResult {
   transcript: string;
   confidence: number;
@@ -61,6 +137,15 @@ export interface TranscriptionResult {
   speakerCount?: number;
 }
 
+/**
+ * A self-contained piece of a live audio stream
+ */
+export interface AudioSegment {
+  audio: Blob;
+  offsetMilliseconds: number;      // Start of the segment within the whole stream
+  durationMilliseconds: number;
+}
+
 export interface CallMetadata {
   time?: string;
   billId?: string;
@@ -80,6 +165,7 @@ export interface CallMetadata {
 
 export interface EvaluationCriterion {
   id: number;
+  key?: string;                    // Immutable stable key shared with stored results
   type: 'Must Do' | 'Must Not Do';
   name: string;
   definition: string;
@@ -90,14 +176,50 @@ export interface EvaluationCriterion {
     partial?: number;
   };
   examples: string[];
+  section?: string;                // Scorecard section id
+  critical?: boolean;              // Failing this criterion fails the whole call
+  allowNotApplicable?: boolean;    // May be marked N/A
+}
+
+/**
+ * Human QA review of a single AI criterion verdict
+ */
+export interface HumanReview {
+  aiPassed: boolean;               // Original AI verdict, kept for calibration
+  aiScore: number;                 // Original AI score
+  aiNotApplicable?: boolean;       // AI marked the criterion N/A
+  reviewer: string;                // Who reviewed the verdict
+  reason: string;                  // Why the verdict was confirmed or changed
+  reviewedAt: string;
 }
 
 export interface EvaluationResult {
-  criterionId: number;
-  score: number;
-  passed: boolean;
+  criterionId: number;             // Rule id of the criterion, as numbered in the evaluation prompt
+  criterionKey?: string;           // Stable key of the criterion (absent on results stored before keys existed)
+  criterionName?: string;          // Criterion name at evaluation time, kept for retired criteria
+  score: number;                   // Effective score (human verdict when reviewed)
+  passed: boolean;                 // Effective verdict (human verdict when reviewed)
   evidence: string;
   reasoning: string;
+  humanReview?: HumanReview;       // Present once a supervisor has reviewed this criterion
+
+  // Scorecard attributes of the criterion at evaluation time (absent on older results)
+  notApplicable?: boolean;         // Criterion did not apply to this call - excluded from scoring
+  maxScore?: number;               // Points available (scoringStandard.passed)
+  sectionId?: string;              // Scorecard section the criterion was scored in
+  critical?: boolean;              // Criterion was critical
+}
+
+/**
+ * Score of one scorecard section within an evaluation
+ */
+export interface SectionScore {
+  sectionId: string;
+  name: string;
+  weight: number;
+  score: number;
+  maxScore: number;                // 0 when every criterion in the section was N/A
+  percentage: number;
 }
 
 export type CategorizedOutcome = 'success' | 'promise-to-pay' | 'refused' | 'no-contact' | 'callback-needed' | 'other';
@@ -171,6 +293,19 @@ export interface CallEvaluation {
   borrowerInsight?: BorrowerInsight;
   topicsInsight?: TopicsAndPhrasesInsight;  // Topics and key phrases
   schemaInsights?: Record<string, Record<string, any>>;  // Dynamic insights keyed by category ID
+
+  // Run provenance - lets evaluation history explain why a score changed
+  ruleSetId?: string;              // Fingerprint of the evaluation rules used for this run
+  ruleSetVersion?: number;         // Version of the schema's rule set used for this run
+  schemaVersion?: string;          // Schema version at the time of evaluation
+  modelDeployment?: string;        // Model deployment that produced this evaluation
+  promptVersion?: number;          // Prompt registry version used (absent = built-in template)
+  promptVersionId?: string;
+
+  // Scorecard outcome (absent on evaluations scored before scorecards existed)
+  sectionScores?: SectionScore[];
+  autoFailed?: boolean;            // A critical criterion failed - the call scores 0
+  autoFailReasons?: string[];      // Names of the failed critical criteria
 }
 
 export interface CallRecord {
@@ -180,6 +315,7 @@ export interface CallRecord {
   metadata: Record<string, any>; // Dynamic metadata based on active schema
   audioFile?: File | Blob;
   audioUrl?: string; // URL for fetching audio
+  audioHash?: string; // SHA-256 of the stored audio (see audio-storage.ts), for duplicate detection
   transcript?: string;
   transcriptConfidence?: number;
   transcriptWords?: WordTiming[];
@@ -188,16 +324,26 @@ export interface CallRecord {
   transcriptPhrases?: TranscriptPhrase[];
   transcriptSpeakerCount?: number;
   transcriptionId?: string; // Azure Speech transcription job ID
+  redactedTranscript?: RedactedTranscript; // PII-masked transcript variant (when the schema's redaction policy is enabled)
+  speechMetrics?: SpeechMetrics; // Talk time, silence and interruption metrics from the phrase timings
   evaluation?: CallEvaluation;
+  evaluations?: CallEvaluation[]; // Evaluation history, oldest first (last entry mirrors `evaluation`)
   sentimentSegments?: CallSentimentSegment[];
   sentimentSummary?: string;
   overallSentiment?: SentimentLabel; // Overall sentiment for the entire call (for analytics)
   status: 'pending audio' | 'uploaded' | 'processing' | 'transcribed' | 'evaluated' | 'failed';
   error?: string;
+  ingestion?: CallIngestionInfo; // Set for calls created by the server watch folder
+  acousticPreset?: AcousticPresetId; // Synthetic calls: acoustic realism applied when audio is generated
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
 export interface AgentPerformance {
   agentName: string;
   totalCalls: number;
@@ -216,6 +362,7 @@ export interface AgentPerformance {
   passRate?: number;                  // Percentage of criteria passed
   perfectScoreCalls?: number;         // Calls with 100% score
   failedCalls?: number;               // Calls below threshold (e.g., <60%)
+  autoFailedCalls?: number;           // Calls failed by a critical criterion
   
   // Topic/Category performance
   topTopics?: Array<{ topic: string; count: number; avgScore: number }>;
@@ -235,8 +382,16 @@ export interface AgentPerformance {
     callCount: number;
   }>;
   
+  // Statistical confidence (small samples are pulled towards the team)
+  adjustedPercentage?: number;        // Average shrunk towards the team mean by call count - ranking basis
+  percentageCI?: ConfidenceInterval;  // 95% t interval of averagePercentage (2+ calls)
+  adjustedPassRate?: number;          // Wilson midpoint of the criteria pass rate
+  passRateCI?: ConfidenceInterval;    // 95% Wilson interval of the pass rate
+  trendPValue?: number;               // Welch t-test of the last 5 calls vs earlier ones
+  distinguishableFromNext?: boolean;  // Scores differ significantly from the next-ranked agent
+
   // Comparison metrics
-  rankAmongAgents?: number;           // Rank (1 = best)
+  rankAmongAgents?: number;           // Rank by adjustedPercentage (1 = best)
   percentileRank?: number;            // Percentile (0-100)
   aboveAverage?: boolean;             // Above team average?
   
@@ -254,8 +409,67 @@ export interface AgentPerformance {
 
 export interface CriteriaAnalytics {
   criterionId: number;
+  criterionKey?: string;
   totalEvaluations: number;
   passRate: number;
   averageScore: number;
   commonIssues: string[];
+  notApplicableCount: number;      // Evaluations where the criterion was N/A (not in totalEvaluations)
+}
+
+/**
+ * Average score of a scorecard section across evaluated calls
+ */
+export interface SectionAnalytics {
+  sectionId: string;
+  name: string;
+  weight: number;
+  averagePercentage: number;
+  evaluatedCalls: number;          // Calls where the section had applicable criteria
+}
+
+/**
+ * Analytics for a criterion that has been removed from the current rule set
+ */
+export interface RetiredCriterionAnalytics extends CriteriaAnalytics {
+  criterionKey: string;
+  criterionName: string;           // Name recorded on the most recent result
+  lastEvaluatedAt: string;
+}
+
+export interface CalibrationAnalytics {
+  criterionId: number;
+  criterionName: string;
+  reviewedCount: number;           // Results a human has reviewed
+  agreementCount: number;          // Reviews that kept the AI verdict
+  agreementRate: number;           // agreementCount / reviewedCount * 100
+  aiFalsePassCount: number;        // AI passed, human failed
+  aiFalseFailCount: number;        // AI failed, human passed
+}
+
+export type ScoreBand = 'high' | 'medium' | 'low';
+
+/**
+ * Global filters applied to the analytics dashboard and agents leaderboard.
+ * Filters of different kinds are combined with AND; values within one filter with OR.
+ */
+export interface CallFilters {
+  dateFrom?: string;               // YYYY-MM-DD, inclusive (call createdAt)
+  dateTo?: string;                 // YYYY-MM-DD, inclusive
+  fields?: Record<string, string[]>; // Field ID -> accepted values
+  topics?: string[];               // Topic IDs from the topics insight
+  sentiments?: SentimentLabel[];
+  scoreBands?: ScoreBand[];
+  evaluated?: 'evaluated' | 'not-evaluated';
+}
+
+/**
+ * Named filter combination saved for a schema
+ */
+export interface AnalyticsSegment {
+  id: string;
+  schemaId: string;
+  name: string;
+  filters: CallFilters;
+  createdAt: string;
 }
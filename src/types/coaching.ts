@@ -0,0 +1,52 @@
+/**
+ * Agent coaching plans
+ * Goals are tied to evaluation criteria by their stable key, so progress keeps
+ * tracking the right rule when rules are reordered or renamed.
+ */
+
+export type CoachingGoalStatus = 'open' | 'achieved' | 'missed';
+
+export interface CoachingGoal {
+  id: string;
+  criterionKey?: string;           // Stable key of the criterion (see criterion-keys)
+  criterionName: string;
+  description: string;             // What the agent should do differently
+  baselinePassRate: number;        // Pass rate (0-100) when the plan was created
+  targetPassRate: number;          // Pass rate (0-100) that achieves the goal
+  dueDate: string;                 // YYYY-MM-DD
+  status: CoachingGoalStatus;
+  currentPassRate?: number;        // Pass rate over evaluations since the plan was created
+  evaluatedSince?: number;         // Results counted in currentPassRate
+  achievedAt?: string;             // ISO timestamp
+}
+
+export interface CoachingExampleCall {
+  callId: string;
+  kind: 'good' | 'bad';            // Good = criterion passed, bad = this agent failed it
+  criterionKey?: string;
+  criterionName: string;
+  agentName: string;
+  percentage: number;              // Overall call score
+  evidence: string;                // Quote or reasoning from the evaluation
+}
+
+export interface CoachingSession {
+  id: string;
+  date: string;                    // ISO timestamp
+  supervisor: string;
+  notes: string;
+  goalIds: string[];               // Goals discussed in the session
+}
+
+export interface CoachingPlan {
+  id: string;
+  schemaId: string;
+  agentName: string;
+  summary: string;
+  goals: CoachingGoal[];
+  examples: CoachingExampleCall[];
+  sessions: CoachingSession[];
+  status: 'active' | 'completed' | 'archived';
+  createdAt: string;
+  updatedAt: string;
+}
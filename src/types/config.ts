@@ -1,5 +1,10 @@
+import type { SpeechChannelMode } from './call';
+
 export type AzureAuthType = 'apiKey' | 'entraId' | 'managedIdentity';
 
+/** LLM backend: Azure OpenAI (default), an OpenAI-compatible server, or offline replay */
+export type LLMProviderType = 'azure-openai' | 'openai-compatible' | 'mock';
+
 /** Entra ID (Azure AD) configuration for browser-based authentication */
 export interface EntraIdConfig {
   /** App Registration Client ID (Application ID) */
@@ -21,6 +26,12 @@ export interface AzureServicesConfig {
     authType?: AzureAuthType;
     /** @deprecated Use entraId.tenantId instead */
     tenantId?: string;
+    /** LLM backend (defaults to 'azure-openai') */
+    provider?: LLMProviderType;
+    /** Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1 */
+    baseUrl?: string;
+    /** Save live responses so the mock provider can replay them offline */
+    recordResponses?: boolean;
   };
   speech: {
     /** Custom subdomain endpoint for token auth (e.g., https://<name>.cognitiveservices.azure.com) */
@@ -32,6 +43,9 @@ export interface AzureServicesConfig {
     diarizationEnabled?: boolean;
     minSpeakers?: number;
     maxSpeakers?: number;
+    /** Per-channel recognition for stereo recordings (default 'auto') */
+    channelMode?: SpeechChannelMode;
+    agentChannel?: number; // Channel of the agent (participant_1) in stereo recordings, default 0
     /** Authentication method: 'apiKey' (default) or 'entraId' for Azure AD */
     authType?: AzureAuthType;
     /** @deprecated Use entraId.tenantId instead */
@@ -48,5 +62,9 @@ export interface AzureServicesConfig {
     defaultFemaleVoice1: string;
     defaultFemaleVoice2: string;
     outputFormat?: 'audio-16khz-128kbitrate-mono-mp3' | 'audio-24khz-160kbitrate-mono-mp3' | 'audio-48khz-192kbitrate-mono-mp3';
+    /** 'stereo' (default) puts the agent on the left channel and the customer on the right */
+    channelLayout?: 'mono' | 'stereo';
+    overlapMs?: number; // Stereo only: crosstalk when the speaker changes
+    bargeInRate?: number; // Stereo only: share of speaker changes that interrupt (0-1)
   };
 }
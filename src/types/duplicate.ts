@@ -0,0 +1,43 @@
+/**
+ * Duplicate call detection
+ * Calls count as duplicates when they share identifier values, audio file name or
+ * audio content, or when their transcripts are nearly identical.
+ */
+
+import type { CallRecord } from './call';
+
+export type DuplicateReason = 'identifier' | 'file' | 'audio' | 'transcript';
+
+/** What to do with an imported call that duplicates an existing one */
+export type DuplicateResolution = 'merge' | 'skip' | 'replace';
+
+export interface DuplicateMatch {
+  callId: string;                  // The later (or incoming) call
+  duplicateOfId: string;           // The call it duplicates
+  reason: DuplicateReason;
+  detail: string;                  // What matched, e.g. "Order ID 1042" or "96% similar transcript"
+}
+
+/**
+ * Existing calls that duplicate each other
+ */
+export interface DuplicateGroup {
+  keepId: string;                  // Call that survives a merge - the one with the most work done on it
+  callIds: string[];               // All calls in the group, keepId first
+  matches: DuplicateMatch[];       // Why the calls were grouped
+}
+
+export interface DuplicateMergeResult {
+  calls: CallRecord[];
+  mergedIds: string[];             // Kept calls that absorbed duplicates
+  removedIds: string[];            // Duplicates merged away
+}
+
+export interface ImportMergeResult {
+  calls: CallRecord[];
+  added: number;
+  merged: number;
+  replaced: number;
+  skipped: number;
+  updatedIds: string[];            // Existing calls changed by a merge or replace
+}
@@ -0,0 +1,22 @@
+/**
+ * CSV/Excel import mapping
+ * Which file column feeds each schema field, saved as named profiles per schema so
+ * recurring exports from the same system import without remapping.
+ */
+
+/** Schema field id -> source column name. Unmapped fields are absent. */
+export type ColumnMapping = Record<string, string>;
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+export interface ImportMappingProfile {
+  id: string;
+  schemaId: string;
+  name: string;
+  mapping: ColumnMapping;
+  delimiter?: CsvDelimiter;        // Unset = detect from the file
+  encoding?: CsvEncoding;          // Unset = detect from the BOM or content
+  createdAt: string;
+}
@@ -0,0 +1,53 @@
+/**
+ * Watch-folder ingestion definitions
+ * The server watches one folder per schema for audio files plus CSV manifests,
+ * matches them, and adds new calls to the shared calls list.
+ */
+
+/** Jobs queued automatically once the app loads an ingested call */
+export type IngestionJobType = 'transcription' | 'evaluation';
+
+/**
+ * Per-schema watch-folder settings (stored on SchemaDefinition.ingestion)
+ */
+export interface SchemaIngestionSettings {
+  enabled: boolean;
+  audioField?: string;             // Field ID holding the audio file name; detected when not set
+  autoTranscribe: boolean;
+  autoEvaluate: boolean;           // Evaluated as soon as a transcript exists
+}
+
+/**
+ * Where an ingested call came from (stored on CallRecord.ingestion)
+ */
+export interface CallIngestionInfo {
+  batchId: string;
+  manifest: string;                // Manifest file name
+  audioFileName: string;
+  ingestedAt: string;
+  pendingJobs?: IngestionJobType[];  // Still to be queued by the app
+}
+
+export type UnmatchedRowReason = 'no-audio-value' | 'file-not-found' | 'already-ingested';
+
+export interface IngestionUnmatchedRow {
+  manifest: string;
+  line: number;                    // Line in the manifest (header is line 1)
+  audioValue: string;
+  reason: UnmatchedRowReason;
+}
+
+/**
+ * Outcome of one ingestion run for a schema
+ */
+export interface IngestionLogEntry {
+  batchId: string;
+  schemaId: string;
+  startedAt: string;
+  manifests: string[];
+  callIds: string[];               // Calls created
+  matchedFiles: string[];
+  unmatchedFiles: string[];        // Audio in the folder no manifest row points to
+  unmatchedRows: IngestionUnmatchedRow[];
+  errors: string[];
+}
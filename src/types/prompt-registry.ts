@@ -0,0 +1,76 @@
+/**
+ * Evaluation prompt registry
+ * Versioned evaluation prompt templates per schema, a golden set of human-labeled
+ * calls and the A/B comparisons run against it. Verdicts are keyed by the
+ * criterion's stable key (or "#<position>" for rules without one).
+ */
+
+export interface PromptVersion {
+  id: string;
+  schemaId: string;
+  version: number;                 // 1-based, increments per schema
+  template: string;                // Markdown with {{variable}} placeholders
+  notes: string;                   // What changed and why
+  author?: string;
+  pinned: boolean;                 // Evaluations for the schema use this version
+  createdAt: string;
+}
+
+/** Verdict on one criterion - partial credit is its own verdict */
+export type CriterionVerdict = 'passed' | 'partial' | 'failed' | 'na';
+
+export interface GoldenCall {
+  callId: string;
+  verdicts: Record<string, CriterionVerdict>;  // Human-confirmed verdict per criterion
+  percentage: number;              // Score of the labeled evaluation
+  labeledBy: string;
+  labeledAt: string;
+  ruleSetId?: string;              // Rule set the labels were given against
+}
+
+export interface PromptVariant {
+  label: string;                   // "A" or "B"
+  promptVersionId?: string;        // Absent = built-in template
+  deploymentName?: string;         // Absent = configured deployment
+}
+
+export interface VariantCallResult {
+  percentage?: number;
+  verdicts: Record<string, CriterionVerdict>;
+  error?: string;                  // Evaluation failed - excluded from the metrics
+}
+
+export interface ComparisonCallResult {
+  callId: string;
+  goldenPercentage: number;
+  a: VariantCallResult;
+  b: VariantCallResult;
+}
+
+export interface CriterionComparison {
+  criterionId: string;             // Stable key or "#<position>"
+  criterionName: string;
+  compared: number;                // Calls where both variants and the label have a verdict
+  flips: number;                   // Calls where A and B disagree
+  flipRate: number;                // 0-100
+  agreementA: number;              // % of compared calls where A matches the label
+  agreementB: number;
+}
+
+export interface PromptComparisonReport {
+  id: string;
+  schemaId: string;
+  runAt: string;
+  variants: [PromptVariant, PromptVariant];
+  callCount: number;               // Golden calls both variants evaluated
+  failedCount: number;             // Golden calls at least one variant failed on
+  agreementA: number;              // % of labeled verdicts A matches
+  agreementB: number;
+  variantAgreement: number;        // % of verdicts where A and B agree
+  meanScoreDelta: number;          // Mean (B - A) score in percentage points
+  scoreDeltaInterval?: { lower: number; upper: number };  // 95% interval of the mean delta (2+ calls)
+  meanAbsErrorA: number;           // Mean |A - golden| score in percentage points
+  meanAbsErrorB: number;
+  criteria: CriterionComparison[];
+  calls: ComparisonCallResult[];
+}
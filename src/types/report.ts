@@ -0,0 +1,78 @@
+/**
+ * QA report definitions
+ * Report templates are configured per schema and rendered to a self-contained
+ * HTML document, either in the browser or headlessly by the server scheduler.
+ */
+
+import type { AgentPerformance, CriteriaAnalytics } from './call';
+import type { KeyPhraseAnalytics, OverviewKPIs, TopicAnalytics } from '../lib/analytics';
+
+export type ReportSectionId = 'kpis' | 'criteria' | 'leaderboard' | 'topics' | 'keyPhrases' | 'excerpts';
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  perAgent: boolean;               // Also render one report per agent
+  lastRunAt?: string;              // Set by the server scheduler
+}
+
+export interface ReportTemplate {
+  id: string;
+  schemaId: string;
+  name: string;
+  title: string;                   // Heading of the rendered report
+  sections: ReportSectionId[];     // Rendered in this order
+  rangeDays: number;               // Period covered by scheduled runs (ending yesterday)
+  leaderboardSize: number;
+  excerptCount: number;            // Lowest-scoring calls quoted when none are picked
+  schedule?: ReportSchedule;       // Absent = generated on demand only
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ReportRange {
+  from: string;                    // YYYY-MM-DD, inclusive
+  to: string;                      // YYYY-MM-DD, inclusive
+}
+
+export interface ReportCriterionRow {
+  name: string;
+  analytics: CriteriaAnalytics;
+}
+
+export interface ReportExcerpt {
+  callId: string;
+  agentName: string;
+  date: string;
+  percentage: number;
+  autoFailed: boolean;
+  feedback: string;
+  evidence: Array<{ criterionName: string; passed: boolean; quote: string }>;
+}
+
+export interface AgentReportData {
+  performance: AgentPerformance;
+  rank?: number;
+  agentCount: number;
+  teamAverage: number;             // Mean of agent averages, as in the agent detail view
+  criteria: Array<{ name: string; score: number }>;  // Average points per criterion, best first
+  trend: Array<{ date: string; score: number; count: number }>;
+}
+
+export interface ReportData {
+  schemaId: string;
+  schemaName: string;
+  title: string;
+  range: ReportRange;
+  generatedAt: string;
+  agentName?: string;              // Set for agent reports
+  callCount: number;
+  kpis: OverviewKPIs;
+  criteria: ReportCriterionRow[];
+  leaderboard: AgentPerformance[];
+  topics: TopicAnalytics[];
+  keyPhrases: KeyPhraseAnalytics[];
+  excerpts: ReportExcerpt[];
+  agent?: AgentReportData;
+}
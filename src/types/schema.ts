@@ -3,6 +3,9 @@
  * Defines the structure for dynamic, LLM-powered schema configuration
  */
 
+import type { SchemaBudget } from './usage';
+import type { SchemaIngestionSettings } from './ingestion';
+
 /**
  * Output field definition for AI insight categories
  */
@@ -107,6 +110,8 @@ export interface FieldDefinition {
   // Conditional field dependencies (single-level)
   dependsOn?: FieldDependency;     // Condition for when this field is visible
   dependsOnBehavior?: 'show' | 'require';  // 'show' = visibility only, 'require' = also makes field required when visible
+
+  sensitive?: boolean;             // Contains PII - masked in prompts/exports when the schema's redaction policy is enabled
 }
 
 /**
@@ -116,7 +121,7 @@ export interface RelationshipDefinition {
   id: string;                      // Unique relationship identifier
   type: RelationshipType;          // Simple (correlative) or Complex (calculable)
   description: string;             // Natural language explanation (e.g., "Agent performance affects score")
-  formula?: string;                // JavaScript formula for complex relationships (e.g., "daysPastDue * dueAmount / 1000")
+  formula?: string;                // Formula-language expression for complex relationships (e.g., "days_past_due * due_amount / 1000")
   involvedFields: string[];        // Field IDs involved in this relationship
   
   // Display and behavior properties
@@ -150,6 +155,54 @@ export interface SchemaDefinition {
   
   // Schema-specific personalization settings
   personalization?: SchemaPersonalization;
+
+  // PII redaction for LLM evaluation and exports (disabled when not set)
+  redactionPolicy?: RedactionPolicy;
+
+  // Weighted scorecard sections (flat sum of rule points when not set)
+  scorecard?: ScorecardConfig;
+
+  // Monthly AI spend limit checked before bulk operations (unlimited when not set)
+  budget?: SchemaBudget;
+
+  // Server watch-folder ingestion of audio + CSV manifests (disabled when not set)
+  ingestion?: SchemaIngestionSettings;
+}
+
+/**
+ * A group of evaluation rules scored together, e.g. Opening, Compliance, Resolution
+ */
+export interface ScorecardSection {
+  id: string;
+  name: string;
+  weight: number;                  // Relative weight of the section in the call percentage
+}
+
+/**
+ * Scorecard structure for a schema's evaluation rules
+ */
+export interface ScorecardConfig {
+  sections: ScorecardSection[];
+}
+
+/**
+ * PII entity types the redaction engine can detect
+ */
+export type PiiEntityType = 'credit_card' | 'iban' | 'ssn' | 'phone' | 'email' | 'date_of_birth';
+
+/**
+ * Which transcript/metadata variant a consumer receives
+ */
+export type RedactionVariant = 'raw' | 'redacted';
+
+/**
+ * Per-schema PII redaction policy
+ */
+export interface RedactionPolicy {
+  enabled: boolean;
+  detectors: PiiEntityType[];      // Detectors to run on transcripts and free-text metadata
+  evaluation: RedactionVariant;    // Variant sent to the LLM for evaluation
+  export: RedactionVariant;        // Variant written to Excel/ZIP exports
 }
 
 /**
@@ -170,6 +223,7 @@ export interface SchemaPersonalization {
  */
 export interface SchemaEvaluationRule {
   id: number;
+  key?: string;                    // Immutable stable key, assigned on first save (see criterion-keys)
   type: 'Must Do' | 'Must Not Do';
   name: string;
   definition: string;
@@ -180,6 +234,19 @@ export interface SchemaEvaluationRule {
     partial?: number;
   };
   examples: string[];
+  section?: string;                // ScorecardSection id (unassigned rules score in the General section)
+  critical?: boolean;              // Failing this rule fails the whole call
+  allowNotApplicable?: boolean;    // May be marked N/A, which removes it from the denominator
+}
+
+/**
+ * Snapshot of a schema's evaluation rules. A new version is recorded each time the saved rules change.
+ */
+export interface RuleSetVersion {
+  version: number;                 // 1-based, increments on every change
+  ruleSetId: string;               // Fingerprint of the rules (computeRuleSetId)
+  rules: SchemaEvaluationRule[];
+  createdAt: string;
 }
 
 /**
@@ -0,0 +1,92 @@
+/**
+ * AI usage and cost accounting
+ * One record per billable AI request (LLM completion, speech-to-text, text-to-speech),
+ * priced at read time with the configurable price table.
+ */
+
+export type UsageOperation =
+  | 'evaluation'
+  | 'sentiment-timeline'
+  | 'overall-sentiment'
+  | 'insight-regeneration'
+  | 'schema-discovery'
+  | 'synthetic-metadata'
+  | 'synthetic-transcript'
+  | 'gender-detection'
+  | 'rules-generation'
+  | 'coaching'
+  | 'live-assist'
+  | 'tts'
+  | 'stt'
+  | 'other';
+
+/** What a request was made for - passed down to the callers by each feature */
+export interface UsageContext {
+  operation: UsageOperation;
+  schemaId?: string;
+  callId?: string;
+}
+
+/** Token counts reported by the model provider */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;            // Includes reasoning tokens
+  reasoningTokens?: number;
+  cachedInputTokens?: number;
+}
+
+export interface UsageRecord extends UsageContext {
+  id: string;
+  timestamp: string;
+  model?: string;                  // Deployment / model name for LLM requests
+  inputTokens?: number;
+  outputTokens?: number;
+  reasoningTokens?: number;
+  cachedInputTokens?: number;
+  audioSeconds?: number;           // Audio transcribed (STT) or synthesized (TTS)
+  characters?: number;             // Characters synthesized (TTS is billed per character)
+  latencyMs: number;
+}
+
+export interface ModelPrice {
+  inputPerMillion: number;         // Per 1M input tokens
+  cachedInputPerMillion?: number;  // Per 1M cached input tokens (input price when not set)
+  outputPerMillion: number;        // Per 1M output tokens, reasoning included
+}
+
+export interface PriceTable {
+  currency: string;                // Display only, e.g. "USD"
+  models: Record<string, ModelPrice>;  // Keyed by deployment name (case-insensitive)
+  defaultModel: ModelPrice;        // Used for deployments not in the table
+  sttPerAudioHour: number;
+  ttsPerMillionCharacters: number;
+}
+
+/** Monthly AI spend limit for a schema */
+export interface SchemaBudget {
+  monthlyLimit: number;            // In price table currency
+  warnAtPercent: number;           // Warn once projected spend reaches this share of the limit
+  enforcement: 'warn' | 'block';   // What bulk operations do when the limit would be exceeded
+}
+
+export interface UsageCostSummary {
+  key: string;                     // Schema ID, operation or model
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  audioSeconds: number;
+  characters: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export type BudgetStatus = 'ok' | 'warn' | 'block';
+
+export interface BudgetCheck {
+  status: BudgetStatus;
+  spent: number;                   // Month to date
+  estimate: number;                // Estimated cost of the pending operation
+  limit?: number;
+  message?: string;
+}
@@ -0,0 +1,70 @@
+/**
+ * Outbound webhook definitions
+ * Webhooks are configured per schema. The server detects call lifecycle events when
+ * calls are saved and POSTs them, HMAC-signed, to every matching webhook.
+ */
+
+export type WebhookEventType =
+  | 'call.uploaded'
+  | 'call.transcribed'
+  | 'call.evaluated'
+  | 'call.failed'
+  | 'criterion.critical_failed'    // A critical criterion failed in a new evaluation
+  | 'sentiment.negative'           // Overall call sentiment turned negative
+  | 'insight.matched'              // An insight value equals one of the webhook's triggers
+  | 'webhook.test';                // Sent by the test-fire button
+
+/**
+ * Fire when an evaluation insight has this value,
+ * e.g. risk-assessment / escalationRecommended / true
+ */
+export interface InsightTrigger {
+  categoryId: string;              // Insight category ID (schemaInsights key)
+  fieldId: string;                 // Output field ID within the category
+  value: string | number | boolean;
+}
+
+export interface WebhookConfig {
+  id: string;
+  schemaId: string;
+  name: string;
+  url: string;
+  secret: string;                  // HMAC-SHA256 key for the X-Webhook-Signature header
+  enabled: boolean;
+  events: WebhookEventType[];
+  insightTriggers: InsightTrigger[];   // Used when events include insight.matched
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * One occurrence of an event for a call. The ID is stable for the same change,
+ * so a call saved twice does not fire twice.
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  schemaId: string;
+  callId: string;
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Delivery of one event to one webhook, with its retry state
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  schemaId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;          // Set while a retry is scheduled
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+}
@@ -0,0 +1,36 @@
+import { defineConfig } from "vite";
+
+import { resolve } from 'path'
+
+const projectRoot = process.env.PROJECT_ROOT || import.meta.dirname
+
+// Headless bundles required by the Express server (server/reports.js, server/ingestion.js, server/webhooks.js, server/auth.js)
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      '@': resolve(projectRoot, 'src')
+    }
+  },
+  ssr: {
+    noExternal: true,
+  },
+  build: {
+    ssr: true,
+    outDir: resolve(projectRoot, 'server/bundles'),
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        'report-renderer': resolve(projectRoot, 'src/services/report-headless.ts'),
+        'ingestion': resolve(projectRoot, 'src/services/ingestion.ts'),
+        'webhooks': resolve(projectRoot, 'src/services/webhooks.ts'),
+        'access-control': resolve(projectRoot, 'src/services/access-control.ts'),
+      },
+      output: {
+        format: 'cjs',
+        entryFileNames: '[name].cjs',
+        chunkFileNames: '[name]-[hash].cjs',
+      },
+    },
+  },
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+
+import { resolve } from 'path'
+
+const projectRoot = process.env.PROJECT_ROOT || import.meta.dirname
+
+// https://vitest.dev/config/
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(projectRoot, 'src')
+    }
+  },
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+  },
+});